@@ -1,100 +1,109 @@
 /**
- * Backfill script to create QueueBatch records for existing queue positions.
- * 
- * This script:
- * 1. Finds all events that have queue positions
- * 2. Creates a "Default" batch for each event
- * 3. Links all existing queue positions to their event's batch
- * 
- * Run with: npx tsx scripts/backfill-queue-batches.ts
+ * Migrate queue positions to per-batch uniqueness.
+ *
+ * Queue positions used to be unique per (account, event) with an optional
+ * batch. They are now unique per (account, batch) and every position must
+ * belong to a batch. This script:
+ * 1. Creates a "Default" batch for each event that has unbatched positions
+ * 2. Links those positions to their event's Default batch
+ * 3. Recalculates percentiles within each touched batch
+ *
+ * Run it BEFORE `npx prisma db push` on a database created with the old
+ * schema - the push can't make batch_id required while nulls remain. It uses
+ * raw SQL because the generated client no longer allows a null batch.
+ * Safe to re-run - events that are already migrated are skipped.
+ *
+ * Run with: npx tsx scripts/backfill-queue-batches.ts [--dry-run]
  */
 
-import { PrismaClient } from "@prisma/client";
+import prisma from "../src/lib/db";
+import {
+  DEFAULT_QUEUE_BATCH_TAG,
+  recalculateBatchPercentiles,
+} from "../src/lib/services/queue-batches";
 
-const prisma = new PrismaClient();
+const dryRun = process.argv.includes("--dry-run");
 
 async function main() {
-  console.log("Starting queue batch backfill...\n");
-
-  // Get all events that have queue positions
-  const eventsWithPositions = await prisma.event.findMany({
-    where: {
-      queuePositions: {
-        some: {},
-      },
-    },
-    select: {
-      id: true,
-      eventName: true,
-      tmEventId: true,
-      _count: {
-        select: { queuePositions: true },
-      },
-    },
-  });
+  console.log(dryRun ? "Dry run - no changes will be written" : "Starting queue batch backfill...");
+
+  const events = await prisma.$queryRaw<{ event_id: string; event_name: string; count: bigint }[]>`
+    SELECT qp.event_id, e.event_name, COUNT(*) AS count
+    FROM queue_positions qp
+    JOIN events e ON e.id = qp.event_id
+    WHERE qp.batch_id IS NULL
+    GROUP BY qp.event_id, e.event_name
+  `;
 
-  console.log(`Found ${eventsWithPositions.length} events with queue positions\n`);
+  console.log(`Found ${events.length} events with unbatched queue positions\n`);
 
   let batchesCreated = 0;
   let positionsUpdated = 0;
+  const touchedBatches = new Set<string>();
 
-  for (const event of eventsWithPositions) {
-    console.log(`Processing: ${event.eventName} (${event._count.queuePositions} positions)`);
-
-    // Check if a default batch already exists
-    let batch = await prisma.queueBatch.findUnique({
-      where: {
-        eventId_tag: {
-          eventId: event.id,
-          tag: "Default",
-        },
-      },
-    });
-
-    if (!batch) {
-      // Create the default batch
-      batch = await prisma.queueBatch.create({
-        data: {
-          eventId: event.id,
-          tag: "Default",
-          notes: "Auto-created during migration",
-        },
-      });
-      batchesCreated++;
-      console.log(`  Created "Default" batch: ${batch.id}`);
-    } else {
-      console.log(`  "Default" batch already exists: ${batch.id}`);
+  for (const event of events) {
+    console.log(`Processing: ${event.event_name} (${Number(event.count)} positions)`);
+    if (dryRun) {
+      positionsUpdated += Number(event.count);
+      continue;
     }
 
-    // Update all queue positions for this event to use this batch
-    const result = await prisma.queuePosition.updateMany({
-      where: {
-        eventId: event.id,
-        batchId: null,
-      },
-      data: {
-        batchId: batch.id,
-      },
-    });
-
-    positionsUpdated += result.count;
-    console.log(`  Updated ${result.count} positions\n`);
+    const created = await prisma.$executeRaw`
+      INSERT INTO queue_batches (id, event_id, tag, notes, imported_at, created_at)
+      VALUES (gen_random_uuid()::text, ${event.event_id}, ${DEFAULT_QUEUE_BATCH_TAG},
+              'Auto-created during migration', NOW(), NOW())
+      ON CONFLICT (event_id, tag) DO NOTHING
+    `;
+    batchesCreated += created;
+
+    const [batch] = await prisma.$queryRaw<{ id: string }[]>`
+      SELECT id FROM queue_batches
+      WHERE event_id = ${event.event_id} AND tag = ${DEFAULT_QUEUE_BATCH_TAG}
+    `;
+
+    // The old (account, event) constraint guarantees at most one unbatched
+    // row per account here, but an account may already have a row in the
+    // Default batch - keep that one rather than violate the new constraint.
+    const updated = await prisma.$executeRaw`
+      UPDATE queue_positions qp
+      SET batch_id = ${batch.id}
+      WHERE qp.event_id = ${event.event_id}
+        AND qp.batch_id IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM queue_positions other
+          WHERE other.account_id = qp.account_id AND other.batch_id = ${batch.id}
+        )
+    `;
+    const dropped = await prisma.$executeRaw`
+      DELETE FROM queue_positions
+      WHERE event_id = ${event.event_id} AND batch_id IS NULL
+    `;
+
+    positionsUpdated += updated;
+    touchedBatches.add(batch.id);
+    console.log(
+      `  Linked ${updated} positions to batch ${batch.id}` +
+        (dropped > 0 ? `, removed ${dropped} duplicates` : "")
+    );
+  }
+
+  for (const batchId of touchedBatches) {
+    await recalculateBatchPercentiles(batchId);
   }
 
-  console.log("=".repeat(50));
-  console.log(`Backfill complete!`);
+  console.log("\n" + "=".repeat(50));
+  console.log(dryRun ? "Dry run complete" : "Backfill complete!");
   console.log(`  Batches created: ${batchesCreated}`);
-  console.log(`  Positions updated: ${positionsUpdated}`);
+  console.log(`  Positions ${dryRun ? "to update" : "updated"}: ${positionsUpdated}`);
 
-  // Verify no orphaned positions remain
-  const orphanedCount = await prisma.queuePosition.count({
-    where: { batchId: null },
-  });
+  const [{ count: orphaned }] = await prisma.$queryRaw<{ count: bigint }[]>`
+    SELECT COUNT(*) AS count FROM queue_positions WHERE batch_id IS NULL
+  `;
 
-  if (orphanedCount > 0) {
-    console.log(`\n⚠️  Warning: ${orphanedCount} queue positions still have no batch!`);
+  if (Number(orphaned) > 0) {
+    console.log(`\n⚠️  ${Number(orphaned)} queue positions still have no batch`);
   } else {
-    console.log(`\n✓ All queue positions have been assigned to batches.`);
+    console.log(`\n✓ All queue positions belong to a batch - run \`npx prisma db push\` next.`);
   }
 }
 
@@ -0,0 +1,35 @@
+/**
+ * Create a dashboard user from the command line.
+ * Needed once to bootstrap the first admin - after that use the Access page.
+ *
+ * Run with: npx tsx scripts/create-user.ts <username> <password> [admin|operator|viewer]
+ */
+
+import prisma from "../src/lib/db";
+import { AuthService } from "../src/lib/services/auth";
+
+async function main() {
+  const [username, password, role = "admin"] = process.argv.slice(2);
+
+  if (!username || !password) {
+    console.error("Usage: npx tsx scripts/create-user.ts <username> <password> [admin|operator|viewer]");
+    process.exit(1);
+  }
+
+  const result = await AuthService.createUser({ username, password, role });
+  if (!result.success) {
+    console.error(`Failed: ${result.error}`);
+    process.exit(1);
+  }
+
+  console.log(`Created ${role} user '${result.user?.username}'`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,117 @@
+/**
+ * Encrypt secrets that were stored before field encryption was added, and
+ * re-encrypt values still wrapped with a previous master key (key rotation).
+ *
+ * - Cards: cardNumber + cvv encrypted, cardNumberHash + cardLast4 backfilled
+ * - Account, ImapCredential and GeneratorTask passwords encrypted
+ * - NotificationChannel config (webhook URLs, SMTP passwords) re-encrypted
+ *
+ * Safe to re-run - values already on the active key are skipped.
+ *
+ * To rotate: move the old key into FIELD_ENCRYPTION_PREVIOUS_KEYS, set a new
+ * FIELD_ENCRYPTION_KEY, run this script, then drop the previous key.
+ *
+ * Run with: npx tsx scripts/encrypt-secrets.ts [--dry-run]
+ */
+
+import prisma from "../src/lib/db";
+import {
+  cardNumberFields,
+  decryptField,
+  encryptField,
+  needsRotation,
+} from "../src/lib/services/field-encryption";
+
+const dryRun = process.argv.includes("--dry-run");
+
+function reencrypt(value: string): string {
+  return encryptField(decryptField(value));
+}
+
+async function encryptCards(): Promise<number> {
+  const cards = await prisma.card.findMany({
+    select: { id: true, cardNumber: true, cvv: true, cardNumberHash: true },
+  });
+
+  let updated = 0;
+  for (const card of cards) {
+    if (card.cardNumberHash && !needsRotation(card.cardNumber) && !needsRotation(card.cvv)) {
+      continue;
+    }
+
+    updated++;
+    if (dryRun) continue;
+
+    await prisma.card.update({
+      where: { id: card.id },
+      data: {
+        ...cardNumberFields(decryptField(card.cardNumber)),
+        cvv: reencrypt(card.cvv),
+      },
+    });
+  }
+  return updated;
+}
+
+async function encryptPasswords(
+  label: string,
+  rows: { id: string; password: string | null }[],
+  update: (id: string, password: string) => Promise<unknown>
+): Promise<number> {
+  let updated = 0;
+  for (const row of rows) {
+    if (!row.password || !needsRotation(row.password)) continue;
+
+    updated++;
+    if (dryRun) continue;
+    await update(row.id, reencrypt(row.password));
+  }
+  console.log(`${label}: ${updated} of ${rows.length} ${dryRun ? "need encrypting" : "encrypted"}`);
+  return updated;
+}
+
+async function main() {
+  console.log(dryRun ? "Dry run - no changes will be written" : "Encrypting secrets...");
+
+  const cards = await encryptCards();
+  console.log(`Cards: ${cards} ${dryRun ? "need encrypting" : "encrypted"}`);
+
+  await encryptPasswords(
+    "Accounts",
+    await prisma.account.findMany({ select: { id: true, password: true } }),
+    (id, password) => prisma.account.update({ where: { id }, data: { password } })
+  );
+
+  await encryptPasswords(
+    "IMAP credentials",
+    await prisma.imapCredential.findMany({ select: { id: true, password: true } }),
+    (id, password) => prisma.imapCredential.update({ where: { id }, data: { password } })
+  );
+
+  await encryptPasswords(
+    "Generator tasks",
+    await prisma.generatorTask.findMany({
+      where: { password: { not: null } },
+      select: { id: true, password: true },
+    }),
+    (id, password) => prisma.generatorTask.update({ where: { id }, data: { password } })
+  );
+
+  await encryptPasswords(
+    "Notification channels",
+    (await prisma.notificationChannel.findMany({ select: { id: true, config: true } }))
+      .map((c) => ({ id: c.id, password: c.config })),
+    (id, config) => prisma.notificationChannel.update({ where: { id }, data: { config } })
+  );
+
+  console.log("Done");
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,41 @@
+/**
+ * Move the legacy Discord webhook settings (discord_webhook_success/error/misc
+ * in CheckoutConfig and GeneratorConfig) into notification channels + rules.
+ *
+ * - One Discord channel per distinct webhook URL (shared URLs are merged)
+ * - success -> checkout.success / generator.success + generator.batch_done
+ * - error   -> checkout.error / generator.error
+ * - misc    -> checkout.started / generator.requeue
+ * - The legacy config rows are deleted once migrated
+ *
+ * The server also does this on its own the first time it sends a
+ * notification (see notifications.ts) - use this script to migrate ahead of
+ * time or to preview with --dry-run. Safe to re-run - URLs that already have
+ * a channel are reused.
+ *
+ * Run with: npx tsx scripts/migrate-notification-webhooks.ts [--dry-run]
+ */
+
+import prisma from "../src/lib/db";
+import { migrateLegacyWebhooks } from "../src/lib/services/notifications";
+
+const dryRun = process.argv.includes("--dry-run");
+
+async function main() {
+  console.log(dryRun ? "Dry run - no changes will be written" : "Migrating webhook settings...");
+
+  const result = await migrateLegacyWebhooks({ dryRun });
+
+  console.log(
+    `Done - ${result.channels} channels and ${result.rules} rules ${dryRun ? "to create" : "created"}`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
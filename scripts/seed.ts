@@ -6,6 +6,7 @@
 import { PrismaClient, AccountStatus, PurchaseStatus } from "@prisma/client";
 import * as fs from "fs";
 import * as path from "path";
+import { cardNumberFields, cardNumberIndex, encryptField } from "../src/lib/services/field-encryption";
 
 const prisma = new PrismaClient();
 
@@ -114,15 +115,15 @@ async function importProfiles() {
 
     // Upsert card by cardNumber (accounts can have multiple cards)
     await prisma.card.upsert({
-      where: { cardNumber },
+      where: { cardNumberHash: cardNumberIndex(cardNumber) },
       create: {
         accountId: account.id,
         profileName: row["Profile Name"] || "",
         cardType: row["Card Type"] || "Visa",
-        cardNumber,
+        ...cardNumberFields(cardNumber),
         expMonth: row["Expiration Month"] || "",
         expYear: row["Expiration Year"] || "",
-        cvv: row["CVV"] || "",
+        cvv: encryptField(row["CVV"] || ""),
         billingName: row["Billing Name"] || "",
         billingPhone: row["Billing Phone"] || "",
         billingAddress: row["Billing Address"] || "",
@@ -136,7 +137,7 @@ async function importProfiles() {
         cardType: row["Card Type"] || "Visa",
         expMonth: row["Expiration Month"] || "",
         expYear: row["Expiration Year"] || "",
-        cvv: row["CVV"] || "",
+        cvv: encryptField(row["CVV"] || ""),
         billingName: row["Billing Name"] || "",
         billingPhone: row["Billing Phone"] || "",
         billingAddress: row["Billing Address"] || "",
@@ -221,14 +222,23 @@ async function importQueues() {
       continue;
     }
 
+    const batch = await prisma.queueBatch.upsert({
+      where: { eventId_tag: { eventId: event.id, tag: "Default" } },
+      create: { eventId: event.id, tag: "Default", source: "seed-import" },
+      update: {},
+    });
+
     // Create queue position
-    await prisma.queuePosition.create({
-      data: {
+    await prisma.queuePosition.upsert({
+      where: { accountId_batchId: { accountId: account.id, batchId: batch.id } },
+      create: {
         accountId: account.id,
         eventId: event.id,
+        batchId: batch.id,
         position: entry.position,
         source: "seed-import",
       },
+      update: { position: entry.position },
     });
 
     imported++;
@@ -0,0 +1,58 @@
+/**
+ * Train the account quality model.
+ *
+ * Fits a logistic regression on all queue and purchase history predicting
+ * whether an account lands in the top N% of its next queue and converts,
+ * prints holdout calibration metrics and makes the new model active.
+ * Same as POST /api/analytics/quality-model/train - handy for cron.
+ *
+ * Run with: npx tsx scripts/train-quality-model.ts [--top=10] [--epochs=500]
+ */
+
+import prisma from "../src/lib/db";
+import { QualityModel } from "../src/lib/services/quality-model";
+
+function numberArg(name: string): number | undefined {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg ? Number(arg.split("=")[1]) : undefined;
+}
+
+async function main() {
+  const result = await QualityModel.train({
+    topPercent: numberArg("top"),
+    epochs: numberArg("epochs"),
+  });
+
+  if (!result.success) {
+    console.error(`✗ ${result.error}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const { model } = result;
+  const { holdout } = model.metrics;
+  console.log(`\n✓ Model ${model.id} is now active (top ${model.topPercent}%)`);
+  console.log(`  Training examples: ${model.trainingExamples} (${(model.positiveRate * 100).toFixed(1)}% positive)`);
+  console.log(`  Holdout examples:  ${holdout.examples} (from ${model.metrics.holdoutFrom})`);
+  console.log(`  Holdout AUC:       ${holdout.auc ?? "n/a"}`);
+  console.log(`  Holdout Brier:     ${holdout.brierScore} (no-skill ${(holdout.baseRate * (1 - holdout.baseRate)).toFixed(4)})`);
+  console.log(`  Holdout ECE:       ${holdout.expectedCalibrationError}`);
+
+  console.log("\nCalibration (holdout):");
+  for (const bin of holdout.bins) {
+    console.log(
+      `  ${(bin.minPredicted * 100).toFixed(0).padStart(3)}-${(bin.maxPredicted * 100).toFixed(0).padEnd(3)}% ` +
+        `n=${String(bin.count).padEnd(5)} predicted ${(bin.meanPredicted * 100).toFixed(1)}% ` +
+        `observed ${(bin.observedRate * 100).toFixed(1)}%`
+    );
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error("Error training quality model:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
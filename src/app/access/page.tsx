@@ -0,0 +1,511 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { Loader2, Plus, KeyRound, Users, Copy, Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateTime } from "@/lib/utils";
+import { USER_ROLES, API_KEY_SCOPES } from "@/lib/auth-policy";
+
+interface DashboardUser {
+  id: string;
+  username: string;
+  role: string;
+  isActive: boolean;
+  lastLoginAt: string | null;
+  createdAt: string;
+  _count: { sessions: number };
+}
+
+interface WorkerApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string;
+  isActive: boolean;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export default function AccessPage() {
+  const [users, setUsers] = useState<DashboardUser[]>([]);
+  const [keys, setKeys] = useState<WorkerApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // New user dialog
+  const [userDialogOpen, setUserDialogOpen] = useState(false);
+  const [newUsername, setNewUsername] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [newRole, setNewRole] = useState("viewer");
+
+  // New API key dialog
+  const [keyDialogOpen, setKeyDialogOpen] = useState(false);
+  const [keyName, setKeyName] = useState("");
+  const [keyScopes, setKeyScopes] = useState<string[]>(["checkout"]);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [usersRes, keysRes] = await Promise.all([
+        fetch("/api/auth/users"),
+        fetch("/api/auth/api-keys"),
+      ]);
+      const usersData = await usersRes.json();
+      const keysData = await keysRes.json();
+      setUsers(usersData.users || []);
+      setKeys(keysData.keys || []);
+    } catch (error) {
+      console.error("Failed to fetch access data:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const updateUser = async (user: DashboardUser, data: Record<string, unknown>) => {
+    try {
+      const response = await fetch(`/api/auth/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      toast({ title: "User Updated", description: user.username });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update user",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResetPassword = (user: DashboardUser) => {
+    const password = window.prompt(`New password for ${user.username} (min 10 characters)`);
+    if (password) {
+      updateUser(user, { password });
+    }
+  };
+
+  const handleCreateUser = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/auth/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: newUsername, password: newPassword, role: newRole }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      toast({ title: "User Created", description: result.user.username });
+      setUserDialogOpen(false);
+      setNewUsername("");
+      setNewPassword("");
+      setNewRole("viewer");
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create user",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateKey = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/auth/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: keyName, scopes: keyScopes }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setCreatedKey(result.key);
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create API key",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevokeKey = async (key: WorkerApiKey) => {
+    if (!confirm(`Revoke API key for ${key.name}? The worker will stop authenticating immediately.`)) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/auth/api-keys/${key.id}`, { method: "DELETE" });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      toast({ title: "API Key Revoked", description: key.name });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke API key",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const closeKeyDialog = (open: boolean) => {
+    setKeyDialogOpen(open);
+    if (!open) {
+      setCreatedKey(null);
+      setKeyName("");
+      setKeyScopes(["checkout"]);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Access</h1>
+        <p className="text-muted-foreground">
+          Dashboard users and the API keys daemons use for webhooks and job updates
+        </p>
+      </div>
+
+      {/* Users */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Users
+            </CardTitle>
+            <CardDescription>
+              Admin: everything. Operator: all but admin tools. Viewer: read-only, no card data.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setUserDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New User
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Username</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Last Login</TableHead>
+                <TableHead>Sessions</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => (
+                <TableRow key={user.id}>
+                  <TableCell className="font-medium">{user.username}</TableCell>
+                  <TableCell>
+                    <Select value={user.role} onValueChange={(role) => updateUser(user, { role })}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {USER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {role}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={user.isActive}
+                      onCheckedChange={(isActive) => updateUser(user, { isActive })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {user.lastLoginAt ? formatDateTime(user.lastLoginAt) : "Never"}
+                  </TableCell>
+                  <TableCell>{user._count.sessions}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" onClick={() => handleResetPassword(user)}>
+                      Reset Password
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* API Keys */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Worker API Keys
+            </CardTitle>
+            <CardDescription>
+              Daemons send these in the x-api-key header. One key per worker so it can be revoked on its own.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setKeyDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New API Key
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {keys.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">No API keys yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Worker</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead>Last Used</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {keys.map((key) => (
+                  <TableRow key={key.id} className={key.isActive ? "" : "opacity-50"}>
+                    <TableCell className="font-medium">{key.name}</TableCell>
+                    <TableCell className="font-mono text-xs">{key.keyPrefix}…</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {key.scopes.split(",").map((scope) => (
+                          <Badge key={scope} variant="outline">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {key.lastUsedAt ? (
+                        <>
+                          {formatDateTime(key.lastUsedAt)}
+                          {key.lastUsedIp && (
+                            <span className="block text-xs text-muted-foreground">{key.lastUsedIp}</span>
+                          )}
+                        </>
+                      ) : (
+                        "Never"
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {key.isActive ? (
+                        <Badge variant="secondary">Active</Badge>
+                      ) : (
+                        <Badge variant="destructive">Revoked</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {key.isActive && (
+                        <Button variant="outline" size="sm" onClick={() => handleRevokeKey(key)}>
+                          <Ban className="mr-2 h-4 w-4" />
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* New User Dialog */}
+      <Dialog open={userDialogOpen} onOpenChange={setUserDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New User</DialogTitle>
+            <DialogDescription>Passwords must be at least 10 characters.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-username">Username</Label>
+              <Input
+                id="new-username"
+                value={newUsername}
+                onChange={(e) => setNewUsername(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={newRole} onValueChange={setNewRole}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {role}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUserDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateUser} disabled={saving || !newUsername || !newPassword}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* New API Key Dialog */}
+      <Dialog open={keyDialogOpen} onOpenChange={closeKeyDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Worker API Key</DialogTitle>
+            <DialogDescription>
+              {createdKey
+                ? "Copy this key now - it won't be shown again."
+                : "Create a key for one daemon instance."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdKey ? (
+            <div className="flex gap-2">
+              <Input readOnly value={createdKey} className="font-mono text-xs" />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => {
+                  navigator.clipboard.writeText(createdKey);
+                  toast({ title: "Copied", description: "API key copied to clipboard" });
+                }}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="key-name">Worker name</Label>
+                <Input
+                  id="key-name"
+                  value={keyName}
+                  onChange={(e) => setKeyName(e.target.value)}
+                  placeholder="checkout-vps-1"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                {API_KEY_SCOPES.map((scope) => (
+                  <div key={scope} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`scope-${scope}`}
+                      checked={keyScopes.includes(scope)}
+                      onCheckedChange={(checked) =>
+                        setKeyScopes((prev) =>
+                          checked ? [...prev, scope] : prev.filter((s) => s !== scope)
+                        )
+                      }
+                    />
+                    <Label htmlFor={`scope-${scope}`} className="font-normal">
+                      {scope}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {createdKey ? (
+              <Button onClick={() => closeKeyDialog(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => closeKeyDialog(false)} disabled={saving}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreateKey} disabled={saving || !keyName || keyScopes.length === 0}>
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create Key
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
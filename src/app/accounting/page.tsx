@@ -0,0 +1,420 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { Download, FileText, Loader2, Plus, RefreshCw, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+
+type AccountingFormat = "IIF" | "XERO_CSV";
+
+interface AccountMapping {
+  inventory: string;
+  cardDefault: string;
+  cards: Record<string, string>;
+  receivable: string;
+  revenue: string;
+  fees: string;
+  cogs: string;
+  bank: string;
+  xeroTaxRate: string;
+}
+
+interface AccountingExportRecord {
+  id: string;
+  format: AccountingFormat;
+  periodStart: string;
+  periodEnd: string;
+  version: number;
+  checksum: string;
+  entryCount: number;
+  totalDebits: number;
+  summary: Record<string, { entries: number; amount: number }> | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+const FORMAT_LABELS: Record<AccountingFormat, string> = {
+  IIF: "QuickBooks IIF",
+  XERO_CSV: "Xero CSV",
+};
+
+const MAPPING_FIELDS: Array<{ key: Exclude<keyof AccountMapping, "cards">; label: string; help: string }> = [
+  { key: "inventory", label: "Inventory", help: "Debited on purchases, credited by cost of sales" },
+  { key: "cardDefault", label: "Card (default)", help: "Credited on purchases by cards with no mapping below" },
+  { key: "receivable", label: "Receivable", help: "Net payouts owed by TicketVault" },
+  { key: "revenue", label: "Revenue", help: "Gross ticket sales" },
+  { key: "fees", label: "Marketplace fees", help: "TicketVault fees" },
+  { key: "cogs", label: "Cost of goods sold", help: "Our cost of tickets sold" },
+  { key: "bank", label: "Bank", help: "Where remittances land" },
+  { key: "xeroTaxRate", label: "Xero tax rate", help: "*TaxRate column in Xero exports" },
+];
+
+// First and last day of last month, as YYYY-MM-DD
+function lastMonthRange(): { from: string; to: string } {
+  const now = new Date();
+  const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 0));
+  return { from: from.toISOString().split("T")[0], to: to.toISOString().split("T")[0] };
+}
+
+export default function AccountingPage() {
+  const { toast } = useToast();
+  const [exports, setExports] = useState<AccountingExportRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [format, setFormat] = useState<AccountingFormat>("IIF");
+  const [from, setFrom] = useState(() => lastMonthRange().from);
+  const [to, setTo] = useState(() => lastMonthRange().to);
+
+  const [mapping, setMapping] = useState<AccountMapping | null>(null);
+  const [cardRows, setCardRows] = useState<Array<{ last4: string; account: string }>>([]);
+  const [savingMapping, setSavingMapping] = useState(false);
+
+  const fetchExports = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/accounting/exports");
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setExports(data.exports);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to fetch accounting exports",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const fetchMapping = useCallback(async () => {
+    try {
+      const response = await fetch("/api/accounting/mapping");
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setMapping(data.mapping);
+      setCardRows(Object.entries(data.mapping.cards as Record<string, string>).map(([last4, account]) => ({ last4, account })));
+    } catch (error) {
+      console.error("Failed to fetch account mapping:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchExports();
+    fetchMapping();
+  }, [fetchExports, fetchMapping]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const response = await fetch("/api/accounting/exports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format, from, to }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      toast({
+        title: data.unchanged ? "No changes" : `Version ${data.export.version} created`,
+        description: data.unchanged
+          ? `Same as version ${data.export.version} - downloading that one`
+          : `${data.export.entryCount} journal entries`,
+      });
+      window.location.href = `/api/export/accounting/${data.export.id}`;
+      fetchExports();
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleSaveMapping = async () => {
+    if (!mapping) return;
+    setSavingMapping(true);
+    try {
+      const cards: Record<string, string> = {};
+      for (const row of cardRows) {
+        if (row.last4.trim() || row.account.trim()) cards[row.last4.trim()] = row.account.trim();
+      }
+
+      const response = await fetch("/api/accounting/mapping", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mapping: { ...mapping, cards } }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      setMapping(data.mapping);
+      toast({ title: "Account mapping saved", description: "Used by the next export" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save mapping",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingMapping(false);
+    }
+  };
+
+  const formatPeriod = (e: AccountingExportRecord) => {
+    const end = new Date(new Date(e.periodEnd).getTime() - 1);
+    return `${e.periodStart.split("T")[0]} → ${end.toISOString().split("T")[0]}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Accounting</h1>
+          <p className="text-muted-foreground">
+            Journal exports of purchases, invoices, payouts and cancellations
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchExports} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Generate */}
+      <Card>
+        <CardHeader>
+          <CardTitle>New Export</CardTitle>
+          <CardDescription>
+            Dates are UTC days. Re-running an unchanged period returns the existing version.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-4 flex-wrap">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as AccountingFormat)}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FORMAT_LABELS).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-from">From</Label>
+              <Input id="export-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-to">To</Label>
+              <Input id="export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <Button onClick={handleGenerate} disabled={generating || !from || !to}>
+              {generating ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileText className="mr-2 h-4 w-4" />
+              )}
+              Generate
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Export History</CardTitle>
+          <CardDescription>Every version is kept and downloads exactly as generated.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Format</TableHead>
+                <TableHead>Version</TableHead>
+                <TableHead className="text-right">Entries</TableHead>
+                <TableHead className="text-right">Total Debits</TableHead>
+                <TableHead>Breakdown</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && exports.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : exports.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    No exports yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                exports.map((e) => (
+                  <TableRow key={e.id}>
+                    <TableCell className="font-mono text-sm whitespace-nowrap">{formatPeriod(e)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{FORMAT_LABELS[e.format]}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      v{e.version}
+                      <div className="font-mono text-xs text-muted-foreground" title={e.checksum}>
+                        {e.checksum.slice(0, 10)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{e.entryCount}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(e.totalDebits)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {Object.entries(e.summary || {}).map(([kind, s]) => (
+                          <Badge key={kind} variant="secondary" title={formatCurrency(s.amount)}>
+                            {kind.toLowerCase()} {s.entries}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {formatDateTime(e.createdAt)}
+                      {e.createdBy && <div className="text-xs text-muted-foreground">{e.createdBy}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={() => (window.location.href = `/api/export/accounting/${e.id}`)}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Account Mapping */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Account Mapping</CardTitle>
+          <CardDescription>
+            QuickBooks account names or Xero account codes. Each export keeps a copy of the mapping it used.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!mapping ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : (
+            <>
+              <div className="grid gap-4 md:grid-cols-2">
+                {MAPPING_FIELDS.map((field) => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={`mapping-${field.key}`}>{field.label}</Label>
+                    <Input
+                      id={`mapping-${field.key}`}
+                      value={mapping[field.key]}
+                      onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground">{field.help}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Per-card accounts</Label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCardRows([...cardRows, { last4: "", account: "" }])}
+                  >
+                    <Plus className="mr-2 h-3 w-3" />
+                    Add card
+                  </Button>
+                </div>
+                {cardRows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">All card purchases use the default card account.</p>
+                ) : (
+                  cardRows.map((row, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        className="w-[100px] font-mono"
+                        placeholder="Last 4"
+                        maxLength={4}
+                        value={row.last4}
+                        onChange={(e) =>
+                          setCardRows(cardRows.map((r, i) => (i === index ? { ...r, last4: e.target.value } : r)))
+                        }
+                      />
+                      <Input
+                        placeholder="Account"
+                        value={row.account}
+                        onChange={(e) =>
+                          setCardRows(cardRows.map((r, i) => (i === index ? { ...r, account: e.target.value } : r)))
+                        }
+                      />
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setCardRows(cardRows.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <Button onClick={handleSaveMapping} disabled={savingMapping}>
+                {savingMapping ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save Mapping
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
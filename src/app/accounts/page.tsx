@@ -26,6 +26,7 @@ import { formatDate } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { PaginationControls } from "@/components/pagination-controls";
 import { AccountEditDialog } from "@/components/account-edit-dialog";
+import { SecretReveal } from "@/components/secret-reveal";
 import { TagList, TagFilter } from "@/components/tags";
 
 interface AccountTag {
@@ -37,7 +38,6 @@ interface AccountTag {
 interface Account {
   id: string;
   email: string;
-  password: string | null;
   status: string;
   hasPassword: boolean;
   imapProvider: string | null;
@@ -147,9 +147,6 @@ export default function AccountsPage() {
   const [loadingExpanded, setLoadingExpanded] = useState<Set<string>>(new Set());
   const [expandedTab, setExpandedTab] = useState<Record<string, "purchases" | "queues">>({});
   
-  // Show passwords toggle
-  const [showPasswords, setShowPasswords] = useState(false);
-  
   // POS import state
   const [posImportedFilter, setPosImportedFilter] = useState<string>("all");
   const [importingIds, setImportingIds] = useState<Set<string>>(new Set());
@@ -320,7 +317,6 @@ export default function AccountsPage() {
     // Build CSV
     const headers = [
       "Email",
-      "Password",
       "Status",
       "IMAP Provider",
       "Card Profile",
@@ -334,7 +330,6 @@ export default function AccountsPage() {
 
     const rows = toExport.map((account) => [
       account.email,
-      account.password || "",
       account.status,
       account.imapProvider || "",
       account.cards[0]?.profileName || "",
@@ -602,9 +597,6 @@ export default function AccountsPage() {
               </Button>
             </>
           )}
-          <Button variant="outline" onClick={() => setShowPasswords(!showPasswords)}>
-            {showPasswords ? "Hide Passwords" : "Show Passwords"}
-          </Button>
           {selectedIds.size > 0 ? (
             <Button onClick={() => handleExport(false)}>
               <Download className="h-4 w-4 mr-2" />
@@ -804,14 +796,15 @@ export default function AccountsPage() {
                             </span>
                           </TableCell>
                           <TableCell onClick={(e) => e.stopPropagation()}>
-                            {account.password ? (
-                              <span
-                                className="cursor-pointer hover:text-primary hover:underline font-mono text-sm"
-                                onClick={() => copyToClipboard(account.password!, "Password")}
-                                title="Click to copy"
-                              >
-                                {showPasswords ? account.password : "••••••••"}
-                              </span>
+                            {account.hasPassword ? (
+                              <SecretReveal
+                                entity="account"
+                                id={account.id}
+                                field="password"
+                                label="Password"
+                                masked="••••••••"
+                                className="text-sm"
+                              />
                             ) : (
                               <span className="text-muted-foreground">-</span>
                             )}
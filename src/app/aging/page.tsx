@@ -0,0 +1,397 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { ArrowDownRight, Clock, DollarSign, Loader2, Package, RefreshCw, Search, TrendingDown, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StatsCard } from "@/components/stats-card";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+interface AgingBucket {
+  key: string;
+  label: string;
+}
+
+interface AgingCell {
+  listings: number;
+  tickets: number;
+  value: number;
+  cost: number;
+  expectedLoss: number;
+}
+
+interface AgingListing {
+  listingId: string;
+  ticketGroupId: number;
+  eventName: string;
+  eventDateTime: string | null;
+  section: string;
+  row: string;
+  quantity: number;
+  cost: number;
+  price: number;
+  daysListed: number;
+  daysToEvent: number | null;
+  ageBucket: string;
+  eventBucket: string;
+  zoneName: string | null;
+  floorPrice: number | null;
+  floorScrapedAt: string | null;
+  priceVsFloor: number | null;
+  expectedLoss: number;
+  suggestedPrice: number | null;
+  suggestedMarkdown: number | null;
+  reason: string | null;
+}
+
+interface AgingTotals extends AgingCell {
+  withMarkdown: number;
+  markdownValue: number;
+}
+
+const UNKNOWN_EVENT_BUCKET = "unknown";
+
+export default function AgingPage() {
+  const { toast } = useToast();
+  const [ageBuckets, setAgeBuckets] = useState<AgingBucket[]>([]);
+  const [eventBuckets, setEventBuckets] = useState<AgingBucket[]>([]);
+  const [grid, setGrid] = useState<Record<string, Record<string, AgingCell>>>({});
+  const [totals, setTotals] = useState<AgingTotals | null>(null);
+  const [listings, setListings] = useState<AgingListing[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+
+  const [search, setSearch] = useState("");
+  const [cell, setCell] = useState<{ ageBucket: string; eventBucket: string } | null>(null);
+  const [markdownOnly, setMarkdownOnly] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (search) params.set("search", search);
+      if (cell) {
+        params.set("ageBucket", cell.ageBucket);
+        params.set("eventBucket", cell.eventBucket);
+      }
+      if (markdownOnly) params.set("markdownOnly", "true");
+
+      const response = await fetch(`/api/listings/aging?${params}`);
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setAgeBuckets(data.ageBuckets);
+      setEventBuckets([...data.eventBuckets, { key: UNKNOWN_EVENT_BUCKET, label: "No date" }]);
+      setGrid(data.grid);
+      setTotals(data.totals);
+      setListings(data.listings);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to fetch inventory aging",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [search, cell, markdownOnly, toast]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchReport, 300);
+    return () => clearTimeout(timer);
+  }, [fetchReport]);
+
+  const handleApply = async (listing: AgingListing) => {
+    if (listing.suggestedPrice === null) return;
+    setApplyingId(listing.listingId);
+    try {
+      const response = await fetch("/api/listings/aging/markdown", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ listingId: listing.listingId, price: listing.suggestedPrice }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      toast({
+        title: "Price updated",
+        description: `${listing.eventName} ${listing.section}/${listing.row}: ${formatCurrency(data.oldPrice)} → ${formatCurrency(data.newPrice)}`,
+      });
+      fetchReport();
+    } catch (error) {
+      toast({
+        title: "Markdown failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setApplyingId(null);
+    }
+  };
+
+  const isSelected = (ageBucket: string, eventBucket: string) =>
+    cell?.ageBucket === ageBucket && cell.eventBucket === eventBucket;
+
+  // Red cells would lose money if sold at the zone floor
+  const cellClass = (c: AgingCell | undefined) => {
+    if (!c) return "text-muted-foreground";
+    if (c.expectedLoss > 0) return "bg-red-50";
+    return "bg-muted/40";
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Inventory Aging</h1>
+          <p className="text-muted-foreground">
+            Unsold listings by time on the market and time left, against the zone floor
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchReport} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      {totals && (
+        <div className="grid gap-4 md:grid-cols-4">
+          <StatsCard
+            title="Unsold Listings"
+            value={totals.listings}
+            icon={Package}
+            description={`${totals.tickets} tickets`}
+          />
+          <StatsCard
+            title="Listed Value"
+            value={formatCurrency(totals.value)}
+            icon={DollarSign}
+            description={`${formatCurrency(totals.cost)} cost`}
+          />
+          <StatsCard
+            title="Expected Loss"
+            value={formatCurrency(totals.expectedLoss)}
+            icon={TrendingDown}
+            description="If everything sold at the zone floor"
+            valueClassName={totals.expectedLoss > 0 ? "text-red-600" : undefined}
+          />
+          <StatsCard
+            title="Markdowns Suggested"
+            value={totals.withMarkdown}
+            icon={ArrowDownRight}
+            description={`${formatCurrency(totals.markdownValue)} off list value`}
+          />
+        </div>
+      )}
+
+      {/* Aging Grid */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Aging Grid</CardTitle>
+          <CardDescription>
+            Rows: days listed. Columns: days to event. Click a cell to see its listings.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>
+                  <Clock className="h-4 w-4 inline mr-1" />
+                  Listed
+                </TableHead>
+                {eventBuckets.map((b) => (
+                  <TableHead key={b.key} className="text-center">
+                    {b.label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ageBuckets.map((age) => (
+                <TableRow key={age.key}>
+                  <TableCell className="font-medium whitespace-nowrap">{age.label}</TableCell>
+                  {eventBuckets.map((ev) => {
+                    const c = grid[age.key]?.[ev.key];
+                    return (
+                      <TableCell
+                        key={ev.key}
+                        className={`text-center ${c ? "cursor-pointer" : ""} ${cellClass(c)} ${
+                          isSelected(age.key, ev.key) ? "ring-2 ring-primary ring-inset" : ""
+                        }`}
+                        onClick={() =>
+                          c &&
+                          setCell(isSelected(age.key, ev.key) ? null : { ageBucket: age.key, eventBucket: ev.key })
+                        }
+                      >
+                        {c ? (
+                          <>
+                            <div className="font-medium">{c.listings}</div>
+                            <div className="text-xs text-muted-foreground">{formatCurrency(c.value)}</div>
+                            {c.expectedLoss > 0 && (
+                              <div className="text-xs text-red-600">-{formatCurrency(c.expectedLoss)}</div>
+                            )}
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Filters */}
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="relative flex-1 min-w-[200px] max-w-sm">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search by event..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="markdown-only" checked={markdownOnly} onCheckedChange={setMarkdownOnly} />
+          <Label htmlFor="markdown-only">Markdowns only</Label>
+        </div>
+        {cell && (
+          <Badge variant="secondary" className="gap-1">
+            Listed {ageBuckets.find((b) => b.key === cell.ageBucket)?.label}, event{" "}
+            {eventBuckets.find((b) => b.key === cell.eventBucket)?.label}
+            <button onClick={() => setCell(null)} className="ml-1">
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        )}
+      </div>
+
+      {/* Listings */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Listings</CardTitle>
+          <CardDescription>
+            Soonest events first. Prices are per ticket; expected loss is for the whole listing after marketplace fees.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Seats</TableHead>
+                <TableHead className="text-right">Listed</TableHead>
+                <TableHead className="text-right">To Event</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Zone Floor</TableHead>
+                <TableHead className="text-right">Expected Loss</TableHead>
+                <TableHead>Suggested</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && listings.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : listings.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                    No unsold listings match these filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                listings.map((l) => (
+                  <TableRow key={l.listingId}>
+                    <TableCell className="max-w-[240px]">
+                      <div className="font-medium truncate">{l.eventName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {l.eventDateTime ? formatDate(l.eventDateTime) : "No date"}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      <span className="font-mono">
+                        {l.section} / {l.row}
+                      </span>{" "}
+                      <span className="text-muted-foreground">×{l.quantity}</span>
+                      {l.zoneName && <div className="text-xs text-muted-foreground">{l.zoneName}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{l.daysListed}d</TableCell>
+                    <TableCell className="text-right">{l.daysToEvent !== null ? `${l.daysToEvent}d` : "-"}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(l.cost)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(l.price)}</TableCell>
+                    <TableCell className="text-right">
+                      {l.floorPrice !== null ? (
+                        <>
+                          {formatCurrency(l.floorPrice)}
+                          {l.priceVsFloor !== null && l.priceVsFloor !== 0 && (
+                            <div className={`text-xs ${l.priceVsFloor > 0 ? "text-orange-600" : "text-green-600"}`}>
+                              {l.priceVsFloor > 0 ? "+" : ""}
+                              {formatCurrency(l.priceVsFloor)}
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right ${l.expectedLoss > 0 ? "text-red-600" : "text-muted-foreground"}`}>
+                      {l.expectedLoss > 0 ? formatCurrency(l.expectedLoss) : "-"}
+                    </TableCell>
+                    <TableCell>
+                      {l.suggestedPrice !== null ? (
+                        <div className="flex items-center gap-2">
+                          <div title={l.reason || undefined}>
+                            <div className="font-medium whitespace-nowrap">{formatCurrency(l.suggestedPrice)}</div>
+                            <div className="text-xs text-muted-foreground whitespace-nowrap">
+                              -{formatCurrency(l.suggestedMarkdown || 0)}
+                            </div>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={applyingId !== null}
+                            onClick={() => handleApply(l)}
+                          >
+                            {applyingId === l.listingId ? (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            ) : (
+                              "Apply"
+                            )}
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground text-sm">Hold</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
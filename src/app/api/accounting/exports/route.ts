@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AccountingExport } from "@/lib/services/accounting-export";
+import { recordAuditEvent, resolveActor } from "@/lib/services/audit-log";
+
+/**
+ * GET /api/accounting/exports
+ * Past accounting exports, newest first
+ *
+ * Query Parameters:
+ * - format: IIF or XERO_CSV
+ * - limit: Max rows (default 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const exports = await AccountingExport.list({
+      format: searchParams.get("format"),
+      limit: parseInt(searchParams.get("limit") || "100", 10),
+    });
+
+    return NextResponse.json({ success: true, exports });
+  } catch (error) {
+    console.error("List accounting exports error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/accounting/exports
+ * Generate a journal file for a date range
+ *
+ * Body:
+ * - format: "IIF" (QuickBooks) or "XERO_CSV"
+ * - from, to: YYYY-MM-DD, both inclusive
+ *
+ * Returns the new version, or the latest one with unchanged: true when the
+ * generated file is identical to it. Download via GET /api/export/accounting/[id].
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = await AccountingExport.create({
+      format: body.format,
+      from: body.from,
+      to: body.to,
+      createdBy: resolveActor(request),
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    if (!result.unchanged) {
+      await recordAuditEvent({
+        action: "accounting.create_export",
+        category: "accounting",
+        params: { format: body.format, from: body.from, to: body.to, version: result.export.version },
+        affected: { journal_entry: result.export.entryCount },
+      }, request);
+    }
+
+    return NextResponse.json({
+      success: true,
+      export: { ...result.export, totalDebits: Number(result.export.totalDebits) },
+      unchanged: result.unchanged,
+    });
+  } catch (error) {
+    console.error("Create accounting export error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
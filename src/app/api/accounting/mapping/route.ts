@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AccountingExport, DEFAULT_ACCOUNT_MAPPING } from "@/lib/services/accounting-export";
+import { recordAuditEvent } from "@/lib/services/audit-log";
+
+/**
+ * GET /api/accounting/mapping
+ * Ledger accounts used by accounting exports (stored mapping over the defaults)
+ */
+export async function GET() {
+  try {
+    const mapping = await AccountingExport.getMapping();
+    return NextResponse.json({ success: true, mapping, defaults: DEFAULT_ACCOUNT_MAPPING });
+  } catch (error) {
+    console.error("Get accounting mapping error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/accounting/mapping
+ * Replace the account mapping
+ *
+ * Body: { inventory, cardDefault, cards: { "<last4>": account }, receivable,
+ *         revenue, fees, cogs, bank, xeroTaxRate } - omitted keys use the defaults
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = await AccountingExport.saveMapping(body.mapping ?? body);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    await recordAuditEvent({
+      action: "accounting.update_mapping",
+      category: "accounting",
+      params: result.mapping,
+    }, request);
+
+    return NextResponse.json({ success: true, mapping: result.mapping });
+  } catch (error) {
+    console.error("Update accounting mapping error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { encryptOptional } from "@/lib/services/field-encryption";
 import { AccountStatus } from "@prisma/client";
 import { calculatePercentile } from "@/lib/analytics";
+import {
+  ACCOUNT_STATUS_TRANSITIONS,
+  changeAccountStatus,
+  getAccountStatusHistory,
+} from "@/lib/services/account-status";
+import { resolveActor } from "@/lib/services/audit-log";
 
 export async function GET(
   request: NextRequest,
@@ -55,6 +62,9 @@ export async function GET(
                 eventDateRaw: true,
               },
             },
+            batch: {
+              select: { id: true, tag: true },
+            },
           },
         },
         proxies: {
@@ -73,25 +83,25 @@ export async function GET(
     }
 
     // Calculate percentiles for all queue positions (some may be cached in DB, others need calculation)
-    const eventIds = [...new Set(account.queuePositions.map(q => q.eventId))];
+    const batchIds = [...new Set(account.queuePositions.map(q => q.batchId))];
     
-    // Cache of all positions per event for percentile calculation
-    const eventPositionsMap: Record<string, number[]> = {};
+    // Cache of all positions per batch for percentile calculation
+    const batchPositionsMap: Record<string, number[]> = {};
     
-    for (const eventId of eventIds) {
-      // Get all non-excluded positions for this event (same as Queue Analytics)
+    for (const batchId of batchIds) {
+      // Get all non-excluded positions for this batch (same as Queue Analytics)
       const allPositions = await prisma.queuePosition.findMany({
-        where: { eventId, excluded: false },
+        where: { batchId, excluded: false },
         select: { position: true },
         orderBy: { position: "asc" },
       });
       
-      eventPositionsMap[eventId] = allPositions.map(p => p.position);
+      batchPositionsMap[batchId] = allPositions.map(p => p.position);
     }
     
     // Build queue positions with calculated/cached percentiles
     const queuePositionsWithPercentile = account.queuePositions.map(pos => {
-      const sortedPositions = eventPositionsMap[pos.eventId] || [];
+      const sortedPositions = batchPositionsMap[pos.batchId] || [];
       const totalParticipants = sortedPositions.length;
       
       // Check if we need to calculate (missing from DB)
@@ -141,7 +151,7 @@ export async function GET(
         id: true,
         profileName: true,
         cardType: true,
-        cardNumber: true,
+        cardLast4: true,
       },
       orderBy: { profileName: "asc" },
     });
@@ -152,7 +162,7 @@ export async function GET(
         id: card.id,
         profileName: card.profileName,
         cardType: card.cardType,
-        cardNumber: card.cardNumber,
+        cardLast4: card.cardLast4,
       });
     }
 
@@ -161,21 +171,35 @@ export async function GET(
       id: c.id,
       profileName: c.profileName,
       cardType: c.cardType,
-      cardNumber: `****${c.cardNumber.slice(-4)}`,
+      cardNumber: `****${c.cardLast4}`,
       expMonth: c.expMonth,
       expYear: c.expYear,
       billingName: c.billingName,
     }));
 
+    const statusHistory = await getAccountStatusHistory(id, 20);
+
+    // Secrets stay encrypted server-side - use /api/secrets/reveal to view them
+    const { password, imapCredential, ...accountData } = account;
+
     return NextResponse.json({ 
       account: {
-        ...account,
+        ...accountData,
+        hasPassword: !!password,
+        imapCredential: imapCredential && {
+          id: imapCredential.id,
+          email: imapCredential.email,
+          provider: imapCredential.provider,
+        },
         cards: formattedCards,
         queuePositions: queuePositionsWithPercentile,
+        statusHistory,
       },
+      // Statuses reachable without an override
+      allowedStatuses: ACCOUNT_STATUS_TRANSITIONS[account.status],
       availableCards: availableCards.map(c => ({
         ...c,
-        cardNumber: `****${c.cardNumber.slice(-4)}`,
+        cardNumber: `****${c.cardLast4}`,
       })),
     });
   } catch (error) {
@@ -222,28 +246,24 @@ export async function PATCH(
       updateData.email = body.email;
     }
 
-    // Handle status update
-    if (body.status !== undefined) {
-      if (!Object.values(AccountStatus).includes(body.status)) {
-        return NextResponse.json(
-          { error: `Invalid status: ${body.status}` },
-          { status: 400 }
-        );
-      }
-      updateData.status = body.status;
+    if (body.status !== undefined && !Object.values(AccountStatus).includes(body.status)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${body.status}` },
+        { status: 400 }
+      );
     }
 
     // Handle other fields
-    if (body.password !== undefined) updateData.password = body.password || null;
+    if (body.password !== undefined) updateData.password = encryptOptional(body.password);
     if (body.notes !== undefined) updateData.notes = body.notes || null;
     if (body.imapProvider !== undefined) updateData.imapProvider = body.imapProvider || null;
     if (body.phoneNumber !== undefined) updateData.phoneNumber = body.phoneNumber || null;
 
     // Handle card linking (accounts can have multiple cards now)
-    if (body.cardId !== undefined && body.cardId !== null && body.cardId !== "") {
-      // Link to new card
+    const linkCardId = body.cardId !== undefined && body.cardId !== null && body.cardId !== "" ? body.cardId : null;
+    if (linkCardId) {
       const card = await prisma.card.findUnique({
-        where: { id: body.cardId },
+        where: { id: linkCardId },
       });
 
       if (!card) {
@@ -257,38 +277,63 @@ export async function PATCH(
           { status: 400 }
         );
       }
+    }
+
+    // Status, card link and field updates succeed or fail together
+    const result = await prisma.$transaction(async (tx) => {
+      // Status changes go through the lifecycle rules (BANNED -> ACTIVE etc. need statusOverride + statusReason)
+      if (body.status !== undefined) {
+        const statusResult = await changeAccountStatus(id, body.status, {
+          reason: body.statusReason,
+          override: body.statusOverride === true,
+          source: "manual",
+          actor: resolveActor(request),
+        }, tx);
+        if (!statusResult.success) return { error: statusResult.error };
+      }
 
       // Link the card to this account (accounts can have multiple cards)
-      await prisma.card.update({
-        where: { id: body.cardId },
-        data: { accountId: id },
-      });
-    }
+      if (linkCardId) {
+        await tx.card.update({
+          where: { id: linkCardId },
+          data: { accountId: id },
+        });
+      }
 
-    const account = await prisma.account.update({
-      where: { id },
-      data: updateData,
-      include: {
-        cards: {
-          where: { deletedAt: null },
-          select: {
-            id: true,
-            profileName: true,
-            cardType: true,
-            cardNumber: true,
+      const account = await tx.account.update({
+        where: { id },
+        data: updateData,
+        include: {
+          cards: {
+            where: { deletedAt: null },
+            select: {
+              id: true,
+              profileName: true,
+              cardType: true,
+              cardLast4: true,
+            },
+            orderBy: { createdAt: "asc" },
           },
-          orderBy: { createdAt: "asc" },
         },
-      },
+      });
+      return { account };
     });
 
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    const { account } = result;
+
+    const { password, ...accountData } = account;
+
     return NextResponse.json({ 
       success: true,
       account: {
-        ...account,
+        ...accountData,
+        hasPassword: !!password,
         cards: account.cards.map(c => ({
           ...c,
-          cardNumber: `****${c.cardNumber.slice(-4)}`,
+          cardNumber: `****${c.cardLast4}`,
         })),
       },
     });
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { AccountStatus, Prisma } from "@prisma/client";
+import { changeAccountStatuses } from "@/lib/services/account-status";
+import { resolveActor } from "@/lib/services/audit-log";
 
 /**
  * GET /api/accounts
@@ -122,7 +124,7 @@ export async function GET(request: NextRequest) {
             select: {
               id: true,
               cardType: true,
-              cardNumber: true,
+              cardLast4: true,
               profileName: true,
             },
             orderBy: { createdAt: "asc" },
@@ -188,7 +190,6 @@ export async function GET(request: NextRequest) {
       return {
         id: account.id,
         email: account.email,
-        password: account.password || null,
         status: account.status,
         hasPassword: !!account.password,
         imapProvider: account.imapProvider,
@@ -205,7 +206,7 @@ export async function GET(request: NextRequest) {
         cards: account.cards.map(c => ({
           id: c.id,
           type: c.cardType,
-          last4: c.cardNumber.slice(-4),
+          last4: c.cardLast4,
           profileName: c.profileName,
         })),
         stats: {
@@ -329,12 +330,14 @@ export async function DELETE(request: NextRequest) {
         }
       }
     } else {
-      // Soft delete - set status to INACTIVE
-      const result = await prisma.account.updateMany({
-        where: { id: { in: accountIds } },
-        data: { status: "INACTIVE" },
+      // Soft delete - set status to INACTIVE (recorded in each account's status history)
+      const result = await changeAccountStatuses(accountIds, AccountStatus.INACTIVE, {
+        reason: "Deactivated from accounts list",
+        source: "bulk",
+        actor: resolveActor(request),
       });
-      deleted = result.count;
+      deleted = result.changed;
+      errors.push(...result.errors);
     }
 
     return NextResponse.json({
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { PurchaseStatus } from "@prisma/client";
+import { recordAuditEvent } from "@/lib/services/audit-log";
 
 /**
  * POST /api/admin/bulk-delete
@@ -12,9 +13,12 @@ import { PurchaseStatus } from "@prisma/client";
  * - confirm: must be true
  */
 export async function POST(request: NextRequest) {
+  let auditParams: Record<string, unknown> = {};
+
   try {
     const body = await request.json();
     const { table, filters, confirm } = body;
+    auditParams = { table, filters };
 
     if (!confirm) {
       return NextResponse.json(
@@ -111,6 +115,13 @@ export async function POST(request: NextRequest) {
         );
     }
 
+    await recordAuditEvent({
+      action: "admin.bulk_delete",
+      category: "admin",
+      params: auditParams,
+      affected: { [table]: deletedCount },
+    }, request);
+
     return NextResponse.json({
       success: true,
       table,
@@ -119,6 +130,13 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error("Bulk delete error:", error);
+    await recordAuditEvent({
+      action: "admin.bulk_delete",
+      category: "admin",
+      status: "FAILED",
+      params: auditParams,
+      errorMessage: String(error),
+    }, request);
     return NextResponse.json(
       { error: "Failed to delete records", details: String(error) },
       { status: 500 }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { recordAuditEvent } from "@/lib/services/audit-log";
 
 /**
  * DELETE /api/admin/wipe
@@ -10,11 +11,12 @@ import prisma from "@/lib/db";
  * - tables: comma-separated list of tables to wipe, or "all" (default)
  */
 export async function DELETE(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const confirm = searchParams.get("confirm");
-    const tables = searchParams.get("tables") || "all";
+  const { searchParams } = new URL(request.url);
+  const confirm = searchParams.get("confirm");
+  const tables = searchParams.get("tables") || "all";
+  const results: Record<string, number> = {};
 
+  try {
     if (confirm !== "yes") {
       return NextResponse.json(
         { 
@@ -29,8 +31,6 @@ export async function DELETE(request: NextRequest) {
       ? ["purchases", "queuePositions", "accountProxies", "cards", "accounts", "events", "proxies", "imapCredentials"]
       : tables.split(",").map(t => t.trim());
 
-    const results: Record<string, number> = {};
-
     // Delete in order to respect foreign key constraints
     // Order: purchases -> queuePositions -> cards -> accountProxies -> accounts -> events -> proxies -> imapCredentials
 
@@ -74,6 +74,13 @@ export async function DELETE(request: NextRequest) {
       results.imapCredentials = count;
     }
 
+    await recordAuditEvent({
+      action: "admin.wipe",
+      category: "admin",
+      params: { tables: tablesToWipe },
+      affected: results,
+    }, request);
+
     return NextResponse.json({
       success: true,
       message: "Data wiped successfully",
@@ -82,6 +89,15 @@ export async function DELETE(request: NextRequest) {
     });
   } catch (error) {
     console.error("Wipe error:", error);
+    // Tables wiped before the failure are still gone - record them
+    await recordAuditEvent({
+      action: "admin.wipe",
+      category: "admin",
+      status: "FAILED",
+      params: { tables },
+      affected: results,
+      errorMessage: String(error),
+    }, request);
     return NextResponse.json(
       { error: "Failed to wipe data", details: String(error) },
       { status: 500 }
@@ -2,30 +2,78 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { PurchaseStatus } from "@prisma/client";
 import {
+  buildBatchParticipantCounts,
   calculateEventPerformances,
   calculateAccountScore,
   sortAccountScores,
   analyzeReroll,
+  normalizeScoreWeights,
+  rankAccountScores,
   type SortCriteria,
   type AccountScore,
+  type ScoreWeights,
 } from "@/lib/analytics";
+import { resolveScoreProfile, type ResolvedScoreProfile } from "@/lib/services/score-profiles";
+import { getActiveQualityModel, predictAccountQuality } from "@/lib/services/quality-model";
 
+/**
+ * GET /api/analytics/account-rankings
+ *
+ * Query:
+ *   eventId?, batchId?, batchTag?  - limit the queue data
+ *   sortBy, sortOrder, limit, page, minEvents, rerollDate
+ *   profile?         - score weight profile id or name (default profile if omitted)
+ *   weights?         - JSON weights to preview unsaved changes (overrides profile)
+ *   compareProfile?  - second profile to rank the same accounts side by side
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const eventId = searchParams.get("eventId") || "";
+    const batchId = searchParams.get("batchId") || "";
+    const batchTag = searchParams.get("batchTag") || ""; // e.g. only "Pre-Sale" runs across events
     const sortBy = (searchParams.get("sortBy") || "compositeScore") as SortCriteria;
     const sortOrder = searchParams.get("sortOrder") || "asc";
     const limit = parseInt(searchParams.get("limit") || "100", 10);
     const page = parseInt(searchParams.get("page") || "1", 10);
     const rerollDateStr = searchParams.get("rerollDate");
     const minEvents = parseInt(searchParams.get("minEvents") || "1", 10); // Filter for consistent performers
+    const profileParam = searchParams.get("profile");
+    const weightsParam = searchParams.get("weights");
+    const compareParam = searchParams.get("compareProfile");
+
+    // Resolve score weights
+    const profile = await resolveScoreProfile(profileParam);
+    if (!profile) {
+      return NextResponse.json({ error: `Score profile not found: ${profileParam}` }, { status: 404 });
+    }
+    let weights: ScoreWeights = profile.weights;
+    if (weightsParam) {
+      try {
+        weights = normalizeScoreWeights(JSON.parse(weightsParam));
+      } catch {
+        return NextResponse.json({ error: "weights must be a JSON object" }, { status: 400 });
+      }
+    }
+
+    let compareProfile: ResolvedScoreProfile | null = null;
+    if (compareParam) {
+      compareProfile = await resolveScoreProfile(compareParam);
+      if (!compareProfile) {
+        return NextResponse.json({ error: `Score profile not found: ${compareParam}` }, { status: 404 });
+      }
+    }
 
     // Get all queue positions with account and event info (excluding excluded positions)
     const whereClause: Record<string, unknown> = { excluded: false };
     if (eventId) {
       whereClause.eventId = eventId;
     }
+    if (batchId) {
+      whereClause.batchId = batchId;
+    } else if (batchTag) {
+      whereClause.batch = { tag: batchTag };
+    }
     
     const queuePositions = await prisma.queuePosition.findMany({
       where: whereClause,
@@ -45,6 +93,11 @@ export async function GET(request: NextRequest) {
             venue: true,
           },
         },
+        batch: {
+          select: {
+            tag: true,
+          },
+        },
       },
     });
 
@@ -54,25 +107,15 @@ export async function GET(request: NextRequest) {
         stats: {
           totalAccounts: 0,
           totalEvents: 0,
+          totalBatches: 0,
           totalQueueTests: 0,
         },
         pagination: { page, limit, total: 0, pages: 0 },
       });
     }
 
-    // Build event participant counts map
-    const eventParticipantCounts = new Map<string, { count: number; positions: number[] }>();
-    for (const qp of queuePositions) {
-      const existing = eventParticipantCounts.get(qp.eventId) || { count: 0, positions: [] };
-      existing.count++;
-      existing.positions.push(qp.position);
-      eventParticipantCounts.set(qp.eventId, existing);
-    }
-
-    // Sort positions arrays for percentile calculation
-    for (const [, data] of eventParticipantCounts) {
-      data.positions.sort((a, b) => a - b);
-    }
+    // Participant counts per batch - each batch is ranked on its own
+    const batchParticipantCounts = buildBatchParticipantCounts(queuePositions);
 
     // Group queue positions by account
     const accountQueuePositions = new Map<string, {
@@ -80,6 +123,8 @@ export async function GET(request: NextRequest) {
       positions: Array<{
         eventId: string;
         eventName: string;
+        batchId: string;
+        batchTag: string;
         artistName: string | null;
         eventDateRaw: string | null;
         venue: string | null;
@@ -96,6 +141,8 @@ export async function GET(request: NextRequest) {
       existing.positions.push({
         eventId: qp.eventId,
         eventName: qp.event.eventName,
+        batchId: qp.batchId,
+        batchTag: qp.batch.tag,
         artistName: qp.event.artistName,
         eventDateRaw: qp.event.eventDateRaw,
         venue: qp.event.venue,
@@ -118,14 +165,17 @@ export async function GET(request: NextRequest) {
     for (const [accountId, data] of accountQueuePositions) {
       const performances = calculateEventPerformances(
         data.positions,
-        eventParticipantCounts
+        batchParticipantCounts
       );
 
       const score = calculateAccountScore(
         accountId,
         data.email,
         performances,
-        purchasedAccountIds.has(accountId)
+        purchasedAccountIds.has(accountId),
+        3,
+        10,
+        weights
       );
 
       accountScores.push(score);
@@ -146,6 +196,13 @@ export async function GET(request: NextRequest) {
     const skip = (page - 1) * limit;
     const paginatedScores = sortedScores.slice(skip, skip + limit);
 
+    // Quality model predictions use each account's full history, not just the filtered queues
+    const qualityModel = await getActiveQualityModel();
+    const predictions = await predictAccountQuality(
+      paginatedScores.map(s => s.accountId),
+      qualityModel
+    );
+
     // Add ranks with full score breakdown
     const rankedScores = paginatedScores.map((score, index) => ({
       rank: skip + index + 1,
@@ -153,6 +210,7 @@ export async function GET(request: NextRequest) {
       email: score.email,
       hasPurchased: score.hasPurchased,
       eventsEntered: score.eventsEntered,
+      batchesEntered: score.batchesEntered,
       // Round percentiles for cleaner display
       avgPercentile: Math.round(score.avgPercentile * 10) / 10,
       weightedPercentile: Math.round(score.weightedPercentile * 10) / 10,
@@ -164,12 +222,18 @@ export async function GET(request: NextRequest) {
       recentAvgPercentile: Math.round(score.recentAvgPercentile * 10) / 10,
       improvementScore: Math.round(score.improvementScore * 10) / 10,
       lastTestedAt: score.lastTestedAt?.toISOString() || null,
+      // P(top N% of next queue AND converts), null when no model is trained
+      predictedProbability: predictions.has(score.accountId)
+        ? Math.round(predictions.get(score.accountId)! * 1000) / 1000
+        : null,
       // Full transparent score breakdown
       scoreBreakdown: score.scoreBreakdown,
       // Simplify performances for response
       performances: score.performances.map(p => ({
         eventId: p.eventId,
         eventName: p.eventName,
+        batchId: p.batchId,
+        batchTag: p.batchTag,
         artistName: p.artistName,
         eventDateRaw: p.eventDateRaw,
         venue: p.venue,
@@ -191,6 +255,38 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Side-by-side ranking under a second profile (composite score only).
+    // Covers this page's accounts plus any that reach the same ranks only under the second profile.
+    let comparison = null;
+    if (compareProfile) {
+      const rankedA = rankAccountScores(filteredScores, "compositeScore");
+      const rankedB = rankAccountScores(filteredScores, "compositeScore", compareProfile.weights);
+      const byIdB = new Map(rankedB.map(s => [s.accountId, s]));
+      const topA = rankedA.slice(skip, skip + limit);
+      const topAIds = new Set(topA.map(s => s.accountId));
+
+      const toRow = (a: (typeof rankedA)[number], b: (typeof rankedB)[number]) => ({
+        accountId: a.accountId,
+        email: a.email,
+        rankA: a.rank,
+        scoreA: a.scoreBreakdown.compositeScore,
+        rankB: b.rank,
+        scoreB: b.scoreBreakdown.compositeScore,
+        rankChange: a.rank - b.rank, // Positive = ranks higher under profile B
+      });
+      const byIdA = new Map(rankedA.map(s => [s.accountId, s]));
+
+      comparison = {
+        profileA: { id: profile.id, name: weightsParam ? `${profile.name} (unsaved)` : profile.name, weights },
+        profileB: { id: compareProfile.id, name: compareProfile.name, weights: compareProfile.weights },
+        accounts: topA.map(a => toRow(a, byIdB.get(a.accountId)!)),
+        movedIn: rankedB
+          .slice(skip, skip + limit)
+          .filter(b => !topAIds.has(b.accountId))
+          .map(b => toRow(byIdA.get(b.accountId)!, b)),
+      };
+    }
+
     // Calculate overall stats
     const uniqueEvents = new Set(queuePositions.map(qp => qp.eventId));
     const avgComposite = filteredScores.length > 0
@@ -200,6 +296,7 @@ export async function GET(request: NextRequest) {
       totalAccounts: accountScores.length,
       filteredAccounts: filteredScores.length,
       totalEvents: uniqueEvents.size,
+      totalBatches: batchParticipantCounts.size,
       totalQueueTests: queuePositions.length,
       avgPercentile: filteredScores.length > 0
         ? Math.round(filteredScores.reduce((sum, s) => sum + s.avgPercentile, 0) / filteredScores.length * 10) / 10
@@ -215,6 +312,14 @@ export async function GET(request: NextRequest) {
       accounts: rankedScores,
       stats,
       rerollAnalysis,
+      comparison,
+      profile: { id: profile.id, name: profile.name, weights },
+      qualityModel: qualityModel && {
+        id: qualityModel.id,
+        topPercent: qualityModel.topPercent,
+        trainedAt: qualityModel.trainedAt,
+        holdoutAuc: qualityModel.metrics.holdout.auc,
+      },
       pagination: { page, limit, total, pages },
     });
   } catch (error) {
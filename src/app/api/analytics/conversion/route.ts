@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { PurchaseStatus } from "@prisma/client";
+import {
+  assignTier,
+  buildBatchParticipantCounts,
+  calculatePercentile,
+  detectTiersGapBased,
+  estimateExpectedCheckouts,
+  summarizeConversion,
+  type ConversionObservation,
+} from "@/lib/analytics";
+
+/**
+ * GET /api/analytics/conversion
+ *
+ * Queue position to purchase funnel. Each non-excluded queue position is an
+ * observation; it converted if the account has a successful purchase for the
+ * same event (an account queued in several batches of one event counts as
+ * converted in each of them).
+ *
+ * Query:
+ *   eventId?        - limit to one event
+ *   batchTag?       - limit to batches with this tag (e.g. "Pre-Sale")
+ *   bucketSize?     - percentile bucket width, default 10
+ *   targetBatchId?  - estimate checkouts for this batch's queue distribution,
+ *                     using history from the other events matching the filters
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const eventId = searchParams.get("eventId") || "";
+    const batchTag = searchParams.get("batchTag") || "";
+    const targetBatchId = searchParams.get("targetBatchId") || "";
+    const bucketSize = Math.min(50, Math.max(1, parseInt(searchParams.get("bucketSize") || "10", 10) || 10));
+
+    const whereClause: Record<string, unknown> = { excluded: false };
+    if (eventId) whereClause.eventId = eventId;
+    if (batchTag) whereClause.batch = { tag: batchTag };
+
+    const queuePositions = await prisma.queuePosition.findMany({
+      where: whereClause,
+      select: {
+        accountId: true,
+        eventId: true,
+        batchId: true,
+        position: true,
+        batch: { select: { tag: true } },
+        event: { select: { eventName: true, artistName: true, eventDateRaw: true } },
+      },
+    });
+
+    // Checkout outcomes per account + event
+    const eventIds = [...new Set(queuePositions.map(qp => qp.eventId))];
+    const purchases = await prisma.purchase.findMany({
+      where: { eventId: { in: eventIds } },
+      select: { accountId: true, eventId: true, status: true },
+    });
+
+    const attemptedKeys = new Set<string>();
+    const convertedKeys = new Set<string>();
+    for (const p of purchases) {
+      const key = `${p.accountId}:${p.eventId}`;
+      attemptedKeys.add(key);
+      if (p.status === PurchaseStatus.SUCCESS) convertedKeys.add(key);
+    }
+
+    // Percentiles and tiers are per batch
+    const batchParticipantCounts = buildBatchParticipantCounts(queuePositions);
+    const batchTiers = new Map(
+      [...batchParticipantCounts].map(([id, data]) => [id, detectTiersGapBased(data.positions)])
+    );
+
+    const rows = queuePositions.map(qp => {
+      const key = `${qp.accountId}:${qp.eventId}`;
+      const observation: ConversionObservation = {
+        position: qp.position,
+        percentile: calculatePercentile(qp.position, batchParticipantCounts.get(qp.batchId)?.positions || []),
+        attempted: attemptedKeys.has(key),
+        converted: convertedKeys.has(key),
+      };
+      return {
+        ...qp,
+        observation,
+        tier: assignTier(qp.position, batchTiers.get(qp.batchId)!).label,
+      };
+    });
+
+    const groupBy = <K extends string>(keyOf: (row: (typeof rows)[number]) => K) => {
+      const groups = new Map<K, typeof rows>();
+      for (const row of rows) {
+        const group = groups.get(keyOf(row));
+        if (group) group.push(row);
+        else groups.set(keyOf(row), [row]);
+      }
+      return groups;
+    };
+
+    const overall = summarizeConversion(rows.map(r => r.observation), bucketSize);
+
+    const byEvent = [...groupBy(r => r.eventId)].map(([id, group]) => ({
+      eventId: id,
+      name: group[0].event.artistName || group[0].event.eventName,
+      eventDate: group[0].event.eventDateRaw,
+      ...summarizeConversion(group.map(r => r.observation), bucketSize),
+    })).sort((a, b) => b.accounts - a.accounts);
+
+    const byBatchTag = [...groupBy(r => r.batch.tag)].map(([tag, group]) => ({
+      tag,
+      batches: new Set(group.map(r => r.batchId)).size,
+      ...summarizeConversion(group.map(r => r.observation), bucketSize),
+    })).sort((a, b) => b.accounts - a.accounts);
+
+    const byTier = [...groupBy(r => r.tier)].map(([tier, group]) => {
+      const summary = summarizeConversion(group.map(r => r.observation), bucketSize);
+      return {
+        tier,
+        accounts: summary.accounts,
+        attempted: summary.attempted,
+        converted: summary.converted,
+        successRate: summary.successRate,
+      };
+    });
+
+    // Expected checkouts for a target batch, from other events' history
+    let expected = null;
+    if (targetBatchId) {
+      const target = await prisma.queueBatch.findUnique({
+        where: { id: targetBatchId },
+        select: {
+          id: true,
+          tag: true,
+          eventId: true,
+          event: { select: { eventName: true, artistName: true } },
+          positions: {
+            where: { excluded: false },
+            select: { position: true },
+            orderBy: { position: "asc" },
+          },
+        },
+      });
+
+      if (!target) {
+        return NextResponse.json({ error: "Target batch not found" }, { status: 404 });
+      }
+
+      const sorted = target.positions.map(p => p.position);
+      const history = summarizeConversion(
+        rows.filter(r => r.eventId !== target.eventId).map(r => r.observation),
+        bucketSize
+      );
+      const estimate = estimateExpectedCheckouts(
+        sorted.map(position => calculatePercentile(position, sorted)),
+        history
+      );
+
+      expected = {
+        batchId: target.id,
+        tag: target.tag,
+        eventName: target.event.artistName || target.event.eventName,
+        accounts: sorted.length,
+        historyObservations: history.accounts,
+        ...estimate,
+      };
+    }
+
+    // Filter options: events with queue data, and batches to pick a target from (most recent first)
+    const events = await prisma.event.findMany({
+      where: { queueBatches: { some: {} } },
+      orderBy: { updatedAt: "desc" },
+      select: { id: true, eventName: true, artistName: true, eventDateRaw: true },
+    });
+    const batches = await prisma.queueBatch.findMany({
+      orderBy: { importedAt: "desc" },
+      take: 100,
+      select: {
+        id: true,
+        tag: true,
+        event: { select: { eventName: true, artistName: true } },
+        _count: { select: { positions: { where: { excluded: false } } } },
+      },
+    });
+
+    return NextResponse.json({
+      bucketSize,
+      overall,
+      byEvent,
+      byBatchTag,
+      byTier,
+      expected,
+      events: events.map(e => ({
+        id: e.id,
+        name: e.artistName || e.eventName,
+        eventDate: e.eventDateRaw,
+      })),
+      batches: batches.map(b => ({
+        id: b.id,
+        tag: b.tag,
+        eventName: b.event.artistName || b.event.eventName,
+        count: b._count.positions,
+      })),
+    });
+  } catch (error) {
+    console.error("Conversion funnel error:", error);
+    return NextResponse.json(
+      { error: "Failed to calculate conversion funnel", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { QualityModel } from "@/lib/services/quality-model";
+
+/**
+ * GET /api/analytics/quality-model
+ * Active account quality model (coefficients + calibration metrics) and recent training runs
+ */
+export async function GET() {
+  try {
+    const [active, history] = await Promise.all([
+      QualityModel.getActive(),
+      QualityModel.list(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      active: active && {
+        id: active.id,
+        topPercent: active.topPercent,
+        trainedAt: active.trainedAt,
+        trainingExamples: active.trainingExamples,
+        positiveRate: active.positiveRate,
+        metrics: active.metrics,
+        intercept: active.intercept,
+        // Coefficients are per standard deviation of each feature, largest effect first
+        coefficients: active.featureNames
+          .map((name, i) => ({ feature: name, coefficient: active.coefficients[i] }))
+          .sort((a, b) => Math.abs(b.coefficient) - Math.abs(a.coefficient)),
+      },
+      history: history.map(m => ({
+        id: m.id,
+        topPercent: m.topPercent,
+        trainedAt: m.trainedAt,
+        trainingExamples: m.trainingExamples,
+        holdoutAuc: m.metrics.holdout.auc,
+        holdoutBrier: m.metrics.holdout.brierScore,
+      })),
+    });
+  } catch (error) {
+    console.error("Quality model fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { QualityModel } from "@/lib/services/quality-model";
+
+/**
+ * POST /api/analytics/quality-model/train
+ * Train a new account quality model on all queue and purchase history and
+ * make it the active one.
+ * Body: { topPercent?: number (default 10), l2?: number, learningRate?: number, epochs?: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const result = await QualityModel.train({
+      topPercent: body.topPercent !== undefined ? Number(body.topPercent) : undefined,
+      l2: body.l2 !== undefined ? Number(body.l2) : undefined,
+      learningRate: body.learningRate !== undefined ? Number(body.learningRate) : undefined,
+      epochs: body.epochs !== undefined ? Math.min(5000, Number(body.epochs)) : undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+    return NextResponse.json({
+      success: true,
+      modelId: result.model.id,
+      trainingExamples: result.model.trainingExamples,
+      metrics: result.model.metrics,
+    });
+  } catch (error) {
+    console.error("Quality model training error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
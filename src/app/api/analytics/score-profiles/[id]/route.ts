@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ScoreProfiles } from "@/lib/services/score-profiles";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/analytics/score-profiles/[id]
+ * Update a profile. Omitted weights keep their current value.
+ * Body: { name?: string, description?: string, weights?: object, isDefault?: boolean }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const result = await ScoreProfiles.update(id, {
+      name: body.name,
+      description: body.description,
+      weights: body.weights,
+      isDefault: body.isDefault,
+    });
+
+    if (!result.success) {
+      const status = result.error === "Profile not found" ? 404 : 400;
+      return NextResponse.json(result, { status });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Score profile update error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/analytics/score-profiles/[id]
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const result = await ScoreProfiles.delete(id);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Score profile delete error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
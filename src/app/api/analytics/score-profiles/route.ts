@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_SCORE_WEIGHTS } from "@/lib/analytics";
+import { BUILT_IN_PROFILE_NAME, ScoreProfiles } from "@/lib/services/score-profiles";
+
+/**
+ * GET /api/analytics/score-profiles
+ * List saved score weight profiles plus the built-in defaults
+ */
+export async function GET() {
+  try {
+    const profiles = await ScoreProfiles.list();
+
+    return NextResponse.json({
+      success: true,
+      profiles,
+      builtIn: { name: BUILT_IN_PROFILE_NAME, weights: DEFAULT_SCORE_WEIGHTS },
+    });
+  } catch (error) {
+    console.error("Score profiles fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/analytics/score-profiles
+ * Create a profile. Weights are normalized to sum to 1.
+ * Body: { name: string, description?: string, weights: { percentile, consistency, recentPerformance, eventCoverage, purchaseSuccess }, isDefault?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = await ScoreProfiles.create(body);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Score profile create error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuditLogService } from "@/lib/services/audit-log";
+
+/**
+ * GET /api/audit-log/export
+ * Download audit entries matching the filters as CSV
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const csv = await AuditLogService.exportAuditLogsCsv(
+      AuditLogService.parseFilters(searchParams)
+    );
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="audit_log_${new Date().toISOString().split("T")[0]}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Audit log export error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuditLogService } from "@/lib/services/audit-log";
+
+/**
+ * GET /api/audit-log
+ * List audit entries (newest first)
+ *
+ * Query params: action, category, status, actor, search, from, to, page, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const result = await AuditLogService.getAuditLogs(
+      AuditLogService.parseFilters(searchParams)
+    );
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Audit log fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { AuthService } from "@/lib/services/auth";
+import { recordAuditEvent } from "@/lib/services/audit-log";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/auth/api-keys/[id]
+ * Revoke a worker API key (kept for history)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const apiKey = await prisma.workerApiKey.findUnique({ where: { id } });
+    if (!apiKey) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    await AuthService.revokeApiKey(id);
+
+    await recordAuditEvent({
+      action: "auth.revoke_api_key",
+      category: "auth",
+      params: { name: apiKey.name, keyPrefix: apiKey.keyPrefix },
+    }, request);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("API key revoke error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/services/auth";
+import { recordAuditEvent } from "@/lib/services/audit-log";
+
+/**
+ * GET /api/auth/api-keys
+ * List worker API keys (hashes are never returned)
+ */
+export async function GET() {
+  try {
+    const keys = await AuthService.listApiKeys();
+    return NextResponse.json({ success: true, keys });
+  } catch (error) {
+    console.error("API keys fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/api-keys
+ * Create an API key for a daemon. The key is only shown in this response.
+ *
+ * Body: { name: string, scopes: ("checkout" | "generator")[] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { name, scopes } = await request.json();
+    const result = await AuthService.createApiKey(name, Array.isArray(scopes) ? scopes : []);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    await recordAuditEvent({
+      action: "auth.create_api_key",
+      category: "auth",
+      params: { name, scopes },
+    }, request);
+
+    return NextResponse.json({ success: true, id: result.id, key: result.key });
+  } catch (error) {
+    console.error("API key create error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
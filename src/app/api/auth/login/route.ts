@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/services/auth";
+import { SESSION_COOKIE } from "@/lib/auth-policy";
+import { getRequestMetadata } from "@/lib/services/audit-log";
+
+/**
+ * POST /api/auth/login
+ * Check credentials and set the session cookie
+ *
+ * Body: { username: string, password: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json();
+
+    if (!username || !password) {
+      return NextResponse.json(
+        { success: false, error: "Username and password are required" },
+        { status: 400 }
+      );
+    }
+
+    const { ipAddress, userAgent } = getRequestMetadata(request);
+    const result = await AuthService.login(username, password, { ipAddress, userAgent });
+
+    if (!result.success || !result.token) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 401 }
+      );
+    }
+
+    // Opportunistic cleanup - sessions are otherwise only removed on logout
+    AuthService.purgeExpiredSessions().catch((error) =>
+      console.error("[Auth] Failed to purge expired sessions:", error)
+    );
+
+    const response = NextResponse.json({ success: true, user: result.user });
+    response.cookies.set(SESSION_COOKIE, result.token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      expires: result.expiresAt,
+    });
+    return response;
+  } catch (error) {
+    console.error("Login error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
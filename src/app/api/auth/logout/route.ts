@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/services/auth";
+import { SESSION_COOKIE } from "@/lib/auth-policy";
+
+/**
+ * POST /api/auth/logout
+ * End the current session and clear the cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await AuthService.logout(token);
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  } catch (error) {
+    console.error("Logout error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
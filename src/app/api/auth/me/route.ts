@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestIdentity } from "@/lib/auth-policy";
+
+/**
+ * GET /api/auth/me
+ * Current dashboard user (as resolved by the auth proxy)
+ */
+export async function GET(request: NextRequest) {
+  const { userId, username, role } = getRequestIdentity(request.headers);
+
+  if (!userId) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    user: { id: userId, username, role },
+  });
+}
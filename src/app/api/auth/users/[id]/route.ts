@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { AuthService } from "@/lib/services/auth";
+import { recordAuditEvent } from "@/lib/services/audit-log";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/auth/users/[id]
+ * Change a user's role, active flag, or password
+ *
+ * Body: { role?: string, isActive?: boolean, password?: string }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const result = await AuthService.updateUser(id, {
+      role: body.role,
+      isActive: body.isActive,
+      password: body.password,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    await recordAuditEvent({
+      action: "auth.update_user",
+      category: "auth",
+      params: {
+        username: user.username,
+        role: body.role,
+        isActive: body.isActive,
+        passwordChanged: body.password !== undefined,
+      },
+    }, request);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("User update error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/services/auth";
+import { recordAuditEvent } from "@/lib/services/audit-log";
+
+/**
+ * GET /api/auth/users
+ * List dashboard users
+ */
+export async function GET() {
+  try {
+    const users = await AuthService.listUsers();
+    return NextResponse.json({ success: true, users });
+  } catch (error) {
+    console.error("Users fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/users
+ * Create a dashboard user
+ *
+ * Body: { username: string, password: string, role: "admin" | "operator" | "viewer" }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password, role } = await request.json();
+    const result = await AuthService.createUser({ username, password, role });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    await recordAuditEvent({
+      action: "auth.create_user",
+      category: "auth",
+      params: { username: result.user?.username, role },
+    }, request);
+
+    return NextResponse.json({ success: true, user: result.user });
+  } catch (error) {
+    console.error("User create error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -20,7 +20,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           select: {
             id: true,
             profileName: true,
-            cardNumber: true,
+            cardLast4: true,
             cardType: true,
           },
         },
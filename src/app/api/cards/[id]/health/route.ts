@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCardHealthHistory } from "@/lib/services/card-health";
+
+/**
+ * GET /api/cards/[id]/health
+ * Card health summary and ledger (charges, declines, status changes), newest first
+ *
+ * Query params:
+ * - limit: Max events (default: 100, max: 500)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get("limit") || "100", 10) || 100, 500);
+
+    const result = await getCardHealthHistory(id, limit);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Card health fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch card health", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { cardNumberFields, encryptField } from "@/lib/services/field-encryption";
+import { changeCardStatus } from "@/lib/services/card-health";
+import { resolveActor } from "@/lib/services/audit-log";
 
 /**
  * GET /api/cards/[id]
@@ -74,10 +77,9 @@ export async function GET(
         id: card.id,
         profileName: card.profileName,
         cardType: card.cardType,
-        cardNumber: card.cardNumber,
+        cardLast4: card.cardLast4,
         expMonth: card.expMonth,
         expYear: card.expYear,
-        cvv: card.cvv,
         billingName: card.billingName,
         billingPhone: card.billingPhone,
         billingAddress: card.billingAddress,
@@ -163,10 +165,12 @@ export async function PATCH(
 
     // Update other fields
     if (body.cardType !== undefined) updateData.cardType = body.cardType;
-    if (body.cardNumber !== undefined) {
-      // Check uniqueness
+    // Card number and CVV are write-only - omitted/empty means unchanged
+    if (body.cardNumber) {
+      // Check uniqueness via blind index
+      const numberFields = cardNumberFields(body.cardNumber);
       const existingCard = await prisma.card.findUnique({
-        where: { cardNumber: body.cardNumber },
+        where: { cardNumberHash: numberFields.cardNumberHash },
       });
       if (existingCard && existingCard.id !== id) {
         return NextResponse.json(
@@ -174,11 +178,11 @@ export async function PATCH(
           { status: 400 }
         );
       }
-      updateData.cardNumber = body.cardNumber;
+      Object.assign(updateData, numberFields);
     }
     if (body.expMonth !== undefined) updateData.expMonth = body.expMonth;
     if (body.expYear !== undefined) updateData.expYear = body.expYear;
-    if (body.cvv !== undefined) updateData.cvv = body.cvv;
+    if (body.cvv) updateData.cvv = encryptField(body.cvv);
     if (body.billingName !== undefined) updateData.billingName = body.billingName;
     if (body.billingPhone !== undefined) updateData.billingPhone = body.billingPhone || null;
     if (body.billingAddress !== undefined) updateData.billingAddress = body.billingAddress;
@@ -186,6 +190,18 @@ export async function PATCH(
     if (body.billingCity !== undefined) updateData.billingCity = body.billingCity;
     if (body.billingState !== undefined) updateData.billingState = body.billingState;
 
+    // Checkout status goes through the health ledger (e.g. reinstating a declined card)
+    if (body.checkoutStatus !== undefined && body.checkoutStatus !== existing.checkoutStatus) {
+      const result = await changeCardStatus(id, body.checkoutStatus, {
+        reason: body.statusReason,
+        source: "manual",
+        actor: resolveActor(request),
+      });
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+    }
+
     // Handle tag operations
     interface TagConnect {
       connect?: { id: string }[];
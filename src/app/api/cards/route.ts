@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { cardNumberIndex } from "@/lib/services/field-encryption";
+import { getCardHealthSummaries } from "@/lib/services/card-health";
 import { Prisma } from "@prisma/client";
 
 /**
@@ -166,11 +168,17 @@ export async function GET(request: NextRequest) {
       const searchConditions: Prisma.CardWhereInput[] = [
         { profileName: { contains: search, mode: "insensitive" } },
         { billingName: { contains: search, mode: "insensitive" } },
-        { cardNumber: { contains: search } },
+        { cardLast4: { contains: search } },
         { billingAddress: { contains: search, mode: "insensitive" } },
         { billingCity: { contains: search, mode: "insensitive" } },
         { account: { email: { contains: search, mode: "insensitive" } } },
       ];
+
+      // Full card number - exact match via blind index
+      const searchDigits = search.replace(/\D/g, "");
+      if (searchDigits.length >= 13) {
+        searchConditions.push({ cardNumberHash: cardNumberIndex(searchDigits) });
+      }
       
       // Merge with existing OR/AND conditions if any from expiry filter
       if (where.OR && !where.AND) {
@@ -235,15 +243,16 @@ export async function GET(request: NextRequest) {
       prisma.card.count({ where: { ...activeCardFilter, checkoutStatus: "DECLINED" } }),
     ]);
 
+    const health = await getCardHealthSummaries(cards.map((card) => card.id));
+
     return NextResponse.json({
       cards: cards.map((card) => ({
         id: card.id,
         profileName: card.profileName,
         cardType: card.cardType,
-        cardNumber: card.cardNumber,
+        cardLast4: card.cardLast4,
         expMonth: card.expMonth,
         expYear: card.expYear,
-        cvv: card.cvv,
         billingName: card.billingName,
         billingPhone: card.billingPhone,
         billingAddress: card.billingAddress,
@@ -261,6 +270,7 @@ export async function GET(request: NextRequest) {
         checkoutStatus: card.checkoutStatus,
         useCount: card.useCount,
         lastUsedAt: card.lastUsedAt,
+        health: health.get(card.id) || null,
       })),
       pagination: {
         page,
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { DEFAULT_BAN_ERROR_CODES } from "@/lib/services/account-status";
+import { DEFAULT_CARD_HEALTH_RULES, DEFAULT_DECLINE_CODES } from "@/lib/services/card-health";
+import { DEFAULT_MAX_CARD_USES_PER_EVENT } from "@/lib/services/checkout-pairing";
+import { DEFAULT_LEASE_SECONDS } from "@/lib/services/job-leases";
 
 // Known config keys for checkout
 const CONFIG_KEYS = [
@@ -17,12 +21,13 @@ const CONFIG_KEYS = [
   "max_retries",
   "auto_link_cards", // boolean
   "allowed_card_tags", // JSON array of tag names to allow (empty = all cards allowed)
+  "ban_error_codes", // JSON array of error codes that suspend the job's account
+  "card_decline_codes", // JSON array of error codes counted as card declines
+  "card_health_rules", // JSON array of card retirement rules (see card-health.ts)
+  "pairing_venue_states", // JSON object: venue name substring -> allowed card billing states
+  "pairing_max_card_uses_per_event", // number of purchases/jobs allowed per card per event
   "worker_parallelism", // number of parallel workers
-  
-  // Discord webhooks for notifications
-  "discord_webhook_success",
-  "discord_webhook_error",
-  "discord_webhook_misc",
+  "lease_seconds", // job lease length; heartbeats renew it, expired jobs are requeued up to max_retries attempts
   
   // Extension/browser settings
   "headless_mode", // boolean
@@ -76,12 +81,13 @@ export async function GET() {
       max_retries: 3,
       auto_link_cards: true,
       allowed_card_tags: [], // Empty = all cards allowed
+      ban_error_codes: DEFAULT_BAN_ERROR_CODES,
+      card_decline_codes: DEFAULT_DECLINE_CODES,
+      card_health_rules: DEFAULT_CARD_HEALTH_RULES,
+      pairing_venue_states: {},
+      pairing_max_card_uses_per_event: DEFAULT_MAX_CARD_USES_PER_EVENT,
       worker_parallelism: 1,
-      
-      // Webhook defaults
-      discord_webhook_success: "",
-      discord_webhook_error: "",
-      discord_webhook_misc: "",
+      lease_seconds: DEFAULT_LEASE_SECONDS,
       
       // Browser defaults
       headless_mode: false,
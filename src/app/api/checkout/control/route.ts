@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { recordAuditEvent } from "@/lib/services/audit-log";
+import { ASSIGNABLE_ACCOUNT_STATUSES, isAssignableStatus } from "@/lib/services/account-status";
+import { releaseCards } from "@/lib/services/checkout-pairing";
 
 /**
  * POST /api/checkout/control
@@ -12,7 +15,7 @@ import prisma from "@/lib/db";
  * - resume: Resume all workers (clears paused flag)
  * - skip: Skip all running jobs (marks as CANCELLED)
  * - clear: Clear all non-imported jobs from queue
- * - retry_all: Retry all failed jobs (requeue them)
+ * - retry_all: Retry all failed jobs (requeue them) - skips jobs whose account isn't ACTIVE
  * - cancel_job: Cancel a specific job by ID
  * - priority_retry: Reset a job to QUEUED with priority flag
  * - scale_workers: Change the number of workers
@@ -53,6 +56,10 @@ export async function POST(request: NextRequest) {
 
       case "skip": {
         // Cancel all RUNNING jobs
+        const runningJobs = await prisma.checkoutJob.findMany({
+          where: { status: "RUNNING" },
+          select: { cardId: true },
+        });
         const skipResult = await prisma.checkoutJob.updateMany({
           where: { status: "RUNNING" },
           data: {
@@ -62,6 +69,7 @@ export async function POST(request: NextRequest) {
             errorMessage: "Skipped by user",
           },
         });
+        await releaseCards(runningJobs.map((j) => j.cardId));
         return NextResponse.json({
           success: true,
           message: `Skipped ${skipResult.count} running job(s)`,
@@ -71,11 +79,23 @@ export async function POST(request: NextRequest) {
 
       case "clear": {
         // Delete all non-imported jobs
+        const activeJobs = await prisma.checkoutJob.findMany({
+          where: { imported: false, status: { in: ["QUEUED", "RUNNING"] } },
+          select: { cardId: true },
+        });
         const clearResult = await prisma.checkoutJob.deleteMany({
           where: {
             imported: false,
           },
         });
+        await releaseCards(activeJobs.map((j) => j.cardId));
+
+        await recordAuditEvent({
+          action: "checkout.clear",
+          category: "checkout",
+          affected: { jobsDeleted: clearResult.count },
+        }, request);
+
         return NextResponse.json({
           success: true,
           message: `Cleared ${clearResult.count} job(s) from queue`,
@@ -84,10 +104,14 @@ export async function POST(request: NextRequest) {
       }
 
       case "retry_all": {
-        // Requeue all failed jobs
+        // Requeue all failed jobs (suspended/banned accounts stay out of rotation)
         const retryResult = await prisma.checkoutJob.updateMany({
           where: {
             status: { in: ["FAILED", "NEEDS_REVIEW"] },
+            OR: [
+              { accountId: null },
+              { account: { status: { in: ASSIGNABLE_ACCOUNT_STATUSES } } },
+            ],
           },
           data: {
             status: "QUEUED",
@@ -141,6 +165,7 @@ export async function POST(request: NextRequest) {
             errorMessage: "Cancelled by user",
           },
         });
+        await releaseCards([job.cardId]);
         
         return NextResponse.json({
           success: true,
@@ -159,6 +184,7 @@ export async function POST(request: NextRequest) {
         
         const existingJob = await prisma.checkoutJob.findUnique({
           where: { id: jobId },
+          include: { account: { select: { status: true } } },
         });
         
         if (!existingJob) {
@@ -167,6 +193,13 @@ export async function POST(request: NextRequest) {
             { status: 404 }
           );
         }
+
+        if (existingJob.account && !isAssignableStatus(existingJob.account.status)) {
+          return NextResponse.json(
+            { error: `Account is ${existingJob.account.status} - reactivate it before retrying` },
+            { status: 409 }
+          );
+        }
         
         // Reset job to QUEUED with high priority (100 = front of queue)
         await prisma.checkoutJob.update({
@@ -216,6 +249,12 @@ export async function POST(request: NextRequest) {
           prisma.checkoutJob.deleteMany({}),
           prisma.checkoutRun.deleteMany({}),
         ]);
+
+        await recordAuditEvent({
+          action: "checkout.clear_all_data",
+          category: "checkout",
+          affected: { jobsDeleted: jobsDeleted.count, runsDeleted: runsDeleted.count },
+        }, request);
         
         return NextResponse.json({
           success: true,
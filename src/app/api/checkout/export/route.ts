@@ -43,11 +43,10 @@ export async function GET(request: NextRequest) {
         },
         card: {
           select: {
-            cardNumber: true,
+            cardLast4: true,
             cardType: true,
             expMonth: true,
             expYear: true,
-            cvv: true,
             billingName: true,
             billingPhone: true,
             billingAddress: true,
@@ -109,7 +108,7 @@ export async function GET(request: NextRequest) {
       job.totalPrice?.toString() || "",
       job.currency || "",
       job.accountEmail || job.account?.email || "",
-      job.cardLast4 || (job.card?.cardNumber ? job.card.cardNumber.slice(-4) : ""),
+      job.cardLast4 || job.card?.cardLast4 || "",
       job.card?.cardType || "",
       job.card?.billingName || "",
       job.tmOrderNumber || "",
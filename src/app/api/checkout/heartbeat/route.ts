@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { heartbeat } from "@/lib/services/job-leases";
+
+/**
+ * POST /api/checkout/heartbeat
+ * Worker heartbeat - records CheckoutWorker.lastHeartbeat and renews the
+ * leases on every RUNNING job the worker holds
+ *
+ * Body:
+ * - workerName: string (required)
+ * - workerId: string (optional, CheckoutWorker row)
+ * - runId: string (optional)
+ * - jobIds: string[] (optional) - jobs the worker is working on; any it no
+ *   longer holds (reaped or cancelled) come back in `lost`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { workerName, workerId, runId, jobIds } = body;
+
+    if (!workerName || typeof workerName !== "string") {
+      return NextResponse.json({ success: false, error: "workerName is required" }, { status: 400 });
+    }
+    if (jobIds !== undefined && !Array.isArray(jobIds)) {
+      return NextResponse.json({ success: false, error: "jobIds must be an array" }, { status: 400 });
+    }
+
+    const result = await heartbeat("checkout_job", { workerName, workerId, runId, itemIds: jobIds });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error recording checkout heartbeat:", error);
+    return NextResponse.json(
+      { error: "Failed to record heartbeat", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
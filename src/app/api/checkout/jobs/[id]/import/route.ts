@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { PurchaseStatus } from "@prisma/client";
+import { checkPurchaseExposure } from "@/lib/services/exposure-caps";
 
 type RouteParams = {
   params: Promise<{ id: string }>;
@@ -8,7 +9,8 @@ type RouteParams = {
 
 /**
  * POST /api/checkout/jobs/[id]/import
- * Import a successful checkout job as a Purchase record
+ * Import a successful checkout job as a Purchase record. Exposure caps the
+ * purchase pushes over are returned as warnings (capBreaches).
  */
 export async function POST(
   request: NextRequest,
@@ -121,7 +123,7 @@ export async function POST(
         status: PurchaseStatus.SUCCESS,
         errorCode: null,
         errorMessage: null,
-        cardLast4: job.cardLast4 || job.card?.cardNumber?.slice(-4) || null,
+        cardLast4: job.cardLast4 || job.card?.cardLast4 || null,
         quantity: job.quantity,
         priceEach: job.priceEach,
         totalPrice: job.totalPrice,
@@ -147,10 +149,13 @@ export async function POST(
       },
     });
 
+    const capBreaches = await checkPurchaseExposure([purchase.id]);
+
     return NextResponse.json({
       success: true,
       message: "Checkout job imported as purchase",
       purchaseId: purchase.id,
+      capBreaches,
     });
   } catch (error) {
     console.error("Error importing checkout job:", error);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { isAssignableStatus } from "@/lib/services/account-status";
 
 /**
  * POST /api/checkout/jobs/[id]/link
@@ -9,6 +10,7 @@ import prisma from "@/lib/db";
  * This endpoint handles the linking using Prisma which properly generates IDs.
  * 
  * This is called by the checkout daemon when it finds a job with no card assigned.
+ * Accounts that aren't ACTIVE are refused (409) and the job is moved to NEEDS_REVIEW.
  */
 export async function POST(
   request: NextRequest,
@@ -38,7 +40,7 @@ export async function POST(
           id: job.id,
           accountId: job.accountId,
           cardId: job.cardId,
-          cardLast4: job.card?.cardNumber?.slice(-4),
+          cardLast4: job.card?.cardLast4,
         },
       });
     }
@@ -119,15 +121,23 @@ export async function POST(
         });
       }
 
+      if (!isAssignableStatus(account.status)) {
+        return blockJob(id, account.id, account.status);
+      }
+
       accountId = account.id;
 
       // Check if account already has a card
       if (account.cards.length > 0) {
         const card = account.cards[0];
         cardId = card.id;
-        cardLast4 = card.cardNumber.slice(-4);
+        cardLast4 = card.cardLast4;
       }
     } else {
+      if (job.account && !isAssignableStatus(job.account.status)) {
+        return blockJob(id, accountId, job.account.status);
+      }
+
       // Account exists, check for linked cards
       const existingCards = await prisma.card.findMany({
         where: {
@@ -141,7 +151,7 @@ export async function POST(
       if (existingCards.length > 0) {
         const card = existingCards[0];
         cardId = card.id;
-        cardLast4 = card.cardNumber.slice(-4);
+        cardLast4 = card.cardLast4;
       }
     }
 
@@ -163,7 +173,7 @@ export async function POST(
         });
 
         cardId = availableCard.id;
-        cardLast4 = availableCard.cardNumber.slice(-4);
+        cardLast4 = availableCard.cardLast4;
       }
     }
 
@@ -194,3 +204,22 @@ export async function POST(
     );
   }
 }
+
+/**
+ * Park a job whose account is out of rotation so workers skip it
+ */
+async function blockJob(jobId: string, accountId: string, status: string) {
+  await prisma.checkoutJob.update({
+    where: { id: jobId },
+    data: {
+      accountId,
+      status: "NEEDS_REVIEW",
+      errorCode: "ACCOUNT_NOT_ACTIVE",
+      errorMessage: `Account is ${status}`,
+    },
+  });
+  return NextResponse.json(
+    { error: `Account is ${status} - not eligible for checkout` },
+    { status: 409 }
+  );
+}
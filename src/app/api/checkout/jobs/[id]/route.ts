@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { handleCheckoutFailure } from "@/lib/services/account-status";
+import { recordCheckoutJobOutcome } from "@/lib/services/card-health";
+import { releaseCards, releaseJobCard } from "@/lib/services/checkout-pairing";
+import { checkClaimable, getLeaseExpiry, parkCheckoutJob } from "@/lib/services/job-leases";
 
 type RouteParams = {
   params: Promise<{ id: string }>;
@@ -30,7 +34,7 @@ export async function GET(
         card: {
           select: {
             id: true,
-            cardNumber: true,
+            cardLast4: true,
             cardType: true,
             billingName: true,
             billingAddress: true,
@@ -64,8 +68,8 @@ export async function GET(
       card: job.card
         ? {
             ...job.card,
-            cardNumber: `****${job.card.cardNumber.slice(-4)}`,
-            cardLast4: job.card.cardNumber.slice(-4),
+            cardNumber: `****${job.card.cardLast4}`,
+            cardLast4: job.card.cardLast4,
           }
         : null,
     };
@@ -91,6 +95,11 @@ export async function GET(
  * - errorCode: string (when checkout fails)
  * - errorMessage: string (when checkout fails)
  * - tmOrderNumber: string (when checkout succeeds)
+ *
+ * A FAILED update with a ban-type errorCode suspends the job's account.
+ * RUNNING starts a lease (see job-leases.ts); any other status ends it.
+ * Starting a job whose account isn't ACTIVE or that would go over an
+ * exposure cap is refused (409) and the job is moved to NEEDS_REVIEW.
  */
 export async function PATCH(
   request: NextRequest,
@@ -126,6 +135,22 @@ export async function PATCH(
       }
       updateData.status = body.status;
 
+      // Same checks as the claim endpoint before a job starts
+      if (body.status === "RUNNING" && existing.status !== "RUNNING") {
+        const blocked = await checkClaimable({
+          ...existing,
+          accountId: body.accountId !== undefined ? body.accountId : existing.accountId,
+          cardId: body.cardId !== undefined ? body.cardId : existing.cardId,
+        });
+        if (blocked) {
+          await parkCheckoutJob(existing, blocked);
+          return NextResponse.json(
+            { error: `${blocked.errorMessage} - not eligible for checkout`, errorCode: blocked.errorCode },
+            { status: 409 }
+          );
+        }
+      }
+
       // Set timing based on status change
       if (body.status === "RUNNING" && !existing.startedAt) {
         updateData.startedAt = new Date();
@@ -134,6 +159,7 @@ export async function PATCH(
       if (["SUCCESS", "FAILED", "NEEDS_REVIEW", "CANCELLED"].includes(body.status)) {
         updateData.completedAt = new Date();
       }
+      updateData.leaseExpiresAt = body.status === "RUNNING" ? await getLeaseExpiry("checkout_job") : null;
     }
 
     // Worker assignment
@@ -179,14 +205,31 @@ export async function PATCH(
           select: { id: true, email: true },
         },
         card: {
-          select: { id: true, cardNumber: true, cardType: true },
+          select: { id: true, cardLast4: true, cardType: true },
         },
       },
     });
 
+    // Take banned accounts out of rotation
+    const { suspended } = job.status === "FAILED"
+      ? await handleCheckoutFailure(job)
+      : { suspended: false };
+
+    // Finished jobs hand their card back (a claimed pair holds it IN_USE)
+    if (body.status !== undefined) {
+      await releaseJobCard(job);
+    }
+
+    // Charges and declines feed the card health ledger (may retire the card)
+    const { retired } = ["SUCCESS", "FAILED", "NEEDS_REVIEW"].includes(job.status)
+      ? await recordCheckoutJobOutcome(job)
+      : { retired: null };
+
     return NextResponse.json({
       success: true,
       job,
+      accountSuspended: suspended,
+      cardRetired: retired,
     });
   } catch (error) {
     console.error("Error updating checkout job:", error);
@@ -229,6 +272,9 @@ export async function DELETE(
     await prisma.checkoutJob.delete({
       where: { id },
     });
+    if (existing.status === "QUEUED" || existing.status === "RUNNING") {
+      await releaseCards([existing.cardId]);
+    }
 
     return NextResponse.json({
       success: true,
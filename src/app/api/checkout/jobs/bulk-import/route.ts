@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { PurchaseStatus } from "@prisma/client";
+import { checkPurchaseExposure } from "@/lib/services/exposure-caps";
 
 interface ImportResult {
   jobId: string;
@@ -16,6 +17,9 @@ interface ImportResult {
  * Body:
  * - jobIds: string[] (optional, specific job IDs to import)
  * - importAll: boolean (optional, import all non-imported successful jobs)
+ *
+ * Exposure caps the imported purchases push over are returned as warnings
+ * (capBreaches).
  */
 export async function POST(request: NextRequest) {
   try {
@@ -175,7 +179,7 @@ export async function POST(request: NextRequest) {
             status: PurchaseStatus.SUCCESS,
             errorCode: null,
             errorMessage: null,
-            cardLast4: job.cardLast4 || job.card?.cardNumber?.slice(-4) || null,
+            cardLast4: job.cardLast4 || job.card?.cardLast4 || null,
             quantity: job.quantity,
             priceEach: job.priceEach,
             totalPrice: job.totalPrice,
@@ -218,6 +222,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const capBreaches = await checkPurchaseExposure(
+      results.filter(r => r.purchaseId).map(r => r.purchaseId!)
+    );
+
     return NextResponse.json({
       success: true,
       message: `Imported ${imported} of ${jobs.length} jobs`,
@@ -225,6 +233,7 @@ export async function POST(request: NextRequest) {
       failed,
       eventsCreated,
       results,
+      capBreaches,
     });
   } catch (error) {
     console.error("Error in bulk import:", error);
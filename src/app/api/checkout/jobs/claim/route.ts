@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { claimCheckoutJob } from "@/lib/services/job-leases";
+
+/**
+ * POST /api/checkout/jobs/claim
+ * Atomically claim the next queued job with a lease (called by the daemon).
+ * Keep the lease alive with POST /api/checkout/heartbeat - jobs whose lease
+ * runs out are requeued by the lease reaper.
+ *
+ * Body:
+ * - workerName: string (required, stored as the job's workerId)
+ * - workerId: string (optional, CheckoutWorker row to mark PROCESSING)
+ * - runId: string (optional)
+ *
+ * Returns job: null when nothing is queued or workers are paused
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { workerName, workerId, runId } = body;
+
+    if (!workerName || typeof workerName !== "string") {
+      return NextResponse.json({ success: false, error: "workerName is required" }, { status: 400 });
+    }
+
+    const result = await claimCheckoutJob({ workerName, workerId, runId });
+    return NextResponse.json({
+      success: true,
+      job: result.job,
+      paused: result.paused,
+      leaseExpiresAt: result.job?.leaseExpiresAt ?? null,
+    });
+  } catch (error) {
+    console.error("Error claiming checkout job:", error);
+    return NextResponse.json(
+      { error: "Failed to claim checkout job", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
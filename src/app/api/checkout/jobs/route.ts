@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { isAssignableStatus } from "@/lib/services/account-status";
+import { checkJobExposure, EXPOSURE_CAP_ERROR_CODE } from "@/lib/services/exposure-caps";
 
 /**
  * GET /api/checkout/jobs
@@ -69,7 +71,7 @@ export async function GET(request: NextRequest) {
         card: {
           select: {
             id: true,
-            cardNumber: true,
+            cardLast4: true,
             cardType: true,
             billingName: true,
             checkoutStatus: true,
@@ -88,7 +90,7 @@ export async function GET(request: NextRequest) {
     // Transform jobs to add card last 4 for display
     const transformedJobs = jobs.map((job) => ({
       ...job,
-      cardLast4: job.card?.cardNumber?.slice(-4) || job.cardLast4 || null,
+      cardLast4: job.card?.cardLast4 || job.cardLast4 || null,
     }));
 
     return NextResponse.json({
@@ -123,6 +125,10 @@ export async function GET(request: NextRequest) {
  * - quantity: number (optional)
  * - priceEach: number (optional)
  * - expiresAt: number (optional, unix timestamp)
+ *
+ * If the account isn't ACTIVE (e.g. suspended after a ban), or the job would go
+ * over an exposure cap, the job is created as NEEDS_REVIEW with no card so
+ * workers don't pick it up.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -157,6 +163,8 @@ export async function POST(request: NextRequest) {
     let accountId: string | null = null;
     let cardId: string | null = null;
     let cardLast4: string | null = null;
+    let blockedStatus: string | null = null;
+    let linkCardToAccount = false;  // Auto-picked unlinked card, linked once the job is queued with it
 
     // Check config settings
     const [autoLinkConfig, allowedCardTagsConfig] = await Promise.all([
@@ -220,11 +228,14 @@ export async function POST(request: NextRequest) {
       if (account) {
         accountId = account.id;
 
-        // If account has matching cards, use the first one
-        if (account.cards.length > 0) {
+        if (!isAssignableStatus(account.status)) {
+          // Out of rotation - keep the link for reference but don't assign a card
+          blockedStatus = account.status;
+        } else if (account.cards.length > 0) {
+          // If account has matching cards, use the first one
           const card = account.cards[0];
           cardId = card.id;
-          cardLast4 = card.cardNumber.slice(-4);
+          cardLast4 = card.cardLast4;
         } else if (autoLinkCards) {
           // Account has no matching cards - find an unlinked card that matches filter and link it
           const availableCard = await prisma.card.findFirst({
@@ -236,14 +247,9 @@ export async function POST(request: NextRequest) {
           });
 
           if (availableCard) {
-            // Link the card to this account
-            await prisma.card.update({
-              where: { id: availableCard.id },
-              data: { accountId: account.id },
-            });
-
             cardId = availableCard.id;
-            cardLast4 = availableCard.cardNumber.slice(-4);
+            cardLast4 = availableCard.cardLast4;
+            linkCardToAccount = true;
           }
         }
       }
@@ -259,17 +265,42 @@ export async function POST(request: NextRequest) {
 
       if (availableCard) {
         cardId = availableCard.id;
-        cardLast4 = availableCard.cardNumber.slice(-4);
+        cardLast4 = availableCard.cardLast4;
         // Note: card stays unlinked since we have no account
       }
     }
 
+    // Hold the job back if buying it would go over an exposure cap
+    const capBreaches = blockedStatus
+      ? []
+      : await checkJobExposure({ tmEventId, eventName, accountId, cardId, quantity, priceEach, totalPrice });
+    if (capBreaches.length > 0) {
+      cardId = null;
+      cardLast4 = null;
+    }
+
+    // Link the auto-picked card to the account only now the job is queued with it
+    if (linkCardToAccount && cardId && accountId) {
+      await prisma.card.update({
+        where: { id: cardId },
+        data: { accountId },
+      });
+    }
+
     // Create the checkout job
     const job = await prisma.checkoutJob.create({
       data: {
         targetUrl,
         discordMsgId: discordMsgId || null,
-        status: "QUEUED",
+        status: blockedStatus || capBreaches.length > 0 ? "NEEDS_REVIEW" : "QUEUED",
+        ...(blockedStatus && {
+          errorCode: "ACCOUNT_NOT_ACTIVE",
+          errorMessage: `Account is ${blockedStatus}`,
+        }),
+        ...(capBreaches.length > 0 && {
+          errorCode: EXPOSURE_CAP_ERROR_CODE,
+          errorMessage: capBreaches.map(b => b.message).join("; "),
+        }),
         accountId,
         cardId,
         accountEmail: accountEmail?.toLowerCase() || null,
@@ -297,7 +328,7 @@ export async function POST(request: NextRequest) {
         card: {
           select: {
             id: true,
-            cardNumber: true,
+            cardLast4: true,
             cardType: true,
           },
         },
@@ -307,7 +338,12 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       job,
-      message: "Checkout job created",
+      ...(capBreaches.length > 0 && { capBreaches }),
+      message: blockedStatus
+        ? `Checkout job created for review - account is ${blockedStatus}`
+        : capBreaches.length > 0
+          ? `Checkout job created for review - ${capBreaches[0].message}`
+          : "Checkout job created",
     });
   } catch (error) {
     console.error("Error creating checkout job:", error);
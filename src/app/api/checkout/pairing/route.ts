@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recommendPairs, claimPair } from "@/lib/services/checkout-pairing";
+import { resolveActor } from "@/lib/services/audit-log";
+
+/**
+ * GET /api/checkout/pairing
+ * Recommended account/card pairs for a job, or for an event before a job exists
+ *
+ * Query params:
+ * - jobId: Checkout job to pair
+ * - tmEventId, eventName, venue: Event context (when no jobId)
+ * - limit: Number of pairs (default: 5, max: 20)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get("jobId");
+    const limit = Math.min(parseInt(searchParams.get("limit") || "5", 10) || 5, 20);
+
+    const result = await recommendPairs(
+      jobId || {
+        tmEventId: searchParams.get("tmEventId"),
+        eventName: searchParams.get("eventName"),
+        venue: searchParams.get("venue"),
+      },
+      limit
+    );
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...result.result });
+  } catch (error) {
+    console.error("Error recommending checkout pairs:", error);
+    return NextResponse.json(
+      { error: "Failed to recommend pairs", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/checkout/pairing
+ * Atomically claim an account/card pair for a queued job (called by the daemon)
+ *
+ * Body: { jobId, accountId?, cardId? } - best available pair unless one is given
+ * Returns 409 if the job is no longer claimable or no pair is free
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { jobId, accountId, cardId } = body;
+
+    if (!jobId || typeof jobId !== "string") {
+      return NextResponse.json({ success: false, error: "jobId is required" }, { status: 400 });
+    }
+
+    const result = await claimPair(jobId, {
+      accountId: accountId || undefined,
+      cardId: cardId || undefined,
+      claimedBy: resolveActor(request),
+    });
+    if (!result.success) {
+      const status = result.error.includes("not found") ? 404 : 409;
+      return NextResponse.json({ success: false, error: result.error }, { status });
+    }
+
+    return NextResponse.json({ success: true, pair: result.pair });
+  } catch (error) {
+    console.error("Error claiming checkout pair:", error);
+    return NextResponse.json(
+      { error: "Failed to claim pair", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
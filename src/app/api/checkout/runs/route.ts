@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { getRunReaps } from "@/lib/services/job-leases";
 
 /**
  * GET /api/checkout/runs
- * Fetch checkout worker runs with stats
+ * Fetch checkout worker runs with stats and the jobs reaped from each
+ * after their lease expired
  */
 export async function GET(request: NextRequest) {
   try {
@@ -35,8 +37,13 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    const reaps = await getRunReaps("checkout_job", runs.map((run) => run.id));
+
     return NextResponse.json({
-      runs,
+      runs: runs.map((run) => ({
+        ...run,
+        reaps: reaps.filter((reap) => reap.runId === run.id),
+      })),
       pagination: {
         page,
         limit,
@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { notify } from "@/lib/services/notifications";
+import { handleCheckoutFailure } from "@/lib/services/account-status";
+import { recordCheckoutJobOutcome } from "@/lib/services/card-health";
 
 /**
  * POST /api/checkout/webhook
  * 
- * Called by the checkout daemon when a job completes. The dashboard handles
- * formatting and sending Discord webhooks so we don't need to update
- * the VPS every time we want to change webhook formatting.
+ * Called by the checkout daemon when a job completes. The dashboard formats
+ * and routes the notification (see lib/services/notifications.ts) so we
+ * don't need to update the VPS every time we want to change formatting.
  * 
  * Body: {
  *   type: "success" | "error" | "started",
@@ -41,7 +44,7 @@ export async function POST(request: NextRequest) {
       where: { id: job_id },
       include: {
         account: { select: { email: true } },
-        card: { select: { cardNumber: true, cardType: true } },
+        card: { select: { cardLast4: true, cardType: true } },
       },
     });
 
@@ -49,40 +52,35 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Job not found" }, { status: 404 });
     }
 
-    // Get webhook URLs and device name from config
-    const config = await prisma.checkoutConfig.findMany({
-      where: {
-        key: {
-          in: ["discord_webhook_success", "discord_webhook_error", "discord_webhook_misc", "device_name"],
-        },
-      },
+    const configRow = await prisma.checkoutConfig.findUnique({
+      where: { key: "device_name" },
     });
+    const deviceName = configRow?.value || "checkout-vps";
 
-    const configMap = Object.fromEntries(config.map((c: { key: string; value: string }) => [c.key, c.value]));
-    const deviceName = configMap.device_name || "checkout-vps";
-
-    // Determine which webhook URL to use
-    const webhookUrl =
-      type === "success"
-        ? configMap.discord_webhook_success
-        : type === "error"
-        ? configMap.discord_webhook_error
-        : configMap.discord_webhook_misc;
+    // A ban-type error suspends the account before anything else is assigned to it
+    if (type === "error") {
+      await handleCheckoutFailure({
+        id: job.id,
+        accountId: job.accountId,
+        errorCode: error_code || job.errorCode,
+        errorMessage: error_message || job.errorMessage,
+      });
+    }
 
-    if (!webhookUrl) {
-      return NextResponse.json({
-        success: true,
-        message: `No webhook URL configured for type: ${type}`,
-        sent: false,
+    // The worker may report before it PATCHes the job - record the outcome for the card now
+    if (type === "success" || type === "error") {
+      await recordCheckoutJobOutcome({
+        ...job,
+        status: type === "success" ? "SUCCESS" : "FAILED",
+        errorCode: type === "error" ? error_code || job.errorCode : null,
+        errorMessage: type === "error" ? error_message || job.errorMessage : null,
       });
     }
 
-    // Extract card info (compute last4 from full number)
-    const cardLast4 = job.card?.cardNumber?.slice(-4) || "????";
-    const cardType = job.card?.cardType || "Card";
+    const eventType =
+      type === "success" ? "checkout.success" : type === "error" ? "checkout.error" : "checkout.started";
 
-    // Build and send webhook
-    const embed = buildWebhookEmbed(type, {
+    const result = await notify(eventType, {
       job: {
         id: job.id,
         eventName: job.eventName,
@@ -93,8 +91,8 @@ export async function POST(request: NextRequest) {
         quantity: job.quantity,
         totalPrice: job.totalPrice ? Number(job.totalPrice) : null,
         accountEmail: job.account?.email || null,
-        cardLast4,
-        cardType,
+        cardLast4: job.card?.cardLast4 || "????",
+        cardType: job.card?.cardType || "Card",
       },
       finalUrl: final_url,
       errorCode: error_code,
@@ -103,12 +101,12 @@ export async function POST(request: NextRequest) {
       deviceName,
     });
 
-    await sendDiscordWebhook(webhookUrl, embed);
-
     return NextResponse.json({
       success: true,
-      message: `Webhook sent for ${type}`,
-      sent: true,
+      message: result.deliveries > 0
+        ? `Notification sent to ${result.sent}/${result.deliveries} channels for ${type}`
+        : `No notification channels routed for type: ${type}`,
+      sent: result.sent > 0,
     });
   } catch (error) {
     console.error("Checkout webhook error:", error);
@@ -118,190 +116,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// =============================================================================
-// Helper Functions
-// =============================================================================
-
-// Brand colors
-const COLORS = {
-  success: 0x00d166, // Green
-  error: 0xed4245,   // Red
-  warning: 0xfee75c, // Yellow
-  info: 0x5865f2,    // Blurple
-};
-
-function formatDuration(seconds: number): string {
-  if (seconds < 60) return `${Math.round(seconds)}s`;
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.round(seconds % 60);
-  if (mins < 60) return `${mins}m ${secs}s`;
-  const hours = Math.floor(mins / 60);
-  const remainingMins = mins % 60;
-  return `${hours}h ${remainingMins}m`;
-}
-
-function formatEventDate(dateStr: string | Date | null): string {
-  if (!dateStr) return "";
-  try {
-    const dt = new Date(dateStr);
-    return dt.toLocaleString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-      hour: "numeric",
-      minute: "2-digit",
-      hour12: true,
-    });
-  } catch {
-    return String(dateStr).slice(0, 20);
-  }
-}
-
-function getErrorEmoji(errorCode: string): string {
-  const errorMap: Record<string, string> = {
-    CARD_DECLINED: "💳",
-    NO_CARD: "💳",
-    SOLD_OUT: "🎫",
-    TIMEOUT: "⏱️",
-    BROWSER_ERROR: "🖥️",
-    LOGIN_FAILED: "🔐",
-    CAPTCHA: "🤖",
-    PRICE_MISMATCH: "💰",
-    QUEUE_TIMEOUT: "⏳",
-    NO_TICKETS: "🎟️",
-  };
-  return errorMap[errorCode] || "❌";
-}
-
-interface WebhookJobData {
-  job: {
-    id: string;
-    eventName: string | null;
-    eventDate: Date | string | null;
-    venue: string | null;
-    section: string | null;
-    row: string | null;
-    quantity: number;
-    totalPrice: number | null;
-    accountEmail: string | null;
-    cardLast4: string;
-    cardType: string;
-  };
-  finalUrl?: string;
-  errorCode?: string;
-  errorMessage?: string;
-  durationSeconds?: number;
-  deviceName: string;
-}
-
-function buildWebhookEmbed(type: string, data: WebhookJobData) {
-  const { job, durationSeconds, deviceName } = data;
-  
-  const eventName = job.eventName || "Unknown Event";
-  const eventDateDisplay = formatEventDate(job.eventDate);
-  const venue = job.venue || "";
-  const section = job.section || "N/A";
-  const row = job.row || "N/A";
-  const quantity = job.quantity || 1;
-  const totalPrice = job.totalPrice || 0;
-  const pricePerTicket = quantity > 0 && totalPrice ? totalPrice / quantity : 0;
-  const cardLast4 = job.cardLast4;
-  const cardType = job.cardType.toUpperCase();
-  const accountEmail = job.accountEmail || "N/A";
-  const seatInfo = section !== "N/A" ? `Sec ${section} • Row ${row}` : "Best Available";
-
-  if (type === "success") {
-    const fields = [
-      { name: "🎫 Tickets", value: `\`\`\`\n${quantity}x ${seatInfo}\n\`\`\``, inline: false },
-      { name: "💵 Total", value: `\`\`\`\n$${totalPrice.toFixed(2)}\n\`\`\``, inline: true },
-      { name: "💰 Per Ticket", value: `\`\`\`\n$${pricePerTicket.toFixed(2)}\n\`\`\``, inline: true },
-      { name: "💳 Payment", value: `\`\`\`\n${cardType} ****${cardLast4}\n\`\`\``, inline: true },
-      { name: "👤 Account", value: accountEmail.length > 30 ? `\`${accountEmail.slice(0, 30)}...\`` : `\`${accountEmail}\``, inline: true },
-      { name: "🖥️ Worker", value: `\`${deviceName}\``, inline: true },
-    ];
-
-    if (durationSeconds) {
-      fields.push({ name: "⏱️ Duration", value: `\`${formatDuration(durationSeconds)}\``, inline: true });
-    }
-
-    return {
-      embeds: [{
-        author: { name: "TM Checkout • Purchase Complete" },
-        title: `✅ ${eventName.slice(0, 80)}`,
-        description: venue || eventDateDisplay ? `**${venue}**\n${eventDateDisplay}` : undefined,
-        color: COLORS.success,
-        fields,
-        footer: { text: `Duration: ${durationSeconds ? formatDuration(durationSeconds) : "N/A"} • Order placed` },
-        timestamp: new Date().toISOString(),
-      }],
-    };
-  }
-
-  if (type === "error") {
-    const errorCode = data.errorCode || "UNKNOWN";
-    const errorMessage = (data.errorMessage || "Unknown error").slice(0, 300);
-    const errorEmoji = getErrorEmoji(errorCode);
-
-    const fields = [
-      { name: `🏷️ Error: ${errorCode}`, value: `\`\`\`\n${errorMessage}\n\`\`\``, inline: false },
-      { name: "🎫 Attempted", value: `\`${quantity}x Sec ${section} Row ${row}\``, inline: true },
-      { name: "💳 Card", value: `\`****${cardLast4}\``, inline: true },
-      { name: "👤 Account", value: accountEmail.length > 20 ? `\`${accountEmail.slice(0, 20)}...\`` : `\`${accountEmail}\``, inline: true },
-      { name: "🖥️ Worker", value: `\`${deviceName}\``, inline: true },
-    ];
-
-    if (durationSeconds) {
-      fields.push({ name: "⏱️ Duration", value: `\`${formatDuration(durationSeconds)}\``, inline: true });
-    }
-
-    return {
-      embeds: [{
-        author: { name: "TM Checkout • Checkout Failed" },
-        title: `${errorEmoji} ${eventName.slice(0, 60)}`,
-        color: COLORS.error,
-        fields,
-        footer: { text: `Duration: ${durationSeconds ? formatDuration(durationSeconds) : "N/A"} • Job ID: ${job.id.slice(0, 8)}` },
-        timestamp: new Date().toISOString(),
-      }],
-    };
-  }
-
-  if (type === "started") {
-    return {
-      embeds: [{
-        author: { name: "TM Checkout • Processing" },
-        title: `🔄 ${eventName.slice(0, 60)}`,
-        color: COLORS.info,
-        fields: [
-          { name: "🎫 Target", value: `\`${quantity}x Sec ${section} Row ${row}\``, inline: true },
-          { name: "🖥️ Worker", value: `\`${deviceName}\``, inline: true },
-        ],
-        footer: { text: "Checkout in progress..." },
-        timestamp: new Date().toISOString(),
-      }],
-    };
-  }
-
-  // Fallback
-  return {
-    embeds: [{
-      title: `${type}: ${eventName}`,
-      color: COLORS.info,
-      timestamp: new Date().toISOString(),
-    }],
-  };
-}
-
-async function sendDiscordWebhook(url: string, payload: object) {
-  const response = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Discord webhook failed: ${response.status} - ${text}`);
-  }
-}
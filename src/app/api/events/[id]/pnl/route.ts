@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { EventPnl } from "@/lib/services/event-pnl";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/events/[id]/pnl
+ * Profit and loss for one event, broken down by zone, with its individual tickets
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const result = await EventPnl.getEvent(id);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Event P&L fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPriceHistory } from "@/lib/services/price-history";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/events/[id]/price-history
+ * Get-in and per-zone price series for an event, oldest first
+ *
+ * Query Parameters:
+ * - source: Only one marketplace (e.g. vividseats)
+ * - zone: Also return section series for this zone
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const history = await getPriceHistory(id, {
+      source: searchParams.get("source") || undefined,
+      sectionsForZone: searchParams.get("zone") || undefined,
+    });
+
+    if (!history) {
+      return NextResponse.json({ success: false, error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...history });
+  } catch (error) {
+    console.error("Price history fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import {
+  PriceSourceId,
+  PRICE_SOURCE_IDS,
+  getPriceSource,
+  getZoneComparison,
+  isPriceSourceId,
+  listPriceSources,
+  savePriceSourceResult,
+  syncEventPriceSources,
+} from "@/lib/services/price-sources";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/events/[id]/price-sources
+ * Zone-by-zone price comparison across marketplaces (cheapest source + spread)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const event = await prisma.event.findUnique({ where: { id }, select: { id: true } });
+    if (!event) {
+      return NextResponse.json({ success: false, error: "Event not found" }, { status: 404 });
+    }
+
+    const comparison = await getZoneComparison(id);
+
+    return NextResponse.json({
+      success: true,
+      ...comparison,
+      availableSources: listPriceSources().map(s => ({
+        id: s.id,
+        label: s.label,
+        usesFixtures: s.usesFixtures,
+      })),
+    });
+  } catch (error) {
+    console.error("Price sources fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/events/[id]/price-sources
+ * Refresh marketplace prices for an event
+ * Body: { source?: string, content?: string, url?: string, forceRefresh?: boolean }
+ * - content: pasted HTML/JSON fixture, parsed with `source` (fixture sources only)
+ * - otherwise fetches `source`, or every source when omitted
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { source, content, url, forceRefresh = false } = body as {
+      source?: string;
+      content?: string;
+      url?: string;
+      forceRefresh?: boolean;
+    };
+
+    if (source !== undefined && !isPriceSourceId(source)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid source. Must be one of: ${PRICE_SOURCE_IDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        tmEventId: true,
+        artistName: true,
+        venue: true,
+        eventDateRaw: true,
+        getInPriceUrl: true,
+      },
+    });
+    if (!event) {
+      return NextResponse.json({ success: false, error: "Event not found" }, { status: 404 });
+    }
+
+    let results;
+    if (content) {
+      const priceSource = source ? getPriceSource(source) : null;
+      if (!priceSource?.parse) {
+        return NextResponse.json(
+          { success: false, error: "Pasted content requires a fixture source (stubhub, seatgeek, tickpick)" },
+          { status: 400 }
+        );
+      }
+
+      const result = priceSource.parse(content, url || null);
+      await savePriceSourceResult(id, result);
+      results = [result];
+    } else {
+      const sourceIds: PriceSourceId[] | undefined = source ? [source as PriceSourceId] : undefined;
+      results = await syncEventPriceSources(event, sourceIds, { forceRefresh });
+    }
+
+    return NextResponse.json({
+      success: results.some(r => !r.error),
+      results: results.map(r => ({
+        source: r.source,
+        getInPrice: r.getInPrice,
+        zoneCount: r.zonePrices.length,
+        listingCount: r.listingCount,
+        error: r.error || null,
+      })),
+      comparison: await getZoneComparison(id),
+    });
+  } catch (error) {
+    console.error("Price sources sync error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
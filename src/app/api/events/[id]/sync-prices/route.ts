@@ -67,7 +67,7 @@ export async function POST(
 
     // Save all scraped zone prices to DB
     if (priceData.zonePrices && priceData.zonePrices.length > 0) {
-      await saveZonePrices(eventId, priceData.zonePrices);
+      await saveZonePrices(eventId, priceData.zonePrices, priceData.url);
       zoneCount = priceData.zonePrices.length;
       sectionCount = priceData.zonePrices.reduce((acc, z) => acc + (z.sections?.length || 0), 0);
       console.log(`[SyncPrices] Saved ${zoneCount} zone prices for event ${eventId}`);
@@ -171,7 +171,7 @@ export async function POST(
 
     // Save all scraped zone prices to DB
     if (priceData.zonePrices && priceData.zonePrices.length > 0) {
-      await saveZonePrices(eventId, priceData.zonePrices);
+      await saveZonePrices(eventId, priceData.zonePrices, priceData.url);
       console.log(`[ZonePrice] Saved ${priceData.zonePrices.length} zone prices for event ${eventId}`);
       
       // Also save venue map and section mappings if available
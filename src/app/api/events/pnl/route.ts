@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { EventPnl } from "@/lib/services/event-pnl";
+
+/**
+ * GET /api/events/pnl
+ * Profit and loss per event, rolled up per artist, with overall totals
+ *
+ * Query Parameters:
+ * - search: Event name, artist or venue contains
+ * - artist: Exact artist name
+ * - upcoming: "true" for future events, "false" for past ones
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const report = await EventPnl.getSummary(EventPnl.parseFilters(searchParams));
+
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error("Event P&L fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { PurchaseStatus, Prisma } from "@prisma/client";
 import { createEvent } from "@/lib/services/event-sync";
+import { getMarketSummaries } from "@/lib/services/price-sources";
 
 // POST /api/events - Create a new event
 export async function POST(request: NextRequest) {
@@ -128,6 +129,7 @@ export async function GET(request: NextRequest) {
       : [];
     
     const priceMap = new Map(getInPrices.map(p => [p.id, p]));
+    const marketSummaries = await getMarketSummaries(eventIds);
 
     // Get additional stats for each event (excluding excluded queue positions)
     let eventsWithStats = await Promise.all(
@@ -161,6 +163,7 @@ export async function GET(request: NextRequest) {
           getInPriceUrl: priceData?.get_in_price_url || null,
           getInPriceSource: priceData?.get_in_price_source || null,
           getInPriceUpdatedAt: priceData?.get_in_price_updated_at || null,
+          markets: marketSummaries.get(event.id) || null,
           stats: {
             queueTests: event._count.queuePositions,
             purchases: event._count.purchases,
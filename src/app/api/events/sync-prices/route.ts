@@ -121,7 +121,7 @@ export async function PUT(request: NextRequest) {
       
       // Also save zone prices if available
       if (priceData.zonePrices && priceData.zonePrices.length > 0) {
-        await saveZonePrices(event.id, priceData.zonePrices);
+        await saveZonePrices(event.id, priceData.zonePrices, priceData.url);
         console.log(`[SyncPrice] Saved ${priceData.zonePrices.length} zone prices for event ${eventId}`);
       }
       
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AccountingExport } from "@/lib/services/accounting-export";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/export/accounting/[id]
+ * Download a stored accounting export exactly as it was generated
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const file = await AccountingExport.getFile(id);
+
+    if (!file) {
+      return NextResponse.json({ success: false, error: "Export not found" }, { status: 404 });
+    }
+
+    return new NextResponse(file.content, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Accounting export download error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
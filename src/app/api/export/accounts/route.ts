@@ -2,24 +2,32 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { PurchaseStatus } from "@prisma/client";
 import {
+  buildBatchParticipantCounts,
   calculateEventPerformances,
   calculateAccountScore,
   sortAccountScores,
   type SortCriteria,
 } from "@/lib/analytics";
+import { resolveScoreProfile } from "@/lib/services/score-profiles";
 
 /**
  * POST /api/export/accounts
  * Export selected or all accounts to CSV
  * 
- * Body: { accountIds?: string[], sortBy?: string, minEvents?: number }
+ * Body: { accountIds?: string[], sortBy?: string, minEvents?: number, profile?: string }
  * - If accountIds provided, export those specific accounts
  * - If not, export all accounts matching filters
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json().catch(() => ({}));
-    const { accountIds, sortBy = "compositeScore", minEvents = 1 } = body;
+    const { accountIds, sortBy = "compositeScore", minEvents = 1, profile: profileParam } = body;
+
+    // Composite scores use the requested (or default) score weight profile
+    const profile = await resolveScoreProfile(profileParam);
+    if (!profile) {
+      return NextResponse.json({ error: `Score profile not found: ${profileParam}` }, { status: 404 });
+    }
 
     // Get all queue positions
     const queuePositions = await prisma.queuePosition.findMany({
@@ -36,6 +44,11 @@ export async function POST(request: NextRequest) {
             eventName: true,
           },
         },
+        batch: {
+          select: {
+            tag: true,
+          },
+        },
       },
     });
 
@@ -43,19 +56,8 @@ export async function POST(request: NextRequest) {
       return new NextResponse("No data to export", { status: 400 });
     }
 
-    // Build event participant counts map
-    const eventParticipantCounts = new Map<string, { count: number; positions: number[] }>();
-    for (const qp of queuePositions) {
-      const existing = eventParticipantCounts.get(qp.eventId) || { count: 0, positions: [] };
-      existing.count++;
-      existing.positions.push(qp.position);
-      eventParticipantCounts.set(qp.eventId, existing);
-    }
-
-    // Sort positions arrays
-    for (const [, data] of eventParticipantCounts) {
-      data.positions.sort((a, b) => a - b);
-    }
+    // Participant counts per batch - each batch is ranked on its own
+    const batchParticipantCounts = buildBatchParticipantCounts(queuePositions);
 
     // Group queue positions by account
     const accountQueuePositions = new Map<string, {
@@ -63,6 +65,8 @@ export async function POST(request: NextRequest) {
       positions: Array<{
         eventId: string;
         eventName: string;
+        batchId: string;
+        batchTag: string;
         position: number;
         testedAt: Date;
       }>;
@@ -76,6 +80,8 @@ export async function POST(request: NextRequest) {
       existing.positions.push({
         eventId: qp.eventId,
         eventName: qp.event.eventName,
+        batchId: qp.batchId,
+        batchTag: qp.batch.tag,
         position: qp.position,
         testedAt: qp.testedAt,
       });
@@ -95,14 +101,17 @@ export async function POST(request: NextRequest) {
     for (const [accountId, data] of accountQueuePositions) {
       const performances = calculateEventPerformances(
         data.positions,
-        eventParticipantCounts
+        batchParticipantCounts
       );
 
       const score = calculateAccountScore(
         accountId,
         data.email,
         performances,
-        purchasedAccountIds.has(accountId)
+        purchasedAccountIds.has(accountId),
+        3,
+        10,
+        profile.weights
       );
 
       accountScores.push(score);
@@ -123,6 +132,7 @@ export async function POST(request: NextRequest) {
     const headers = [
       "Email",
       "Events Entered",
+      "Batches Entered",
       "Composite Score",
       "Confidence",
       "Avg Percentile",
@@ -141,6 +151,7 @@ export async function POST(request: NextRequest) {
     const rows = sortedScores.map(score => [
       score.email,
       score.eventsEntered,
+      score.batchesEntered,
       score.scoreBreakdown.compositeScore.toFixed(1),
       score.scoreBreakdown.confidence,
       score.avgPercentile.toFixed(1),
@@ -155,7 +166,7 @@ export async function POST(request: NextRequest) {
       score.lastTestedAt?.toISOString() || "",
       // Event performances as semicolon-separated list
       score.performances
-        .map(p => `${p.eventName}:${p.percentile.toFixed(1)}%`)
+        .map(p => `${p.eventName} (${p.batchTag}):${p.percentile.toFixed(1)}%`)
         .join("; "),
     ]);
 
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { EventPnl } from "@/lib/services/event-pnl";
+
+/**
+ * GET /api/export/pnl
+ * Download event P&L as CSV
+ *
+ * Query Parameters:
+ * - eventId: Export that event's tickets instead of one row per event
+ * - search, artist, upcoming: Same filters as GET /api/events/pnl
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const eventId = searchParams.get("eventId");
+    const csv = await EventPnl.exportCsv({
+      ...EventPnl.parseFilters(searchParams),
+      eventId,
+    });
+
+    const date = new Date().toISOString().split("T")[0];
+    const filename = eventId ? `event_pnl_tickets_${date}.csv` : `event_pnl_${date}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Event P&L export error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,28 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { decryptField } from "@/lib/services/field-encryption";
+import { recordAuditEvent } from "@/lib/services/audit-log";
 
-export async function GET() {
+/**
+ * GET /api/export/profiles
+ * Export card profiles (decrypted) as CSV for the checkout bot. Audited.
+ *
+ * Query params:
+ * - cardIds: comma-separated card IDs (default: all active cards linked to an account)
+ */
+export async function GET(request: NextRequest) {
   try {
-    // Get all accounts with cards (now one-to-many)
-    const accounts = await prisma.account.findMany({
-      where: {
-        cards: { some: { deletedAt: null } },
-      },
+    const { searchParams } = new URL(request.url);
+    const cardIds = searchParams.get("cardIds")?.split(",").filter(Boolean);
+
+    const cards = await prisma.card.findMany({
+      where: cardIds
+        ? { id: { in: cardIds } }
+        : { deletedAt: null, accountId: { not: null } },
       include: {
-        cards: {
-          where: { deletedAt: null },
-          orderBy: { createdAt: "asc" },
-        },
-      },
-      orderBy: {
-        email: "asc",
+        account: { select: { email: true } },
       },
+      orderBy: [{ account: { email: "asc" } }, { createdAt: "asc" }],
     });
 
     // Build CSV content
@@ -36,27 +42,29 @@ export async function GET() {
       "Billing State",
     ];
 
-    // Flatten: each card gets its own row with the account email
-    const rows: string[][] = [];
-    for (const account of accounts) {
-      for (const card of account.cards) {
-        rows.push([
-          account.email,
-          card.profileName || "",
-          card.cardType,
-          card.cardNumber,
-          card.expMonth,
-          card.expYear,
-          card.cvv,
-          card.billingName,
-          card.billingPhone || "",
-          card.billingAddress,
-          card.billingZip,
-          card.billingCity,
-          card.billingState,
-        ]);
-      }
-    }
+    // Each card gets its own row with the account email
+    const rows: string[][] = cards.map((card) => [
+      card.account?.email || "",
+      card.profileName || "",
+      card.cardType,
+      decryptField(card.cardNumber),
+      card.expMonth,
+      card.expYear,
+      decryptField(card.cvv),
+      card.billingName,
+      card.billingPhone || "",
+      card.billingAddress,
+      card.billingZip,
+      card.billingCity,
+      card.billingState,
+    ]);
+
+    await recordAuditEvent({
+      action: "secrets.export_profiles",
+      category: "secrets",
+      params: { cardIds: cardIds || "all" },
+      affected: { card: cards.length },
+    }, request);
 
     // Escape CSV values
     const escapeCSV = (value: string): string => {
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { ExposureCaps } from "@/lib/services/exposure-caps";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/exposure/caps/:id
+ * Update an exposure cap (any field accepted by POST /api/exposure/caps)
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.exposureCap.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Exposure cap not found" },
+        { status: 404 }
+      );
+    }
+
+    // Validate the merged cap so partial updates can't leave it invalid
+    const merged = {
+      scope: body.scope ?? existing.scope,
+      maxTickets: body.maxTickets !== undefined ? body.maxTickets || null : existing.maxTickets,
+      maxCost: body.maxCost !== undefined ? body.maxCost || null : existing.maxCost !== null ? Number(existing.maxCost) : null,
+      windowDays: body.windowDays !== undefined ? body.windowDays || null : existing.windowDays,
+    };
+    const validationError = ExposureCaps.validate(merged);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const cap = await prisma.exposureCap.update({
+      where: { id },
+      data: {
+        ...(body.scope !== undefined && { scope: body.scope }),
+        ...(body.target !== undefined && { target: body.target?.trim() || null }),
+        ...(body.maxTickets !== undefined && {
+          maxTickets: body.maxTickets ? parseInt(body.maxTickets, 10) : null,
+        }),
+        ...(body.maxCost !== undefined && { maxCost: body.maxCost ? Number(body.maxCost) : null }),
+        ...(body.windowDays !== undefined && {
+          windowDays: body.windowDays ? parseInt(body.windowDays, 10) : null,
+        }),
+        ...(body.isEnabled !== undefined && { isEnabled: !!body.isEnabled }),
+        ...(body.notes !== undefined && { notes: body.notes?.trim() || null }),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      cap: { ...cap, maxCost: cap.maxCost !== null ? Number(cap.maxCost) : null },
+    });
+  } catch (error) {
+    console.error("Error updating exposure cap:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update exposure cap" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/exposure/caps/:id
+ * Delete an exposure cap
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.exposureCap.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Exposure cap not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.exposureCap.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Exposure cap deleted: ${ExposureCaps.describe(existing)}`,
+    });
+  } catch (error) {
+    console.error("Error deleting exposure cap:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete exposure cap" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { ExposureCaps } from "@/lib/services/exposure-caps";
+
+/**
+ * GET /api/exposure/caps
+ * List exposure caps with current exposure against each
+ */
+export async function GET() {
+  try {
+    const caps = await ExposureCaps.list();
+    return NextResponse.json({ success: true, caps });
+  } catch (error) {
+    console.error("Error fetching exposure caps:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch exposure caps" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/exposure/caps
+ * Create an exposure cap
+ *
+ * Body:
+ * - scope: "EVENT" | "ARTIST" | "ACCOUNT" | "CARD" (required)
+ * - target: string (optional) - tmEventId, artist name, account id or card id; null = each one separately
+ * - maxTickets: number (optional)
+ * - maxCost: number (optional) - at least one of maxTickets/maxCost is required
+ * - windowDays: number (optional, null = all time)
+ * - isEnabled: boolean (optional)
+ * - notes: string (optional)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationError = ExposureCaps.validate(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const cap = await prisma.exposureCap.create({
+      data: {
+        scope: body.scope,
+        target: body.target?.trim() || null,
+        maxTickets: body.maxTickets ? parseInt(body.maxTickets, 10) : null,
+        maxCost: body.maxCost ? Number(body.maxCost) : null,
+        windowDays: body.windowDays ? parseInt(body.windowDays, 10) : null,
+        isEnabled: body.isEnabled ?? true,
+        notes: body.notes?.trim() || null,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      cap: { ...cap, maxCost: cap.maxCost !== null ? Number(cap.maxCost) : null },
+    });
+  } catch (error) {
+    console.error("Error creating exposure cap:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create exposure cap" },
+      { status: 500 }
+    );
+  }
+}
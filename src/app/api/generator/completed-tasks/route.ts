@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { encryptOptional } from "@/lib/services/field-encryption";
 
 /**
  * GET /api/generator/completed-tasks
@@ -79,7 +80,11 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       failed: failedTasks,
-      unimported: unimportedTasks,
+      // Passwords are encrypted - use /api/secrets/reveal to view them
+      unimported: unimportedTasks.map(({ password, ...task }) => ({
+        ...task,
+        hasPassword: !!password,
+      })),
       stats: {
         failed: stats[0],
         unimported: stats[1],
@@ -152,7 +157,7 @@ export async function POST(request: NextRequest) {
         await prisma.account.create({
           data: {
             email: task.email,
-            password: task.password || "",
+            password: encryptOptional(task.password),
             phoneNumber: task.phoneNumber,
             status: "ACTIVE",
             generatorJobId: task.jobId,
@@ -8,10 +8,9 @@ const CONFIG_KEYS = [
   "daisy_sms_min_balance",
   "aycd_inbox_api_key",
   "aycd_inbox_enabled",
-  "discord_webhook_success",
-  "discord_webhook_error",
-  "discord_webhook_misc",
   "imap_accounts", // JSON array
+  "lease_seconds", // task lease length; heartbeats renew it, expired tasks are requeued
+  "max_attempts", // claims per task before an expired lease fails it
 ] as const;
 
 type ConfigKey = (typeof CONFIG_KEYS)[number];
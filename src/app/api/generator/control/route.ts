@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { recordAuditEvent } from "@/lib/services/audit-log";
 
 /**
  * POST /api/generator/control
@@ -283,6 +284,13 @@ export async function POST(request: NextRequest) {
             status: "PENDING",
           },
         });
+
+        await recordAuditEvent({
+          action: "generator.clear",
+          category: "generator",
+          affected: { jobsDeleted: clearResult.count, emailsReleased: pendingTasks.length },
+        }, request);
+
         return NextResponse.json({
           success: true,
           message: `Cleared ${clearResult.count} pending job(s), released ${pendingTasks.length} email(s)`,
@@ -574,6 +582,18 @@ export async function POST(request: NextRequest) {
             data: { status: "AVAILABLE", usedAt: null },
           }),
         ]);
+
+        await recordAuditEvent({
+          action: "generator.clear_all_data",
+          category: "generator",
+          affected: {
+            tasksDeleted: tasksDeleted.count,
+            jobsDeleted: jobsDeleted.count,
+            runsDeleted: runsDeleted.count,
+            workersDeleted: workersDeleted.count,
+            emailsReset: emailsReset.count,
+          },
+        }, request);
         
         return NextResponse.json({
           success: true,
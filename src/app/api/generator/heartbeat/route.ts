@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { heartbeat } from "@/lib/services/job-leases";
+
+/**
+ * POST /api/generator/heartbeat
+ * Worker heartbeat - records GeneratorWorker.lastHeartbeat and renews the
+ * leases on every RUNNING task the worker holds
+ *
+ * Body:
+ * - workerName: string (required)
+ * - workerId: string (optional, GeneratorWorker row)
+ * - runId: string (optional)
+ * - taskIds: string[] (optional) - tasks the worker is working on; any it no
+ *   longer holds (reaped or cancelled) come back in `lost`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { workerName, workerId, runId, taskIds } = body;
+
+    if (!workerName || typeof workerName !== "string") {
+      return NextResponse.json({ success: false, error: "workerName is required" }, { status: 400 });
+    }
+    if (taskIds !== undefined && !Array.isArray(taskIds)) {
+      return NextResponse.json({ success: false, error: "taskIds must be an array" }, { status: 400 });
+    }
+
+    const result = await heartbeat("generator_task", { workerName, workerId, runId, itemIds: taskIds });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error recording generator heartbeat:", error);
+    return NextResponse.json(
+      { error: "Failed to record heartbeat", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { encryptOptional } from "@/lib/services/field-encryption";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -80,7 +81,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             await prisma.account.update({
               where: { email: task.email },
               data: {
-                password: task.password,
+                password: encryptOptional(task.password),
                 phoneNumber: task.phoneNumber,
                 generatedAt: new Date(),
                 generatorJobId: jobId,
@@ -93,7 +94,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           const newAccount = await prisma.account.create({
             data: {
               email: task.email,
-              password: task.password,
+              password: encryptOptional(task.password),
               phoneNumber: task.phoneNumber,
               imapProvider: task.imapSource,
               status: "ACTIVE",
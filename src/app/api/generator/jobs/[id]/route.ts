@@ -26,7 +26,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Job not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ job });
+    // Task passwords are encrypted - use /api/secrets/reveal to view them
+    return NextResponse.json({
+      job: {
+        ...job,
+        tasks: job.tasks.map(({ password, ...task }) => ({
+          ...task,
+          hasPassword: !!password,
+        })),
+      },
+    });
   } catch (error) {
     console.error("Error fetching job:", error);
     return NextResponse.json(
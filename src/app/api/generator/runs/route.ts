@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { getRunReaps } from "@/lib/services/job-leases";
 
 /**
  * GET /api/generator/runs
@@ -9,6 +10,8 @@ import prisma from "@/lib/db";
  * - page: number (default: 1)
  * - limit: number (default: 20)
  * - status: "RUNNING" | "COMPLETED" | "ABORTED" (optional, filter by status)
+ *
+ * Each run includes the tasks reaped from it after their lease expired.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -46,6 +49,7 @@ export async function GET(request: NextRequest) {
     ]);
 
     const thirtySecondsAgo = new Date(Date.now() - 30 * 1000);
+    const reaps = await getRunReaps("generator_task", runs.map((run) => run.id));
 
     return NextResponse.json({
       runs: runs.map((run) => ({
@@ -60,6 +64,8 @@ export async function GET(request: NextRequest) {
         jobsFailed: run.jobsFailed,
         tasksSuccess: run.tasksSuccess,
         tasksFailed: run.tasksFailed,
+        tasksReaped: run.tasksReaped,
+        reaps: reaps.filter((reap) => reap.runId === run.id),
         notes: run.notes,
         jobsProcessed: run._count.jobs,
         isStale: run.status === "RUNNING" && (!run.lastHeartbeat || run.lastHeartbeat < thirtySecondsAgo),
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { claimGeneratorTask } from "@/lib/services/job-leases";
+
+/**
+ * POST /api/generator/tasks/claim
+ * Atomically claim the next pending task with a lease (called by the daemon).
+ * Keep the lease alive with POST /api/generator/heartbeat - tasks whose lease
+ * runs out are requeued by the lease reaper.
+ *
+ * Body:
+ * - workerName: string (required, stored as the task's workerName)
+ * - workerId: string (optional, GeneratorWorker row to mark PROCESSING)
+ * - runId: string (optional, set on the job if it's just starting)
+ *
+ * Returns task: null when nothing is pending
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { workerName, workerId, runId } = body;
+
+    if (!workerName || typeof workerName !== "string") {
+      return NextResponse.json({ success: false, error: "workerName is required" }, { status: 400 });
+    }
+
+    const result = await claimGeneratorTask({ workerName, workerId, runId });
+    return NextResponse.json({
+      success: true,
+      task: result.task,
+      leaseExpiresAt: result.task?.leaseExpiresAt ?? null,
+    });
+  } catch (error) {
+    console.error("Error claiming generator task:", error);
+    return NextResponse.json(
+      { error: "Failed to claim generator task", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { encryptOptional } from "@/lib/services/field-encryption";
 import { parseAccountsFile } from "@/lib/importers";
 import { AccountStatus } from "@prisma/client";
 import { formatSSE, getStreamHeaders } from "@/lib/utils/streaming";
@@ -74,7 +75,7 @@ export async function POST(request: NextRequest) {
                 await prisma.account.update({
                   where: { email: entry.email },
                   data: {
-                    password: entry.password || existing.password,
+                    password: encryptOptional(entry.password) || existing.password,
                     imapProvider: entry.imapProvider || existing.imapProvider,
                     phoneNumber: entry.phoneNumber || existing.phoneNumber,
                     creationProxyId: creationProxyId || existing.creationProxyId,
@@ -85,7 +86,7 @@ export async function POST(request: NextRequest) {
                 await prisma.account.create({
                   data: {
                     email: entry.email,
-                    password: entry.password,
+                    password: encryptOptional(entry.password),
                     imapProvider: entry.imapProvider,
                     phoneNumber: entry.phoneNumber,
                     creationProxyId,
@@ -155,7 +156,7 @@ export async function POST(request: NextRequest) {
           await prisma.account.update({
             where: { email: entry.email },
             data: {
-              password: entry.password || existing.password,
+              password: encryptOptional(entry.password) || existing.password,
               imapProvider: entry.imapProvider || existing.imapProvider,
               phoneNumber: entry.phoneNumber || existing.phoneNumber,
               creationProxyId: creationProxyId || existing.creationProxyId,
@@ -166,7 +167,7 @@ export async function POST(request: NextRequest) {
           await prisma.account.create({
             data: {
               email: entry.email,
-              password: entry.password,
+              password: encryptOptional(entry.password),
               imapProvider: entry.imapProvider,
               phoneNumber: entry.phoneNumber,
               creationProxyId,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { cardNumberFields, cardNumberIndex, encryptField } from "@/lib/services/field-encryption";
 import { parseCardProfilesFile } from "@/lib/importers";
 import { formatSSE, getStreamHeaders } from "@/lib/utils/streaming";
 
@@ -62,7 +63,7 @@ export async function POST(request: NextRequest) {
             const entry = entries[i];
             try {
               const existingByProfile = await prisma.card.findUnique({ where: { profileName: entry.profileName } });
-              const existingByCardNumber = await prisma.card.findUnique({ where: { cardNumber: entry.cardNumber } });
+              const existingByCardNumber = await prisma.card.findUnique({ where: { cardNumberHash: cardNumberIndex(entry.cardNumber) } });
 
               if (existingByCardNumber && existingByCardNumber.profileName !== entry.profileName) {
                 skipped++;
@@ -71,10 +72,10 @@ export async function POST(request: NextRequest) {
                   where: { profileName: entry.profileName },
                   data: {
                     cardType: entry.cardType,
-                    cardNumber: entry.cardNumber,
+                    ...cardNumberFields(entry.cardNumber),
                     expMonth: entry.expMonth,
                     expYear: entry.expYear,
-                    cvv: entry.cvv,
+                    cvv: encryptField(entry.cvv),
                     billingName: entry.billingName,
                     billingPhone: entry.billingPhone,
                     billingAddress: entry.billingAddress,
@@ -94,10 +95,10 @@ export async function POST(request: NextRequest) {
                     accountId: null,
                     profileName: entry.profileName,
                     cardType: entry.cardType,
-                    cardNumber: entry.cardNumber,
+                    ...cardNumberFields(entry.cardNumber),
                     expMonth: entry.expMonth,
                     expYear: entry.expYear,
-                    cvv: entry.cvv,
+                    cvv: encryptField(entry.cvv),
                     billingName: entry.billingName,
                     billingPhone: entry.billingPhone,
                     billingAddress: entry.billingAddress,
@@ -153,7 +154,7 @@ export async function POST(request: NextRequest) {
 
         // Check if card already exists by cardNumber
         const existingByCardNumber = await prisma.card.findUnique({
-          where: { cardNumber: entry.cardNumber },
+          where: { cardNumberHash: cardNumberIndex(entry.cardNumber) },
         });
 
         // If card exists by different profile name but same card number, skip
@@ -172,10 +173,10 @@ export async function POST(request: NextRequest) {
             where: { profileName: entry.profileName },
             data: {
               cardType: entry.cardType,
-              cardNumber: entry.cardNumber,
+              ...cardNumberFields(entry.cardNumber),
               expMonth: entry.expMonth,
               expYear: entry.expYear,
-              cvv: entry.cvv,
+              cvv: encryptField(entry.cvv),
               billingName: entry.billingName,
               billingPhone: entry.billingPhone,
               billingAddress: entry.billingAddress,
@@ -196,10 +197,10 @@ export async function POST(request: NextRequest) {
               accountId: null, // Unlinked
               profileName: entry.profileName,
               cardType: entry.cardType,
-              cardNumber: entry.cardNumber,
+              ...cardNumberFields(entry.cardNumber),
               expMonth: entry.expMonth,
               expYear: entry.expYear,
-              cvv: entry.cvv,
+              cvv: encryptField(entry.cvv),
               billingName: entry.billingName,
               billingPhone: entry.billingPhone,
               billingAddress: entry.billingAddress,
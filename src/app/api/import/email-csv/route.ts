@@ -451,7 +451,7 @@ export async function POST(request: NextRequest) {
           // Find cards matching the last 4 digits
           const matchingCards = await prisma.card.findMany({
             where: {
-              cardNumber: { endsWith: entry.cardLast4 },
+              cardLast4: entry.cardLast4,
               deletedAt: null, // Only active cards
             },
             include: {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { encryptField } from "@/lib/services/field-encryption";
 import { parseImapConfig } from "@/lib/importers";
 
 interface ImportError {
@@ -47,7 +48,7 @@ export async function POST(request: NextRequest) {
           await prisma.imapCredential.update({
             where: { email: cred.email },
             data: {
-              password: cred.password,
+              password: encryptField(cred.password),
               provider: cred.provider,
               isEnabled: cred.isEnabled,
             },
@@ -58,7 +59,7 @@ export async function POST(request: NextRequest) {
           await prisma.imapCredential.create({
             data: {
               email: cred.email,
-              password: cred.password,
+              password: encryptField(cred.password),
               provider: cred.provider,
               isEnabled: cred.isEnabled,
             },
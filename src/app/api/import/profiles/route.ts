@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { cardNumberFields, cardNumberIndex, encryptField } from "@/lib/services/field-encryption";
 import { parseProfilesFile } from "@/lib/importers";
 import { AccountStatus } from "@prisma/client";
 import { formatSSE, getStreamHeaders } from "@/lib/utils/streaming";
@@ -74,7 +75,7 @@ export async function POST(request: NextRequest) {
                 });
 
                 const existingByCardNumber = await prisma.card.findUnique({
-                  where: { cardNumber: entry.cardNumber },
+                  where: { cardNumberHash: cardNumberIndex(entry.cardNumber) },
                 });
 
                 if (existingByCardNumber && existingByCardNumber.profileName !== entry.profileName) {
@@ -86,10 +87,10 @@ export async function POST(request: NextRequest) {
                     data: {
                       accountId: account.id,
                       cardType: entry.cardType,
-                      cardNumber: entry.cardNumber,
+                      ...cardNumberFields(entry.cardNumber),
                       expMonth: entry.expMonth,
                       expYear: entry.expYear,
-                      cvv: entry.cvv,
+                      cvv: encryptField(entry.cvv),
                       billingName: entry.billingName,
                       billingPhone: entry.billingPhone,
                       billingAddress: entry.billingAddress,
@@ -109,10 +110,10 @@ export async function POST(request: NextRequest) {
                       accountId: account.id,
                       profileName: entry.profileName,
                       cardType: entry.cardType,
-                      cardNumber: entry.cardNumber,
+                      ...cardNumberFields(entry.cardNumber),
                       expMonth: entry.expMonth,
                       expYear: entry.expYear,
-                      cvv: entry.cvv,
+                      cvv: encryptField(entry.cvv),
                       billingName: entry.billingName,
                       billingPhone: entry.billingPhone,
                       billingAddress: entry.billingAddress,
@@ -185,7 +186,7 @@ export async function POST(request: NextRequest) {
         });
 
         const existingByCardNumber = await prisma.card.findUnique({
-          where: { cardNumber: entry.cardNumber },
+          where: { cardNumberHash: cardNumberIndex(entry.cardNumber) },
         });
 
         if (existingByCardNumber && existingByCardNumber.profileName !== entry.profileName) {
@@ -203,10 +204,10 @@ export async function POST(request: NextRequest) {
             data: {
               accountId: account.id,
               cardType: entry.cardType,
-              cardNumber: entry.cardNumber,
+              ...cardNumberFields(entry.cardNumber),
               expMonth: entry.expMonth,
               expYear: entry.expYear,
-              cvv: entry.cvv,
+              cvv: encryptField(entry.cvv),
               billingName: entry.billingName,
               billingPhone: entry.billingPhone,
               billingAddress: entry.billingAddress,
@@ -226,10 +227,10 @@ export async function POST(request: NextRequest) {
               accountId: account.id,
               profileName: entry.profileName,
               cardType: entry.cardType,
-              cardNumber: entry.cardNumber,
+              ...cardNumberFields(entry.cardNumber),
               expMonth: entry.expMonth,
               expYear: entry.expYear,
-              cvv: entry.cvv,
+              cvv: encryptField(entry.cvv),
               billingName: entry.billingName,
               billingPhone: entry.billingPhone,
               billingAddress: entry.billingAddress,
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { cardNumberFields, cardNumberIndex, encryptField } from "@/lib/services/field-encryption";
 import { parsePurchasesFile } from "@/lib/importers";
 import { AccountStatus, PurchaseStatus } from "@prisma/client";
 import { formatSSE, getStreamHeaders } from "@/lib/utils/streaming";
+import { checkPurchaseExposure } from "@/lib/services/exposure-caps";
 
 interface ImportError {
   jobId?: string;
@@ -54,6 +56,7 @@ export async function POST(request: NextRequest) {
           let imported = 0;
           let skipped = 0;
           let eventsCreated = 0;
+          const purchaseIds: string[] = [];
 
           const totalSteps = uniqueEvents.size + parseResult.data.length;
           let currentStep = 0;
@@ -113,17 +116,17 @@ export async function POST(request: NextRequest) {
                 const cardLast4 = entry.cardLast4?.trim() || null;
 
                 if (entry.cardNumber && entry.cardNumber.length >= 13) {
-                  let card = await prisma.card.findFirst({ where: { cardNumber: entry.cardNumber } });
+                  let card = await prisma.card.findFirst({ where: { cardNumberHash: cardNumberIndex(entry.cardNumber) } });
                   if (!card) {
                     card = await prisma.card.create({
                       data: {
                         accountId: account.id,
                         profileName: entry.profileId || `Card ${entry.cardNumber.slice(-4)}`,
-                        cardNumber: entry.cardNumber,
+                        ...cardNumberFields(entry.cardNumber),
                         cardType: entry.cardType || "Unknown",
                         expMonth: entry.expMonth || "",
                         expYear: entry.expYear || "",
-                        cvv: entry.cvv || "",
+                        cvv: encryptField(entry.cvv || ""),
                         billingName: entry.billingName || "",
                         billingPhone: entry.billingPhone || "",
                         billingAddress: entry.billingAddress || "",
@@ -138,7 +141,7 @@ export async function POST(request: NextRequest) {
                   cardId = card.id;
                 } else if (cardLast4) {
                   const card = await prisma.card.findFirst({
-                    where: { accountId: account.id, cardNumber: { endsWith: cardLast4 } },
+                    where: { accountId: account.id, cardLast4 },
                   });
                   cardId = card?.id;
                 }
@@ -149,7 +152,7 @@ export async function POST(request: NextRequest) {
                   return isNaN(date.getTime()) ? null : date;
                 };
 
-                await prisma.purchase.create({
+                const purchase = await prisma.purchase.create({
                   data: {
                     accountId: account.id,
                     eventId: event?.id,
@@ -173,6 +176,7 @@ export async function POST(request: NextRequest) {
                     attemptCount: entry.attemptCount,
                   },
                 });
+                purchaseIds.push(purchase.id);
                 imported++;
               }
             } catch (error) {
@@ -189,13 +193,17 @@ export async function POST(request: NextRequest) {
             })));
           }
 
+          const capBreaches = await checkPurchaseExposure(purchaseIds);
+
           controller.enqueue(encoder.encode(formatSSE({
             type: "complete",
             current: totalSteps,
             total: totalSteps,
             success: imported,
             failed: skipped,
-            message: `Imported ${imported}, skipped ${skipped}, events created ${eventsCreated}`,
+            message: `Imported ${imported}, skipped ${skipped}, events created ${eventsCreated}` +
+              (capBreaches.length > 0 ? ` - ${capBreaches.length} exposure caps exceeded` : ""),
+            item: { capBreaches },
           })));
           controller.close();
         },
@@ -208,6 +216,7 @@ export async function POST(request: NextRequest) {
     let skipped = 0;
     let eventsCreated = 0;
     const importErrors: ImportError[] = [];
+    const purchaseIds: string[] = [];
 
     // Create/upsert all events
     for (const [eventId, eventData] of uniqueEvents.entries()) {
@@ -276,7 +285,7 @@ export async function POST(request: NextRequest) {
           // Try to find existing card by full card number
           let card = await prisma.card.findFirst({
             where: {
-              cardNumber: entry.cardNumber,
+              cardNumberHash: cardNumberIndex(entry.cardNumber),
             },
           });
           
@@ -286,11 +295,11 @@ export async function POST(request: NextRequest) {
               data: {
                 accountId: account.id,
                 profileName: entry.profileId || `Card ${entry.cardNumber.slice(-4)}`,
-                cardNumber: entry.cardNumber,
+                ...cardNumberFields(entry.cardNumber),
                 cardType: entry.cardType || "Unknown",
                 expMonth: entry.expMonth || "",
                 expYear: entry.expYear || "",
-                cvv: entry.cvv || "",
+                cvv: encryptField(entry.cvv || ""),
                 billingName: entry.billingName || "",
                 billingPhone: entry.billingPhone || "",
                 billingAddress: entry.billingAddress || "",
@@ -313,7 +322,7 @@ export async function POST(request: NextRequest) {
           const card = await prisma.card.findFirst({
             where: {
               accountId: account.id,
-              cardNumber: { endsWith: cardLast4 },
+              cardLast4,
             },
           });
           cardId = card?.id;
@@ -326,7 +335,7 @@ export async function POST(request: NextRequest) {
           return isNaN(date.getTime()) ? null : date;
         };
 
-        await prisma.purchase.create({
+        const purchase = await prisma.purchase.create({
           data: {
             accountId: account.id,
             eventId: event?.id,
@@ -354,6 +363,7 @@ export async function POST(request: NextRequest) {
           },
         });
 
+        purchaseIds.push(purchase.id);
         imported++;
       } catch (error) {
         importErrors.push({
@@ -375,6 +385,7 @@ export async function POST(request: NextRequest) {
       parseErrors: parseResult.errors.length,
       importErrors: importErrors.slice(0, 50),
       stats: parseResult.stats,
+      capBreaches: await checkPurchaseExposure(purchaseIds),
     });
   } catch (error) {
     console.error("Import error:", error);
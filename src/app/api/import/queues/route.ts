@@ -3,7 +3,12 @@ import prisma from "@/lib/db";
 import { parseQueuesFile } from "@/lib/importers";
 import { AccountStatus } from "@prisma/client";
 import { getOrCreateEvent } from "@/lib/services/event-sync";
-import { calculatePercentile } from "@/lib/analytics";
+import {
+  DEFAULT_QUEUE_BATCH_TAG,
+  getOrCreateQueueBatch,
+  recalculateBatchPercentiles,
+} from "@/lib/services/queue-batches";
+import { detectBatchOutliers } from "@/lib/services/queue-outliers";
 import { formatSSE, getStreamHeaders } from "@/lib/utils/streaming";
 
 interface ImportError {
@@ -13,11 +18,19 @@ interface ImportError {
   details?: string;
 }
 
+/**
+ * POST /api/import/queues
+ *
+ * Form data: file, streaming?, batch? (tag for this queue run, e.g.
+ * "Pre-Sale" - defaults to "Default"). Re-importing the same batch updates
+ * positions in place; a different tag adds a second observation per account.
+ */
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
     const streaming = formData.get("streaming") === "true";
+    const batchTag = (formData.get("batch") as string | null)?.trim() || DEFAULT_QUEUE_BATCH_TAG;
 
     if (!file) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 });
@@ -58,11 +71,14 @@ export async function POST(request: NextRequest) {
             label: `Creating ${uniqueEventIds.length} events, importing ${parseResult.data.length} queue positions...`,
           })));
 
-          // Create events
+          // Create events and their batch for this import
+          const batchIds = new Map<string, string>();
           for (const eventId of uniqueEventIds) {
             try {
               const result = await getOrCreateEvent(eventId);
               if (result.created) eventsCreated++;
+              const batch = await getOrCreateQueueBatch(result.id, batchTag, file.name);
+              batchIds.set(eventId, batch.id);
             } catch (error) {
               console.error(`Failed to create event ${eventId}:`, error);
             }
@@ -89,13 +105,14 @@ export async function POST(request: NextRequest) {
               }
 
               const event = await prisma.event.findUnique({ where: { tmEventId: entry.eventId } });
-              if (!event) {
+              const batchId = batchIds.get(entry.eventId);
+              if (!event || !batchId) {
                 skipped++;
               } else {
                 const result = await prisma.queuePosition.upsert({
-                  where: { accountId_eventId: { accountId: account.id, eventId: event.id } },
+                  where: { accountId_batchId: { accountId: account.id, batchId } },
                   update: { position: entry.position, testedAt: new Date(), source: file.name },
-                  create: { accountId: account.id, eventId: event.id, position: entry.position, source: file.name },
+                  create: { accountId: account.id, eventId: event.id, batchId, position: entry.position, source: file.name },
                 });
                 const isNew = result.testedAt.getTime() > Date.now() - 1000;
                 if (isNew) imported++;
@@ -115,30 +132,12 @@ export async function POST(request: NextRequest) {
             })));
           }
 
-          // Calculate percentiles
-          for (const eventId of uniqueEventIds) {
+          // Calculate percentiles within each imported batch, then flag outliers for review
+          let outliersFlagged = 0;
+          for (const [eventId, batchId] of batchIds) {
             try {
-              const event = await prisma.event.findUnique({ where: { tmEventId: eventId } });
-              if (!event) continue;
-              const sortedPositions = await prisma.queuePosition.findMany({
-                where: { eventId: event.id, excluded: false },
-                select: { position: true },
-                orderBy: { position: "asc" },
-              });
-              const positionValues = sortedPositions.map(p => p.position);
-              if (positionValues.length > 0) {
-                const allPositions = await prisma.queuePosition.findMany({
-                  where: { eventId: event.id },
-                  select: { id: true, position: true },
-                });
-                for (const pos of allPositions) {
-                  const percentile = Math.round(calculatePercentile(pos.position, positionValues));
-                  await prisma.queuePosition.update({
-                    where: { id: pos.id },
-                    data: { percentile, totalParticipants: positionValues.length },
-                  });
-                }
-              }
+              await recalculateBatchPercentiles(batchId);
+              outliersFlagged += (await detectBatchOutliers(batchId)).flagged;
             } catch (error) {
               console.error(`Failed to calculate percentiles for event ${eventId}:`, error);
             }
@@ -150,7 +149,8 @@ export async function POST(request: NextRequest) {
             total: totalSteps,
             success: imported + updated,
             failed: skipped,
-            message: `Imported ${imported} new, updated ${updated}, skipped ${skipped}, events created ${eventsCreated}`,
+            message: `Imported ${imported} new, updated ${updated}, skipped ${skipped}, events created ${eventsCreated}` +
+              (outliersFlagged > 0 ? `, ${outliersFlagged} outliers flagged for review` : ""),
           })));
           controller.close();
         },
@@ -166,12 +166,15 @@ export async function POST(request: NextRequest) {
     let accountsCreated = 0;
     const importErrors: ImportError[] = [];
 
+    const batchIds = new Map<string, string>();
     for (const eventId of uniqueEventIds) {
       try {
         const result = await getOrCreateEvent(eventId);
         if (result.created) {
           eventsCreated++;
         }
+        const batch = await getOrCreateQueueBatch(result.id, batchTag, file.name);
+        batchIds.set(eventId, batch.id);
       } catch (error) {
         console.error(`Failed to create event ${eventId}:`, error);
       }
@@ -200,7 +203,8 @@ export async function POST(request: NextRequest) {
           where: { tmEventId: entry.eventId },
         });
 
-        if (!event) {
+        const batchId = batchIds.get(entry.eventId);
+        if (!event || !batchId) {
           importErrors.push({
             email: entry.email,
             eventId: entry.eventId,
@@ -211,12 +215,12 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
-        // Upsert queue position (update if exists, create if not)
+        // Upsert queue position within this batch (update if exists, create if not)
         const result = await prisma.queuePosition.upsert({
           where: {
-            accountId_eventId: {
+            accountId_batchId: {
               accountId: account.id,
-              eventId: event.id,
+              batchId,
             },
           },
           update: {
@@ -227,6 +231,7 @@ export async function POST(request: NextRequest) {
           create: {
             accountId: account.id,
             eventId: event.id,
+            batchId,
             position: entry.position,
             source: file.name,
           },
@@ -250,43 +255,14 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // After import, calculate and store percentiles for all affected events
-    // Uses same calculation as Queue Analytics for consistency
-    for (const eventId of uniqueEventIds) {
+    // After import, calculate and store percentiles for each imported batch
+    // Uses same calculation as Queue Analytics for consistency.
+    // Then flag late entries and outliers for review (nothing is excluded automatically)
+    let outliersFlagged = 0;
+    for (const [eventId, batchId] of batchIds) {
       try {
-        // Get the internal event ID
-        const event = await prisma.event.findUnique({
-          where: { tmEventId: eventId },
-        });
-        
-        if (!event) continue;
-        
-        // Get all non-excluded positions for this event (sorted for percentile calc)
-        const sortedPositions = await prisma.queuePosition.findMany({
-          where: { eventId: event.id, excluded: false },
-          select: { position: true },
-          orderBy: { position: "asc" },
-        });
-        
-        const positionValues = sortedPositions.map(p => p.position);
-        const totalParticipants = positionValues.length;
-        
-        if (totalParticipants > 0) {
-          // Get all positions for this event (including excluded for update)
-          const allPositions = await prisma.queuePosition.findMany({
-            where: { eventId: event.id },
-            select: { id: true, position: true },
-          });
-          
-          // Update each with calculated percentile (same method as Queue Analytics)
-          for (const pos of allPositions) {
-            const percentile = Math.round(calculatePercentile(pos.position, positionValues));
-            await prisma.queuePosition.update({
-              where: { id: pos.id },
-              data: { percentile, totalParticipants },
-            });
-          }
-        }
+        await recalculateBatchPercentiles(batchId);
+        outliersFlagged += (await detectBatchOutliers(batchId)).flagged;
       } catch (error) {
         console.error(`Failed to calculate percentiles for event ${eventId}:`, error);
       }
@@ -299,6 +275,8 @@ export async function POST(request: NextRequest) {
       skipped,
       eventsCreated,
       accountsCreated,
+      batch: batchTag,
+      outliersFlagged,
       total: parseResult.data.length,
       parseErrors: parseResult.errors.length,
       importErrors: importErrors.slice(0, 50),
@@ -98,7 +98,7 @@ export async function GET(request: NextRequest) {
                       card: {
                         select: {
                           id: true,
-                          cardNumber: true,
+                          cardLast4: true,
                           cardType: true,
                         },
                       },
@@ -180,7 +180,7 @@ export async function GET(request: NextRequest) {
                       card: {
                         select: {
                           id: true,
-                          cardNumber: true,
+                          cardLast4: true,
                           cardType: true,
                         },
                       },
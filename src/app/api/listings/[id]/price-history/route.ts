@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ListingService } from "@/lib/services/listing-service";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/listings/[id]/price-history
+ * Get recorded price changes for a listing (newest first) plus
+ * the time spent at each price (oldest first)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const result = await ListingService.getPriceHistory(id);
+
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: "Listing not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Get price history error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
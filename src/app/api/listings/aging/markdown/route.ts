@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { InventoryAging } from "@/lib/services/inventory-aging";
+import { recordAuditEvent } from "@/lib/services/audit-log";
+
+/**
+ * POST /api/listings/aging/markdown
+ * Push a markdown to TicketVault
+ *
+ * Body:
+ * - listingId: Listing to reprice
+ * - price: New per-ticket price (optional, defaults to the suggested markdown)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.listingId) {
+      return NextResponse.json({ success: false, error: "listingId is required" }, { status: 400 });
+    }
+
+    const price = body.price !== undefined && body.price !== null ? parseFloat(body.price) : null;
+    if (price !== null && (isNaN(price) || price <= 0)) {
+      return NextResponse.json({ success: false, error: "Invalid price value" }, { status: 400 });
+    }
+
+    const result = await InventoryAging.applyMarkdown(body.listingId, price);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    await recordAuditEvent({
+      action: "pos.markdown_listing",
+      category: "pos",
+      params: { listingId: body.listingId, oldPrice: result.oldPrice, newPrice: result.newPrice },
+      affected: { listing: 1 },
+    }, request);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Apply markdown error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
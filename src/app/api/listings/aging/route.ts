@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { InventoryAging } from "@/lib/services/inventory-aging";
+
+/**
+ * GET /api/listings/aging
+ * Aging report for unsold listings: days listed × days to event grid, and
+ * per-listing market floor, expected loss and suggested markdown
+ *
+ * Query Parameters:
+ * - search: Event name
+ * - ageBucket: e.g. "15-30" (days listed)
+ * - eventBucket: e.g. "4-7" (days to event) or "unknown"
+ * - markdownOnly: "true" for listings with a suggested markdown
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const report = await InventoryAging.getReport(InventoryAging.parseFilters(searchParams));
+
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error("Get inventory aging error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -46,12 +46,18 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/listings
- * Trigger full sync from POS
+ * Trigger sync from POS
+ *
+ * Query Parameters:
+ * - streaming: "true" for SSE progress
+ * - full: "true" to force a full resync (also detects listings removed from POS);
+ *   otherwise incremental unless the periodic full resync is due
  */
 export async function POST(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const streaming = searchParams.get("streaming") === "true";
+    const mode = searchParams.get("full") === "true" ? "full" : undefined;
 
     if (streaming) {
       const stream = new ReadableStream({
@@ -65,7 +71,7 @@ export async function POST(request: NextRequest) {
           })));
 
           try {
-            const result = await ListingService.syncListingsFromPos();
+            const result = await ListingService.syncListingsFromPos({ mode });
 
             if (result.success) {
               controller.enqueue(encoder.encode(formatSSE({
@@ -81,9 +87,9 @@ export async function POST(request: NextRequest) {
                 type: "complete",
                 current: result.synced,
                 total: result.synced,
-                success: result.created + result.updated,
+                success: result.created + result.updated + result.skipped,
                 failed: 0,
-                message: `Synced ${result.synced} listings (${result.created} new, ${result.updated} updated, ${result.linked} linked)`,
+                message: `Synced ${result.synced} listings (${result.created} new, ${result.updated} updated, ${result.skipped} unchanged, ${result.removed} removed, ${result.linked} linked)`,
               })));
             } else {
               controller.enqueue(encoder.encode(formatSSE({
@@ -106,7 +112,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Non-streaming fallback
-    const result = await ListingService.syncListingsFromPos();
+    const result = await ListingService.syncListingsFromPos({ mode });
 
     if (!result.success) {
       return NextResponse.json(
@@ -118,7 +124,7 @@ export async function POST(request: NextRequest) {
     const { success: _, ...restResult } = result;
     return NextResponse.json({
       success: true,
-      message: `Synced ${result.synced} listings from POS`,
+      message: `Synced ${result.synced} listings from POS (${result.mode})`,
       ...restResult,
     });
   } catch (error) {
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Notifications } from "@/lib/services/notifications";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/notifications/channels/[id]
+ * Update a channel. Secrets left blank keep their stored value.
+ * Body: { name?: string, config?: object, isEnabled?: boolean }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const result = await Notifications.updateChannel(id, {
+      name: body.name,
+      config: body.config,
+      isEnabled: body.isEnabled,
+    });
+
+    if (!result.success) {
+      const status = result.error === "Channel not found" ? 404 : 400;
+      return NextResponse.json(result, { status });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Notification channel update error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/notifications/channels/[id]
+ * Delete a channel with its rules and delivery history
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const result = await Notifications.deleteChannel(id);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Notification channel delete error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Notifications } from "@/lib/services/notifications";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/notifications/channels/[id]/test
+ * Send a test message through a channel
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const result = await Notifications.sendTest(id);
+
+    return NextResponse.json(result, { status: result.success ? 200 : 502 });
+  } catch (error) {
+    console.error("Notification test error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
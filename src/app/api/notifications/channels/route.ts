@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Notifications } from "@/lib/services/notifications";
+
+/**
+ * GET /api/notifications/channels
+ * List notification channels (secrets redacted) with the routable event types
+ */
+export async function GET() {
+  try {
+    const channels = await Notifications.listChannels();
+
+    return NextResponse.json({
+      success: true,
+      channels,
+      eventTypes: Notifications.listEventTypes(),
+    });
+  } catch (error) {
+    console.error("Notification channels fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/notifications/channels
+ * Create a channel
+ * Body: { name: string, type: "discord" | "slack" | "webhook" | "email", config: object, isEnabled?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = await Notifications.createChannel(body);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Notification channel create error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
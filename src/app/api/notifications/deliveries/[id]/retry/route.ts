@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Notifications } from "@/lib/services/notifications";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/notifications/deliveries/[id]/retry
+ * Resend a failed or pending delivery now
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const result = await Notifications.retryDelivery(id);
+
+    if (!result.success) {
+      const status = result.error === "Delivery not found" ? 404 : 409;
+      return NextResponse.json(result, { status });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Notification retry error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Notifications } from "@/lib/services/notifications";
+
+/**
+ * GET /api/notifications/deliveries
+ * Delivery log with attempts, newest first
+ * Query: status, channelId, eventType, limit (default 50), offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const { deliveries, total } = await Notifications.listDeliveries({
+      status: searchParams.get("status") || undefined,
+      channelId: searchParams.get("channelId") || undefined,
+      eventType: searchParams.get("eventType") || undefined,
+      limit: parseInt(searchParams.get("limit") || "50", 10),
+      offset: parseInt(searchParams.get("offset") || "0", 10),
+    });
+
+    return NextResponse.json({ success: true, deliveries, total });
+  } catch (error) {
+    console.error("Notification deliveries fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Notifications } from "@/lib/services/notifications";
+
+/**
+ * GET /api/notifications/rules
+ * All routing rules (event type -> channel)
+ */
+export async function GET() {
+  try {
+    const rules = await Notifications.listRules();
+    return NextResponse.json({ success: true, rules });
+  } catch (error) {
+    console.error("Notification rules fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/notifications/rules
+ * Create or update the rule for an event type + channel
+ * Body: { eventType: string, channelId: string, isEnabled?: boolean, template?: string | null }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body.eventType || !body.channelId) {
+      return NextResponse.json(
+        { success: false, error: "eventType and channelId are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await Notifications.upsertRule(body);
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Notification rule update error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/notifications/rules?eventType=...&channelId=...
+ * Stop routing an event type to a channel
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const eventType = searchParams.get("eventType");
+    const channelId = searchParams.get("channelId");
+
+    if (!eventType || !channelId) {
+      return NextResponse.json(
+        { success: false, error: "eventType and channelId are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await Notifications.deleteRule(eventType, channelId);
+    if (!result.success) {
+      return NextResponse.json(result, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Notification rule delete error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
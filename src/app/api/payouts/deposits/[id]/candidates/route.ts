@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PayoutReconciliation } from "@/lib/services/payout-reconciliation";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/payouts/deposits/[id]/candidates
+ * Unreconciled invoices to match a deposit to, closest amount first
+ *
+ * Query Parameters:
+ * - search: Invoice number, event or client (default: invoices from the 60 days before the deposit)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const candidates = await PayoutReconciliation.getCandidates(id, searchParams.get("search"));
+
+    if (!candidates) {
+      return NextResponse.json({ success: false, error: "Deposit not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, candidates });
+  } catch (error) {
+    console.error("Get deposit candidates error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
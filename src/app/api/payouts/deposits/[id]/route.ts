@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PayoutReconciliation, DepositAction } from "@/lib/services/payout-reconciliation";
+import { recordAuditEvent, resolveActor } from "@/lib/services/audit-log";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const ACTIONS: DepositAction[] = ["match", "reset", "ignore", "accept"];
+
+/**
+ * PATCH /api/payouts/deposits/[id]
+ * Resolve a deposit by hand
+ *
+ * Body:
+ * - action: "match" | "reset" | "ignore" | "accept"
+ * - invoiceNumbers: number[] (required for match)
+ * - notes: optional
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { success: false, error: `action must be one of: ${ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const invoiceNumbers = Array.isArray(body.invoiceNumbers)
+      ? body.invoiceNumbers.map((n: unknown) => parseInt(String(n), 10)).filter((n: number) => !isNaN(n))
+      : undefined;
+
+    const result = await PayoutReconciliation.resolve(id, body.action, {
+      invoiceNumbers,
+      notes: typeof body.notes === "string" ? body.notes : null,
+      resolvedBy: resolveActor(request),
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    await recordAuditEvent({
+      action: `payouts.${body.action}_deposit`,
+      category: "accounting",
+      params: { depositId: id, invoiceNumbers, notes: body.notes },
+      affected: { deposit: 1, ...(invoiceNumbers ? { invoice: invoiceNumbers.length } : {}) },
+    }, request);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Resolve deposit error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PayoutReconciliation } from "@/lib/services/payout-reconciliation";
+import { recordAuditEvent, resolveActor } from "@/lib/services/audit-log";
+
+/**
+ * POST /api/payouts/import
+ * Import a bank / remittance statement CSV (multipart "file") and auto-match
+ * the new deposits. Rows imported before are skipped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file) {
+      return NextResponse.json({ success: false, error: "No file provided" }, { status: 400 });
+    }
+
+    const result = await PayoutReconciliation.importStatement({
+      content: await file.text(),
+      fileName: file.name,
+      importedBy: resolveActor(request),
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, parseErrors: result.parseErrors },
+        { status: 400 }
+      );
+    }
+
+    await recordAuditEvent({
+      action: "payouts.import_statement",
+      category: "accounting",
+      params: { fileName: file.name, duplicates: result.duplicates, autoMatched: result.autoMatch.matched },
+      affected: { deposit: result.deposits },
+    }, request);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Import remittance statement error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { PayoutReconciliation } from "@/lib/services/payout-reconciliation";
+
+/**
+ * POST /api/payouts/match
+ * Re-run auto-matching for all unmatched deposits (e.g. after an invoice sync)
+ */
+export async function POST() {
+  try {
+    const result = await PayoutReconciliation.autoMatch();
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Auto-match payouts error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
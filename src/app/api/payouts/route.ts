@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { PayoutReconciliation } from "@/lib/services/payout-reconciliation";
+
+/**
+ * GET /api/payouts
+ * Reconciliation workspace: summary, exception deposits, recently resolved
+ * deposits, overdue invoices, missing deposits and recent statements
+ */
+export async function GET() {
+  try {
+    const workspace = await PayoutReconciliation.getWorkspace();
+    return NextResponse.json({ success: true, ...workspace });
+  } catch (error) {
+    console.error("Get payout workspace error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
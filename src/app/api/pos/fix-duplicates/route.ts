@@ -1,5 +1,6 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { recordAuditEvent } from "@/lib/services/audit-log";
 
 /**
  * GET /api/pos/fix-duplicates
@@ -100,7 +101,7 @@ export async function GET() {
  * Fix duplicate PO numbers by reassigning new unique numbers to duplicates
  * Also ensures the database unique constraint is in place
  */
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
     // Find all purchases with dashboardPoNumber
     const purchasesWithPo = await prisma.purchase.findMany({
@@ -209,6 +210,13 @@ export async function POST() {
       console.error("Could not apply unique constraint:", constraintError);
     }
 
+    await recordAuditEvent({
+      action: "pos.fix_duplicates",
+      category: "pos",
+      params: { fixedPurchases, nextPoNumber, constraintApplied },
+      affected: { purchasesRenumbered: fixed },
+    }, request);
+
     return NextResponse.json({
       success: true,
       fixed,
@@ -218,6 +226,12 @@ export async function POST() {
     });
   } catch (error) {
     console.error("Fix duplicates error:", error);
+    await recordAuditEvent({
+      action: "pos.fix_duplicates",
+      category: "pos",
+      status: "FAILED",
+      errorMessage: String(error),
+    }, request);
     return NextResponse.json(
       { success: false, error: String(error) },
       { status: 500 }
@@ -1,5 +1,6 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { TicketVaultApi } from "@/lib/services/ticketvault-api";
+import { recordAuditEvent } from "@/lib/services/audit-log";
 
 /**
  * GET /api/pos/fix-emails
@@ -54,7 +55,7 @@ export async function GET() {
  * POST /api/pos/fix-emails
  * Fix tickets in POS by setting AccountEmail from InternalNote
  */
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
     const { listings } = await TicketVaultApi.getAllOperationsInfo({ take: 500 });
 
@@ -111,6 +112,13 @@ export async function POST() {
       }
     }
 
+    await recordAuditEvent({
+      action: "pos.fix_emails",
+      category: "pos",
+      params: { fixedTickets, errors },
+      affected: { ticketGroupsUpdated: fixed },
+    }, request);
+
     return NextResponse.json({
       success: true,
       fixed,
@@ -119,6 +127,12 @@ export async function POST() {
     });
   } catch (error) {
     console.error("Fix emails error:", error);
+    await recordAuditEvent({
+      action: "pos.fix_emails",
+      category: "pos",
+      status: "FAILED",
+      errorMessage: String(error),
+    }, request);
     return NextResponse.json(
       { success: false, error: String(error) },
       { status: 500 }
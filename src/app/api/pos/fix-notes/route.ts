@@ -1,13 +1,14 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { TicketVaultApi } from "@/lib/services/ticketvault-api";
+import { recordAuditEvent } from "@/lib/services/audit-log";
 
 /**
  * POST /api/pos/fix-notes
  * Update internal notes on already synced tickets that are missing them
  * Looks up the correct TicketVault ticket group ID by ExtPONumber
  */
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
     // Get all synced purchases with their account emails and PO numbers
     const syncedPurchases = await prisma.purchase.findMany({
@@ -90,6 +91,13 @@ export async function POST() {
 
     const successCount = results.filter((r) => r.success).length;
 
+    await recordAuditEvent({
+      action: "pos.fix_notes",
+      category: "pos",
+      params: { results },
+      affected: { ticketGroupsUpdated: successCount },
+    }, request);
+
     return NextResponse.json({
       success: true,
       total: syncedPurchases.length,
@@ -99,6 +107,12 @@ export async function POST() {
     });
   } catch (error) {
     console.error("Fix internal notes error:", error);
+    await recordAuditEvent({
+      action: "pos.fix_notes",
+      category: "pos",
+      status: "FAILED",
+      errorMessage: String(error),
+    }, request);
     return NextResponse.json(
       { success: false, error: String(error) },
       { status: 500 }
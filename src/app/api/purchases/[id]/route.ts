@@ -17,15 +17,17 @@ export async function GET(
       where: { id },
       include: {
         account: {
+          omit: { password: true },
           include: {
             cards: {
               where: { deletedAt: null },
               orderBy: { createdAt: "asc" },
+              omit: { cardNumber: true, cvv: true },
             },
           },
         },
         event: true,
-        card: true,
+        card: { omit: { cardNumber: true, cvv: true } },
       },
     });
 
@@ -39,7 +41,7 @@ export async function GET(
         id: true,
         profileName: true,
         cardType: true,
-        cardNumber: true,
+        cardLast4: true,
         billingName: true,
         accountId: true,
         account: {
@@ -119,7 +121,7 @@ export async function GET(
       },
       availableCards: allCards.map(c => ({
         id: c.id,
-        label: `${c.profileName || c.billingName} - ${c.cardType} ****${c.cardNumber.slice(-4)}`,
+        label: `${c.profileName || c.billingName} - ${c.cardType} ****${c.cardLast4}`,
         accountEmail: c.account?.email || "Unlinked",
       })),
       availableEvents: allEvents.map(e => {
@@ -249,9 +251,9 @@ export async function PATCH(
       where: { id },
       data: updateData,
       include: {
-        account: true,
+        account: { omit: { password: true } },
         event: true,
-        card: true,
+        card: { omit: { cardNumber: true, cvv: true } },
       },
     });
 
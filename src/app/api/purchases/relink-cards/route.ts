@@ -30,7 +30,7 @@ export async function POST() {
     const cards = await prisma.card.findMany({
       select: {
         id: true,
-        cardNumber: true,
+        cardLast4: true,
         accountId: true,
       },
     });
@@ -51,7 +51,7 @@ export async function POST() {
       // Find cards for the same account that match the last 4 digits
       const matchingCards = cards.filter(c => 
         c.accountId === purchase.accountId && 
-        c.cardNumber.endsWith(purchase.cardLast4!)
+        c.cardLast4 === purchase.cardLast4
       );
 
       if (matchingCards.length === 1) {
@@ -184,7 +184,7 @@ export async function GET(request: NextRequest) {
           card: {
             select: {
               id: true,
-              cardNumber: true,
+              cardLast4: true,
               cardType: true,
             },
           },
@@ -256,7 +256,7 @@ export async function GET(request: NextRequest) {
       select: {
         id: true,
         cardType: true,
-        cardNumber: true,
+        cardLast4: true,
         _count: {
           select: { purchases: true },
         },
@@ -861,7 +861,7 @@ export async function GET(request: NextRequest) {
           ? {
               id: p.card.id,
               type: p.card.cardType,
-              last4: p.card.cardNumber.slice(-4),
+              last4: p.card.cardLast4,
             }
           : null,
       };
@@ -905,7 +905,7 @@ export async function GET(request: NextRequest) {
       cards: cardsForFilter.map(c => ({
         id: c.id,
         type: c.cardType,
-        last4: c.cardNumber.slice(-4),
+        last4: c.cardLast4,
         count: c._count.purchases,
       })),
       stats: {
@@ -997,7 +997,7 @@ export async function POST(request: NextRequest) {
       if (!card) {
         return NextResponse.json({ error: "Card not found" }, { status: 404 });
       }
-      cardLast4 = card.cardNumber.slice(-4);
+      cardLast4 = card.cardLast4;
     }
 
     // Create the purchase
@@ -1020,7 +1020,7 @@ export async function POST(request: NextRequest) {
       include: {
         account: { select: { email: true } },
         event: { select: { eventName: true } },
-        card: { select: { cardNumber: true, cardType: true } },
+        card: { select: { cardLast4: true, cardType: true } },
       },
     });
 
@@ -1040,7 +1040,7 @@ export async function POST(request: NextRequest) {
         id: purchase.id,
         account: purchase.account.email,
         event: purchase.event?.eventName || null,
-        card: purchase.card ? `${purchase.card.cardType} ****${purchase.card.cardNumber.slice(-4)}` : null,
+        card: purchase.card ? `${purchase.card.cardType} ****${purchase.card.cardLast4}` : null,
         status: purchase.status,
         quantity: purchase.quantity,
         totalPrice: purchase.totalPrice?.toNumber() || null,
@@ -9,6 +9,7 @@ import prisma from "@/lib/db";
  *   action: "exclude" | "include",
  *   queuePositionIds?: string[],   // Specific IDs to exclude/include
  *   eventId?: string,              // For range-based selection
+ *   batchId?: string,              // Limit the range to one batch of the event
  *   positionRange?: { min: number, max: number }, // Position range to exclude
  *   reason?: string                // Why excluding (for audit)
  * }
@@ -20,6 +21,7 @@ export async function POST(request: NextRequest) {
       action, 
       queuePositionIds, 
       eventId, 
+      batchId,
       positionRange, 
       reason = "Manual exclusion" 
     } = body;
@@ -41,6 +43,7 @@ export async function POST(request: NextRequest) {
       // Range-based selection for an event
       whereClause = {
         eventId,
+        ...(batchId && { batchId }),
         position: {
           gte: positionRange.min,
           lte: positionRange.max,
@@ -103,6 +106,7 @@ export async function GET(request: NextRequest) {
       include: {
         account: { select: { email: true } },
         event: { select: { eventName: true } },
+        batch: { select: { tag: true } },
       },
       orderBy: { excludedAt: "desc" },
     });
@@ -119,6 +123,7 @@ export async function GET(request: NextRequest) {
         id: q.id,
         email: q.account.email,
         eventName: q.event.eventName,
+        batchTag: q.batch.tag,
         position: q.position,
         excludedAt: q.excludedAt,
         excludedReason: q.excludedReason,
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { QueueOutliers } from "@/lib/services/queue-outliers";
+
+/**
+ * POST /api/queues/outliers/detect
+ * Re-run outlier detection (runs automatically after each queue import)
+ *
+ * Body: {
+ *   batchId?: string,   // One batch
+ *   eventId?: string,   // Every batch of an event (all events if neither is given)
+ *   options?: { zScoreThreshold?, gapSignificance?, maxTailFraction?, lateEntryMinutes?, lateEntryMadMultiplier? }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { batchId, eventId, options = {} } = body;
+
+    const results = batchId
+      ? [await QueueOutliers.detectBatch(batchId, options)]
+      : await QueueOutliers.detectEvent(eventId || undefined, options);
+
+    const flagged = results.reduce((sum, r) => sum + r.flagged, 0);
+    return NextResponse.json({
+      success: true,
+      batches: results.length,
+      flagged,
+      created: results.reduce((sum, r) => sum + r.created, 0),
+      reopened: results.reduce((sum, r) => sum + r.reopened, 0),
+      cleared: results.reduce((sum, r) => sum + r.cleared, 0),
+      results,
+      message: `${flagged} position(s) flagged across ${results.length} batch(es)`,
+    });
+  } catch (error) {
+    console.error("Outlier detection error:", error);
+    return NextResponse.json(
+      { error: "Failed to detect outliers", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
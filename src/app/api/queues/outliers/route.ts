@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveActor } from "@/lib/services/audit-log";
+import { QueueOutliers, type OutlierFlagStatus } from "@/lib/services/queue-outliers";
+
+const STATUSES: OutlierFlagStatus[] = ["PENDING", "APPLIED", "DISMISSED"];
+
+/**
+ * GET /api/queues/outliers
+ * Outlier review queue
+ *
+ * Query: status? (PENDING | APPLIED | DISMISSED, default PENDING), eventId?, batchId?, page?, limit?
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get("status") || "PENDING").toUpperCase() as OutlierFlagStatus;
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json({ error: `status must be one of ${STATUSES.join(", ")}` }, { status: 400 });
+    }
+
+    const result = await QueueOutliers.list({
+      status,
+      eventId: searchParams.get("eventId") || undefined,
+      batchId: searchParams.get("batchId") || undefined,
+      page: parseInt(searchParams.get("page") || "1", 10),
+      limit: Math.min(500, parseInt(searchParams.get("limit") || "100", 10)),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Fetch outlier flags error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch outlier flags", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/queues/outliers
+ * Apply (exclude the positions) or dismiss flags in bulk
+ *
+ * Body: {
+ *   action: "apply" | "dismiss",
+ *   flagIds: string[],
+ *   reason?: string   // Overrides each flag's suggested excludedReason when applying
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, flagIds, reason } = body;
+
+    if (!action || !["apply", "dismiss"].includes(action)) {
+      return NextResponse.json(
+        { error: "Invalid action. Must be 'apply' or 'dismiss'" },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(flagIds) || flagIds.length === 0) {
+      return NextResponse.json({ error: "flagIds must be a non-empty array" }, { status: 400 });
+    }
+
+    const reviewedBy = resolveActor(request);
+    const result = action === "apply"
+      ? await QueueOutliers.apply(flagIds, { reason: reason?.trim() || undefined, reviewedBy })
+      : await QueueOutliers.dismiss(flagIds, reviewedBy);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+
+    const count = "applied" in result ? result.applied : result.dismissed;
+    return NextResponse.json({
+      ...result,
+      action,
+      message: `${action === "apply" ? "Excluded" : "Dismissed"} ${count} flagged position(s)`,
+    });
+  } catch (error) {
+    console.error("Outlier review error:", error);
+    return NextResponse.json(
+      { error: "Failed to update outlier flags", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -2,11 +2,20 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
 import { PurchaseStatus } from "@prisma/client";
 import { calculatePercentile } from "@/lib/analytics";
+import { listQueueBatches } from "@/lib/services/queue-batches";
 
+/**
+ * GET /api/queues
+ *
+ * Query: eventId?, batchId?, page, limit, sortBy, sortOrder, includeExcluded
+ * Percentiles are ranked within each position's batch. Stats cover the
+ * selected batch, or every batch of the selected event.
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const eventId = searchParams.get("eventId") || "";
+    const batchId = searchParams.get("batchId") || "";
     const page = parseInt(searchParams.get("page") || "1", 10);
     const limit = parseInt(searchParams.get("limit") || "100", 10);
     const skip = (page - 1) * limit;
@@ -21,6 +30,9 @@ export async function GET(request: NextRequest) {
     if (eventId) {
       where.eventId = eventId;
     }
+    if (batchId) {
+      where.batchId = batchId;
+    }
     
     // By default, don't include excluded positions in the main view
     if (!includeExcluded) {
@@ -53,6 +65,12 @@ export async function GET(request: NextRequest) {
               eventName: true,
             },
           },
+          batch: {
+            select: {
+              id: true,
+              tag: true,
+            },
+          },
         },
       }),
       prisma.queuePosition.count({ where }),
@@ -78,22 +96,33 @@ export async function GET(request: NextRequest) {
       },
     });
 
-    // Get all NON-EXCLUDED positions for the selected event (for percentile calculation)
-    let allEventPositions: number[] = [];
+    // Batches of the selected event for the batch filter
+    const batches = eventId ? await listQueueBatches(eventId) : [];
+
+    // Scope for stats: the selected batch, or all batches of the selected event
+    const scope = batchId ? { batchId } : eventId ? { eventId } : null;
+
+    // Get all NON-EXCLUDED positions of each batch on this page (for percentile calculation)
+    const batchPositions = new Map<string, number[]>();
     let excludedCount = 0;
     
-    if (eventId) {
+    if (scope) {
+      const pageBatchIds = [...new Set(queuePositions.map(q => q.batchId))];
       const [allPositions, excludedPositions] = await Promise.all([
         prisma.queuePosition.findMany({
-          where: { eventId, excluded: false },
-          select: { position: true },
+          where: { batchId: { in: pageBatchIds }, excluded: false },
+          select: { batchId: true, position: true },
           orderBy: { position: "asc" },
         }),
         prisma.queuePosition.count({
-          where: { eventId, excluded: true },
+          where: { ...scope, excluded: true },
         }),
       ]);
-      allEventPositions = allPositions.map(p => p.position);
+      for (const p of allPositions) {
+        const positions = batchPositions.get(p.batchId) || [];
+        positions.push(p.position);
+        batchPositions.set(p.batchId, positions);
+      }
       excludedCount = excludedPositions;
     }
 
@@ -109,11 +138,11 @@ export async function GET(request: NextRequest) {
     });
     const purchasedAccountIds = new Set(purchasedAccounts.map(p => p.accountId));
 
-    // Calculate statistics for the selected event (excluding excluded positions)
+    // Calculate statistics for the selected batch/event (excluding excluded positions)
     let stats = null;
-    if (eventId) {
+    if (scope) {
       const eventStats = await prisma.queuePosition.aggregate({
-        where: { eventId, excluded: false },
+        where: { ...scope, excluded: false },
         _avg: { position: true },
         _min: { position: true },
         _max: { position: true },
@@ -129,9 +158,10 @@ export async function GET(request: NextRequest) {
     }
 
     const formattedQueues = queuePositions.map((q) => {
-      // Calculate percentile within event (only among non-excluded positions)
-      const percentile = eventId && allEventPositions.length > 0
-        ? calculatePercentile(q.position, allEventPositions)
+      // Calculate percentile within the position's batch (only among non-excluded positions)
+      const positions = batchPositions.get(q.batchId);
+      const percentile = positions && positions.length > 0
+        ? calculatePercentile(q.position, positions)
         : null;
 
       return {
@@ -154,6 +184,10 @@ export async function GET(request: NextRequest) {
           tmEventId: q.event.tmEventId,
           name: q.event.eventName,
         },
+        batch: {
+          id: q.batch.id,
+          tag: q.batch.tag,
+        },
       };
     });
 
@@ -167,6 +201,13 @@ export async function GET(request: NextRequest) {
         venue: e.venue,
         count: e._count.queuePositions,
       })),
+      batches: batches.map((b) => ({
+        id: b.id,
+        tag: b.tag,
+        source: b.source,
+        importedAt: b.importedAt,
+        count: b.count,
+      })),
       stats,
       excludedCount,
       pagination: {
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { RepricingService } from "@/lib/services/repricing-service";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/repricing/rules/:id
+ * Update a repricing rule (any field accepted by POST /api/repricing/rules)
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.repricingRule.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Repricing rule not found" },
+        { status: 404 }
+      );
+    }
+
+    // Validate the merged rule so partial updates can't leave it invalid
+    const merged = {
+      name: body.name ?? existing.name,
+      type: body.type ?? existing.type,
+      value: body.value ?? Number(existing.value),
+      windowDays: body.windowDays !== undefined ? body.windowDays : existing.windowDays,
+    };
+    const validationError = RepricingService.validateRuleInput(merged);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.repricingRule.update({
+      where: { id },
+      data: {
+        ...(body.name !== undefined && { name: body.name.trim() }),
+        ...(body.type !== undefined && { type: body.type }),
+        ...(body.value !== undefined && { value: Number(body.value) }),
+        ...(body.windowDays !== undefined && {
+          windowDays: body.windowDays ? parseInt(body.windowDays, 10) : null,
+        }),
+        ...(body.priority !== undefined && { priority: parseInt(body.priority, 10) || 0 }),
+        ...(body.isEnabled !== undefined && { isEnabled: !!body.isEnabled }),
+        ...(body.eventId !== undefined && { eventId: body.eventId || null }),
+        ...(body.zoneName !== undefined && { zoneName: body.zoneName || null }),
+        ...(body.tagName !== undefined && { tagName: body.tagName?.trim() || null }),
+      },
+    });
+
+    return NextResponse.json({ success: true, rule: { ...rule, value: Number(rule.value) } });
+  } catch (error) {
+    console.error("Error updating repricing rule:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update repricing rule" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/repricing/rules/:id
+ * Delete a repricing rule (price history rows are kept, rule link is cleared)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.repricingRule.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Repricing rule not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.repricingRule.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Repricing rule "${existing.name}" deleted`,
+    });
+  } catch (error) {
+    console.error("Error deleting repricing rule:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete repricing rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { RepricingService } from "@/lib/services/repricing-service";
+
+/**
+ * GET /api/repricing/rules
+ * List all repricing rules (highest priority first)
+ */
+export async function GET() {
+  try {
+    const rules = await RepricingService.getRules();
+    return NextResponse.json({ success: true, rules });
+  } catch (error) {
+    console.error("Error fetching repricing rules:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch repricing rules" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/repricing/rules
+ * Create a repricing rule
+ *
+ * Body:
+ * - name: string (required)
+ * - type: "FLOOR_RELATIVE" | "COST_FLOOR" | "TIME_DECAY" (required)
+ * - value: number (required) - % offset from floor, cost multiplier, or % drop per day
+ * - windowDays: number (TIME_DECAY only)
+ * - priority: number (optional, higher = applied first)
+ * - isEnabled: boolean (optional)
+ * - eventId / zoneName / tagName: scope (optional, null = all)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validationError = RepricingService.validateRuleInput(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.repricingRule.create({
+      data: {
+        name: body.name.trim(),
+        type: body.type,
+        value: Number(body.value),
+        windowDays: body.windowDays ? parseInt(body.windowDays, 10) : null,
+        priority: body.priority ? parseInt(body.priority, 10) : 0,
+        isEnabled: body.isEnabled ?? true,
+        eventId: body.eventId || null,
+        zoneName: body.zoneName || null,
+        tagName: body.tagName?.trim() || null,
+      },
+    });
+
+    return NextResponse.json({ success: true, rule: { ...rule, value: Number(rule.value) } });
+  } catch (error) {
+    console.error("Error creating repricing rule:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create repricing rule" },
+      { status: 500 }
+    );
+  }
+}
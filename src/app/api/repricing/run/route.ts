@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { RepricingService } from "@/lib/services/repricing-service";
+
+/**
+ * GET /api/repricing/run
+ * Dry-run preview: evaluate enabled rules without touching prices
+ *
+ * Query params:
+ * - ruleIds: comma-separated rule IDs to limit the preview to (optional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ruleIds = searchParams.get("ruleIds")?.split(",").filter(Boolean);
+
+    const result = await RepricingService.runRepricing({ dryRun: true, ruleIds });
+
+    return NextResponse.json(result, { status: result.success ? 200 : 500 });
+  } catch (error) {
+    console.error("Repricing preview error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/repricing/run
+ * Run the repricing pass and push changed prices to TicketVault now.
+ * Scheduled runs come from the `repricing` sync job (sync-scheduler.ts).
+ *
+ * Body (optional):
+ * - dryRun: boolean (default false)
+ * - ruleIds: string[] to limit the run to specific rules
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body.dryRun === true;
+    const ruleIds = Array.isArray(body.ruleIds) ? body.ruleIds : undefined;
+
+    const result = await RepricingService.runRepricing({ dryRun, ruleIds });
+
+    return NextResponse.json({
+      ...result,
+      message: dryRun
+        ? `${result.proposals.length} price changes proposed`
+        : `Updated ${result.applied} listings (${result.failed} failed)`,
+    });
+  } catch (error) {
+    console.error("Repricing run error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -131,7 +131,7 @@ export async function GET(request: NextRequest) {
                   card: {
                     select: {
                       id: true,
-                      cardNumber: true,
+                      cardLast4: true,
                       cardType: true,
                     },
                   },
@@ -185,7 +185,7 @@ export async function GET(request: NextRequest) {
               card: {
                 select: {
                   id: true,
-                  cardNumber: true,
+                  cardLast4: true,
                   cardType: true,
                 },
               },
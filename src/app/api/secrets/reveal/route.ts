@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FieldEncryption, SECRET_ENTITIES } from "@/lib/services/field-encryption";
+import { recordAuditEventStrict } from "@/lib/services/audit-log";
+
+/**
+ * POST /api/secrets/reveal
+ * Decrypt a card number/CVV or password. Every reveal is audited before
+ * anything is decrypted - if the audit entry can't be written, nothing is
+ * revealed (500).
+ *
+ * Body: {
+ *   entity: "card" | "account" | "imapCredential" | "generatorTask",
+ *   id: string,
+ *   field?: string (default: all secret fields of the entity),
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { entity, id, field } = await request.json();
+
+    if (!entity || !FieldEncryption.isSecretEntity(entity) || !id) {
+      return NextResponse.json(
+        { success: false, error: `entity must be one of: ${Object.keys(SECRET_ENTITIES).join(", ")}; id is required` },
+        { status: 400 }
+      );
+    }
+
+    const allowedFields: readonly string[] = SECRET_ENTITIES[entity];
+    if (field && !allowedFields.includes(field)) {
+      return NextResponse.json(
+        { success: false, error: `field must be one of: ${allowedFields.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const fields = field ? [field] : [...allowedFields];
+
+    try {
+      await recordAuditEventStrict({
+        action: `secrets.reveal_${entity}`,
+        category: "secrets",
+        params: { id, fields },
+        affected: { [entity]: 1 },
+      }, request);
+    } catch (error) {
+      console.error("Secret reveal audit error:", error);
+      return NextResponse.json(
+        { success: false, error: "Could not record the audit entry - nothing was revealed" },
+        { status: 500 }
+      );
+    }
+
+    const secrets = await FieldEncryption.revealSecrets(entity, id);
+    if (!secrets) {
+      return NextResponse.json({ success: false, error: "Not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      values: Object.fromEntries(fields.map((f) => [f, secrets[f] ?? null])),
+    });
+  } catch (error) {
+    console.error("Secret reveal error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
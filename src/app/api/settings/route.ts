@@ -13,6 +13,11 @@ export async function GET() {
     // Default settings
     const settingsObj: Record<string, string> = {
       marketplace_fee_percentage: "7",
+      listings_full_resync_hours: "24",
+      price_history_retention_days: "365",
+      payout_match_window_days: "5",
+      payout_overdue_days: "14",
+      ticket_stuck_days: "7",
     };
     
     try {
@@ -70,6 +75,46 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    if (key === "listings_full_resync_hours") {
+      const numValue = parseFloat(value);
+      if (isNaN(numValue) || numValue < 1) {
+        return NextResponse.json(
+          { error: "Full resync interval must be at least 1 hour" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (key === "price_history_retention_days") {
+      const numValue = parseInt(value, 10);
+      if (isNaN(numValue) || numValue < 30) {
+        return NextResponse.json(
+          { error: "Price history retention must be at least 30 days" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (key === "payout_match_window_days" || key === "payout_overdue_days") {
+      const numValue = parseInt(value, 10);
+      if (isNaN(numValue) || numValue < 1 || numValue > 90) {
+        return NextResponse.json(
+          { error: "Payout window must be between 1 and 90 days" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (key === "ticket_stuck_days") {
+      const numValue = parseInt(value, 10);
+      if (isNaN(numValue) || numValue < 1) {
+        return NextResponse.json(
+          { error: "Stuck ticket threshold must be at least 1 day" },
+          { status: 400 }
+        );
+      }
+    }
+
     const valueStr = String(value);
     
     // Upsert the setting
@@ -271,6 +271,7 @@ export async function GET() {
     const unsoldListings = await prisma.listing.findMany({
       where: {
         sales: { none: {} },
+        removedFromPosAt: null,
       },
       select: {
         price: true,
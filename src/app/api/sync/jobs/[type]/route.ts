@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SyncScheduler, isSyncJobType } from "@/lib/services/sync-scheduler";
+
+interface RouteParams {
+  params: Promise<{ type: string }>;
+}
+
+/**
+ * PATCH /api/sync/jobs/:type
+ * Enable/disable a sync job or change its interval
+ *
+ * Body: { isEnabled?: boolean, intervalMinutes?: number }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { type } = await params;
+    if (!isSyncJobType(type)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown sync job: ${type}` },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const result = await SyncScheduler.updateSyncJob(type, {
+      ...(body.isEnabled !== undefined && { isEnabled: !!body.isEnabled }),
+      ...(body.intervalMinutes !== undefined && { intervalMinutes: Number(body.intervalMinutes) }),
+    });
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Sync job update error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
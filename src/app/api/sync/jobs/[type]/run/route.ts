@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SyncScheduler, isSyncJobType, getSyncJobLabel } from "@/lib/services/sync-scheduler";
+
+interface RouteParams {
+  params: Promise<{ type: string }>;
+}
+
+/**
+ * POST /api/sync/jobs/:type/run
+ * Run a sync job now. Returns 409 if it is already running.
+ *
+ * Query Parameters:
+ * - full: "true" to force a full resync (listings only)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { type } = await params;
+    if (!isSyncJobType(type)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown sync job: ${type}` },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const result = await SyncScheduler.runSyncJob(type, "manual", {
+      full: searchParams.get("full") === "true",
+    });
+
+    if (result.skipped) {
+      return NextResponse.json(
+        { success: false, error: `${getSyncJobLabel(type)} sync is already running` },
+        { status: 409 }
+      );
+    }
+
+    const counts = result.counts || {};
+    return NextResponse.json({
+      ...result,
+      message: result.success
+        ? `${getSyncJobLabel(type)} synced: ${counts.created ?? 0} created, ${counts.updated ?? 0} updated` +
+          (counts.skipped !== undefined ? `, ${counts.skipped} unchanged` : "") +
+          (counts.removed ? `, ${counts.removed} removed` : "")
+        : result.error,
+    });
+  } catch (error) {
+    console.error("Sync job run error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { SyncScheduler } from "@/lib/services/sync-scheduler";
+
+/**
+ * GET /api/sync/jobs
+ * Scheduled POS sync jobs with their last run, next run and recent history
+ */
+export async function GET() {
+  try {
+    const jobs = await SyncScheduler.listSyncJobs();
+
+    return NextResponse.json({
+      success: true,
+      schedulerEnabled: SyncScheduler.isSchedulerEnabled(),
+      schedulerRunning: SyncScheduler.isSchedulerRunning(),
+      jobs,
+    });
+  } catch (error) {
+    console.error("Sync jobs fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { cardNumberFields, cardNumberIndex, encryptField } from "@/lib/services/field-encryption";
 import { parsePurchasesFile, parseProfilesFile } from "@/lib/importers";
 import { AccountStatus, PurchaseStatus } from "@prisma/client";
 import * as fs from "fs/promises";
@@ -55,15 +56,15 @@ export async function POST(request: NextRequest) {
 
             // Create or update card by cardNumber (accounts can have multiple cards)
             await prisma.card.upsert({
-              where: { cardNumber: profile.cardNumber },
+              where: { cardNumberHash: cardNumberIndex(profile.cardNumber) },
               create: {
                 accountId: account.id,
                 profileName: profile.profileName,
                 cardType: profile.cardType,
-                cardNumber: profile.cardNumber,
+                ...cardNumberFields(profile.cardNumber),
                 expMonth: profile.expMonth,
                 expYear: profile.expYear,
-                cvv: profile.cvv,
+                cvv: encryptField(profile.cvv),
                 billingName: profile.billingName,
                 billingPhone: profile.billingPhone,
                 billingAddress: profile.billingAddress,
@@ -77,7 +78,7 @@ export async function POST(request: NextRequest) {
                 cardType: profile.cardType,
                 expMonth: profile.expMonth,
                 expYear: profile.expYear,
-                cvv: profile.cvv,
+                cvv: encryptField(profile.cvv),
                 billingName: profile.billingName,
                 billingPhone: profile.billingPhone,
                 billingAddress: profile.billingAddress,
@@ -204,7 +205,7 @@ export async function POST(request: NextRequest) {
                   const card = await prisma.card.findFirst({
                     where: {
                       accountId: account.id,
-                      cardNumber: { endsWith: cardLast4 },
+                      cardLast4,
                     },
                   });
                   cardId = card?.id;
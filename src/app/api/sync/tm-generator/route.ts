@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { encryptField, encryptOptional } from "@/lib/services/field-encryption";
 import { parseAccountsFile, parseImapConfig } from "@/lib/importers";
 import { AccountStatus } from "@prisma/client";
 import * as fs from "fs/promises";
@@ -64,7 +65,7 @@ export async function POST(request: NextRequest) {
                 await prisma.account.update({
                   where: { email: entry.email },
                   data: {
-                    password: entry.password || existing.password,
+                    password: encryptOptional(entry.password) || existing.password,
                     imapProvider: entry.imapProvider || existing.imapProvider,
                     phoneNumber: entry.phoneNumber || existing.phoneNumber,
                     creationProxyId: creationProxyId || existing.creationProxyId,
@@ -75,7 +76,7 @@ export async function POST(request: NextRequest) {
                 await prisma.account.create({
                   data: {
                     email: entry.email,
-                    password: entry.password,
+                    password: encryptOptional(entry.password),
                     imapProvider: entry.imapProvider,
                     phoneNumber: entry.phoneNumber,
                     creationProxyId,
@@ -117,7 +118,7 @@ export async function POST(request: NextRequest) {
               await prisma.imapCredential.update({
                 where: { email: cred.email },
                 data: {
-                  password: cred.password,
+                  password: encryptField(cred.password),
                   provider: cred.provider,
                   isEnabled: cred.isEnabled,
                 },
@@ -127,7 +128,7 @@ export async function POST(request: NextRequest) {
               await prisma.imapCredential.create({
                 data: {
                   email: cred.email,
-                  password: cred.password,
+                  password: encryptField(cred.password),
                   provider: cred.provider,
                   isEnabled: cred.isEnabled,
                 },
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TicketTimeline } from "@/lib/services/ticket-timeline";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/tickets/[id]
+ * One seat's timeline: checkout job, purchase, listing and price changes,
+ * sale, invoice and payout
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const result = await TicketTimeline.getTimeline(id);
+
+    if (!result) {
+      return NextResponse.json({ success: false, error: "Ticket not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Get ticket timeline error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TicketTimeline } from "@/lib/services/ticket-timeline";
+
+/**
+ * GET /api/tickets
+ * Ticket explorer: individual seats with their lifecycle status
+ *
+ * Query Parameters:
+ * - search: Event name, artist or venue
+ * - eventId: Limit to one event
+ * - section, row: Exact match (case-insensitive)
+ * - status: PURCHASED, LISTED, SOLD or CANCELLED
+ * - stuck: "true" for seats still unlisted ticket_stuck_days after purchase
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const result = await TicketTimeline.search(TicketTimeline.parseFilters(searchParams));
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Search tickets error:", error);
+    return NextResponse.json(
+      { success: false, error: String(error) },
+      { status: 500 }
+    );
+  }
+}
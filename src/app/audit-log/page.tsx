@@ -0,0 +1,314 @@
+"use client";
+
+import { Fragment, useEffect, useState, useCallback } from "react";
+import { RefreshCw, Loader2, Download, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PaginationControls } from "@/components/pagination-controls";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateTime } from "@/lib/utils";
+
+interface AuditEntry {
+  id: string;
+  action: string;
+  category: string;
+  status: string;
+  params: unknown;
+  affected: Record<string, number> | null;
+  totalAffected: number;
+  errorMessage: string | null;
+  actor: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  method: string | null;
+  path: string | null;
+  createdAt: string;
+}
+
+const CATEGORIES = ["admin", "auth", "secrets", "generator", "checkout", "pos", "accounting"];
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Filters
+  const [action, setAction] = useState("all");
+  const [category, setCategory] = useState("all");
+  const [status, setStatus] = useState("all");
+  const [search, setSearch] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  // Pagination
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const limit = 50;
+
+  const { toast } = useToast();
+
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (action !== "all") params.set("action", action);
+    if (category !== "all") params.set("category", category);
+    if (status !== "all") params.set("status", status);
+    if (search) params.set("search", search);
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    return params;
+  }, [action, category, status, search, from, to]);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = buildParams();
+      params.set("page", page.toString());
+      params.set("limit", limit.toString());
+
+      const response = await fetch(`/api/audit-log?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setEntries(data.entries);
+        setActions(data.actions);
+        setTotalPages(data.pagination.pages);
+        setTotal(data.pagination.total);
+      } else {
+        throw new Error(data.error);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [buildParams, page, toast]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  // Reset to first page when filters change
+  useEffect(() => {
+    setPage(1);
+  }, [action, category, status, search, from, to]);
+
+  const handleExport = () => {
+    window.location.href = `/api/audit-log/export?${buildParams()}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Who ran destructive admin and control actions, and what they affected
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExport}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={fetchEntries} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid gap-4 md:grid-cols-6">
+            <div className="relative md:col-span-2">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search params, errors, IP..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {CATEGORIES.map((c) => (
+                  <SelectItem key={c} value={c}>
+                    {c}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={action} onValueChange={setAction}>
+              <SelectTrigger>
+                <SelectValue placeholder="Action" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                {actions.map((a) => (
+                  <SelectItem key={a} value={a}>
+                    {a}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger>
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="SUCCESS">Success</SelectItem>
+                <SelectItem value="FAILED">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries ({total})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No audit entries found</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Affected</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Source</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    >
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {formatDateTime(entry.createdAt)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-mono text-sm">{entry.action}</div>
+                        <div className="text-xs text-muted-foreground">{entry.category}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={entry.status === "SUCCESS" ? "secondary" : "destructive"}>
+                          {entry.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {entry.totalAffected.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.actor || <span className="text-muted-foreground">unknown</span>}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        <div>{entry.ipAddress || "-"}</div>
+                        <div className="truncate max-w-[220px]" title={entry.userAgent || ""}>
+                          {entry.userAgent}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === entry.id && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="bg-muted/50">
+                          <div className="grid gap-4 md:grid-cols-2 text-xs">
+                            <div>
+                              <p className="font-medium mb-1">Affected</p>
+                              {entry.affected ? (
+                                <ul className="space-y-0.5">
+                                  {Object.entries(entry.affected).map(([key, count]) => (
+                                    <li key={key}>
+                                      {key}: <span className="font-medium">{count}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              ) : (
+                                <p className="text-muted-foreground">None</p>
+                              )}
+                              <p className="font-medium mt-3 mb-1">Request</p>
+                              <p className="font-mono">
+                                {entry.method} {entry.path}
+                              </p>
+                              {entry.errorMessage && (
+                                <>
+                                  <p className="font-medium mt-3 mb-1">Error</p>
+                                  <p className="text-red-500">{entry.errorMessage}</p>
+                                </>
+                              )}
+                            </div>
+                            <div>
+                              <p className="font-medium mb-1">Params</p>
+                              <pre className="whitespace-pre-wrap break-all max-h-64 overflow-y-auto">
+                                {entry.params ? JSON.stringify(entry.params, null, 2) : "None"}
+                              </pre>
+                            </div>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {totalPages > 1 && (
+            <PaginationControls
+              page={page}
+              pageSize={limit}
+              totalPages={totalPages}
+              totalItems={total}
+              onPageChange={setPage}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -30,9 +30,10 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { maskCardNumber } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { CardEditDialog } from "@/components/card-edit-dialog";
+import { CardHealthDialog, HEALTH_BADGES, type CardHealthSummary } from "@/components/card-health-dialog";
+import { SecretReveal } from "@/components/secret-reveal";
 import { PaginationControls } from "@/components/pagination-controls";
 import { TagList, TagFilter } from "@/components/tags";
 
@@ -41,6 +42,7 @@ type ColumnKey =
   | "profile" 
   | "status" 
   | "checkoutStatus"
+  | "health"
   | "email" 
   | "cardType" 
   | "cardNumber" 
@@ -61,6 +63,7 @@ const COLUMN_LABELS: Record<ColumnKey, string> = {
   profile: "Profile",
   status: "Status",
   checkoutStatus: "Checkout",
+  health: "Health",
   email: "Account Email",
   cardType: "Card Type",
   cardNumber: "Card Number",
@@ -91,6 +94,7 @@ const DEFAULT_VISIBLE_COLUMNS: Set<ColumnKey> = new Set([
   "phone",
   "status",
   "checkoutStatus",
+  "health",
   "purchases",
   "tags",
 ]);
@@ -105,10 +109,9 @@ interface CardData {
   id: string;
   profileName: string;
   cardType: string;
-  cardNumber: string;
+  cardLast4: string | null;
   expMonth: string;
   expYear: string;
-  cvv: string;
   billingName: string;
   billingPhone: string | null;
   billingAddress: string;
@@ -130,6 +133,7 @@ interface CardData {
   checkoutStatus: string;
   useCount: number;
   lastUsedAt: string | null;
+  health: CardHealthSummary | null;
 }
 
 interface Stats {
@@ -184,7 +188,6 @@ export default function CardsPage() {
   const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [sortBy, setSortBy] = useState<SortField>("profileName");
   const [sortOrder, setSortOrder] = useState<SortOrder>("asc");
-  const [showNumbers, setShowNumbers] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(50);
@@ -194,6 +197,7 @@ export default function CardsPage() {
   // Edit dialog state
   const [editingCardId, setEditingCardId] = useState<string | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [healthCard, setHealthCard] = useState<CardData | null>(null);
   
   // Column visibility state
   const [visibleColumns, setVisibleColumns] = useState<Set<ColumnKey>>(DEFAULT_VISIBLE_COLUMNS);
@@ -351,7 +355,7 @@ export default function CardsPage() {
     }
   };
 
-  const handleExportSelected = () => {
+  const handleExportSelected = async () => {
     if (selectedIds.size === 0) {
       toast({
         title: "No cards selected",
@@ -361,57 +365,33 @@ export default function CardsPage() {
       return;
     }
 
-    const selectedCards = cards.filter((c) => selectedIds.has(c.id));
-    
-    // Build CSV
-    const headers = [
-      "Email Address",
-      "Profile Name",
-      "Card Type",
-      "Card Number",
-      "Expiration Month",
-      "Expiration Year",
-      "CVV",
-      "Billing Name",
-      "Billing Phone",
-      "Billing Address",
-      "Billing Post Code",
-      "Billing City",
-      "Billing State",
-    ];
-
-    const rows = selectedCards.map((card) => [
-      card.account?.email || "",
-      card.profileName,
-      card.cardType,
-      card.cardNumber,
-      card.expMonth,
-      card.expYear,
-      "", // CVV not exposed in list
-      card.billingName,
-      card.billingPhone || "",
-      card.billingAddress,
-      card.billingZip,
-      card.billingCity,
-      card.billingState,
-    ]);
+    try {
+      // Card numbers/CVVs are encrypted - the server decrypts and audits the export
+      const params = new URLSearchParams({ cardIds: Array.from(selectedIds).join(",") });
+      const response = await fetch(`/api/export/profiles?${params}`);
+      if (!response.ok) throw new Error("Export failed");
 
-    const csv = [headers.join(","), ...rows.map((r) => r.map((v) => `"${v}"`).join(","))].join("\n");
-    
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `profiles_selected_${new Date().toISOString().split("T")[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    window.URL.revokeObjectURL(url);
-    document.body.removeChild(a);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `profiles_selected_${new Date().toISOString().split("T")[0]}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
 
-    toast({
-      title: "Export Successful",
-      description: `Exported ${selectedIds.size} profiles`,
-    });
+      toast({
+        title: "Export Successful",
+        description: `Exported ${selectedIds.size} profiles`,
+      });
+    } catch {
+      toast({
+        title: "Export Failed",
+        description: "Failed to export profiles",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleSearch = (e: React.FormEvent) => {
@@ -450,9 +430,6 @@ export default function CardsPage() {
               ))}
             </DropdownMenuContent>
           </DropdownMenu>
-          <Button variant="outline" onClick={() => setShowNumbers(!showNumbers)}>
-            {showNumbers ? "Hide Numbers" : "Show Numbers"}
-          </Button>
           <Button 
             variant={showDeleted ? "default" : "outline"} 
             onClick={() => setShowDeleted(!showDeleted)}
@@ -754,6 +731,7 @@ export default function CardsPage() {
                   {isColumnVisible("checkoutStatus") && (
                     <SortHeader field="checkoutStatus" sortBy={sortBy} sortOrder={sortOrder} onClick={handleSort}>Checkout</SortHeader>
                   )}
+                  {isColumnVisible("health") && <TableHead>Health</TableHead>}
                   {isColumnVisible("purchases") && (
                     <SortHeader field="purchaseCount" sortBy={sortBy} sortOrder={sortOrder} onClick={handleSort}>Purchases</SortHeader>
                   )}
@@ -794,16 +772,14 @@ export default function CardsPage() {
                       </TableCell>
                     )}
                     {isColumnVisible("cardNumber") && (
-                      <TableCell className="font-mono text-sm" onClick={(e) => e.stopPropagation()}>
-                        <span
-                          className="cursor-pointer hover:text-primary hover:underline"
-                          onClick={() => copyToClipboard(card.cardNumber, "Card number")}
-                          title="Click to copy"
-                        >
-                          {showNumbers
-                            ? card.cardNumber
-                            : maskCardNumber(card.cardNumber)}
-                        </span>
+                      <TableCell className="text-sm" onClick={(e) => e.stopPropagation()}>
+                        <SecretReveal
+                          entity="card"
+                          id={card.id}
+                          field="cardNumber"
+                          label="Card number"
+                          masked={`**** **** **** ${card.cardLast4 || "????"}`}
+                        />
                       </TableCell>
                     )}
                     {isColumnVisible("expiry") && (
@@ -818,14 +794,8 @@ export default function CardsPage() {
                       </TableCell>
                     )}
                     {isColumnVisible("cvv") && (
-                      <TableCell className="font-mono" onClick={(e) => e.stopPropagation()}>
-                        <span
-                          className="cursor-pointer hover:text-primary hover:underline"
-                          onClick={() => copyToClipboard(card.cvv, "CVV")}
-                          title="Click to copy"
-                        >
-                          {showNumbers ? card.cvv : "***"}
-                        </span>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <SecretReveal entity="card" id={card.id} field="cvv" label="CVV" masked="***" />
                       </TableCell>
                     )}
                     {isColumnVisible("street") && (
@@ -949,6 +919,29 @@ export default function CardsPage() {
                         )}
                       </TableCell>
                     )}
+                    {isColumnVisible("health") && (
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <div
+                          className="flex flex-col gap-1 cursor-pointer"
+                          onClick={() => setHealthCard(card)}
+                          title={card.health?.lastDeclineReason ? `Last decline: ${card.health.lastDeclineReason}` : "View history"}
+                        >
+                          {card.health && (
+                            <Badge variant={HEALTH_BADGES[card.health.health].variant} className="w-fit">
+                              {HEALTH_BADGES[card.health.health].label}
+                            </Badge>
+                          )}
+                          {card.health && card.health.declineRate !== null ? (
+                            <span className="text-xs text-muted-foreground">
+                              {(card.health.declineRate * 100).toFixed(0)}% declined
+                              {card.health.declines24h > 0 && ` · ${card.health.declines24h} in 24h`}
+                            </span>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">No history</span>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
                     {isColumnVisible("purchases") && (
                       <TableCell>
                         {card.purchaseCount > 0 ? (
@@ -1020,6 +1013,15 @@ export default function CardsPage() {
           fetchCards();
         }}
       />
+
+      {/* Health History */}
+      <CardHealthDialog
+        cardId={healthCard?.id || null}
+        cardLabel={healthCard ? `${healthCard.profileName}${healthCard.cardLast4 ? ` (•••• ${healthCard.cardLast4})` : ""}` : undefined}
+        open={healthCard !== null}
+        onOpenChange={(open) => !open && setHealthCard(null)}
+        onChanged={fetchCards}
+      />
     </div>
   );
 }
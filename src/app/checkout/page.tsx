@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useEffect, useState, useCallback, useRef, useMemo } from "react";
+import Link from "next/link";
 import {
   Play,
   Square,
@@ -17,7 +18,7 @@ import {
   WifiOff,
   Settings,
   Plus,
-  Send,
+  Bell,
   Eye,
   EyeOff,
   History,
@@ -66,6 +67,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { PairingPreview } from "@/components/pairing-preview";
 import { formatDate } from "@/lib/utils";
 import { getSupabase, isSupabaseConfigured } from "@/lib/supabase";
 import type { RealtimeChannel } from "@supabase/supabase-js";
@@ -106,7 +108,7 @@ interface CheckoutJob {
   purchaseId: string | null;
   runId: string | null;
   account?: { id: string; email: string; status: string } | null;
-  card?: { id: string; cardNumber: string; cardType: string; billingName: string } | null;
+  card?: { id: string; cardLast4: string | null; cardType: string; billingName: string } | null;
 }
 
 interface CheckoutRun {
@@ -119,9 +121,21 @@ interface CheckoutRun {
   jobsSuccess: number;
   jobsFailed: number;
   jobsReview: number;
+  jobsReaped: number;
+  reaps?: LeaseReap[];
   _count?: { jobs: number };
 }
 
+interface LeaseReap {
+  id: string;
+  itemId: string;
+  workerName: string | null;
+  attempt: number;
+  action: "REQUEUED" | "FAILED";
+  leaseExpiredAt: string;
+  createdAt: string;
+}
+
 interface WorkerRun {
   id: string;
   workerId: string;
@@ -217,9 +231,6 @@ interface CheckoutConfig {
   auto_link_cards?: boolean;
   allowed_card_tags?: string[]; // Array of tag names to allow (empty = all cards allowed)
   worker_parallelism?: number;
-  discord_webhook_success?: string;
-  discord_webhook_error?: string;
-  discord_webhook_misc?: string;
   headless_mode?: boolean;
   browser_proxy?: string;
   dashboard_api_url?: string;
@@ -744,38 +755,6 @@ export default function CheckoutPage() {
     };
   }, [saveConfig]);
   
-  // Test webhook
-  const handleTestWebhook = async (webhookKey: string) => {
-    const url = config[webhookKey as keyof CheckoutConfig] as string;
-    if (!url) {
-      toast({
-        title: "No URL",
-        description: "Enter a webhook URL first",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    try {
-      const type = webhookKey.includes("success") ? "success" : webhookKey.includes("error") ? "error" : "misc";
-      const res = await fetch("/api/checkout/config/test-webhook", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ webhookUrl: url, type }),
-      });
-      
-      if (!res.ok) throw new Error("Test failed");
-      
-      toast({ title: "Test message sent!" });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to send test message",
-        variant: "destructive",
-      });
-    }
-  };
-  
   // Control actions
   const handleControl = async (action: string, extra?: Record<string, unknown>) => {
     setIsControlLoading(action);
@@ -1649,6 +1628,11 @@ export default function CheckoutPage() {
                                     </div>
                                   </div>
                                 )}
+                                {job.status === "QUEUED" && !job.cardId && (
+                                  <div className="col-span-4">
+                                    <PairingPreview jobId={job.id} onClaimed={fetchJobs} />
+                                  </div>
+                                )}
                               </div>
                             </TableCell>
                           </TableRow>
@@ -1885,6 +1869,7 @@ export default function CheckoutPage() {
                       <TableHead>Success</TableHead>
                       <TableHead>Failed</TableHead>
                       <TableHead>Review</TableHead>
+                      <TableHead>Reaped</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -1912,11 +1897,30 @@ export default function CheckoutPage() {
                           <TableCell className="text-green-600 font-medium">{run.jobsSuccess}</TableCell>
                           <TableCell className="text-red-600 font-medium">{run.jobsFailed}</TableCell>
                           <TableCell className="text-orange-600 font-medium">{run.jobsReview}</TableCell>
+                          <TableCell className="text-muted-foreground font-medium">{run.jobsReaped || 0}</TableCell>
                         </TableRow>
                         {expandedRunId === run.id && (
                           <TableRow>
-                            <TableCell colSpan={8} className="bg-muted/30 p-0">
+                            <TableCell colSpan={9} className="bg-muted/30 p-0">
                               <div className="p-4">
+                                {run.reaps && run.reaps.length > 0 && (
+                                  <div className="mb-4">
+                                    <h4 className="text-sm font-medium mb-2">Reaped jobs (lease expired)</h4>
+                                    <div className="space-y-1 text-xs">
+                                      {run.reaps.map((reap) => (
+                                        <div key={reap.id} className="flex items-center gap-2">
+                                          <Badge variant={reap.action === "FAILED" ? "destructive" : "outline"}>
+                                            {reap.action === "FAILED" ? "Failed" : "Requeued"}
+                                          </Badge>
+                                          <span className="font-mono">{reap.itemId}</span>
+                                          <span className="text-muted-foreground">
+                                            {reap.workerName || "unknown worker"} · attempt {reap.attempt} · expired {formatDate(reap.leaseExpiredAt)}
+                                          </span>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  </div>
+                                )}
                                 <h4 className="text-sm font-medium mb-3">Jobs in this run</h4>
                                 {jobs.filter(j => j.runId === run.id).length === 0 ? (
                                   <div className="text-center py-4 text-muted-foreground text-sm">
@@ -2135,36 +2139,21 @@ export default function CheckoutPage() {
               </CardContent>
             </Card>
             
-            {/* Discord Webhooks */}
+            {/* Notifications */}
             <Card>
               <CardHeader>
-                <CardTitle>Discord Webhooks</CardTitle>
-                <CardDescription>Configure notification webhooks</CardDescription>
+                <CardTitle>Notifications</CardTitle>
+                <CardDescription>
+                  Checkout alerts are routed through the shared notification channels
+                </CardDescription>
               </CardHeader>
-              <CardContent className="space-y-4">
-                {[
-                  { key: "discord_webhook_success", label: "Success Webhook" },
-                  { key: "discord_webhook_error", label: "Error Webhook" },
-                  { key: "discord_webhook_misc", label: "Misc Webhook" },
-                ].map(({ key, label }) => (
-                  <div key={key} className="space-y-2">
-                    <Label>{label}</Label>
-                    <div className="flex gap-2">
-                      <Input
-                        type={showApiKeys[key] ? "text" : "password"}
-                        value={(config as Record<string, unknown>)[key] as string || ""}
-                        onChange={(e) => updateConfig({ [key]: e.target.value } as Partial<CheckoutConfig>)}
-                        placeholder="https://discord.com/api/webhooks/..."
-                      />
-                      <Button variant="outline" size="icon" onClick={() => setShowApiKeys({ ...showApiKeys, [key]: !showApiKeys[key] })}>
-                        {showApiKeys[key] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                      </Button>
-                      <Button variant="outline" size="icon" onClick={() => handleTestWebhook(key)}>
-                        <Send className="w-4 h-4" />
-                      </Button>
-                    </div>
-                  </div>
-                ))}
+              <CardContent>
+                <Button variant="outline" asChild>
+                  <Link href="/notifications">
+                    <Bell className="w-4 h-4 mr-2" />
+                    Manage Notifications
+                  </Link>
+                </Button>
               </CardContent>
             </Card>
             
@@ -15,6 +15,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { EditEventDialog } from "@/components/edit-event-dialog";
+import { MarketComparisonDialog } from "@/components/market-comparison-dialog";
 import { AddEventDialog } from "@/components/add-event-dialog";
 import { formatDateWithDay, getDayOfWeek } from "@/lib/utils";
 import { PaginationControls } from "@/components/pagination-controls";
@@ -47,6 +48,12 @@ interface Event {
   getInPriceUrl: string | null;
   getInPriceSource: string | null;
   getInPriceUpdatedAt: string | null;
+  markets: {
+    sourceCount: number;
+    cheapestSource: string;
+    cheapestPrice: number;
+    maxSpreadPercent: number;
+  } | null;
   stats: {
     queueTests: number;
     purchases: number;
@@ -58,6 +65,13 @@ interface Event {
 // Extended event type that includes all editable fields for the dialog
 type EditableEvent = Event;
 
+const MARKET_LABELS: Record<string, string> = {
+  vividseats: "Vivid Seats",
+  stubhub: "StubHub",
+  seatgeek: "SeatGeek",
+  tickpick: "TickPick",
+};
+
 type SortField = "eventName" | "artistName" | "venue" | "eventDate" | "updatedAt" | "getInPrice" | "queueTests" | "purchases";
 type SortOrder = "asc" | "desc";
 
@@ -76,6 +90,7 @@ export default function EventsPage() {
   const [selectedEventIds, setSelectedEventIds] = useState<Set<string>>(new Set());
   const [syncProgress, setSyncProgress] = useState({ current: 0, total: 0 });
   const [scraperStats, setScraperStats] = useState<ScraperStats | null>(null);
+  const [marketsEvent, setMarketsEvent] = useState<Event | null>(null);
   const { toast } = useToast();
 
   // Fetch scraper status
@@ -496,6 +511,7 @@ export default function EventsPage() {
                   <SortHeader field="venue">Venue</SortHeader>
                   <SortHeader field="eventDate">Date</SortHeader>
                   <SortHeader field="getInPrice">Get-In Price</SortHeader>
+                  <TableHead>Markets</TableHead>
                   <SortHeader field="queueTests">Queue Tests</SortHeader>
                   <SortHeader field="purchases">Purchases</SortHeader>
                   <TableHead className="w-[50px]">Edit</TableHead>
@@ -553,6 +569,26 @@ export default function EventsPage() {
                         <span className="text-muted-foreground">-</span>
                       )}
                     </TableCell>
+                    <TableCell>
+                      <button
+                        type="button"
+                        onClick={() => setMarketsEvent(event)}
+                        className="text-left hover:underline"
+                      >
+                        {event.markets ? (
+                          <div className="text-sm">
+                            <span className="font-medium">{MARKET_LABELS[event.markets.cheapestSource] || event.markets.cheapestSource}</span>
+                            {event.markets.sourceCount > 1 && (
+                              <span className="text-xs text-muted-foreground ml-1">
+                                {event.markets.maxSpreadPercent.toFixed(0)}% spread
+                              </span>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">Compare</span>
+                        )}
+                      </button>
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <BarChart3 className="h-4 w-4 text-muted-foreground" />
@@ -591,6 +627,14 @@ export default function EventsPage() {
           )}
         </CardContent>
       </Card>
+
+      <MarketComparisonDialog
+        eventId={marketsEvent?.id || null}
+        title={marketsEvent ? `${marketsEvent.artistName || marketsEvent.eventName} - ${marketsEvent.venue || ""}` : undefined}
+        open={marketsEvent !== null}
+        onOpenChange={(open) => !open && setMarketsEvent(null)}
+        onUpdate={fetchEvents}
+      />
     </div>
   );
 }
@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { Plus, Loader2, Pencil, Trash2, ShieldAlert, ListChecks, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StatsCard } from "@/components/stats-card";
+import { ExposureCapDialog, ExposureCap, ExposureRow } from "@/components/exposure-cap-dialog";
+import { formatCurrency } from "@/lib/utils";
+
+const SCOPE_LABELS: Record<ExposureCap["scope"], string> = {
+  EVENT: "Event",
+  ARTIST: "Artist",
+  ACCOUNT: "Account",
+  CARD: "Card",
+};
+
+export default function ExposurePage() {
+  const { toast } = useToast();
+  const [caps, setCaps] = useState<ExposureCap[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCap, setEditingCap] = useState<ExposureCap | null>(null);
+
+  const fetchCaps = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/exposure/caps");
+      const data = await response.json();
+      if (data.success) {
+        setCaps(data.caps);
+      }
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to fetch exposure caps",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchCaps();
+  }, [fetchCaps]);
+
+  const handleToggle = async (cap: ExposureCap, isEnabled: boolean) => {
+    setCaps((prev) => prev.map((c) => (c.id === cap.id ? { ...c, isEnabled } : c)));
+    try {
+      const response = await fetch(`/api/exposure/caps/${cap.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isEnabled }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      fetchCaps();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to update cap",
+        variant: "destructive",
+      });
+      fetchCaps();
+    }
+  };
+
+  const handleDelete = async (cap: ExposureCap) => {
+    if (!confirm(`Delete cap "${cap.description}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/exposure/caps/${cap.id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      toast({ title: "Cap Deleted", description: data.message });
+      fetchCaps();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to delete cap",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderExposure = (cap: ExposureCap, row: ExposureRow) => {
+    const percent = Math.min(row.utilization * 100, 100);
+    const over = row.utilization > 1;
+    return (
+      <div key={row.key} className="space-y-1">
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="truncate max-w-[220px]" title={row.label}>{row.label}</span>
+          <span className={`font-mono text-xs whitespace-nowrap ${over ? "text-red-500" : "text-muted-foreground"}`}>
+            {cap.maxTickets !== null && `${row.tickets}/${cap.maxTickets} tix`}
+            {cap.maxTickets !== null && cap.maxCost !== null && " · "}
+            {cap.maxCost !== null && `${formatCurrency(row.cost)}/${formatCurrency(cap.maxCost)}`}
+          </span>
+        </div>
+        <Progress
+          value={percent}
+          className={`h-2 ${over ? "[&>div]:bg-red-500" : percent >= 80 ? "[&>div]:bg-yellow-500" : ""}`}
+        />
+      </div>
+    );
+  };
+
+  const enabledCount = caps.filter((c) => c.isEnabled).length;
+  const overCount = caps.filter((c) => c.isEnabled).reduce((sum, c) => sum + c.overCount, 0);
+  const nearCount = caps
+    .filter((c) => c.isEnabled)
+    .reduce((sum, c) => sum + c.exposures.filter((e) => e.utilization >= 0.8 && e.utilization <= 1).length, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Exposure</h1>
+          <p className="text-muted-foreground">
+            Purchase limits per event, artist, account and card
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={fetchCaps} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button
+            onClick={() => {
+              setEditingCap(null);
+              setDialogOpen(true);
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New Cap
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <StatsCard
+          title="Active Caps"
+          value={enabledCount.toString()}
+          icon={ListChecks}
+          description={`${caps.length} total`}
+        />
+        <StatsCard
+          title="Over Cap"
+          value={overCount.toString()}
+          icon={ShieldAlert}
+          description="Events/artists/accounts/cards past a limit"
+          valueClassName={overCount > 0 ? "text-red-500" : undefined}
+        />
+        <StatsCard
+          title="Near Cap"
+          value={nearCount.toString()}
+          icon={ShieldAlert}
+          description="At 80% or more of a limit"
+          valueClassName={nearCount > 0 ? "text-yellow-600" : undefined}
+        />
+      </div>
+
+      {/* Caps */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Caps</CardTitle>
+          <CardDescription>
+            New checkout jobs over a cap are held for review; accounts and cards at their cap aren&apos;t paired.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Enabled</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Limit</TableHead>
+                <TableHead className="w-[380px]">Current Exposure</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && caps.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : caps.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No exposure caps yet. Click &apos;New Cap&apos; to create one.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                caps.map((cap) => (
+                  <TableRow key={cap.id} className="align-top">
+                    <TableCell>
+                      <Switch
+                        checked={cap.isEnabled}
+                        onCheckedChange={(checked) => handleToggle(cap, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{SCOPE_LABELS[cap.scope]}</Badge>
+                      {cap.overCount > 0 && cap.isEnabled && (
+                        <Badge variant="destructive" className="ml-1">{cap.overCount} over</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{cap.description}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {!cap.isEnabled ? (
+                        <span className="text-sm text-muted-foreground">Disabled</span>
+                      ) : cap.exposures.length === 0 ? (
+                        <span className="text-sm text-muted-foreground">No exposure yet</span>
+                      ) : (
+                        <div className="space-y-2">{cap.exposures.map((row) => renderExposure(cap, row))}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-[200px] truncate">
+                      {cap.notes || "-"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1 justify-end">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          onClick={() => {
+                            setEditingCap(cap);
+                            setDialogOpen(true);
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          onClick={() => handleDelete(cap)}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <ExposureCapDialog
+        cap={editingCap}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={fetchCaps}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useEffect, useState, useCallback, useRef } from "react";
+import Link from "next/link";
 import {
   Play,
   Square,
@@ -17,7 +18,7 @@ import {
   WifiOff,
   Settings,
   Plus,
-  Send,
+  Bell,
   Eye,
   EyeOff,
   Tag,
@@ -73,6 +74,7 @@ import {
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { formatDate } from "@/lib/utils";
+import { SecretReveal } from "@/components/secret-reveal";
 import { getSupabase, isSupabaseConfigured } from "@/lib/supabase";
 import type { RealtimeChannel } from "@supabase/supabase-js";
 
@@ -84,7 +86,7 @@ interface GeneratorTask {
   proxy: string | null;
   status: string;
   errorMessage: string | null;
-  password: string | null;
+  hasPassword: boolean;
   phoneNumber: string | null;
   imported: boolean;
   importedAt: string | null;
@@ -251,9 +253,6 @@ interface GeneratorConfig {
   daisy_sms_min_balance?: number;
   aycd_inbox_api_key?: string;
   aycd_inbox_enabled?: boolean;
-  discord_webhook_success?: string;
-  discord_webhook_error?: string;
-  discord_webhook_misc?: string;
   worker_parallelism?: number;
   task_timeout_ms?: number;
   paused?: boolean;
@@ -278,7 +277,7 @@ interface CompletedTask {
   errorMessage?: string | null;
   lastError?: string | null;
   retryCount?: number;
-  password?: string | null;
+  hasPassword?: boolean;
   phoneNumber?: string | null;
   firstName?: string | null;
   lastName?: string | null;
@@ -416,7 +415,6 @@ export default function GeneratorPage() {
   const [configLoading, setConfigLoading] = useState(false);
   const [configSaving, setConfigSaving] = useState(false);
   const [showApiKeys, setShowApiKeys] = useState<Record<string, boolean>>({});
-  const [testingWebhook, setTestingWebhook] = useState<string | null>(null);
 
   // Control state
   const [isPaused, setIsPaused] = useState(false);
@@ -990,26 +988,6 @@ export default function GeneratorPage() {
     }
   };
 
-  const handleTestWebhook = async (type: "success" | "error" | "misc") => {
-    const webhookUrl = config[`discord_webhook_${type}` as keyof GeneratorConfig] as string;
-    if (!webhookUrl) { toast({ title: "Error", description: "Enter a webhook URL first", variant: "destructive" }); return; }
-    setTestingWebhook(type);
-    try {
-      const response = await fetch("/api/generator/config/test-webhook", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ webhookUrl, type }),
-      });
-      const data = await response.json();
-      if (!response.ok || !data.success) throw new Error(data.error);
-      toast({ title: "Success", description: "Test message sent!" });
-    } catch (error) {
-      toast({ title: "Webhook Test Failed", description: error instanceof Error ? error.message : "Failed", variant: "destructive" });
-    } finally {
-      setTestingWebhook(null);
-    }
-  };
-
   // IMAP Provider handlers
   const handleAddImapProvider = async () => {
     if (!newProviderName.trim() || !newProviderDisplayName.trim()) return;
@@ -1849,8 +1827,18 @@ export default function GeneratorPage() {
                                   <span className="text-muted-foreground text-sm">-</span>
                                 )}
                               </TableCell>
-                              <TableCell className="font-mono text-sm text-muted-foreground">
-                                {task.password ? "••••••••" : "-"}
+                              <TableCell className="text-sm text-muted-foreground">
+                                {task.hasPassword ? (
+                                  <SecretReveal
+                                    entity="generatorTask"
+                                    id={task.id}
+                                    field="password"
+                                    label="Password"
+                                    masked="••••••••"
+                                  />
+                                ) : (
+                                  "-"
+                                )}
                               </TableCell>
                               <TableCell className="text-sm text-muted-foreground">
                                 {task.completedAt ? formatRelativeTime(task.completedAt) : "-"}
@@ -2204,7 +2192,18 @@ export default function GeneratorPage() {
                                             </TableCell>
                                             <TableCell className="font-mono text-sm">{task.email}</TableCell>
                                             <TableCell>
-                                              <code className="text-xs bg-muted px-1 py-0.5 rounded">{task.password || "-"}</code>
+                                              {task.hasPassword ? (
+                                                <SecretReveal
+                                                  entity="generatorTask"
+                                                  id={task.id}
+                                                  field="password"
+                                                  label="Password"
+                                                  masked="••••••••"
+                                                  className="text-xs"
+                                                />
+                                              ) : (
+                                                <span className="text-xs text-muted-foreground">-</span>
+                                              )}
                                             </TableCell>
                                             <TableCell className="text-sm text-muted-foreground">
                                               {formatDuration(task.durationMs)}
@@ -2555,75 +2554,20 @@ export default function GeneratorPage() {
               </CardContent>
             </Card>
 
-            {/* Discord Webhooks */}
+            {/* Notifications */}
             <Card className="md:col-span-2">
               <CardHeader>
-                <CardTitle>Discord Webhooks</CardTitle>
-                <CardDescription>Configure Discord notifications</CardDescription>
+                <CardTitle>Notifications</CardTitle>
+                <CardDescription>
+                  Account, failure, requeue and job-finished alerts are routed through the shared notification channels
+                </CardDescription>
               </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="grid gap-4 md:grid-cols-3">
-                  {/* Success Webhook */}
-                  <div className="space-y-2">
-                    <Label>Success Webhook</Label>
-                    <Input
-                      placeholder="https://discord.com/api/webhooks/..."
-                      value={config.discord_webhook_success || ""}
-                      onChange={(e) => setConfig({ ...config, discord_webhook_success: e.target.value })}
-                    />
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => handleTestWebhook("success")}
-                      disabled={testingWebhook === "success"}
-                    >
-                      {testingWebhook === "success" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
-                      Test
-                    </Button>
-                  </div>
-
-                  {/* Error Webhook */}
-                  <div className="space-y-2">
-                    <Label>Error Webhook</Label>
-                    <Input
-                      placeholder="https://discord.com/api/webhooks/..."
-                      value={config.discord_webhook_error || ""}
-                      onChange={(e) => setConfig({ ...config, discord_webhook_error: e.target.value })}
-                    />
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => handleTestWebhook("error")}
-                      disabled={testingWebhook === "error"}
-                    >
-                      {testingWebhook === "error" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
-                      Test
-                    </Button>
-                  </div>
-
-                  {/* Misc Webhook */}
-                  <div className="space-y-2">
-                    <Label>Misc Webhook</Label>
-                    <Input
-                      placeholder="https://discord.com/api/webhooks/..."
-                      value={config.discord_webhook_misc || ""}
-                      onChange={(e) => setConfig({ ...config, discord_webhook_misc: e.target.value })}
-                    />
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => handleTestWebhook("misc")}
-                      disabled={testingWebhook === "misc"}
-                    >
-                      {testingWebhook === "misc" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
-                      Test
-                    </Button>
-                  </div>
-                </div>
-
-                <Button onClick={handleSaveConfig} disabled={configSaving}>
-                  {configSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
-                  Save Webhooks
+              <CardContent>
+                <Button variant="outline" asChild>
+                  <Link href="/notifications">
+                    <Bell className="mr-2 h-4 w-4" />
+                    Manage Notifications
+                  </Link>
                 </Button>
               </CardContent>
             </Card>
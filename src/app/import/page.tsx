@@ -6,6 +6,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { FileUpload } from "@/components/file-upload";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { EmailCsvImportDialog } from "@/components/email-csv-import-dialog";
 import { ProgressBar, ProgressStatus } from "@/components/ui/progress-bar";
@@ -46,12 +48,14 @@ export default function ImportPage() {
   const [progress, setProgress] = useState<Record<string, ProgressState>>({});
   const [results, setResults] = useState<Record<string, ImportResult>>({});
   const [emailCsvDialogOpen, setEmailCsvDialogOpen] = useState(false);
+  const [queueBatchTag, setQueueBatchTag] = useState("");
   const { toast } = useToast();
 
   const handleImport = useCallback(async (
     file: File,
     endpoint: string,
-    type: string
+    type: string,
+    extraFields?: Record<string, string>
   ) => {
     // Initialize progress
     setProgress(prev => ({
@@ -63,6 +67,9 @@ export default function ImportPage() {
       const formData = new FormData();
       formData.append("file", file);
       formData.append("streaming", "true");
+      for (const [key, value] of Object.entries(extraFields || {})) {
+        formData.append(key, value);
+      }
 
       const response = await fetch(endpoint, {
         method: "POST",
@@ -409,8 +416,23 @@ export default function ImportPage() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="queue-batch">Batch</Label>
+                <Input
+                  id="queue-batch"
+                  placeholder="Default"
+                  value={queueBatchTag}
+                  onChange={(e) => setQueueBatchTag(e.target.value)}
+                  className="max-w-xs"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Name this queue run (e.g. &quot;Pre-Sale&quot;, &quot;Public Sale&quot;). Each batch is ranked
+                  separately; re-importing the same batch updates its positions.
+                </p>
+              </div>
+
               <FileUpload
-                onFileSelect={(file) => handleImport(file, "/api/import/queues", "queues")}
+                onFileSelect={(file) => handleImport(file, "/api/import/queues", "queues", { batch: queueBatchTag })}
                 description="Tab-separated file from Encore queue output"
                 accept={{ "text/plain": [".txt"], "text/csv": [".csv"] }}
                 disabled={getProgress("queues").status === "running"}
@@ -12,6 +12,7 @@ import {
   Ticket,
   Package,
   AlertCircle,
+  History,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -36,6 +37,8 @@ import {
 import { StatsCard } from "@/components/stats-card";
 import { formatCurrency, formatDateTime } from "@/lib/utils";
 import { PaginationControls } from "@/components/pagination-controls";
+import { PriceSparkline } from "@/components/price-sparkline";
+import { PriceHistoryDialog } from "@/components/price-history-dialog";
 
 interface Listing {
   id: string;
@@ -68,6 +71,8 @@ interface Listing {
   // Account sync metadata
   accountLastCheckedAt: string | null;
   accountSyncStatus: string | null;
+  // Price points oldest → newest
+  pricePoints: number[];
 }
 
 interface ListingsStats {
@@ -90,6 +95,7 @@ export default function ListingsPage() {
   const [editingPriceId, setEditingPriceId] = useState<string | null>(null);
   const [editingPrice, setEditingPrice] = useState<string>("");
   const [savingPrice, setSavingPrice] = useState(false);
+  const [historyListing, setHistoryListing] = useState<Listing | null>(null);
 
   // Filters
   const [search, setSearch] = useState("");
@@ -594,13 +600,26 @@ export default function ListingsPage() {
                             )}
                           </div>
                         ) : (
-                          <button
-                            className="hover:underline cursor-pointer"
-                            onClick={() => startEditPrice(listing)}
-                            title="Click to edit"
-                          >
-                            {formatCurrency(listing.price)}
-                          </button>
+                          <div className="flex items-center gap-2">
+                            <button
+                              className="hover:underline cursor-pointer"
+                              onClick={() => startEditPrice(listing)}
+                              title="Click to edit"
+                            >
+                              {formatCurrency(listing.price)}
+                            </button>
+                            <button
+                              className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                              onClick={() => setHistoryListing(listing)}
+                              title="View price history"
+                            >
+                              {listing.pricePoints.length > 1 ? (
+                                <PriceSparkline points={listing.pricePoints} />
+                              ) : (
+                                <History className="h-3.5 w-3.5" />
+                              )}
+                            </button>
+                          </div>
                         )}
                       </TableCell>
 
@@ -712,6 +731,17 @@ export default function ListingsPage() {
           itemsPerPage={limit}
         />
       )}
+
+      <PriceHistoryDialog
+        listingId={historyListing?.id || null}
+        title={
+          historyListing
+            ? `${historyListing.eventName} · Sec ${historyListing.section} Row ${historyListing.row} · Seats ${formatSeats(historyListing)}`
+            : undefined
+        }
+        open={!!historyListing}
+        onOpenChange={(open) => !open && setHistoryListing(null)}
+      />
     </div>
   );
 }
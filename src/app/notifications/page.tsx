@@ -0,0 +1,771 @@
+"use client";
+
+import { Fragment, useEffect, useState, useCallback } from "react";
+import {
+  Loader2,
+  Plus,
+  Bell,
+  Send,
+  Pencil,
+  Trash2,
+  RefreshCw,
+  Route,
+  History,
+  FileText,
+  ChevronRight,
+  ChevronDown,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateTime } from "@/lib/utils";
+
+type ChannelType = "discord" | "slack" | "webhook" | "email";
+
+interface NotificationChannel {
+  id: string;
+  name: string;
+  type: ChannelType;
+  config: Record<string, unknown>;
+  isEnabled: boolean;
+  ruleCount: number;
+}
+
+interface NotificationRule {
+  id: string;
+  eventType: string;
+  channelId: string;
+  isEnabled: boolean;
+  template: string | null;
+}
+
+interface NotificationAttempt {
+  id: string;
+  attempt: number;
+  success: boolean;
+  statusCode: number | null;
+  errorMessage: string | null;
+  durationMs: number;
+  createdAt: string;
+}
+
+interface NotificationDelivery {
+  id: string;
+  eventType: string;
+  title: string;
+  status: string;
+  attemptCount: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  sentAt: string | null;
+  createdAt: string;
+  channel: { name: string; type: string };
+  attempts: NotificationAttempt[];
+}
+
+const CHANNEL_TYPE_LABELS: Record<ChannelType, string> = {
+  discord: "Discord",
+  slack: "Slack",
+  webhook: "JSON Webhook",
+  email: "Email (SMTP)",
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  SENT: "secondary",
+  PENDING: "outline",
+  RETRYING: "outline",
+  FAILED: "destructive",
+};
+
+// Form fields per channel type (secrets are blank = keep existing on edit)
+const CHANNEL_FIELDS: Record<ChannelType, Array<{ key: string; label: string; placeholder?: string; secret?: boolean }>> = {
+  discord: [{ key: "webhookUrl", label: "Webhook URL", placeholder: "https://discord.com/api/webhooks/...", secret: true }],
+  slack: [{ key: "webhookUrl", label: "Webhook URL", placeholder: "https://hooks.slack.com/services/...", secret: true }],
+  webhook: [
+    { key: "url", label: "URL", placeholder: "https://example.com/hooks/tm" },
+    { key: "secret", label: "Signing secret (optional)", secret: true },
+  ],
+  email: [
+    { key: "host", label: "SMTP host", placeholder: "smtp.example.com" },
+    { key: "port", label: "Port", placeholder: "587" },
+    { key: "username", label: "Username" },
+    { key: "password", label: "Password", secret: true },
+    { key: "from", label: "From", placeholder: "TM Alerts <alerts@example.com>" },
+    { key: "to", label: "To (comma separated)", placeholder: "ops@example.com" },
+  ],
+};
+
+function describeChannel(channel: NotificationChannel): string {
+  const config = channel.config;
+  switch (channel.type) {
+    case "discord":
+    case "slack":
+      return String(config.webhookUrl || "");
+    case "webhook":
+      return `${config.url || ""}${config.secret ? " (signed)" : ""}`;
+    case "email":
+      return `${Array.isArray(config.to) ? config.to.join(", ") : ""} via ${config.host}:${config.port}`;
+  }
+}
+
+export default function NotificationsPage() {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [rules, setRules] = useState<NotificationRule[]>([]);
+  const [eventTypes, setEventTypes] = useState<Array<{ id: string; label: string }>>([]);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [deliveryTotal, setDeliveryTotal] = useState(0);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Channel dialog
+  const [channelDialogOpen, setChannelDialogOpen] = useState(false);
+  const [editingChannel, setEditingChannel] = useState<NotificationChannel | null>(null);
+  const [channelName, setChannelName] = useState("");
+  const [channelType, setChannelType] = useState<ChannelType>("discord");
+  const [channelConfig, setChannelConfig] = useState<Record<string, string>>({});
+  const [channelSecure, setChannelSecure] = useState(false);
+
+  // Template dialog
+  const [templateRule, setTemplateRule] = useState<NotificationRule | null>(null);
+  const [templateText, setTemplateText] = useState("");
+
+  const [saving, setSaving] = useState(false);
+  const [testingChannel, setTestingChannel] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ limit: "100" });
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      const response = await fetch(`/api/notifications/deliveries?${params}`);
+      const data = await response.json();
+      setDeliveries(data.deliveries || []);
+      setDeliveryTotal(data.total || 0);
+    } catch (error) {
+      console.error("Failed to fetch deliveries:", error);
+    }
+  }, [statusFilter]);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [channelsRes, rulesRes] = await Promise.all([
+        fetch("/api/notifications/channels"),
+        fetch("/api/notifications/rules"),
+      ]);
+      const channelsData = await channelsRes.json();
+      const rulesData = await rulesRes.json();
+      setChannels(channelsData.channels || []);
+      setEventTypes(channelsData.eventTypes || []);
+      setRules(rulesData.rules || []);
+    } catch (error) {
+      console.error("Failed to fetch notification settings:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const request = async (url: string, init: RequestInit, errorMessage: string) => {
+    try {
+      const response = await fetch(url, {
+        headers: { "Content-Type": "application/json" },
+        ...init,
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : errorMessage,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Channels
+  // ---------------------------------------------------------------------------
+
+  const openChannelDialog = (channel: NotificationChannel | null) => {
+    setEditingChannel(channel);
+    setChannelName(channel?.name || "");
+    setChannelType(channel?.type || "discord");
+    setChannelSecure(!!channel?.config.secure);
+
+    const config: Record<string, string> = {};
+    if (channel) {
+      for (const field of CHANNEL_FIELDS[channel.type]) {
+        const value = channel.config[field.key];
+        // Secrets come back redacted - leave blank to keep the stored value
+        if (field.secret || value === undefined) continue;
+        config[field.key] = Array.isArray(value) ? value.join(", ") : String(value);
+      }
+    }
+    setChannelConfig(config);
+    setChannelDialogOpen(true);
+  };
+
+  const handleSaveChannel = async () => {
+    setSaving(true);
+    const config: Record<string, unknown> = { ...channelConfig };
+    if (channelType === "email") {
+      config.secure = channelSecure;
+    }
+
+    const ok = editingChannel
+      ? await request(
+          `/api/notifications/channels/${editingChannel.id}`,
+          { method: "PATCH", body: JSON.stringify({ name: channelName, config }) },
+          "Failed to update channel"
+        )
+      : await request(
+          "/api/notifications/channels",
+          { method: "POST", body: JSON.stringify({ name: channelName, type: channelType, config }) },
+          "Failed to create channel"
+        );
+    setSaving(false);
+
+    if (ok) {
+      toast({ title: editingChannel ? "Channel Updated" : "Channel Created", description: channelName });
+      setChannelDialogOpen(false);
+      fetchData();
+    }
+  };
+
+  const handleToggleChannel = async (channel: NotificationChannel, isEnabled: boolean) => {
+    const ok = await request(
+      `/api/notifications/channels/${channel.id}`,
+      { method: "PATCH", body: JSON.stringify({ isEnabled }) },
+      "Failed to update channel"
+    );
+    if (ok) fetchData();
+  };
+
+  const handleDeleteChannel = async (channel: NotificationChannel) => {
+    if (!confirm(`Delete channel "${channel.name}"? Its routing rules and delivery history are removed too.`)) {
+      return;
+    }
+    const ok = await request(
+      `/api/notifications/channels/${channel.id}`,
+      { method: "DELETE" },
+      "Failed to delete channel"
+    );
+    if (ok) {
+      toast({ title: "Channel Deleted", description: channel.name });
+      fetchData();
+      fetchDeliveries();
+    }
+  };
+
+  const handleTestChannel = async (channel: NotificationChannel) => {
+    setTestingChannel(channel.id);
+    const ok = await request(
+      `/api/notifications/channels/${channel.id}/test`,
+      { method: "POST" },
+      "Test notification failed"
+    );
+    setTestingChannel(null);
+    if (ok) toast({ title: "Test Sent", description: `Check ${channel.name}` });
+  };
+
+  // ---------------------------------------------------------------------------
+  // Rules
+  // ---------------------------------------------------------------------------
+
+  const findRule = (eventType: string, channelId: string) =>
+    rules.find((r) => r.eventType === eventType && r.channelId === channelId);
+
+  const handleToggleRule = async (eventType: string, channelId: string, checked: boolean) => {
+    const ok = checked
+      ? await request(
+          "/api/notifications/rules",
+          { method: "PUT", body: JSON.stringify({ eventType, channelId, isEnabled: true }) },
+          "Failed to add rule"
+        )
+      : await request(
+          `/api/notifications/rules?${new URLSearchParams({ eventType, channelId })}`,
+          { method: "DELETE" },
+          "Failed to remove rule"
+        );
+    if (ok) fetchData();
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateRule) return;
+    setSaving(true);
+    const ok = await request(
+      "/api/notifications/rules",
+      {
+        method: "PUT",
+        body: JSON.stringify({
+          eventType: templateRule.eventType,
+          channelId: templateRule.channelId,
+          template: templateText,
+        }),
+      },
+      "Failed to save template"
+    );
+    setSaving(false);
+    if (ok) {
+      setTemplateRule(null);
+      fetchData();
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Deliveries
+  // ---------------------------------------------------------------------------
+
+  const handleRetry = async (delivery: NotificationDelivery) => {
+    setRetrying(delivery.id);
+    const ok = await request(
+      `/api/notifications/deliveries/${delivery.id}/retry`,
+      { method: "POST" },
+      "Retry failed"
+    );
+    setRetrying(null);
+    if (ok) toast({ title: "Delivered", description: delivery.title });
+    fetchDeliveries();
+  };
+
+  const eventLabel = (id: string) => eventTypes.find((e) => e.id === id)?.label || id;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Notifications</h1>
+        <p className="text-muted-foreground">
+          Where checkout, generator, sync and sales alerts are sent. Failed sends are retried automatically.
+        </p>
+      </div>
+
+      {/* Channels */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Channels
+            </CardTitle>
+            <CardDescription>Discord and Slack webhooks, signed JSON webhooks and SMTP email</CardDescription>
+          </div>
+          <Button onClick={() => openChannelDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Channel
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {channels.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">No channels yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Destination</TableHead>
+                  <TableHead>Rules</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {channels.map((channel) => (
+                  <TableRow key={channel.id} className={channel.isEnabled ? "" : "opacity-50"}>
+                    <TableCell className="font-medium">{channel.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{CHANNEL_TYPE_LABELS[channel.type] || channel.type}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs max-w-[320px] truncate">
+                      {describeChannel(channel)}
+                    </TableCell>
+                    <TableCell>{channel.ruleCount}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={channel.isEnabled}
+                        onCheckedChange={(isEnabled) => handleToggleChannel(channel, isEnabled)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleTestChannel(channel)}
+                          disabled={testingChannel === channel.id}
+                        >
+                          {testingChannel === channel.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Send className="mr-2 h-4 w-4" />
+                          )}
+                          Test
+                        </Button>
+                        <Button variant="outline" size="icon" onClick={() => openChannelDialog(channel)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="icon" onClick={() => handleDeleteChannel(channel)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Routing */}
+      {channels.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Route className="h-5 w-5" />
+              Routing
+            </CardTitle>
+            <CardDescription>
+              Which channels each event is sent to. Use a template to replace the message body with{" "}
+              <code className="text-xs">{"{{field}}"}</code> placeholders from the event data.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  {channels.map((channel) => (
+                    <TableHead key={channel.id} className="text-center">{channel.name}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {eventTypes.map((eventType) => (
+                  <TableRow key={eventType.id}>
+                    <TableCell>
+                      <p className="font-medium">{eventType.label}</p>
+                      <p className="text-xs text-muted-foreground font-mono">{eventType.id}</p>
+                    </TableCell>
+                    {channels.map((channel) => {
+                      const rule = findRule(eventType.id, channel.id);
+                      return (
+                        <TableCell key={channel.id} className="text-center">
+                          <div className="flex items-center justify-center gap-1">
+                            <Checkbox
+                              checked={!!rule}
+                              onCheckedChange={(checked) => handleToggleRule(eventType.id, channel.id, !!checked)}
+                            />
+                            {rule && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6"
+                                title={rule.template ? "Edit template" : "Add template"}
+                                onClick={() => {
+                                  setTemplateRule(rule);
+                                  setTemplateText(rule.template || "");
+                                }}
+                              >
+                                <FileText className={`h-3 w-3 ${rule.template ? "text-primary" : "text-muted-foreground"}`} />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Delivery Log */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Delivery Log
+            </CardTitle>
+            <CardDescription>
+              {deliveryTotal} deliveries in the last 30 days. Failed sends retry after 1m, 5m, 30m and 2h.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="SENT">Sent</SelectItem>
+                <SelectItem value="RETRYING">Retrying</SelectItem>
+                <SelectItem value="FAILED">Failed</SelectItem>
+                <SelectItem value="PENDING">Pending</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={fetchDeliveries}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">No deliveries</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Time</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <Fragment key={delivery.id}>
+                    <TableRow>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => setExpandedDelivery(expandedDelivery === delivery.id ? null : delivery.id)}
+                        >
+                          {expandedDelivery === delivery.id ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">{formatDateTime(delivery.createdAt)}</TableCell>
+                      <TableCell className="text-sm">{eventLabel(delivery.eventType)}</TableCell>
+                      <TableCell className="text-sm">{delivery.channel.name}</TableCell>
+                      <TableCell className="text-sm max-w-[280px] truncate">{delivery.title}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[delivery.status] || "outline"}>{delivery.status}</Badge>
+                        <span className="block text-xs text-muted-foreground mt-1">
+                          {delivery.attemptCount} attempt{delivery.attemptCount === 1 ? "" : "s"}
+                          {delivery.status === "RETRYING" && delivery.nextAttemptAt &&
+                            ` • next ${formatDateTime(delivery.nextAttemptAt)}`}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(delivery.status === "FAILED" || delivery.status === "RETRYING") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRetry(delivery)}
+                            disabled={retrying === delivery.id}
+                          >
+                            {retrying === delivery.id ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                              <RefreshCw className="mr-2 h-4 w-4" />
+                            )}
+                            Retry
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {expandedDelivery === delivery.id && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={6}>
+                          {delivery.attempts.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">No attempts yet</p>
+                          ) : (
+                            <div className="space-y-1">
+                              {delivery.attempts.map((attempt) => (
+                                <div key={attempt.id} className="flex gap-3 text-xs">
+                                  <span className="w-6">#{attempt.attempt}</span>
+                                  <span className="w-36">{formatDateTime(attempt.createdAt)}</span>
+                                  <span className={`w-12 ${attempt.success ? "text-green-600" : "text-red-600"}`}>
+                                    {attempt.statusCode ?? (attempt.success ? "OK" : "ERR")}
+                                  </span>
+                                  <span className="w-16 text-muted-foreground">{attempt.durationMs}ms</span>
+                                  <span className="font-mono text-muted-foreground break-all">
+                                    {attempt.errorMessage}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Channel Dialog */}
+      <Dialog open={channelDialogOpen} onOpenChange={setChannelDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingChannel ? "Edit Channel" : "New Channel"}</DialogTitle>
+            <DialogDescription>
+              {editingChannel
+                ? "Leave secret fields blank to keep the saved value."
+                : "Secrets are encrypted at rest."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="channel-name">Name</Label>
+              <Input
+                id="channel-name"
+                value={channelName}
+                onChange={(e) => setChannelName(e.target.value)}
+                placeholder="Discord - purchases"
+              />
+            </div>
+            {!editingChannel && (
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={channelType}
+                  onValueChange={(value) => {
+                    setChannelType(value as ChannelType);
+                    setChannelConfig({});
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CHANNEL_TYPE_LABELS) as ChannelType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {CHANNEL_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {CHANNEL_FIELDS[channelType].map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`channel-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`channel-${field.key}`}
+                  type={field.secret ? "password" : "text"}
+                  autoComplete="off"
+                  value={channelConfig[field.key] || ""}
+                  onChange={(e) => setChannelConfig((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                  placeholder={editingChannel && field.secret ? "Unchanged" : field.placeholder}
+                />
+              </div>
+            ))}
+            {channelType === "email" && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="channel-secure" className="font-normal">
+                  Implicit TLS (port 465). Off uses STARTTLS.
+                </Label>
+                <Switch id="channel-secure" checked={channelSecure} onCheckedChange={setChannelSecure} />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setChannelDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveChannel} disabled={saving || !channelName}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editingChannel ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Template Dialog */}
+      <Dialog open={!!templateRule} onOpenChange={(open) => !open && setTemplateRule(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Message Template</DialogTitle>
+            <DialogDescription>
+              {templateRule && eventLabel(templateRule.eventType)} →{" "}
+              {channels.find((c) => c.id === templateRule?.channelId)?.name}. Replaces the message body;
+              the title and fields are kept. Leave empty for the default.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            rows={6}
+            className="font-mono text-xs"
+            placeholder={"{{job.eventName}} - {{job.quantity}} tickets via {{job.accountEmail}}"}
+            value={templateText}
+            onChange={(e) => setTemplateText(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplateRule(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveTemplate} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,855 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import {
+  AlertTriangle,
+  Ban,
+  CheckCircle,
+  Clock,
+  Landmark,
+  Link2,
+  Loader2,
+  RefreshCw,
+  Save,
+  Search,
+  Undo2,
+  Wand2,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileUpload } from "@/components/file-upload";
+import { StatsCard } from "@/components/stats-card";
+import { formatCurrency, formatDate, formatDateTime } from "@/lib/utils";
+
+type DepositStatus = "UNMATCHED" | "MATCHED" | "SHORT_PAID" | "OVER_PAID" | "ACCEPTED" | "IGNORED";
+
+interface PayoutInvoice {
+  id: string;
+  invoiceNumber: number;
+  eventName: string | null;
+  clientName: string | null;
+  totalAmount: number;
+  invoiceDate: string | null;
+  remittanceDate: string | null;
+  payoutStatus?: string | null;
+  isPaid: boolean;
+}
+
+interface Deposit {
+  id: string;
+  depositDate: string;
+  amount: number;
+  description: string | null;
+  reference: string | null;
+  status: DepositStatus;
+  matchType: string | null;
+  expectedAmount: number | null;
+  variance: number | null;
+  notes: string | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  invoices: PayoutInvoice[];
+  statement: { fileName: string | null };
+}
+
+interface Candidate extends PayoutInvoice {
+  difference: number;
+}
+
+interface Statement {
+  id: string;
+  fileName: string | null;
+  rowCount: number;
+  depositCount: number;
+  importedBy: string | null;
+  createdAt: string;
+}
+
+interface Workspace {
+  settings: { windowDays: number; overdueDays: number };
+  coverage: { from: string | null; to: string | null };
+  summary: {
+    byStatus: Record<DepositStatus, { count: number; amount: number }>;
+    overdueInvoices: number;
+    overdueAmount: number;
+    missingDeposits: number;
+    missingAmount: number;
+    shortfall: number;
+    overpayment: number;
+  };
+  exceptions: Deposit[];
+  resolved: Deposit[];
+  overdueInvoices: PayoutInvoice[];
+  missingDeposits: PayoutInvoice[];
+  statements: Statement[];
+}
+
+const STATUS_BADGES: Record<DepositStatus, { label: string; className: string }> = {
+  UNMATCHED: { label: "Unmatched", className: "bg-yellow-100 text-yellow-800 border-yellow-200" },
+  MATCHED: { label: "Matched", className: "bg-green-100 text-green-800 border-green-200" },
+  SHORT_PAID: { label: "Short paid", className: "bg-red-100 text-red-800 border-red-200" },
+  OVER_PAID: { label: "Overpaid", className: "bg-orange-100 text-orange-800 border-orange-200" },
+  ACCEPTED: { label: "Accepted", className: "bg-blue-100 text-blue-800 border-blue-200" },
+  IGNORED: { label: "Ignored", className: "bg-gray-100 text-gray-700 border-gray-200" },
+};
+
+function daysSince(date: string | null): number | null {
+  if (!date) return null;
+  return Math.floor((Date.now() - new Date(date).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+export default function PayoutsPage() {
+  const { toast } = useToast();
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [matching, setMatching] = useState(false);
+  const [actionId, setActionId] = useState<string | null>(null);
+
+  const [windowDays, setWindowDays] = useState("");
+  const [overdueDays, setOverdueDays] = useState("");
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  // Manual match dialog
+  const [matchDeposit, setMatchDeposit] = useState<Deposit | null>(null);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [candidateSearch, setCandidateSearch] = useState("");
+  const [loadingCandidates, setLoadingCandidates] = useState(false);
+  const [selectedInvoices, setSelectedInvoices] = useState<Set<number>>(new Set());
+  const [matchNotes, setMatchNotes] = useState("");
+
+  const fetchWorkspace = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/payouts");
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setWorkspace(data);
+      setWindowDays(String(data.settings.windowDays));
+      setOverdueDays(String(data.settings.overdueDays));
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to fetch payout reconciliation",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchWorkspace();
+  }, [fetchWorkspace]);
+
+  const fetchCandidates = useCallback(async (depositId: string, search: string) => {
+    try {
+      setLoadingCandidates(true);
+      const params = new URLSearchParams();
+      if (search) params.set("search", search);
+      const response = await fetch(`/api/payouts/deposits/${depositId}/candidates?${params}`);
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setCandidates(data.candidates);
+    } catch (error) {
+      console.error("Failed to fetch candidates:", error);
+      setCandidates([]);
+    } finally {
+      setLoadingCandidates(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!matchDeposit) return;
+    const timer = setTimeout(() => fetchCandidates(matchDeposit.id, candidateSearch), 300);
+    return () => clearTimeout(timer);
+  }, [matchDeposit, candidateSearch, fetchCandidates]);
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await fetch("/api/payouts/import", { method: "POST", body: formData });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      toast({
+        title: "Statement imported",
+        description: `${data.deposits} new deposits (${data.duplicates} already imported), ${data.autoMatch.matched} auto-matched`,
+      });
+      fetchWorkspace();
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleAutoMatch = async () => {
+    setMatching(true);
+    try {
+      const response = await fetch("/api/payouts/match", { method: "POST" });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      toast({
+        title: "Auto-match complete",
+        description: `${data.matched} of ${data.checked} unmatched deposits matched`,
+      });
+      fetchWorkspace();
+    } catch (error) {
+      toast({
+        title: "Auto-match failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  const resolveDeposit = async (
+    deposit: Deposit,
+    action: "match" | "reset" | "ignore" | "accept",
+    extra: { invoiceNumbers?: number[]; notes?: string } = {}
+  ) => {
+    setActionId(deposit.id);
+    try {
+      const response = await fetch(`/api/payouts/deposits/${deposit.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, ...extra }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      fetchWorkspace();
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const openMatchDialog = (deposit: Deposit) => {
+    setMatchDeposit(deposit);
+    setCandidates([]);
+    setCandidateSearch("");
+    setSelectedInvoices(new Set());
+    setMatchNotes("");
+  };
+
+  const handleManualMatch = async () => {
+    if (!matchDeposit || selectedInvoices.size === 0) return;
+    const ok = await resolveDeposit(matchDeposit, "match", {
+      invoiceNumbers: [...selectedInvoices],
+      notes: matchNotes || undefined,
+    });
+    if (ok) {
+      toast({ title: "Deposit matched", description: `${selectedInvoices.size} invoice(s) reconciled` });
+      setMatchDeposit(null);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    setSavingSettings(true);
+    try {
+      for (const [key, value] of [
+        ["payout_match_window_days", windowDays],
+        ["payout_overdue_days", overdueDays],
+      ]) {
+        const response = await fetch("/api/settings", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key, value }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+      }
+      toast({ title: "Matching rules saved" });
+      fetchWorkspace();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const selectedTotal = candidates
+    .filter((c) => selectedInvoices.has(c.invoiceNumber))
+    .reduce((sum, c) => sum + c.totalAmount, 0);
+
+  const renderStatus = (deposit: Deposit) => (
+    <div className="space-y-1">
+      <Badge variant="outline" className={STATUS_BADGES[deposit.status].className}>
+        {STATUS_BADGES[deposit.status].label}
+      </Badge>
+      {deposit.matchType && (
+        <div className="text-xs text-muted-foreground">{deposit.matchType.toLowerCase()}</div>
+      )}
+    </div>
+  );
+
+  const renderDepositCells = (deposit: Deposit) => (
+    <>
+      <TableCell className="whitespace-nowrap">{formatDate(deposit.depositDate)}</TableCell>
+      <TableCell className="text-right font-medium">{formatCurrency(deposit.amount)}</TableCell>
+      <TableCell className="max-w-[260px]">
+        <div className="truncate text-sm">{deposit.description || "-"}</div>
+        {deposit.reference && (
+          <div className="truncate font-mono text-xs text-muted-foreground">{deposit.reference}</div>
+        )}
+      </TableCell>
+      <TableCell>{renderStatus(deposit)}</TableCell>
+      <TableCell className="text-sm">
+        {deposit.invoices.length === 0 ? (
+          <span className="text-muted-foreground">-</span>
+        ) : (
+          deposit.invoices.map((i) => (
+            <div key={i.id} className="whitespace-nowrap">
+              <span className="font-mono">#{i.invoiceNumber}</span>{" "}
+              <span className="text-muted-foreground">{formatCurrency(i.totalAmount)}</span>
+            </div>
+          ))
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        {deposit.variance !== null && deposit.variance !== 0 ? (
+          <span className={deposit.variance < 0 ? "text-red-600" : "text-green-600"}>
+            {formatCurrency(deposit.variance)}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">-</span>
+        )}
+      </TableCell>
+    </>
+  );
+
+  const renderInvoiceTable = (invoices: PayoutInvoice[], dateField: "invoiceDate" | "remittanceDate", empty: string) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Invoice</TableHead>
+          <TableHead>Event</TableHead>
+          <TableHead>{dateField === "invoiceDate" ? "Invoiced" : "Remitted"}</TableHead>
+          <TableHead className="text-right">Days</TableHead>
+          <TableHead>TicketVault Status</TableHead>
+          <TableHead className="text-right">Payout</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {invoices.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+              {empty}
+            </TableCell>
+          </TableRow>
+        ) : (
+          invoices.map((i) => (
+            <TableRow key={i.id}>
+              <TableCell className="font-mono">#{i.invoiceNumber}</TableCell>
+              <TableCell className="max-w-[280px]">
+                <div className="truncate">{i.eventName || "-"}</div>
+                {i.clientName && <div className="truncate text-xs text-muted-foreground">{i.clientName}</div>}
+              </TableCell>
+              <TableCell className="whitespace-nowrap">{i[dateField] ? formatDate(i[dateField]!) : "-"}</TableCell>
+              <TableCell className="text-right">{daysSince(i[dateField]) ?? "-"}</TableCell>
+              <TableCell className="text-sm">{i.payoutStatus || (i.isPaid ? "Paid" : "Unpaid")}</TableCell>
+              <TableCell className="text-right">{formatCurrency(i.totalAmount)}</TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+
+  const summary = workspace?.summary;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Payout Reconciliation</h1>
+          <p className="text-muted-foreground">
+            Match bank deposits to TicketVault payouts and resolve what doesn&apos;t line up
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleAutoMatch} disabled={matching}>
+            {matching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+            Auto-match
+          </Button>
+          <Button variant="outline" onClick={fetchWorkspace} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      {summary && (
+        <div className="grid gap-4 md:grid-cols-4">
+          <StatsCard
+            title="Unmatched Deposits"
+            value={summary.byStatus.UNMATCHED.count}
+            icon={Landmark}
+            description={`${formatCurrency(summary.byStatus.UNMATCHED.amount)} not tied to invoices`}
+          />
+          <StatsCard
+            title="Short / Over Payments"
+            value={summary.byStatus.SHORT_PAID.count + summary.byStatus.OVER_PAID.count}
+            icon={AlertTriangle}
+            description={`${formatCurrency(Math.abs(summary.shortfall))} below, ${formatCurrency(summary.overpayment)} above expected`}
+            valueClassName={summary.byStatus.SHORT_PAID.count + summary.byStatus.OVER_PAID.count > 0 ? "text-red-600" : undefined}
+          />
+          <StatsCard
+            title="Overdue Invoices"
+            value={summary.overdueInvoices}
+            icon={Clock}
+            description={`${formatCurrency(summary.overdueAmount)} unpaid after ${workspace.settings.overdueDays} days`}
+          />
+          <StatsCard
+            title="Missing Deposits"
+            value={summary.missingDeposits}
+            icon={Ban}
+            description={`${formatCurrency(summary.missingAmount)} paid but not in the bank`}
+          />
+        </div>
+      )}
+
+      {/* Import */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Statement</CardTitle>
+            <CardDescription>
+              Bank or remittance CSV with a date and amount/credit column. Debits and rows already imported are skipped.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FileUpload
+              onFileSelect={handleImport}
+              disabled={importing}
+              description={importing ? "Importing..." : "CSV files"}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Matching Rules</CardTitle>
+            <CardDescription>
+              {workspace?.coverage.from && workspace.coverage.to
+                ? `Statements cover ${formatDate(workspace.coverage.from)} – ${formatDate(workspace.coverage.to)}`
+                : "No statements imported yet"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="payout-window">Match window (days)</Label>
+                <Input
+                  id="payout-window"
+                  type="number"
+                  min={1}
+                  max={90}
+                  value={windowDays}
+                  onChange={(e) => setWindowDays(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">How long after remittance the deposit may land</p>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="payout-overdue">Overdue after (days)</Label>
+                <Input
+                  id="payout-overdue"
+                  type="number"
+                  min={1}
+                  max={90}
+                  value={overdueDays}
+                  onChange={(e) => setOverdueDays(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">Unpaid invoices older than this are flagged</p>
+              </div>
+            </div>
+            <Button variant="outline" onClick={handleSaveSettings} disabled={savingSettings}>
+              {savingSettings ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="exceptions">
+        <TabsList>
+          <TabsTrigger value="exceptions">Exceptions ({workspace?.exceptions.length ?? 0})</TabsTrigger>
+          <TabsTrigger value="overdue">Overdue ({workspace?.overdueInvoices.length ?? 0})</TabsTrigger>
+          <TabsTrigger value="missing">Missing Deposits ({workspace?.missingDeposits.length ?? 0})</TabsTrigger>
+          <TabsTrigger value="resolved">Resolved</TabsTrigger>
+          <TabsTrigger value="statements">Statements</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="exceptions">
+          <Card>
+            <CardHeader>
+              <CardTitle>Exceptions</CardTitle>
+              <CardDescription>
+                Deposits with no invoice, and deposits smaller or larger than the invoices they paid.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Invoices</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading && !workspace ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ) : !workspace || workspace.exceptions.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                        Nothing to resolve.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    workspace.exceptions.map((deposit) => (
+                      <TableRow key={deposit.id}>
+                        {renderDepositCells(deposit)}
+                        <TableCell className="text-right whitespace-nowrap">
+                          {actionId === deposit.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin ml-auto" />
+                          ) : deposit.status === "UNMATCHED" ? (
+                            <>
+                              <Button size="sm" variant="outline" onClick={() => openMatchDialog(deposit)}>
+                                <Link2 className="mr-1 h-3 w-3" />
+                                Match
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="ml-1"
+                                title="Not a TicketVault payout"
+                                onClick={() => resolveDeposit(deposit, "ignore")}
+                              >
+                                Ignore
+                              </Button>
+                            </>
+                          ) : (
+                            <>
+                              <Button size="sm" variant="outline" onClick={() => resolveDeposit(deposit, "accept")}>
+                                <CheckCircle className="mr-1 h-3 w-3" />
+                                Accept
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="ml-1"
+                                title="Unlink invoices"
+                                onClick={() => resolveDeposit(deposit, "reset")}
+                              >
+                                <Undo2 className="h-3 w-3" />
+                              </Button>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="overdue">
+          <Card>
+            <CardHeader>
+              <CardTitle>Overdue Invoices</CardTitle>
+              <CardDescription>
+                Not marked paid by TicketVault {workspace?.settings.overdueDays ?? "-"} days after the invoice date.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {renderInvoiceTable(workspace?.overdueInvoices || [], "invoiceDate", "No overdue invoices.")}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="missing">
+          <Card>
+            <CardHeader>
+              <CardTitle>Missing Deposits</CardTitle>
+              <CardDescription>
+                Paid according to TicketVault, but no matching deposit within {workspace?.settings.windowDays ?? "-"} days
+                in the imported statements.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {renderInvoiceTable(workspace?.missingDeposits || [], "remittanceDate", "Every remitted invoice has a deposit.")}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="resolved">
+          <Card>
+            <CardHeader>
+              <CardTitle>Recently Resolved</CardTitle>
+              <CardDescription>Matched, accepted and ignored deposits. Reset to undo a match.</CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Invoices</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead>Resolved</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!workspace || workspace.resolved.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                        No resolved deposits yet.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    workspace.resolved.map((deposit) => (
+                      <TableRow key={deposit.id}>
+                        {renderDepositCells(deposit)}
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {deposit.resolvedAt ? formatDateTime(deposit.resolvedAt) : "auto"}
+                          {deposit.resolvedBy && (
+                            <div className="text-xs text-muted-foreground">{deposit.resolvedBy}</div>
+                          )}
+                          {deposit.notes && (
+                            <div className="text-xs text-muted-foreground truncate max-w-[200px]" title={deposit.notes}>
+                              {deposit.notes}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-8 w-8 p-0"
+                            title="Reset to unmatched"
+                            disabled={actionId === deposit.id}
+                            onClick={() => resolveDeposit(deposit, "reset")}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="statements">
+          <Card>
+            <CardHeader>
+              <CardTitle>Imported Statements</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead className="text-right">Rows</TableHead>
+                    <TableHead className="text-right">New Deposits</TableHead>
+                    <TableHead>Imported</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!workspace || workspace.statements.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                        No statements imported yet.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    workspace.statements.map((s) => (
+                      <TableRow key={s.id}>
+                        <TableCell className="font-mono text-sm">{s.fileName || "-"}</TableCell>
+                        <TableCell className="text-right">{s.rowCount}</TableCell>
+                        <TableCell className="text-right">{s.depositCount}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {formatDateTime(s.createdAt)}
+                          {s.importedBy && <div className="text-xs text-muted-foreground">{s.importedBy}</div>}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Manual Match Dialog */}
+      <Dialog open={!!matchDeposit} onOpenChange={(open) => !open && setMatchDeposit(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Match Deposit</DialogTitle>
+            <DialogDescription>
+              {matchDeposit &&
+                `${formatCurrency(matchDeposit.amount)} on ${formatDate(matchDeposit.depositDate)}${
+                  matchDeposit.description ? ` · ${matchDeposit.description}` : ""
+                }`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Invoice number, event or client..."
+                value={candidateSearch}
+                onChange={(e) => setCandidateSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+
+            <div className="max-h-[360px] overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10"></TableHead>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Remitted</TableHead>
+                    <TableHead className="text-right">Payout</TableHead>
+                    <TableHead className="text-right">Difference</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loadingCandidates ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-6">
+                        <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ) : candidates.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                        No unreconciled invoices found.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    candidates.map((c) => (
+                      <TableRow key={c.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedInvoices.has(c.invoiceNumber)}
+                            onCheckedChange={(checked) => {
+                              const next = new Set(selectedInvoices);
+                              if (checked) next.add(c.invoiceNumber);
+                              else next.delete(c.invoiceNumber);
+                              setSelectedInvoices(next);
+                            }}
+                          />
+                        </TableCell>
+                        <TableCell className="font-mono">#{c.invoiceNumber}</TableCell>
+                        <TableCell className="max-w-[220px] truncate">{c.eventName || "-"}</TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {c.remittanceDate ? formatDate(c.remittanceDate) : <span className="text-muted-foreground">unpaid</span>}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(c.totalAmount)}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">{formatCurrency(c.difference)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="match-notes">Notes</Label>
+              <Input
+                id="match-notes"
+                placeholder="Optional"
+                value={matchNotes}
+                onChange={(e) => setMatchNotes(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter className="items-center">
+            {matchDeposit && selectedInvoices.size > 0 && (
+              <span className="text-sm text-muted-foreground mr-auto">
+                {selectedInvoices.size} selected · {formatCurrency(selectedTotal)} · variance{" "}
+                {formatCurrency(matchDeposit.amount - selectedTotal)}
+              </span>
+            )}
+            <Button variant="outline" onClick={() => setMatchDeposit(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleManualMatch}
+              disabled={selectedInvoices.size === 0 || actionId === matchDeposit?.id}
+            >
+              <Link2 className="mr-2 h-4 w-4" />
+              Match
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+"use client";
+
+import { Fragment, useEffect, useState, useCallback } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  DollarSign,
+  Download,
+  Loader2,
+  Package,
+  Percent,
+  RefreshCw,
+  Search,
+  TrendingUp,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StatsCard } from "@/components/stats-card";
+import { EventPnlDetail, PnlMetrics, formatPercent, profitClass } from "@/components/event-pnl-detail";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+interface EventPnl extends PnlMetrics {
+  eventId: string;
+  tmEventId: string;
+  eventName: string;
+  artistName: string | null;
+  venue: string | null;
+  eventDate: string | null;
+}
+
+interface ArtistPnl extends PnlMetrics {
+  artistName: string;
+  eventCount: number;
+}
+
+export default function PnlPage() {
+  const { toast } = useToast();
+  const [events, setEvents] = useState<EventPnl[]>([]);
+  const [artists, setArtists] = useState<ArtistPnl[]>([]);
+  const [totals, setTotals] = useState<PnlMetrics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [upcoming, setUpcoming] = useState("all");
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (search) params.set("search", search);
+    if (upcoming !== "all") params.set("upcoming", upcoming);
+    return params.toString();
+  }, [search, upcoming]);
+
+  const fetchPnl = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/events/pnl?${buildParams()}`);
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setEvents(data.events);
+      setArtists(data.artists);
+      setTotals(data.totals);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to fetch event P&L",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [buildParams, toast]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchPnl, 300);
+    return () => clearTimeout(timer);
+  }, [fetchPnl]);
+
+  const handleExport = () => {
+    window.location.href = `/api/export/pnl?${buildParams()}`;
+  };
+
+  const renderMetricCells = (m: PnlMetrics) => (
+    <>
+      <TableCell className="text-right">{m.purchasedTickets}</TableCell>
+      <TableCell className="text-right">{formatCurrency(m.purchasedCost)}</TableCell>
+      <TableCell className="text-right">
+        {m.listedTickets}
+        {m.listedTickets > 0 && (
+          <div className={`text-xs ${profitClass(m.unrealizedProfit)}`}>{formatCurrency(m.unrealizedProfit)}</div>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        {m.soldTickets}
+        {m.awaitingInvoiceTickets > 0 && (
+          <div className="text-xs text-muted-foreground">+{m.awaitingInvoiceTickets} awaiting invoice</div>
+        )}
+      </TableCell>
+      <TableCell className="text-right">{formatCurrency(m.revenue)}</TableCell>
+      <TableCell className="text-right text-muted-foreground">{formatCurrency(m.fees)}</TableCell>
+      <TableCell className={`text-right font-medium ${profitClass(m.realizedProfit)}`}>
+        {formatCurrency(m.realizedProfit)}
+      </TableCell>
+      <TableCell className={`text-right ${profitClass(m.roi)}`}>{formatPercent(m.roi)}</TableCell>
+      <TableCell className="text-right">{formatPercent(m.sellThrough)}</TableCell>
+    </>
+  );
+
+  const metricHeads = (
+    <>
+      <TableHead className="text-right">Bought</TableHead>
+      <TableHead className="text-right">Cost</TableHead>
+      <TableHead className="text-right">Listed</TableHead>
+      <TableHead className="text-right">Sold</TableHead>
+      <TableHead className="text-right">Revenue</TableHead>
+      <TableHead className="text-right">Fees</TableHead>
+      <TableHead className="text-right">Profit</TableHead>
+      <TableHead className="text-right">ROI</TableHead>
+      <TableHead className="text-right">Sell-Through</TableHead>
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Event P&amp;L</h1>
+          <p className="text-muted-foreground">
+            Cost, inventory, revenue and ROI per event and artist
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={fetchPnl} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={handleExport}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      {totals && (
+        <div className="grid gap-4 md:grid-cols-4">
+          <StatsCard
+            title="Purchased"
+            value={formatCurrency(totals.purchasedCost)}
+            icon={DollarSign}
+            description={`${totals.purchasedTickets} tickets`}
+          />
+          <StatsCard
+            title="Realized Profit"
+            value={formatCurrency(totals.realizedProfit)}
+            icon={TrendingUp}
+            description={`${formatCurrency(totals.revenue)} revenue, ${formatPercent(totals.roi)} ROI`}
+            valueClassName={profitClass(totals.realizedProfit)}
+          />
+          <StatsCard
+            title="Unrealized"
+            value={formatCurrency(totals.unrealizedProfit)}
+            icon={Package}
+            description={`${totals.listedTickets} listed at ${formatCurrency(totals.listedValue)}`}
+            valueClassName={profitClass(totals.unrealizedProfit)}
+          />
+          <StatsCard
+            title="Sell-Through"
+            value={formatPercent(totals.sellThrough)}
+            icon={Percent}
+            description={`${totals.soldTickets} of ${totals.purchasedTickets} tickets sold`}
+          />
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="relative flex-1 min-w-[200px] max-w-sm">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search by event, artist, venue..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={upcoming} onValueChange={setUpcoming}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All events</SelectItem>
+            <SelectItem value="true">Upcoming</SelectItem>
+            <SelectItem value="false">Past</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Tabs defaultValue="events">
+        <TabsList>
+          <TabsTrigger value="events">Events ({events.length})</TabsTrigger>
+          <TabsTrigger value="artists">Artists ({artists.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="events">
+          <Card>
+            <CardHeader>
+              <CardTitle>By Event</CardTitle>
+              <CardDescription>
+                Revenue is net payout from invoices. Click an event for its zones and tickets.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8"></TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Date</TableHead>
+                    {metricHeads}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading && events.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={12} className="text-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ) : events.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={12} className="text-center py-8 text-muted-foreground">
+                        No purchases, listings or sales for these events.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    events.map((event) => (
+                      <Fragment key={event.eventId}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() => setExpandedEventId(expandedEventId === event.eventId ? null : event.eventId)}
+                        >
+                          <TableCell>
+                            {expandedEventId === event.eventId ? (
+                              <ChevronDown className="w-4 h-4" />
+                            ) : (
+                              <ChevronRight className="w-4 h-4" />
+                            )}
+                          </TableCell>
+                          <TableCell className="max-w-[260px]">
+                            <div className="font-medium truncate">{event.artistName || event.eventName}</div>
+                            <div className="text-xs text-muted-foreground truncate">
+                              {event.artistName ? event.eventName : ""}
+                              {event.venue ? `${event.artistName ? " · " : ""}${event.venue}` : ""}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm whitespace-nowrap">
+                            {event.eventDate ? formatDate(event.eventDate) : "-"}
+                          </TableCell>
+                          {renderMetricCells(event)}
+                        </TableRow>
+                        {expandedEventId === event.eventId && (
+                          <TableRow>
+                            <TableCell colSpan={12} className="bg-muted/30">
+                              <EventPnlDetail eventId={event.eventId} />
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="artists">
+          <Card>
+            <CardHeader>
+              <CardTitle>By Artist</CardTitle>
+              <CardDescription>All events per artist, best realized profit first.</CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Artist</TableHead>
+                    <TableHead className="text-right">Events</TableHead>
+                    {metricHeads}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {artists.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={11} className="text-center py-8 text-muted-foreground">
+                        {loading ? <Loader2 className="h-6 w-6 animate-spin mx-auto" /> : "No artists yet."}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    artists.map((artist) => (
+                      <TableRow key={artist.artistName}>
+                        <TableCell className="font-medium">{artist.artistName}</TableCell>
+                        <TableCell className="text-right">{artist.eventCount}</TableCell>
+                        {renderMetricCells(artist)}
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -30,6 +30,15 @@ import {
 } from "@/components/ui/tabs";
 import { FileUpload } from "@/components/file-upload";
 import { StatsCard } from "@/components/stats-card";
+import { ConversionFunnelPanel } from "@/components/conversion-funnel-panel";
+import { QualityModelPanel } from "@/components/quality-model-panel";
+import { OutlierReviewPanel } from "@/components/outlier-review-panel";
+import {
+  ProfileComparisonTable,
+  ScoreProfileControls,
+  type ProfileComparison,
+  type ScoreWeights,
+} from "@/components/score-profile-controls";
 import { QueueDistributionChart } from "@/components/queue-distribution-chart";
 import { CompositeScoreCell } from "@/components/score-breakdown-tooltip";
 import { PerformanceTooltip, PerformanceIndicators } from "@/components/performance-tooltip";
@@ -56,6 +65,18 @@ interface QueuePosition {
     tmEventId: string;
     name: string;
   };
+  batch: {
+    id: string;
+    tag: string;
+  };
+}
+
+interface BatchOption {
+  id: string;
+  tag: string;
+  source: string | null;
+  importedAt: string;
+  count: number;
 }
 
 interface EventOption {
@@ -100,6 +121,8 @@ interface ScoreBreakdown {
 interface EventPerformance {
   eventId: string;
   eventName: string;
+  batchId: string;
+  batchTag: string;
   artistName?: string | null;
   eventDateRaw?: string | null;
   venue?: string | null;
@@ -124,6 +147,7 @@ interface AccountRanking {
   recentAvgPercentile: number;
   improvementScore: number;
   lastTestedAt: string | null;
+  predictedProbability: number | null;  // From the active quality model
   scoreBreakdown: ScoreBreakdown;
   performances: EventPerformance[];
 }
@@ -141,26 +165,35 @@ interface RankingsStats {
 
 type SortColumn = "position" | "percentile" | "email" | "testedAt" | "hasPurchased";
 type SortOrder = "asc" | "desc";
-type ViewMode = "single-event" | "all-events" | "visualization";
+type ViewMode = "single-event" | "all-events" | "visualization" | "conversion";
 
 export default function QueuesPage() {
   const [queuePositions, setQueuePositions] = useState<QueuePosition[]>([]);
   const [events, setEvents] = useState<EventOption[]>([]);
+  const [batches, setBatches] = useState<BatchOption[]>([]);
   const [stats, setStats] = useState<Stats | null>(null);
   const [rankingsStats, setRankingsStats] = useState<RankingsStats | null>(null);
   const [distribution, setDistribution] = useState<DistributionData | null>(null);
   const [accountRankings, setAccountRankings] = useState<AccountRanking[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedEvent, setSelectedEvent] = useState<string>("all");
+  const [selectedBatch, setSelectedBatch] = useState<string>("all");
   const [viewMode, setViewMode] = useState<ViewMode>("all-events");
   const [sortBy, setSortBy] = useState<string>("compositeScore");
   const [minEvents, setMinEvents] = useState<number>(1);
+  const [scoreProfile, setScoreProfile] = useState<string>("default");
+  const [compareProfile, setCompareProfile] = useState<string>("none");
+  const [previewWeights, setPreviewWeights] = useState<ScoreWeights | null>(null);
+  const [activeWeights, setActiveWeights] = useState<ScoreWeights | null>(null);
+  const [comparison, setComparison] = useState<ProfileComparison | null>(null);
+  const [qualityTopPercent, setQualityTopPercent] = useState<number | null>(null);
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(100);
   const [totalPages, setTotalPages] = useState(1);
   const [totalItems, setTotalItems] = useState(0);
   const [showUpload, setShowUpload] = useState(false);
   const [importing, setImporting] = useState(false);
+  const [outlierRefreshKey, setOutlierRefreshKey] = useState(0);
   const [sortColumn, setSortColumn] = useState<SortColumn>("position");
   const [sortOrder, setSortOrder] = useState<SortOrder>("asc");
   
@@ -185,6 +218,9 @@ export default function QueuesPage() {
 
       if (selectedEvent && selectedEvent !== "all") {
         params.set("eventId", selectedEvent);
+        if (selectedBatch !== "all") {
+          params.set("batchId", selectedBatch);
+        }
       }
 
       const response = await fetch(`/api/queues?${params}`);
@@ -192,6 +228,7 @@ export default function QueuesPage() {
 
       setQueuePositions(data.queuePositions || []);
       setEvents(data.events || []);
+      setBatches(data.batches || []);
       setStats(data.stats);
       setTotalPages(data.pagination?.pages || 1);
       setTotalItems(data.pagination?.total || 0);
@@ -200,7 +237,7 @@ export default function QueuesPage() {
     } finally {
       setLoading(false);
     }
-  }, [page, pageSize, selectedEvent, sortColumn, sortOrder]);
+  }, [page, pageSize, selectedEvent, selectedBatch, sortColumn, sortOrder]);
 
   const fetchDistribution = useCallback(async () => {
     if (!selectedEvent || selectedEvent === "all") {
@@ -242,24 +279,30 @@ export default function QueuesPage() {
         page: page.toString(),
         minEvents: minEventsFilter.toString(),
       });
+      if (scoreProfile !== "default") params.set("profile", scoreProfile);
+      if (previewWeights) params.set("weights", JSON.stringify(previewWeights));
+      if (compareProfile !== "none") params.set("compareProfile", compareProfile);
 
       const response = await fetch(`/api/analytics/account-rankings?${params}`);
       const data = await response.json();
       setAccountRankings(data.accounts || []);
       setRankingsStats(data.stats || null);
+      setActiveWeights(data.profile?.weights || null);
+      setComparison(data.comparison || null);
+      setQualityTopPercent(data.qualityModel?.topPercent ?? null);
       setTotalPages(data.pagination?.pages || 1);
     } catch (error) {
       console.error("Failed to fetch account rankings:", error);
     } finally {
       setLoading(false);
     }
-  }, [sortBy, page, viewMode, minEvents]);
+  }, [sortBy, page, viewMode, minEvents, scoreProfile, previewWeights, compareProfile]);
 
   useEffect(() => {
     if (viewMode === "single-event") {
       fetchQueues();
       fetchDistribution();
-    } else {
+    } else if (viewMode !== "conversion") {
       fetchAccountRankings();
     }
   }, [fetchQueues, fetchDistribution, fetchAccountRankings, viewMode]);
@@ -280,9 +323,11 @@ export default function QueuesPage() {
       if (data.success) {
         toast({
           title: "Import Successful",
-          description: `Imported ${data.imported} queue positions, updated ${data.updated || 0} (${data.skipped} skipped)`,
+          description: `Imported ${data.imported} queue positions, updated ${data.updated || 0} (${data.skipped} skipped)` +
+            (data.outliersFlagged ? ` - ${data.outliersFlagged} outliers flagged for review` : ""),
         });
         setShowUpload(false);
+        setOutlierRefreshKey(k => k + 1);
         fetchQueues();
         fetchAccountRankings();
       } else {
@@ -349,6 +394,7 @@ export default function QueuesPage() {
           accountIds: exportAll ? undefined : Array.from(selectedRows),
           sortBy,
           minEvents: minEvents,
+          profile: scoreProfile !== "default" ? scoreProfile : undefined,
         }),
       });
 
@@ -450,6 +496,7 @@ export default function QueuesPage() {
           <TabsTrigger value="single-event">Single Event</TabsTrigger>
           <TabsTrigger value="all-events">All Accounts</TabsTrigger>
           <TabsTrigger value="visualization">Scatter Plot</TabsTrigger>
+          <TabsTrigger value="conversion">Conversion</TabsTrigger>
         </TabsList>
 
         {/* Single Event View */}
@@ -459,7 +506,7 @@ export default function QueuesPage() {
             <CardContent className="pt-6">
               <div className="flex gap-4 items-center">
                 <div className="flex-1 max-w-md">
-                  <Select value={selectedEvent} onValueChange={(v) => { setSelectedEvent(v); setPage(1); }}>
+                  <Select value={selectedEvent} onValueChange={(v) => { setSelectedEvent(v); setSelectedBatch("all"); setPage(1); }}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select an event to view queues" />
                     </SelectTrigger>
@@ -476,8 +523,25 @@ export default function QueuesPage() {
                     </SelectContent>
                   </Select>
                 </div>
+                {selectedEvent && selectedEvent !== "all" && batches.length > 1 && (
+                  <div className="w-56">
+                    <Select value={selectedBatch} onValueChange={(v) => { setSelectedBatch(v); setPage(1); }}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="All batches" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Batches</SelectItem>
+                        {batches.map((batch) => (
+                          <SelectItem key={batch.id} value={batch.id}>
+                            {batch.tag} ({batch.count.toLocaleString()} accounts)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 {selectedEvent && selectedEvent !== "all" && (
-                  <Button variant="outline" onClick={() => setSelectedEvent("all")}>
+                  <Button variant="outline" onClick={() => { setSelectedEvent("all"); setSelectedBatch("all"); }}>
                     Clear Filter
                   </Button>
                 )}
@@ -498,6 +562,14 @@ export default function QueuesPage() {
             />
           )}
 
+          {/* Automatically flagged late entries / outliers */}
+          <OutlierReviewPanel
+            key={outlierRefreshKey}
+            eventId={selectedEvent !== "all" ? selectedEvent : undefined}
+            batchId={selectedBatch !== "all" ? selectedBatch : undefined}
+            onChange={handleExclusionChange}
+          />
+
           {/* Stats for selected event */}
           {stats && selectedEvent && selectedEvent !== "all" && (
             <div className="grid gap-4 md:grid-cols-4">
@@ -555,6 +627,7 @@ export default function QueuesPage() {
                           <SortableHeader column="percentile" label="Percentile" />
                         )}
                         <TableHead>Event</TableHead>
+                        <TableHead>Batch</TableHead>
                         <SortableHeader column="hasPurchased" label="Has Purchased" />
                         <SortableHeader column="testedAt" label="Last Tested" />
                       </TableRow>
@@ -577,6 +650,9 @@ export default function QueuesPage() {
                           <TableCell className="truncate max-w-[200px]">
                             {q.event?.name || "Unknown Event"}
                           </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{q.batch?.tag}</Badge>
+                          </TableCell>
                           <TableCell>
                             {q.account?.hasPurchased ? (
                               <Badge variant="success">Yes</Badge>
@@ -611,9 +687,28 @@ export default function QueuesPage() {
 
         {/* All Events / Account Rankings View */}
         <TabsContent value="all-events" className="space-y-6">
+          <Card>
+            <CardContent className="pt-6">
+              <ScoreProfileControls
+                profileId={scoreProfile}
+                onProfileChange={(v) => { setScoreProfile(v); setPage(1); }}
+                compareId={compareProfile}
+                onCompareChange={setCompareProfile}
+                activeWeights={activeWeights}
+                previewing={previewWeights !== null}
+                onPreview={(w) => { setPreviewWeights(w); setPage(1); }}
+              />
+            </CardContent>
+          </Card>
+
+          {comparison && <ProfileComparisonTable comparison={comparison} />}
+
+          <QualityModelPanel onTrained={fetchAccountRankings} />
+
           <AccountRankingsTable
             accountRankings={accountRankings}
             rankingsStats={rankingsStats}
+            qualityTopPercent={qualityTopPercent}
             loading={loading}
             sortBy={sortBy}
             setSortBy={(v) => { setSortBy(v); setPage(1); }}
@@ -648,6 +743,11 @@ export default function QueuesPage() {
             }))}
           />
         </TabsContent>
+
+        {/* Queue position to purchase funnel */}
+        <TabsContent value="conversion" className="space-y-6">
+          <ConversionFunnelPanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -657,6 +757,7 @@ export default function QueuesPage() {
 function AccountRankingsTable({
   accountRankings,
   rankingsStats,
+  qualityTopPercent,
   loading,
   sortBy,
   setSortBy,
@@ -677,6 +778,7 @@ function AccountRankingsTable({
 }: {
   accountRankings: AccountRanking[];
   rankingsStats: RankingsStats | null;
+  qualityTopPercent: number | null;
   loading: boolean;
   sortBy: string;
   setSortBy: (v: string) => void;
@@ -937,7 +1039,7 @@ function AccountRankingsTable({
                         <div className="flex-1 min-w-0">
                           <div className="font-medium truncate">{perf.eventName || perf.eventId}</div>
                           <div className="text-xs text-muted-foreground">
-                            {new Date(perf.testedAt).toLocaleDateString()}
+                            {perf.batchTag} · {new Date(perf.testedAt).toLocaleDateString()}
                           </div>
                         </div>
                         <div className="flex items-center gap-3">
@@ -1053,6 +1155,11 @@ function AccountRankingsTable({
                       onSort={setSortBy}
                       disabled
                     />
+                    {qualityTopPercent !== null && (
+                      <TableHead title={`Predicted probability of landing in the top ${qualityTopPercent}% of the next queue and converting`}>
+                        P(Top {qualityTopPercent}%)
+                      </TableHead>
+                    )}
                     <SortableRankingHeader 
                       label="Avg %ile" 
                       sortKey="percentile" 
@@ -1121,6 +1228,13 @@ function AccountRankingsTable({
                       <TableCell>
                         {getConfidenceBadge(account.scoreBreakdown.confidence)}
                       </TableCell>
+                      {qualityTopPercent !== null && (
+                        <TableCell className="font-mono text-sm">
+                          {account.predictedProbability !== null
+                            ? `${(account.predictedProbability * 100).toFixed(1)}%`
+                            : "-"}
+                        </TableCell>
+                      )}
                       <TableCell className="font-mono text-sm">
                         {account.avgPercentile.toFixed(1)}%
                       </TableCell>
@@ -0,0 +1,440 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import {
+  Plus,
+  Play,
+  Eye,
+  Loader2,
+  Pencil,
+  Trash2,
+  TrendingDown,
+  ListChecks,
+  ArrowRight,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StatsCard } from "@/components/stats-card";
+import { RepricingRuleDialog, RepricingRule } from "@/components/repricing-rule-dialog";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+
+interface Proposal {
+  listingId: string;
+  ticketGroupId: number;
+  eventName: string;
+  eventDateTime: string | null;
+  section: string;
+  row: string;
+  quantity: number;
+  cost: number;
+  currentPrice: number;
+  newPrice: number;
+  floorPrice: number | null;
+  floorSource: string | null;
+  reasons: string[];
+}
+
+interface RunResult {
+  success: boolean;
+  dryRun: boolean;
+  evaluated: number;
+  proposals: Proposal[];
+  applied: number;
+  failed: number;
+  errors: string[];
+}
+
+export default function RepricingPage() {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<RepricingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [previewing, setPreviewing] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<RunResult | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<RepricingRule | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/repricing/rules");
+      const data = await response.json();
+      if (data.success) {
+        setRules(data.rules);
+      }
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to fetch repricing rules",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handlePreview = async () => {
+    try {
+      setPreviewing(true);
+      const response = await fetch("/api/repricing/run");
+      const data: RunResult = await response.json();
+      setResult(data);
+      if (!data.success) {
+        toast({
+          title: "Preview Failed",
+          description: data.errors.join(", "),
+          variant: "destructive",
+        });
+      }
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to preview repricing",
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!confirm("Push new prices to TicketVault for all proposed changes?")) return;
+
+    try {
+      setRunning(true);
+      const response = await fetch("/api/repricing/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun: false }),
+      });
+      const data = await response.json();
+      setResult(data);
+      toast({
+        title: data.failed > 0 ? "Repricing Finished With Errors" : "Repricing Complete",
+        description: data.message,
+        variant: data.failed > 0 ? "destructive" : "default",
+      });
+      fetchRules();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to run repricing",
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleToggle = async (rule: RepricingRule, isEnabled: boolean) => {
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, isEnabled } : r)));
+    try {
+      const response = await fetch(`/api/repricing/rules/${rule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isEnabled }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to update rule",
+        variant: "destructive",
+      });
+      fetchRules();
+    }
+  };
+
+  const handleDelete = async (rule: RepricingRule) => {
+    if (!confirm(`Delete rule "${rule.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/repricing/rules/${rule.id}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      toast({ title: "Rule Deleted", description: data.message });
+      fetchRules();
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to delete rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatScope = (rule: RepricingRule) => {
+    const parts: string[] = [];
+    if (rule.event) parts.push(rule.event.artistName || rule.event.eventName);
+    if (rule.zoneName) parts.push(rule.zoneName);
+    if (rule.tagName) parts.push(`#${rule.tagName}`);
+    return parts.length > 0 ? parts.join(" · ") : "All listings";
+  };
+
+  const enabledCount = rules.filter((r) => r.isEnabled).length;
+  const netChange = result
+    ? result.proposals.reduce((sum, p) => sum + (p.newPrice - p.currentPrice) * p.quantity, 0)
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Repricing</h1>
+          <p className="text-muted-foreground">
+            Rule-based automatic price updates for our POS listings
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              setEditingRule(null);
+              setDialogOpen(true);
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New Rule
+          </Button>
+          <Button variant="outline" onClick={handlePreview} disabled={previewing || running}>
+            {previewing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Eye className="mr-2 h-4 w-4" />
+            )}
+            Dry Run
+          </Button>
+          <Button onClick={handleRun} disabled={running || previewing || enabledCount === 0}>
+            {running ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Play className="mr-2 h-4 w-4" />
+            )}
+            Run Now
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <StatsCard
+          title="Active Rules"
+          value={enabledCount.toString()}
+          icon={ListChecks}
+          description={`${rules.length} total`}
+        />
+        <StatsCard
+          title="Proposed Changes"
+          value={result ? result.proposals.length.toString() : "-"}
+          icon={TrendingDown}
+          description={result ? `${result.evaluated} listings evaluated` : "Run a dry run to preview"}
+        />
+        <StatsCard
+          title="Net Inventory Change"
+          value={result ? formatCurrency(netChange) : "-"}
+          icon={TrendingDown}
+          description="Sum of (new - current) × qty"
+          valueClassName={netChange < 0 ? "text-red-500" : netChange > 0 ? "text-green-500" : undefined}
+        />
+      </div>
+
+      {/* Rules */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+          <CardDescription>
+            Pricing rules apply in priority order; cost minimums are always enforced last.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Enabled</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Priority</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Last Run</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    No repricing rules yet. Click &apos;New Rule&apos; to create one.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <Switch
+                        checked={rule.isEnabled}
+                        onCheckedChange={(checked) => handleToggle(rule, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{rule.description}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatScope(rule)}
+                    </TableCell>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell>{rule._count.priceChanges}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {rule.lastRunAt ? formatDateTime(rule.lastRunAt) : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1 justify-end">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          onClick={() => {
+                            setEditingRule(rule);
+                            setDialogOpen(true);
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          onClick={() => handleDelete(rule)}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Preview / Results */}
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{result.dryRun ? "Dry Run Preview" : "Last Run"}</CardTitle>
+            <CardDescription>
+              {result.dryRun
+                ? `${result.proposals.length} listings would change. Nothing has been pushed to TicketVault.`
+                : `${result.applied} listings updated, ${result.failed} failed.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {result.errors.length > 0 && (
+              <div className="px-6 pb-4 text-sm text-red-500 space-y-1">
+                {result.errors.map((e, i) => (
+                  <p key={i}>{e}</p>
+                ))}
+              </div>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Section</TableHead>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Qty</TableHead>
+                  <TableHead>Cost/ea</TableHead>
+                  <TableHead>Floor</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Why</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.proposals.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                      No price changes needed.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  result.proposals.map((p) => (
+                    <TableRow key={p.listingId}>
+                      <TableCell>
+                        <p className="font-medium truncate max-w-[180px]" title={p.eventName}>
+                          {p.eventName}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {p.eventDateTime ? formatDateTime(p.eventDateTime) : "-"}
+                      </TableCell>
+                      <TableCell className="font-medium">{p.section}</TableCell>
+                      <TableCell>{p.row}</TableCell>
+                      <TableCell>{p.quantity}</TableCell>
+                      <TableCell>{formatCurrency(p.cost)}</TableCell>
+                      <TableCell>
+                        {p.floorPrice !== null ? (
+                          <span title={`${p.floorSource} floor`}>{formatCurrency(p.floorPrice)}</span>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1 whitespace-nowrap">
+                          <span className="text-muted-foreground">{formatCurrency(p.currentPrice)}</span>
+                          <ArrowRight className="h-3 w-3" />
+                          <span
+                            className={
+                              p.newPrice < p.currentPrice ? "font-medium text-red-500" : "font-medium text-green-500"
+                            }
+                          >
+                            {formatCurrency(p.newPrice)}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[300px]">
+                        {p.reasons.join("; ")}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <RepricingRuleDialog
+        rule={editingRule}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={fetchRules}
+      />
+    </div>
+  );
+}
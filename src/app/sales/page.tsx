@@ -129,7 +129,7 @@ interface Sale {
       cardId: string | null;
       card: {
         id: string;
-        cardNumber: string | null;
+        cardLast4: string | null;
         cardType: string | null;
       } | null;
       account: {
@@ -180,7 +180,7 @@ interface InvoiceSale {
       cardId: string | null;
       card: {
         id: string;
-        cardNumber: string | null;
+        cardLast4: string | null;
         cardType: string | null;
       } | null;
       account: {
@@ -1790,7 +1790,7 @@ export default function SalesPage() {
                   <h4 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Payment Card</h4>
                   <div className="bg-muted/50 rounded-lg p-4">
                     <div className="font-medium">
-                      {selectedPO.listing.purchase.card.cardType} ending in {selectedPO.listing.purchase.card.cardNumber?.slice(-4) || "****"}
+                      {selectedPO.listing.purchase.card.cardType} ending in {selectedPO.listing.purchase.card.cardLast4 || "****"}
                     </div>
                   </div>
                 </div>
@@ -1944,7 +1944,7 @@ export default function SalesPage() {
                   <h4 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Payment Card</h4>
                   <div className="bg-muted/50 rounded-lg p-4">
                     <div className="font-medium">
-                      {selectedSale.listing.purchase.card.cardType} ending in {selectedSale.listing.purchase.card.cardNumber?.slice(-4) || "****"}
+                      {selectedSale.listing.purchase.card.cardType} ending in {selectedSale.listing.purchase.card.cardLast4 || "****"}
                     </div>
                   </div>
                 </div>
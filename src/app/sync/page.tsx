@@ -0,0 +1,496 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { Play, Loader2, RefreshCw, CheckCircle2, XCircle, Clock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDateTime } from "@/lib/utils";
+
+interface SyncJobRun {
+  id: string;
+  trigger: string;
+  status: string;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  mode: string | null;
+  synced: number | null;
+  created: number | null;
+  updated: number | null;
+  linked: number | null;
+  skipped: number | null;
+  removed: number | null;
+  errorMessage: string | null;
+}
+
+interface SyncJob {
+  id: string;
+  type: string;
+  label: string;
+  supportsFull: boolean;
+  isEnabled: boolean;
+  intervalMinutes: number;
+  isRunning: boolean;
+  runningSince: string | null;
+  nextRunAt: string | null;
+  consecutiveFailures: number;
+  lastStartedAt: string | null;
+  lastFinishedAt: string | null;
+  lastDurationMs: number | null;
+  lastStatus: string | null;
+  lastError: string | null;
+  lastRun: SyncJobRun | null;
+  runs: SyncJobRun[];
+}
+
+const INTERVAL_OPTIONS = [5, 10, 15, 30, 60, 120, 360, 720, 1440];
+const FULL_RESYNC_HOURS_OPTIONS = [6, 12, 24, 48, 168];
+const PRICE_HISTORY_RETENTION_OPTIONS = [90, 180, 365, 730];
+
+function formatInterval(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = minutes / 60;
+  return hours === 1 ? "1 hour" : `${hours} hours`;
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "-";
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function formatCounts(run: SyncJobRun | null): string {
+  if (!run || run.status === "RUNNING") return "-";
+  const parts: string[] = [];
+  if (run.created !== null) parts.push(`${run.created} created`);
+  if (run.updated !== null) parts.push(`${run.updated} updated`);
+  if (run.linked !== null) parts.push(`${run.linked} linked`);
+  if (run.skipped !== null) parts.push(`${run.skipped} unchanged`);
+  if (run.removed) parts.push(`${run.removed} removed`);
+  return parts.length > 0 ? parts.join(", ") : "-";
+}
+
+export default function SyncJobsPage() {
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<SyncJob[]>([]);
+  const [schedulerRunning, setSchedulerRunning] = useState(false);
+  const [schedulerEnabled, setSchedulerEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [runningTypes, setRunningTypes] = useState<Set<string>>(new Set());
+  const [fullResyncHours, setFullResyncHours] = useState("24");
+  const [priceHistoryRetentionDays, setPriceHistoryRetentionDays] = useState("365");
+  const [lastFullSyncAt, setLastFullSyncAt] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await fetch("/api/sync/jobs");
+      const data = await response.json();
+      if (data.success) {
+        setJobs(data.jobs);
+        setSchedulerRunning(data.schedulerRunning);
+        setSchedulerEnabled(data.schedulerEnabled);
+      }
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to fetch sync jobs",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const response = await fetch("/api/settings");
+      const data = await response.json();
+      if (data.settings) {
+        setFullResyncHours(data.settings.listings_full_resync_hours || "24");
+        setLastFullSyncAt(data.settings.listings_last_full_sync_at || null);
+        setPriceHistoryRetentionDays(data.settings.price_history_retention_days || "365");
+      }
+    } catch (error) {
+      console.error("Failed to fetch settings:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  useEffect(() => {
+    fetchJobs();
+    const interval = setInterval(fetchJobs, 15000);
+    return () => clearInterval(interval);
+  }, [fetchJobs]);
+
+  const updateJob = async (job: SyncJob, data: { isEnabled?: boolean; intervalMinutes?: number }) => {
+    setJobs((prev) => prev.map((j) => (j.type === job.type ? { ...j, ...data } : j)));
+    try {
+      const response = await fetch(`/api/sync/jobs/${job.type}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update sync job",
+        variant: "destructive",
+      });
+    } finally {
+      fetchJobs();
+    }
+  };
+
+  const saveSetting = async (key: string, value: string) => {
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key, value }),
+      });
+      const data = await response.json();
+      if (data.error) throw new Error(data.error);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save setting",
+        variant: "destructive",
+      });
+      fetchSettings();
+    }
+  };
+
+  const handleFullResyncHoursChange = (value: string) => {
+    setFullResyncHours(value);
+    saveSetting("listings_full_resync_hours", value);
+  };
+
+  const handlePriceHistoryRetentionChange = (value: string) => {
+    setPriceHistoryRetentionDays(value);
+    saveSetting("price_history_retention_days", value);
+  };
+
+  const handleRunNow = async (job: SyncJob, full = false) => {
+    setRunningTypes((prev) => new Set(prev).add(job.type));
+    // Refresh so the row shows as running while we wait
+    setTimeout(fetchJobs, 500);
+
+    try {
+      const response = await fetch(`/api/sync/jobs/${job.type}/run${full ? "?full=true" : ""}`, {
+        method: "POST",
+      });
+      const data = await response.json();
+      toast({
+        title: data.success ? `${job.label} Sync Complete` : `${job.label} Sync Failed`,
+        description: data.success ? data.message : data.error,
+        variant: data.success ? "default" : "destructive",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: `Failed to run ${job.label.toLowerCase()} sync`,
+        variant: "destructive",
+      });
+    } finally {
+      setRunningTypes((prev) => {
+        const next = new Set(prev);
+        next.delete(job.type);
+        return next;
+      });
+      fetchJobs();
+      if (full) fetchSettings();
+    }
+  };
+
+  const getStatusBadge = (job: SyncJob) => {
+    if (job.isRunning) {
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Running
+        </Badge>
+      );
+    }
+    if (job.consecutiveFailures > 0) {
+      return (
+        <Badge variant="destructive" className="gap-1" title={job.lastError || undefined}>
+          <XCircle className="h-3 w-3" />
+          Backing off ({job.consecutiveFailures})
+        </Badge>
+      );
+    }
+    if (job.lastStatus === "SUCCESS") {
+      return (
+        <Badge variant="outline" className="gap-1 text-green-600 border-green-200">
+          <CheckCircle2 className="h-3 w-3" />
+          OK
+        </Badge>
+      );
+    }
+    return <Badge variant="outline">Never run</Badge>;
+  };
+
+  const recentRuns = jobs
+    .flatMap((job) => job.runs.map((run) => ({ ...run, label: job.label })))
+    .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
+    .slice(0, 25);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Sync Jobs</h1>
+          <p className="text-muted-foreground">
+            Scheduled TicketVault syncs for listings, sales, invoices and account metadata
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchJobs} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Jobs */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Schedule
+          </CardTitle>
+          <CardDescription>
+            {schedulerRunning
+              ? "Scheduler is running in this server process. Failed syncs retry with exponential backoff."
+              : schedulerEnabled
+                ? "Scheduler is not running in this server process - jobs only run when started manually."
+                : "Scheduler is disabled (SYNC_SCHEDULER_ENABLED=false) - jobs only run when started manually."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Enabled</TableHead>
+                <TableHead>Sync</TableHead>
+                <TableHead>Interval</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Run</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>Next Run</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && jobs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : (
+                jobs.map((job) => (
+                  <TableRow key={job.type}>
+                    <TableCell>
+                      <Switch
+                        checked={job.isEnabled}
+                        onCheckedChange={(checked) => updateJob(job, { isEnabled: checked })}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{job.label}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={job.intervalMinutes.toString()}
+                        onValueChange={(value) => updateJob(job, { intervalMinutes: parseInt(value, 10) })}
+                      >
+                        <SelectTrigger className="w-[120px] h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[...new Set([...INTERVAL_OPTIONS, job.intervalMinutes])]
+                            .sort((a, b) => a - b)
+                            .map((minutes) => (
+                              <SelectItem key={minutes} value={minutes.toString()}>
+                                {formatInterval(minutes)}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>{getStatusBadge(job)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {job.lastStartedAt ? formatDateTime(job.lastStartedAt) : "Never"}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDuration(job.lastDurationMs)}</TableCell>
+                    <TableCell className="text-sm">
+                      {job.lastStatus === "FAILED" ? (
+                        <span className="text-red-500 truncate max-w-[200px] inline-block" title={job.lastError || ""}>
+                          {job.lastError || "Failed"}
+                        </span>
+                      ) : (
+                        formatCounts(job.lastRun)
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {!job.isEnabled ? "Paused" : job.nextRunAt ? formatDateTime(job.nextRunAt) : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2 justify-end">
+                        {job.supportsFull && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleRunNow(job, true)}
+                            disabled={job.isRunning || runningTypes.has(job.type)}
+                            title="Reprocess every ticket group and detect listings removed from POS"
+                          >
+                            Full Resync
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRunNow(job)}
+                          disabled={job.isRunning || runningTypes.has(job.type)}
+                        >
+                          {runningTypes.has(job.type) ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Play className="mr-2 h-4 w-4" />
+                          )}
+                          Run Now
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+          <div className="flex items-center gap-3 px-6 py-4 border-t text-sm">
+            <span className="text-muted-foreground">Listings full resync every</span>
+            <Select value={fullResyncHours} onValueChange={handleFullResyncHoursChange}>
+              <SelectTrigger className="w-[120px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...new Set([...FULL_RESYNC_HOURS_OPTIONS.map(String), fullResyncHours])].map((hours) => (
+                  <SelectItem key={hours} value={hours}>
+                    {formatInterval(parseFloat(hours) * 60)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">
+              Other runs only process changed ticket groups. Last full resync:{" "}
+              {lastFullSyncAt ? formatDateTime(lastFullSyncAt) : "never"}
+            </span>
+          </div>
+          <div className="flex items-center gap-3 px-6 py-4 border-t text-sm">
+            <span className="text-muted-foreground">Keep price history for</span>
+            <Select value={priceHistoryRetentionDays} onValueChange={handlePriceHistoryRetentionChange}>
+              <SelectTrigger className="w-[120px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...new Set([...PRICE_HISTORY_RETENTION_OPTIONS.map(String), priceHistoryRetentionDays])].map((days) => (
+                  <SelectItem key={days} value={days}>
+                    {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">
+              Compaction keeps every scrape for 48 hours, hourly lows for 30 days, then daily lows.
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Recent Runs */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Runs</CardTitle>
+          <CardDescription>Last runs across all sync jobs (kept for 30 days)</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Sync</TableHead>
+                <TableHead>Trigger</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Synced</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recentRuns.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No sync runs yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                recentRuns.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="text-sm">{formatDateTime(run.startedAt)}</TableCell>
+                    <TableCell className="font-medium">{run.label}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{run.mode ? `${run.trigger} · ${run.mode}` : run.trigger}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          run.status === "SUCCESS" ? "secondary" : run.status === "FAILED" ? "destructive" : "outline"
+                        }
+                      >
+                        {run.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDuration(run.durationMs)}</TableCell>
+                    <TableCell className="text-sm">{run.synced ?? "-"}</TableCell>
+                    <TableCell className="text-sm">
+                      {run.status === "FAILED" ? (
+                        <span className="text-red-500">{run.errorMessage || "Failed"}</span>
+                      ) : (
+                        formatCounts(run)
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+"use client";
+
+import { Fragment, useEffect, useState, useCallback } from "react";
+import {
+  AlertTriangle,
+  Ban,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  CircleDollarSign,
+  FileText,
+  Landmark,
+  Loader2,
+  Package,
+  RefreshCw,
+  Search,
+  Send,
+  ShoppingCart,
+  Tag,
+  TrendingDown,
+  TrendingUp,
+  Zap,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StatsCard } from "@/components/stats-card";
+import { formatCurrency, formatDate, formatDateTime } from "@/lib/utils";
+
+type TicketStatus = "PURCHASED" | "LISTED" | "SOLD" | "CANCELLED";
+
+type TimelineEntryType =
+  | "CHECKOUT"
+  | "PURCHASED"
+  | "POS_SYNCED"
+  | "LISTED"
+  | "PRICE_CHANGE"
+  | "DELISTED"
+  | "SOLD"
+  | "INVOICED"
+  | "PAID"
+  | "DEPOSITED"
+  | "CANCELLED";
+
+interface TicketEvent {
+  id: string;
+  eventName: string;
+  artistName: string | null;
+  venue: string | null;
+  eventDate: string | null;
+}
+
+interface TicketRow {
+  id: string;
+  event: TicketEvent;
+  section: string;
+  row: string;
+  seatNumber: number;
+  status: TicketStatus;
+  cost: number;
+  dashboardPoNumber: string | null;
+  purchasedAt: string;
+  listPrice: number | null;
+  listedAt: string | null;
+  delisted: boolean;
+  soldAt: string | null;
+  salePrice: number | null;
+  invoiceNumber: number | null;
+  paid: boolean;
+  invoiceCancelled: boolean;
+  stuck: boolean;
+  purchasedDays: number;
+}
+
+interface TimelineEntry {
+  type: TimelineEntryType;
+  at: string;
+  title: string;
+  detail: string | null;
+  amount: number | null;
+}
+
+const STATUS_BADGES: Record<TicketStatus, string> = {
+  PURCHASED: "bg-blue-100 text-blue-800 border-blue-200",
+  LISTED: "bg-purple-100 text-purple-800 border-purple-200",
+  SOLD: "bg-green-100 text-green-800 border-green-200",
+  CANCELLED: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+const ENTRY_ICONS: Record<TimelineEntryType, typeof Zap> = {
+  CHECKOUT: Zap,
+  PURCHASED: ShoppingCart,
+  POS_SYNCED: Send,
+  LISTED: Tag,
+  PRICE_CHANGE: TrendingDown,
+  DELISTED: Ban,
+  SOLD: CircleDollarSign,
+  INVOICED: FileText,
+  PAID: CheckCircle,
+  DEPOSITED: Landmark,
+  CANCELLED: Ban,
+};
+
+function TicketTimelineDetail({ ticketId }: { ticketId: string }) {
+  const [timeline, setTimeline] = useState<TimelineEntry[] | null>(null);
+  const [stuck, setStuck] = useState<{ stuck: boolean; purchasedDays: number; stuckDays: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(`/api/tickets/${ticketId}`);
+        const data = await response.json();
+        if (!data.success) throw new Error(data.error);
+        if (cancelled) return;
+        setTimeline(data.timeline);
+        setStuck({ stuck: data.stuck, purchasedDays: data.purchasedDays, stuckDays: data.stuckDays });
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [ticketId]);
+
+  if (error) return <p className="text-sm text-red-600 py-2">{error}</p>;
+  if (!timeline) return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground my-2" />;
+
+  return (
+    <div className="space-y-3 py-2">
+      {stuck?.stuck && (
+        <div className="flex items-center gap-2 text-sm text-orange-700">
+          <AlertTriangle className="h-4 w-4" />
+          Not listed {stuck.purchasedDays} days after purchase (threshold {stuck.stuckDays} days)
+        </div>
+      )}
+      <ol className="relative border-l border-muted-foreground/20 ml-2 space-y-3">
+        {timeline.map((entry, index) => {
+          const Icon =
+            entry.type === "PRICE_CHANGE" && entry.title.includes("raised") ? TrendingUp : ENTRY_ICONS[entry.type];
+          return (
+            <li key={index} className="ml-4">
+              <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-background border">
+                <Icon className="h-3 w-3" />
+              </span>
+              <div className="flex items-baseline gap-2 flex-wrap">
+                <span className="font-medium text-sm">{entry.title}</span>
+                {entry.amount !== null && <span className="text-sm">{formatCurrency(entry.amount)}</span>}
+                <span className="text-xs text-muted-foreground">{formatDateTime(entry.at)}</span>
+              </div>
+              {entry.detail && <div className="text-xs text-muted-foreground">{entry.detail}</div>}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+export default function TicketsPage() {
+  const { toast } = useToast();
+  const [tickets, setTickets] = useState<TicketRow[]>([]);
+  const [counts, setCounts] = useState<Record<TicketStatus | "stuck", number> | null>(null);
+  const [total, setTotal] = useState(0);
+  const [limit, setLimit] = useState(0);
+  const [stuckDays, setStuckDays] = useState(7);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const [search, setSearch] = useState("");
+  const [section, setSection] = useState("");
+  const [row, setRow] = useState("");
+  const [status, setStatus] = useState("all");
+  const [stuckOnly, setStuckOnly] = useState(false);
+
+  const fetchTickets = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (search) params.set("search", search);
+      if (section) params.set("section", section);
+      if (row) params.set("row", row);
+      if (status !== "all") params.set("status", status);
+      if (stuckOnly) params.set("stuck", "true");
+
+      const response = await fetch(`/api/tickets?${params}`);
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setTickets(data.tickets);
+      setCounts(data.counts);
+      setTotal(data.total);
+      setLimit(data.limit);
+      setStuckDays(data.stuckDays);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to fetch tickets",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [search, section, row, status, stuckOnly, toast]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchTickets, 300);
+    return () => clearTimeout(timer);
+  }, [fetchTickets]);
+
+  const renderStage = (ticket: TicketRow) => {
+    if (ticket.status === "SOLD") {
+      return (
+        <>
+          {ticket.salePrice !== null && formatCurrency(ticket.salePrice)}
+          <div className="text-xs text-muted-foreground">
+            {ticket.invoiceNumber ? `#${ticket.invoiceNumber}` : "no invoice yet"}
+            {ticket.invoiceCancelled ? " · cancelled" : ticket.paid ? " · paid" : ""}
+          </div>
+        </>
+      );
+    }
+    if (ticket.listPrice !== null) {
+      return (
+        <>
+          {formatCurrency(ticket.listPrice)}
+          <div className="text-xs text-muted-foreground">
+            {ticket.delisted ? "removed from POS" : ticket.listedAt ? `listed ${formatDate(ticket.listedAt)}` : ""}
+          </div>
+        </>
+      );
+    }
+    return <span className="text-muted-foreground">-</span>;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Tickets</h1>
+          <p className="text-muted-foreground">
+            Every seat from checkout to payout
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchTickets} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      {counts && (
+        <div className="grid gap-4 md:grid-cols-4">
+          <StatsCard title="Purchased" value={counts.PURCHASED} icon={ShoppingCart} description="Not listed yet" />
+          <StatsCard title="Listed" value={counts.LISTED} icon={Package} description="On TicketVault" />
+          <StatsCard title="Sold" value={counts.SOLD} icon={CircleDollarSign} />
+          <StatsCard
+            title="Stuck"
+            value={counts.stuck}
+            icon={AlertTriangle}
+            description={`Unlisted ${stuckDays}+ days after purchase`}
+            valueClassName={counts.stuck > 0 ? "text-orange-600" : undefined}
+          />
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="relative flex-1 min-w-[200px] max-w-sm">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search by event, artist, venue..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Input
+          placeholder="Section"
+          value={section}
+          onChange={(e) => setSection(e.target.value)}
+          className="w-[120px]"
+        />
+        <Input
+          placeholder="Row"
+          value={row}
+          onChange={(e) => setRow(e.target.value)}
+          className="w-[90px]"
+        />
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="PURCHASED">Purchased</SelectItem>
+            <SelectItem value="LISTED">Listed</SelectItem>
+            <SelectItem value="SOLD">Sold</SelectItem>
+            <SelectItem value="CANCELLED">Cancelled</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Switch id="stuck-only" checked={stuckOnly} onCheckedChange={setStuckOnly} />
+          <Label htmlFor="stuck-only">Stuck only</Label>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Seats</CardTitle>
+          <CardDescription>
+            {total > limit ? `Showing ${limit} of ${total} seats - narrow the search to see the rest. ` : ""}
+            Click a seat for its full timeline.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8"></TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Seat</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>PO</TableHead>
+                <TableHead>Purchased</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+                <TableHead className="text-right">Price / Sale</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && tickets.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : tickets.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    No seats match these filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                tickets.map((ticket) => (
+                  <Fragment key={ticket.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === ticket.id ? null : ticket.id)}
+                    >
+                      <TableCell>
+                        {expandedId === ticket.id ? (
+                          <ChevronDown className="w-4 h-4" />
+                        ) : (
+                          <ChevronRight className="w-4 h-4" />
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-[260px]">
+                        <div className="font-medium truncate">{ticket.event.artistName || ticket.event.eventName}</div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {ticket.event.eventDate ? formatDate(ticket.event.eventDate) : ""}
+                          {ticket.event.venue ? `${ticket.event.eventDate ? " · " : ""}${ticket.event.venue}` : ""}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm whitespace-nowrap">
+                        {ticket.section} / {ticket.row} / {ticket.seatNumber}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Badge variant="outline" className={STATUS_BADGES[ticket.status]}>
+                            {ticket.status.toLowerCase()}
+                          </Badge>
+                          {ticket.stuck && (
+                            <Badge variant="outline" className="bg-orange-100 text-orange-800 border-orange-200">
+                              stuck {ticket.purchasedDays}d
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{ticket.dashboardPoNumber || "-"}</TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">{formatDate(ticket.purchasedAt)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(ticket.cost)}</TableCell>
+                      <TableCell className="text-right">{renderStage(ticket)}</TableCell>
+                    </TableRow>
+                    {expandedId === ticket.id && (
+                      <TableRow>
+                        <TableCell colSpan={8} className="bg-muted/30">
+                          <TicketTimelineDetail ticketId={ticket.id} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
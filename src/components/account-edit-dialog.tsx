@@ -1,12 +1,13 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Loader2, User, CreditCard, Save, Trash2, Mail, Key, FileText, Phone, ShoppingCart, BarChart3 } from "lucide-react";
+import { Loader2, User, CreditCard, Save, Trash2, Mail, Key, FileText, Phone, ShoppingCart, BarChart3, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Dialog,
   DialogContent,
@@ -29,7 +30,7 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { formatDate, formatCurrency } from "@/lib/utils";
+import { formatDate, formatDateTime, formatCurrency } from "@/lib/utils";
 
 interface CardOption {
   id: string;
@@ -74,12 +75,28 @@ interface QueueInfo {
     eventDate: string | null;
     eventDateRaw: string | null;
   };
+  batch: {
+    id: string;
+    tag: string;
+  };
+}
+
+interface StatusChangeInfo {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  reason: string | null;
+  source: string;
+  actor: string | null;
+  override: boolean;
+  checkoutJobId: string | null;
+  createdAt: string;
 }
 
 interface AccountDetails {
   id: string;
   email: string;
-  password: string | null;
+  hasPassword: boolean;
   status: string;
   imapProvider: string | null;
   phoneNumber: string | null;
@@ -96,6 +113,7 @@ interface AccountDetails {
   }[];
   purchases: PurchaseInfo[];
   queuePositions: QueueInfo[];
+  statusHistory: StatusChangeInfo[];
 }
 
 interface AccountEditDialogProps {
@@ -130,6 +148,9 @@ export function AccountEditDialog({
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [status, setStatus] = useState("ACTIVE");
+  const [allowedStatuses, setAllowedStatuses] = useState<string[]>([]);
+  const [statusReason, setStatusReason] = useState("");
+  const [statusOverride, setStatusOverride] = useState(false);
   const [imapProvider, setImapProvider] = useState("");
   const [phoneNumber, setPhoneNumber] = useState("");
   const [notes, setNotes] = useState("");
@@ -160,8 +181,11 @@ export function AccountEditDialog({
 
       // Set form state
       setEmail(data.account.email);
-      setPassword(data.account.password || "");
+      setPassword(""); // Write-only - stored encrypted
       setStatus(data.account.status);
+      setAllowedStatuses(data.allowedStatuses || []);
+      setStatusReason("");
+      setStatusOverride(false);
       setImapProvider(data.account.imapProvider || "");
       setPhoneNumber(data.account.phoneNumber || "");
       setNotes(data.account.notes || "");
@@ -180,6 +204,9 @@ export function AccountEditDialog({
     }
   };
 
+  const statusChanged = account !== null && status !== account.status;
+  const needsOverride = statusChanged && !allowedStatuses.includes(status);
+
   const handleSave = async () => {
     if (!accountId) return;
 
@@ -190,8 +217,10 @@ export function AccountEditDialog({
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           email,
-          password: password || null,
-          status,
+          // Only send a new password; blank keeps the current one
+          ...(password ? { password } : {}),
+          // Status changes are checked against the lifecycle rules server-side
+          ...(statusChanged ? { status, statusReason: statusReason || null, statusOverride } : {}),
           imapProvider: imapProvider || null,
           phoneNumber: phoneNumber || null,
           notes: notes || null,
@@ -280,7 +309,7 @@ export function AccountEditDialog({
           </div>
         ) : account ? (
           <Tabs defaultValue="details" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="details" className="flex items-center gap-2">
                 <User className="h-4 w-4" />
                 Details
@@ -293,6 +322,10 @@ export function AccountEditDialog({
                 <BarChart3 className="h-4 w-4" />
                 Queues ({account.queuePositions.length})
               </TabsTrigger>
+              <TabsTrigger value="history" className="flex items-center gap-2">
+                <History className="h-4 w-4" />
+                History
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="details" className="space-y-6 mt-4">
@@ -317,7 +350,7 @@ export function AccountEditDialog({
                   <Input
                     value={password}
                     onChange={(e) => setPassword(e.target.value)}
-                    placeholder="(leave blank to keep current)"
+                    placeholder={account?.hasPassword ? "(leave blank to keep current)" : "(not set)"}
                   />
                 </div>
               </div>
@@ -341,6 +374,23 @@ export function AccountEditDialog({
                       ))}
                     </SelectContent>
                   </Select>
+                  {statusChanged && (
+                    <>
+                      <Input
+                        value={statusReason}
+                        onChange={(e) => setStatusReason(e.target.value)}
+                        placeholder={needsOverride ? "Reason (required for override)" : "Reason (optional)"}
+                      />
+                      {needsOverride && (
+                        <div className="flex items-center gap-2 text-sm">
+                          <Switch checked={statusOverride} onCheckedChange={setStatusOverride} />
+                          <span className="text-muted-foreground">
+                            Override: {account.status} → {status} isn&apos;t a normal transition
+                          </span>
+                        </div>
+                      )}
+                    </>
+                  )}
                 </div>
                 <div className="grid gap-2">
                   <Label>IMAP Provider</Label>
@@ -469,6 +519,9 @@ export function AccountEditDialog({
                       <div className="flex-1 min-w-0 mr-2">
                         <div className="font-medium text-sm truncate flex items-center gap-2">
                           {queue.event.artistName || queue.event.eventName}
+                          <Badge variant="outline" className="text-xs">
+                            {queue.batch.tag}
+                          </Badge>
                           {queue.excluded && (
                             <Badge variant="outline" className="text-xs text-muted-foreground">
                               Excluded
@@ -506,6 +559,46 @@ export function AccountEditDialog({
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="history" className="mt-4">
+              {account.statusHistory.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  No status changes recorded
+                </div>
+              ) : (
+                <div className="max-h-[400px] overflow-y-auto space-y-2">
+                  {account.statusHistory.map((change) => (
+                    <div key={change.id} className="p-3 bg-muted rounded-lg">
+                      <div className="flex items-center gap-2 text-sm">
+                        {change.fromStatus && (
+                          <>
+                            <Badge variant={statusColors[change.fromStatus] || "default"} className="text-xs">
+                              {change.fromStatus}
+                            </Badge>
+                            <span className="text-muted-foreground">→</span>
+                          </>
+                        )}
+                        <Badge variant={statusColors[change.toStatus] || "default"} className="text-xs">
+                          {change.toStatus}
+                        </Badge>
+                        {change.override && (
+                          <Badge variant="outline" className="text-xs">Override</Badge>
+                        )}
+                        <span className="ml-auto text-xs text-muted-foreground">
+                          {formatDateTime(change.createdAt)}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {change.source}
+                        {change.actor && ` • ${change.actor}`}
+                        {change.checkoutJobId && ` • job ${change.checkoutJobId}`}
+                      </div>
+                      {change.reason && <div className="text-sm mt-1">{change.reason}</div>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
           </Tabs>
         ) : (
           <div className="text-center py-8 text-muted-foreground">
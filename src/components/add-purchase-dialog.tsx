@@ -155,11 +155,11 @@ export function AddPurchaseDialog({
       const accountCards = data.cards?.filter((c: { account?: { id: string } }) => c.account?.id === accountId) || [];
 
       setCards(
-        accountCards.map((c: { id: string; profileName: string; cardType: string; cardNumber: string }) => ({
+        accountCards.map((c: { id: string; profileName: string; cardType: string; cardLast4: string | null }) => ({
           id: c.id,
           profileName: c.profileName,
           cardType: c.cardType,
-          last4: c.cardNumber.slice(-4),
+          last4: c.cardLast4,
         }))
       );
     } catch (error) {
@@ -43,10 +43,9 @@ interface CardDetails {
   id: string;
   profileName: string;
   cardType: string;
-  cardNumber: string;
+  cardLast4: string | null;
   expMonth: string;
   expYear: string;
-  cvv: string;
   billingName: string;
   billingPhone: string | null;
   billingAddress: string;
@@ -224,7 +223,7 @@ export function CardEditDialog({
             )}
           </DialogTitle>
           <DialogDescription>
-            {card?.cardType} ****{card?.cardNumber.slice(-4)}
+            {card?.cardType} ****{card?.cardLast4}
           </DialogDescription>
         </DialogHeader>
 
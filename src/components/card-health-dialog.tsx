@@ -0,0 +1,225 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+
+export interface CardHealthSummary {
+  checkoutStatus: string;
+  charges: number;
+  declines: number;
+  declineRate: number | null;
+  declines24h: number;
+  spend24h: number;
+  spend30d: number;
+  lastDeclineAt: string | null;
+  lastDeclineReason: string | null;
+  health: "healthy" | "at_risk" | "retired";
+  riskDetail: string | null;
+}
+
+interface CardEvent {
+  id: string;
+  type: "CHARGE" | "DECLINE" | "STATUS_CHANGE";
+  amount: number | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+  fromStatus: string | null;
+  toStatus: string | null;
+  reason: string | null;
+  source: string;
+  actor: string | null;
+  occurredAt: string;
+}
+
+export const HEALTH_BADGES: Record<CardHealthSummary["health"], { label: string; variant: "success" | "warning" | "destructive" }> = {
+  healthy: { label: "Healthy", variant: "success" },
+  at_risk: { label: "At Risk", variant: "warning" },
+  retired: { label: "Retired", variant: "destructive" },
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  checkout_job: "Checkout",
+  purchase: "Purchase",
+  rule: "Rule",
+  manual: "Manual",
+};
+
+interface CardHealthDialogProps {
+  cardId: string | null;
+  cardLabel?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged?: () => void; // Called after the card is reinstated
+}
+
+/**
+ * Card health ledger - charges, declines and status changes, with reinstatement
+ */
+export function CardHealthDialog({ cardId, cardLabel, open, onOpenChange, onChanged }: CardHealthDialogProps) {
+  const [summary, setSummary] = useState<CardHealthSummary | null>(null);
+  const [events, setEvents] = useState<CardEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reinstating, setReinstating] = useState(false);
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  const fetchHealth = useCallback(async () => {
+    if (!cardId) return;
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/cards/${cardId}/health`);
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      setSummary(data.summary);
+      setEvents(data.events);
+    } catch (error) {
+      console.error("Failed to fetch card health:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [cardId]);
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      fetchHealth();
+    }
+  }, [open, fetchHealth]);
+
+  const handleReinstate = async () => {
+    if (!cardId) return;
+    setReinstating(true);
+    try {
+      const response = await fetch(`/api/cards/${cardId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ checkoutStatus: "AVAILABLE", statusReason: reason.trim() || "Reinstated" }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      toast({ title: "Card reinstated", description: "Earlier declines no longer count towards the rules" });
+      await fetchHealth();
+      onChanged?.();
+    } catch (error) {
+      toast({ title: "Reinstate failed", description: String(error), variant: "destructive" });
+    } finally {
+      setReinstating(false);
+    }
+  };
+
+  const describeEvent = (event: CardEvent) => {
+    if (event.type === "CHARGE") return event.amount !== null ? formatCurrency(event.amount) : "-";
+    if (event.type === "DECLINE") return event.errorMessage || event.errorCode || "-";
+    return `${event.fromStatus} → ${event.toStatus}${event.reason ? ` - ${event.reason}` : ""}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Card Health{cardLabel ? ` - ${cardLabel}` : ""}</DialogTitle>
+          <DialogDescription>
+            Charges and declines from checkout jobs and purchases. Cards are retired automatically by the health rules.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : summary ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant={HEALTH_BADGES[summary.health].variant}>{HEALTH_BADGES[summary.health].label}</Badge>
+              <Badge variant="outline">{summary.checkoutStatus}</Badge>
+              <Badge variant="outline">
+                Decline rate {summary.declineRate !== null ? `${(summary.declineRate * 100).toFixed(1)}%` : "n/a"}
+                {" "}({summary.declines}/{summary.charges + summary.declines})
+              </Badge>
+              <Badge variant="outline">24h: {formatCurrency(summary.spend24h)}</Badge>
+              <Badge variant="outline">30d: {formatCurrency(summary.spend30d)}</Badge>
+              {summary.riskDetail && <Badge variant="secondary">{summary.riskDetail}</Badge>}
+            </div>
+            {summary.lastDeclineAt && (
+              <p className="text-sm text-muted-foreground">
+                Last decline {formatDateTime(summary.lastDeclineAt)}: {summary.lastDeclineReason}
+              </p>
+            )}
+
+            {summary.health === "retired" && (
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="Reason for reinstating"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="w-[280px]"
+                />
+                <Button size="sm" onClick={handleReinstate} disabled={reinstating}>
+                  {reinstating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                  Reinstate
+                </Button>
+              </div>
+            )}
+
+            {events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No charges or declines recorded for this card yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Detail</TableHead>
+                    <TableHead>Source</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {formatDateTime(event.occurredAt)}
+                      </TableCell>
+                      <TableCell>
+                        {event.type === "CHARGE" && <Badge variant="outline">Charge</Badge>}
+                        {event.type === "DECLINE" && <Badge variant="destructive">Decline</Badge>}
+                        {event.type === "STATUS_CHANGE" && <Badge variant="secondary">Status</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm">{describeEvent(event)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {SOURCE_LABELS[event.source] || event.source}
+                        {event.actor && ` (${event.actor})`}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Card not found.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,370 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StatsCard } from "@/components/stats-card";
+import { ShoppingCart, Target, TrendingDown, Users } from "lucide-react";
+
+interface ConversionBucket {
+  label: string;
+  accounts: number;
+  attempted: number;
+  converted: number;
+  successRate: number;
+  attemptSuccessRate: number;
+}
+
+interface ConversionSummary {
+  accounts: number;
+  attempted: number;
+  converted: number;
+  successRate: number;
+  cutoff: {
+    position: number | null;
+    percentile: number | null;
+    accountsBeyond: number;
+  };
+  buckets: ConversionBucket[];
+}
+
+interface ConversionData {
+  bucketSize: number;
+  overall: ConversionSummary;
+  byEvent: (ConversionSummary & { eventId: string; name: string; eventDate: string | null })[];
+  byBatchTag: (ConversionSummary & { tag: string; batches: number })[];
+  byTier: { tier: string; accounts: number; attempted: number; converted: number; successRate: number }[];
+  expected: {
+    batchId: string;
+    tag: string;
+    eventName: string;
+    accounts: number;
+    historyObservations: number;
+    expected: number;
+    byBucket: { label: string; accounts: number; expected: number }[];
+  } | null;
+  events: { id: string; name: string; eventDate: string | null }[];
+  batches: { id: string; tag: string; eventName: string; count: number }[];
+}
+
+function CutoffLabel({ cutoff }: { cutoff: ConversionSummary["cutoff"] }) {
+  if (cutoff.position === null) {
+    return <span className="text-muted-foreground">No conversions</span>;
+  }
+  return (
+    <span className="font-mono">
+      #{cutoff.position.toLocaleString()} ({cutoff.percentile}%)
+    </span>
+  );
+}
+
+export function ConversionFunnelPanel() {
+  const [data, setData] = useState<ConversionData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [eventId, setEventId] = useState("all");
+  const [batchTag, setBatchTag] = useState("all");
+  const [targetBatchId, setTargetBatchId] = useState("none");
+
+  const fetchConversion = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (eventId !== "all") params.set("eventId", eventId);
+      if (batchTag !== "all") params.set("batchTag", batchTag);
+      if (targetBatchId !== "none") params.set("targetBatchId", targetBatchId);
+
+      const response = await fetch(`/api/analytics/conversion?${params}`);
+      if (response.ok) {
+        setData(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch conversion funnel:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, batchTag, targetBatchId]);
+
+  useEffect(() => {
+    fetchConversion();
+  }, [fetchConversion]);
+
+  const tags = [...new Set(data?.batches.map(b => b.tag) || [])];
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap gap-4 items-center">
+            <div className="w-72">
+              <Select value={eventId} onValueChange={setEventId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All events" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Events</SelectItem>
+                  {data?.events.map((event) => (
+                    <SelectItem key={event.id} value={event.id}>
+                      {event.name}
+                      {event.eventDate && ` - ${event.eventDate}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-48">
+              <Select value={batchTag} onValueChange={setBatchTag}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All batches" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Batches</SelectItem>
+                  {tags.map((tag) => (
+                    <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-80">
+              <Select value={targetBatchId} onValueChange={setTargetBatchId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Estimate checkouts for..." />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No checkout estimate</SelectItem>
+                  {data?.batches.map((batch) => (
+                    <SelectItem key={batch.id} value={batch.id}>
+                      {batch.eventName} - {batch.tag} ({batch.count.toLocaleString()})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading && !data ? (
+        <div className="text-center py-8 text-muted-foreground">Loading conversion data...</div>
+      ) : !data || data.overall.accounts === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No queue positions match these filters</div>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            <StatsCard
+              title="Queue Observations"
+              value={data.overall.accounts.toLocaleString()}
+              icon={Users}
+            />
+            <StatsCard
+              title="Converted"
+              value={`${data.overall.converted.toLocaleString()} (${data.overall.successRate}%)`}
+              description={`${data.overall.attempted.toLocaleString()} attempted checkout`}
+              icon={ShoppingCart}
+            />
+            <StatsCard
+              title="Conversion Cutoff"
+              value={data.overall.cutoff.percentile !== null ? `${data.overall.cutoff.percentile}%` : "-"}
+              description={
+                data.overall.cutoff.position !== null
+                  ? `Worst converting position #${data.overall.cutoff.position.toLocaleString()}; ${data.overall.cutoff.accountsBeyond.toLocaleString()} beyond`
+                  : "No successful checkouts yet"
+              }
+              icon={TrendingDown}
+            />
+            <StatsCard
+              title="Expected Checkouts"
+              value={data.expected ? data.expected.expected.toLocaleString() : "-"}
+              description={
+                data.expected
+                  ? `${data.expected.eventName} - ${data.expected.tag} (${data.expected.accounts.toLocaleString()} accounts)`
+                  : "Pick a batch to estimate"
+              }
+              icon={Target}
+            />
+          </div>
+
+          {/* Success rate by percentile bucket */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Success Rate by Queue Percentile</CardTitle>
+              <CardDescription>
+                Share of queue observations in each {data.bucketSize}% bucket whose account bought tickets for the event
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={data.overall.buckets}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                  <YAxis unit="%" domain={[0, 100]} />
+                  <Tooltip formatter={(value) => `${value}%`} />
+                  <Legend />
+                  <Bar dataKey="successRate" name="Converted / queued" fill="hsl(142, 76%, 36%)" />
+                  <Bar dataKey="attemptSuccessRate" name="Converted / attempted" fill="hsl(217, 91%, 60%)" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            {/* By batch tag */}
+            <Card>
+              <CardHeader>
+                <CardTitle>By Batch</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tag</TableHead>
+                      <TableHead className="text-right">Queued</TableHead>
+                      <TableHead className="text-right">Converted</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TableHead>Cutoff</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.byBatchTag.map((row) => (
+                      <TableRow key={row.tag}>
+                        <TableCell>
+                          <Badge variant="outline">{row.tag}</Badge>
+                          <span className="text-xs text-muted-foreground ml-2">{row.batches} runs</span>
+                        </TableCell>
+                        <TableCell className="text-right">{row.accounts.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.converted.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono">{row.successRate}%</TableCell>
+                        <TableCell><CutoffLabel cutoff={row.cutoff} /></TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* By detected tier */}
+            <Card>
+              <CardHeader>
+                <CardTitle>By Tier</CardTitle>
+                <CardDescription>Tiers detected per batch from natural gaps in queue positions</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tier</TableHead>
+                      <TableHead className="text-right">Queued</TableHead>
+                      <TableHead className="text-right">Attempted</TableHead>
+                      <TableHead className="text-right">Converted</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.byTier.map((row) => (
+                      <TableRow key={row.tier}>
+                        <TableCell>{row.tier}</TableCell>
+                        <TableCell className="text-right">{row.accounts.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.attempted.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.converted.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono">{row.successRate}%</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* By event */}
+          <Card>
+            <CardHeader>
+              <CardTitle>By Event</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead className="text-right">Queued</TableHead>
+                    <TableHead className="text-right">Attempted</TableHead>
+                    <TableHead className="text-right">Converted</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead>Cutoff</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.byEvent.map((row) => (
+                    <TableRow key={row.eventId}>
+                      <TableCell className="truncate max-w-[260px]">
+                        {row.name}
+                        {row.eventDate && (
+                          <span className="text-xs text-muted-foreground ml-2">{row.eventDate}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{row.accounts.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{row.attempted.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{row.converted.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">{row.successRate}%</TableCell>
+                      <TableCell><CutoffLabel cutoff={row.cutoff} /></TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Expected checkouts breakdown */}
+          {data.expected && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Expected Checkouts - {data.expected.eventName} ({data.expected.tag})</CardTitle>
+                <CardDescription>
+                  Based on {data.expected.historyObservations.toLocaleString()} observations from other events.
+                  Accounts past the historical cutoff are expected to convert at 0%.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={250}>
+                  <BarChart data={data.expected.byBucket}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="accounts" name="Accounts" fill="hsl(217, 91%, 60%)" />
+                    <Bar dataKey="expected" name="Expected checkouts" fill="hsl(142, 76%, 36%)" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
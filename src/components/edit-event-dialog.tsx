@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Pencil, Trash2, RefreshCw, CheckCircle2, AlertCircle, MapPin } from "lucide-react";
+import { Pencil, Trash2, RefreshCw, CheckCircle2, AlertCircle, MapPin, TrendingDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -26,6 +26,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { VenueMap, VenueZoneData } from "@/components/venue-map";
 import { ZoneFilterPanel, ZoneOption } from "@/components/zone-filter-panel";
+import { EventPriceChart } from "@/components/event-price-chart";
 
 interface Event {
   id: string;
@@ -385,12 +386,12 @@ export function EditEventDialog({ event, onUpdate }: EditEventDialogProps) {
           <DialogHeader>
             <DialogTitle>Edit Event</DialogTitle>
             <DialogDescription>
-              Update event details, sync from Ticketmaster, or view venue zones.
+              Update event details, sync from Ticketmaster, or view venue zones and price history.
             </DialogDescription>
           </DialogHeader>
           
           <Tabs defaultValue="details" className="mt-4">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="details">Event Details</TabsTrigger>
               <TabsTrigger value="zones" className="flex items-center gap-2">
                 <MapPin className="h-4 w-4" />
@@ -401,6 +402,10 @@ export function EditEventDialog({ event, onUpdate }: EditEventDialogProps) {
                   </span>
                 ) : null}
               </TabsTrigger>
+              <TabsTrigger value="history" className="flex items-center gap-2">
+                <TrendingDown className="h-4 w-4" />
+                Price History
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="details" className="space-y-4 py-4">
@@ -631,6 +636,10 @@ export function EditEventDialog({ event, onUpdate }: EditEventDialogProps) {
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="history" className="py-4">
+              <EventPriceChart eventId={event.id} />
+            </TabsContent>
           </Tabs>
           
           <DialogFooter className="gap-2 mt-4">
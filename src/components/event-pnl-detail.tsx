@@ -0,0 +1,251 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+export interface PnlMetrics {
+  purchasedTickets: number;
+  purchasedCost: number;
+  listedTickets: number;
+  listedValue: number;
+  listedCost: number;
+  unrealizedProfit: number;
+  soldTickets: number;
+  awaitingInvoiceTickets: number;
+  revenue: number;
+  fees: number;
+  soldCost: number;
+  realizedProfit: number;
+  netCash: number;
+  roi: number | null;
+  sellThrough: number | null;
+}
+
+interface ZonePnl extends PnlMetrics {
+  zone: string;
+}
+
+interface PnlTicket {
+  id: string;
+  section: string;
+  row: string;
+  seatNumber: number;
+  zone: string;
+  status: "PURCHASED" | "LISTED" | "SOLD" | "CANCELLED";
+  cost: number;
+  listPrice: number | null;
+  revenue: number | null;
+  profit: number | null;
+  dashboardPoNumber: string | null;
+  invoiceNumber: number | null;
+  saleDate: string | null;
+}
+
+interface EventPnlResponse {
+  pnl: PnlMetrics;
+  zones: ZonePnl[];
+  tickets: PnlTicket[];
+}
+
+const TICKET_STATUS_VARIANTS: Record<PnlTicket["status"], "success" | "warning" | "secondary" | "destructive"> = {
+  PURCHASED: "secondary",
+  LISTED: "warning",
+  SOLD: "success",
+  CANCELLED: "destructive",
+};
+
+export function profitClass(value: number | null): string {
+  if (value === null || value === 0) return "";
+  return value > 0 ? "text-green-600" : "text-red-500";
+}
+
+export function formatPercent(value: number | null): string {
+  return value === null ? "-" : `${value.toFixed(1)}%`;
+}
+
+interface EventPnlDetailProps {
+  eventId: string;
+}
+
+/**
+ * Per-zone P&L and ticket drill-down for one event
+ */
+export function EventPnlDetail({ eventId }: EventPnlDetailProps) {
+  const [data, setData] = useState<EventPnlResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [zoneFilter, setZoneFilter] = useState("all");
+
+  const fetchDetail = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/events/${eventId}/pnl`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setData(result);
+    } catch (error) {
+      console.error("Failed to fetch event P&L:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchDetail();
+  }, [fetchDetail]);
+
+  if (loading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+  if (!data) return null;
+
+  const tickets = zoneFilter === "all" ? data.tickets : data.tickets.filter((t) => t.zone === zoneFilter);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-sm font-medium mb-2">By zone</p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Zone</TableHead>
+              <TableHead className="text-right">Bought</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead className="text-right">Listed</TableHead>
+              <TableHead className="text-right">Unrealized</TableHead>
+              <TableHead className="text-right">Sold</TableHead>
+              <TableHead className="text-right">Revenue</TableHead>
+              <TableHead className="text-right">Fees</TableHead>
+              <TableHead className="text-right">Profit</TableHead>
+              <TableHead className="text-right">ROI</TableHead>
+              <TableHead className="text-right">Sell-Through</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.zones.map((zone) => (
+              <TableRow
+                key={zone.zone}
+                className="cursor-pointer"
+                onClick={() => setZoneFilter(zoneFilter === zone.zone ? "all" : zone.zone)}
+              >
+                <TableCell>
+                  <Badge variant={zoneFilter === zone.zone ? "default" : "outline"}>{zone.zone}</Badge>
+                </TableCell>
+                <TableCell className="text-right">{zone.purchasedTickets}</TableCell>
+                <TableCell className="text-right">{formatCurrency(zone.purchasedCost)}</TableCell>
+                <TableCell className="text-right">{zone.listedTickets}</TableCell>
+                <TableCell className={`text-right ${profitClass(zone.unrealizedProfit)}`}>
+                  {formatCurrency(zone.unrealizedProfit)}
+                </TableCell>
+                <TableCell className="text-right">{zone.soldTickets}</TableCell>
+                <TableCell className="text-right">{formatCurrency(zone.revenue)}</TableCell>
+                <TableCell className="text-right text-muted-foreground">{formatCurrency(zone.fees)}</TableCell>
+                <TableCell className={`text-right font-medium ${profitClass(zone.realizedProfit)}`}>
+                  {formatCurrency(zone.realizedProfit)}
+                </TableCell>
+                <TableCell className={`text-right ${profitClass(zone.roi)}`}>{formatPercent(zone.roi)}</TableCell>
+                <TableCell className="text-right">{formatPercent(zone.sellThrough)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-sm font-medium">
+            Tickets <span className="text-muted-foreground font-normal">({tickets.length})</span>
+          </p>
+          <div className="flex items-center gap-2">
+            <Select value={zoneFilter} onValueChange={setZoneFilter}>
+              <SelectTrigger className="w-[160px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All zones</SelectItem>
+                {data.zones.map((zone) => (
+                  <SelectItem key={zone.zone} value={zone.zone}>
+                    {zone.zone}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => (window.location.href = `/api/export/pnl?eventId=${eventId}`)}
+            >
+              <Download className="mr-2 h-3 w-3" />
+              CSV
+            </Button>
+          </div>
+        </div>
+        {tickets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tickets recorded for this event.</p>
+        ) : (
+          <div className="max-h-[400px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Seat</TableHead>
+                  <TableHead>Zone</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">List Price</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                  <TableHead className="text-right">Profit</TableHead>
+                  <TableHead>PO</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Sold</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tickets.map((ticket) => (
+                  <TableRow key={ticket.id}>
+                    <TableCell className="font-mono text-sm whitespace-nowrap">
+                      {ticket.section} / {ticket.row} / {ticket.seatNumber}
+                    </TableCell>
+                    <TableCell className="text-sm">{ticket.zone}</TableCell>
+                    <TableCell>
+                      <Badge variant={TICKET_STATUS_VARIANTS[ticket.status]}>{ticket.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(ticket.cost)}</TableCell>
+                    <TableCell className="text-right">
+                      {ticket.listPrice !== null ? formatCurrency(ticket.listPrice) : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {ticket.revenue !== null ? formatCurrency(ticket.revenue) : "-"}
+                    </TableCell>
+                    <TableCell className={`text-right ${profitClass(ticket.profit)}`}>
+                      {ticket.profit !== null ? formatCurrency(ticket.profit) : "-"}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{ticket.dashboardPoNumber || "-"}</TableCell>
+                    <TableCell className="font-mono text-xs">{ticket.invoiceNumber ?? "-"}</TableCell>
+                    <TableCell className="text-sm">{ticket.saleDate ? formatDate(ticket.saleDate) : "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+
+interface PriceHistorySeries {
+  kind: "get_in" | "zone" | "section";
+  source: string;
+  zoneName: string | null;
+  sectionName: string | null;
+  points: Array<{ observedAt: string; price: number }>;
+}
+
+interface PriceHistoryData {
+  eventDate: string | null;
+  series: PriceHistorySeries[];
+}
+
+interface EventPriceChartProps {
+  eventId: string;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  vividseats: "Vivid Seats",
+  stubhub: "StubHub",
+  seatgeek: "SeatGeek",
+  tickpick: "TickPick",
+};
+
+const LINE_COLORS = [
+  "hsl(217, 91%, 60%)", // Blue
+  "hsl(142, 76%, 36%)", // Green
+  "hsl(38, 92%, 50%)",  // Amber
+  "hsl(280, 65%, 60%)", // Purple
+  "hsl(0, 72%, 51%)",   // Red
+  "hsl(190, 80%, 42%)", // Teal
+];
+
+const GET_IN_KEY = "Get-In";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function EventPriceChart({ eventId }: EventPriceChartProps) {
+  const [loading, setLoading] = useState(true);
+  const [data, setData] = useState<PriceHistoryData | null>(null);
+  const [source, setSource] = useState("vividseats");
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/events/${eventId}/price-history`);
+        const result = await response.json();
+        setData(result.success ? result : null);
+      } catch (error) {
+        console.error("Failed to fetch price history:", error);
+        setData(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchHistory();
+  }, [eventId]);
+
+  const sources = useMemo(
+    () => [...new Set(data?.series.map((s) => s.source) || [])],
+    [data]
+  );
+
+  // One row per observation time, one column per line
+  const { rows, lineKeys } = useMemo(() => {
+    const byTime = new Map<number, Record<string, number>>();
+    const keys: string[] = [];
+
+    for (const series of data?.series || []) {
+      if (series.source !== source || series.kind === "section") continue;
+      const key = series.kind === "get_in" ? GET_IN_KEY : series.zoneName || "Unknown";
+      if (!keys.includes(key)) keys.push(key);
+
+      for (const point of series.points) {
+        const t = new Date(point.observedAt).getTime();
+        const row = byTime.get(t) || { t };
+        row[key] = point.price;
+        byTime.set(t, row);
+      }
+    }
+
+    // Get-In first so it keeps the same color
+    keys.sort((a, b) => (a === GET_IN_KEY ? -1 : b === GET_IN_KEY ? 1 : a.localeCompare(b)));
+
+    return {
+      rows: [...byTime.values()].sort((a, b) => a.t - b.t),
+      lineKeys: keys,
+    };
+  }, [data, source]);
+
+  const eventTime = data?.eventDate ? new Date(data.eventDate).getTime() : null;
+
+  // Days before the show when the event date is known, otherwise the date
+  const formatTick = (t: number) => {
+    if (eventTime) {
+      const days = Math.round((eventTime - t) / DAY_MS);
+      return days > 0 ? `${days}d out` : days === 0 ? "Show day" : `${-days}d after`;
+    }
+    return new Date(t).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!data || rows.length === 0) {
+    return (
+      <p className="text-center py-8 text-muted-foreground">
+        No price history yet. Prices are recorded on every sync.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {sources.length > 1 && (
+        <Select value={source} onValueChange={setSource}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sources.map((s) => (
+              <SelectItem key={s} value={s}>{SOURCE_LABELS[s] || s}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <div className="h-[300px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={rows} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" vertical={false} />
+            <XAxis
+              dataKey="t"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={formatTick}
+              tick={{ fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis
+              tick={{ fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value) => `$${value}`}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "hsl(var(--background))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "var(--radius)",
+              }}
+              formatter={(value: number, name: string) => [formatCurrency(value), name]}
+              labelFormatter={(t) => `${formatDateTime(new Date(t as number))} (${formatTick(t as number)})`}
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {lineKeys.map((key, i) => (
+              <Line
+                key={key}
+                type="stepAfter"
+                dataKey={key}
+                stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                strokeWidth={key === GET_IN_KEY ? 2.5 : 1.5}
+                dot={false}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
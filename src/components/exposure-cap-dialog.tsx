@@ -0,0 +1,276 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ExposureRow {
+  key: string;
+  label: string;
+  tickets: number;
+  cost: number;
+  utilization: number;
+}
+
+export interface ExposureCap {
+  id: string;
+  scope: "EVENT" | "ARTIST" | "ACCOUNT" | "CARD";
+  target: string | null;
+  maxTickets: number | null;
+  maxCost: number | null;
+  windowDays: number | null;
+  isEnabled: boolean;
+  notes: string | null;
+  description: string;
+  overCount: number;
+  exposures: ExposureRow[];
+}
+
+interface EventOption {
+  id: string;
+  tmEventId: string;
+  eventName: string;
+  artistName: string | null;
+}
+
+interface ExposureCapDialogProps {
+  cap: ExposureCap | null; // null = create
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+const SCOPE_HELP: Record<ExposureCap["scope"], { label: string; targetLabel: string; placeholder: string }> = {
+  EVENT: { label: "Per event", targetLabel: "Event", placeholder: "" },
+  ARTIST: { label: "Per artist", targetLabel: "Artist name", placeholder: "Leave empty for every artist" },
+  ACCOUNT: { label: "Per account", targetLabel: "Account ID", placeholder: "Leave empty for every account" },
+  CARD: { label: "Per card", targetLabel: "Card ID", placeholder: "Leave empty for every card" },
+};
+
+export function ExposureCapDialog({
+  cap,
+  open,
+  onOpenChange,
+  onSaved,
+}: ExposureCapDialogProps) {
+  const [saving, setSaving] = useState(false);
+  const [events, setEvents] = useState<EventOption[]>([]);
+
+  // Form state
+  const [scope, setScope] = useState<ExposureCap["scope"]>("EVENT");
+  const [target, setTarget] = useState("");
+  const [maxTickets, setMaxTickets] = useState("");
+  const [maxCost, setMaxCost] = useState("");
+  const [windowDays, setWindowDays] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setScope(cap?.scope || "EVENT");
+    setTarget(cap?.target || "");
+    setMaxTickets(cap?.maxTickets?.toString() || "");
+    setMaxCost(cap?.maxCost?.toString() || "");
+    setWindowDays(cap?.windowDays?.toString() || "");
+    setNotes(cap?.notes || "");
+
+    const fetchEvents = async () => {
+      try {
+        const response = await fetch("/api/events?limit=100&sortBy=eventDate&sortOrder=asc");
+        const data = await response.json();
+        setEvents(data.events || []);
+      } catch (error) {
+        console.error("Failed to fetch events:", error);
+      }
+    };
+    fetchEvents();
+  }, [open, cap]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const payload = {
+        scope,
+        target: target.trim() || null,
+        maxTickets: maxTickets ? parseInt(maxTickets, 10) : null,
+        maxCost: maxCost ? parseFloat(maxCost) : null,
+        windowDays: windowDays ? parseInt(windowDays, 10) : null,
+        notes: notes.trim() || null,
+      };
+
+      const response = await fetch(
+        cap ? `/api/exposure/caps/${cap.id}` : "/api/exposure/caps",
+        {
+          method: cap ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to save cap");
+      }
+
+      toast({
+        title: cap ? "Cap Updated" : "Cap Created",
+        description: SCOPE_HELP[scope].label,
+      });
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save cap",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const help = SCOPE_HELP[scope];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{cap ? "Edit Exposure Cap" : "New Exposure Cap"}</DialogTitle>
+          <DialogDescription>
+            Counts successful purchases plus queued, running and unimported checkout jobs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Scope</Label>
+            <Select
+              value={scope}
+              onValueChange={(value) => {
+                setScope(value as ExposureCap["scope"]);
+                setTarget("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SCOPE_HELP).map(([key, h]) => (
+                  <SelectItem key={key} value={key}>
+                    {h.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cap-target">{help.targetLabel}</Label>
+            {scope === "EVENT" ? (
+              <Select value={target || "all"} onValueChange={(value) => setTarget(value === "all" ? "" : value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Every event</SelectItem>
+                  {target && !events.some((e) => e.tmEventId === target) && (
+                    <SelectItem value={target}>{target}</SelectItem>
+                  )}
+                  {events.map((event) => (
+                    <SelectItem key={event.id} value={event.tmEventId}>
+                      {event.artistName || event.eventName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id="cap-target"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                placeholder={help.placeholder}
+              />
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="cap-tickets">Max tickets</Label>
+              <Input
+                id="cap-tickets"
+                type="number"
+                value={maxTickets}
+                onChange={(e) => setMaxTickets(e.target.value)}
+                placeholder="8"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cap-cost">Max cost ($)</Label>
+              <Input
+                id="cap-cost"
+                type="number"
+                step="0.01"
+                value={maxCost}
+                onChange={(e) => setMaxCost(e.target.value)}
+                placeholder="2000"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cap-window">Window (days)</Label>
+              <Input
+                id="cap-window"
+                type="number"
+                value={windowDays}
+                onChange={(e) => setWindowDays(e.target.value)}
+                placeholder="All time"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cap-notes">Notes</Label>
+            <Input
+              id="cap-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || (!maxTickets && !maxCost)}>
+            {saving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
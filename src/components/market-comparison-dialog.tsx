@@ -0,0 +1,286 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, RefreshCw, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+
+interface SourceZonePrice {
+  source: string;
+  minPrice: number;
+  listingCount: number | null;
+  url: string | null;
+  scrapedAt: string;
+}
+
+interface ZoneComparison {
+  zoneName: string;
+  prices: SourceZonePrice[];
+  cheapest: SourceZonePrice;
+  spread: number;
+  spreadPercent: number;
+}
+
+interface ComparisonData {
+  sources: Array<{ source: string; label: string; getInPrice: number; zoneCount: number; scrapedAt: string }>;
+  zones: ZoneComparison[];
+  availableSources: Array<{ id: string; label: string; usesFixtures: boolean }>;
+}
+
+interface SyncResult {
+  source: string;
+  error: string | null;
+}
+
+interface MarketComparisonDialogProps {
+  eventId: string | null;
+  title?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdate?: () => void;
+}
+
+export function MarketComparisonDialog({
+  eventId,
+  title,
+  open,
+  onOpenChange,
+  onUpdate,
+}: MarketComparisonDialogProps) {
+  const [loading, setLoading] = useState(true);
+  const [data, setData] = useState<ComparisonData | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [fixtureSource, setFixtureSource] = useState("stubhub");
+  const [fixtureUrl, setFixtureUrl] = useState("");
+  const [fixtureContent, setFixtureContent] = useState("");
+  const { toast } = useToast();
+
+  const fetchComparison = useCallback(async () => {
+    if (!eventId) return;
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/events/${eventId}/price-sources`);
+      const result = await response.json();
+      setData(result.success ? result : null);
+    } catch (error) {
+      console.error("Failed to fetch market comparison:", error);
+      setData(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    if (open) fetchComparison();
+  }, [open, fetchComparison]);
+
+  const labelFor = (source: string) =>
+    data?.availableSources.find((s) => s.id === source)?.label || source;
+
+  const runSync = async (body: Record<string, unknown>) => {
+    if (!eventId) return;
+    setRefreshing(true);
+    try {
+      const response = await fetch(`/api/events/${eventId}/price-sources`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Sync failed");
+      }
+
+      const failed = (result.results as SyncResult[]).filter((r) => r.error);
+      toast({
+        title: result.success ? "Market prices updated" : "No prices found",
+        description: failed.map((r) => `${labelFor(r.source)}: ${r.error}`).join("\n") || undefined,
+        variant: result.success ? "default" : "destructive",
+      });
+      await fetchComparison();
+      onUpdate?.();
+      if (body.content) setFixtureContent("");
+    } catch (error) {
+      toast({
+        title: "Sync failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  // One column per market, cheapest get-in first
+  const sourceColumns = data?.sources.map((s) => s.source) || [];
+  const fixtureSources = data?.availableSources.filter((s) => s.usesFixtures) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Market Comparison</DialogTitle>
+          <DialogDescription>{title}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !data ? (
+          <p className="text-center py-8 text-muted-foreground">Failed to load market prices</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex flex-wrap gap-6 text-sm">
+                {data.sources.length === 0 ? (
+                  <p className="text-muted-foreground">No market prices yet</p>
+                ) : (
+                  data.sources.map((s) => (
+                    <div key={s.source}>
+                      <p className="text-muted-foreground">{s.label}</p>
+                      <p className="font-medium">{formatCurrency(s.getInPrice)}</p>
+                      <p className="text-xs text-muted-foreground">{formatDateTime(s.scrapedAt)}</p>
+                    </div>
+                  ))
+                )}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runSync({})}
+                disabled={refreshing}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? "animate-spin" : ""}`} />
+                Refresh All
+              </Button>
+            </div>
+
+            {data.zones.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Zone</TableHead>
+                    {sourceColumns.map((source) => (
+                      <TableHead key={source} className="text-right">{labelFor(source)}</TableHead>
+                    ))}
+                    <TableHead>Cheapest</TableHead>
+                    <TableHead className="text-right">Spread</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.zones.map((zone) => (
+                    <TableRow key={zone.zoneName}>
+                      <TableCell className="font-medium">{zone.zoneName}</TableCell>
+                      {sourceColumns.map((source) => {
+                        const price = zone.prices.find((p) => p.source === source);
+                        const isCheapest = zone.prices.length > 1 && price?.source === zone.cheapest.source;
+                        return (
+                          <TableCell
+                            key={source}
+                            className={`text-right ${isCheapest ? "font-semibold text-green-600" : ""}`}
+                          >
+                            {price ? (
+                              <span title={price.listingCount !== null ? `${price.listingCount} listings` : undefined}>
+                                {formatCurrency(price.minPrice)}
+                              </span>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell>
+                        <Badge variant="outline">{labelFor(zone.cheapest.source)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {zone.prices.length > 1 ? (
+                          <>
+                            {formatCurrency(zone.spread)}
+                            <span className="text-xs text-muted-foreground ml-1">
+                              ({zone.spreadPercent.toFixed(0)}%)
+                            </span>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {/* Import a saved marketplace page or API response */}
+            {fixtureSources.length > 0 && (
+              <div className="space-y-2 border-t pt-4">
+                <h3 className="text-sm font-medium">Import saved page</h3>
+                <p className="text-xs text-muted-foreground">
+                  Paste the HTML of an event page or the JSON of its listings response.
+                </p>
+                <div className="flex gap-2">
+                  <Select value={fixtureSource} onValueChange={setFixtureSource}>
+                    <SelectTrigger className="w-[160px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {fixtureSources.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>{s.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Event page URL (optional)"
+                    value={fixtureUrl}
+                    onChange={(e) => setFixtureUrl(e.target.value)}
+                  />
+                </div>
+                <Textarea
+                  rows={5}
+                  className="font-mono text-xs"
+                  placeholder="<html>... or { ... }"
+                  value={fixtureContent}
+                  onChange={(e) => setFixtureContent(e.target.value)}
+                />
+                <Button
+                  size="sm"
+                  onClick={() => runSync({ source: fixtureSource, content: fixtureContent, url: fixtureUrl || undefined })}
+                  disabled={refreshing || !fixtureContent.trim()}
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Check, Loader2, RefreshCw, ShieldAlert, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateTime } from "@/lib/utils";
+
+interface OutlierReason {
+  kind: "LATE_ENTRY" | "STATISTICAL_OUTLIER" | "DETACHED_TAIL";
+  detail: string;
+}
+
+interface OutlierFlag {
+  id: string;
+  email: string;
+  eventName: string;
+  batchTag: string;
+  position: number;
+  testedAt: string;
+  reasons: OutlierReason[];
+  suggestedReason: string;
+  score: number;
+}
+
+const KIND_LABELS: Record<OutlierReason["kind"], string> = {
+  LATE_ENTRY: "Late entry",
+  STATISTICAL_OUTLIER: "Outlier",
+  DETACHED_TAIL: "Detached tail",
+};
+
+interface OutlierReviewPanelProps {
+  eventId?: string;   // All events if omitted
+  batchId?: string;
+  onChange?: () => void; // Called after flags are applied (positions excluded)
+}
+
+/**
+ * Review queue for positions flagged by automatic outlier detection
+ */
+export function OutlierReviewPanel({ eventId, batchId, onChange }: OutlierReviewPanelProps) {
+  const [flags, setFlags] = useState<OutlierFlag[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reasonOverride, setReasonOverride] = useState("");
+  const { toast } = useToast();
+
+  const fetchFlags = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ status: "PENDING", limit: "200" });
+      if (eventId) params.set("eventId", eventId);
+      if (batchId) params.set("batchId", batchId);
+      const response = await fetch(`/api/queues/outliers?${params}`);
+      const data = await response.json();
+      setFlags(data.flags || []);
+      setTotal(data.pagination?.total || 0);
+      setSelected(new Set());
+    } catch (error) {
+      console.error("Failed to fetch outlier flags:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, batchId]);
+
+  useEffect(() => {
+    fetchFlags();
+  }, [fetchFlags]);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const review = async (action: "apply" | "dismiss") => {
+    if (selected.size === 0) return;
+    setWorking(true);
+    try {
+      const response = await fetch("/api/queues/outliers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          flagIds: [...selected],
+          ...(action === "apply" && reasonOverride.trim() && { reason: reasonOverride.trim() }),
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      toast({ title: data.message });
+      await fetchFlags();
+      if (action === "apply") onChange?.();
+    } catch (error) {
+      toast({ title: "Review failed", description: String(error), variant: "destructive" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const runDetection = async () => {
+    setWorking(true);
+    try {
+      const response = await fetch("/api/queues/outliers/detect", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(batchId ? { batchId } : { eventId }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.details || data.error);
+
+      toast({ title: "Detection complete", description: data.message });
+      await fetchFlags();
+    } catch (error) {
+      toast({ title: "Detection failed", description: String(error), variant: "destructive" });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Outlier Review
+              {total > 0 && <Badge variant="destructive">{total}</Badge>}
+            </CardTitle>
+            <CardDescription>
+              Late entries and statistical outliers flagged after import. Nothing is excluded until applied.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={runDetection} disabled={working}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Re-run Detection
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : flags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No flagged positions awaiting review.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">{selected.size} selected</span>
+              <Input
+                placeholder="Reason (default: suggested)"
+                value={reasonOverride}
+                onChange={(e) => setReasonOverride(e.target.value)}
+                className="w-[240px]"
+              />
+              <Button size="sm" onClick={() => review("apply")} disabled={working || selected.size === 0}>
+                {working ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                Exclude
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => review("dismiss")}
+                disabled={working || selected.size === 0}
+              >
+                <X className="mr-2 h-4 w-4" />
+                Dismiss
+              </Button>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40px]">
+                    <Checkbox
+                      checked={flags.every(f => selected.has(f.id))}
+                      onCheckedChange={(checked) => {
+                        setSelected(checked ? new Set(flags.map(f => f.id)) : new Set());
+                      }}
+                    />
+                  </TableHead>
+                  <TableHead>Account</TableHead>
+                  {!eventId && <TableHead>Event</TableHead>}
+                  <TableHead>Batch</TableHead>
+                  <TableHead className="text-right">Position</TableHead>
+                  <TableHead>Tested</TableHead>
+                  <TableHead>Signals</TableHead>
+                  <TableHead>Suggested Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {flags.map((flag) => (
+                  <TableRow key={flag.id} className={selected.has(flag.id) ? "bg-muted/50" : ""}>
+                    <TableCell>
+                      <Checkbox checked={selected.has(flag.id)} onCheckedChange={() => toggle(flag.id)} />
+                    </TableCell>
+                    <TableCell className="max-w-[200px] truncate">{flag.email}</TableCell>
+                    {!eventId && <TableCell className="max-w-[180px] truncate">{flag.eventName}</TableCell>}
+                    <TableCell>
+                      <Badge variant="outline">{flag.batchTag}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">#{flag.position.toLocaleString()}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{formatDateTime(flag.testedAt)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {flag.reasons.map((reason) => (
+                          <Badge key={reason.kind} variant="secondary" title={reason.detail}>
+                            {KIND_LABELS[reason.kind]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{flag.suggestedReason}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {total > flags.length && (
+              <p className="text-xs text-muted-foreground">
+                Showing {flags.length} of {total} - review these to see the rest.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
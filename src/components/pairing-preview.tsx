@@ -0,0 +1,170 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { CreditCard, Link2, Loader2, RefreshCw, UserCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+
+interface PairRecommendation {
+  accountId: string;
+  email: string;
+  accountScore: number;
+  cardId: string;
+  cardLast4: string | null;
+  cardType: string;
+  billingState: string;
+  cardLinked: boolean;
+  cardScore: number;
+  cardHealth: "healthy" | "at_risk";
+  cardEventUses: number;
+  score: number;
+  notes: string[];
+}
+
+interface PairingResponse {
+  recommendations: PairRecommendation[];
+  excluded: {
+    accountsBusy: number;
+    cardsWrongState: number;
+    cardsAtEventCap: number;
+    accountsAtCap: number;
+    cardsAtCap: number;
+  };
+  constraints: { allowedStates: string[] | null; maxCardUsesPerEvent: number };
+}
+
+interface PairingPreviewProps {
+  jobId: string;
+  onClaimed?: () => void;
+}
+
+/**
+ * Recommended account/card pairs for a queued job, with manual assignment
+ */
+export function PairingPreview({ jobId, onClaimed }: PairingPreviewProps) {
+  const [data, setData] = useState<PairingResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [claiming, setClaiming] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchPairs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/checkout/pairing?jobId=${jobId}`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setData(result);
+    } catch (error) {
+      console.error("Failed to fetch pairing recommendations:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    fetchPairs();
+  }, [fetchPairs]);
+
+  const handleAssign = async (pair: PairRecommendation) => {
+    setClaiming(pair.cardId);
+    try {
+      const response = await fetch("/api/checkout/pairing", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jobId, accountId: pair.accountId, cardId: pair.cardId }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      toast({ title: "Pair assigned", description: `${pair.email} + ****${pair.cardLast4 || "????"}` });
+      onClaimed?.();
+    } catch (error) {
+      toast({ title: "Assign failed", description: String(error), variant: "destructive" });
+      fetchPairs();
+    } finally {
+      setClaiming(null);
+    }
+  };
+
+  if (loading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+  if (!data) return null;
+
+  const { excluded, constraints } = data;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">Recommended pairs</span>
+        {constraints.allowedStates && <Badge variant="outline">Billing: {constraints.allowedStates.join(", ")}</Badge>}
+        <Badge variant="outline">Max {constraints.maxCardUsesPerEvent}/card/event</Badge>
+        {excluded.accountsBusy > 0 && <span>{excluded.accountsBusy} accounts busy on this event</span>}
+        {excluded.cardsWrongState > 0 && <span>{excluded.cardsWrongState} cards outside allowed states</span>}
+        {excluded.cardsAtEventCap > 0 && <span>{excluded.cardsAtEventCap} cards at event cap</span>}
+        {excluded.accountsAtCap > 0 && <span>{excluded.accountsAtCap} accounts at exposure cap</span>}
+        {excluded.cardsAtCap > 0 && <span>{excluded.cardsAtCap} cards at exposure cap</span>}
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={fetchPairs} title="Refresh">
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+      {data.recommendations.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No eligible account/card pairs.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Account</TableHead>
+              <TableHead>Card</TableHead>
+              <TableHead className="text-right">Account Score</TableHead>
+              <TableHead className="text-right">Card Score</TableHead>
+              <TableHead className="text-right">Pair Score</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead className="w-20"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.recommendations.map((pair) => (
+              <TableRow key={`${pair.accountId}:${pair.cardId}`}>
+                <TableCell className="max-w-[200px] truncate">{pair.email}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <CreditCard className="w-3 h-3" />
+                    ****{pair.cardLast4 || "????"}
+                    <span className="text-xs text-muted-foreground">{pair.billingState}</span>
+                    {pair.cardLinked && <Link2 className="w-3 h-3 text-muted-foreground" />}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right font-mono text-sm">{pair.accountScore.toFixed(1)}</TableCell>
+                <TableCell className="text-right font-mono text-sm">
+                  <span className={pair.cardHealth === "at_risk" ? "text-yellow-600" : ""}>{pair.cardScore.toFixed(1)}</span>
+                </TableCell>
+                <TableCell className="text-right font-mono text-sm font-medium">{pair.score.toFixed(1)}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">{pair.notes.join(" · ") || "-"}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleAssign(pair)}
+                    disabled={claiming !== null}
+                  >
+                    {claiming === pair.cardId ? <Loader2 className="w-3 h-3 animate-spin" /> : <UserCheck className="w-3 h-3" />}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2, ArrowRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+
+interface PriceChange {
+  id: string;
+  oldPrice: number;
+  newPrice: number;
+  source: string;
+  reason: string | null;
+  rule: { id: string; name: string } | null;
+  createdAt: string;
+}
+
+interface PriceSegment {
+  price: number;
+  from: string;
+  to: string | null;
+  durationMs: number;
+  source: string | null;
+}
+
+interface PriceHistoryData {
+  changes: PriceChange[];
+  segments: PriceSegment[];
+  listedAt: string;
+  lastSoldAt: string | null;
+  salesCount: number;
+}
+
+interface PriceHistoryDialogProps {
+  listingId: string | null;
+  title?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Manual",
+  pos_sync: "POS Sync",
+  rule: "Rule",
+  markdown: "Markdown",
+};
+
+function formatDuration(ms: number): string {
+  const hours = Math.floor(ms / (1000 * 60 * 60));
+  const days = Math.floor(hours / 24);
+  if (days > 0) return `${days}d ${hours % 24}h`;
+  if (hours > 0) return `${hours}h`;
+  return `${Math.max(1, Math.floor(ms / (1000 * 60)))}m`;
+}
+
+export function PriceHistoryDialog({
+  listingId,
+  title,
+  open,
+  onOpenChange,
+}: PriceHistoryDialogProps) {
+  const [loading, setLoading] = useState(true);
+  const [data, setData] = useState<PriceHistoryData | null>(null);
+
+  useEffect(() => {
+    if (!open || !listingId) return;
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/listings/${listingId}/price-history`);
+        const result = await response.json();
+        setData(result.success ? result : null);
+      } catch (error) {
+        console.error("Failed to fetch price history:", error);
+        setData(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchHistory();
+  }, [open, listingId]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Price History</DialogTitle>
+          <DialogDescription>{title}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !data ? (
+          <p className="text-center py-8 text-muted-foreground">Failed to load price history</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex gap-6 text-sm">
+              <div>
+                <p className="text-muted-foreground">Listed</p>
+                <p className="font-medium">{formatDateTime(data.listedAt)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Price changes</p>
+                <p className="font-medium">{data.changes.length}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Last sold</p>
+                <p className="font-medium">
+                  {data.lastSoldAt ? formatDateTime(data.lastSoldAt) : "Not sold"}
+                  {data.salesCount > 1 && ` (${data.salesCount} sales)`}
+                </p>
+              </div>
+            </div>
+
+            {/* Time at each price */}
+            <div>
+              <h3 className="text-sm font-medium mb-2">Time at each price</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Price</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Set by</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.segments.map((seg, i) => (
+                    <TableRow key={i}>
+                      <TableCell className="font-medium">{formatCurrency(seg.price)}</TableCell>
+                      <TableCell className="text-sm">{formatDateTime(seg.from)}</TableCell>
+                      <TableCell className="text-sm">
+                        {seg.to ? (
+                          formatDateTime(seg.to)
+                        ) : (
+                          <Badge variant="secondary">Current</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDuration(seg.durationMs)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {seg.source ? SOURCE_LABELS[seg.source] || seg.source : "Initial"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* Change log */}
+            {data.changes.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">Changes</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.changes.map((change) => (
+                      <TableRow key={change.id}>
+                        <TableCell className="text-sm">{formatDateTime(change.createdAt)}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1 whitespace-nowrap">
+                            <span className="text-muted-foreground">{formatCurrency(change.oldPrice)}</span>
+                            <ArrowRight className="h-3 w-3" />
+                            <span
+                              className={
+                                change.newPrice < change.oldPrice ? "text-red-500" : "text-green-500"
+                              }
+                            >
+                              {formatCurrency(change.newPrice)}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{SOURCE_LABELS[change.source] || change.source}</Badge>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground max-w-[260px]">
+                          {change.rule?.name && <span className="font-medium">{change.rule.name}</span>}
+                          {change.reason && <p>{change.reason}</p>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
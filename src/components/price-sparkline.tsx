@@ -0,0 +1,54 @@
+import { cn } from "@/lib/utils";
+
+interface PriceSparklineProps {
+  points: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * Tiny inline price trend line.
+ * Red when the latest price is below the first, green when above.
+ */
+export function PriceSparkline({
+  points,
+  width = 60,
+  height = 20,
+  className,
+}: PriceSparklineProps) {
+  if (points.length < 2) return null;
+
+  const min = Math.min(...points);
+  const max = Math.max(...points);
+  const range = max - min || 1;
+  const stepX = width / (points.length - 1);
+
+  const coords = points.map((p, i) => {
+    const x = i * stepX;
+    const y = height - 2 - ((p - min) / range) * (height - 4);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const color = last < first ? "text-red-500" : last > first ? "text-green-500" : "text-muted-foreground";
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn(color, className)}
+    >
+      <polyline
+        points={coords.join(" ")}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+}
@@ -125,7 +125,7 @@ interface PurchaseDetails {
   priceOverrideValue: number | null;
   account: { id: string; email: string };
   event: { id: string; eventName: string; tmEventId: string; getInPrice?: number | null; zonePrices?: Array<{ zoneName: string; minPrice: number }> } | null;
-  card: { id: string; cardType: string; cardNumber: string; billingName: string } | null;
+  card: { id: string; cardType: string; cardLast4: string | null; billingName: string } | null;
 }
 
 interface PurchaseEditDialogProps {
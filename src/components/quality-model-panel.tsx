@@ -0,0 +1,215 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Brain, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+
+interface CalibrationBin {
+  minPredicted: number;
+  maxPredicted: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+interface CalibrationMetrics {
+  examples: number;
+  positives: number;
+  baseRate: number;
+  brierScore: number;
+  logLoss: number;
+  auc: number | null;
+  expectedCalibrationError: number;
+  bins: CalibrationBin[];
+}
+
+interface ActiveModel {
+  id: string;
+  topPercent: number;
+  trainedAt: string;
+  trainingExamples: number;
+  positiveRate: number;
+  metrics: { holdout: CalibrationMetrics; training: CalibrationMetrics; holdoutFrom: string | null };
+  coefficients: { feature: string; coefficient: number }[];
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+/**
+ * Active account quality model - holdout calibration, top coefficients and retraining
+ */
+export function QualityModelPanel({ onTrained }: { onTrained?: () => void }) {
+  const [model, setModel] = useState<ActiveModel | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [training, setTraining] = useState(false);
+  const [topPercent, setTopPercent] = useState("10");
+  const { toast } = useToast();
+
+  const fetchModel = useCallback(async () => {
+    try {
+      const response = await fetch("/api/analytics/quality-model");
+      const data = await response.json();
+      if (data.success) {
+        setModel(data.active);
+        if (data.active) setTopPercent(String(data.active.topPercent));
+      }
+    } catch (error) {
+      console.error("Failed to fetch quality model:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchModel();
+  }, [fetchModel]);
+
+  const handleTrain = async () => {
+    setTraining(true);
+    try {
+      const response = await fetch("/api/analytics/quality-model/train", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ topPercent: parseFloat(topPercent) }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      toast({
+        title: "Model trained",
+        description: `${data.trainingExamples} examples, holdout AUC ${data.metrics.holdout.auc ?? "n/a"}`,
+      });
+      await fetchModel();
+      onTrained?.();
+    } catch (error) {
+      toast({ title: "Training failed", description: String(error), variant: "destructive" });
+    } finally {
+      setTraining(false);
+    }
+  };
+
+  const holdout = model?.metrics.holdout;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Brain className="h-5 w-5" />
+              Quality Model
+            </CardTitle>
+            <CardDescription>
+              {model
+                ? `P(top ${model.topPercent}% of next queue and converts) - trained ${new Date(model.trainedAt).toLocaleString()} on ${model.trainingExamples} observations`
+                : "Logistic regression predicting which accounts land near the front of the next queue and convert"}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Top</span>
+            <Input
+              type="number"
+              min={1}
+              max={100}
+              value={topPercent}
+              onChange={(e) => setTopPercent(e.target.value)}
+              className="w-[80px]"
+            />
+            <span className="text-sm text-muted-foreground">%</span>
+            <Button onClick={handleTrain} disabled={training}>
+              {training && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {model ? "Retrain" : "Train"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      {loading ? (
+        <CardContent>
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </CardContent>
+      ) : model && holdout ? (
+        <CardContent className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant={holdout.auc !== null && holdout.auc >= 0.7 ? "success" : "secondary"}>
+                AUC {holdout.auc ?? "n/a"}
+              </Badge>
+              <Badge variant="outline">
+                Brier {holdout.brierScore} (no-skill {(holdout.baseRate * (1 - holdout.baseRate)).toFixed(4)})
+              </Badge>
+              <Badge variant="outline">ECE {holdout.expectedCalibrationError}</Badge>
+              <Badge variant="outline">Base rate {pct(holdout.baseRate)}</Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Holdout: {holdout.examples} most recent observations
+              {model.metrics.holdoutFrom && ` (from ${new Date(model.metrics.holdoutFrom).toLocaleDateString()})`}
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Predicted</TableHead>
+                  <TableHead className="text-right">Count</TableHead>
+                  <TableHead className="text-right">Mean Predicted</TableHead>
+                  <TableHead className="text-right">Observed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {holdout.bins.map((bin) => (
+                  <TableRow key={bin.minPredicted}>
+                    <TableCell className="font-mono text-xs">
+                      {(bin.minPredicted * 100).toFixed(0)}-{(bin.maxPredicted * 100).toFixed(0)}%
+                    </TableCell>
+                    <TableCell className="text-right">{bin.count}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">{pct(bin.meanPredicted)}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">{pct(bin.observedRate)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <div>
+            <p className="text-sm font-medium mb-2">Strongest features (per std. dev.)</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Feature</TableHead>
+                  <TableHead className="text-right">Coefficient</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {model.coefficients.slice(0, 10).map((c) => (
+                  <TableRow key={c.feature}>
+                    <TableCell className="font-mono text-xs">{c.feature}</TableCell>
+                    <TableCell
+                      className={`text-right font-mono text-sm ${c.coefficient > 0 ? "text-green-600" : c.coefficient < 0 ? "text-red-600" : ""}`}
+                    >
+                      {c.coefficient > 0 ? "+" : ""}{c.coefficient.toFixed(3)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      ) : (
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            No model trained yet. Predictions appear next to the composite score once one is.
+          </p>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
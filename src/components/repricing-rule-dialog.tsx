@@ -0,0 +1,320 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getZoneNames } from "@/lib/utils/section-mapper";
+
+export interface RepricingRule {
+  id: string;
+  name: string;
+  type: string;
+  value: number;
+  windowDays: number | null;
+  priority: number;
+  isEnabled: boolean;
+  eventId: string | null;
+  zoneName: string | null;
+  tagName: string | null;
+  lastRunAt: string | null;
+  description: string;
+  event: { id: string; eventName: string; artistName: string | null; eventDate: string | null } | null;
+  _count: { priceChanges: number };
+}
+
+interface EventOption {
+  id: string;
+  eventName: string;
+  artistName: string | null;
+}
+
+interface TagOption {
+  id: string;
+  name: string;
+}
+
+interface RepricingRuleDialogProps {
+  rule: RepricingRule | null; // null = create
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+const RULE_TYPE_HELP: Record<string, { label: string; valueLabel: string; placeholder: string }> = {
+  FLOOR_RELATIVE: {
+    label: "Relative to market floor",
+    valueLabel: "Offset from floor (%)",
+    placeholder: "-5",
+  },
+  COST_FLOOR: {
+    label: "Minimum vs. cost",
+    valueLabel: "Cost multiplier",
+    placeholder: "1.1",
+  },
+  TIME_DECAY: {
+    label: "Daily drop near show date",
+    valueLabel: "Drop per day (%)",
+    placeholder: "3",
+  },
+};
+
+export function RepricingRuleDialog({
+  rule,
+  open,
+  onOpenChange,
+  onSaved,
+}: RepricingRuleDialogProps) {
+  const [saving, setSaving] = useState(false);
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [tags, setTags] = useState<TagOption[]>([]);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [type, setType] = useState("FLOOR_RELATIVE");
+  const [value, setValue] = useState("");
+  const [windowDays, setWindowDays] = useState("");
+  const [priority, setPriority] = useState("0");
+  const [eventId, setEventId] = useState("all");
+  const [zoneName, setZoneName] = useState("all");
+  const [tagName, setTagName] = useState("all");
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName(rule?.name || "");
+    setType(rule?.type || "FLOOR_RELATIVE");
+    setValue(rule ? rule.value.toString() : "");
+    setWindowDays(rule?.windowDays?.toString() || "");
+    setPriority(rule?.priority.toString() || "0");
+    setEventId(rule?.eventId || "all");
+    setZoneName(rule?.zoneName || "all");
+    setTagName(rule?.tagName || "all");
+
+    const fetchOptions = async () => {
+      try {
+        const [eventsRes, tagsRes] = await Promise.all([
+          fetch("/api/events?limit=100&sortBy=eventDate&sortOrder=asc"),
+          fetch("/api/tags?type=account"),
+        ]);
+        const eventsData = await eventsRes.json();
+        const tagsData = await tagsRes.json();
+        setEvents(eventsData.events || []);
+        setTags(tagsData.tags || []);
+      } catch (error) {
+        console.error("Failed to fetch rule options:", error);
+      }
+    };
+    fetchOptions();
+  }, [open, rule]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const payload = {
+        name,
+        type,
+        value: parseFloat(value),
+        windowDays: type === "TIME_DECAY" && windowDays ? parseInt(windowDays, 10) : null,
+        priority: parseInt(priority, 10) || 0,
+        eventId: eventId === "all" ? null : eventId,
+        zoneName: zoneName === "all" ? null : zoneName,
+        tagName: tagName === "all" ? null : tagName,
+      };
+
+      const response = await fetch(
+        rule ? `/api/repricing/rules/${rule.id}` : "/api/repricing/rules",
+        {
+          method: rule ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to save rule");
+      }
+
+      toast({
+        title: rule ? "Rule Updated" : "Rule Created",
+        description: name,
+      });
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save rule",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const help = RULE_TYPE_HELP[type];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit Repricing Rule" : "New Repricing Rule"}</DialogTitle>
+          <DialogDescription>
+            Rules apply to our listings (with an Ext PO#) for upcoming events.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Undercut floor"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RULE_TYPE_HELP).map(([key, h]) => (
+                    <SelectItem key={key} value={key}>
+                      {h.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-value">{help.valueLabel}</Label>
+              <Input
+                id="rule-value"
+                type="number"
+                step="0.01"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={help.placeholder}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {type === "TIME_DECAY" && (
+              <div className="space-y-2">
+                <Label htmlFor="rule-window">Days before show</Label>
+                <Input
+                  id="rule-window"
+                  type="number"
+                  value={windowDays}
+                  onChange={(e) => setWindowDays(e.target.value)}
+                  placeholder="7"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="rule-priority">Priority</Label>
+              <Input
+                id="rule-priority"
+                type="number"
+                value={priority}
+                onChange={(e) => setPriority(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Event</Label>
+            <Select value={eventId} onValueChange={setEventId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Events</SelectItem>
+                {events.map((event) => (
+                  <SelectItem key={event.id} value={event.id}>
+                    {event.artistName || event.eventName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Zone</Label>
+              <Select value={zoneName} onValueChange={setZoneName}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Zones</SelectItem>
+                  {getZoneNames().map((zone) => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Account Tag</Label>
+              <Select value={tagName} onValueChange={setTagName}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Tags</SelectItem>
+                  {tags.map((tag) => (
+                    <SelectItem key={tag.id} value={tag.name}>
+                      {tag.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name || !value}>
+            {saving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
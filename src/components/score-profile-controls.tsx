@@ -0,0 +1,393 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Eye, Loader2, Save, SlidersHorizontal, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ScoreWeights {
+  percentile: number;
+  consistency: number;
+  recentPerformance: number;
+  eventCoverage: number;
+  purchaseSuccess: number;
+}
+
+interface ScoreProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  isDefault: boolean;
+  weights: ScoreWeights;
+}
+
+interface ComparisonRow {
+  accountId: string;
+  email: string;
+  rankA: number;
+  scoreA: number;
+  rankB: number;
+  scoreB: number;
+  rankChange: number;
+}
+
+export interface ProfileComparison {
+  profileA: { id: string | null; name: string };
+  profileB: { id: string | null; name: string };
+  accounts: ComparisonRow[];
+  movedIn: ComparisonRow[];
+}
+
+const WEIGHT_FIELDS: { key: keyof ScoreWeights; label: string; hint: string }[] = [
+  { key: "percentile", label: "Percentile", hint: "How good the queue positions are" },
+  { key: "consistency", label: "Consistency", hint: "Reliability across events" },
+  { key: "recentPerformance", label: "Recent Performance", hint: "Last 3 observations" },
+  { key: "eventCoverage", label: "Event Coverage", hint: "More events = more data" },
+  { key: "purchaseSuccess", label: "Purchase Success", hint: "Has converted before" },
+];
+
+// Weights are edited as percentages; the API normalizes them to sum to 1
+function toPercentages(weights: ScoreWeights): Record<keyof ScoreWeights, string> {
+  return Object.fromEntries(
+    WEIGHT_FIELDS.map(f => [f.key, String(Math.round(weights[f.key] * 1000) / 10)])
+  ) as Record<keyof ScoreWeights, string>;
+}
+
+function fromPercentages(values: Record<keyof ScoreWeights, string>): ScoreWeights {
+  return Object.fromEntries(
+    WEIGHT_FIELDS.map(f => [f.key, Math.max(0, parseFloat(values[f.key]) || 0) / 100])
+  ) as unknown as ScoreWeights;
+}
+
+interface ScoreProfileControlsProps {
+  profileId: string;                 // "default" = default profile
+  onProfileChange: (id: string) => void;
+  compareId: string;                 // "none" = no comparison
+  onCompareChange: (id: string) => void;
+  activeWeights: ScoreWeights | null; // Weights the current ranking was computed with
+  previewing: boolean;
+  onPreview: (weights: ScoreWeights | null) => void;
+}
+
+export function ScoreProfileControls({
+  profileId,
+  onProfileChange,
+  compareId,
+  onCompareChange,
+  activeWeights,
+  previewing,
+  onPreview,
+}: ScoreProfileControlsProps) {
+  const [profiles, setProfiles] = useState<ScoreProfile[]>([]);
+  const [builtInName, setBuiltInName] = useState("Built-in");
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null); // null = new profile
+  const [name, setName] = useState("");
+  const [isDefault, setIsDefault] = useState(false);
+  const [values, setValues] = useState<Record<keyof ScoreWeights, string>>(
+    toPercentages({ percentile: 0.4, consistency: 0.25, recentPerformance: 0.15, eventCoverage: 0.1, purchaseSuccess: 0.1 })
+  );
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      const response = await fetch("/api/analytics/score-profiles");
+      const data = await response.json();
+      if (data.success) {
+        setProfiles(data.profiles);
+        setBuiltInName(data.builtIn.name);
+      }
+    } catch (error) {
+      console.error("Failed to fetch score profiles:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  const openEditor = () => {
+    const selected = profiles.find(p => p.id === profileId)
+      || (profileId === "default" ? profiles.find(p => p.isDefault) : undefined);
+    setEditingId(selected?.id ?? null);
+    setName(selected?.name ?? "");
+    setIsDefault(selected?.isDefault ?? false);
+    if (activeWeights) setValues(toPercentages(activeWeights));
+    setEditorOpen(true);
+  };
+
+  const total = WEIGHT_FIELDS.reduce((sum, f) => sum + (parseFloat(values[f.key]) || 0), 0);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const body = { name, isDefault, weights: fromPercentages(values) };
+      const response = await fetch(
+        editingId ? `/api/analytics/score-profiles/${editingId}` : "/api/analytics/score-profiles",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+      );
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      toast({ title: "Profile saved", description: data.profile.name });
+      await fetchProfiles();
+      onPreview(null);
+      onProfileChange(data.profile.id);
+      setEditorOpen(false);
+    } catch (error) {
+      toast({ title: "Save failed", description: String(error), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingId || !confirm(`Delete profile "${name}"?`)) return;
+    try {
+      const response = await fetch(`/api/analytics/score-profiles/${editingId}`, { method: "DELETE" });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      toast({ title: "Profile deleted" });
+      await fetchProfiles();
+      onPreview(null);
+      onProfileChange("default");
+      if (compareId === editingId) onCompareChange("none");
+      setEditorOpen(false);
+    } catch (error) {
+      toast({ title: "Delete failed", description: String(error), variant: "destructive" });
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-3 items-center">
+        <span className="text-sm font-medium">Score profile:</span>
+        <Select value={profileId} onValueChange={(v) => { onPreview(null); onProfileChange(v); }}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default">
+              {profiles.find(p => p.isDefault)?.name ?? builtInName} (default)
+            </SelectItem>
+            {profiles.filter(p => !p.isDefault).map((p) => (
+              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <span className="text-sm font-medium">Compare with:</span>
+        <Select value={compareId} onValueChange={onCompareChange}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No comparison</SelectItem>
+            {profiles.map((p) => (
+              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button variant="outline" size="sm" onClick={openEditor}>
+          <SlidersHorizontal className="h-4 w-4 mr-1" />
+          Edit Weights
+        </Button>
+        {previewing && (
+          <>
+            <Badge variant="secondary">Previewing unsaved weights</Badge>
+            <Button variant="ghost" size="sm" onClick={() => onPreview(null)}>
+              Reset
+            </Button>
+          </>
+        )}
+      </div>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Score Profile" : "New Score Profile"}</DialogTitle>
+            <DialogDescription>
+              Weights are relative - they&apos;re scaled to 100% when saved. Preview re-ranks without saving.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex gap-2 items-end">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="profile-name">Name</Label>
+                <Input
+                  id="profile-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Conversion-heavy"
+                />
+              </div>
+              {editingId && (
+                <Button variant="outline" onClick={() => { setEditingId(null); setName(""); setIsDefault(false); }}>
+                  Save as new
+                </Button>
+              )}
+            </div>
+
+            {WEIGHT_FIELDS.map((field) => (
+              <div key={field.key} className="grid grid-cols-[1fr_100px] gap-3 items-center">
+                <div>
+                  <Label htmlFor={`weight-${field.key}`}>{field.label}</Label>
+                  <p className="text-xs text-muted-foreground">{field.hint}</p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Input
+                    id={`weight-${field.key}`}
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={values[field.key]}
+                    onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                </div>
+              </div>
+            ))}
+            <div className="text-xs text-muted-foreground text-right">
+              Total: {Math.round(total * 10) / 10}%
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="profile-default" checked={isDefault} onCheckedChange={setIsDefault} />
+              <Label htmlFor="profile-default">Use as default profile</Label>
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2">
+            {editingId && (
+              <Button variant="destructive" onClick={handleDelete} className="mr-auto">
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => { onPreview(fromPercentages(values)); setEditorOpen(false); }}
+              disabled={total <= 0}
+            >
+              <Eye className="h-4 w-4 mr-1" />
+              Preview
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim() || total <= 0}>
+              {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+function ComparisonRows({ rows }: { rows: ComparisonRow[] }) {
+  return (
+    <>
+      {rows.map((row) => (
+        <TableRow key={row.accountId}>
+          <TableCell className="truncate max-w-[260px]">{row.email}</TableCell>
+          <TableCell className="text-right font-mono">#{row.rankA}</TableCell>
+          <TableCell className="text-right font-mono">{row.scoreA.toFixed(1)}</TableCell>
+          <TableCell className="text-right font-mono">#{row.rankB}</TableCell>
+          <TableCell className="text-right font-mono">{row.scoreB.toFixed(1)}</TableCell>
+          <TableCell className="text-right">
+            {row.rankChange === 0 ? (
+              <span className="text-muted-foreground">-</span>
+            ) : (
+              <Badge variant={row.rankChange > 0 ? "success" : "destructive"}>
+                {row.rankChange > 0 ? "+" : ""}{row.rankChange}
+              </Badge>
+            )}
+          </TableCell>
+        </TableRow>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Side-by-side ranks of the same accounts under two score profiles
+ */
+export function ProfileComparisonTable({ comparison }: { comparison: ProfileComparison }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {comparison.profileA.name} vs {comparison.profileB.name}
+        </CardTitle>
+        <CardDescription>
+          Composite score rank under each profile. Positive change = ranks higher under {comparison.profileB.name}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Account</TableHead>
+              <TableHead className="text-right">Rank ({comparison.profileA.name})</TableHead>
+              <TableHead className="text-right">Score</TableHead>
+              <TableHead className="text-right">Rank ({comparison.profileB.name})</TableHead>
+              <TableHead className="text-right">Score</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <ComparisonRows rows={comparison.accounts} />
+          </TableBody>
+        </Table>
+
+        {comparison.movedIn.length > 0 && (
+          <>
+            <h4 className="font-medium mt-6 mb-2">
+              Only in this range under {comparison.profileB.name} ({comparison.movedIn.length})
+            </h4>
+            <Table>
+              <TableBody>
+                <ComparisonRows rows={comparison.movedIn} />
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
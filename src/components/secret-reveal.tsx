@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { Eye, EyeOff, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface SecretRevealProps {
+  entity: "card" | "account" | "imapCredential" | "generatorTask";
+  id: string;
+  field: string;
+  label: string; // For toasts, e.g. "Card number"
+  masked: string; // Shown until revealed, e.g. "**** 1234"
+  className?: string;
+}
+
+/**
+ * Masked secret with an eye button that decrypts it via the audited
+ * /api/secrets/reveal endpoint. Click the revealed value to copy it.
+ */
+export function SecretReveal({ entity, id, field, label, masked, className }: SecretRevealProps) {
+  const [value, setValue] = useState<string | null>(null);
+  const [visible, setVisible] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleToggle = async () => {
+    if (visible) {
+      setVisible(false);
+      return;
+    }
+    if (value !== null) {
+      setVisible(true);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch("/api/secrets/reveal", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ entity, id, field }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      setValue(data.values[field] ?? "");
+      setVisible(true);
+    } catch (error) {
+      toast({
+        title: "Reveal Failed",
+        description: error instanceof Error ? error.message : `Failed to reveal ${label.toLowerCase()}`,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = () => {
+    if (!visible || !value) return;
+    navigator.clipboard.writeText(value).then(() => {
+      toast({
+        title: "Copied",
+        description: `${label} copied to clipboard`,
+      });
+    });
+  };
+
+  return (
+    <span className={cn("inline-flex items-center gap-1", className)}>
+      <span
+        className={cn("font-mono", visible && "cursor-pointer hover:text-primary")}
+        onClick={handleCopy}
+        title={visible ? "Click to copy" : undefined}
+      >
+        {visible ? value || "-" : masked}
+      </span>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="text-muted-foreground hover:text-foreground"
+        title={visible ? "Hide" : `Reveal ${label.toLowerCase()} (audited)`}
+      >
+        {loading ? (
+          <Loader2 className="h-3 w-3 animate-spin" />
+        ) : visible ? (
+          <EyeOff className="h-3 w-3" />
+        ) : (
+          <Eye className="h-3 w-3" />
+        )}
+      </button>
+    </span>
+  );
+}
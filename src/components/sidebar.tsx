@@ -1,7 +1,8 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import {
   Users,
   CreditCard,
@@ -16,10 +17,28 @@ import {
   Receipt,
   Zap,
   ShoppingBag,
+  TrendingDown,
+  ScrollText,
+  KeyRound,
+  LogOut,
+  RefreshCw,
+  Bell,
+  ShieldAlert,
+  PiggyBank,
+  BookOpen,
+  Landmark,
+  Ticket,
+  Hourglass,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { hasRole, type UserRole } from "@/lib/auth-policy";
 
-const navigation = [
+const navigation: Array<{
+  name: string;
+  href: string;
+  icon: typeof Home;
+  role?: UserRole;
+}> = [
   { name: "Dashboard", href: "/", icon: Home },
   { name: "Accounts", href: "/accounts", icon: Users },
   { name: "Cards", href: "/cards", icon: CreditCard },
@@ -27,16 +46,51 @@ const navigation = [
   { name: "Queue Analytics", href: "/queues", icon: BarChart3 },
   { name: "Purchases", href: "/purchases", icon: ShoppingCart },
   { name: "Listings", href: "/listings", icon: Package },
+  { name: "Tickets", href: "/tickets", icon: Ticket },
+  { name: "Inventory Aging", href: "/aging", icon: Hourglass },
+  { name: "Repricing", href: "/repricing", icon: TrendingDown },
   { name: "Sales", href: "/sales", icon: Receipt },
+  { name: "Event P&L", href: "/pnl", icon: PiggyBank },
+  { name: "Accounting", href: "/accounting", icon: BookOpen },
+  { name: "Payouts", href: "/payouts", icon: Landmark },
   { name: "Error Analysis", href: "/analytics", icon: AlertTriangle },
   { name: "Import Data", href: "/import", icon: Upload },
   { name: "Generator", href: "/generator", icon: Zap },
   { name: "Checkout", href: "/checkout", icon: ShoppingBag },
+  { name: "Exposure", href: "/exposure", icon: ShieldAlert },
+  { name: "Sync Jobs", href: "/sync", icon: RefreshCw },
+  { name: "Notifications", href: "/notifications", icon: Bell, role: "admin" },
+  { name: "Audit Log", href: "/audit-log", icon: ScrollText, role: "admin" },
+  { name: "Access", href: "/access", icon: KeyRound, role: "admin" },
   { name: "Settings", href: "/settings", icon: Settings },
 ];
 
+interface CurrentUser {
+  username: string;
+  role: UserRole;
+}
+
 export function Sidebar() {
   const pathname = usePathname();
+  const router = useRouter();
+  const [user, setUser] = useState<CurrentUser | null>(null);
+
+  useEffect(() => {
+    if (pathname === "/login") return;
+
+    fetch("/api/auth/me")
+      .then((res) => res.json())
+      .then((data) => setUser(data.success ? data.user : null))
+      .catch(() => setUser(null));
+  }, [pathname]);
+
+  const handleLogout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    setUser(null);
+    router.replace("/login");
+  };
+
+  if (pathname === "/login") return null;
 
   return (
     <div className="flex h-full w-64 flex-col bg-card border-r">
@@ -44,26 +98,43 @@ export function Sidebar() {
         <h1 className="text-xl font-bold">TM Accounts</h1>
       </div>
       <nav className="flex-1 space-y-1 px-3 py-4">
-        {navigation.map((item) => {
-          const isActive = pathname === item.href;
-          return (
-            <Link
-              key={item.name}
-              href={item.href}
-              className={cn(
-                "flex items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium transition-colors",
-                isActive
-                  ? "bg-primary text-primary-foreground"
-                  : "text-muted-foreground hover:bg-muted hover:text-foreground"
-              )}
-            >
-              <item.icon className="h-5 w-5" />
-              {item.name}
-            </Link>
-          );
-        })}
+        {navigation
+          .filter((item) => !item.role || hasRole(user?.role, item.role))
+          .map((item) => {
+            const isActive = pathname === item.href;
+            return (
+              <Link
+                key={item.name}
+                href={item.href}
+                className={cn(
+                  "flex items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium transition-colors",
+                  isActive
+                    ? "bg-primary text-primary-foreground"
+                    : "text-muted-foreground hover:bg-muted hover:text-foreground"
+                )}
+              >
+                <item.icon className="h-5 w-5" />
+                {item.name}
+              </Link>
+            );
+          })}
       </nav>
-      <div className="border-t p-4">
+      <div className="border-t p-4 space-y-2">
+        {user && (
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              <p className="font-medium">{user.username}</p>
+              <p className="text-xs text-muted-foreground capitalize">{user.role}</p>
+            </div>
+            <button
+              onClick={handleLogout}
+              className="rounded-lg p-2 text-muted-foreground hover:bg-muted hover:text-foreground"
+              title="Sign out"
+            >
+              <LogOut className="h-4 w-4" />
+            </button>
+          </div>
+        )}
         <p className="text-xs text-muted-foreground">
           TM Accounts v0.1.0
         </p>
@@ -0,0 +1,10 @@
+/**
+ * Next.js server startup hook - starts the in-process POS sync scheduler.
+ * See src/lib/services/sync-scheduler.ts
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { startSyncScheduler } = await import("@/lib/services/sync-scheduler");
+  startSyncScheduler();
+}
@@ -3,6 +3,10 @@
  * 
  * These functions calculate metrics like weighted percentile, consistency,
  * improvement over time, and reroll detection.
+ *
+ * Each queue batch (pre-sale, public sale, ...) is a separate observation:
+ * percentiles are ranked within the batch, so an account that queued twice
+ * for one event contributes two performances.
  */
 
 import { calculatePercentile } from "./tier-detection";
@@ -10,18 +14,20 @@ import { calculatePercentile } from "./tier-detection";
 export interface EventPerformance {
   eventId: string;
   eventName: string;
+  batchId: string;
+  batchTag: string;
   artistName?: string | null;
   eventDateRaw?: string | null;
   venue?: string | null;
   position: number;
-  percentile: number;           // Position as percentile within this event
-  totalParticipants: number;    // How many accounts in this event
+  percentile: number;           // Position as percentile within this batch
+  totalParticipants: number;    // How many accounts in this batch
   testedAt: Date;
 }
 
 /**
  * Default weights for composite score calculation
- * These can be adjusted by the user
+ * Users can save their own as named profiles (see services/score-profiles.ts)
  */
 export const DEFAULT_SCORE_WEIGHTS = {
   percentile: 0.40,      // Most important: how good is position
@@ -31,6 +37,26 @@ export const DEFAULT_SCORE_WEIGHTS = {
   purchaseSuccess: 0.10, // Proven to convert
 };
 
+export type ScoreWeights = typeof DEFAULT_SCORE_WEIGHTS;
+
+export const SCORE_WEIGHT_KEYS = Object.keys(DEFAULT_SCORE_WEIGHTS) as (keyof ScoreWeights)[];
+
+/**
+ * Scale weights so they sum to 1 (negative values are treated as 0).
+ * All-zero weights fall back to the defaults.
+ */
+export function normalizeScoreWeights(weights: Partial<ScoreWeights>): ScoreWeights {
+  const clamped = Object.fromEntries(
+    SCORE_WEIGHT_KEYS.map(key => [key, Math.max(0, Number(weights[key]) || 0)])
+  ) as ScoreWeights;
+  const total = SCORE_WEIGHT_KEYS.reduce((sum, key) => sum + clamped[key], 0);
+  if (total === 0) return { ...DEFAULT_SCORE_WEIGHTS };
+
+  return Object.fromEntries(
+    SCORE_WEIGHT_KEYS.map(key => [key, clamped[key] / total])
+  ) as ScoreWeights;
+}
+
 export interface ScoreBreakdown {
   percentileScore: number;      // 0-100, inverted so lower percentile = higher score
   consistencyScore: number;     // 0-100, higher = more consistent
@@ -57,7 +83,8 @@ export interface AccountScore {
   accountId: string;
   email: string;
   hasPurchased: boolean;        // Has at least one successful purchase
-  eventsEntered: number;        // Number of events participated in
+  eventsEntered: number;        // Number of distinct events participated in
+  batchesEntered: number;       // Number of queue observations (batches)
   
   // Percentile metrics
   avgPercentile: number;        // Simple average of percentiles
@@ -97,30 +124,59 @@ export interface RerollAnalysis {
   changeType: "improved" | "declined" | "stable";
 }
 
+export type BatchParticipantCounts = Map<string, { count: number; positions: number[] }>;
+
+/**
+ * Build the per-batch participant map used for percentile calculation.
+ * Positions arrays come back sorted ascending.
+ */
+export function buildBatchParticipantCounts(
+  queuePositions: Array<{ batchId: string; position: number }>
+): BatchParticipantCounts {
+  const counts: BatchParticipantCounts = new Map();
+  for (const qp of queuePositions) {
+    const existing = counts.get(qp.batchId) || { count: 0, positions: [] };
+    existing.count++;
+    existing.positions.push(qp.position);
+    counts.set(qp.batchId, existing);
+  }
+
+  for (const [, data] of counts) {
+    data.positions.sort((a, b) => a - b);
+  }
+
+  return counts;
+}
+
 /**
  * Calculate event performances with percentiles for an account
+ * (one per batch the account queued in)
  */
 export function calculateEventPerformances(
   accountQueuePositions: Array<{
     eventId: string;
     eventName: string;
+    batchId: string;
+    batchTag: string;
     artistName?: string | null;
     eventDateRaw?: string | null;
     venue?: string | null;
     position: number;
     testedAt: Date;
   }>,
-  eventParticipantCounts: Map<string, { count: number; positions: number[] }>
+  batchParticipantCounts: BatchParticipantCounts
 ): EventPerformance[] {
   return accountQueuePositions.map(qp => {
-    const eventData = eventParticipantCounts.get(qp.eventId);
-    const totalParticipants = eventData?.count || 1;
-    const positions = eventData?.positions || [qp.position];
+    const batchData = batchParticipantCounts.get(qp.batchId);
+    const totalParticipants = batchData?.count || 1;
+    const positions = batchData?.positions || [qp.position];
     const percentile = calculatePercentile(qp.position, positions);
 
     return {
       eventId: qp.eventId,
       eventName: qp.eventName,
+      batchId: qp.batchId,
+      batchTag: qp.batchTag,
       artistName: qp.artistName,
       eventDateRaw: qp.eventDateRaw,
       venue: qp.venue,
@@ -142,7 +198,7 @@ export function calculateScoreBreakdown(
   eventsEntered: number,
   hasPurchased: boolean,
   maxEvents: number = 10, // Used for normalization
-  weights: typeof DEFAULT_SCORE_WEIGHTS = DEFAULT_SCORE_WEIGHTS
+  weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS
 ): ScoreBreakdown {
   // Invert percentile so lower percentile = higher score (0-100 scale)
   // A percentile of 5% (top 5%) should give ~95 score
@@ -216,7 +272,8 @@ export function calculateAccountScore(
   performances: EventPerformance[],
   hasPurchased: boolean,
   recentEventCount: number = 3,
-  maxEventsForNorm: number = 10
+  maxEventsForNorm: number = 10,
+  weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS
 ): AccountScore {
   const emptyBreakdown: ScoreBreakdown = {
     percentileScore: 0,
@@ -225,11 +282,11 @@ export function calculateAccountScore(
     eventCoverageScore: 0,
     purchaseSuccessScore: hasPurchased ? 100 : 0,
     percentileContribution: 0,
-    consistencyContribution: 25,
+    consistencyContribution: 100 * weights.consistency,
     recentPerformanceContribution: 0,
     eventCoverageContribution: 0,
-    purchaseSuccessContribution: hasPurchased ? 10 : 0,
-    compositeScore: hasPurchased ? 35 : 25,
+    purchaseSuccessContribution: hasPurchased ? 100 * weights.purchaseSuccess : 0,
+    compositeScore: 100 * weights.consistency + (hasPurchased ? 100 * weights.purchaseSuccess : 0),
     confidence: "low",
     confidenceReason: "No queue data available",
   };
@@ -240,6 +297,7 @@ export function calculateAccountScore(
       email,
       hasPurchased,
       eventsEntered: 0,
+      batchesEntered: 0,
       avgPercentile: 0,
       weightedPercentile: 0,
       bestPercentile: 0,
@@ -256,12 +314,13 @@ export function calculateAccountScore(
   }
 
   const percentiles = performances.map(p => p.percentile);
-  const eventsEntered = performances.length;
+  const batchesEntered = performances.length;
+  const eventsEntered = new Set(performances.map(p => p.eventId)).size;
 
   // Simple average percentile
-  const avgPercentile = percentiles.reduce((a, b) => a + b, 0) / eventsEntered;
+  const avgPercentile = percentiles.reduce((a, b) => a + b, 0) / batchesEntered;
 
-  // Weighted percentile (more weight for larger events)
+  // Weighted percentile (more weight for larger batches)
   const totalWeight = performances.reduce((sum, p) => sum + p.totalParticipants, 0);
   const weightedPercentile = totalWeight > 0
     ? performances.reduce((sum, p) => sum + p.percentile * p.totalParticipants, 0) / totalWeight
@@ -273,7 +332,7 @@ export function calculateAccountScore(
 
   // Standard deviation
   const squaredDiffs = percentiles.map(p => Math.pow(p - avgPercentile, 2));
-  const avgSquaredDiff = squaredDiffs.reduce((a, b) => a + b, 0) / eventsEntered;
+  const avgSquaredDiff = squaredDiffs.reduce((a, b) => a + b, 0) / batchesEntered;
   const percentileStdDev = Math.sqrt(avgSquaredDiff);
 
   // Consistency score: 100 = perfect consistency, 0 = highly variable
@@ -283,7 +342,7 @@ export function calculateAccountScore(
   const maxReasonableStdDev = 25; // 25 percentage points of variation is very bad
   const consistencyScore = Math.max(0, Math.min(100, 100 * (1 - percentileStdDev / maxReasonableStdDev)));
 
-  // Recent performance (last N events)
+  // Recent performance (last N observations)
   const sortedByDate = [...performances].sort(
     (a, b) => b.testedAt.getTime() - a.testedAt.getTime()
   );
@@ -296,7 +355,7 @@ export function calculateAccountScore(
   // Positive = improving (lower recent percentile = better)
   // Negative = declining
   let improvementScore = 0;
-  if (eventsEntered >= 2) {
+  if (batchesEntered >= 2) {
     const olderPerformances = sortedByDate.slice(recentEventCount);
     if (olderPerformances.length > 0) {
       const olderAvg = olderPerformances.reduce((sum, p) => sum + p.percentile, 0) / olderPerformances.length;
@@ -318,7 +377,8 @@ export function calculateAccountScore(
     recentAvgPercentile,
     eventsEntered,
     hasPurchased,
-    maxEventsForNorm
+    maxEventsForNorm,
+    weights
   );
 
   return {
@@ -326,6 +386,7 @@ export function calculateAccountScore(
     email,
     hasPurchased,
     eventsEntered,
+    batchesEntered,
     avgPercentile,
     weightedPercentile,
     bestPercentile,
@@ -448,13 +509,53 @@ export function sortAccountScores(
 }
 
 /**
- * Rank accounts and add rank field
+ * Recompute an account's composite score under different weights.
+ * Only the weighted contributions change - component scores are reused,
+ * so re-ranking doesn't need the raw queue data again.
+ */
+export function reweightAccountScore(
+  score: AccountScore,
+  weights: ScoreWeights
+): AccountScore {
+  const b = score.scoreBreakdown;
+  const contribution = (value: number) => Math.round(value * 10) / 10;
+  const percentileContribution = b.percentileScore * weights.percentile;
+  const consistencyContribution = b.consistencyScore * weights.consistency;
+  const recentPerformanceContribution = b.recentPerformanceScore * weights.recentPerformance;
+  const eventCoverageContribution = b.eventCoverageScore * weights.eventCoverage;
+  const purchaseSuccessContribution = b.purchaseSuccessScore * weights.purchaseSuccess;
+
+  return {
+    ...score,
+    scoreBreakdown: {
+      ...b,
+      percentileContribution: contribution(percentileContribution),
+      consistencyContribution: contribution(consistencyContribution),
+      recentPerformanceContribution: contribution(recentPerformanceContribution),
+      eventCoverageContribution: contribution(eventCoverageContribution),
+      purchaseSuccessContribution: contribution(purchaseSuccessContribution),
+      compositeScore: contribution(
+        percentileContribution +
+        consistencyContribution +
+        recentPerformanceContribution +
+        eventCoverageContribution +
+        purchaseSuccessContribution
+      ),
+    },
+  };
+}
+
+/**
+ * Rank accounts and add rank field.
+ * Pass weights to re-rank under a different score profile.
  */
 export function rankAccountScores(
   scores: AccountScore[],
-  criteria: SortCriteria
+  criteria: SortCriteria,
+  weights?: ScoreWeights
 ): (AccountScore & { rank: number })[] {
-  const sorted = sortAccountScores(scores, criteria, true);
+  const weighted = weights ? scores.map(s => reweightAccountScore(s, weights)) : scores;
+  const sorted = sortAccountScores(weighted, criteria, true);
   return sorted.map((score, index) => ({
     ...score,
     rank: index + 1,
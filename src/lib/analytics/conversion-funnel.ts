@@ -0,0 +1,155 @@
+/**
+ * Queue position to purchase conversion analysis.
+ *
+ * Joins queue observations (one per account per batch) with checkout
+ * outcomes to answer: how likely is an account at a given percentile to
+ * end up with tickets, where is the position cutoff past which nobody
+ * converted, and how many checkouts should a new queue produce.
+ */
+
+export interface ConversionObservation {
+  position: number;
+  percentile: number;   // Within the observation's batch (lower = better)
+  attempted: boolean;   // Account has any purchase attempt for the event
+  converted: boolean;   // Account has a successful purchase for the event
+}
+
+export interface ConversionBucket {
+  label: string;        // e.g. "0-10%"
+  minPercentile: number;
+  maxPercentile: number;
+  accounts: number;
+  attempted: number;
+  converted: number;
+  successRate: number;        // converted / accounts, 0-100
+  attemptSuccessRate: number; // converted / attempted, 0-100
+}
+
+export interface ConversionCutoff {
+  position: number | null;    // Worst position that still converted
+  percentile: number | null;  // Worst percentile that still converted
+  accountsBeyond: number;     // Observations past the cutoff (none converted)
+}
+
+export interface ConversionSummary {
+  accounts: number;
+  attempted: number;
+  converted: number;
+  successRate: number;
+  cutoff: ConversionCutoff;
+  buckets: ConversionBucket[];
+}
+
+function rate(numerator: number, denominator: number): number {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 10 : 0;
+}
+
+/**
+ * Index of the percentile bucket for a value. 100% lands in the last bucket.
+ */
+function bucketIndex(percentile: number, bucketSize: number, bucketCount: number): number {
+  return Math.min(bucketCount - 1, Math.max(0, Math.floor(percentile / bucketSize)));
+}
+
+/**
+ * Group observations into fixed-width percentile buckets
+ */
+export function buildConversionBuckets(
+  observations: ConversionObservation[],
+  bucketSize: number = 10
+): ConversionBucket[] {
+  const bucketCount = Math.ceil(100 / bucketSize);
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    minPercentile: i * bucketSize,
+    maxPercentile: Math.min(100, (i + 1) * bucketSize),
+    accounts: 0,
+    attempted: 0,
+    converted: 0,
+  }));
+
+  for (const obs of observations) {
+    const bucket = buckets[bucketIndex(obs.percentile, bucketSize, bucketCount)];
+    bucket.accounts++;
+    if (obs.attempted) bucket.attempted++;
+    if (obs.converted) bucket.converted++;
+  }
+
+  return buckets.map(b => ({
+    label: `${b.minPercentile}-${b.maxPercentile}%`,
+    ...b,
+    successRate: rate(b.converted, b.accounts),
+    attemptSuccessRate: rate(b.converted, b.attempted),
+  }));
+}
+
+/**
+ * Find the position/percentile beyond which no observation converted
+ */
+export function findConversionCutoff(observations: ConversionObservation[]): ConversionCutoff {
+  const converted = observations.filter(o => o.converted);
+  if (converted.length === 0) {
+    return { position: null, percentile: null, accountsBeyond: observations.length };
+  }
+
+  const position = Math.max(...converted.map(o => o.position));
+  const percentile = Math.max(...converted.map(o => o.percentile));
+
+  return {
+    position,
+    percentile: Math.round(percentile * 10) / 10,
+    accountsBeyond: observations.filter(o => o.percentile > percentile).length,
+  };
+}
+
+/**
+ * Full funnel summary for a set of observations
+ */
+export function summarizeConversion(
+  observations: ConversionObservation[],
+  bucketSize: number = 10
+): ConversionSummary {
+  const attempted = observations.filter(o => o.attempted).length;
+  const converted = observations.filter(o => o.converted).length;
+
+  return {
+    accounts: observations.length,
+    attempted,
+    converted,
+    successRate: rate(converted, observations.length),
+    cutoff: findConversionCutoff(observations),
+    buckets: buildConversionBuckets(observations, bucketSize),
+  };
+}
+
+/**
+ * Expected successful checkouts for a queue distribution, using the
+ * historical success rate of each percentile bucket.
+ *
+ * Accounts past the historical cutoff are expected to convert at 0%, even
+ * if their bucket had conversions from better-placed accounts.
+ */
+export function estimateExpectedCheckouts(
+  percentiles: number[],
+  history: ConversionSummary
+): { expected: number; byBucket: { label: string; accounts: number; expected: number }[] } {
+  const bucketCount = history.buckets.length;
+  if (bucketCount === 0) return { expected: 0, byBucket: [] };
+
+  const bucketSize = history.buckets[0].maxPercentile - history.buckets[0].minPercentile;
+  const cutoff = history.cutoff.percentile;
+  const byBucket = history.buckets.map(b => ({ label: b.label, accounts: 0, expected: 0 }));
+
+  for (const percentile of percentiles) {
+    const index = bucketIndex(percentile, bucketSize, bucketCount);
+    byBucket[index].accounts++;
+    if (cutoff === null || percentile > cutoff) continue;
+    byBucket[index].expected += history.buckets[index].successRate / 100;
+  }
+
+  const expected = byBucket.reduce((sum, b) => sum + b.expected, 0);
+
+  return {
+    expected: Math.round(expected * 10) / 10,
+    byBucket: byBucket.map(b => ({ ...b, expected: Math.round(b.expected * 10) / 10 })),
+  };
+}
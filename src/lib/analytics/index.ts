@@ -1,2 +1,5 @@
 export * from "./tier-detection";
 export * from "./account-scoring";
+export * from "./conversion-funnel";
+export * from "./quality-model";
+export * from "./queue-outliers";
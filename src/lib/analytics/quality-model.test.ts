@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildTrainingExamples,
+  evaluateCalibration,
+  predictProbability,
+  trainLogisticRegression,
+  type QualityAccountData,
+} from "./quality-model";
+
+test("trainLogisticRegression learns a separable feature", () => {
+  const X = [[0], [1], [2], [3], [7], [8], [9], [10]];
+  const y = [0, 0, 0, 0, 1, 1, 1, 1];
+  const model = trainLogisticRegression(["x"], X, y, { epochs: 1000 });
+
+  assert.ok(model.coefficients[0] > 0);
+  assert.ok(predictProbability(model, [10]) > 0.5);
+  assert.ok(predictProbability(model, [0]) < 0.5);
+
+  const metrics = evaluateCalibration(X.map(x => predictProbability(model, x)), y);
+  assert.equal(metrics.auc, 1);
+});
+
+test("trainLogisticRegression tolerates zero-variance features", () => {
+  const model = trainLogisticRegression(["x", "constant"], [[0, 5], [1, 5], [2, 5], [3, 5]], [0, 0, 1, 1]);
+  assert.equal(model.stds[1], 1);
+  assert.ok(Number.isFinite(predictProbability(model, [2, 5])));
+});
+
+test("evaluateCalibration computes Brier score and AUC", () => {
+  const metrics = evaluateCalibration([0.2, 0.8], [0, 1]);
+  assert.equal(metrics.examples, 2);
+  assert.equal(metrics.positives, 1);
+  assert.equal(metrics.baseRate, 0.5);
+  assert.equal(metrics.brierScore, 0.04);
+  assert.equal(metrics.auc, 1);
+});
+
+test("evaluateCalibration reports no AUC for a single class", () => {
+  const metrics = evaluateCalibration([0.1, 0.4, 0.7], [0, 0, 0]);
+  assert.equal(metrics.auc, null);
+  assert.equal(metrics.positives, 0);
+});
+
+test("evaluateCalibration returns zeros for empty input", () => {
+  const metrics = evaluateCalibration([], []);
+  assert.equal(metrics.examples, 0);
+  assert.equal(metrics.brierScore, 0);
+});
+
+test("buildTrainingExamples only featurizes earlier history", () => {
+  const account: QualityAccountData = {
+    info: { createdAt: new Date("2026-01-01"), generatedAt: null, proxyType: null, tags: [] },
+    observations: [
+      { eventId: "e1", percentile: 5, testedAt: new Date("2026-02-01") },
+      { eventId: "e2", percentile: 80, testedAt: new Date("2026-03-01") },
+    ],
+    purchases: [{ eventId: "e1", success: true, createdAt: new Date("2026-02-02") }],
+  };
+
+  const examples = buildTrainingExamples([account], 10, []);
+  assert.equal(examples.length, 2);
+  assert.equal(examples[0].label, 1);
+  assert.equal(examples[1].label, 0);
+  // The first example sees no prior observations or purchases
+  assert.equal(examples[0].features[0], 0);
+  assert.equal(examples[1].features[0], 1);
+});
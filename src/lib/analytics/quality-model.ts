@@ -0,0 +1,390 @@
+/**
+ * Predictive account quality model.
+ *
+ * A logistic regression, trained offline on queue and purchase history, that
+ * estimates the probability an account lands in the top N% of its next queue
+ * AND converts that event. Complements the hand-weighted composite score in
+ * account-scoring.ts.
+ *
+ * Each queue observation (one per batch) becomes a training example: the
+ * features describe the account using only what was known before that queue
+ * was tested, and the label is whether that queue was a top-N% converting one.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface QualityObservation {
+  eventId: string;
+  percentile: number;   // Within the observation's batch (lower = better)
+  testedAt: Date;
+}
+
+export interface QualityPurchase {
+  eventId: string | null;
+  success: boolean;
+  createdAt: Date;
+}
+
+export interface QualityAccountInfo {
+  createdAt: Date;
+  generatedAt: Date | null;
+  tags: string[];
+  proxyType: string | null;  // Runtime proxy type, else creation proxy type
+}
+
+export interface QualityAccountData {
+  info: QualityAccountInfo;
+  observations: QualityObservation[];
+  purchases: QualityPurchase[];
+}
+
+export interface TrainingExample {
+  features: number[];
+  label: 0 | 1;
+  testedAt: Date;
+}
+
+export interface LogisticModel {
+  featureNames: string[];
+  means: number[];
+  stds: number[];
+  coefficients: number[];   // On standardized features
+  intercept: number;
+}
+
+export interface CalibrationBin {
+  minPredicted: number;
+  maxPredicted: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface CalibrationMetrics {
+  examples: number;
+  positives: number;
+  baseRate: number;
+  brierScore: number;            // Lower = better; baseRate * (1 - baseRate) is a no-skill model
+  logLoss: number;
+  auc: number | null;            // null when only one class is present
+  expectedCalibrationError: number;
+  bins: CalibrationBin[];
+}
+
+export interface TrainingOptions {
+  l2?: number;
+  learningRate?: number;
+  epochs?: number;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+export const DEFAULT_TOP_PERCENT = 10;
+
+export const QUALITY_PROXY_TYPES = ["RESIDENTIAL", "DATACENTER", "MOBILE", "ISP", "NONE"];
+
+// Most common tags (at training time) become one-hot features
+export const MAX_TAG_FEATURES = 10;
+
+const BASE_FEATURE_NAMES = [
+  "hasHistory",
+  "priorObservations",
+  "priorAvgPercentile",
+  "priorBestPercentile",
+  "priorPercentileStdDev",
+  "priorRecentPercentile",
+  "priorTopRate",
+  "accountAgeDays",
+  "priorSuccessfulPurchases",
+  "priorFailedPurchases",
+  "priorConversionRate",
+];
+
+const RECENT_OBSERVATIONS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Features
+// =============================================================================
+
+export function buildFeatureNames(tagNames: string[]): string[] {
+  return [
+    ...BASE_FEATURE_NAMES,
+    ...QUALITY_PROXY_TYPES.map(t => `proxy:${t}`),
+    ...tagNames.map(t => `tag:${t}`),
+  ];
+}
+
+/**
+ * Tag names encoded in a model's feature list
+ */
+export function tagNamesFromFeatures(featureNames: string[]): string[] {
+  return featureNames.filter(f => f.startsWith("tag:")).map(f => f.slice(4));
+}
+
+/**
+ * Most common tags across accounts, for one-hot features
+ */
+export function selectTagFeatures(accounts: QualityAccountData[], max: number = MAX_TAG_FEATURES): string[] {
+  const counts = new Map<string, number>();
+  for (const account of accounts) {
+    for (const tag of account.info.tags) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, max)
+    .map(([tag]) => tag);
+}
+
+/**
+ * Feature vector for an account as of a point in time.
+ * history and purchases must only contain what happened before asOf.
+ */
+export function extractFeatures(
+  history: QualityObservation[],
+  purchases: QualityPurchase[],
+  info: QualityAccountInfo,
+  asOf: Date,
+  topPercent: number,
+  tagNames: string[]
+): number[] {
+  const percentiles = history.map(o => o.percentile);
+  const count = percentiles.length;
+  const avg = count > 0 ? percentiles.reduce((a, b) => a + b, 0) / count : 50;
+  const best = count > 0 ? Math.min(...percentiles) : 50;
+  const stdDev = count > 1
+    ? Math.sqrt(percentiles.reduce((sum, p) => sum + Math.pow(p - avg, 2), 0) / count)
+    : 0;
+  const recent = [...history]
+    .sort((a, b) => b.testedAt.getTime() - a.testedAt.getTime())
+    .slice(0, RECENT_OBSERVATIONS)
+    .map(o => o.percentile);
+  const recentAvg = recent.length > 0 ? recent.reduce((a, b) => a + b, 0) / recent.length : 50;
+  const topRate = count > 0 ? percentiles.filter(p => p <= topPercent).length / count : 0;
+
+  const bornAt = info.generatedAt || info.createdAt;
+  const ageDays = Math.max(0, (asOf.getTime() - bornAt.getTime()) / DAY_MS);
+
+  const successes = purchases.filter(p => p.success).length;
+  const failures = purchases.length - successes;
+  const conversionRate = purchases.length > 0 ? successes / purchases.length : 0;
+
+  const proxyType = info.proxyType && QUALITY_PROXY_TYPES.includes(info.proxyType) ? info.proxyType : "NONE";
+  const tags = new Set(info.tags);
+
+  return [
+    count > 0 ? 1 : 0,
+    Math.log1p(count),
+    avg,
+    best,
+    stdDev,
+    recentAvg,
+    topRate,
+    Math.log1p(ageDays),
+    Math.log1p(successes),
+    Math.log1p(failures),
+    conversionRate,
+    ...QUALITY_PROXY_TYPES.map(t => (t === proxyType ? 1 : 0)),
+    ...tagNames.map(t => (tags.has(t) ? 1 : 0)),
+  ];
+}
+
+/**
+ * One example per queue observation, featurized from the account's earlier
+ * history. Positive when the observation was in the top N% of its batch and
+ * the account bought tickets for that event.
+ */
+export function buildTrainingExamples(
+  accounts: QualityAccountData[],
+  topPercent: number,
+  tagNames: string[]
+): TrainingExample[] {
+  const examples: TrainingExample[] = [];
+
+  for (const account of accounts) {
+    const observations = [...account.observations].sort(
+      (a, b) => a.testedAt.getTime() - b.testedAt.getTime()
+    );
+    const convertedEvents = new Set(
+      account.purchases.filter(p => p.success && p.eventId).map(p => p.eventId)
+    );
+
+    observations.forEach((obs, i) => {
+      const asOf = obs.testedAt;
+      const features = extractFeatures(
+        observations.slice(0, i),
+        account.purchases.filter(p => p.createdAt < asOf),
+        account.info,
+        asOf,
+        topPercent,
+        tagNames
+      );
+      const label = obs.percentile <= topPercent && convertedEvents.has(obs.eventId) ? 1 : 0;
+      examples.push({ features, label, testedAt: asOf });
+    });
+  }
+
+  return examples;
+}
+
+// =============================================================================
+// Logistic Regression
+// =============================================================================
+
+function sigmoid(z: number): number {
+  if (z >= 0) return 1 / (1 + Math.exp(-z));
+  const e = Math.exp(z);
+  return e / (1 + e);
+}
+
+/**
+ * Full-batch gradient descent with L2 regularization on standardized features
+ */
+export function trainLogisticRegression(
+  featureNames: string[],
+  X: number[][],
+  y: number[],
+  options: TrainingOptions = {}
+): LogisticModel {
+  const { l2 = 0.01, learningRate = 0.1, epochs = 500 } = options;
+  const n = X.length;
+  const d = featureNames.length;
+
+  const means = Array.from({ length: d }, (_, j) => X.reduce((sum, row) => sum + row[j], 0) / n);
+  const stds = Array.from({ length: d }, (_, j) => {
+    const variance = X.reduce((sum, row) => sum + Math.pow(row[j] - means[j], 2), 0) / n;
+    return Math.sqrt(variance) || 1;
+  });
+  const Z = X.map(row => row.map((v, j) => (v - means[j]) / stds[j]));
+
+  const coefficients = new Array(d).fill(0);
+  const positives = y.reduce((a, b) => a + b, 0);
+  // Start at the base rate so early epochs aren't spent learning the intercept
+  let intercept = positives > 0 && positives < n ? Math.log(positives / (n - positives)) : 0;
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const gradient = new Array(d).fill(0);
+    let interceptGradient = 0;
+
+    for (let i = 0; i < n; i++) {
+      let z = intercept;
+      for (let j = 0; j < d; j++) z += coefficients[j] * Z[i][j];
+      const error = sigmoid(z) - y[i];
+      interceptGradient += error;
+      for (let j = 0; j < d; j++) gradient[j] += error * Z[i][j];
+    }
+
+    intercept -= learningRate * (interceptGradient / n);
+    for (let j = 0; j < d; j++) {
+      coefficients[j] -= learningRate * (gradient[j] / n + l2 * coefficients[j]);
+    }
+  }
+
+  return { featureNames, means, stds, coefficients, intercept };
+}
+
+export function predictProbability(model: LogisticModel, features: number[]): number {
+  let z = model.intercept;
+  for (let j = 0; j < model.coefficients.length; j++) {
+    z += model.coefficients[j] * ((features[j] - model.means[j]) / model.stds[j]);
+  }
+  return sigmoid(z);
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Area under the ROC curve via the rank-sum formulation (ties averaged)
+ */
+function calculateAuc(probabilities: number[], labels: number[]): number | null {
+  const positives = labels.filter(l => l === 1).length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  const order = probabilities.map((p, i) => ({ p, label: labels[i] })).sort((a, b) => a.p - b.p);
+  let rankSum = 0;
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].p === order[i].p) j++;
+    const avgRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      if (order[k].label === 1) rankSum += avgRank;
+    }
+    i = j + 1;
+  }
+
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+/**
+ * Calibration metrics for predicted probabilities against observed labels
+ */
+export function evaluateCalibration(
+  probabilities: number[],
+  labels: number[],
+  binCount: number = 10
+): CalibrationMetrics {
+  const n = probabilities.length;
+  const positives = labels.filter(l => l === 1).length;
+  const round = (v: number) => Math.round(v * 10000) / 10000;
+
+  if (n === 0) {
+    return {
+      examples: 0, positives: 0, baseRate: 0, brierScore: 0, logLoss: 0,
+      auc: null, expectedCalibrationError: 0, bins: [],
+    };
+  }
+
+  const eps = 1e-15;
+  let brier = 0;
+  let logLoss = 0;
+  for (let i = 0; i < n; i++) {
+    const p = Math.min(1 - eps, Math.max(eps, probabilities[i]));
+    brier += Math.pow(probabilities[i] - labels[i], 2);
+    logLoss += -(labels[i] * Math.log(p) + (1 - labels[i]) * Math.log(1 - p));
+  }
+
+  const bins: CalibrationBin[] = [];
+  let ece = 0;
+  for (let b = 0; b < binCount; b++) {
+    const min = b / binCount;
+    const max = (b + 1) / binCount;
+    const members = probabilities
+      .map((p, i) => ({ p, label: labels[i] }))
+      .filter(({ p }) => p >= min && (b === binCount - 1 ? p <= max : p < max));
+    if (members.length === 0) continue;
+
+    const meanPredicted = members.reduce((sum, m) => sum + m.p, 0) / members.length;
+    const observedRate = members.filter(m => m.label === 1).length / members.length;
+    ece += (members.length / n) * Math.abs(meanPredicted - observedRate);
+    bins.push({
+      minPredicted: min,
+      maxPredicted: max,
+      count: members.length,
+      meanPredicted: round(meanPredicted),
+      observedRate: round(observedRate),
+    });
+  }
+
+  const auc = calculateAuc(probabilities, labels);
+
+  return {
+    examples: n,
+    positives,
+    baseRate: round(positives / n),
+    brierScore: round(brier / n),
+    logLoss: round(logLoss / n),
+    auc: auc === null ? null : round(auc),
+    expectedCalibrationError: round(ece),
+    bins,
+  };
+}
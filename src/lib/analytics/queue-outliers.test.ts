@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { detectQueueOutliers, type OutlierCandidate } from "./queue-outliers";
+
+const BASE_TIME = new Date("2026-06-01T15:00:00Z").getTime();
+
+function evenBatch(size: number): OutlierCandidate[] {
+  return Array.from({ length: size }, (_, i) => ({
+    id: `c${i}`,
+    position: (i + 1) * 1000,
+    testedAt: new Date(BASE_TIME + i * 1000),
+  }));
+}
+
+test("an evenly spread batch has no outliers", () => {
+  assert.deepEqual(detectQueueOutliers(evenBatch(30)), []);
+});
+
+test("a far-off position is a statistical outlier and a detached tail", () => {
+  const candidates = [
+    ...evenBatch(30),
+    { id: "far", position: 500000, testedAt: new Date(BASE_TIME) },
+  ];
+  const flags = detectQueueOutliers(candidates);
+
+  assert.equal(flags.length, 1);
+  assert.equal(flags[0].id, "far");
+  assert.deepEqual(flags[0].reasons.map(r => r.kind).sort(), ["DETACHED_TAIL", "STATISTICAL_OUTLIER"]);
+  assert.equal(flags[0].suggestedReason, "Outlier (detached tail)");
+  assert.ok(flags[0].score >= 1);
+});
+
+test("position checks are skipped for small batches", () => {
+  const candidates = [
+    ...evenBatch(5),
+    { id: "far", position: 500000, testedAt: new Date(BASE_TIME) },
+  ];
+  assert.deepEqual(detectQueueOutliers(candidates), []);
+});
+
+test("a position tested well after the batch is a late entry", () => {
+  const candidates = [
+    ...evenBatch(5),
+    { id: "late", position: 3500, testedAt: new Date(BASE_TIME + 2 * 60 * 60 * 1000) },
+  ];
+  const flags = detectQueueOutliers(candidates);
+
+  assert.equal(flags.length, 1);
+  assert.equal(flags[0].id, "late");
+  assert.equal(flags[0].reasons[0].kind, "LATE_ENTRY");
+  assert.equal(flags[0].suggestedReason, "Late entry");
+});
+
+test("options override the default thresholds", () => {
+  const candidates = [
+    ...evenBatch(5),
+    { id: "late", position: 3500, testedAt: new Date(BASE_TIME + 2 * 60 * 60 * 1000) },
+  ];
+  assert.deepEqual(detectQueueOutliers(candidates, { lateEntryMinutes: 180 }), []);
+});
@@ -0,0 +1,194 @@
+/**
+ * Automatic outlier detection for a queue batch.
+ *
+ * Flags positions that probably shouldn't count towards percentiles:
+ * - STATISTICAL_OUTLIER: far from the batch mean (z-score)
+ * - DETACHED_TAIL: a small cluster behind a gap that's large even by the
+ *   standards of gap-based tier detection
+ * - LATE_ENTRY: tested well after the rest of the batch (joined the queue late)
+ *
+ * Detection only suggests; flags are reviewed before anything is excluded.
+ */
+
+import { calculateDistributionStats, calculateGaps } from "./tier-detection";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type OutlierKind = "LATE_ENTRY" | "STATISTICAL_OUTLIER" | "DETACHED_TAIL";
+
+export interface OutlierCandidate {
+  id: string;
+  position: number;
+  testedAt: Date;
+}
+
+export interface OutlierReason {
+  kind: OutlierKind;
+  detail: string;
+}
+
+export interface OutlierFlag {
+  id: string;
+  position: number;
+  reasons: OutlierReason[];
+  suggestedReason: string;  // Proposed excludedReason
+  score: number;            // Strongest signal, >= 1 means past its threshold
+}
+
+export interface OutlierDetectionOptions {
+  zScoreThreshold?: number;        // |z| above this is a statistical outlier
+  gapSignificance?: number;        // Gap must be N times the median gap (as in detectTiersGapBased)
+  maxTailFraction?: number;        // Only tails this small (share of the batch) are "detached"
+  lateEntryMinutes?: number;       // Minimum delay after the batch's median testedAt
+  lateEntryMadMultiplier?: number; // ...or this many MADs of testedAt, whichever is larger
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+export const DEFAULT_OUTLIER_OPTIONS: Required<OutlierDetectionOptions> = {
+  zScoreThreshold: 3,
+  gapSignificance: 3,
+  maxTailFraction: 0.05,
+  lateEntryMinutes: 30,
+  lateEntryMadMultiplier: 5,
+};
+
+// Batches smaller than this are too noisy for position-based checks
+const MIN_BATCH_SIZE = 10;
+
+const SUGGESTED_REASONS: Record<OutlierKind, string> = {
+  LATE_ENTRY: "Late entry",
+  STATISTICAL_OUTLIER: "Outlier",
+  DETACHED_TAIL: "Outlier (detached tail)",
+};
+
+// Precedence when a position trips several checks
+const KIND_PRIORITY: OutlierKind[] = ["LATE_ENTRY", "DETACHED_TAIL", "STATISTICAL_OUTLIER"];
+
+const MINUTE_MS = 60 * 1000;
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+function median(sorted: number[]): number {
+  const n = sorted.length;
+  return n % 2 === 0 ? (sorted[n / 2 - 1] + sorted[n / 2]) / 2 : sorted[Math.floor(n / 2)];
+}
+
+function formatMinutes(ms: number): string {
+  const minutes = Math.round(ms / MINUTE_MS);
+  return minutes >= 120 ? `${(minutes / 60).toFixed(1)}h` : `${minutes}m`;
+}
+
+/**
+ * Position at which the detached tail starts, or null if there isn't one.
+ * The tail is everything behind the largest significant gap that leaves only
+ * a small share of the batch behind it.
+ */
+function findDetachedTailStart(
+  sortedPositions: number[],
+  gapSignificance: number,
+  maxTailFraction: number
+): number | null {
+  const gaps = calculateGaps(sortedPositions);
+  if (gaps.length === 0) return null;
+
+  const sortedGaps = gaps.map(g => g.gap).sort((a, b) => a - b);
+  const medianGap = sortedGaps[Math.floor(sortedGaps.length / 2)];
+  const meanGap = sortedGaps.reduce((a, b) => a + b, 0) / sortedGaps.length;
+  const threshold = Math.max(medianGap * gapSignificance, meanGap * 2);
+
+  const maxTail = Math.max(1, Math.floor(sortedPositions.length * maxTailFraction));
+  // Largest significant gap with a small enough tail behind it
+  let best: { gap: number; position: number } | null = null;
+  for (const g of gaps) {
+    const tailSize = sortedPositions.length - g.index;
+    if (tailSize > maxTail || g.gap <= threshold) continue;
+    if (!best || g.gap > best.gap) best = g;
+  }
+  return best?.position ?? null;
+}
+
+/**
+ * Flag suspicious positions in one batch. Pass only non-excluded positions -
+ * the statistics should describe the data that's actually being used.
+ */
+export function detectQueueOutliers(
+  candidates: OutlierCandidate[],
+  options: OutlierDetectionOptions = {}
+): OutlierFlag[] {
+  const opts = { ...DEFAULT_OUTLIER_OPTIONS, ...options };
+  const reasons = new Map<string, { reasons: OutlierReason[]; score: number }>();
+  const addReason = (id: string, reason: OutlierReason, score: number) => {
+    const existing = reasons.get(id) || { reasons: [], score: 0 };
+    existing.reasons.push(reason);
+    existing.score = Math.max(existing.score, score);
+    reasons.set(id, existing);
+  };
+
+  if (candidates.length >= MIN_BATCH_SIZE) {
+    const stats = calculateDistributionStats(candidates.map(c => c.position));
+
+    // Statistical outliers
+    if (stats.stdDev > 0) {
+      for (const c of candidates) {
+        const z = (c.position - stats.mean) / stats.stdDev;
+        if (Math.abs(z) > opts.zScoreThreshold) {
+          addReason(c.id, {
+            kind: "STATISTICAL_OUTLIER",
+            detail: `z-score ${z.toFixed(1)} (mean ${Math.round(stats.mean).toLocaleString()}, σ ${Math.round(stats.stdDev).toLocaleString()})`,
+          }, Math.abs(z) / opts.zScoreThreshold);
+        }
+      }
+    }
+
+    // Detached tail
+    const tailStart = findDetachedTailStart(stats.positions, opts.gapSignificance, opts.maxTailFraction);
+    if (tailStart !== null) {
+      const tail = candidates.filter(c => c.position >= tailStart);
+      for (const c of tail) {
+        addReason(c.id, {
+          kind: "DETACHED_TAIL",
+          detail: `One of ${tail.length} positions behind a gap (tail starts at #${tailStart.toLocaleString()})`,
+        }, 1);
+      }
+    }
+  }
+
+  // Late entries - the testedAt spread works for any batch size
+  if (candidates.length >= 2) {
+    const times = candidates.map(c => c.testedAt.getTime()).sort((a, b) => a - b);
+    const medianTime = median(times);
+    const mad = median(times.map(t => Math.abs(t - medianTime)).sort((a, b) => a - b));
+    const threshold = Math.max(opts.lateEntryMinutes * MINUTE_MS, mad * opts.lateEntryMadMultiplier);
+
+    for (const c of candidates) {
+      const delay = c.testedAt.getTime() - medianTime;
+      if (delay > threshold) {
+        addReason(c.id, {
+          kind: "LATE_ENTRY",
+          detail: `Tested ${formatMinutes(delay)} after the batch median`,
+        }, delay / threshold);
+      }
+    }
+  }
+
+  const byId = new Map(candidates.map(c => [c.id, c]));
+  return [...reasons.entries()]
+    .map(([id, r]) => {
+      const primary = KIND_PRIORITY.find(kind => r.reasons.some(reason => reason.kind === kind))!;
+      return {
+        id,
+        position: byId.get(id)!.position,
+        reasons: r.reasons,
+        suggestedReason: SUGGESTED_REASONS[primary],
+        score: Math.round(r.score * 100) / 100,
+      };
+    })
+    .sort((a, b) => a.position - b.position);
+}
@@ -0,0 +1,167 @@
+/**
+ * Auth Policy
+ *
+ * Route → required access, enforced by src/proxy.ts. Kept free of server
+ * imports so client components (e.g. the sidebar) can use the role helpers.
+ *
+ * Roles (each includes the ones below it):
+ * - admin:    everything, incl. /api/admin, audit log, user + API key management
+ * - operator: all reads and writes except the admin-only routes
+ * - viewer:   read-only (GET), no card data or exports
+ *
+ * Daemon endpoints accept a per-worker API key (x-api-key header) with the
+ * matching scope instead of a login session.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const USER_ROLES = ["admin", "operator", "viewer"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const API_KEY_SCOPES = ["checkout", "generator"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export type RouteAccess =
+  | { type: "public" }
+  | { type: "role"; role: UserRole }
+  | { type: "worker"; scope: ApiKeyScope; allowSession: UserRole | null };
+
+// Headers set by the proxy for downstream route handlers (stripped from incoming requests)
+export const AUTH_HEADERS = {
+  USER_ID: "x-auth-user-id",
+  USERNAME: "x-auth-username",
+  ROLE: "x-auth-role",
+  WORKER: "x-auth-worker",
+} as const;
+
+export const SESSION_COOKIE = "tm_session";
+
+// =============================================================================
+// Route Tables
+// =============================================================================
+
+const PUBLIC_PATHS = ["/login", "/api/auth/login", "/api/auth/logout"];
+
+/**
+ * Endpoints called by the VPS daemons.
+ * allowSession: dashboard users with this role may also call it (null = API key only)
+ */
+const WORKER_ROUTES: Array<{
+  method: string;
+  pattern: RegExp;
+  scope: ApiKeyScope;
+  allowSession: UserRole | null;
+}> = [
+  { method: "POST", pattern: /^\/api\/checkout\/webhook$/, scope: "checkout", allowSession: null },
+  { method: "POST", pattern: /^\/api\/checkout\/runs$/, scope: "checkout", allowSession: "operator" },
+  { method: "PATCH", pattern: /^\/api\/checkout\/runs$/, scope: "checkout", allowSession: "operator" },
+  { method: "GET", pattern: /^\/api\/checkout\/config$/, scope: "checkout", allowSession: "viewer" },
+  { method: "PATCH", pattern: /^\/api\/checkout\/jobs\/[^/]+$/, scope: "checkout", allowSession: "operator" },
+  { method: "POST", pattern: /^\/api\/checkout\/jobs\/[^/]+\/link$/, scope: "checkout", allowSession: "operator" },
+  { method: "GET", pattern: /^\/api\/checkout\/pairing$/, scope: "checkout", allowSession: "viewer" },
+  { method: "POST", pattern: /^\/api\/checkout\/pairing$/, scope: "checkout", allowSession: "operator" },
+  { method: "POST", pattern: /^\/api\/checkout\/jobs\/claim$/, scope: "checkout", allowSession: null },
+  { method: "POST", pattern: /^\/api\/checkout\/heartbeat$/, scope: "checkout", allowSession: null },
+  { method: "POST", pattern: /^\/api\/generator\/webhook$/, scope: "generator", allowSession: null },
+  { method: "POST", pattern: /^\/api\/generator\/runs$/, scope: "generator", allowSession: "operator" },
+  { method: "GET", pattern: /^\/api\/generator\/config$/, scope: "generator", allowSession: "viewer" },
+  { method: "POST", pattern: /^\/api\/generator\/tasks\/claim$/, scope: "generator", allowSession: null },
+  { method: "POST", pattern: /^\/api\/generator\/heartbeat$/, scope: "generator", allowSession: null },
+];
+
+const ADMIN_PREFIXES = [
+  "/api/admin",
+  "/api/audit-log",
+  "/api/auth/users",
+  "/api/auth/api-keys",
+  "/api/notifications",
+  "/audit-log",
+  "/access",
+  "/notifications",
+];
+
+// Read endpoints that return full card data or bulk exports - not for viewers
+const SENSITIVE_READ_PREFIXES = [
+  "/api/cards",
+  "/api/card-tags",
+  "/api/export",
+  "/api/checkout/export",
+  "/api/generator/completed-tasks",
+];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+export function isValidRole(role: string): role is UserRole {
+  return (USER_ROLES as readonly string[]).includes(role);
+}
+
+export function isValidScope(scope: string): scope is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(scope);
+}
+
+/**
+ * Whether `role` is at least `required`
+ */
+export function hasRole(role: string | null | undefined, required: UserRole): boolean {
+  if (!role || !isValidRole(role)) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+function matchesPrefix(pathname: string, prefixes: string[]): boolean {
+  return prefixes.some((p) => pathname === p || pathname.startsWith(`${p}/`));
+}
+
+/**
+ * Resolve what a request needs to be allowed through
+ */
+export function getRouteAccess(method: string, pathname: string): RouteAccess {
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return { type: "public" };
+  }
+
+  const workerRoute = WORKER_ROUTES.find(
+    (r) => r.method === method && r.pattern.test(pathname)
+  );
+  if (workerRoute) {
+    return { type: "worker", scope: workerRoute.scope, allowSession: workerRoute.allowSession };
+  }
+
+  if (matchesPrefix(pathname, ADMIN_PREFIXES)) {
+    return { type: "role", role: "admin" };
+  }
+
+  const isRead = method === "GET" || method === "HEAD";
+  if (!pathname.startsWith("/api") || (isRead && !matchesPrefix(pathname, SENSITIVE_READ_PREFIXES))) {
+    return { type: "role", role: "viewer" };
+  }
+
+  return { type: "role", role: "operator" };
+}
+
+/**
+ * Identity forwarded by the proxy for the current request
+ */
+export function getRequestIdentity(headers: Headers): {
+  userId: string | null;
+  username: string | null;
+  role: UserRole | null;
+  worker: string | null;
+} {
+  const role = headers.get(AUTH_HEADERS.ROLE);
+  return {
+    userId: headers.get(AUTH_HEADERS.USER_ID),
+    username: headers.get(AUTH_HEADERS.USERNAME),
+    role: role && isValidRole(role) ? role : null,
+    worker: headers.get(AUTH_HEADERS.WORKER),
+  };
+}
@@ -9,3 +9,4 @@ export { parsePurchasesFile, type PurchaseEntry } from "./parse-purchases";
 export { parseAccountsFile, type AccountEntry } from "./parse-accounts";
 export { parseImapConfig, type ImapCredentialEntry, type ImapConfigResult } from "./parse-imap-config";
 export { parseEmailCsvFile, type EmailCsvEntry, type EmailCsvParseResult } from "./parse-email-csv";
+export { parseRemittanceStatement, type RemittanceEntry } from "./parse-remittance-statement";
@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseRemittanceStatement } from "./parse-remittance-statement";
+
+test("parses credits with alternate column names", () => {
+  const csv = [
+    "Posting Date,Credit,Memo,Invoice #",
+    "2026-03-02,\"$1,234.56\",TICKETNETWORK PAYOUT,100234",
+    "03/05/2026,80.00,  ,",
+  ].join("\n");
+  const result = parseRemittanceStatement(csv);
+
+  assert.equal(result.success, true);
+  assert.equal(result.entries.length, 2);
+  assert.deepEqual(result.entries[0], {
+    line: 2,
+    date: new Date(Date.UTC(2026, 2, 2)),
+    amount: 1234.56,
+    description: "TICKETNETWORK PAYOUT",
+    reference: "100234",
+  });
+  assert.equal(result.entries[1].date.toISOString(), "2026-03-05T00:00:00.000Z");
+  assert.equal(result.entries[1].description, null);
+  assert.equal(result.entries[1].reference, null);
+});
+
+test("skips debits, zero rows and empty credits", () => {
+  const csv = [
+    "Date,Amount,Description",
+    "2026-03-02,-45.00,Fee",
+    "2026-03-02,(12.00),Chargeback",
+    "2026-03-03,0,Adjustment",
+    "2026-03-03,,Pending",
+    "2026-03-04,500,Payout",
+  ].join("\n");
+  const result = parseRemittanceStatement(csv);
+
+  assert.equal(result.entries.length, 1);
+  assert.equal(result.entries[0].amount, 500);
+  assert.deepEqual(result.stats, { total: 5, parsed: 1, skipped: 4 });
+});
+
+test("reports rows with invalid dates", () => {
+  const csv = ["Date,Amount", "not a date,100", "2026-03-04,200"].join("\n");
+  const result = parseRemittanceStatement(csv);
+
+  assert.equal(result.entries.length, 1);
+  assert.equal(result.errors.length, 1);
+  assert.equal(result.errors[0].line, 2);
+  assert.match(result.errors[0].message, /Invalid date/);
+});
+
+test("fails without a date or amount column", () => {
+  const result = parseRemittanceStatement(["Memo,Reference", "Payout,123"].join("\n"));
+  assert.equal(result.success, false);
+  assert.match(result.errors[0].message, /date column/);
+});
+
+test("fails when no credits are found", () => {
+  const result = parseRemittanceStatement(["Date,Amount", "2026-03-02,-10"].join("\n"));
+  assert.equal(result.success, false);
+  assert.equal(result.entries.length, 0);
+});
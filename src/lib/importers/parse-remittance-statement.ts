@@ -0,0 +1,128 @@
+/**
+ * Parser for bank / remittance statement CSV files
+ * Column names vary by bank, so each field accepts a few common headers:
+ * Date | Posting Date | Transaction Date | Payment Date | Remittance Date,
+ * Amount | Credit | Deposit | Payout | Net Amount,
+ * Description | Memo | Details | Payee | Name,
+ * Reference | Ref | Invoice | Invoice Number | Transaction ID | Check Number
+ *
+ * Only credits are kept - debits and zero rows are skipped.
+ */
+
+import Papa from "papaparse";
+import type { ParseResult } from "./types";
+
+export interface RemittanceEntry {
+  line: number;
+  date: Date;
+  amount: number;
+  description: string | null;
+  reference: string | null;
+}
+
+const DATE_HEADERS = ["date", "posting date", "posted date", "transaction date", "payment date", "remittance date", "deposit date"];
+const AMOUNT_HEADERS = ["amount", "credit", "credit amount", "deposit", "deposits", "payout", "net amount", "net payout"];
+const DESCRIPTION_HEADERS = ["description", "memo", "details", "payee", "name", "narrative"];
+const REFERENCE_HEADERS = ["reference", "ref", "invoice", "invoice number", "invoice #", "transaction id", "check number"];
+
+function findColumn(headers: string[], candidates: string[]): string | null {
+  return headers.find((h) => candidates.includes(h.toLowerCase())) || null;
+}
+
+/**
+ * Parse amounts like "$1,234.56", "(12.00)" and "-12.00"
+ */
+function parseAmount(val: string | undefined): number | null {
+  if (!val || val.trim() === "") return null;
+  const trimmed = val.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith("-");
+  const parsed = parseFloat(trimmed.replace(/[$,()\s-]/g, ""));
+  if (isNaN(parsed)) return null;
+  return negative ? -parsed : parsed;
+}
+
+/**
+ * Parse dates as a UTC day: YYYY-MM-DD or MM/DD/YYYY (what US bank exports use)
+ */
+function parseDate(val: string | undefined): Date | null {
+  if (!val) return null;
+  const trimmed = val.trim();
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+  }
+
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+  if (us) {
+    const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+    return new Date(Date.UTC(year, Number(us[1]) - 1, Number(us[2])));
+  }
+
+  const parsed = new Date(trimmed);
+  if (isNaN(parsed.getTime())) return null;
+  return new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()));
+}
+
+export function parseRemittanceStatement(content: string): ParseResult<RemittanceEntry> {
+  const result = Papa.parse<Record<string, string>>(content, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim(),
+  });
+
+  const entries: RemittanceEntry[] = [];
+  const errors: ParseResult<RemittanceEntry>["errors"] = [];
+  let skipped = 0;
+
+  const headers = result.meta.fields || [];
+  const dateCol = findColumn(headers, DATE_HEADERS);
+  const amountCol = findColumn(headers, AMOUNT_HEADERS);
+  const descriptionCol = findColumn(headers, DESCRIPTION_HEADERS);
+  const referenceCol = findColumn(headers, REFERENCE_HEADERS);
+
+  if (!dateCol || !amountCol) {
+    return {
+      success: false,
+      entries,
+      errors: [{ line: 1, message: "Statement needs a date column and an amount/credit column", raw: headers.join(",") }],
+      stats: { total: result.data.length, parsed: 0, skipped: result.data.length },
+    };
+  }
+
+  result.data.forEach((row, index) => {
+    const line = index + 2; // Header is line 1
+
+    const date = parseDate(row[dateCol]);
+    if (!date) {
+      errors.push({ line, message: `Invalid date: ${row[dateCol] || "(empty)"}`, raw: JSON.stringify(row) });
+      return;
+    }
+
+    // Debits are negative (or empty in a separate Credit column)
+    const amount = parseAmount(row[amountCol]);
+    if (amount === null || amount <= 0) {
+      skipped++;
+      return;
+    }
+
+    entries.push({
+      line,
+      date,
+      amount: Math.round(amount * 100) / 100,
+      description: (descriptionCol && row[descriptionCol]?.trim()) || null,
+      reference: (referenceCol && row[referenceCol]?.trim()) || null,
+    });
+  });
+
+  return {
+    success: entries.length > 0,
+    entries,
+    errors,
+    stats: {
+      total: result.data.length,
+      parsed: entries.length,
+      skipped: skipped + errors.length,
+    },
+  };
+}
@@ -7,6 +7,7 @@
  */
 
 import prisma from "@/lib/db";
+import { decryptField } from "./field-encryption";
 import {
   TicketVaultApi,
   TicketVaultPurchaseAccount,
@@ -208,7 +209,7 @@ export async function importAccountToPos(accountId: string): Promise<AccountImpo
     // Create the account in POS
     const result = await TicketVaultApi.savePurchaseAccount(
       account.email,
-      account.password,
+      decryptField(account.password),
       PURCHASE_SITES.TICKETMASTER
     );
 
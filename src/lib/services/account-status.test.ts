@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AccountStatus } from "@prisma/client";
+import {
+  ACCOUNT_STATUS_TRANSITIONS,
+  canTransition,
+  changeAccountStatus,
+  isAssignableStatus,
+} from "./account-status";
+
+const ALL_STATUSES = Object.values(AccountStatus);
+
+test("every status has a transition entry", () => {
+  assert.deepEqual(Object.keys(ACCOUNT_STATUS_TRANSITIONS).sort(), [...ALL_STATUSES].sort());
+});
+
+test("staying on the same status is always allowed", () => {
+  for (const status of ALL_STATUSES) {
+    assert.equal(canTransition(status, status), true, status);
+  }
+});
+
+test("BANNED can only be retired without an override", () => {
+  for (const to of ALL_STATUSES) {
+    const expected = to === AccountStatus.BANNED || to === AccountStatus.INACTIVE;
+    assert.equal(canTransition(AccountStatus.BANNED, to), expected, to);
+  }
+});
+
+test("nothing moves back to PENDING", () => {
+  for (const from of ALL_STATUSES) {
+    if (from === AccountStatus.PENDING) continue;
+    assert.equal(canTransition(from, AccountStatus.PENDING), false, from);
+  }
+});
+
+test("suspended and inactive accounts can be reactivated", () => {
+  assert.equal(canTransition(AccountStatus.SUSPENDED, AccountStatus.ACTIVE), true);
+  assert.equal(canTransition(AccountStatus.INACTIVE, AccountStatus.ACTIVE), true);
+  assert.equal(canTransition(AccountStatus.PENDING, AccountStatus.ACTIVE), true);
+});
+
+test("only ACTIVE accounts are assignable", () => {
+  for (const status of ALL_STATUSES) {
+    assert.equal(isAssignableStatus(status), status === AccountStatus.ACTIVE, status);
+  }
+});
+
+test("changeAccountStatus rejects unknown statuses before touching the database", async () => {
+  const result = await changeAccountStatus("account", "DELETED" as AccountStatus);
+  assert.deepEqual(result, { success: false, error: "Invalid status: DELETED" });
+});
@@ -0,0 +1,233 @@
+/**
+ * Account Status Lifecycle
+ *
+ * The only place account status should change. Enforces the transition
+ * rules below and records every change in account_status_changes with who
+ * or what made it and why.
+ *
+ * Checkout reacts automatically: a failed job with a ban-type error code
+ * suspends its account, and only ACTIVE accounts are assigned to jobs.
+ */
+
+import prisma from "@/lib/db";
+import { AccountStatus, Prisma } from "@prisma/client";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type StatusChangeSource = "manual" | "checkout" | "bulk" | "system";
+
+export interface StatusChangeOptions {
+  reason?: string | null;
+  source?: StatusChangeSource;
+  actor?: string | null;
+  override?: boolean;          // Allow a transition outside the rules (reason required)
+  checkoutJobId?: string | null;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+/**
+ * Allowed transitions without an override. BANNED is terminal apart from
+ * retiring the account - un-banning needs an explicit override.
+ */
+export const ACCOUNT_STATUS_TRANSITIONS: Record<AccountStatus, AccountStatus[]> = {
+  PENDING: [AccountStatus.ACTIVE, AccountStatus.SUSPENDED, AccountStatus.BANNED, AccountStatus.INACTIVE],
+  ACTIVE: [AccountStatus.SUSPENDED, AccountStatus.BANNED, AccountStatus.INACTIVE],
+  SUSPENDED: [AccountStatus.ACTIVE, AccountStatus.BANNED, AccountStatus.INACTIVE],
+  INACTIVE: [AccountStatus.ACTIVE, AccountStatus.SUSPENDED, AccountStatus.BANNED],
+  BANNED: [AccountStatus.INACTIVE],
+};
+
+// Statuses the checkout flow may assign jobs to
+export const ASSIGNABLE_ACCOUNT_STATUSES: AccountStatus[] = [AccountStatus.ACTIVE];
+
+// Checkout error codes that mean the account itself was blocked.
+// Overridable with the "ban_error_codes" checkout config (JSON array).
+export const DEFAULT_BAN_ERROR_CODES = [
+  "ACCOUNT_BANNED",
+  "ACCOUNT_SUSPENDED",
+  "ACCOUNT_LOCKED",
+  "SOFT_BAN",
+];
+
+// =============================================================================
+// Transitions
+// =============================================================================
+
+export function canTransition(from: AccountStatus, to: AccountStatus): boolean {
+  return from === to || ACCOUNT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function isAssignableStatus(status: AccountStatus): boolean {
+  return ASSIGNABLE_ACCOUNT_STATUSES.includes(status);
+}
+
+/**
+ * Change an account's status, enforcing the transition rules.
+ * Setting the current status again is a no-op (changed: false).
+ * Pass `tx` to make the change part of a larger transaction.
+ */
+export async function changeAccountStatus(
+  accountId: string,
+  to: AccountStatus,
+  options: StatusChangeOptions = {},
+  tx?: Prisma.TransactionClient
+) {
+  if (!Object.values(AccountStatus).includes(to)) {
+    return { success: false as const, error: `Invalid status: ${to}` };
+  }
+
+  const db = tx || prisma;
+  const account = await db.account.findUnique({
+    where: { id: accountId },
+    select: { id: true, status: true },
+  });
+  if (!account) return { success: false as const, error: "Account not found" };
+
+  const from = account.status;
+  if (from === to) {
+    return { success: true as const, changed: false, from, to };
+  }
+
+  const allowed = canTransition(from, to);
+  const reason = options.reason?.trim() || null;
+  if (!allowed && !options.override) {
+    return {
+      success: false as const,
+      error: `Cannot change status from ${from} to ${to} without an override`,
+    };
+  }
+  if (!allowed && !reason) {
+    return { success: false as const, error: "A reason is required to override the status rules" };
+  }
+
+  // Only update if the status hasn't moved underneath us (e.g. two failed jobs at once)
+  const apply = async (client: Prisma.TransactionClient) => {
+    const updated = await client.account.updateMany({
+      where: { id: accountId, status: from },
+      data: { status: to },
+    });
+    if (updated.count === 0) return false;
+
+    await client.accountStatusChange.create({
+      data: {
+        accountId,
+        fromStatus: from,
+        toStatus: to,
+        reason,
+        source: options.source || "manual",
+        actor: options.actor || null,
+        override: !allowed,
+        checkoutJobId: options.checkoutJobId || null,
+      },
+    });
+    return true;
+  };
+  const applied = tx ? await apply(tx) : await prisma.$transaction(apply);
+
+  if (!applied) {
+    return { success: false as const, error: "Account status changed concurrently - try again" };
+  }
+
+  console.log(
+    `[AccountStatus] ${accountId}: ${from} -> ${to} (${options.source || "manual"}${!allowed ? ", override" : ""})` +
+      (reason ? ` - ${reason}` : "")
+  );
+
+  return { success: true as const, changed: true, from, to };
+}
+
+/**
+ * Change several accounts at once. Accounts whose transition isn't allowed
+ * are skipped and reported rather than failing the batch.
+ */
+export async function changeAccountStatuses(
+  accountIds: string[],
+  to: AccountStatus,
+  options: StatusChangeOptions = {}
+) {
+  let changed = 0;
+  const errors: string[] = [];
+
+  for (const accountId of accountIds) {
+    const result = await changeAccountStatus(accountId, to, options);
+    if (!result.success) errors.push(`${accountId}: ${result.error}`);
+    else if (result.changed) changed++;
+  }
+
+  return { changed, errors };
+}
+
+export async function getAccountStatusHistory(accountId: string, limit: number = 50) {
+  return prisma.accountStatusChange.findMany({
+    where: { accountId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
+
+// =============================================================================
+// Checkout Integration
+// =============================================================================
+
+export async function getBanErrorCodes(): Promise<string[]> {
+  const config = await prisma.checkoutConfig.findUnique({ where: { key: "ban_error_codes" } });
+  if (!config?.value) return DEFAULT_BAN_ERROR_CODES;
+  try {
+    const codes = JSON.parse(config.value);
+    return Array.isArray(codes) ? codes.map(c => String(c).toUpperCase()) : DEFAULT_BAN_ERROR_CODES;
+  } catch {
+    return DEFAULT_BAN_ERROR_CODES;
+  }
+}
+
+/**
+ * Suspend the job's account if the checkout failed with a ban-type error.
+ * Safe to call more than once for the same job.
+ */
+export async function handleCheckoutFailure(job: {
+  id: string;
+  accountId: string | null;
+  errorCode: string | null;
+  errorMessage?: string | null;
+}) {
+  if (!job.accountId || !job.errorCode) return { suspended: false };
+
+  const banCodes = await getBanErrorCodes();
+  if (!banCodes.includes(job.errorCode.toUpperCase())) return { suspended: false };
+
+  const account = await prisma.account.findUnique({
+    where: { id: job.accountId },
+    select: { status: true },
+  });
+  // Already out of rotation (suspended, banned, retired) - nothing to do
+  const inRotation: AccountStatus[] = [AccountStatus.ACTIVE, AccountStatus.PENDING];
+  if (!account || !inRotation.includes(account.status)) {
+    return { suspended: false };
+  }
+
+  const result = await changeAccountStatus(job.accountId, AccountStatus.SUSPENDED, {
+    reason: `Checkout failed with ${job.errorCode}${job.errorMessage ? `: ${job.errorMessage}` : ""}`,
+    source: "checkout",
+    checkoutJobId: job.id,
+  });
+
+  return { suspended: result.success && result.changed };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const AccountStatusLifecycle = {
+  canTransition,
+  isAssignable: isAssignableStatus,
+  change: changeAccountStatus,
+  changeMany: changeAccountStatuses,
+  history: getAccountStatusHistory,
+  handleCheckoutFailure,
+};
@@ -0,0 +1,581 @@
+/**
+ * Accounting Export
+ *
+ * Builds journal entries for a date range and renders them as QuickBooks IIF
+ * or a Xero manual journal CSV:
+ *
+ * - PURCHASE:   Dr Inventory / Cr card account (successful purchases, by card)
+ * - SALE:       Dr Receivable (net payout) + Dr Fees / Cr Revenue (gross)
+ * - COGS:       Dr COGS / Cr Inventory - cost from our Purchase records,
+ *               falling back to invoice.totalCost (see getSalesStats)
+ * - REMITTANCE: Dr Bank / Cr Receivable on the invoice's remittance date
+ * - REVERSAL:   SALE + COGS reversed on the date the invoice was cancelled
+ *
+ * Account names/codes come from the `accounting_account_mapping` setting.
+ * Every export is stored with its mapping snapshot and exact content, and
+ * versioned per format + period. Entries are sorted deterministically, so
+ * re-running an unchanged period returns the existing version instead of
+ * creating a new one.
+ *
+ * Dates are UTC days; the period end is stored exclusive.
+ */
+
+import { createHash } from "crypto";
+import prisma from "@/lib/db";
+import { PurchaseStatus } from "@prisma/client";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AccountingFormat = "IIF" | "XERO_CSV";
+
+export type JournalKind = "PURCHASE" | "SALE" | "COGS" | "REMITTANCE" | "REVERSAL";
+
+export interface AccountMapping {
+  inventory: string;
+  cardDefault: string;             // Card purchases with no per-card mapping
+  cards: Record<string, string>;   // Card last 4 -> account
+  receivable: string;              // Payouts owed by TicketVault
+  revenue: string;
+  fees: string;
+  cogs: string;
+  bank: string;                    // Where remittances land
+  xeroTaxRate: string;             // Xero *TaxRate column
+}
+
+export interface JournalLine {
+  account: string;
+  amount: number;                  // Debit positive, credit negative
+}
+
+export interface JournalEntry {
+  kind: JournalKind;
+  date: Date;
+  ref: string;                     // Unique per entry (becomes DOCNUM / Xero narration)
+  name: string | null;             // Payee/customer
+  memo: string;
+  lines: JournalLine[];
+}
+
+export interface CreateExportInput {
+  format: string;
+  from: string;                    // YYYY-MM-DD, inclusive
+  to: string;                      // YYYY-MM-DD, inclusive
+  createdBy?: string | null;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+export const ACCOUNTING_SETTINGS = {
+  MAPPING: "accounting_account_mapping",
+} as const;
+
+export const ACCOUNTING_FORMATS: AccountingFormat[] = ["IIF", "XERO_CSV"];
+
+export const DEFAULT_ACCOUNT_MAPPING: AccountMapping = {
+  inventory: "Inventory Asset",
+  cardDefault: "Credit Card Clearing",
+  cards: {},
+  receivable: "Accounts Receivable - TicketVault",
+  revenue: "Ticket Sales",
+  fees: "Marketplace Fees",
+  cogs: "Cost of Goods Sold",
+  bank: "Checking",
+  xeroTaxRate: "Tax Exempt",
+};
+
+const KIND_ORDER: Record<JournalKind, number> = {
+  PURCHASE: 0,
+  SALE: 1,
+  COGS: 2,
+  REMITTANCE: 3,
+  REVERSAL: 4,
+};
+
+const MAX_PERIOD_DAYS = 366;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function parseDay(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function formatDay(date: Date): string {
+  const mm = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const dd = String(date.getUTCDate()).padStart(2, "0");
+  return `${mm}/${dd}/${date.getUTCFullYear()}`;
+}
+
+/**
+ * Drop zero lines; returns null when nothing is left to post
+ */
+function entry(
+  kind: JournalKind,
+  date: Date,
+  ref: string,
+  name: string | null,
+  memo: string,
+  lines: JournalLine[]
+): JournalEntry | null {
+  const posted = lines
+    .map((l) => ({ account: l.account, amount: round2(l.amount) }))
+    .filter((l) => l.amount !== 0);
+  if (posted.length === 0) return null;
+  return { kind, date, ref, name, memo, lines: posted };
+}
+
+function reverse(original: JournalEntry, date: Date, ref: string): JournalEntry {
+  return {
+    kind: "REVERSAL",
+    date,
+    ref,
+    name: original.name,
+    memo: `Reversal: ${original.memo}`,
+    lines: original.lines.map((l) => ({ account: l.account, amount: -l.amount })),
+  };
+}
+
+// =============================================================================
+// Account Mapping
+// =============================================================================
+
+/**
+ * Stored mapping merged over the defaults
+ */
+export async function getAccountMapping(): Promise<AccountMapping> {
+  const setting = await prisma.setting.findUnique({
+    where: { key: ACCOUNTING_SETTINGS.MAPPING },
+  });
+  if (!setting) return { ...DEFAULT_ACCOUNT_MAPPING };
+
+  try {
+    const stored = JSON.parse(setting.value) as Partial<AccountMapping>;
+    return { ...DEFAULT_ACCOUNT_MAPPING, ...stored, cards: { ...(stored.cards || {}) } };
+  } catch {
+    console.warn("[AccountingExport] Invalid account mapping setting, using defaults");
+    return { ...DEFAULT_ACCOUNT_MAPPING };
+  }
+}
+
+/**
+ * Validate and store the account mapping
+ */
+export async function saveAccountMapping(input: unknown) {
+  if (!input || typeof input !== "object") {
+    return { success: false as const, error: "mapping must be an object" };
+  }
+  const raw = input as Record<string, unknown>;
+  const mapping = { ...DEFAULT_ACCOUNT_MAPPING, cards: {} as Record<string, string> };
+
+  const stringKeys = Object.keys(DEFAULT_ACCOUNT_MAPPING).filter(
+    (k) => k !== "cards"
+  ) as Exclude<keyof AccountMapping, "cards">[];
+  for (const key of stringKeys) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] !== "string" || !(raw[key] as string).trim()) {
+      return { success: false as const, error: `${key} must be a non-empty account name or code` };
+    }
+    mapping[key] = (raw[key] as string).trim();
+  }
+
+  if (raw.cards !== undefined) {
+    if (!raw.cards || typeof raw.cards !== "object" || Array.isArray(raw.cards)) {
+      return { success: false as const, error: "cards must map card last 4 digits to an account" };
+    }
+    for (const [last4, account] of Object.entries(raw.cards as Record<string, unknown>)) {
+      if (!/^\d{4}$/.test(last4)) {
+        return { success: false as const, error: `Invalid card last 4: ${last4}` };
+      }
+      if (typeof account !== "string" || !account.trim()) {
+        return { success: false as const, error: `Card ${last4} needs an account` };
+      }
+      mapping.cards[last4] = account.trim();
+    }
+  }
+
+  const value = JSON.stringify(mapping);
+  await prisma.setting.upsert({
+    where: { key: ACCOUNTING_SETTINGS.MAPPING },
+    update: { value },
+    create: { key: ACCOUNTING_SETTINGS.MAPPING, value },
+  });
+
+  return { success: true as const, mapping };
+}
+
+// =============================================================================
+// Journal
+// =============================================================================
+
+/**
+ * Our cost for each invoice, from the purchases behind its sales.
+ * Invoices with no linked purchase fall back to TicketVault's totalCost.
+ */
+async function getInvoiceCosts(invoiceNumbers: number[]): Promise<Map<number, number>> {
+  const costs = new Map<number, number>();
+  if (invoiceNumbers.length === 0) return costs;
+
+  const sales = await prisma.sale.findMany({
+    where: { invoiceNumber: { in: invoiceNumbers } },
+    select: {
+      invoiceNumber: true,
+      quantity: true,
+      extPONumber: true,
+      listing: { select: { purchase: { select: { totalPrice: true, quantity: true } } } },
+    },
+  });
+
+  const poNumbers = [
+    ...new Set(sales.filter((s) => !s.listing?.purchase && s.extPONumber).map((s) => s.extPONumber as string)),
+  ];
+  const direct = poNumbers.length > 0
+    ? await prisma.purchase.findMany({
+        where: { dashboardPoNumber: { in: poNumbers } },
+        select: { dashboardPoNumber: true, totalPrice: true, quantity: true },
+      })
+    : [];
+  const purchaseByPO = new Map(direct.map((p) => [p.dashboardPoNumber, p]));
+
+  for (const sale of sales) {
+    if (sale.invoiceNumber === null) continue;
+    const purchase = sale.listing?.purchase || (sale.extPONumber ? purchaseByPO.get(sale.extPONumber) : undefined);
+    if (!purchase || !purchase.totalPrice || purchase.quantity <= 0) continue;
+
+    const cost = (Number(purchase.totalPrice) / purchase.quantity) * sale.quantity;
+    costs.set(sale.invoiceNumber, (costs.get(sale.invoiceNumber) || 0) + cost);
+  }
+
+  return costs;
+}
+
+/**
+ * All journal entries dated in [start, end), sorted by date, kind and ref
+ */
+export async function buildJournal(start: Date, end: Date, mapping: AccountMapping): Promise<JournalEntry[]> {
+  const entries: JournalEntry[] = [];
+
+  // Inventory buys
+  const purchases = await prisma.purchase.findMany({
+    where: {
+      status: PurchaseStatus.SUCCESS,
+      createdAt: { gte: start, lt: end },
+    },
+    select: {
+      id: true,
+      createdAt: true,
+      totalPrice: true,
+      quantity: true,
+      section: true,
+      row: true,
+      cardLast4: true,
+      dashboardPoNumber: true,
+      tmOrderNumber: true,
+      card: { select: { cardLast4: true } },
+      event: { select: { eventName: true, artistName: true } },
+    },
+  });
+
+  for (const p of purchases) {
+    const last4 = p.card?.cardLast4 || p.cardLast4;
+    const cardAccount = (last4 && mapping.cards[last4]) || mapping.cardDefault;
+    const amount = Number(p.totalPrice || 0);
+    const eventLabel = p.event ? p.event.artistName || p.event.eventName : "Unknown event";
+
+    const e = entry(
+      "PURCHASE",
+      p.createdAt,
+      p.dashboardPoNumber ? `PO ${p.dashboardPoNumber}` : `PUR ${p.id}`,
+      "Ticketmaster",
+      `${eventLabel} - ${p.quantity}x ${p.section || "?"}/${p.row || "?"}${last4 ? ` - card ${last4}` : ""}${p.tmOrderNumber ? ` - order ${p.tmOrderNumber}` : ""}`,
+      [
+        { account: mapping.inventory, amount },
+        { account: cardAccount, amount: -amount },
+      ]
+    );
+    if (e) entries.push(e);
+  }
+
+  // Sales, remittances and cancellations - any of the three dates can fall in the period
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      OR: [
+        { invoiceDate: { gte: start, lt: end } },
+        { isPaid: true, remittanceDate: { gte: start, lt: end } },
+        { isCancelled: true, cancelledAt: { gte: start, lt: end } },
+        { isCancelled: true, cancelledAt: null, invoiceDate: { gte: start, lt: end } },
+      ],
+    },
+  });
+  const costs = await getInvoiceCosts(invoices.map((i) => i.invoiceNumber));
+
+  const inPeriod = (date: Date | null): date is Date => !!date && date >= start && date < end;
+
+  for (const inv of invoices) {
+    const payout = round2(Number(inv.totalAmount));
+    const fees = round2(Number(inv.fees));
+    const cost = round2(costs.get(inv.invoiceNumber) ?? Number(inv.totalCost));
+    const label = inv.eventName || "Ticket sale";
+    const saleDate = inv.invoiceDate || inv.createdAt;
+
+    const sale = entry("SALE", saleDate, `INV ${inv.invoiceNumber}`, inv.clientName, `${label} - ${inv.totalQuantity} tickets`, [
+      { account: mapping.receivable, amount: payout },
+      { account: mapping.fees, amount: fees },
+      { account: mapping.revenue, amount: -(payout + fees) },
+    ]);
+    const cogs = entry("COGS", saleDate, `INV ${inv.invoiceNumber} COGS`, inv.clientName, `${label} - cost of tickets sold`, [
+      { account: mapping.cogs, amount: cost },
+      { account: mapping.inventory, amount: -cost },
+    ]);
+
+    if (inPeriod(saleDate)) {
+      if (sale) entries.push(sale);
+      if (cogs) entries.push(cogs);
+    }
+
+    if (inv.isCancelled) {
+      const cancelDate = inv.cancelledAt || saleDate;
+      if (inPeriod(cancelDate)) {
+        if (sale) entries.push(reverse(sale, cancelDate, `INV ${inv.invoiceNumber} REV`));
+        if (cogs) entries.push(reverse(cogs, cancelDate, `INV ${inv.invoiceNumber} COGS REV`));
+      }
+    } else if (inv.isPaid && inPeriod(inv.remittanceDate)) {
+      const remittance = entry("REMITTANCE", inv.remittanceDate, `INV ${inv.invoiceNumber} REM`, "TicketVault", `Payout for invoice ${inv.invoiceNumber}`, [
+        { account: mapping.bank, amount: payout },
+        { account: mapping.receivable, amount: -payout },
+      ]);
+      if (remittance) entries.push(remittance);
+    }
+  }
+
+  return entries.sort(
+    (a, b) =>
+      a.date.getTime() - b.date.getTime() ||
+      KIND_ORDER[a.kind] - KIND_ORDER[b.kind] ||
+      a.ref.localeCompare(b.ref)
+  );
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * QuickBooks Desktop IIF general journal.
+ * First line of each entry is TRNS, the rest SPL; amounts are debit positive.
+ */
+export function renderIif(entries: JournalEntry[]): string {
+  const clean = (value: string | null) => (value || "").replace(/[\t\r\n]+/g, " ");
+  const cols = "TRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO";
+  const lines = [`!TRNS\tTRNSID\t${cols}`, `!SPL\tSPLID\t${cols}`, "!ENDTRNS"];
+
+  for (const e of entries) {
+    e.lines.forEach((line, i) => {
+      lines.push(
+        [
+          i === 0 ? "TRNS" : "SPL",
+          "",
+          "GENERAL JOURNAL",
+          formatDay(e.date),
+          clean(line.account),
+          clean(e.name),
+          line.amount.toFixed(2),
+          clean(e.ref),
+          clean(e.memo),
+        ].join("\t")
+      );
+    });
+    lines.push("ENDTRNS");
+  }
+
+  return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Xero manual journal import CSV. Lines sharing a narration and date become
+ * one journal, so the narration starts with the entry's unique ref.
+ */
+export function renderXeroCsv(entries: JournalEntry[], mapping: AccountMapping): string {
+  const escapeCSV = (val: unknown): string => {
+    const str = String(val ?? "");
+    if (str.includes(",") || str.includes('"') || str.includes("\n")) {
+      return `"${str.replace(/"/g, '""')}"`;
+    }
+    return str;
+  };
+
+  const rows = [["*Narration", "*Date", "Description", "*AccountCode", "*TaxRate", "*Amount"]];
+  for (const e of entries) {
+    for (const line of e.lines) {
+      rows.push([
+        `${e.ref} - ${e.memo}`,
+        formatDay(e.date),
+        e.name || "",
+        line.account,
+        mapping.xeroTaxRate,
+        line.amount.toFixed(2),
+      ]);
+    }
+  }
+
+  return rows.map((row) => row.map(escapeCSV).join(",")).join("\n") + "\n";
+}
+
+function summarize(entries: JournalEntry[]) {
+  const summary: Partial<Record<JournalKind, { entries: number; amount: number }>> = {};
+  let totalDebits = 0;
+
+  for (const e of entries) {
+    const debits = e.lines.filter((l) => l.amount > 0).reduce((sum, l) => sum + l.amount, 0);
+    const s = summary[e.kind] || { entries: 0, amount: 0 };
+    s.entries++;
+    s.amount = round2(s.amount + debits);
+    summary[e.kind] = s;
+    totalDebits += debits;
+  }
+
+  return { summary, totalDebits: round2(totalDebits) };
+}
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+const exportSelect = {
+  id: true,
+  format: true,
+  periodStart: true,
+  periodEnd: true,
+  version: true,
+  checksum: true,
+  entryCount: true,
+  totalDebits: true,
+  summary: true,
+  createdBy: true,
+  createdAt: true,
+} as const;
+
+function isAccountingFormat(format: string): format is AccountingFormat {
+  return (ACCOUNTING_FORMATS as string[]).includes(format);
+}
+
+/**
+ * Generate an export for a period. Returns the latest existing version
+ * (unchanged: true) when the generated file is identical to it.
+ */
+export async function createAccountingExport(input: CreateExportInput) {
+  if (!isAccountingFormat(input.format)) {
+    return { success: false as const, error: `format must be one of ${ACCOUNTING_FORMATS.join(", ")}` };
+  }
+
+  const periodStart = parseDay(input.from);
+  const lastDay = parseDay(input.to);
+  if (!periodStart || !lastDay) {
+    return { success: false as const, error: "from and to must be dates (YYYY-MM-DD)" };
+  }
+  if (lastDay < periodStart) {
+    return { success: false as const, error: "to must not be before from" };
+  }
+  const periodEnd = new Date(lastDay.getTime() + 24 * 60 * 60 * 1000);
+  if (periodEnd.getTime() - periodStart.getTime() > MAX_PERIOD_DAYS * 24 * 60 * 60 * 1000) {
+    return { success: false as const, error: `Period can't be longer than ${MAX_PERIOD_DAYS} days` };
+  }
+
+  const mapping = await getAccountMapping();
+  const entries = await buildJournal(periodStart, periodEnd, mapping);
+  const content = input.format === "IIF" ? renderIif(entries) : renderXeroCsv(entries, mapping);
+  const checksum = createHash("sha256").update(content).digest("hex");
+  const { summary, totalDebits } = summarize(entries);
+
+  const latest = await prisma.accountingExport.findFirst({
+    where: { format: input.format, periodStart, periodEnd },
+    orderBy: { version: "desc" },
+    select: exportSelect,
+  });
+
+  if (latest && latest.checksum === checksum) {
+    return { success: true as const, export: latest, unchanged: true };
+  }
+
+  const created = await prisma.accountingExport.create({
+    data: {
+      format: input.format,
+      periodStart,
+      periodEnd,
+      version: (latest?.version || 0) + 1,
+      mapping: JSON.stringify(mapping),
+      content,
+      checksum,
+      entryCount: entries.length,
+      totalDebits,
+      summary: JSON.stringify(summary),
+      createdBy: input.createdBy || null,
+    },
+    select: exportSelect,
+  });
+
+  console.log(
+    `[AccountingExport] ${input.format} ${input.from}..${input.to} v${created.version}: ${entries.length} entries`
+  );
+
+  return { success: true as const, export: created, unchanged: false };
+}
+
+/**
+ * Past exports, newest first (without file content)
+ */
+export async function listAccountingExports(options: { format?: string | null; limit?: number } = {}) {
+  const exports = await prisma.accountingExport.findMany({
+    where: options.format ? { format: options.format } : undefined,
+    orderBy: { createdAt: "desc" },
+    take: options.limit || 100,
+    select: exportSelect,
+  });
+
+  return exports.map((e) => ({
+    ...e,
+    totalDebits: Number(e.totalDebits),
+    summary: e.summary ? (JSON.parse(e.summary) as Record<string, { entries: number; amount: number }>) : null,
+  }));
+}
+
+/**
+ * A stored export with its file, for download
+ */
+export async function getAccountingExportFile(id: string) {
+  const record = await prisma.accountingExport.findUnique({ where: { id } });
+  if (!record) return null;
+
+  const start = record.periodStart.toISOString().split("T")[0];
+  const end = new Date(record.periodEnd.getTime() - 1).toISOString().split("T")[0];
+  const ext = record.format === "IIF" ? "iif" : "csv";
+
+  return {
+    content: record.content,
+    contentType: record.format === "IIF" ? "text/plain" : "text/csv",
+    filename: `journal_${start}_${end}_v${record.version}.${ext}`,
+  };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const AccountingExport = {
+  getMapping: getAccountMapping,
+  saveMapping: saveAccountMapping,
+  buildJournal,
+  create: createAccountingExport,
+  list: listAccountingExports,
+  getFile: getAccountingExportFile,
+};
@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseFilters } from "./audit-log";
+
+test("date-only bounds cover whole UTC days", () => {
+  const filters = parseFilters(new URLSearchParams({ from: "2026-03-01", to: "2026-03-31" }));
+  assert.equal(filters.from?.toISOString(), "2026-03-01T00:00:00.000Z");
+  assert.equal(filters.to?.toISOString(), "2026-03-31T23:59:59.999Z");
+});
+
+test("full timestamps are kept as given", () => {
+  const filters = parseFilters(new URLSearchParams({ to: "2026-03-31T12:30:00Z" }));
+  assert.equal(filters.to?.toISOString(), "2026-03-31T12:30:00.000Z");
+});
+
+test("invalid dates are ignored", () => {
+  const filters = parseFilters(new URLSearchParams({ from: "yesterday-ish", to: "2026-02-30x" }));
+  assert.equal(filters.from, undefined);
+  assert.equal(filters.to, undefined);
+});
+
+test("page and limit are at least 1", () => {
+  const clamped = parseFilters(new URLSearchParams({ page: "-3", limit: "0" }));
+  assert.equal(clamped.page, 1);
+  assert.equal(clamped.limit, 1);
+
+  const defaults = parseFilters(new URLSearchParams({ page: "abc" }));
+  assert.equal(defaults.page, 1);
+  assert.equal(defaults.limit, 50);
+});
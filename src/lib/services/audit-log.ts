@@ -0,0 +1,313 @@
+/**
+ * Audit Log Service
+ *
+ * Append-only record of destructive admin and control actions so we can
+ * reconstruct what happened after an accident.
+ *
+ * Audited:
+ * - /api/admin/wipe, /api/admin/bulk-delete
+ * - /api/generator/control and /api/checkout/control (clear, clear_all_data)
+ * - /api/pos/fix-duplicates, /api/pos/fix-emails, /api/pos/fix-notes
+ * - /api/auth/users, /api/auth/api-keys (user and key management)
+ * - /api/secrets/reveal and exports that decrypt card data/passwords
+ *
+ * There is intentionally no update/delete API for audit entries.
+ */
+
+import { NextRequest } from "next/server";
+import prisma from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import { getRequestIdentity } from "@/lib/auth-policy";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AuditCategory = "admin" | "auth" | "secrets" | "generator" | "checkout" | "pos" | "accounting";
+
+export interface AuditEventInput {
+  action: string;
+  category: AuditCategory;
+  params?: unknown;
+  affected?: Record<string, number>;
+  status?: "SUCCESS" | "FAILED";
+  errorMessage?: string;
+}
+
+export interface RequestMetadata {
+  actor: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  method: string | null;
+  path: string | null;
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  category?: string;
+  status?: string;
+  actor?: string;
+  search?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Identify who made the request (dashboard user or daemon API key)
+ */
+export function resolveActor(request: NextRequest): string | null {
+  const identity = getRequestIdentity(request.headers);
+  if (identity.username) return `user:${identity.username}`;
+  if (identity.worker) return `worker:${identity.worker}`;
+  return null;
+}
+
+/**
+ * Extract request metadata for the audit entry
+ */
+export function getRequestMetadata(request: NextRequest): RequestMetadata {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  return {
+    actor: resolveActor(request),
+    ipAddress: forwardedFor?.split(",")[0].trim() || request.headers.get("x-real-ip") || null,
+    userAgent: request.headers.get("user-agent"),
+    method: request.method,
+    path: request.nextUrl.pathname,
+  };
+}
+
+/**
+ * Append an audit entry, throwing if it can't be written. For actions that
+ * must not happen unaudited (secret reveals) - write the entry first and
+ * abort on failure.
+ */
+export async function recordAuditEventStrict(
+  event: AuditEventInput,
+  request?: NextRequest
+): Promise<void> {
+  const metadata = request ? getRequestMetadata(request) : null;
+  const affected = event.affected || {};
+
+  await prisma.auditLog.create({
+    data: {
+      action: event.action,
+      category: event.category,
+      status: event.status || "SUCCESS",
+      params: event.params !== undefined ? JSON.stringify(event.params) : null,
+      affected: Object.keys(affected).length > 0 ? JSON.stringify(affected) : null,
+      totalAffected: Object.values(affected).reduce((a, b) => a + b, 0),
+      errorMessage: event.errorMessage || null,
+      actor: metadata?.actor || null,
+      ipAddress: metadata?.ipAddress || null,
+      userAgent: metadata?.userAgent || null,
+      method: metadata?.method || null,
+      path: metadata?.path || null,
+    },
+  });
+}
+
+/**
+ * Append an audit entry.
+ * Never throws - a failure to audit is logged but does not fail the action.
+ */
+export async function recordAuditEvent(
+  event: AuditEventInput,
+  request?: NextRequest
+): Promise<void> {
+  try {
+    await recordAuditEventStrict(event, request);
+  } catch (error) {
+    console.error(`[AuditLog] Failed to record ${event.action}:`, error);
+  }
+}
+
+// =============================================================================
+// Querying
+// =============================================================================
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A from/to bound, or undefined when missing or not a valid date.
+ * Date-only values are UTC days - an end bound includes the whole day.
+ */
+function parseDateBound(value: string | null, endOfDay: boolean): Date | undefined {
+  if (!value) return undefined;
+  const date = DATE_ONLY.test(value)
+    ? new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`)
+    : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  const parsed = parseInt(value || "", 10);
+  return isNaN(parsed) ? fallback : Math.max(1, parsed);
+}
+
+/**
+ * Parse filters from query params (used by the list and export routes).
+ * Invalid dates are ignored and page/limit are at least 1.
+ */
+export function parseFilters(searchParams: URLSearchParams): AuditLogFilters {
+  return {
+    action: searchParams.get("action") || undefined,
+    category: searchParams.get("category") || undefined,
+    status: searchParams.get("status") || undefined,
+    actor: searchParams.get("actor") || undefined,
+    search: searchParams.get("search") || undefined,
+    from: parseDateBound(searchParams.get("from"), false),
+    to: parseDateBound(searchParams.get("to"), true),
+    page: parsePositiveInt(searchParams.get("page"), 1),
+    limit: parsePositiveInt(searchParams.get("limit"), 50),
+  };
+}
+
+function buildWhere(filters: AuditLogFilters): Prisma.AuditLogWhereInput {
+  const where: Prisma.AuditLogWhereInput = {};
+
+  if (filters.action) where.action = filters.action;
+  if (filters.category) where.category = filters.category;
+  if (filters.status) where.status = filters.status;
+  if (filters.actor) where.actor = { contains: filters.actor, mode: "insensitive" };
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from && { gte: filters.from }),
+      ...(filters.to && { lte: filters.to }),
+    };
+  }
+  if (filters.search) {
+    where.OR = [
+      { action: { contains: filters.search, mode: "insensitive" } },
+      { params: { contains: filters.search, mode: "insensitive" } },
+      { errorMessage: { contains: filters.search, mode: "insensitive" } },
+      { ipAddress: { contains: filters.search } },
+    ];
+  }
+
+  return where;
+}
+
+function parseJson<T>(value: string | null): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get audit entries (newest first) with pagination
+ */
+export async function getAuditLogs(filters: AuditLogFilters) {
+  const page = filters.page || 1;
+  const limit = Math.min(filters.limit || 50, 200);
+  const where = buildWhere(filters);
+
+  const [entries, total, actions] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.auditLog.count({ where }),
+    prisma.auditLog.findMany({
+      select: { action: true },
+      distinct: ["action"],
+      orderBy: { action: "asc" },
+    }),
+  ]);
+
+  return {
+    entries: entries.map((e) => ({
+      ...e,
+      params: parseJson<unknown>(e.params),
+      affected: parseJson<Record<string, number>>(e.affected),
+    })),
+    actions: actions.map((a) => a.action),
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * Export audit entries matching the filters as CSV
+ */
+export async function exportAuditLogsCsv(filters: AuditLogFilters): Promise<string> {
+  const entries = await prisma.auditLog.findMany({
+    where: buildWhere(filters),
+    orderBy: { createdAt: "desc" },
+    take: 10000,
+  });
+
+  const headers = [
+    "Timestamp",
+    "Action",
+    "Category",
+    "Status",
+    "Total Affected",
+    "Affected",
+    "Params",
+    "Error",
+    "Actor",
+    "IP Address",
+    "User Agent",
+    "Method",
+    "Path",
+    "ID",
+  ];
+
+  const rows = entries.map((e) => [
+    e.createdAt.toISOString(),
+    e.action,
+    e.category,
+    e.status,
+    e.totalAffected,
+    e.affected || "",
+    e.params || "",
+    e.errorMessage || "",
+    e.actor || "",
+    e.ipAddress || "",
+    e.userAgent || "",
+    e.method || "",
+    e.path || "",
+    e.id,
+  ]);
+
+  const escapeCSV = (val: unknown): string => {
+    const str = String(val ?? "");
+    if (str.includes(",") || str.includes('"') || str.includes("\n")) {
+      return `"${str.replace(/"/g, '""')}"`;
+    }
+    return str;
+  };
+
+  return [
+    headers.join(","),
+    ...rows.map((row) => row.map(escapeCSV).join(",")),
+  ].join("\n");
+}
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+export const AuditLogService = {
+  recordAuditEvent,
+  recordAuditEventStrict,
+  getRequestMetadata,
+  parseFilters,
+  getAuditLogs,
+  exportAuditLogsCsv,
+};
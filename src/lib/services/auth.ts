@@ -0,0 +1,371 @@
+/**
+ * Auth Service
+ *
+ * Dashboard users (scrypt password hashes), cookie login sessions, and
+ * per-worker API keys for the daemon endpoints.
+ *
+ * Session tokens and API keys are random secrets; only their SHA-256 hashes
+ * are stored, so a database dump can't be replayed against the API.
+ *
+ * Route enforcement lives in src/proxy.ts (see src/lib/auth-policy.ts).
+ */
+
+import { randomBytes, scrypt, createHash, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import prisma from "@/lib/db";
+import { isValidRole, isValidScope, type UserRole, type ApiKeyScope } from "@/lib/auth-policy";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000; // Only bump lastSeenAt every 5 min
+const API_KEY_TOUCH_INTERVAL_MS = 60 * 1000;
+const MIN_PASSWORD_LENGTH = 10;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+export interface AuthenticatedWorker {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+export interface CreateUserInput {
+  username: string;
+  password: string;
+  role: string;
+}
+
+// =============================================================================
+// Hashing
+// =============================================================================
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hashHex] = stored.split(":");
+  if (!salt || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// =============================================================================
+// Users
+// =============================================================================
+
+/**
+ * Validate and create a dashboard user
+ */
+export async function createUser(
+  input: CreateUserInput
+): Promise<{ success: boolean; user?: SessionUser; error?: string }> {
+  const username = input.username?.trim().toLowerCase();
+
+  if (!username) {
+    return { success: false, error: "Username is required" };
+  }
+  if (!isValidRole(input.role)) {
+    return { success: false, error: "Role must be admin, operator, or viewer" };
+  }
+  if (!input.password || input.password.length < MIN_PASSWORD_LENGTH) {
+    return { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+  }
+
+  const existing = await prisma.user.findUnique({ where: { username } });
+  if (existing) {
+    return { success: false, error: `User ${username} already exists` };
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      username,
+      passwordHash: await hashPassword(input.password),
+      role: input.role,
+    },
+  });
+
+  return { success: true, user: { id: user.id, username: user.username, role: input.role } };
+}
+
+/**
+ * Update a user's role, active flag, or password.
+ * Deactivating a user or changing their password ends their sessions.
+ */
+export async function updateUser(
+  id: string,
+  data: { role?: string; isActive?: boolean; password?: string }
+): Promise<{ success: boolean; error?: string }> {
+  const update: { role?: string; isActive?: boolean; passwordHash?: string } = {};
+
+  if (data.role !== undefined) {
+    if (!isValidRole(data.role)) {
+      return { success: false, error: "Role must be admin, operator, or viewer" };
+    }
+    update.role = data.role;
+  }
+  if (data.isActive !== undefined) {
+    update.isActive = data.isActive;
+  }
+  if (data.password !== undefined) {
+    if (data.password.length < MIN_PASSWORD_LENGTH) {
+      return { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+    }
+    update.passwordHash = await hashPassword(data.password);
+  }
+
+  // Don't allow removing the last active admin
+  if ((update.role !== undefined && update.role !== "admin") || update.isActive === false) {
+    const target = await prisma.user.findUnique({ where: { id } });
+    if (target?.role === "admin" && target.isActive) {
+      const activeAdmins = await prisma.user.count({ where: { role: "admin", isActive: true } });
+      if (activeAdmins <= 1) {
+        return { success: false, error: "Cannot demote or deactivate the last admin" };
+      }
+    }
+  }
+
+  await prisma.user.update({ where: { id }, data: update });
+
+  if (update.isActive === false || update.passwordHash) {
+    await prisma.userSession.deleteMany({ where: { userId: id } });
+  }
+
+  return { success: true };
+}
+
+export async function listUsers() {
+  return prisma.user.findMany({
+    select: {
+      id: true,
+      username: true,
+      role: true,
+      isActive: true,
+      lastLoginAt: true,
+      createdAt: true,
+      _count: { select: { sessions: true } },
+    },
+    orderBy: { username: "asc" },
+  });
+}
+
+// =============================================================================
+// Sessions
+// =============================================================================
+
+/**
+ * Check credentials and open a session.
+ * Returns the raw token to set as the session cookie.
+ */
+export async function login(
+  username: string,
+  password: string,
+  metadata: { ipAddress: string | null; userAgent: string | null }
+): Promise<{ success: boolean; token?: string; expiresAt?: Date; user?: SessionUser; error?: string }> {
+  const user = await prisma.user.findUnique({
+    where: { username: username.trim().toLowerCase() },
+  });
+
+  // Same error for unknown user / wrong password / inactive
+  if (!user || !user.isActive || !(await verifyPassword(password, user.passwordHash))) {
+    return { success: false, error: "Invalid username or password" };
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await prisma.$transaction([
+    prisma.userSession.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt,
+        ipAddress: metadata.ipAddress,
+        userAgent: metadata.userAgent,
+      },
+    }),
+    prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    }),
+  ]);
+
+  return {
+    success: true,
+    token,
+    expiresAt,
+    user: { id: user.id, username: user.username, role: user.role as UserRole },
+  };
+}
+
+/**
+ * Resolve a session cookie token to its user (null if invalid/expired/inactive)
+ */
+export async function getSessionUser(token: string): Promise<SessionUser | null> {
+  const session = await prisma.userSession.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  if (!session) return null;
+
+  const now = Date.now();
+  if (session.expiresAt.getTime() < now || !session.user.isActive || !isValidRole(session.user.role)) {
+    return null;
+  }
+
+  if (now - session.lastSeenAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+    await prisma.userSession.update({
+      where: { id: session.id },
+      data: { lastSeenAt: new Date() },
+    });
+  }
+
+  return {
+    id: session.user.id,
+    username: session.user.username,
+    role: session.user.role,
+  };
+}
+
+export async function logout(token: string): Promise<void> {
+  await prisma.userSession.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+/**
+ * Remove expired sessions (called opportunistically on login)
+ */
+export async function purgeExpiredSessions(): Promise<number> {
+  const result = await prisma.userSession.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+  return result.count;
+}
+
+// =============================================================================
+// Worker API Keys
+// =============================================================================
+
+/**
+ * Create an API key for a daemon.
+ * The raw key is only returned here - it cannot be recovered later.
+ */
+export async function createApiKey(
+  name: string,
+  scopes: string[]
+): Promise<{ success: boolean; key?: string; id?: string; error?: string }> {
+  if (!name?.trim()) {
+    return { success: false, error: "Worker name is required" };
+  }
+  if (scopes.length === 0 || !scopes.every(isValidScope)) {
+    return { success: false, error: "Scopes must be one or more of: checkout, generator" };
+  }
+
+  const key = `tmk_${randomBytes(24).toString("base64url")}`;
+  const apiKey = await prisma.workerApiKey.create({
+    data: {
+      name: name.trim(),
+      keyPrefix: key.slice(0, 10),
+      keyHash: hashToken(key),
+      scopes: scopes.join(","),
+    },
+  });
+
+  return { success: true, key, id: apiKey.id };
+}
+
+/**
+ * Resolve an API key to its worker (null if unknown or revoked)
+ */
+export async function authenticateApiKey(
+  key: string,
+  ipAddress: string | null
+): Promise<AuthenticatedWorker | null> {
+  const apiKey = await prisma.workerApiKey.findUnique({
+    where: { keyHash: hashToken(key) },
+  });
+
+  if (!apiKey || !apiKey.isActive) return null;
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > API_KEY_TOUCH_INTERVAL_MS) {
+    await prisma.workerApiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ipAddress },
+    });
+  }
+
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    scopes: apiKey.scopes.split(",").filter(isValidScope),
+  };
+}
+
+export async function revokeApiKey(id: string): Promise<void> {
+  await prisma.workerApiKey.update({
+    where: { id },
+    data: { isActive: false, revokedAt: new Date() },
+  });
+}
+
+export async function listApiKeys() {
+  return prisma.workerApiKey.findMany({
+    select: {
+      id: true,
+      name: true,
+      keyPrefix: true,
+      scopes: true,
+      isActive: true,
+      lastUsedAt: true,
+      lastUsedIp: true,
+      revokedAt: true,
+      createdAt: true,
+    },
+    orderBy: [{ isActive: "desc" }, { createdAt: "desc" }],
+  });
+}
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+export const AuthService = {
+  hashPassword,
+  verifyPassword,
+  createUser,
+  updateUser,
+  listUsers,
+  login,
+  getSessionUser,
+  logout,
+  purgeExpiredSessions,
+  createApiKey,
+  authenticateApiKey,
+  revokeApiKey,
+  listApiKeys,
+};
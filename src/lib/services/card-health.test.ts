@@ -0,0 +1,66 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { installFakePrisma } from "@/lib/testing/fake-prisma";
+
+const db = installFakePrisma();
+
+const HOUR_MS = 60 * 60 * 1000;
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * HOUR_MS);
+
+function job(id: string, completedAt: Date, purchaseId: string | null = null) {
+  return {
+    id,
+    cardId: "card-1",
+    status: "SUCCESS",
+    totalPrice: 100,
+    errorCode: null,
+    errorMessage: null,
+    completedAt,
+    createdAt: completedAt,
+    purchaseId,
+  };
+}
+
+function purchase(id: string, createdAt: Date) {
+  return { id, cardId: "card-1", status: "SUCCESS", totalPrice: 100, errorCode: null, errorMessage: null, createdAt };
+}
+
+beforeEach(() => {
+  db.reset({
+    card: [{ id: "card-1", checkoutStatus: "AVAILABLE" }],
+    checkoutJob: [job("old-job", hoursAgo(30 * 24), "old-purchase"), job("new-job", hoursAgo(2), "new-purchase")],
+    purchase: [purchase("old-purchase", hoursAgo(30 * 24)), purchase("new-purchase", hoursAgo(2)), purchase("manual", hoursAgo(0.5))],
+  });
+});
+
+test("the first sync scans the lookback window and records a high-water mark", async () => {
+  const { syncCardLedger, CARD_LEDGER_SYNCED_AT_SETTING } = await import("./card-health");
+  const result = await syncCardLedger();
+
+  assert.equal(result.success, true);
+  // new-job and the manual purchase; new-purchase was counted through its job
+  assert.equal(result.synced, 2);
+  const mark = db.tables.setting.find(s => s.key === CARD_LEDGER_SYNCED_AT_SETTING);
+  assert.ok(mark && Date.now() - new Date(mark.value as string).getTime() < 60 * 1000);
+});
+
+test("later syncs only scan what finished since the last one", async () => {
+  const { syncCardLedger, CARD_LEDGER_SYNCED_AT_SETTING } = await import("./card-health");
+  db.tables.setting = [{ key: CARD_LEDGER_SYNCED_AT_SETTING, value: hoursAgo(1.5).toISOString() }];
+
+  // Back to an hour before the last sync: new-job (2h ago) and the manual purchase
+  assert.equal((await syncCardLedger()).synced, 2);
+
+  db.tables.setting = [{ key: CARD_LEDGER_SYNCED_AT_SETTING, value: new Date().toISOString() }];
+  db.tables.purchase.push(purchase("latest", new Date()));
+  // The manual purchase (inside the overlap) and the latest one
+  assert.equal((await syncCardLedger()).synced, 2);
+});
+
+test("a full sync scans everything", async () => {
+  const { syncCardLedger, CARD_LEDGER_SYNCED_AT_SETTING } = await import("./card-health");
+  db.tables.setting = [{ key: CARD_LEDGER_SYNCED_AT_SETTING, value: new Date().toISOString() }];
+
+  // Both jobs and the manual purchase; job purchases aren't counted twice
+  assert.equal((await syncCardLedger({ full: true })).synced, 3);
+});
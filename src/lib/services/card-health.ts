@@ -0,0 +1,629 @@
+/**
+ * Card Health
+ *
+ * Keeps a per-card ledger (card_events) of charges and declines taken from
+ * CheckoutJob outcomes and Purchase error codes, and retires cards with
+ * configurable rules - e.g. "3 declines in 24h -> DECLINED" or
+ * "over $5,000 in 30 days -> EXHAUSTED".
+ *
+ * Job outcomes are recorded as soon as the job finishes (job PATCH and the
+ * checkout webhook); the card_health sync job backfills anything missed,
+ * such as imported purchases. Purchases created from a checkout job are
+ * skipped - the job already counted them. Scheduled syncs only scan what
+ * finished since the previous sync (card_ledger_synced_at setting).
+ *
+ * Retirement is one way: a retired card only comes back through a manual
+ * status change, and declines/spend before that change no longer count.
+ */
+
+import prisma from "@/lib/db";
+import { Prisma } from "@prisma/client";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CardEventType = "CHARGE" | "DECLINE" | "STATUS_CHANGE";
+
+export type CardCheckoutStatus = "AVAILABLE" | "IN_USE" | "DECLINED" | "EXHAUSTED";
+
+export type CardStatusChangeSource = "rule" | "manual";
+
+export interface CardHealthRule {
+  kind: "declines" | "spend";   // Count of declines / sum of charges in the window
+  threshold: number;            // Declines, or dollars spent
+  windowHours: number;
+  action: "DECLINED" | "EXHAUSTED";
+  enabled?: boolean;            // Defaults to true
+}
+
+export interface CardHealthSummary {
+  cardId: string;
+  checkoutStatus: string;
+  charges: number;
+  declines: number;
+  declineRate: number | null;   // declines / (charges + declines), null with no outcomes yet
+  declines24h: number;
+  spend24h: number;
+  spend30d: number;
+  lastDeclineAt: Date | null;
+  lastDeclineReason: string | null;
+  health: "healthy" | "at_risk" | "retired";
+  riskDetail: string | null;    // Closest rule, e.g. "2/3 declines in 24h"
+}
+
+export interface CardLedgerSyncResult {
+  success: boolean;
+  synced: number;    // Outcomes scanned
+  created: number;   // New ledger events
+  retired: number;   // Cards retired by rules
+  error?: string;
+}
+
+interface CardOutcome {
+  cardId: string;
+  status: string;
+  totalPrice: Prisma.Decimal | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+  occurredAt: Date;
+  source: "checkout_job" | "purchase";
+  sourceId: string;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+// Checkout config keys (JSON values, editable via /api/checkout/config)
+export const CARD_HEALTH_CONFIG = {
+  DECLINE_CODES: "card_decline_codes",
+  RULES: "card_health_rules",
+} as const;
+
+// Error codes that mean the card itself was refused. Anything else
+// (sold out, timeouts, ban errors) isn't held against the card.
+export const DEFAULT_DECLINE_CODES = [
+  "CARD_DECLINED",
+  "PAYMENT_DECLINED",
+  "INSUFFICIENT_FUNDS",
+  "CARD_EXPIRED",
+  "INVALID_CARD",
+];
+
+export const DEFAULT_CARD_HEALTH_RULES: CardHealthRule[] = [
+  { kind: "declines", threshold: 3, windowHours: 24, action: "DECLINED" },
+  { kind: "spend", threshold: 5000, windowHours: 30 * 24, action: "EXHAUSTED", enabled: false },
+];
+
+export const CARD_CHECKOUT_STATUSES: CardCheckoutStatus[] = ["AVAILABLE", "IN_USE", "DECLINED", "EXHAUSTED"];
+
+// Statuses that take a card out of checkout rotation
+export const RETIRED_CARD_STATUSES: CardCheckoutStatus[] = ["DECLINED", "EXHAUSTED"];
+
+// Setting holding when the last ledger sync started (ISO timestamp)
+export const CARD_LEDGER_SYNCED_AT_SETTING = "card_ledger_synced_at";
+
+// The first scheduled sync scans this far back; full syncs scan everything
+const SYNC_LOOKBACK_DAYS = 7;
+
+// Later syncs re-scan a little before the last one, for rows committed late
+const SYNC_OVERLAP_MS = 60 * 60 * 1000;
+
+// A card shows as at risk once it's this far towards any enabled rule
+const AT_RISK_FRACTION = 0.5;
+
+const INSERT_BATCH_SIZE = 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+async function readJsonConfig(key: string): Promise<unknown> {
+  const config = await prisma.checkoutConfig.findUnique({ where: { key } });
+  if (!config?.value) return null;
+  try {
+    return JSON.parse(config.value);
+  } catch {
+    return null;
+  }
+}
+
+export async function getDeclineCodes(): Promise<string[]> {
+  const codes = await readJsonConfig(CARD_HEALTH_CONFIG.DECLINE_CODES);
+  return Array.isArray(codes) ? codes.map(c => String(c).toUpperCase()) : DEFAULT_DECLINE_CODES;
+}
+
+function isValidRule(rule: unknown): rule is CardHealthRule {
+  const r = rule as CardHealthRule;
+  return (
+    !!r &&
+    (r.kind === "declines" || r.kind === "spend") &&
+    Number(r.threshold) > 0 &&
+    Number(r.windowHours) > 0 &&
+    RETIRED_CARD_STATUSES.includes(r.action)
+  );
+}
+
+export async function getCardHealthRules(): Promise<CardHealthRule[]> {
+  const rules = await readJsonConfig(CARD_HEALTH_CONFIG.RULES);
+  if (!Array.isArray(rules)) return DEFAULT_CARD_HEALTH_RULES;
+
+  const valid = rules.filter(isValidRule);
+  if (valid.length < rules.length) {
+    console.warn(`[CardHealth] Ignoring ${rules.length - valid.length} invalid rule(s) in ${CARD_HEALTH_CONFIG.RULES}`);
+  }
+  return valid.map(r => ({ ...r, threshold: Number(r.threshold), windowHours: Number(r.windowHours) }));
+}
+
+function formatWindow(hours: number): string {
+  return hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+}
+
+function describeRuleValue(rule: CardHealthRule, value: number): string {
+  return rule.kind === "declines"
+    ? `${value}/${rule.threshold} declines in ${formatWindow(rule.windowHours)}`
+    : `$${value.toFixed(2)}/$${rule.threshold} spent in ${formatWindow(rule.windowHours)}`;
+}
+
+// =============================================================================
+// Ledger
+// =============================================================================
+
+function classifyOutcome(outcome: CardOutcome, declineCodes: string[]): "CHARGE" | "DECLINE" | null {
+  if (outcome.status === "SUCCESS") return "CHARGE";
+  if (outcome.errorCode && declineCodes.includes(outcome.errorCode.toUpperCase())) return "DECLINE";
+  return null;
+}
+
+/**
+ * Write charge/decline events for the outcomes. Already-recorded outcomes are
+ * skipped, so this is safe to call repeatedly.
+ */
+async function writeOutcomes(outcomes: CardOutcome[], declineCodes: string[]) {
+  const data: Prisma.CardEventCreateManyInput[] = [];
+  for (const outcome of outcomes) {
+    const type = classifyOutcome(outcome, declineCodes);
+    if (!type) continue;
+    data.push({
+      cardId: outcome.cardId,
+      type,
+      amount: type === "CHARGE" ? outcome.totalPrice : null,
+      errorCode: type === "DECLINE" ? outcome.errorCode!.toUpperCase() : null,
+      errorMessage: type === "DECLINE" ? outcome.errorMessage : null,
+      source: outcome.source,
+      sourceId: outcome.sourceId,
+      occurredAt: outcome.occurredAt,
+    });
+  }
+
+  let created = 0;
+  for (let i = 0; i < data.length; i += INSERT_BATCH_SIZE) {
+    const result = await prisma.cardEvent.createMany({
+      data: data.slice(i, i + INSERT_BATCH_SIZE),
+      skipDuplicates: true,
+    });
+    created += result.count;
+  }
+
+  return { created, cardIds: [...new Set(data.map(d => d.cardId))] };
+}
+
+/**
+ * Record a finished checkout job against its card and apply the rules.
+ * Never throws - a ledger failure shouldn't fail the job update.
+ */
+export async function recordCheckoutJobOutcome(job: {
+  id: string;
+  cardId: string | null;
+  status: string;
+  totalPrice: Prisma.Decimal | null;
+  errorCode: string | null;
+  errorMessage?: string | null;
+  completedAt?: Date | null;
+}): Promise<{ recorded: boolean; retired: CardCheckoutStatus | null }> {
+  if (!job.cardId) return { recorded: false, retired: null };
+
+  try {
+    const declineCodes = await getDeclineCodes();
+    const { created } = await writeOutcomes([{
+      cardId: job.cardId,
+      status: job.status,
+      totalPrice: job.totalPrice,
+      errorCode: job.errorCode,
+      errorMessage: job.errorMessage ?? null,
+      occurredAt: job.completedAt || new Date(),
+      source: "checkout_job",
+      sourceId: job.id,
+    }], declineCodes);
+    if (created === 0) return { recorded: false, retired: null };
+
+    return { recorded: true, retired: await evaluateCardRules(job.cardId) };
+  } catch (error) {
+    console.error(`[CardHealth] Failed to record job ${job.id}:`, error);
+    return { recorded: false, retired: null };
+  }
+}
+
+/**
+ * Where an incremental sync starts: shortly before the last sync, or the
+ * lookback window on the first run
+ */
+async function getSyncStart(now: Date): Promise<Date> {
+  const setting = await prisma.setting.findUnique({ where: { key: CARD_LEDGER_SYNCED_AT_SETTING } });
+  const lastSyncAt = setting ? new Date(setting.value) : null;
+  if (!lastSyncAt || isNaN(lastSyncAt.getTime())) {
+    return new Date(now.getTime() - SYNC_LOOKBACK_DAYS * 24 * HOUR_MS);
+  }
+  return new Date(lastSyncAt.getTime() - SYNC_OVERLAP_MS);
+}
+
+/**
+ * Backfill the ledger from checkout jobs and purchases, then apply the rules
+ * to every card that had an outcome in the scanned range.
+ */
+export async function syncCardLedger(options: { full?: boolean } = {}): Promise<CardLedgerSyncResult> {
+  try {
+    const now = new Date();
+    const since = options.full ? null : await getSyncStart(now);
+    const [declineCodes, rules] = await Promise.all([getDeclineCodes(), getCardHealthRules()]);
+
+    const [jobs, purchases] = await Promise.all([
+      prisma.checkoutJob.findMany({
+        where: {
+          cardId: { not: null },
+          status: { in: ["SUCCESS", "FAILED", "NEEDS_REVIEW"] },
+          ...(since && { OR: [{ completedAt: { gte: since } }, { completedAt: null, createdAt: { gte: since } }] }),
+        },
+        select: {
+          id: true,
+          cardId: true,
+          status: true,
+          totalPrice: true,
+          errorCode: true,
+          errorMessage: true,
+          completedAt: true,
+          createdAt: true,
+        },
+      }),
+      prisma.purchase.findMany({
+        where: { cardId: { not: null }, ...(since && { createdAt: { gte: since } }) },
+        select: {
+          id: true,
+          cardId: true,
+          status: true,
+          totalPrice: true,
+          errorCode: true,
+          errorMessage: true,
+          createdAt: true,
+        },
+      }),
+    ]);
+
+    // Only the jobs behind the purchases being scanned (all of them on a full sync)
+    const jobPurchases = purchases.length === 0
+      ? []
+      : await prisma.checkoutJob.findMany({
+          where: { purchaseId: since ? { in: purchases.map(p => p.id) } : { not: null } },
+          select: { purchaseId: true },
+        });
+
+    // Purchases imported from a checkout job were already counted via the job
+    const countedPurchaseIds = new Set(jobPurchases.map(j => j.purchaseId));
+
+    const outcomes: CardOutcome[] = [
+      ...jobs.map(j => ({
+        cardId: j.cardId!,
+        status: j.status,
+        totalPrice: j.totalPrice,
+        errorCode: j.errorCode,
+        errorMessage: j.errorMessage,
+        occurredAt: j.completedAt || j.createdAt,
+        source: "checkout_job" as const,
+        sourceId: j.id,
+      })),
+      ...purchases
+        .filter(p => !countedPurchaseIds.has(p.id))
+        .map(p => ({
+          cardId: p.cardId!,
+          status: p.status,
+          totalPrice: p.totalPrice,
+          errorCode: p.errorCode,
+          errorMessage: p.errorMessage,
+          occurredAt: p.createdAt,
+          source: "purchase" as const,
+          sourceId: p.id,
+        })),
+    ];
+
+    const { created, cardIds } = await writeOutcomes(outcomes, declineCodes);
+
+    let retired = 0;
+    for (const cardId of cardIds) {
+      if (await evaluateCardRules(cardId, rules)) retired++;
+    }
+
+    await prisma.setting.upsert({
+      where: { key: CARD_LEDGER_SYNCED_AT_SETTING },
+      create: { key: CARD_LEDGER_SYNCED_AT_SETTING, value: now.toISOString() },
+      update: { value: now.toISOString() },
+    });
+
+    if (created > 0 || retired > 0) {
+      console.log(`[CardHealth] Ledger sync: ${created} new events from ${outcomes.length} outcomes, ${retired} cards retired`);
+    }
+
+    return { success: true, synced: outcomes.length, created, retired };
+  } catch (error) {
+    console.error("[CardHealth] Ledger sync failed:", error);
+    return { success: false, synced: 0, created: 0, retired: 0, error: String(error) };
+  }
+}
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+/**
+ * When the card was last reinstated by hand - outcomes before then don't count
+ */
+async function getReinstatedAt(cardId: string): Promise<Date | null> {
+  const event = await prisma.cardEvent.findFirst({
+    where: { cardId, type: "STATUS_CHANGE", source: "manual", toStatus: "AVAILABLE" },
+    orderBy: { occurredAt: "desc" },
+    select: { occurredAt: true },
+  });
+  return event?.occurredAt ?? null;
+}
+
+async function measureRule(cardId: string, rule: CardHealthRule, reinstatedAt: Date | null): Promise<number> {
+  const windowStart = new Date(Date.now() - rule.windowHours * HOUR_MS);
+  const from = reinstatedAt && reinstatedAt > windowStart ? reinstatedAt : windowStart;
+
+  if (rule.kind === "declines") {
+    return prisma.cardEvent.count({ where: { cardId, type: "DECLINE", occurredAt: { gte: from } } });
+  }
+  const spend = await prisma.cardEvent.aggregate({
+    where: { cardId, type: "CHARGE", occurredAt: { gte: from } },
+    _sum: { amount: true },
+  });
+  return Number(spend._sum.amount ?? 0);
+}
+
+/**
+ * Apply the enabled rules to a card in rotation. The first rule that's met
+ * retires the card. Returns the new status, or null if nothing changed.
+ */
+export async function evaluateCardRules(
+  cardId: string,
+  rules?: CardHealthRule[]
+): Promise<CardCheckoutStatus | null> {
+  const activeRules = (rules ?? await getCardHealthRules()).filter(r => r.enabled !== false);
+  if (activeRules.length === 0) return null;
+
+  const card = await prisma.card.findUnique({
+    where: { id: cardId },
+    select: { checkoutStatus: true, deletedAt: true },
+  });
+  if (!card || card.deletedAt || RETIRED_CARD_STATUSES.includes(card.checkoutStatus as CardCheckoutStatus)) {
+    return null;
+  }
+
+  const reinstatedAt = await getReinstatedAt(cardId);
+  for (const rule of activeRules) {
+    const value = await measureRule(cardId, rule, reinstatedAt);
+    if (value < rule.threshold) continue;
+
+    const result = await changeCardStatus(cardId, rule.action, {
+      reason: describeRuleValue(rule, value),
+      source: "rule",
+    });
+    return result.success && result.changed ? rule.action : null;
+  }
+  return null;
+}
+
+/**
+ * Change a card's checkout status and record it in the ledger.
+ * Setting the current status again is a no-op (changed: false).
+ */
+export async function changeCardStatus(
+  cardId: string,
+  to: string,
+  options: { reason?: string | null; source?: CardStatusChangeSource; actor?: string | null } = {}
+) {
+  if (!CARD_CHECKOUT_STATUSES.includes(to as CardCheckoutStatus)) {
+    return { success: false as const, error: `Invalid checkout status: ${to}` };
+  }
+
+  const card = await prisma.card.findUnique({
+    where: { id: cardId },
+    select: { checkoutStatus: true },
+  });
+  if (!card) return { success: false as const, error: "Card not found" };
+
+  const from = card.checkoutStatus;
+  if (from === to) {
+    return { success: true as const, changed: false, from, to };
+  }
+
+  const source = options.source || "manual";
+  const reason = options.reason?.trim() || null;
+
+  // Only update if the status hasn't moved underneath us (e.g. two declines at once)
+  const applied = await prisma.$transaction(async (tx) => {
+    const updated = await tx.card.updateMany({
+      where: { id: cardId, checkoutStatus: from },
+      data: { checkoutStatus: to },
+    });
+    if (updated.count === 0) return false;
+
+    await tx.cardEvent.create({
+      data: {
+        cardId,
+        type: "STATUS_CHANGE",
+        fromStatus: from,
+        toStatus: to,
+        reason,
+        source,
+        actor: options.actor || null,
+        occurredAt: new Date(),
+      },
+    });
+    return true;
+  });
+
+  if (!applied) {
+    return { success: false as const, error: "Card status changed concurrently - try again" };
+  }
+
+  console.log(`[CardHealth] ${cardId}: ${from} -> ${to} (${source})` + (reason ? ` - ${reason}` : ""));
+
+  return { success: true as const, changed: true, from, to };
+}
+
+// =============================================================================
+// Summaries
+// =============================================================================
+
+/**
+ * Health summary per card: decline rate, rolling spend, last decline and
+ * how close the card is to its nearest rule
+ */
+export async function getCardHealthSummaries(cardIds: string[]): Promise<Map<string, CardHealthSummary>> {
+  const summaries = new Map<string, CardHealthSummary>();
+  if (cardIds.length === 0) return summaries;
+
+  const now = Date.now();
+  const dayAgo = new Date(now - 24 * HOUR_MS);
+  const monthAgo = new Date(now - 30 * 24 * HOUR_MS);
+  const inCards = { cardId: { in: cardIds } };
+
+  const rules = (await getCardHealthRules()).filter(r => r.enabled !== false);
+
+  const [cards, totals, recentDeclines, spendDay, spendMonth, lastDeclines, ruleValues] = await Promise.all([
+    prisma.card.findMany({
+      where: { id: { in: cardIds } },
+      select: { id: true, checkoutStatus: true },
+    }),
+    prisma.cardEvent.groupBy({
+      by: ["cardId", "type"],
+      where: { ...inCards, type: { in: ["CHARGE", "DECLINE"] } },
+      _count: { id: true },
+    }),
+    prisma.cardEvent.groupBy({
+      by: ["cardId"],
+      where: { ...inCards, type: "DECLINE", occurredAt: { gte: dayAgo } },
+      _count: { id: true },
+    }),
+    prisma.cardEvent.groupBy({
+      by: ["cardId"],
+      where: { ...inCards, type: "CHARGE", occurredAt: { gte: dayAgo } },
+      _sum: { amount: true },
+    }),
+    prisma.cardEvent.groupBy({
+      by: ["cardId"],
+      where: { ...inCards, type: "CHARGE", occurredAt: { gte: monthAgo } },
+      _sum: { amount: true },
+    }),
+    prisma.cardEvent.findMany({
+      where: { ...inCards, type: "DECLINE" },
+      orderBy: { occurredAt: "desc" },
+      distinct: ["cardId"],
+      select: { cardId: true, occurredAt: true, errorCode: true, errorMessage: true },
+    }),
+    Promise.all(rules.map(async (rule) => {
+      const where = {
+        ...inCards,
+        type: rule.kind === "declines" ? "DECLINE" : "CHARGE",
+        occurredAt: { gte: new Date(now - rule.windowHours * HOUR_MS) },
+      };
+      const groups = await prisma.cardEvent.groupBy({
+        by: ["cardId"],
+        where,
+        _count: { id: true },
+        _sum: { amount: true },
+      });
+      return new Map(groups.map(g => [
+        g.cardId,
+        rule.kind === "declines" ? g._count.id : Number(g._sum.amount ?? 0),
+      ]));
+    })),
+  ]);
+
+  const countOf = (cardId: string, type: string) =>
+    totals.find(t => t.cardId === cardId && t.type === type)?._count.id ?? 0;
+  const declinesDayMap = new Map(recentDeclines.map(d => [d.cardId, d._count.id]));
+  const spendDayMap = new Map(spendDay.map(s => [s.cardId, Number(s._sum.amount ?? 0)]));
+  const spendMonthMap = new Map(spendMonth.map(s => [s.cardId, Number(s._sum.amount ?? 0)]));
+  const lastDeclineMap = new Map(lastDeclines.map(d => [d.cardId, d]));
+
+  for (const card of cards) {
+    const charges = countOf(card.id, "CHARGE");
+    const declines = countOf(card.id, "DECLINE");
+    const lastDecline = lastDeclineMap.get(card.id);
+
+    // Closest enabled rule
+    let nearest: { progress: number; detail: string } | null = null;
+    for (let i = 0; i < rules.length; i++) {
+      const value = ruleValues[i].get(card.id) ?? 0;
+      const progress = value / rules[i].threshold;
+      if (value > 0 && (!nearest || progress > nearest.progress)) {
+        nearest = { progress, detail: describeRuleValue(rules[i], value) };
+      }
+    }
+
+    const retired = RETIRED_CARD_STATUSES.includes(card.checkoutStatus as CardCheckoutStatus);
+    summaries.set(card.id, {
+      cardId: card.id,
+      checkoutStatus: card.checkoutStatus,
+      charges,
+      declines,
+      declineRate: charges + declines > 0 ? Math.round((declines / (charges + declines)) * 1000) / 1000 : null,
+      declines24h: declinesDayMap.get(card.id) ?? 0,
+      spend24h: spendDayMap.get(card.id) ?? 0,
+      spend30d: spendMonthMap.get(card.id) ?? 0,
+      lastDeclineAt: lastDecline?.occurredAt ?? null,
+      lastDeclineReason: lastDecline ? lastDecline.errorMessage || lastDecline.errorCode : null,
+      health: retired ? "retired" : nearest && nearest.progress >= AT_RISK_FRACTION ? "at_risk" : "healthy",
+      riskDetail: nearest?.detail ?? null,
+    });
+  }
+
+  return summaries;
+}
+
+/**
+ * Ledger for one card, newest first, with its current summary
+ */
+export async function getCardHealthHistory(cardId: string, limit: number = 100) {
+  const card = await prisma.card.findUnique({ where: { id: cardId }, select: { id: true } });
+  if (!card) return { success: false as const, error: "Card not found" };
+
+  const [events, summaries] = await Promise.all([
+    prisma.cardEvent.findMany({
+      where: { cardId },
+      orderBy: { occurredAt: "desc" },
+      take: limit,
+    }),
+    getCardHealthSummaries([cardId]),
+  ]);
+
+  return {
+    success: true as const,
+    summary: summaries.get(cardId)!,
+    events: events.map(e => ({ ...e, amount: e.amount !== null ? Number(e.amount) : null })),
+  };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const CardHealth = {
+  sync: syncCardLedger,
+  recordJob: recordCheckoutJobOutcome,
+  evaluate: evaluateCardRules,
+  changeStatus: changeCardStatus,
+  summaries: getCardHealthSummaries,
+  history: getCardHealthHistory,
+  rules: getCardHealthRules,
+  declineCodes: getDeclineCodes,
+};
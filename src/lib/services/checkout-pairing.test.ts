@@ -0,0 +1,93 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { installFakePrisma } from "@/lib/testing/fake-prisma";
+
+const db = installFakePrisma();
+
+function job(overrides: Record<string, unknown>) {
+  return {
+    status: "QUEUED",
+    accountId: null,
+    accountEmail: null,
+    cardId: null,
+    cardLast4: null,
+    tmEventId: "event-1",
+    eventName: "Show",
+    venue: null,
+    quantity: 2,
+    priceEach: null,
+    totalPrice: null,
+    purchaseId: null,
+    ...overrides,
+  };
+}
+
+function card(id: string, accountId: string | null, checkoutStatus = "AVAILABLE") {
+  return {
+    id,
+    accountId,
+    deletedAt: null,
+    checkoutStatus,
+    cardLast4: id.slice(-4),
+    cardType: "VISA",
+    billingState: "NY",
+    useCount: 0,
+    lastUsedAt: null,
+  };
+}
+
+beforeEach(() => {
+  db.reset({
+    account: [{ id: "acc-1", email: "one@example.com", status: "ACTIVE" }],
+    card: [card("card-1111", "acc-1"), card("card-2222", "acc-1", "IN_USE")],
+    checkoutJob: [job({ id: "job-1" })],
+  });
+  db.queryRaw = (_sql, values) =>
+    db.tables.account.filter(a => a.id === values[0]).map(a => ({ status: a.status }));
+});
+
+test("an account queued on another event can still be claimed", async () => {
+  const { claimPair, recommendPairs } = await import("./checkout-pairing");
+  db.tables.checkoutJob.push(job({ id: "job-2", tmEventId: "event-2", accountId: "acc-1", cardId: "card-2222" }));
+
+  const recommended = await recommendPairs("job-1");
+  assert.ok(recommended.success);
+  assert.equal(recommended.result.recommendations[0]?.accountId, "acc-1");
+
+  const result = await claimPair("job-1", { accountId: "acc-1" });
+  assert.equal(result.success, true, result.success ? undefined : result.error);
+  const claimed = db.tables.checkoutJob.find(j => j.id === "job-1")!;
+  assert.equal(claimed.accountId, "acc-1");
+  assert.equal(claimed.cardId, "card-1111");
+  assert.equal(db.tables.card.find(c => c.id === "card-1111")!.checkoutStatus, "IN_USE");
+});
+
+test("an account with an open job for the same event is busy in both the preview and the claim", async () => {
+  const { claimPair, recommendPairs } = await import("./checkout-pairing");
+  db.tables.checkoutJob.push(job({ id: "job-2", accountId: "acc-1", cardId: "card-2222" }));
+
+  const recommended = await recommendPairs("job-1");
+  assert.ok(recommended.success);
+  assert.equal(recommended.result.recommendations.length, 0);
+  assert.equal(recommended.result.excluded.accountsBusy, 1);
+
+  const result = await claimPair("job-1");
+  assert.deepEqual(result, { success: false, error: "No eligible account/card pair available" });
+});
+
+test("a claim rolls back when the account gets busy for the event mid-claim", async () => {
+  const { claimPair } = await import("./checkout-pairing");
+  const lookup = db.queryRaw;
+  // Another worker pairs the account for this event while the claim is running
+  db.queryRaw = (sql, values) => {
+    db.tables.checkoutJob.push(job({ id: "job-2", status: "RUNNING", accountId: "acc-1", cardId: "card-2222" }));
+    return lookup(sql, values);
+  };
+
+  const result = await claimPair("job-1");
+  assert.equal(result.success, false);
+  const unclaimed = db.tables.checkoutJob.find(j => j.id === "job-1")!;
+  assert.equal(unclaimed.accountId, null);
+  assert.equal(unclaimed.cardId, null);
+  assert.equal(db.tables.card.find(c => c.id === "card-1111")!.checkoutStatus, "AVAILABLE");
+});
@@ -0,0 +1,627 @@
+/**
+ * Checkout Pairing
+ *
+ * Recommends account/card pairs for a checkout job and lets the daemon claim
+ * one atomically:
+ * - Accounts: ACTIVE only, ranked by composite score (account-scoring.ts,
+ *   default weight profile). Accounts already holding a paired job for the
+ *   same event are skipped.
+ * - Cards: AVAILABLE and not retired by card health, matching allowed_card_tags,
+ *   either linked to the account or unlinked (when auto_link_cards is on).
+ *   Rested cards (old lastUsedAt, low useCount) rank higher; at-risk cards lower.
+ * - Constraints: pairing_venue_states restricts billing states for matching
+ *   venues, and pairing_max_card_uses_per_event caps purchases per card per event.
+ *   Accounts and cards that would go over an exposure cap are left out, and a
+ *   job over an event/artist cap can't be claimed at all.
+ *
+ * A claim flips the card to IN_USE and writes the pair onto the job in one
+ * transaction, so two workers can't take the same card. The card goes back
+ * to AVAILABLE when the job finishes (releaseJobCard).
+ */
+
+import prisma from "@/lib/db";
+import { Prisma, PurchaseStatus } from "@prisma/client";
+import {
+  buildBatchParticipantCounts,
+  calculateEventPerformances,
+  calculateAccountScore,
+} from "@/lib/analytics";
+import { resolveScoreProfile } from "@/lib/services/score-profiles";
+import { ASSIGNABLE_ACCOUNT_STATUSES } from "@/lib/services/account-status";
+import { getCardHealthSummaries } from "@/lib/services/card-health";
+import { checkJobExposure, getCappedPairing } from "@/lib/services/exposure-caps";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PairingContext {
+  jobId?: string;
+  accountId?: string | null;   // Job already tied to an account - only pair it with cards
+  tmEventId?: string | null;
+  eventName?: string | null;
+  venue?: string | null;
+  quantity?: number | null;    // Counted against account/card exposure caps
+  priceEach?: Prisma.Decimal | number | null;
+  totalPrice?: Prisma.Decimal | number | null;
+}
+
+export interface PairRecommendation {
+  accountId: string;
+  email: string;
+  accountScore: number;        // Composite score 0-100 (0 with no queue history)
+  cardId: string;
+  cardLast4: string | null;
+  cardType: string;
+  billingState: string;
+  cardLinked: boolean;         // Already linked to this account (otherwise linked on claim)
+  cardScore: number;           // 0-100, rested and healthy cards score higher
+  cardHealth: "healthy" | "at_risk";
+  cardEventUses: number;       // Purchases/jobs already on this card for the event
+  lastUsedAt: Date | null;
+  score: number;               // Overall pair score 0-100
+  notes: string[];
+}
+
+export interface PairingResult {
+  recommendations: PairRecommendation[];
+  excluded: {
+    accountsBusy: number;      // Already paired on another job for this event
+    cardsWrongState: number;   // Billing state not allowed at this venue
+    cardsAtEventCap: number;   // Hit pairing_max_card_uses_per_event
+    accountsAtCap: number;     // Would go over an ACCOUNT exposure cap
+    cardsAtCap: number;        // Would go over a CARD exposure cap
+  };
+  constraints: {
+    allowedStates: string[] | null;
+    maxCardUsesPerEvent: number;
+  };
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+// Checkout config keys
+export const PAIRING_CONFIG = {
+  VENUE_STATES: "pairing_venue_states",           // JSON: { "<venue name contains>": ["NY", "NJ"] }
+  MAX_CARD_USES_PER_EVENT: "pairing_max_card_uses_per_event",
+} as const;
+
+export const DEFAULT_MAX_CARD_USES_PER_EVENT = 2;
+
+// Pair score = account share + card share (+ bonus for a card already on the account)
+const ACCOUNT_WEIGHT = 0.7;
+const CARD_WEIGHT = 0.3;
+const LINKED_CARD_BONUS = 10;
+
+// A card counts as fully rested this long after its last use
+const CARD_REST_HOURS = 72;
+
+// Only the best-scoring accounts are paired - keeps the pair matrix small
+const MAX_CANDIDATE_ACCOUNTS = 50;
+
+const ACTIVE_JOB_STATUSES = ["QUEUED", "RUNNING"];
+const HOUR_MS = 60 * 60 * 1000;
+
+// Thrown inside the claim transaction to roll back the job update
+const CARD_TAKEN = "CARD_TAKEN";
+const ACCOUNT_TAKEN = "ACCOUNT_TAKEN";
+
+interface PairingConfig {
+  autoLinkCards: boolean;
+  allowedTags: string[];
+  venueStates: Record<string, string[]>;
+  maxCardUsesPerEvent: number;
+}
+
+async function getPairingConfig(): Promise<PairingConfig> {
+  const rows = await prisma.checkoutConfig.findMany({
+    where: {
+      key: { in: ["auto_link_cards", "allowed_card_tags", PAIRING_CONFIG.VENUE_STATES, PAIRING_CONFIG.MAX_CARD_USES_PER_EVENT] },
+    },
+  });
+  const values = new Map(rows.map(r => [r.key, r.value]));
+  const parse = <T>(key: string, fallback: T): T => {
+    try {
+      return values.has(key) ? JSON.parse(values.get(key)!) : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  const allowedTags = parse<unknown>("allowed_card_tags", []);
+  const venueStates = parse<unknown>(PAIRING_CONFIG.VENUE_STATES, {});
+  const maxUses = parseInt(values.get(PAIRING_CONFIG.MAX_CARD_USES_PER_EVENT) || "", 10);
+
+  return {
+    autoLinkCards: values.get("auto_link_cards") !== "false",
+    allowedTags: Array.isArray(allowedTags) ? allowedTags.map(String) : [],
+    venueStates: venueStates && typeof venueStates === "object" && !Array.isArray(venueStates)
+      ? venueStates as Record<string, string[]>
+      : {},
+    maxCardUsesPerEvent: maxUses > 0 ? maxUses : DEFAULT_MAX_CARD_USES_PER_EVENT,
+  };
+}
+
+/**
+ * Billing states allowed at the venue, or null if it has no restriction
+ */
+function getAllowedStates(venue: string | null | undefined, venueStates: Record<string, string[]>): string[] | null {
+  if (!venue) return null;
+  const lower = venue.toLowerCase();
+  const match = Object.entries(venueStates).find(([name]) => lower.includes(name.toLowerCase()));
+  return match && Array.isArray(match[1]) ? match[1].map(s => String(s).trim().toUpperCase()) : null;
+}
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+/**
+ * Composite scores for the given accounts from all non-excluded queue data
+ */
+async function getAccountScores(accountIds: string[]): Promise<Map<string, number>> {
+  const scores = new Map<string, number>();
+  if (accountIds.length === 0) return scores;
+
+  const [profile, queuePositions, purchasers] = await Promise.all([
+    resolveScoreProfile(),
+    prisma.queuePosition.findMany({
+      where: { excluded: false },
+      select: {
+        accountId: true,
+        eventId: true,
+        batchId: true,
+        position: true,
+        testedAt: true,
+        event: { select: { eventName: true } },
+        batch: { select: { tag: true } },
+      },
+    }),
+    prisma.purchase.findMany({
+      where: { status: PurchaseStatus.SUCCESS, accountId: { in: accountIds } },
+      select: { accountId: true },
+      distinct: ["accountId"],
+    }),
+  ]);
+
+  const batchParticipantCounts = buildBatchParticipantCounts(queuePositions);
+  const purchasedAccountIds = new Set(purchasers.map(p => p.accountId));
+  const wanted = new Set(accountIds);
+
+  const byAccount = new Map<string, typeof queuePositions>();
+  for (const qp of queuePositions) {
+    if (!wanted.has(qp.accountId)) continue;
+    const list = byAccount.get(qp.accountId) || [];
+    list.push(qp);
+    byAccount.set(qp.accountId, list);
+  }
+
+  for (const [accountId, positions] of byAccount) {
+    const performances = calculateEventPerformances(
+      positions.map(qp => ({
+        eventId: qp.eventId,
+        eventName: qp.event.eventName,
+        batchId: qp.batchId,
+        batchTag: qp.batch.tag,
+        position: qp.position,
+        testedAt: qp.testedAt,
+      })),
+      batchParticipantCounts
+    );
+    const score = calculateAccountScore(
+      accountId,
+      "",
+      performances,
+      purchasedAccountIds.has(accountId),
+      3,
+      10,
+      profile!.weights
+    );
+    scores.set(accountId, score.scoreBreakdown.compositeScore);
+  }
+
+  return scores;
+}
+
+function scoreCard(card: { lastUsedAt: Date | null; useCount: number }, atRisk: boolean): number {
+  const hoursSinceUse = card.lastUsedAt ? (Date.now() - card.lastUsedAt.getTime()) / HOUR_MS : Infinity;
+  const rested = Math.min(hoursSinceUse / CARD_REST_HOURS, 1) * 100;
+  const lightlyUsed = Math.max(0, 100 - card.useCount * 5);
+  const score = rested * 0.7 + lightlyUsed * 0.3;
+  return Math.round((atRisk ? score / 2 : score) * 10) / 10;
+}
+
+// =============================================================================
+// Recommendations
+// =============================================================================
+
+async function getContextFromJob(jobId: string): Promise<PairingContext | null> {
+  const job = await prisma.checkoutJob.findUnique({
+    where: { id: jobId },
+    select: {
+      id: true,
+      accountId: true,
+      tmEventId: true,
+      eventName: true,
+      venue: true,
+      quantity: true,
+      priceEach: true,
+      totalPrice: true,
+    },
+  });
+  if (!job) return null;
+  return { ...job, jobId: job.id };
+}
+
+/**
+ * The job's event by tmEventId, else by event name (null with neither)
+ */
+function eventMatchFor(context: { tmEventId?: string | null; eventName?: string | null }) {
+  return context.tmEventId
+    ? { tmEventId: context.tmEventId }
+    : context.eventName
+      ? { eventName: context.eventName }
+      : null;
+}
+
+/**
+ * Open paired jobs on the event, other than the job being paired. An account
+ * holding one is busy for this event - jobs on other events don't count.
+ * Shared by recommendations and the claim so both agree on busy accounts.
+ */
+function busyJobsWhere(
+  eventMatch: { tmEventId: string } | { eventName: string },
+  jobId?: string
+): Prisma.CheckoutJobWhereInput {
+  return {
+    ...eventMatch,
+    ...(jobId && { id: { not: jobId } }),
+    cardId: { not: null },
+    status: { in: ACTIVE_JOB_STATUSES },
+  };
+}
+
+/**
+ * Jobs and purchases that count against a card's per-event cap, and accounts
+ * already holding a paired job for the event
+ */
+async function getEventUsage(context: PairingContext) {
+  const cardUses = new Map<string, number>();
+  const busyAccountIds = new Set<string>();
+  const eventMatch = eventMatchFor(context);
+  if (!eventMatch) return { cardUses, busyAccountIds };
+
+  const [jobs, purchases] = await Promise.all([
+    prisma.checkoutJob.findMany({
+      where: {
+        ...busyJobsWhere(eventMatch, context.jobId),
+        status: { in: [...ACTIVE_JOB_STATUSES, "SUCCESS"] },
+      },
+      select: { cardId: true, accountId: true, status: true, purchaseId: true },
+    }),
+    prisma.purchase.findMany({
+      where: {
+        status: PurchaseStatus.SUCCESS,
+        cardId: { not: null },
+        event: eventMatch,
+      },
+      select: { id: true, cardId: true },
+    }),
+  ]);
+
+  for (const job of jobs) {
+    if (ACTIVE_JOB_STATUSES.includes(job.status) && job.accountId) busyAccountIds.add(job.accountId);
+    // Imported jobs are counted through their purchase
+    if (job.purchaseId) continue;
+    cardUses.set(job.cardId!, (cardUses.get(job.cardId!) || 0) + 1);
+  }
+  for (const purchase of purchases) {
+    cardUses.set(purchase.cardId!, (cardUses.get(purchase.cardId!) || 0) + 1);
+  }
+
+  return { cardUses, busyAccountIds };
+}
+
+/**
+ * Best account/card pairs for a job (or event context), each account and
+ * card used at most once
+ */
+export async function recommendPairs(
+  contextOrJobId: PairingContext | string,
+  limit: number = 5
+): Promise<{ success: true; result: PairingResult } | { success: false; error: string }> {
+  const context = typeof contextOrJobId === "string"
+    ? await getContextFromJob(contextOrJobId)
+    : contextOrJobId;
+  if (!context) return { success: false, error: "Checkout job not found" };
+
+  const config = await getPairingConfig();
+  const allowedStates = getAllowedStates(context.venue, config.venueStates);
+  const { cardUses, busyAccountIds } = await getEventUsage(context);
+
+  const accounts = await prisma.account.findMany({
+    where: {
+      status: { in: ASSIGNABLE_ACCOUNT_STATUSES },
+      ...(context.accountId && { id: context.accountId }),
+    },
+    select: { id: true, email: true },
+  });
+  const available = accounts.filter(a => !busyAccountIds.has(a.id));
+
+  const accountScores = await getAccountScores(available.map(a => a.id));
+  const capped = await getCappedPairing({ ...context, id: context.jobId }, available.map(a => a.id), []);
+  const candidates = available
+    .filter(a => !capped.accountIds.has(a.id))
+    .map(a => ({ ...a, score: accountScores.get(a.id) ?? 0 }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATE_ACCOUNTS);
+  const candidateIds = candidates.map(a => a.id);
+
+  const cards = await prisma.card.findMany({
+    where: {
+      deletedAt: null,
+      checkoutStatus: "AVAILABLE",
+      OR: [
+        { accountId: { in: candidateIds } },
+        ...(config.autoLinkCards ? [{ accountId: null }] : []),
+      ],
+      ...(config.allowedTags.length > 0 && {
+        tags: { some: { name: { in: config.allowedTags, mode: "insensitive" as const } } },
+      }),
+    },
+    select: {
+      id: true,
+      accountId: true,
+      cardLast4: true,
+      cardType: true,
+      billingState: true,
+      useCount: true,
+      lastUsedAt: true,
+    },
+  });
+
+  let cardsWrongState = 0;
+  let cardsAtEventCap = 0;
+  const eligibleCards = cards.filter(card => {
+    if (allowedStates && !allowedStates.includes(card.billingState.trim().toUpperCase())) {
+      cardsWrongState++;
+      return false;
+    }
+    if ((cardUses.get(card.id) || 0) >= config.maxCardUsesPerEvent) {
+      cardsAtEventCap++;
+      return false;
+    }
+    return true;
+  });
+
+  const cappedCards = (await getCappedPairing({ ...context, id: context.jobId }, [], eligibleCards.map(c => c.id))).cardIds;
+  const pairableCards = eligibleCards.filter(c => !cappedCards.has(c.id));
+
+  const health = await getCardHealthSummaries(pairableCards.map(c => c.id));
+
+  // Score every account x card combination, then pick greedily
+  const pairs: PairRecommendation[] = [];
+  for (const account of candidates) {
+    for (const card of pairableCards) {
+      if (card.accountId && card.accountId !== account.id) continue;
+
+      const atRisk = health.get(card.id)?.health === "at_risk";
+      const cardScore = scoreCard(card, atRisk);
+      const linked = card.accountId === account.id;
+      const eventUses = cardUses.get(card.id) || 0;
+
+      const notes: string[] = [];
+      if (!accountScores.has(account.id)) notes.push("No queue history");
+      if (!linked) notes.push("Card will be linked to the account");
+      if (atRisk) notes.push(`Card at risk: ${health.get(card.id)?.riskDetail}`);
+      if (eventUses > 0) notes.push(`Card already used ${eventUses}x for this event`);
+
+      pairs.push({
+        accountId: account.id,
+        email: account.email,
+        accountScore: account.score,
+        cardId: card.id,
+        cardLast4: card.cardLast4,
+        cardType: card.cardType,
+        billingState: card.billingState,
+        cardLinked: linked,
+        cardScore,
+        cardHealth: atRisk ? "at_risk" : "healthy",
+        cardEventUses: eventUses,
+        lastUsedAt: card.lastUsedAt,
+        score: Math.round(Math.min(100, account.score * ACCOUNT_WEIGHT + cardScore * CARD_WEIGHT + (linked ? LINKED_CARD_BONUS : 0)) * 10) / 10,
+        notes,
+      });
+    }
+  }
+
+  pairs.sort((a, b) => b.score - a.score);
+  const usedAccounts = new Set<string>();
+  const usedCards = new Set<string>();
+  const recommendations: PairRecommendation[] = [];
+  for (const pair of pairs) {
+    if (recommendations.length >= limit) break;
+    if (usedAccounts.has(pair.accountId) || usedCards.has(pair.cardId)) continue;
+    usedAccounts.add(pair.accountId);
+    usedCards.add(pair.cardId);
+    recommendations.push(pair);
+  }
+
+  return {
+    success: true,
+    result: {
+      recommendations,
+      excluded: {
+        accountsBusy: accounts.length - available.length,
+        cardsWrongState,
+        cardsAtEventCap,
+        accountsAtCap: capped.accountIds.size,
+        cardsAtCap: cappedCards.size,
+      },
+      constraints: {
+        allowedStates,
+        maxCardUsesPerEvent: config.maxCardUsesPerEvent,
+      },
+    },
+  };
+}
+
+// =============================================================================
+// Claiming
+// =============================================================================
+
+/**
+ * Pair a queued job with its best available account/card (or the given pair,
+ * which must be among the recommendations). If another worker takes the card
+ * or the account first (or the account leaves ACTIVE), the next
+ * recommendation is tried. Accounts on open jobs for other events can still
+ * be paired, same as in recommendPairs.
+ */
+export async function claimPair(
+  jobId: string,
+  options: { accountId?: string; cardId?: string; claimedBy?: string | null } = {}
+) {
+  const job = await prisma.checkoutJob.findUnique({
+    where: { id: jobId },
+    select: {
+      id: true,
+      status: true,
+      cardId: true,
+      tmEventId: true,
+      eventName: true,
+      quantity: true,
+      priceEach: true,
+      totalPrice: true,
+    },
+  });
+  if (!job) return { success: false as const, error: "Checkout job not found" };
+  if (job.status !== "QUEUED") {
+    return { success: false as const, error: `Job is ${job.status} - only queued jobs can be paired` };
+  }
+  if (job.cardId) return { success: false as const, error: "Job already has a card" };
+
+  // Event/artist caps don't depend on the pair - refuse the job outright
+  const breaches = await checkJobExposure(job, ["EVENT", "ARTIST"]);
+  if (breaches.length > 0) {
+    return { success: false as const, error: breaches.map(b => b.message).join("; ") };
+  }
+
+  const recommended = await recommendPairs(jobId, 10);
+  if (!recommended.success) return { success: false as const, error: recommended.error };
+
+  let candidates = recommended.result.recommendations;
+  if (options.accountId || options.cardId) {
+    candidates = candidates.filter(p =>
+      (!options.accountId || p.accountId === options.accountId) &&
+      (!options.cardId || p.cardId === options.cardId)
+    );
+    if (candidates.length === 0) {
+      return { success: false as const, error: "That pair isn't eligible for this job" };
+    }
+  }
+  if (candidates.length === 0) {
+    return { success: false as const, error: "No eligible account/card pair available" };
+  }
+
+  const eventMatch = eventMatchFor(job);
+  for (const pair of candidates) {
+    const outcome = await prisma.$transaction(async (tx) => {
+      const jobUpdate = await tx.checkoutJob.updateMany({
+        where: { id: jobId, status: "QUEUED", cardId: null },
+        data: {
+          accountId: pair.accountId,
+          accountEmail: pair.email,
+          cardId: pair.cardId,
+          cardLast4: pair.cardLast4,
+        },
+      });
+      if (jobUpdate.count === 0) return "job_taken" as const;
+
+      // Lock the account so two claims can't both pass the checks below, then
+      // make sure it's still ACTIVE and not busy with another job for the event
+      const [account] = await tx.$queryRaw<{ status: string }[]>`
+        SELECT status::text AS status FROM accounts WHERE id = ${pair.accountId} FOR UPDATE
+      `;
+      if (account?.status !== "ACTIVE") throw new Error(ACCOUNT_TAKEN);
+      if (eventMatch) {
+        const busyJobs = await tx.checkoutJob.count({
+          where: { ...busyJobsWhere(eventMatch, jobId), accountId: pair.accountId },
+        });
+        if (busyJobs > 0) throw new Error(ACCOUNT_TAKEN);
+      }
+
+      const cardUpdate = await tx.card.updateMany({
+        where: {
+          id: pair.cardId,
+          deletedAt: null,
+          checkoutStatus: "AVAILABLE",
+          OR: [{ accountId: null }, { accountId: pair.accountId }],
+        },
+        data: {
+          checkoutStatus: "IN_USE",
+          accountId: pair.accountId,
+          useCount: { increment: 1 },
+          lastUsedAt: new Date(),
+        },
+      });
+      if (cardUpdate.count === 0) {
+        // Lost the card to another claim - undo the job update and try the next pair
+        throw new Error(CARD_TAKEN);
+      }
+      return "claimed" as const;
+    }).catch((error) => {
+      if (error instanceof Error && error.message === CARD_TAKEN) return "card_taken" as const;
+      if (error instanceof Error && error.message === ACCOUNT_TAKEN) return "account_taken" as const;
+      throw error;
+    });
+
+    if (outcome === "job_taken") {
+      return { success: false as const, error: "Job was paired or started by another worker" };
+    }
+    if (outcome === "claimed") {
+      console.log(
+        `[Pairing] Job ${jobId}: ${pair.email} + card ****${pair.cardLast4 || "????"} (score ${pair.score})` +
+          (options.claimedBy ? ` by ${options.claimedBy}` : "")
+      );
+      return { success: true as const, pair };
+    }
+  }
+
+  return { success: false as const, error: "All recommended accounts/cards were claimed by other jobs - try again" };
+}
+
+/**
+ * Return a finished job's card to AVAILABLE. Cards retired in the meantime
+ * (DECLINED/EXHAUSTED) are left alone.
+ */
+export async function releaseJobCard(job: { cardId: string | null; status: string }) {
+  if (!job.cardId || ACTIVE_JOB_STATUSES.includes(job.status)) return false;
+  return (await releaseCards([job.cardId])) > 0;
+}
+
+/**
+ * Release several cards at once (bulk cancel/clear of jobs)
+ */
+export async function releaseCards(cardIds: (string | null)[]) {
+  const ids = cardIds.filter((id): id is string => !!id);
+  if (ids.length === 0) return 0;
+
+  const released = await prisma.card.updateMany({
+    where: { id: { in: ids }, checkoutStatus: "IN_USE" },
+    data: { checkoutStatus: "AVAILABLE" },
+  });
+  return released.count;
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const CheckoutPairing = {
+  recommend: recommendPairs,
+  claim: claimPair,
+  release: releaseJobCard,
+  releaseCards,
+};
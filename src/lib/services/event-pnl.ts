@@ -0,0 +1,666 @@
+/**
+ * Event P&L
+ *
+ * Profit and loss per event (and rolled up per artist), so we can see which
+ * shows and artists are worth buying again.
+ *
+ * - Purchased: successful Purchases (quantity, totalPrice)
+ * - Listed: Listings still on the POS with no sales yet, at their current
+ *   price (unrealized value) and cost - same rule as the dashboard
+ * - Realized: Sales on non-cancelled Invoices. Revenue is invoice.totalAmount
+ *   (net payout after fees); when an invoice covers several sales it is split
+ *   by each sale's share of the gross salePrice. Fees are split the same way.
+ * - Sold cost: from our own Purchase records, via Sale -> Listing -> Purchase
+ *   or Sale.extPONumber -> Purchase.dashboardPoNumber (see getSalesStats)
+ *
+ * ROI = realized profit / sold cost. Sell-through = sold / purchased tickets.
+ * Sales without an invoice yet are counted as awaiting invoice, not realized.
+ */
+
+import prisma from "@/lib/db";
+import { Prisma, PurchaseStatus } from "@prisma/client";
+import { mapSectionToZone } from "@/lib/utils/section-mapper";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PnlMetrics {
+  purchasedTickets: number;
+  purchasedCost: number;
+  listedTickets: number;
+  listedValue: number;         // Unrealized: listing price * quantity
+  listedCost: number;
+  unrealizedProfit: number;
+  soldTickets: number;
+  awaitingInvoiceTickets: number;
+  revenue: number;             // Net payout (invoice.totalAmount share)
+  fees: number;
+  soldCost: number;
+  realizedProfit: number;
+  netCash: number;             // revenue - purchasedCost
+  roi: number | null;          // % - realizedProfit / soldCost
+  sellThrough: number | null;  // % - soldTickets / purchasedTickets
+}
+
+export interface EventPnlRow extends PnlMetrics {
+  eventId: string;
+  tmEventId: string;
+  eventName: string;
+  artistName: string | null;
+  venue: string | null;
+  eventDate: Date | null;
+}
+
+export interface ArtistPnlRow extends PnlMetrics {
+  artistName: string;
+  eventCount: number;
+}
+
+export interface ZonePnlRow extends PnlMetrics {
+  zone: string;
+}
+
+export interface PnlTicketRow {
+  id: string;
+  section: string;
+  row: string;
+  seatNumber: number;
+  zone: string;
+  status: string;
+  cost: number;
+  listPrice: number | null;
+  revenue: number | null;      // Net payout share for this seat
+  profit: number | null;
+  purchaseId: string;
+  dashboardPoNumber: string | null;
+  saleId: string | null;
+  invoiceNumber: number | null;
+  saleDate: Date | null;
+}
+
+export interface PnlFilters {
+  search?: string | null;      // Event name, artist or venue
+  artist?: string | null;
+  upcoming?: boolean | null;   // true = future events, false = past
+}
+
+// Everything the metrics are built from, already reduced to one row per source record
+interface PurchaseLine {
+  eventId: string;
+  section: string | null;
+  tickets: number;
+  cost: number;
+}
+
+interface ListingLine {
+  eventId: string;
+  section: string;
+  tickets: number;
+  value: number;
+  cost: number;
+}
+
+interface SaleLine {
+  saleId: string;
+  eventId: string;
+  section: string | null;
+  tickets: number;
+  invoiced: boolean;
+  revenue: number;
+  fees: number;
+  cost: number;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+export const UNKNOWN_ZONE = "Unknown";
+
+const TICKET_LIMIT = 5000;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function emptyMetrics(): PnlMetrics {
+  return {
+    purchasedTickets: 0,
+    purchasedCost: 0,
+    listedTickets: 0,
+    listedValue: 0,
+    listedCost: 0,
+    unrealizedProfit: 0,
+    soldTickets: 0,
+    awaitingInvoiceTickets: 0,
+    revenue: 0,
+    fees: 0,
+    soldCost: 0,
+    realizedProfit: 0,
+    netCash: 0,
+    roi: null,
+    sellThrough: null,
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Fill in the derived fields and round money values
+ */
+function finalize<T extends PnlMetrics>(m: T): T {
+  m.purchasedCost = round2(m.purchasedCost);
+  m.listedValue = round2(m.listedValue);
+  m.listedCost = round2(m.listedCost);
+  m.revenue = round2(m.revenue);
+  m.fees = round2(m.fees);
+  m.soldCost = round2(m.soldCost);
+  m.unrealizedProfit = round2(m.listedValue - m.listedCost);
+  m.realizedProfit = round2(m.revenue - m.soldCost);
+  m.netCash = round2(m.revenue - m.purchasedCost);
+  m.roi = m.soldCost > 0 ? round2((m.realizedProfit / m.soldCost) * 100) : null;
+  m.sellThrough = m.purchasedTickets > 0
+    ? round2((m.soldTickets / m.purchasedTickets) * 100)
+    : null;
+  return m;
+}
+
+function addMetrics(target: PnlMetrics, source: PnlMetrics) {
+  target.purchasedTickets += source.purchasedTickets;
+  target.purchasedCost += source.purchasedCost;
+  target.listedTickets += source.listedTickets;
+  target.listedValue += source.listedValue;
+  target.listedCost += source.listedCost;
+  target.soldTickets += source.soldTickets;
+  target.awaitingInvoiceTickets += source.awaitingInvoiceTickets;
+  target.revenue += source.revenue;
+  target.fees += source.fees;
+  target.soldCost += source.soldCost;
+}
+
+function zoneOf(section: string | null): string {
+  return (section && mapSectionToZone(section)) || UNKNOWN_ZONE;
+}
+
+/**
+ * Accumulate purchase/listing/sale lines into metrics, grouped by key
+ */
+function accumulate(
+  purchases: PurchaseLine[],
+  listings: ListingLine[],
+  sales: SaleLine[],
+  keyOf: (line: { eventId: string; section: string | null }) => string
+): Map<string, PnlMetrics> {
+  const result = new Map<string, PnlMetrics>();
+  const get = (key: string) => {
+    let m = result.get(key);
+    if (!m) {
+      m = emptyMetrics();
+      result.set(key, m);
+    }
+    return m;
+  };
+
+  for (const p of purchases) {
+    const m = get(keyOf(p));
+    m.purchasedTickets += p.tickets;
+    m.purchasedCost += p.cost;
+  }
+  for (const l of listings) {
+    const m = get(keyOf(l));
+    m.listedTickets += l.tickets;
+    m.listedValue += l.value;
+    m.listedCost += l.cost;
+  }
+  for (const s of sales) {
+    const m = get(keyOf(s));
+    if (!s.invoiced) {
+      m.awaitingInvoiceTickets += s.tickets;
+      continue;
+    }
+    m.soldTickets += s.tickets;
+    m.revenue += s.revenue;
+    m.fees += s.fees;
+    m.soldCost += s.cost;
+  }
+
+  return result;
+}
+
+// =============================================================================
+// Data Loading
+// =============================================================================
+
+async function loadPurchaseLines(eventIds: string[] | null): Promise<PurchaseLine[]> {
+  const purchases = await prisma.purchase.findMany({
+    where: {
+      status: PurchaseStatus.SUCCESS,
+      eventId: eventIds ? { in: eventIds } : { not: null },
+    },
+    select: { eventId: true, section: true, quantity: true, totalPrice: true },
+  });
+
+  return purchases.map((p) => ({
+    eventId: p.eventId as string,
+    section: p.section,
+    tickets: p.quantity,
+    cost: Number(p.totalPrice || 0),
+  }));
+}
+
+async function loadListingLines(eventIds: string[] | null): Promise<ListingLine[]> {
+  // listing.price and listing.cost are per ticket
+  const listings = await prisma.listing.findMany({
+    where: {
+      eventId: eventIds ? { in: eventIds } : { not: null },
+      removedFromPosAt: null,
+      sales: { none: {} },
+    },
+    select: { eventId: true, section: true, quantity: true, price: true, cost: true },
+  });
+
+  return listings.map((l) => {
+    const qty = l.quantity || 1;
+    return {
+      eventId: l.eventId as string,
+      section: l.section,
+      tickets: qty,
+      value: Number(l.price) * qty,
+      cost: Number(l.cost) * qty,
+    };
+  });
+}
+
+/**
+ * Sales with their share of the invoice payout and our cost.
+ * A sale belongs to an event through Sale.eventId, or its listing's event.
+ */
+async function loadSaleLines(eventIds: string[] | null): Promise<SaleLine[]> {
+  const eventFilter: Prisma.SaleWhereInput = eventIds
+    ? { OR: [{ eventId: { in: eventIds } }, { eventId: null, listing: { eventId: { in: eventIds } } }] }
+    : { OR: [{ eventId: { not: null } }, { listing: { eventId: { not: null } } }] };
+
+  const sales = await prisma.sale.findMany({
+    where: eventFilter,
+    select: {
+      id: true,
+      eventId: true,
+      section: true,
+      quantity: true,
+      salePrice: true,
+      extPONumber: true,
+      invoiceNumber: true,
+      invoice: { select: { totalAmount: true, fees: true, isCancelled: true } },
+      listing: {
+        select: {
+          eventId: true,
+          section: true,
+          purchase: { select: { totalPrice: true, quantity: true } },
+        },
+      },
+    },
+  });
+
+  // Gross total per invoice, to split payouts covering several sales
+  const invoiceNumbers = [...new Set(sales.map((s) => s.invoiceNumber).filter((n): n is number => n !== null))];
+  const invoiceGross = new Map<number, number>();
+  if (invoiceNumbers.length > 0) {
+    const grouped = await prisma.sale.groupBy({
+      by: ["invoiceNumber"],
+      where: { invoiceNumber: { in: invoiceNumbers } },
+      _sum: { salePrice: true },
+    });
+    for (const g of grouped) {
+      if (g.invoiceNumber !== null) invoiceGross.set(g.invoiceNumber, Number(g._sum.salePrice || 0));
+    }
+  }
+
+  // Sales without a listing purchase link fall back to the PO number
+  const poNumbers = [
+    ...new Set(
+      sales
+        .filter((s) => !s.listing?.purchase && s.extPONumber)
+        .map((s) => s.extPONumber as string)
+    ),
+  ];
+  const purchaseByPO = new Map<string, { totalPrice: Prisma.Decimal | null; quantity: number }>();
+  if (poNumbers.length > 0) {
+    const direct = await prisma.purchase.findMany({
+      where: { dashboardPoNumber: { in: poNumbers } },
+      select: { dashboardPoNumber: true, totalPrice: true, quantity: true },
+    });
+    for (const p of direct) {
+      if (p.dashboardPoNumber) purchaseByPO.set(p.dashboardPoNumber, p);
+    }
+  }
+
+  const lines: SaleLine[] = [];
+  for (const sale of sales) {
+    if (sale.invoice?.isCancelled) continue;
+
+    const eventId = sale.eventId || sale.listing?.eventId;
+    if (!eventId) continue;
+
+    const purchase = sale.listing?.purchase || (sale.extPONumber ? purchaseByPO.get(sale.extPONumber) : undefined);
+    const cost = purchase && purchase.totalPrice && purchase.quantity > 0
+      ? (Number(purchase.totalPrice) / purchase.quantity) * sale.quantity
+      : 0;
+
+    let revenue = 0;
+    let fees = 0;
+    if (sale.invoice && sale.invoiceNumber !== null) {
+      const gross = invoiceGross.get(sale.invoiceNumber) || 0;
+      const share = gross > 0 ? Number(sale.salePrice) / gross : 1;
+      revenue = Number(sale.invoice.totalAmount) * share;
+      fees = Number(sale.invoice.fees) * share;
+    }
+
+    lines.push({
+      saleId: sale.id,
+      eventId,
+      section: sale.section || sale.listing?.section || null,
+      tickets: sale.quantity,
+      invoiced: !!sale.invoice,
+      revenue,
+      fees,
+      cost,
+    });
+  }
+
+  return lines;
+}
+
+async function loadLines(eventIds: string[] | null) {
+  const [purchases, listings, sales] = await Promise.all([
+    loadPurchaseLines(eventIds),
+    loadListingLines(eventIds),
+    loadSaleLines(eventIds),
+  ]);
+  return { purchases, listings, sales };
+}
+
+function buildEventWhere(filters: PnlFilters): Prisma.EventWhereInput {
+  const where: Prisma.EventWhereInput = {};
+
+  if (filters.search) {
+    where.OR = [
+      { eventName: { contains: filters.search, mode: "insensitive" } },
+      { artistName: { contains: filters.search, mode: "insensitive" } },
+      { venue: { contains: filters.search, mode: "insensitive" } },
+    ];
+  }
+  if (filters.artist) {
+    where.artistName = { equals: filters.artist, mode: "insensitive" };
+  }
+  if (filters.upcoming === true) {
+    where.eventDate = { gte: new Date() };
+  } else if (filters.upcoming === false) {
+    where.eventDate = { lt: new Date() };
+  }
+
+  return where;
+}
+
+// =============================================================================
+// Reports
+// =============================================================================
+
+/**
+ * P&L for every event we've bought, listed or sold, with per-artist rollups
+ */
+export async function getEventPnlSummary(filters: PnlFilters = {}) {
+  const hasFilters = !!(filters.search || filters.artist || typeof filters.upcoming === "boolean");
+
+  let eventIds: string[] | null = null;
+  if (hasFilters) {
+    const matching = await prisma.event.findMany({ where: buildEventWhere(filters), select: { id: true } });
+    eventIds = matching.map((e) => e.id);
+  }
+
+  const { purchases, listings, sales } = await loadLines(eventIds);
+  const byEvent = accumulate(purchases, listings, sales, (line) => line.eventId);
+
+  const events = await prisma.event.findMany({
+    where: { id: { in: [...byEvent.keys()] } },
+    select: { id: true, tmEventId: true, eventName: true, artistName: true, venue: true, eventDate: true },
+  });
+
+  const rows: EventPnlRow[] = events.map((event) =>
+    finalize({
+      eventId: event.id,
+      tmEventId: event.tmEventId,
+      eventName: event.eventName,
+      artistName: event.artistName,
+      venue: event.venue,
+      eventDate: event.eventDate,
+      ...(byEvent.get(event.id) as PnlMetrics),
+    })
+  );
+  rows.sort((a, b) => b.realizedProfit + b.unrealizedProfit - (a.realizedProfit + a.unrealizedProfit));
+
+  // Roll up by artist (case-insensitive, keeps the first spelling seen)
+  const artists = new Map<string, ArtistPnlRow>();
+  const totals = emptyMetrics();
+  for (const row of rows) {
+    const name = row.artistName || row.eventName;
+    const key = name.toLowerCase();
+    let artist = artists.get(key);
+    if (!artist) {
+      artist = { artistName: name, eventCount: 0, ...emptyMetrics() };
+      artists.set(key, artist);
+    }
+    artist.eventCount++;
+    addMetrics(artist, row);
+    addMetrics(totals, row);
+  }
+
+  return {
+    events: rows,
+    artists: [...artists.values()]
+      .map((a) => finalize(a))
+      .sort((a, b) => b.realizedProfit - a.realizedProfit),
+    totals: finalize(totals),
+  };
+}
+
+/**
+ * P&L for one event with a per-zone breakdown and its individual tickets
+ */
+export async function getEventPnl(eventId: string) {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, tmEventId: true, eventName: true, artistName: true, venue: true, eventDate: true },
+  });
+  if (!event) {
+    return { success: false as const, error: "Event not found" };
+  }
+
+  const { purchases, listings, sales } = await loadLines([eventId]);
+
+  const total = accumulate(purchases, listings, sales, () => eventId).get(eventId) || emptyMetrics();
+  const zones: ZonePnlRow[] = [...accumulate(purchases, listings, sales, (line) => zoneOf(line.section)).entries()]
+    .map(([zone, m]) => finalize({ zone, ...m }))
+    .sort((a, b) => b.purchasedCost - a.purchasedCost);
+
+  const tickets = await getEventTickets(eventId, sales);
+
+  return {
+    success: true as const,
+    event,
+    pnl: finalize(total),
+    zones,
+    tickets,
+  };
+}
+
+/**
+ * Individual seats for an event, with what each one cost and earned.
+ * A sold seat gets an equal share of its sale's net payout.
+ */
+async function getEventTickets(eventId: string, saleLines?: SaleLine[]): Promise<PnlTicketRow[]> {
+  const lines = saleLines || (await loadSaleLines([eventId]));
+  const saleById = new Map(lines.map((s) => [s.saleId, s]));
+
+  const tickets = await prisma.ticket.findMany({
+    where: { eventId },
+    orderBy: [{ section: "asc" }, { row: "asc" }, { seatNumber: "asc" }],
+    take: TICKET_LIMIT,
+    select: {
+      id: true,
+      section: true,
+      row: true,
+      seatNumber: true,
+      status: true,
+      cost: true,
+      purchaseId: true,
+      saleId: true,
+      purchase: { select: { dashboardPoNumber: true } },
+      listing: { select: { price: true } },
+      sale: { select: { invoiceNumber: true, saleDate: true } },
+    },
+  });
+
+  return tickets.map((t) => {
+    const cost = Number(t.cost);
+    const sale = t.saleId ? saleById.get(t.saleId) : undefined;
+    const revenue = sale?.invoiced && sale.tickets > 0 ? round2(sale.revenue / sale.tickets) : null;
+
+    return {
+      id: t.id,
+      section: t.section,
+      row: t.row,
+      seatNumber: t.seatNumber,
+      zone: zoneOf(t.section),
+      status: t.status,
+      cost,
+      listPrice: t.listing ? Number(t.listing.price) : null,
+      revenue,
+      profit: revenue !== null ? round2(revenue - cost) : null,
+      purchaseId: t.purchaseId,
+      dashboardPoNumber: t.purchase.dashboardPoNumber,
+      saleId: t.saleId,
+      invoiceNumber: t.sale?.invoiceNumber ?? null,
+      saleDate: t.sale?.saleDate ?? null,
+    };
+  });
+}
+
+// =============================================================================
+// CSV Export
+// =============================================================================
+
+const escapeCSV = (val: unknown): string => {
+  const str = String(val ?? "");
+  if (str.includes(",") || str.includes('"') || str.includes("\n")) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+};
+
+const METRIC_HEADERS = [
+  "Purchased Tickets",
+  "Purchased Cost",
+  "Listed Tickets",
+  "Listed Value",
+  "Listed Cost",
+  "Unrealized Profit",
+  "Sold Tickets",
+  "Awaiting Invoice",
+  "Revenue",
+  "Fees",
+  "Sold Cost",
+  "Realized Profit",
+  "Net Cash",
+  "ROI %",
+  "Sell-Through %",
+];
+
+function metricCells(m: PnlMetrics): unknown[] {
+  return [
+    m.purchasedTickets,
+    m.purchasedCost.toFixed(2),
+    m.listedTickets,
+    m.listedValue.toFixed(2),
+    m.listedCost.toFixed(2),
+    m.unrealizedProfit.toFixed(2),
+    m.soldTickets,
+    m.awaitingInvoiceTickets,
+    m.revenue.toFixed(2),
+    m.fees.toFixed(2),
+    m.soldCost.toFixed(2),
+    m.realizedProfit.toFixed(2),
+    m.netCash.toFixed(2),
+    m.roi ?? "",
+    m.sellThrough ?? "",
+  ];
+}
+
+function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers.join(","), ...rows.map((row) => row.map(escapeCSV).join(","))].join("\n");
+}
+
+/**
+ * Event P&L as CSV - one row per event, or one row per ticket when eventId is given
+ */
+export async function exportEventPnlCsv(filters: PnlFilters & { eventId?: string | null }): Promise<string> {
+  if (filters.eventId) {
+    const tickets = await getEventTickets(filters.eventId);
+    return toCsv(
+      ["Section", "Row", "Seat", "Zone", "Status", "Cost", "List Price", "Revenue", "Profit", "PO Number", "Invoice", "Sale Date", "Ticket ID"],
+      tickets.map((t) => [
+        t.section,
+        t.row,
+        t.seatNumber,
+        t.zone,
+        t.status,
+        t.cost.toFixed(2),
+        t.listPrice?.toFixed(2) ?? "",
+        t.revenue?.toFixed(2) ?? "",
+        t.profit?.toFixed(2) ?? "",
+        t.dashboardPoNumber || "",
+        t.invoiceNumber ?? "",
+        t.saleDate ? t.saleDate.toISOString().split("T")[0] : "",
+        t.id,
+      ])
+    );
+  }
+
+  const { events } = await getEventPnlSummary(filters);
+  return toCsv(
+    ["Event", "Artist", "Venue", "Event Date", "TM Event ID", ...METRIC_HEADERS],
+    events.map((e) => [
+      e.eventName,
+      e.artistName || "",
+      e.venue || "",
+      e.eventDate ? e.eventDate.toISOString().split("T")[0] : "",
+      e.tmEventId,
+      ...metricCells(e),
+    ])
+  );
+}
+
+/**
+ * Read P&L filters from query params
+ */
+export function parsePnlFilters(searchParams: URLSearchParams): PnlFilters {
+  const upcoming = searchParams.get("upcoming");
+  return {
+    search: searchParams.get("search"),
+    artist: searchParams.get("artist"),
+    upcoming: upcoming === "true" ? true : upcoming === "false" ? false : null,
+  };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const EventPnl = {
+  getSummary: getEventPnlSummary,
+  getEvent: getEventPnl,
+  exportCsv: exportEventPnlCsv,
+  parseFilters: parsePnlFilters,
+};
@@ -16,6 +16,8 @@
 import prisma from "@/lib/db";
 import { scrapeEventPageFetch as scrapeEventPage, ScrapedEventData } from "./ticketmaster-fetch-scraper";
 import { getGetInPrice, getGetInPriceFromUrl, VividSeatsPrice, ZonePrice, clearPriceCache } from "./vivid-seats-scraper";
+import { saveSourceZonePrices } from "./price-sources";
+import { recordPriceObservations } from "./price-history";
 
 // ============================================
 // Types
@@ -187,7 +189,7 @@ export async function syncEvent(
       
       // Save zone prices if available
       if (priceData?.zonePrices && priceData.zonePrices.length > 0) {
-        await saveZonePrices(event.id, priceData.zonePrices);
+        await saveZonePrices(event.id, priceData.zonePrices, priceData.url);
       }
       
       result.success = true;
@@ -235,6 +237,10 @@ export async function updateEventRecord(
       updated_at = NOW()
     WHERE id = ${eventId}
   `;
+
+  if (data.getInPrice) {
+    await recordPriceObservations(eventId, { getInPrice: data.getInPrice }, data.getInPriceSource || undefined);
+  }
 }
 
 /**
@@ -254,11 +260,12 @@ export async function updateEventPrice(
         updated_at = NOW()
       WHERE id = ${eventId}
     `;
+    await recordPriceObservations(eventId, { getInPrice: priceData.getInPrice });
   }
   
   // Save zone prices if available
   if (priceData.zonePrices && priceData.zonePrices.length > 0) {
-    await saveZonePrices(eventId, priceData.zonePrices);
+    await saveZonePrices(eventId, priceData.zonePrices, priceData.url);
   }
 }
 
@@ -266,8 +273,10 @@ export async function updateEventPrice(
  * Save zone-level pricing for an event
  * Upserts zone prices - updates if exists, creates if new
  * Now includes colorHex field
+ * Also stored as the "vividseats" market for the multi-source comparison,
+ * and appended (with section prices) to the price history
  */
-export async function saveZonePrices(eventId: string, zonePrices: ZonePrice[]): Promise<void> {
+export async function saveZonePrices(eventId: string, zonePrices: ZonePrice[], url?: string | null): Promise<void> {
   const now = new Date();
   
   for (const zp of zonePrices) {
@@ -293,6 +302,14 @@ export async function saveZonePrices(eventId: string, zonePrices: ZonePrice[]):
       console.error(`[EventSync] Failed to save zone price for ${zp.zoneName}:`, error);
     }
   }
+
+  try {
+    await saveSourceZonePrices(eventId, "vividseats", zonePrices, { url });
+  } catch (error) {
+    console.error(`[EventSync] Failed to save Vivid Seats source prices for ${eventId}:`, error);
+  }
+
+  await recordPriceObservations(eventId, { zonePrices });
 }
 
 /**
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ExposureCap, Prisma } from "@prisma/client";
+import {
+  describeCap,
+  isOverCap,
+  sumExposure,
+  utilization,
+  validateCapInput,
+  type ExposureItem,
+} from "./exposure-caps";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function cap(overrides: Partial<ExposureCap> = {}): ExposureCap {
+  return {
+    id: "cap",
+    scope: "EVENT",
+    target: null,
+    maxTickets: null,
+    maxCost: null,
+    windowDays: null,
+    isEnabled: true,
+    notes: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function item(event: string, tickets: number, cost: number, daysAgo: number): ExposureItem {
+  return {
+    keys: { EVENT: event, ARTIST: null, ACCOUNT: null, CARD: null },
+    tickets,
+    cost,
+    at: new Date(Date.now() - daysAgo * DAY_MS),
+  };
+}
+
+test("sumExposure totals items per key", () => {
+  const usage = sumExposure([item("e1", 2, 200, 1), item("e1", 4, 350, 5), item("e2", 1, 80, 1)], cap());
+  assert.deepEqual(usage.get("e1"), { tickets: 6, cost: 550 });
+  assert.deepEqual(usage.get("e2"), { tickets: 1, cost: 80 });
+});
+
+test("sumExposure only counts items inside the window", () => {
+  const usage = sumExposure([item("e1", 2, 200, 1), item("e1", 4, 350, 40)], cap({ windowDays: 30 }));
+  assert.deepEqual(usage.get("e1"), { tickets: 2, cost: 200 });
+});
+
+test("sumExposure skips items without a key for the cap's scope", () => {
+  const usage = sumExposure([item("e1", 2, 200, 1)], cap({ scope: "ACCOUNT" }));
+  assert.equal(usage.size, 0);
+});
+
+test("isOverCap checks tickets and cost", () => {
+  const limits = cap({ maxTickets: 8, maxCost: new Prisma.Decimal(1000) });
+  assert.equal(isOverCap(limits, { tickets: 8, cost: 1000 }), false);
+  assert.equal(isOverCap(limits, { tickets: 9, cost: 100 }), true);
+  assert.equal(isOverCap(limits, { tickets: 2, cost: 1000.01 }), true);
+  // Rounding noise under half a cent doesn't count
+  assert.equal(isOverCap(limits, { tickets: 2, cost: 1000.004 }), false);
+});
+
+test("utilization is the highest of the ticket and cost ratios", () => {
+  const limits = cap({ maxTickets: 8, maxCost: new Prisma.Decimal(1000) });
+  assert.equal(utilization(limits, { tickets: 2, cost: 750 }), 0.75);
+  assert.equal(utilization(limits, { tickets: 6, cost: 100 }), 0.75);
+  assert.equal(utilization(cap({ maxTickets: 3 }), { tickets: 1, cost: 5000 }), 0.333);
+});
+
+test("validateCapInput requires a scope and at least one limit", () => {
+  assert.match(validateCapInput({ scope: "VENUE" as never, maxTickets: 4 })!, /Scope/);
+  assert.match(validateCapInput({ scope: "EVENT" })!, /limit/);
+  assert.match(validateCapInput({ scope: "EVENT", maxTickets: 2.5 })!, /whole number/);
+  assert.match(validateCapInput({ scope: "EVENT", maxCost: -1 })!, /greater than 0/);
+  assert.equal(validateCapInput({ scope: "EVENT", maxTickets: 8, windowDays: 30 }), null);
+});
+
+test("describeCap reads as plain text", () => {
+  assert.equal(
+    describeCap(cap({ maxTickets: 8, maxCost: new Prisma.Decimal(2000), windowDays: 30 })),
+    "8 tickets / $2,000.00 per event, 30 days"
+  );
+  assert.equal(describeCap(cap({ scope: "CARD", target: "card1", maxTickets: 4 })), "4 tickets for this card");
+});
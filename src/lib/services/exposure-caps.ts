@@ -0,0 +1,606 @@
+/**
+ * Exposure Caps
+ *
+ * Configurable limits on how much we buy per event, artist, account or card,
+ * as a ticket count and/or dollar cost, optionally over a rolling window.
+ * A cap with no target applies to every event/artist/account/card on its own
+ * (e.g. "no more than 8 tickets for any one event").
+ *
+ * Exposure is successful purchases plus checkout jobs that will become
+ * purchases: QUEUED/RUNNING, or SUCCESS but not imported yet (and with no
+ * purchase already recorded for them, by job ID or order number). Rolling
+ * windows go by when the purchase was made (completedAt), not when it was
+ * imported; open jobs always count.
+ *
+ * Checked at three points:
+ * - Job creation: a job that would go over a cap is created as NEEDS_REVIEW
+ * - Pairing/claim: accounts and cards at their cap aren't paired, and a job
+ *   over an event/artist cap can't be claimed
+ * - Purchase import: purchases already happened, so breaches are returned
+ *   as warnings
+ */
+
+import prisma from "@/lib/db";
+import { ExposureCap, Prisma, PurchaseStatus } from "@prisma/client";
+import { formatCurrency } from "@/lib/utils";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ExposureScope = "EVENT" | "ARTIST" | "ACCOUNT" | "CARD";
+
+export interface ExposureCapInput {
+  scope: ExposureScope;
+  target?: string | null;
+  maxTickets?: number | null;
+  maxCost?: number | null;
+  windowDays?: number | null;
+  isEnabled?: boolean;
+  notes?: string | null;
+}
+
+export interface ExposureUsage {
+  tickets: number;
+  cost: number;
+}
+
+export interface CapBreach {
+  capId: string;
+  scope: ExposureScope;
+  key: string;                 // The event/artist/account/card that went over
+  label: string;
+  tickets: number;             // Exposure including the job being checked
+  cost: number;
+  maxTickets: number | null;
+  maxCost: number | null;
+  message: string;
+}
+
+export interface CapExposureRow {
+  key: string;
+  label: string;
+  tickets: number;
+  cost: number;
+  utilization: number;         // Highest of tickets/maxTickets and cost/maxCost
+}
+
+// The job or purchase being checked, reduced to what caps look at
+interface ExposureSubjects {
+  EVENT: string[];             // tmEventId (event name when the job has no Event match)
+  ARTIST: string[];            // Lowercased artist name
+  ACCOUNT: string[];
+  CARD: string[];
+}
+
+export interface ExposureItem {
+  keys: Record<ExposureScope, string | null>;
+  tickets: number;
+  cost: number;
+  at: Date;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+export const EXPOSURE_SCOPES: ExposureScope[] = ["EVENT", "ARTIST", "ACCOUNT", "CARD"];
+
+export const EXPOSURE_SCOPE_LABELS: Record<ExposureScope, string> = {
+  EVENT: "Event",
+  ARTIST: "Artist",
+  ACCOUNT: "Account",
+  CARD: "Card",
+};
+
+// Error code on jobs held back for review
+export const EXPOSURE_CAP_ERROR_CODE = "EXPOSURE_CAP";
+
+// Rows shown per untargeted cap on the dashboard
+const TOP_EXPOSURES_PER_CAP = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isExposureScope(scope: string): scope is ExposureScope {
+  return EXPOSURE_SCOPES.includes(scope as ExposureScope);
+}
+
+function normalizeKey(scope: ExposureScope, value: string): string {
+  return scope === "ARTIST" ? value.trim().toLowerCase() : value.trim();
+}
+
+export function validateCapInput(input: Partial<ExposureCapInput>): string | null {
+  if (!input.scope || !isExposureScope(input.scope)) {
+    return `Scope must be one of ${EXPOSURE_SCOPES.join(", ")}`;
+  }
+  const hasTickets = input.maxTickets !== undefined && input.maxTickets !== null;
+  const hasCost = input.maxCost !== undefined && input.maxCost !== null;
+  if (!hasTickets && !hasCost) {
+    return "Set a ticket limit, a cost limit or both";
+  }
+  if (hasTickets && (!Number.isInteger(Number(input.maxTickets)) || Number(input.maxTickets) <= 0)) {
+    return "Ticket limit must be a whole number greater than 0";
+  }
+  if (hasCost && (isNaN(Number(input.maxCost)) || Number(input.maxCost) <= 0)) {
+    return "Cost limit must be greater than 0";
+  }
+  if (input.windowDays !== undefined && input.windowDays !== null &&
+      (!Number.isInteger(Number(input.windowDays)) || Number(input.windowDays) <= 0)) {
+    return "Window must be a whole number of days";
+  }
+  return null;
+}
+
+/**
+ * Describe a cap in plain terms (e.g., "8 tickets / $2,000.00 per event, 30 days")
+ */
+export function describeCap(cap: { scope: string; target: string | null; maxTickets: number | null; maxCost: unknown; windowDays: number | null }): string {
+  const limits = [
+    cap.maxTickets !== null ? `${cap.maxTickets} tickets` : null,
+    cap.maxCost !== null && cap.maxCost !== undefined ? formatCurrency(Number(cap.maxCost)) : null,
+  ].filter(Boolean).join(" / ");
+  const scope = EXPOSURE_SCOPE_LABELS[cap.scope as ExposureScope]?.toLowerCase() || cap.scope;
+  const applies = cap.target ? `for this ${scope}` : `per ${scope}`;
+  return `${limits} ${applies}${cap.windowDays ? `, ${cap.windowDays} days` : ""}`;
+}
+
+// =============================================================================
+// Exposure
+// =============================================================================
+
+/**
+ * Event/artist keys for events matched by tmEventId or event name
+ */
+async function resolveEvents(tmEventIds: string[], eventNames: string[]) {
+  const byTmId = new Map<string, { tmEventId: string; artistName: string | null }>();
+  const byName = new Map<string, { tmEventId: string; artistName: string | null }>();
+  if (tmEventIds.length === 0 && eventNames.length === 0) return { byTmId, byName };
+
+  const events = await prisma.event.findMany({
+    where: {
+      OR: [
+        ...(tmEventIds.length > 0 ? [{ tmEventId: { in: tmEventIds } }] : []),
+        ...(eventNames.length > 0 ? [{ eventName: { in: eventNames } }] : []),
+      ],
+    },
+    select: { tmEventId: true, eventName: true, artistName: true },
+  });
+  for (const event of events) {
+    byTmId.set(event.tmEventId, event);
+    if (!byName.has(event.eventName)) byName.set(event.eventName, event);
+  }
+  return { byTmId, byName };
+}
+
+function jobCost(job: { quantity: number; priceEach: Prisma.Decimal | number | null; totalPrice: Prisma.Decimal | number | null }) {
+  if (job.totalPrice !== null) return Number(job.totalPrice);
+  return job.priceEach !== null ? Number(job.priceEach) * job.quantity : 0;
+}
+
+/**
+ * Purchases and open checkout jobs touching any of the subjects (all of
+ * them with no subjects) made since the given date
+ */
+async function loadExposureItems(
+  subjects: ExposureSubjects | null,
+  since: Date | null,
+  excludeJobId?: string
+): Promise<ExposureItem[]> {
+  let eventIds: string[] = [];
+  let eventNames: string[] = [];
+  if (subjects) {
+    eventIds = [...subjects.EVENT];
+    eventNames = [...subjects.EVENT];
+    if (subjects.ARTIST.length > 0) {
+      const artistEvents = await prisma.event.findMany({
+        where: { OR: subjects.ARTIST.map(a => ({ artistName: { equals: a, mode: "insensitive" as const } })) },
+        select: { tmEventId: true, eventName: true },
+      });
+      eventIds.push(...artistEvents.map(e => e.tmEventId));
+      eventNames.push(...artistEvents.map(e => e.eventName));
+    }
+    if (eventIds.length + subjects.ACCOUNT.length + subjects.CARD.length === 0) return [];
+  }
+
+  // Bought in the window - completedAt when known, else when the row was created
+  const madeSince = since
+    ? { OR: [{ completedAt: { gte: since } }, { completedAt: null, createdAt: { gte: since } }] }
+    : null;
+
+  const purchaseWhere: Prisma.PurchaseWhereInput = {
+    AND: [
+      { status: PurchaseStatus.SUCCESS },
+      ...(madeSince ? [madeSince] : []),
+      ...(subjects
+        ? [{
+            OR: [
+              ...(eventIds.length > 0 ? [{ event: { tmEventId: { in: eventIds } } }] : []),
+              ...(subjects.ACCOUNT.length > 0 ? [{ accountId: { in: subjects.ACCOUNT } }] : []),
+              ...(subjects.CARD.length > 0 ? [{ cardId: { in: subjects.CARD } }] : []),
+            ],
+          }]
+        : []),
+    ],
+  };
+  const jobWhere: Prisma.CheckoutJobWhereInput = {
+    AND: [
+      {
+        OR: [
+          { status: { in: ["QUEUED", "RUNNING"] } },
+          { status: "SUCCESS", imported: false, purchaseId: null, ...(madeSince && { AND: [madeSince] }) },
+        ],
+      },
+      ...(subjects
+        ? [{
+            OR: [
+              ...(eventIds.length > 0 ? [{ tmEventId: { in: eventIds } }, { tmEventId: null, eventName: { in: eventNames } }] : []),
+              ...(subjects.ACCOUNT.length > 0 ? [{ accountId: { in: subjects.ACCOUNT } }] : []),
+              ...(subjects.CARD.length > 0 ? [{ cardId: { in: subjects.CARD } }] : []),
+            ],
+          }]
+        : []),
+    ],
+    ...(excludeJobId && { id: { not: excludeJobId } }),
+  };
+
+  const [purchases, jobs] = await Promise.all([
+    prisma.purchase.findMany({
+      where: purchaseWhere,
+      select: {
+        accountId: true,
+        cardId: true,
+        quantity: true,
+        totalPrice: true,
+        createdAt: true,
+        completedAt: true,
+        event: { select: { tmEventId: true, artistName: true } },
+      },
+    }),
+    prisma.checkoutJob.findMany({
+      where: jobWhere,
+      select: {
+        id: true,
+        status: true,
+        tmOrderNumber: true,
+        tmEventId: true,
+        eventName: true,
+        accountId: true,
+        cardId: true,
+        quantity: true,
+        priceEach: true,
+        totalPrice: true,
+        createdAt: true,
+        completedAt: true,
+      },
+    }),
+  ]);
+
+  // Successful jobs whose purchase was recorded without flagging the job
+  // imported (e.g. a CSV import) would be counted twice
+  const boughtJobs = jobs.filter(j => j.status === "SUCCESS");
+  const recorded = boughtJobs.length > 0
+    ? await prisma.purchase.findMany({
+        where: {
+          OR: [
+            { externalJobId: { in: boughtJobs.map(j => j.id) } },
+            { tmOrderNumber: { in: boughtJobs.map(j => j.tmOrderNumber).filter((n): n is string => !!n) } },
+          ],
+        },
+        select: { externalJobId: true, tmOrderNumber: true },
+      })
+    : [];
+  const recordedJobIds = new Set(recorded.map(p => p.externalJobId));
+  const recordedOrders = new Set(recorded.map(p => p.tmOrderNumber));
+  const pendingJobs = jobs.filter(j =>
+    j.status !== "SUCCESS" || (!recordedJobIds.has(j.id) && !(j.tmOrderNumber && recordedOrders.has(j.tmOrderNumber)))
+  );
+
+  const { byTmId, byName } = await resolveEvents(
+    [...new Set(pendingJobs.map(j => j.tmEventId).filter((id): id is string => !!id))],
+    [...new Set(pendingJobs.filter(j => !j.tmEventId && j.eventName).map(j => j.eventName!))]
+  );
+  const now = new Date();
+
+  const items: ExposureItem[] = purchases.map(p => ({
+    keys: {
+      EVENT: p.event?.tmEventId || null,
+      ARTIST: p.event?.artistName ? normalizeKey("ARTIST", p.event.artistName) : null,
+      ACCOUNT: p.accountId,
+      CARD: p.cardId,
+    },
+    tickets: p.quantity,
+    cost: p.totalPrice !== null ? Number(p.totalPrice) : 0,
+    at: p.completedAt || p.createdAt,
+  }));
+
+  for (const job of pendingJobs) {
+    const event = job.tmEventId ? byTmId.get(job.tmEventId) : job.eventName ? byName.get(job.eventName) : undefined;
+    items.push({
+      keys: {
+        EVENT: event?.tmEventId || job.tmEventId || job.eventName,
+        ARTIST: event?.artistName ? normalizeKey("ARTIST", event.artistName) : null,
+        ACCOUNT: job.accountId,
+        CARD: job.cardId,
+      },
+      tickets: job.quantity,
+      cost: jobCost(job),
+      // Open jobs are about to be bought - always inside the window
+      at: job.status === "SUCCESS" ? job.completedAt || job.createdAt : now,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Exposure per event/artist/account/card for a cap's scope and window
+ */
+export function sumExposure(items: ExposureItem[], cap: ExposureCap): Map<string, ExposureUsage> {
+  const since = cap.windowDays ? Date.now() - cap.windowDays * DAY_MS : null;
+  const usage = new Map<string, ExposureUsage>();
+  for (const item of items) {
+    const key = item.keys[cap.scope as ExposureScope];
+    if (!key || (since !== null && item.at.getTime() < since)) continue;
+    const current = usage.get(key) || { tickets: 0, cost: 0 };
+    current.tickets += item.tickets;
+    current.cost += item.cost;
+    usage.set(key, current);
+  }
+  return usage;
+}
+
+export function utilization(cap: ExposureCap, usage: ExposureUsage): number {
+  const ratios = [
+    cap.maxTickets ? usage.tickets / cap.maxTickets : 0,
+    cap.maxCost !== null && Number(cap.maxCost) > 0 ? usage.cost / Number(cap.maxCost) : 0,
+  ];
+  return Math.round(Math.max(...ratios) * 1000) / 1000;
+}
+
+export function isOverCap(cap: ExposureCap, usage: ExposureUsage): boolean {
+  return (cap.maxTickets !== null && usage.tickets > cap.maxTickets) ||
+    (cap.maxCost !== null && usage.cost > Number(cap.maxCost) + 0.005);
+}
+
+/**
+ * Oldest date any of the caps looks back to (null = all time)
+ */
+function earliestWindow(caps: ExposureCap[]): Date | null {
+  if (caps.some(c => !c.windowDays)) return null;
+  return new Date(Date.now() - Math.max(...caps.map(c => c.windowDays!)) * DAY_MS);
+}
+
+/**
+ * Display names for cap keys - event names, account emails, card digits
+ */
+async function resolveLabels(keysByScope: Record<ExposureScope, Set<string>>) {
+  const labels = new Map<string, string>();
+  const [events, accounts, cards] = await Promise.all([
+    keysByScope.EVENT.size > 0
+      ? prisma.event.findMany({ where: { tmEventId: { in: [...keysByScope.EVENT] } }, select: { tmEventId: true, eventName: true } })
+      : [],
+    keysByScope.ACCOUNT.size > 0
+      ? prisma.account.findMany({ where: { id: { in: [...keysByScope.ACCOUNT] } }, select: { id: true, email: true } })
+      : [],
+    keysByScope.CARD.size > 0
+      ? prisma.card.findMany({ where: { id: { in: [...keysByScope.CARD] } }, select: { id: true, cardLast4: true } })
+      : [],
+  ]);
+  for (const e of events) labels.set(`EVENT:${e.tmEventId}`, e.eventName);
+  for (const a of accounts) labels.set(`ACCOUNT:${a.id}`, a.email);
+  for (const c of cards) labels.set(`CARD:${c.id}`, `****${c.cardLast4 || "????"}`);
+  return (scope: ExposureScope, key: string) => labels.get(`${scope}:${key}`) || key;
+}
+
+/**
+ * Caps the subjects would go over, counting `pending` on top of current
+ * exposure (a job that doesn't exist yet or is being claimed)
+ */
+async function evaluateCaps(
+  subjects: ExposureSubjects,
+  options: { pending?: ExposureUsage; excludeJobId?: string; scopes?: ExposureScope[] } = {}
+): Promise<CapBreach[]> {
+  const scopes = (options.scopes || EXPOSURE_SCOPES).filter(s => subjects[s].length > 0);
+  if (scopes.length === 0) return [];
+
+  const allCaps = await prisma.exposureCap.findMany({
+    where: { isEnabled: true, scope: { in: scopes } },
+  });
+  const caps = allCaps.filter(cap =>
+    !cap.target || subjects[cap.scope as ExposureScope].includes(normalizeKey(cap.scope as ExposureScope, cap.target))
+  );
+  if (caps.length === 0) return [];
+
+  const scoped: ExposureSubjects = { EVENT: [], ARTIST: [], ACCOUNT: [], CARD: [] };
+  for (const scope of scopes) scoped[scope] = subjects[scope];
+  const items = await loadExposureItems(scoped, earliestWindow(caps), options.excludeJobId);
+  const pending = options.pending || { tickets: 0, cost: 0 };
+
+  const breaches: Omit<CapBreach, "label" | "message">[] = [];
+  for (const cap of caps) {
+    const scope = cap.scope as ExposureScope;
+    const usage = sumExposure(items, cap);
+    const keys = cap.target ? [normalizeKey(scope, cap.target)] : subjects[scope];
+    for (const key of keys) {
+      const current = usage.get(key) || { tickets: 0, cost: 0 };
+      const total = { tickets: current.tickets + pending.tickets, cost: current.cost + pending.cost };
+      if (!isOverCap(cap, total)) continue;
+      breaches.push({
+        capId: cap.id,
+        scope,
+        key,
+        tickets: total.tickets,
+        cost: Math.round(total.cost * 100) / 100,
+        maxTickets: cap.maxTickets,
+        maxCost: cap.maxCost !== null ? Number(cap.maxCost) : null,
+      });
+    }
+  }
+  if (breaches.length === 0) return [];
+
+  const keysByScope: Record<ExposureScope, Set<string>> = { EVENT: new Set(), ARTIST: new Set(), ACCOUNT: new Set(), CARD: new Set() };
+  for (const b of breaches) keysByScope[b.scope].add(b.key);
+  const labelFor = await resolveLabels(keysByScope);
+
+  return breaches.map(b => {
+    const label = labelFor(b.scope, b.key);
+    const over = [
+      b.maxTickets !== null && b.tickets > b.maxTickets ? `${b.tickets}/${b.maxTickets} tickets` : null,
+      b.maxCost !== null && b.cost > b.maxCost ? `${formatCurrency(b.cost)}/${formatCurrency(b.maxCost)}` : null,
+    ].filter(Boolean).join(", ");
+    return { ...b, label, message: `${EXPOSURE_SCOPE_LABELS[b.scope]} cap for ${label}: ${over}` };
+  });
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+interface JobExposureInput {
+  id?: string;
+  tmEventId?: string | null;
+  eventName?: string | null;
+  accountId?: string | null;
+  cardId?: string | null;
+  quantity?: number | null;
+  priceEach?: Prisma.Decimal | number | null;
+  totalPrice?: Prisma.Decimal | number | null;
+}
+
+async function getJobSubjects(job: JobExposureInput): Promise<ExposureSubjects> {
+  const { byTmId, byName } = await resolveEvents(
+    job.tmEventId ? [job.tmEventId] : [],
+    !job.tmEventId && job.eventName ? [job.eventName] : []
+  );
+  const event = job.tmEventId ? byTmId.get(job.tmEventId) : job.eventName ? byName.get(job.eventName) : undefined;
+  const eventKey = event?.tmEventId || job.tmEventId || job.eventName || null;
+
+  return {
+    EVENT: eventKey ? [eventKey] : [],
+    ARTIST: event?.artistName ? [normalizeKey("ARTIST", event.artistName)] : [],
+    ACCOUNT: job.accountId ? [job.accountId] : [],
+    CARD: job.cardId ? [job.cardId] : [],
+  };
+}
+
+function pendingFor(job: JobExposureInput): ExposureUsage {
+  const quantity = job.quantity || 1;
+  return {
+    tickets: quantity,
+    cost: jobCost({ quantity, priceEach: job.priceEach ?? null, totalPrice: job.totalPrice ?? null }),
+  };
+}
+
+/**
+ * Caps a checkout job would go over once it's bought. Existing jobs are
+ * counted once - the job itself is left out of current exposure.
+ */
+export async function checkJobExposure(job: JobExposureInput, scopes?: ExposureScope[]): Promise<CapBreach[]> {
+  const subjects = await getJobSubjects(job);
+  return evaluateCaps(subjects, { pending: pendingFor(job), excludeJobId: job.id, scopes });
+}
+
+/**
+ * Accounts and cards that would go over an ACCOUNT/CARD cap by taking the job
+ */
+export async function getCappedPairing(job: JobExposureInput, accountIds: string[], cardIds: string[]) {
+  const breaches = await evaluateCaps(
+    { EVENT: [], ARTIST: [], ACCOUNT: accountIds, CARD: cardIds },
+    { pending: pendingFor(job), excludeJobId: job.id }
+  );
+  return {
+    accountIds: new Set(breaches.filter(b => b.scope === "ACCOUNT").map(b => b.key)),
+    cardIds: new Set(breaches.filter(b => b.scope === "CARD").map(b => b.key)),
+  };
+}
+
+/**
+ * Caps exceeded after importing purchases (already counted in exposure)
+ */
+export async function checkPurchaseExposure(purchaseIds: string[]): Promise<CapBreach[]> {
+  if (purchaseIds.length === 0) return [];
+  try {
+    const purchases = await prisma.purchase.findMany({
+      where: { id: { in: purchaseIds }, status: PurchaseStatus.SUCCESS },
+      select: { accountId: true, cardId: true, event: { select: { tmEventId: true, artistName: true } } },
+    });
+    const unique = (values: (string | null | undefined)[]) => [...new Set(values.filter((v): v is string => !!v))];
+
+    return await evaluateCaps({
+      EVENT: unique(purchases.map(p => p.event?.tmEventId)),
+      ARTIST: unique(purchases.map(p => p.event?.artistName ? normalizeKey("ARTIST", p.event.artistName) : null)),
+      ACCOUNT: unique(purchases.map(p => p.accountId)),
+      CARD: unique(purchases.map(p => p.cardId)),
+    });
+  } catch (error) {
+    // Warnings only - never fail an import over them
+    console.error("[ExposureCaps] Failed to check imported purchases:", error);
+    return [];
+  }
+}
+
+// =============================================================================
+// Dashboard
+// =============================================================================
+
+/**
+ * Every cap with its current exposure - the target's usage, or the most
+ * exposed events/artists/accounts/cards for caps without a target
+ */
+export async function listCapsWithExposure() {
+  const caps = await prisma.exposureCap.findMany({
+    orderBy: [{ scope: "asc" }, { createdAt: "asc" }],
+  });
+  const enabled = caps.filter(c => c.isEnabled);
+  const items = enabled.length > 0 ? await loadExposureItems(null, earliestWindow(enabled)) : [];
+
+  const rowsByCap = new Map<string, { rows: Omit<CapExposureRow, "label">[]; overCount: number }>();
+  const keysByScope: Record<ExposureScope, Set<string>> = { EVENT: new Set(), ARTIST: new Set(), ACCOUNT: new Set(), CARD: new Set() };
+
+  for (const cap of caps) {
+    const scope = cap.scope as ExposureScope;
+    const usage = sumExposure(items, cap);
+    let rows: Omit<CapExposureRow, "label">[];
+    if (cap.target) {
+      const key = normalizeKey(scope, cap.target);
+      const current = usage.get(key) || { tickets: 0, cost: 0 };
+      rows = [{ key, ...current, utilization: utilization(cap, current) }];
+    } else {
+      rows = [...usage.entries()].map(([key, current]) => ({ key, ...current, utilization: utilization(cap, current) }));
+    }
+    rows.sort((a, b) => b.utilization - a.utilization);
+    const overCount = rows.filter(r => isOverCap(cap, r)).length;
+    rows = rows.slice(0, TOP_EXPOSURES_PER_CAP).map(r => ({ ...r, cost: Math.round(r.cost * 100) / 100 }));
+    rows.forEach(r => keysByScope[scope]?.add(r.key));
+    rowsByCap.set(cap.id, { rows, overCount });
+  }
+
+  const labelFor = await resolveLabels(keysByScope);
+
+  return caps.map(cap => {
+    const { rows, overCount } = rowsByCap.get(cap.id)!;
+    return {
+      ...cap,
+      maxCost: cap.maxCost !== null ? Number(cap.maxCost) : null,
+      description: describeCap(cap),
+      overCount,
+      exposures: rows.map(r => ({
+        ...r,
+        label: cap.scope === "ARTIST" && cap.target ? cap.target : labelFor(cap.scope as ExposureScope, r.key),
+      })),
+    };
+  });
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const ExposureCaps = {
+  validate: validateCapInput,
+  describe: describeCap,
+  checkJob: checkJobExposure,
+  checkPurchases: checkPurchaseExposure,
+  cappedPairing: getCappedPairing,
+  list: listCapsWithExposure,
+};
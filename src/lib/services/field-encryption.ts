@@ -0,0 +1,276 @@
+/**
+ * Field Encryption Service
+ *
+ * Application-level envelope encryption for secrets stored in the database:
+ * - Card.cardNumber, Card.cvv
+ * - Account.password, ImapCredential.password, GeneratorTask.password
+ *
+ * Each value gets its own random data key (AES-256-GCM). The data key is
+ * wrapped with the master key from FIELD_ENCRYPTION_KEY and stored alongside
+ * the ciphertext:
+ *
+ *   enc:v1:<masterKeyId>:<wrappedDataKey>:<iv+ciphertext+tag>
+ *
+ * Card numbers also get a blind index (HMAC-SHA256 keyed by BLIND_INDEX_KEY)
+ * in Card.cardNumberHash for uniqueness/lookup, plus a plaintext cardLast4
+ * for display and last-4 matching.
+ *
+ * Values without the enc: prefix are treated as legacy plaintext so reads
+ * keep working until scripts/encrypt-secrets.ts has been run.
+ *
+ * Decrypted values should only leave the server through the audited
+ * reveal endpoint (/api/secrets/reveal) or audited exports.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from "crypto";
+import prisma from "@/lib/db";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const SECRET_ENTITIES = {
+  card: ["cardNumber", "cvv"],
+  account: ["password"],
+  imapCredential: ["password"],
+  generatorTask: ["password"],
+} as const;
+
+export type SecretEntity = keyof typeof SECRET_ENTITIES;
+
+export interface CardNumberFields {
+  cardNumber: string;
+  cardNumberHash: string;
+  cardLast4: string;
+}
+
+// =============================================================================
+// Keys
+// =============================================================================
+
+const PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let cachedKeys: { active: MasterKey; all: Map<string, Buffer> } | null = null;
+
+function parseKey(encoded: string, name: string): Buffer {
+  const key = Buffer.from(encoded.trim(), "base64");
+  if (key.length !== 32) {
+    throw new Error(`${name} must be 32 bytes, base64 encoded (openssl rand -base64 32)`);
+  }
+  return key;
+}
+
+function keyId(key: Buffer): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, 8);
+}
+
+/**
+ * Load the active master key plus any previous keys (for rotation)
+ */
+function getMasterKeys(): { active: MasterKey; all: Map<string, Buffer> } {
+  if (cachedKeys) return cachedKeys;
+
+  const encoded = process.env.FIELD_ENCRYPTION_KEY;
+  if (!encoded) {
+    throw new Error("FIELD_ENCRYPTION_KEY is not set");
+  }
+
+  const activeKey = parseKey(encoded, "FIELD_ENCRYPTION_KEY");
+  const all = new Map<string, Buffer>([[keyId(activeKey), activeKey]]);
+
+  for (const previous of (process.env.FIELD_ENCRYPTION_PREVIOUS_KEYS || "").split(",")) {
+    if (!previous.trim()) continue;
+    const key = parseKey(previous, "FIELD_ENCRYPTION_PREVIOUS_KEYS");
+    all.set(keyId(key), key);
+  }
+
+  cachedKeys = { active: { id: keyId(activeKey), key: activeKey }, all };
+  return cachedKeys;
+}
+
+function getBlindIndexKey(): Buffer {
+  const encoded = process.env.BLIND_INDEX_KEY;
+  if (!encoded) {
+    throw new Error("BLIND_INDEX_KEY is not set");
+  }
+  return parseKey(encoded, "BLIND_INDEX_KEY");
+}
+
+// =============================================================================
+// AES-GCM
+// =============================================================================
+
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(sealed.length - TAG_LENGTH);
+  const ciphertext = sealed.subarray(IV_LENGTH, sealed.length - TAG_LENGTH);
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+// =============================================================================
+// Field Encryption
+// =============================================================================
+
+export function isEncrypted(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt a value (already-encrypted values are returned unchanged)
+ */
+export function encryptField(value: string): string {
+  if (isEncrypted(value)) return value;
+
+  const { active } = getMasterKeys();
+  const dataKey = randomBytes(32);
+  const wrappedKey = seal(active.key, dataKey);
+  const data = seal(dataKey, Buffer.from(value, "utf8"));
+
+  return `${PREFIX}${active.id}:${wrappedKey.toString("base64url")}:${data.toString("base64url")}`;
+}
+
+export function encryptOptional(value: string | null | undefined): string | null {
+  return value ? encryptField(value) : null;
+}
+
+/**
+ * Decrypt a value (legacy plaintext is returned unchanged)
+ */
+export function decryptField(value: string): string {
+  if (!isEncrypted(value)) return value;
+
+  const [id, wrappedKey, data] = value.slice(PREFIX.length).split(":");
+  const masterKey = getMasterKeys().all.get(id);
+  if (!masterKey) {
+    throw new Error(`No master key loaded for key id ${id}`);
+  }
+
+  const dataKey = open(masterKey, Buffer.from(wrappedKey, "base64url"));
+  return open(dataKey, Buffer.from(data, "base64url")).toString("utf8");
+}
+
+export function decryptOptional(value: string | null | undefined): string | null {
+  return value ? decryptField(value) : null;
+}
+
+/**
+ * Whether a value was encrypted with an older master key
+ */
+export function needsRotation(value: string): boolean {
+  if (!isEncrypted(value)) return true;
+  return value.slice(PREFIX.length).split(":")[0] !== getMasterKeys().active.id;
+}
+
+// =============================================================================
+// Card Numbers
+// =============================================================================
+
+function normalizeCardNumber(cardNumber: string): string {
+  return cardNumber.replace(/\D/g, "");
+}
+
+/**
+ * Blind index for a card number - deterministic, so it can back the unique
+ * constraint and exact-match lookups without storing the PAN
+ */
+export function cardNumberIndex(cardNumber: string): string {
+  return createHmac("sha256", getBlindIndexKey())
+    .update(normalizeCardNumber(cardNumber))
+    .digest("hex");
+}
+
+/**
+ * All stored columns for a card number: ciphertext, blind index, last 4
+ */
+export function cardNumberFields(cardNumber: string): CardNumberFields {
+  return {
+    cardNumber: encryptField(cardNumber),
+    cardNumberHash: cardNumberIndex(cardNumber),
+    cardLast4: normalizeCardNumber(cardNumber).slice(-4),
+  };
+}
+
+// =============================================================================
+// Reveal
+// =============================================================================
+
+export function isSecretEntity(entity: string): entity is SecretEntity {
+  return Object.hasOwn(SECRET_ENTITIES, entity);
+}
+
+/**
+ * Load and decrypt the secret fields of a record.
+ * Callers are responsible for auditing (see /api/secrets/reveal).
+ */
+export async function revealSecrets(
+  entity: SecretEntity,
+  id: string
+): Promise<Record<string, string | null> | null> {
+  switch (entity) {
+    case "card": {
+      const card = await prisma.card.findUnique({
+        where: { id },
+        select: { cardNumber: true, cvv: true },
+      });
+      if (!card) return null;
+      return { cardNumber: decryptField(card.cardNumber), cvv: decryptField(card.cvv) };
+    }
+    case "account": {
+      const account = await prisma.account.findUnique({
+        where: { id },
+        select: { password: true },
+      });
+      if (!account) return null;
+      return { password: decryptOptional(account.password) };
+    }
+    case "imapCredential": {
+      const credential = await prisma.imapCredential.findUnique({
+        where: { id },
+        select: { password: true },
+      });
+      if (!credential) return null;
+      return { password: decryptField(credential.password) };
+    }
+    case "generatorTask": {
+      const task = await prisma.generatorTask.findUnique({
+        where: { id },
+        select: { password: true },
+      });
+      if (!task) return null;
+      return { password: decryptOptional(task.password) };
+    }
+  }
+}
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+export const FieldEncryption = {
+  isEncrypted,
+  encryptField,
+  encryptOptional,
+  decryptField,
+  decryptOptional,
+  needsRotation,
+  cardNumberIndex,
+  cardNumberFields,
+  isSecretEntity,
+  revealSecrets,
+};
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { suggestMarkdown } from "./inventory-aging";
+
+const listing = { price: 200, cost: 100, floorPrice: 150, daysListed: 5, daysToEvent: 60 };
+
+test("no suggestion without a floor or when already at the floor", () => {
+  assert.equal(suggestMarkdown({ ...listing, floorPrice: null }), null);
+  assert.equal(suggestMarkdown({ ...listing, price: 150 }), null);
+  assert.equal(suggestMarkdown({ ...listing, price: 140 }), null);
+});
+
+test("fresh listings far from the event stay put", () => {
+  assert.equal(suggestMarkdown(listing), null);
+  assert.equal(suggestMarkdown({ ...listing, daysToEvent: null }), null);
+});
+
+test("listed two weeks moves halfway to the floor", () => {
+  assert.equal(suggestMarkdown({ ...listing, daysListed: 14 })?.price, 175);
+});
+
+test("listed over a month or event within two weeks matches the floor", () => {
+  assert.equal(suggestMarkdown({ ...listing, daysListed: 31 })?.price, 150);
+  assert.equal(suggestMarkdown({ ...listing, daysToEvent: 14 })?.price, 150);
+});
+
+test("the final week undercuts the floor", () => {
+  assert.equal(suggestMarkdown({ ...listing, daysToEvent: 7 })?.price, 148.5);
+  assert.equal(suggestMarkdown({ ...listing, daysToEvent: 3 })?.price, 145.5);
+  assert.equal(suggestMarkdown({ ...listing, daysToEvent: 0 })?.price, 145.5);
+});
+
+test("suggestions hold at cost until the final week", () => {
+  const underwater = { ...listing, cost: 170 };
+  const held = suggestMarkdown({ ...underwater, daysListed: 31 });
+  assert.equal(held?.price, 170);
+  assert.match(held!.reason, /held at cost/);
+
+  // Already at or below cost - nothing to suggest
+  assert.equal(suggestMarkdown({ ...underwater, price: 170, daysListed: 31 }), null);
+
+  // Inside the final week the floor wins over cost
+  assert.equal(suggestMarkdown({ ...underwater, daysToEvent: 5 })?.price, 148.5);
+});
@@ -0,0 +1,377 @@
+/**
+ * Inventory Aging
+ *
+ * Which unsold listings are going stale, and what to mark them down to.
+ *
+ * Listings: still on the POS, no sales yet, event upcoming (or undated) - the
+ * same set the repricing rules work on. Each is bucketed by days listed and
+ * days to the event. Days listed count from when the ticket group went onto
+ * the POS - when we pushed its purchase (Purchase.posSyncedAt), or when we
+ * first synced the listing for groups created on the POS directly.
+ *
+ * Market price is the latest EventZonePrice floor for the zone the section maps
+ * to. Expected loss is what we'd lose selling at that floor after the
+ * marketplace fee: (cost - floor × (1 - fee%)) × quantity, when positive.
+ *
+ * SUGGESTED MARKDOWN (only when we're priced above the floor):
+ * - ≤ 3 days to event:                 floor - 3%
+ * - ≤ 7 days to event:                 floor - 1%
+ * - ≤ 14 days to event, or 30+ listed: at the floor
+ * - 14+ days listed:                   halfway down to the floor
+ * Suggestions never go below cost until the last week, when getting
+ * something back beats holding tickets that expire.
+ *
+ * Markdowns are pushed through ListingService.updateListingPrice and
+ * recorded in the price history with source "markdown".
+ */
+
+import prisma from "@/lib/db";
+import { ListingService, PRICE_CHANGE_SOURCES } from "./listing-service";
+import { mapSectionToZone } from "@/lib/utils/section-mapper";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AgingBucket {
+  key: string;
+  label: string;
+  min: number;
+  max: number | null;  // Inclusive, null = open-ended
+}
+
+export interface AgingListingRow {
+  listingId: string;
+  ticketGroupId: number;
+  eventId: string | null;
+  eventName: string;
+  eventDateTime: Date | null;
+  section: string;
+  row: string;
+  quantity: number;
+  cost: number;                   // Per ticket
+  price: number;                  // Per ticket
+  listedAt: Date;
+  daysListed: number;
+  daysToEvent: number | null;
+  ageBucket: string;
+  eventBucket: string;
+  zoneName: string | null;
+  floorPrice: number | null;
+  floorScrapedAt: Date | null;
+  priceVsFloor: number | null;    // Per ticket, positive = above market
+  expectedLoss: number;           // Whole listing, at market after fees
+  suggestedPrice: number | null;
+  suggestedMarkdown: number | null;
+  reason: string | null;
+}
+
+export interface AgingCell {
+  listings: number;
+  tickets: number;
+  value: number;
+  cost: number;
+  expectedLoss: number;
+}
+
+export interface AgingFilters {
+  search?: string | null;         // Event name
+  ageBucket?: string | null;
+  eventBucket?: string | null;
+  markdownOnly?: boolean;         // Only listings with a suggestion
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+export const AGE_BUCKETS: AgingBucket[] = [
+  { key: "0-7", label: "0-7 days", min: 0, max: 7 },
+  { key: "8-14", label: "8-14 days", min: 8, max: 14 },
+  { key: "15-30", label: "15-30 days", min: 15, max: 30 },
+  { key: "31-60", label: "31-60 days", min: 31, max: 60 },
+  { key: "60+", label: "60+ days", min: 61, max: null },
+];
+
+export const EVENT_BUCKETS: AgingBucket[] = [
+  { key: "0-3", label: "≤ 3 days", min: 0, max: 3 },
+  { key: "4-7", label: "4-7 days", min: 4, max: 7 },
+  { key: "8-14", label: "8-14 days", min: 8, max: 14 },
+  { key: "15-30", label: "15-30 days", min: 15, max: 30 },
+  { key: "31+", label: "31+ days", min: 31, max: null },
+];
+
+export const UNKNOWN_EVENT_BUCKET = "unknown";
+
+const DEFAULT_FEE_PERCENTAGE = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function bucketFor(buckets: AgingBucket[], days: number): string {
+  return (buckets.find((b) => days >= b.min && (b.max === null || days <= b.max)) || buckets[buckets.length - 1]).key;
+}
+
+async function getFeeMultiplier(): Promise<number> {
+  const setting = await prisma.setting.findUnique({ where: { key: "marketplace_fee_percentage" } });
+  const fee = setting ? parseFloat(setting.value) : DEFAULT_FEE_PERCENTAGE;
+  return 1 - (isNaN(fee) ? DEFAULT_FEE_PERCENTAGE : fee) / 100;
+}
+
+/**
+ * Suggested per-ticket price, or null when the listing can stay where it is
+ */
+export function suggestMarkdown(input: {
+  price: number;
+  cost: number;
+  floorPrice: number | null;
+  daysListed: number;
+  daysToEvent: number | null;
+}): { price: number; reason: string } | null {
+  const { price, cost, floorPrice, daysListed, daysToEvent } = input;
+  if (floorPrice === null || price <= floorPrice) return null;
+
+  let target: number;
+  let reason: string;
+  if (daysToEvent !== null && daysToEvent <= 3) {
+    target = floorPrice * 0.97;
+    reason = "Event in 3 days or less - undercut the floor by 3%";
+  } else if (daysToEvent !== null && daysToEvent <= 7) {
+    target = floorPrice * 0.99;
+    reason = "Event this week - undercut the floor by 1%";
+  } else if ((daysToEvent !== null && daysToEvent <= 14) || daysListed > 30) {
+    target = floorPrice;
+    reason = daysListed > 30 ? `Listed ${daysListed} days - match the floor` : "Event within 2 weeks - match the floor";
+  } else if (daysListed >= 14) {
+    target = (price + floorPrice) / 2;
+    reason = `Listed ${daysListed} days - halfway to the floor`;
+  } else {
+    return null;
+  }
+
+  // Hold at cost until the final week
+  if ((daysToEvent === null || daysToEvent > 7) && target < cost) {
+    if (price <= cost) return null;
+    target = cost;
+    reason += " (held at cost)";
+  }
+
+  target = round2(target);
+  return target < price ? { price: target, reason } : null;
+}
+
+function emptyCell(): AgingCell {
+  return { listings: 0, tickets: 0, value: 0, cost: 0, expectedLoss: 0 };
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+async function loadAgingRows(now: Date, listingId?: string): Promise<AgingListingRow[]> {
+  const listings = await prisma.listing.findMany({
+    where: {
+      ...(listingId ? { id: listingId } : {}),
+      quantity: { gt: 0 },
+      removedFromPosAt: null,
+      sales: { none: {} },
+      OR: [{ eventDateTime: null }, { eventDateTime: { gt: now } }],
+    },
+    select: {
+      id: true,
+      ticketGroupId: true,
+      eventId: true,
+      eventName: true,
+      eventDateTime: true,
+      section: true,
+      row: true,
+      quantity: true,
+      cost: true,
+      price: true,
+      createdAt: true,
+      purchase: { select: { posSyncedAt: true } },
+      event: { select: { zonePrices: { select: { zoneName: true, minPrice: true, scrapedAt: true } } } },
+    },
+  });
+  const feeMultiplier = await getFeeMultiplier();
+
+  return listings.map((l) => {
+    const cost = Number(l.cost);
+    const price = Number(l.price);
+    const listedAt = l.purchase?.posSyncedAt && l.purchase.posSyncedAt < l.createdAt ? l.purchase.posSyncedAt : l.createdAt;
+    const daysListed = Math.max(0, Math.floor((now.getTime() - listedAt.getTime()) / DAY_MS));
+    const daysToEvent = l.eventDateTime
+      ? Math.max(0, Math.floor((l.eventDateTime.getTime() - now.getTime()) / DAY_MS))
+      : null;
+
+    const zoneName = mapSectionToZone(l.section);
+    const zonePrice = zoneName ? l.event?.zonePrices.find((zp) => zp.zoneName === zoneName) : undefined;
+    const floorPrice = zonePrice ? Number(zonePrice.minPrice) : null;
+
+    const expectedLoss = floorPrice !== null
+      ? round2(Math.max(0, cost - floorPrice * feeMultiplier) * l.quantity)
+      : 0;
+    const suggestion = suggestMarkdown({ price, cost, floorPrice, daysListed, daysToEvent });
+
+    return {
+      listingId: l.id,
+      ticketGroupId: l.ticketGroupId,
+      eventId: l.eventId,
+      eventName: l.eventName,
+      eventDateTime: l.eventDateTime,
+      section: l.section,
+      row: l.row,
+      quantity: l.quantity,
+      cost,
+      price,
+      listedAt,
+      daysListed,
+      daysToEvent,
+      ageBucket: bucketFor(AGE_BUCKETS, daysListed),
+      eventBucket: daysToEvent !== null ? bucketFor(EVENT_BUCKETS, daysToEvent) : UNKNOWN_EVENT_BUCKET,
+      zoneName,
+      floorPrice,
+      floorScrapedAt: zonePrice?.scrapedAt ?? null,
+      priceVsFloor: floorPrice !== null ? round2(price - floorPrice) : null,
+      expectedLoss,
+      suggestedPrice: suggestion?.price ?? null,
+      suggestedMarkdown: suggestion ? round2(price - suggestion.price) : null,
+      reason: suggestion?.reason ?? null,
+    };
+  });
+}
+
+/**
+ * Age × days-to-event grid over all aging listings, plus the filtered listing rows
+ * (most urgent first)
+ */
+export async function getAgingReport(filters: AgingFilters = {}) {
+  const rows = await loadAgingRows(new Date());
+
+  const grid: Record<string, Record<string, AgingCell>> = {};
+  const totals = { ...emptyCell(), withMarkdown: 0, markdownValue: 0 };
+  for (const r of rows) {
+    const cell = ((grid[r.ageBucket] ||= {})[r.eventBucket] ||= emptyCell());
+    for (const target of [cell, totals]) {
+      target.listings++;
+      target.tickets += r.quantity;
+      target.value += r.price * r.quantity;
+      target.cost += r.cost * r.quantity;
+      target.expectedLoss += r.expectedLoss;
+    }
+    if (r.suggestedMarkdown !== null) {
+      totals.withMarkdown++;
+      totals.markdownValue += r.suggestedMarkdown * r.quantity;
+    }
+  }
+  for (const row of Object.values(grid)) {
+    for (const cell of Object.values(row)) {
+      cell.value = round2(cell.value);
+      cell.cost = round2(cell.cost);
+      cell.expectedLoss = round2(cell.expectedLoss);
+    }
+  }
+
+  const search = filters.search?.toLowerCase();
+  const listings = rows
+    .filter((r) => !search || r.eventName.toLowerCase().includes(search))
+    .filter((r) => !filters.ageBucket || r.ageBucket === filters.ageBucket)
+    .filter((r) => !filters.eventBucket || r.eventBucket === filters.eventBucket)
+    .filter((r) => !filters.markdownOnly || r.suggestedPrice !== null)
+    .sort(
+      (a, b) =>
+        (a.daysToEvent ?? Infinity) - (b.daysToEvent ?? Infinity) ||
+        b.daysListed - a.daysListed ||
+        b.expectedLoss - a.expectedLoss
+    );
+
+  return {
+    ageBuckets: AGE_BUCKETS,
+    eventBuckets: EVENT_BUCKETS,
+    grid,
+    totals: {
+      ...totals,
+      value: round2(totals.value),
+      cost: round2(totals.cost),
+      expectedLoss: round2(totals.expectedLoss),
+      markdownValue: round2(totals.markdownValue),
+    },
+    listings,
+  };
+}
+
+// =============================================================================
+// Markdown
+// =============================================================================
+
+/**
+ * Push a markdown to TicketVault: the given price, or the current suggestion
+ */
+export async function applyMarkdown(listingId: string, price?: number | null) {
+  let newPrice = price ?? null;
+  let oldPrice: number | null = null;
+  let reason = "Aging markdown";
+
+  if (newPrice === null) {
+    const [row] = await loadAgingRows(new Date(), listingId);
+    if (!row) {
+      return { success: false as const, error: "Listing not found or no longer aging inventory" };
+    }
+    if (row.suggestedPrice === null) {
+      return { success: false as const, error: "No markdown suggested for this listing" };
+    }
+    newPrice = row.suggestedPrice;
+    oldPrice = row.price;
+    reason = `Aging markdown: ${row.reason}`;
+  }
+
+  if (!(newPrice > 0)) {
+    return { success: false as const, error: "Invalid price value" };
+  }
+
+  if (oldPrice === null) {
+    const listing = await prisma.listing.findUnique({ where: { id: listingId }, select: { price: true } });
+    if (!listing) return { success: false as const, error: "Listing not found" };
+    oldPrice = Number(listing.price);
+  }
+
+  const result = await ListingService.updateListingPrice(listingId, newPrice, {
+    source: PRICE_CHANGE_SOURCES.MARKDOWN,
+    reason,
+  });
+  if (!result.success) {
+    return { success: false as const, error: result.error || "Price update failed" };
+  }
+
+  console.log(`[InventoryAging] Marked down listing ${listingId}: ${oldPrice} -> ${newPrice}`);
+  return { success: true as const, oldPrice, newPrice };
+}
+
+/**
+ * Parse report filters from query params
+ */
+export function parseAgingFilters(searchParams: URLSearchParams): AgingFilters {
+  return {
+    search: searchParams.get("search"),
+    ageBucket: searchParams.get("ageBucket"),
+    eventBucket: searchParams.get("eventBucket"),
+    markdownOnly: searchParams.get("markdownOnly") === "true",
+  };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const InventoryAging = {
+  getReport: getAgingReport,
+  suggestMarkdown,
+  applyMarkdown,
+  parseFilters: parseAgingFilters,
+};
@@ -0,0 +1,585 @@
+/**
+ * Job Leases
+ *
+ * Claim protocol for the checkout and generator daemons:
+ * - Claim: the next QUEUED checkout job / PENDING generator task is taken
+ *   with UPDATE ... WHERE id = (SELECT ... FOR UPDATE SKIP LOCKED), so two
+ *   workers never get the same item, and gets a lease (lease_seconds).
+ *   Checkout jobs whose account isn't ACTIVE are skipped, and a claimed job
+ *   that would go over an exposure cap is parked as NEEDS_REVIEW instead.
+ * - Heartbeat: workers renew the leases on everything they hold; the
+ *   response lists items they no longer hold (reaped or cancelled) so the
+ *   worker can drop them.
+ * - Reaper (lease_reaper sync job): items whose lease ran out go back to the
+ *   queue until they've used up their attempts, then fail with LEASE_EXPIRED.
+ *   Every reap is logged in lease_reaps and counted on the run that held it.
+ *
+ * Workers that don't use the heartbeat endpoint yet (claiming through
+ * PATCH /api/checkout/jobs/[id] and writing lastHeartbeat directly) are
+ * covered too: an item isn't reaped while its worker row has a heartbeat
+ * newer than the lease length. Only items holding a lease are reaped -
+ * RUNNING items from before leases existed have no expiry and are left for
+ * manual review.
+ */
+
+import prisma from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import { releaseJobCard } from "@/lib/services/checkout-pairing";
+import { checkJobExposure, EXPOSURE_CAP_ERROR_CODE } from "@/lib/services/exposure-caps";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LeaseKind = "checkout_job" | "generator_task";
+
+export interface ClaimOptions {
+  workerName: string;          // Stored as CheckoutJob.workerId / GeneratorTask.workerName
+  workerId?: string | null;    // CheckoutWorker / GeneratorWorker row, marked PROCESSING
+  runId?: string | null;
+}
+
+export interface HeartbeatOptions {
+  workerName: string;
+  workerId?: string | null;
+  runId?: string | null;
+  itemIds?: string[];          // Items the worker thinks it holds
+}
+
+export interface ReapResult {
+  success: boolean;
+  checked: number;
+  requeued: number;
+  failed: number;
+  renewed: number;             // Expired leases kept alive by a fresh worker heartbeat
+  error?: string;
+}
+
+export interface ClaimBlock {
+  errorCode: string;
+  errorMessage: string;
+}
+
+interface LeaseSettings {
+  leaseSeconds: number;
+  maxAttempts: number;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+// Config keys - checkout_config for checkout jobs (attempts reuse max_retries),
+// generator_config for generator tasks
+export const LEASE_CONFIG = {
+  LEASE_SECONDS: "lease_seconds",
+  CHECKOUT_MAX_ATTEMPTS: "max_retries",
+  GENERATOR_MAX_ATTEMPTS: "max_attempts",
+} as const;
+
+export const DEFAULT_LEASE_SECONDS = 120;
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+export const LEASE_EXPIRED_CODE = "LEASE_EXPIRED";
+
+// Over-cap jobs parked per claim before giving up until the next poll
+const MAX_PARKED_PER_CLAIM = 5;
+
+async function getLeaseSettings(kind: LeaseKind): Promise<LeaseSettings> {
+  const keys: string[] = [
+    LEASE_CONFIG.LEASE_SECONDS,
+    kind === "checkout_job" ? LEASE_CONFIG.CHECKOUT_MAX_ATTEMPTS : LEASE_CONFIG.GENERATOR_MAX_ATTEMPTS,
+  ];
+  const rows = kind === "checkout_job"
+    ? await prisma.checkoutConfig.findMany({ where: { key: { in: keys } } })
+    : await prisma.generatorConfig.findMany({ where: { key: { in: keys } } });
+  const values = new Map(rows.map(r => [r.key, parseInt(r.value, 10)]));
+
+  const leaseSeconds = values.get(keys[0]) || 0;
+  const maxAttempts = values.get(keys[1]) || 0;
+  return {
+    leaseSeconds: leaseSeconds >= 10 ? leaseSeconds : DEFAULT_LEASE_SECONDS,
+    maxAttempts: maxAttempts > 0 ? maxAttempts : DEFAULT_MAX_ATTEMPTS,
+  };
+}
+
+export async function getLeaseExpiry(kind: LeaseKind): Promise<Date> {
+  const { leaseSeconds } = await getLeaseSettings(kind);
+  return new Date(Date.now() + leaseSeconds * 1000);
+}
+
+// =============================================================================
+// Claiming
+// =============================================================================
+
+/**
+ * Take the next queued checkout job (highest priority, then oldest).
+ * Returns job: null when the queue is empty or workers are paused.
+ */
+export async function claimCheckoutJob(options: ClaimOptions) {
+  const paused = await prisma.checkoutConfig.findUnique({ where: { key: "paused" } });
+  if (paused?.value === "true") {
+    return { success: true as const, job: null, paused: true };
+  }
+
+  const { leaseSeconds } = await getLeaseSettings("checkout_job");
+  for (let parked = 0; parked <= MAX_PARKED_PER_CLAIM; parked++) {
+    const claimed = await prisma.$queryRaw<{ id: string }[]>`
+      UPDATE checkout_jobs
+      SET status = 'RUNNING',
+          worker_id = ${options.workerName},
+          run_id = COALESCE(${options.runId ?? null}::text, run_id),
+          started_at = NOW(),
+          completed_at = NULL,
+          attempt_count = attempt_count + 1,
+          lease_expires_at = NOW() + (${leaseSeconds} * INTERVAL '1 second')
+      WHERE id = (
+        SELECT j.id FROM checkout_jobs j
+        LEFT JOIN accounts a ON a.id = j.account_id
+        WHERE j.status = 'QUEUED' AND (j.account_id IS NULL OR a.status = 'ACTIVE')
+        ORDER BY j.priority DESC, j.created_at ASC
+        FOR UPDATE OF j SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING id
+    `;
+    if (claimed.length === 0) return { success: true as const, job: null, paused: false };
+
+    const job = await prisma.checkoutJob.findUnique({
+      where: { id: claimed[0].id },
+      include: {
+        account: { select: { id: true, email: true } },
+        card: { select: { id: true, cardLast4: true, cardType: true } },
+      },
+    });
+    if (!job) continue;
+
+    const blocked = await checkClaimable(job);
+    if (blocked) {
+      await parkCheckoutJob(job, blocked, { workerName: options.workerName });
+      console.warn(`[Leases] Parked checkout job ${job.id} for review: ${blocked.errorMessage}`);
+      continue;
+    }
+
+    if (options.workerId) {
+      await prisma.checkoutWorker.updateMany({
+        where: { id: options.workerId },
+        data: {
+          status: "PROCESSING",
+          currentJobId: job.id,
+          currentEvent: job.eventName,
+          lastHeartbeat: new Date(),
+        },
+      });
+    }
+
+    console.log(`[Leases] ${options.workerName} claimed checkout job ${job.id} (lease ${leaseSeconds}s)`);
+    return { success: true as const, job, paused: false };
+  }
+
+  return { success: true as const, job: null, paused: false };
+}
+
+/**
+ * Why a checkout job can't start now: its account is out of rotation or
+ * buying it would go over an exposure cap. Null when it can run.
+ */
+export async function checkClaimable(job: {
+  id: string;
+  accountId: string | null;
+  cardId: string | null;
+  tmEventId: string | null;
+  eventName: string | null;
+  quantity: number;
+  priceEach: Prisma.Decimal | null;
+  totalPrice: Prisma.Decimal | null;
+}): Promise<ClaimBlock | null> {
+  if (job.accountId) {
+    const account = await prisma.account.findUnique({
+      where: { id: job.accountId },
+      select: { status: true },
+    });
+    if (account && account.status !== "ACTIVE") {
+      return { errorCode: "ACCOUNT_NOT_ACTIVE", errorMessage: `Account is ${account.status}` };
+    }
+  }
+
+  const breaches = await checkJobExposure(job);
+  if (breaches.length > 0) {
+    return { errorCode: EXPOSURE_CAP_ERROR_CODE, errorMessage: breaches.map(b => b.message).join("; ") };
+  }
+  return null;
+}
+
+/**
+ * Move a job that can't start to NEEDS_REVIEW and give back its lease and
+ * card. With workerName, only while that worker still holds it (the claim
+ * that was just made doesn't count as an attempt).
+ */
+export async function parkCheckoutJob(
+  job: { id: string; cardId: string | null },
+  block: ClaimBlock,
+  options: { workerName?: string } = {}
+) {
+  const parked = await prisma.checkoutJob.updateMany({
+    where: options.workerName
+      ? { id: job.id, status: "RUNNING", workerId: options.workerName }
+      : { id: job.id },
+    data: {
+      status: "NEEDS_REVIEW",
+      errorCode: block.errorCode,
+      errorMessage: block.errorMessage,
+      leaseExpiresAt: null,
+      completedAt: new Date(),
+      ...(options.workerName && { workerId: null, attemptCount: { decrement: 1 } }),
+    },
+  });
+  if (parked.count > 0) {
+    await releaseJobCard({ cardId: job.cardId, status: "NEEDS_REVIEW" });
+  }
+  return parked.count > 0;
+}
+
+/**
+ * Take the next pending generator task from a PENDING/RUNNING job
+ * (highest job priority, then oldest task)
+ */
+export async function claimGeneratorTask(options: ClaimOptions) {
+  const { leaseSeconds } = await getLeaseSettings("generator_task");
+  const claimed = await prisma.$queryRaw<{ id: string; job_id: string }[]>`
+    UPDATE generator_tasks
+    SET status = 'RUNNING',
+        worker_name = ${options.workerName},
+        started_at = NOW(),
+        completed_at = NULL,
+        attempt_count = attempt_count + 1,
+        lease_expires_at = NOW() + (${leaseSeconds} * INTERVAL '1 second'),
+        updated_at = NOW()
+    WHERE id = (
+      SELECT t.id FROM generator_tasks t
+      JOIN generator_jobs j ON j.id = t.job_id
+      WHERE t.status = 'PENDING' AND j.status IN ('PENDING', 'RUNNING')
+      ORDER BY j.priority DESC, t.created_at ASC
+      FOR UPDATE OF t SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING id, job_id
+  `;
+  if (claimed.length === 0) return { success: true as const, task: null };
+
+  const { id, job_id: jobId } = claimed[0];
+
+  // First task of the job starts it
+  await prisma.generatorJob.updateMany({
+    where: { id: jobId, status: "PENDING" },
+    data: {
+      status: "RUNNING",
+      startedAt: new Date(),
+      workerId: options.workerName,
+      ...(options.runId && { runId: options.runId }),
+    },
+  });
+
+  const task = await prisma.generatorTask.findUnique({ where: { id } });
+
+  if (options.workerId && task) {
+    await prisma.generatorWorker.updateMany({
+      where: { id: options.workerId },
+      data: {
+        status: "PROCESSING",
+        currentTaskId: task.id,
+        currentEmail: task.email,
+        lastHeartbeat: new Date(),
+      },
+    });
+  }
+
+  console.log(`[Leases] ${options.workerName} claimed generator task ${id} (lease ${leaseSeconds}s)`);
+  return { success: true as const, task };
+}
+
+// =============================================================================
+// Heartbeats
+// =============================================================================
+
+/**
+ * Renew the leases on everything the worker holds and record its heartbeat.
+ * lost = itemIds the worker no longer holds.
+ */
+export async function heartbeat(kind: LeaseKind, options: HeartbeatOptions) {
+  const now = new Date();
+  const leaseExpiresAt = await getLeaseExpiry(kind);
+  let held: string[];
+
+  if (kind === "checkout_job") {
+    await Promise.all([
+      options.workerId
+        ? prisma.checkoutWorker.updateMany({ where: { id: options.workerId }, data: { lastHeartbeat: now } })
+        : null,
+      options.runId
+        ? prisma.checkoutRun.updateMany({ where: { id: options.runId, status: "RUNNING" }, data: { lastHeartbeat: now } })
+        : null,
+    ]);
+    const where = {
+      status: "RUNNING",
+      workerId: options.workerName,
+      ...(options.itemIds && { id: { in: options.itemIds } }),
+    };
+    const jobs = await prisma.checkoutJob.findMany({ where, select: { id: true } });
+    await prisma.checkoutJob.updateMany({ where, data: { leaseExpiresAt } });
+    held = jobs.map(j => j.id);
+  } else {
+    await Promise.all([
+      options.workerId
+        ? prisma.generatorWorker.updateMany({ where: { id: options.workerId }, data: { lastHeartbeat: now } })
+        : null,
+      options.runId
+        ? prisma.generatorRun.updateMany({ where: { id: options.runId, status: "RUNNING" }, data: { lastHeartbeat: now } })
+        : null,
+    ]);
+    const where = {
+      status: "RUNNING",
+      workerName: options.workerName,
+      ...(options.itemIds && { id: { in: options.itemIds } }),
+    };
+    const tasks = await prisma.generatorTask.findMany({ where, select: { id: true } });
+    await prisma.generatorTask.updateMany({ where, data: { leaseExpiresAt } });
+    held = tasks.map(t => t.id);
+  }
+
+  const heldSet = new Set(held);
+  return {
+    renewed: held.length,
+    leaseExpiresAt,
+    lost: (options.itemIds || []).filter(id => !heldSet.has(id)),
+  };
+}
+
+// =============================================================================
+// Reaper
+// =============================================================================
+
+/**
+ * Workers (by name) that have sent a heartbeat within the lease length
+ */
+async function getLiveWorkers(kind: LeaseKind, names: string[], since: Date): Promise<Set<string>> {
+  if (names.length === 0) return new Set();
+  const where = { workerName: { in: names }, status: { not: "STOPPED" }, lastHeartbeat: { gte: since } };
+  const workers = kind === "checkout_job"
+    ? await prisma.checkoutWorker.findMany({ where, select: { workerName: true } })
+    : await prisma.generatorWorker.findMany({ where, select: { workerName: true } });
+  return new Set(workers.map(w => w.workerName));
+}
+
+async function reapCheckoutJobs(result: ReapResult) {
+  const { leaseSeconds, maxAttempts } = await getLeaseSettings("checkout_job");
+  const now = new Date();
+  const leaseStart = new Date(now.getTime() - leaseSeconds * 1000);
+
+  // Jobs claimed before leases existed have no expiry and are left for manual review
+  const expired = await prisma.checkoutJob.findMany({
+    where: { status: "RUNNING", leaseExpiresAt: { lt: now } },
+    select: { id: true, workerId: true, runId: true, attemptCount: true, leaseExpiresAt: true, cardId: true },
+  });
+  result.checked += expired.length;
+
+  const live = await getLiveWorkers(
+    "checkout_job",
+    [...new Set(expired.map(j => j.workerId).filter((w): w is string => !!w))],
+    leaseStart
+  );
+
+  for (const job of expired) {
+    if (job.workerId && live.has(job.workerId)) {
+      await prisma.checkoutJob.updateMany({
+        where: { id: job.id, status: "RUNNING", workerId: job.workerId },
+        data: { leaseExpiresAt: new Date(now.getTime() + leaseSeconds * 1000) },
+      });
+      result.renewed++;
+      continue;
+    }
+
+    const outOfAttempts = job.attemptCount >= maxAttempts;
+    const leaseExpiredAt = job.leaseExpiresAt || now;
+    const message = `Lease expired on ${job.workerId || "unknown worker"} (attempt ${job.attemptCount}/${maxAttempts})`;
+
+    // Only reap if the job hasn't finished or been renewed in the meantime
+    const applied = await prisma.$transaction(async (tx) => {
+      const updated = await tx.checkoutJob.updateMany({
+        where: { id: job.id, status: "RUNNING", workerId: job.workerId, leaseExpiresAt: job.leaseExpiresAt },
+        data: outOfAttempts
+          ? { status: "FAILED", completedAt: now, leaseExpiresAt: null, errorCode: LEASE_EXPIRED_CODE, errorMessage: message }
+          : { status: "QUEUED", workerId: null, startedAt: null, leaseExpiresAt: null, errorCode: LEASE_EXPIRED_CODE, errorMessage: `${message} - requeued` },
+      });
+      if (updated.count === 0) return false;
+
+      await tx.leaseReap.create({
+        data: {
+          kind: "checkout_job",
+          itemId: job.id,
+          runId: job.runId,
+          workerName: job.workerId,
+          attempt: job.attemptCount,
+          action: outOfAttempts ? "FAILED" : "REQUEUED",
+          leaseExpiredAt,
+        },
+      });
+      if (job.runId) {
+        await tx.checkoutRun.updateMany({
+          where: { id: job.runId },
+          data: { jobsReaped: { increment: 1 } },
+        });
+      }
+      return true;
+    });
+    if (!applied) continue;
+
+    if (outOfAttempts) {
+      await releaseJobCard({ cardId: job.cardId, status: "FAILED" });
+      result.failed++;
+    } else {
+      // Requeued jobs keep their account/card pair for the next attempt
+      result.requeued++;
+    }
+  }
+}
+
+async function reapGeneratorTasks(result: ReapResult) {
+  const { leaseSeconds, maxAttempts } = await getLeaseSettings("generator_task");
+  const now = new Date();
+  const leaseStart = new Date(now.getTime() - leaseSeconds * 1000);
+
+  const expired = await prisma.generatorTask.findMany({
+    where: { status: "RUNNING", leaseExpiresAt: { lt: now } },
+    select: {
+      id: true,
+      email: true,
+      workerName: true,
+      attemptCount: true,
+      leaseExpiresAt: true,
+      job: { select: { runId: true } },
+    },
+  });
+  result.checked += expired.length;
+
+  const live = await getLiveWorkers(
+    "generator_task",
+    [...new Set(expired.map(t => t.workerName).filter((w): w is string => !!w))],
+    leaseStart
+  );
+
+  for (const task of expired) {
+    if (task.workerName && live.has(task.workerName)) {
+      await prisma.generatorTask.updateMany({
+        where: { id: task.id, status: "RUNNING", workerName: task.workerName },
+        data: { leaseExpiresAt: new Date(now.getTime() + leaseSeconds * 1000) },
+      });
+      result.renewed++;
+      continue;
+    }
+
+    // Tasks claimed outside the lease API have no attempt count - count this run as one
+    const attempts = Math.max(task.attemptCount, 1);
+    const outOfAttempts = attempts >= maxAttempts;
+    const leaseExpiredAt = task.leaseExpiresAt || now;
+    const message = `Lease expired on ${task.workerName || "unknown worker"} (attempt ${attempts}/${maxAttempts})`;
+    const runId = task.job.runId;
+
+    const applied = await prisma.$transaction(async (tx) => {
+      const updated = await tx.generatorTask.updateMany({
+        where: { id: task.id, status: "RUNNING", workerName: task.workerName, leaseExpiresAt: task.leaseExpiresAt },
+        data: outOfAttempts
+          ? { status: "FAILED", completedAt: now, leaseExpiresAt: null, errorMessage: message, lastError: LEASE_EXPIRED_CODE }
+          : {
+              status: "PENDING",
+              workerName: null,
+              startedAt: null,
+              leaseExpiresAt: null,
+              attemptCount: attempts,
+              currentStep: null,
+              stepDetail: `${message} - requeued`,
+              stepProgress: 0,
+              lastError: LEASE_EXPIRED_CODE,
+            },
+      });
+      if (updated.count === 0) return false;
+
+      await tx.leaseReap.create({
+        data: {
+          kind: "generator_task",
+          itemId: task.id,
+          runId,
+          workerName: task.workerName,
+          attempt: attempts,
+          action: outOfAttempts ? "FAILED" : "REQUEUED",
+          leaseExpiredAt,
+        },
+      });
+      if (runId) {
+        await tx.generatorRun.updateMany({
+          where: { id: runId },
+          data: { tasksReaped: { increment: 1 } },
+        });
+      }
+      return true;
+    });
+    if (!applied) continue;
+
+    if (outOfAttempts) {
+      // Same as cancelling the task - the email goes back to the pool
+      await prisma.generatorEmail.updateMany({
+        where: { email: task.email.toLowerCase(), status: "IN_USE" },
+        data: { status: "AVAILABLE" },
+      });
+      result.failed++;
+    } else {
+      result.requeued++;
+    }
+  }
+}
+
+/**
+ * Requeue (or fail, once out of attempts) every checkout job and generator
+ * task whose lease has expired
+ */
+export async function reapExpiredLeases(): Promise<ReapResult> {
+  const result: ReapResult = { success: true, checked: 0, requeued: 0, failed: 0, renewed: 0 };
+  try {
+    await reapCheckoutJobs(result);
+    await reapGeneratorTasks(result);
+
+    if (result.requeued > 0 || result.failed > 0) {
+      console.log(`[Leases] Reaped ${result.requeued + result.failed} expired leases (${result.requeued} requeued, ${result.failed} failed)`);
+    }
+    return result;
+  } catch (error) {
+    console.error("[Leases] Reaper failed:", error);
+    return { ...result, success: false, error: String(error) };
+  }
+}
+
+/**
+ * Reaps recorded against the given runs, newest first
+ */
+export async function getRunReaps(kind: LeaseKind, runIds: string[]) {
+  if (runIds.length === 0) return [];
+  return prisma.leaseReap.findMany({
+    where: { kind, runId: { in: runIds } },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const JobLeases = {
+  claimCheckoutJob,
+  claimGeneratorTask,
+  checkClaimable,
+  parkJob: parkCheckoutJob,
+  heartbeat,
+  reap: reapExpiredLeases,
+  getLeaseExpiry,
+  getRunReaps,
+};
@@ -3,8 +3,9 @@
  * Manages POS listings cached in local database
  */
 
+import { createHash } from "crypto";
 import prisma from "@/lib/db";
-import { TicketStatus } from "@prisma/client";
+import { Prisma } from "@prisma/client";
 import {
   TicketVaultApi,
   OperationsTicketGroup,
@@ -16,12 +17,32 @@ import { TicketService } from "./ticket-service";
 // Types
 // =============================================================================
 
+export const PRICE_CHANGE_SOURCES = {
+  MANUAL: "manual",
+  POS_SYNC: "pos_sync",
+  RULE: "rule",
+  MARKDOWN: "markdown",
+} as const;
+
+export type PriceChangeSource = typeof PRICE_CHANGE_SOURCES[keyof typeof PRICE_CHANGE_SOURCES];
+
+export type ListingsSyncMode = "incremental" | "full";
+
+export interface ListingsSyncOptions {
+  // Default: "full" when the last full resync is older than the configured
+  // interval (Setting listings_full_resync_hours), otherwise "incremental"
+  mode?: ListingsSyncMode;
+}
+
 export interface SyncResult {
   success: boolean;
+  mode: ListingsSyncMode;
   synced: number;
   created: number;
   updated: number;
   linked: number; // Linked to existing purchases
+  skipped: number; // Unchanged since the last sync (incremental only)
+  removed: number; // No longer in TicketVault (full resync only)
   error?: string;
 }
 
@@ -66,6 +87,8 @@ export interface ListingsResponse {
     // Account sync metadata from TicketVault
     accountLastCheckedAt: Date | null;
     accountSyncStatus: string | null;
+    // Price points oldest → newest (for sparkline), current price last
+    pricePoints: number[];
   }>;
   stats: {
     total: number;
@@ -83,6 +106,32 @@ export interface ListingsResponse {
   };
 }
 
+export interface PriceHistoryEntry {
+  id: string;
+  oldPrice: number;
+  newPrice: number;
+  source: string;
+  reason: string | null;
+  rule: { id: string; name: string } | null;
+  createdAt: Date;
+}
+
+export interface PriceSegment {
+  price: number;
+  from: Date;
+  to: Date | null; // null = still at this price
+  durationMs: number;
+  source: string | null; // What set this price (null = initial listing price)
+}
+
+export interface PriceHistoryResponse {
+  changes: PriceHistoryEntry[]; // Newest first
+  segments: PriceSegment[]; // Oldest first
+  listedAt: Date;
+  lastSoldAt: Date | null;
+  salesCount: number;
+}
+
 export interface MatchResult {
   success: boolean;
   accountEmail?: string;
@@ -95,25 +144,137 @@ export interface MatchResult {
 // Sync Functions
 // =============================================================================
 
+const POS_PAGE_SIZE = 500;
+const MAX_POS_PAGES = 50;
+
+export const LISTINGS_SYNC_SETTINGS = {
+  LAST_FULL_SYNC_AT: "listings_last_full_sync_at",
+  FULL_RESYNC_HOURS: "listings_full_resync_hours",
+} as const;
+
+const DEFAULT_FULL_RESYNC_HOURS = 24;
+
 /**
- * Sync all listings from TicketVault POS to local database
+ * Page through GetOperationsInfo until a short page comes back
  */
-export async function syncListingsFromPos(): Promise<SyncResult> {
+async function fetchAllPosListings(): Promise<OperationsTicketGroup[]> {
+  const byTicketGroupId = new Map<number, OperationsTicketGroup>();
+
+  for (let page = 0; page < MAX_POS_PAGES; page++) {
+    const { listings } = await TicketVaultApi.getAllOperationsInfo({
+      skip: page * POS_PAGE_SIZE,
+      take: POS_PAGE_SIZE,
+    });
+
+    let added = 0;
+    for (const listing of listings) {
+      if (!byTicketGroupId.has(listing.TicketGroupID)) {
+        byTicketGroupId.set(listing.TicketGroupID, listing);
+        added++;
+      }
+    }
+
+    // Short page = last page. A page of only repeats means Skip was ignored.
+    if (listings.length < POS_PAGE_SIZE || added === 0) {
+      return [...byTicketGroupId.values()];
+    }
+  }
+
+  throw new Error(`More than ${MAX_POS_PAGES * POS_PAGE_SIZE} ticket groups in POS - raise MAX_POS_PAGES`);
+}
+
+/**
+ * Hash of every POS field we copy onto the listing, plus the purchase it links
+ * to (so a newly imported purchase still gets linked on an incremental sync)
+ */
+function computeListingSyncHash(pos: OperationsTicketGroup, purchaseId: string | null): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        pos.PrimaryEventName,
+        pos.VenueName,
+        pos.VenueCity,
+        pos.EventDateTime,
+        pos.Section,
+        pos.Row,
+        pos.StartSeat,
+        pos.EndSeat,
+        pos.Quantity,
+        pos.Cost,
+        pos.MarketPrice,
+        pos.AccountEmail,
+        pos.InternalNote,
+        pos.HtmlExtPOIDMultiLineTooltip,
+        pos.HtmlExtPOIDEllipsis,
+        pos.IsFullyMapped,
+        pos.BarcodesCount,
+        pos.LinksCount,
+        pos.Pdf,
+        pos.StatusTypeId,
+        pos.POVendor,
+        pos.VividEventID,
+        pos.StubhubEventID,
+        pos.SeatGeekEventID,
+        pos.TMEventID,
+        pos.ProductionID,
+        pos.PurchaseOrderID,
+        purchaseId,
+      ])
+    )
+    .digest("hex");
+}
+
+/**
+ * Full resync when the last one is older than the configured interval
+ */
+async function resolveListingsSyncMode(now: Date): Promise<ListingsSyncMode> {
+  const settings = await prisma.setting.findMany({
+    where: { key: { in: Object.values(LISTINGS_SYNC_SETTINGS) } },
+  });
+  const settingsMap = new Map(settings.map((s) => [s.key, s.value]));
+
+  const lastFullSyncAt = settingsMap.get(LISTINGS_SYNC_SETTINGS.LAST_FULL_SYNC_AT);
+  if (!lastFullSyncAt) return "full";
+
+  const intervalHours =
+    parseFloat(settingsMap.get(LISTINGS_SYNC_SETTINGS.FULL_RESYNC_HOURS) || "") || DEFAULT_FULL_RESYNC_HOURS;
+  const elapsedMs = now.getTime() - new Date(lastFullSyncAt).getTime();
+
+  return elapsedMs >= intervalHours * 60 * 60 * 1000 ? "full" : "incremental";
+}
+
+/**
+ * Sync listings from TicketVault POS to local database
+ *
+ * TicketVault can't filter GetOperationsInfo by modified time, so both modes
+ * fetch every ticket group. Incremental mode compares each group's syncHash and
+ * skips unchanged ones - that skips event matching, ticket linking and the
+ * writes, which is where the time goes. Full mode reprocesses everything and
+ * marks listings TicketVault no longer returns with removedFromPosAt.
+ */
+export async function syncListingsFromPos(options: ListingsSyncOptions = {}): Promise<SyncResult> {
+  const now = new Date();
+  let mode: ListingsSyncMode = options.mode || "incremental";
+
   try {
-    console.log("[ListingService] Starting sync from POS...");
+    mode = options.mode || (await resolveListingsSyncMode(now));
+    console.log(`[ListingService] Starting ${mode} sync from POS...`);
 
     // Fetch all listings from POS
-    const { listings: posListings } = await TicketVaultApi.getAllOperationsInfo({
-      take: 500,
-    });
+    const posListings = await fetchAllPosListings();
 
+    // An empty inventory is more likely an API hiccup than a real sell-out,
+    // so never treat it as "everything was removed"
     if (posListings.length === 0) {
       return {
         success: true,
+        mode,
         synced: 0,
         created: 0,
         updated: 0,
         linked: 0,
+        skipped: 0,
+        removed: 0,
       };
     }
 
@@ -121,7 +282,16 @@ export async function syncListingsFromPos(): Promise<SyncResult> {
     let updated = 0;
     let linked = 0;
     let ticketsLinked = 0;
-    const now = new Date();
+    const skippedTicketGroupIds: number[] = [];
+
+    // Hashes from the previous sync
+    const knownListings = new Map(
+      (
+        await prisma.listing.findMany({
+          select: { ticketGroupId: true, syncHash: true, removedFromPosAt: true },
+        })
+      ).map((l) => [l.ticketGroupId, l])
+    );
 
     // Get all purchases with PO numbers for linking
     const purchases = await prisma.purchase.findMany({
@@ -168,6 +338,14 @@ export async function syncListingsFromPos(): Promise<SyncResult> {
         : null;
       const purchaseId = purchaseData?.id || null;
       const purchaseEventId = purchaseData?.eventId || null;
+
+      // Skip groups that haven't changed since the last sync
+      const syncHash = computeListingSyncHash(pos, purchaseId);
+      const known = knownListings.get(pos.TicketGroupID);
+      if (mode === "incremental" && known && known.syncHash === syncHash && !known.removedFromPosAt) {
+        skippedTicketGroupIds.push(pos.TicketGroupID);
+        continue;
+      }
       
       // Find or create Event for this listing
       let eventId: string | null = null;
@@ -203,6 +381,11 @@ export async function syncListingsFromPos(): Promise<SyncResult> {
       });
 
       if (existing) {
+        // Record price changes made outside the dashboard (e.g., directly in TicketVault)
+        if (Number(existing.price) !== pos.MarketPrice) {
+          await recordPriceChange(existing.id, existing.price, pos.MarketPrice, PRICE_CHANGE_SOURCES.POS_SYNC);
+        }
+
         // Update existing
         await prisma.listing.update({
           where: { ticketGroupId: pos.TicketGroupID },
@@ -235,6 +418,8 @@ export async function syncListingsFromPos(): Promise<SyncResult> {
             productionId: pos.ProductionID,
             purchaseOrderId: pos.PurchaseOrderID || null,
             lastSyncedAt: now,
+            syncHash,
+            removedFromPosAt: null, // Back in POS
             purchaseId,
             eventId,
           },
@@ -289,6 +474,7 @@ export async function syncListingsFromPos(): Promise<SyncResult> {
             tmEventId: pos.TMEventID || null,
             productionId: pos.ProductionID,
             lastSyncedAt: now,
+            syncHash,
             purchaseId,
             eventId,
           },
@@ -313,8 +499,35 @@ export async function syncListingsFromPos(): Promise<SyncResult> {
       }
     }
 
+    // Unchanged groups were still seen in POS
+    if (skippedTicketGroupIds.length > 0) {
+      await prisma.listing.updateMany({
+        where: { ticketGroupId: { in: skippedTicketGroupIds } },
+        data: { lastSyncedAt: now },
+      });
+    }
+
+    // Full resync: anything POS no longer returns was sold, deleted or cancelled upstream
+    let removed = 0;
+    if (mode === "full") {
+      const removedResult = await prisma.listing.updateMany({
+        where: {
+          removedFromPosAt: null,
+          ticketGroupId: { notIn: posListings.map((p) => p.TicketGroupID) },
+        },
+        data: { removedFromPosAt: now },
+      });
+      removed = removedResult.count;
+
+      await prisma.setting.upsert({
+        where: { key: LISTINGS_SYNC_SETTINGS.LAST_FULL_SYNC_AT },
+        create: { key: LISTINGS_SYNC_SETTINGS.LAST_FULL_SYNC_AT, value: now.toISOString() },
+        update: { value: now.toISOString() },
+      });
+    }
+
     console.log(
-      `[ListingService] Sync complete: ${created} created, ${updated} updated, ${linked} purchases linked, ${ticketsLinked} tickets linked`
+      `[ListingService] ${mode} sync complete: ${created} created, ${updated} updated, ${skippedTicketGroupIds.length} unchanged, ${removed} removed, ${linked} purchases linked, ${ticketsLinked} tickets linked`
     );
 
     // Also sync account metadata (posLastCheckedAt, etc.) from TicketVault
@@ -327,19 +540,25 @@ export async function syncListingsFromPos(): Promise<SyncResult> {
 
     return {
       success: true,
+      mode,
       synced: posListings.length,
       created,
       updated,
       linked,
+      skipped: skippedTicketGroupIds.length,
+      removed,
     };
   } catch (error) {
     console.error("[ListingService] Sync error:", error);
     return {
       success: false,
+      mode,
       synced: 0,
       created: 0,
       updated: 0,
       linked: 0,
+      skipped: 0,
+      removed: 0,
       error: error instanceof Error ? error.message : String(error),
     };
   }
@@ -359,8 +578,8 @@ export async function getListings(
   const limit = filters.limit || 50;
   const skip = (page - 1) * limit;
 
-  // Build where clause
-  const where: Record<string, unknown> = {};
+  // Build where clause - listings removed from POS are kept for history only
+  const where: Record<string, unknown> = { removedFromPosAt: null };
 
   if (filters.isMatched !== undefined) {
     where.isMatched = filters.isMatched;
@@ -415,6 +634,7 @@ export async function getListings(
     SELECT SUM(cost * quantity) as total
     FROM "listings"
     WHERE "ext_po_number" IS NOT NULL
+      AND "removed_from_pos_at" IS NULL
   `;
   const totalCost = Number(totalCostResult[0]?.total || 0);
 
@@ -436,6 +656,24 @@ export async function getListings(
     accountsData.map(a => [a.email.toLowerCase(), a])
   );
 
+  // Batch lookup price history for sparklines
+  const priceChanges = listings.length > 0
+    ? await prisma.listingPriceHistory.findMany({
+        where: { listingId: { in: listings.map(l => l.id) } },
+        orderBy: { createdAt: "asc" },
+        select: { listingId: true, oldPrice: true, newPrice: true },
+      })
+    : [];
+  const pricePointsMap = new Map<string, number[]>();
+  for (const change of priceChanges) {
+    const points = pricePointsMap.get(change.listingId);
+    if (points) {
+      points.push(Number(change.newPrice));
+    } else {
+      pricePointsMap.set(change.listingId, [Number(change.oldPrice), Number(change.newPrice)]);
+    }
+  }
+
   return {
     listings: listings.map((l) => {
       // Look up account sync data
@@ -473,6 +711,7 @@ export async function getListings(
         purchaseId: l.purchaseId,
         accountLastCheckedAt: accountData?.posLastCheckedAt || null,
         accountSyncStatus: accountData?.posSyncStatus || null,
+        pricePoints: pricePointsMap.get(l.id) || [Number(l.price)],
       };
     }),
     stats: {
@@ -497,6 +736,7 @@ export async function getListings(
  */
 export async function getListingEvents(): Promise<string[]> {
   const events = await prisma.listing.findMany({
+    where: { removedFromPosAt: null },
     select: { eventName: true },
     distinct: ["eventName"],
     orderBy: { eventName: "asc" },
@@ -510,11 +750,13 @@ export async function getListingEvents(): Promise<string[]> {
 
 /**
  * Update listing price in TicketVault POS and local cache
- * Uses the /api/ticketGroup/price endpoint for direct price updates
+ * Uses the /api/ticketGroup/price endpoint for direct price updates.
+ * The change is recorded in the price history as `source` (default manual).
  */
 export async function updateListingPrice(
   listingId: string,
-  newPrice: number
+  newPrice: number,
+  options: { source?: PriceChangeSource; reason?: string } = {}
 ): Promise<{ success: boolean; error?: string }> {
   try {
     // Get the listing with production ID
@@ -542,6 +784,12 @@ export async function updateListingPrice(
       },
     });
 
+    if (Number(listing.price) !== newPrice) {
+      await recordPriceChange(listingId, listing.price, newPrice, options.source || PRICE_CHANGE_SOURCES.MANUAL, {
+        reason: options.reason,
+      });
+    }
+
     return { success: true };
   } catch (error) {
     return {
@@ -551,6 +799,108 @@ export async function updateListingPrice(
   }
 }
 
+// =============================================================================
+// Price History
+// =============================================================================
+
+/**
+ * Record a price change for a listing
+ */
+export async function recordPriceChange(
+  listingId: string,
+  oldPrice: number | Prisma.Decimal,
+  newPrice: number | Prisma.Decimal,
+  source: PriceChangeSource,
+  options: { ruleId?: string; reason?: string } = {}
+): Promise<void> {
+  await prisma.listingPriceHistory.create({
+    data: {
+      listingId,
+      oldPrice,
+      newPrice,
+      source,
+      ruleId: options.ruleId || null,
+      reason: options.reason || null,
+    },
+  });
+}
+
+/**
+ * Get price history for a listing.
+ * Also splits the listing's life into price segments so we can see how long
+ * it sat at each price before it sold.
+ */
+export async function getPriceHistory(listingId: string): Promise<PriceHistoryResponse | null> {
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: {
+      price: true,
+      createdAt: true,
+      sales: {
+        select: { saleDate: true },
+        where: { saleDate: { not: null } },
+        orderBy: { saleDate: "desc" },
+      },
+    },
+  });
+
+  if (!listing) return null;
+
+  const history = await prisma.listingPriceHistory.findMany({
+    where: { listingId },
+    orderBy: { createdAt: "asc" },
+    include: { rule: { select: { id: true, name: true } } },
+  });
+
+  const lastSoldAt = listing.sales[0]?.saleDate || null;
+  const now = new Date();
+
+  // Build segments: initial price from listing creation, then one per change
+  const segments: PriceSegment[] = [];
+  let segmentStart = listing.createdAt;
+  let segmentPrice = history.length > 0 ? Number(history[0].oldPrice) : Number(listing.price);
+  let segmentSource: string | null = null;
+
+  for (const change of history) {
+    segments.push({
+      price: segmentPrice,
+      from: segmentStart,
+      to: change.createdAt,
+      durationMs: change.createdAt.getTime() - segmentStart.getTime(),
+      source: segmentSource,
+    });
+    segmentStart = change.createdAt;
+    segmentPrice = Number(change.newPrice);
+    segmentSource = change.source;
+  }
+
+  // Final segment ends at the last sale (if it sold after the last change), otherwise still running
+  const finalEnd = lastSoldAt && lastSoldAt > segmentStart ? lastSoldAt : null;
+  segments.push({
+    price: segmentPrice,
+    from: segmentStart,
+    to: finalEnd,
+    durationMs: (finalEnd || now).getTime() - segmentStart.getTime(),
+    source: segmentSource,
+  });
+
+  return {
+    changes: history.reverse().map((h) => ({
+      id: h.id,
+      oldPrice: Number(h.oldPrice),
+      newPrice: Number(h.newPrice),
+      source: h.source,
+      reason: h.reason,
+      rule: h.rule,
+      createdAt: h.createdAt,
+    })),
+    segments,
+    listedAt: listing.createdAt,
+    lastSoldAt,
+    salesCount: listing.sales.length,
+  };
+}
+
 // =============================================================================
 // Match Functions
 // =============================================================================
@@ -760,6 +1110,8 @@ export const ListingService = {
   getListings,
   getListingEvents,
   updateListingPrice,
+  recordPriceChange,
+  getPriceHistory,
   triggerMatch,
   getAccountSyncStatus,
   getAccountPosInfo,
@@ -0,0 +1,341 @@
+/**
+ * Notification Channels
+ *
+ * Delivers a NotificationMessage to one destination:
+ * - discord: webhook URL, sent as an embed
+ * - slack:   incoming webhook URL, sent as an attachment
+ * - webhook: generic JSON POST, optionally signed with HMAC-SHA256
+ *            (X-Signature: sha256=<hex of body>)
+ * - email:   SMTP (see smtp-client.ts), text + HTML
+ *
+ * Channel config is stored encrypted (NotificationChannel.config) since it
+ * holds webhook tokens and SMTP passwords. redactChannelConfig() masks those
+ * before config is returned to the UI.
+ */
+
+import { createHmac } from "crypto";
+import { sendMail } from "./smtp-client";
+import { toPlainText, type NotificationMessage } from "./notification-templates";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const NOTIFICATION_CHANNEL_TYPES = ["discord", "slack", "webhook", "email"] as const;
+
+export type NotificationChannelType = typeof NOTIFICATION_CHANNEL_TYPES[number];
+
+export interface DiscordChannelConfig {
+  webhookUrl: string;
+}
+
+export interface SlackChannelConfig {
+  webhookUrl: string;
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  secret?: string;
+}
+
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  allowInsecure?: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export type NotificationChannelConfig =
+  | DiscordChannelConfig
+  | SlackChannelConfig
+  | WebhookChannelConfig
+  | EmailChannelConfig;
+
+export interface ChannelSendResult {
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+const REDACTED = "••••••••";
+
+// Config keys holding secrets, per channel type
+const SECRET_KEYS: Record<NotificationChannelType, string[]> = {
+  discord: ["webhookUrl"],
+  slack: ["webhookUrl"],
+  webhook: ["secret"],
+  email: ["password"],
+};
+
+export function isNotificationChannelType(value: string): value is NotificationChannelType {
+  return (NOTIFICATION_CHANNEL_TYPES as readonly string[]).includes(value);
+}
+
+// =============================================================================
+// Config Validation
+// =============================================================================
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate and normalize channel config from the API
+ */
+export function validateChannelConfig(
+  type: NotificationChannelType,
+  raw: Record<string, unknown>
+): { config?: NotificationChannelConfig; error?: string } {
+  switch (type) {
+    case "discord":
+      if (!isHttpUrl(raw.webhookUrl) || !raw.webhookUrl.includes("discord")) {
+        return { error: "webhookUrl must be a Discord webhook URL" };
+      }
+      return { config: { webhookUrl: raw.webhookUrl } };
+
+    case "slack":
+      if (!isHttpUrl(raw.webhookUrl)) {
+        return { error: "webhookUrl must be a Slack incoming webhook URL" };
+      }
+      return { config: { webhookUrl: raw.webhookUrl } };
+
+    case "webhook":
+      if (!isHttpUrl(raw.url)) {
+        return { error: "url must be an http(s) URL" };
+      }
+      return {
+        config: {
+          url: raw.url,
+          ...(typeof raw.secret === "string" && raw.secret && { secret: raw.secret }),
+        },
+      };
+
+    case "email": {
+      const port = Number(raw.port);
+      const to = (Array.isArray(raw.to) ? raw.to : String(raw.to || "").split(","))
+        .map((address) => String(address).trim())
+        .filter(Boolean);
+
+      if (typeof raw.host !== "string" || !raw.host) return { error: "host is required" };
+      if (!Number.isInteger(port) || port < 1 || port > 65535) return { error: "port must be between 1 and 65535" };
+      if (typeof raw.from !== "string" || !raw.from.includes("@")) return { error: "from must be an email address" };
+      if (to.length === 0 || to.some((address) => !address.includes("@"))) {
+        return { error: "to must be a list of email addresses" };
+      }
+
+      return {
+        config: {
+          host: raw.host,
+          port,
+          secure: raw.secure === undefined ? port === 465 : !!raw.secure,
+          allowInsecure: !!raw.allowInsecure,
+          ...(typeof raw.username === "string" && raw.username && { username: raw.username }),
+          ...(typeof raw.password === "string" && raw.password && { password: raw.password }),
+          from: raw.from,
+          to,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Mask secrets for display. Webhook URLs keep their host so channels can
+ * still be told apart.
+ */
+export function redactChannelConfig(
+  type: NotificationChannelType,
+  config: NotificationChannelConfig
+): Record<string, unknown> {
+  const redacted: Record<string, unknown> = { ...config };
+  for (const key of SECRET_KEYS[type]) {
+    const value = redacted[key];
+    if (typeof value !== "string" || !value) continue;
+    redacted[key] = isHttpUrl(value) ? `${new URL(value).origin}/${REDACTED}` : REDACTED;
+  }
+  return redacted;
+}
+
+/**
+ * Merge an edit over the existing config. Secrets left blank or still showing
+ * the redacted placeholder keep their stored value.
+ */
+export function mergeChannelConfig(
+  type: NotificationChannelType,
+  existing: NotificationChannelConfig,
+  update: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...existing, ...update };
+  for (const key of SECRET_KEYS[type]) {
+    const value = update[key];
+    if (value === undefined || value === "" || (typeof value === "string" && value.includes(REDACTED))) {
+      merged[key] = (existing as unknown as Record<string, unknown>)[key];
+    }
+  }
+  return merged;
+}
+
+// =============================================================================
+// Senders
+// =============================================================================
+
+async function postJson(
+  url: string,
+  payload: unknown,
+  headers: Record<string, string> = {}
+): Promise<ChannelSendResult> {
+  const body = JSON.stringify(payload);
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      return { success: false, statusCode: response.status, error: `${response.status} - ${text.slice(0, 500)}` };
+    }
+    return { success: true, statusCode: response.status };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function sendDiscord(config: DiscordChannelConfig, message: NotificationMessage) {
+  return postJson(config.webhookUrl, {
+    embeds: [{
+      ...(message.author && { author: { name: message.author } }),
+      title: message.title,
+      description: message.description,
+      url: message.url,
+      color: message.color,
+      fields: message.fields,
+      ...(message.footer && { footer: { text: message.footer } }),
+      timestamp: message.timestamp,
+    }],
+  });
+}
+
+function sendSlack(config: SlackChannelConfig, message: NotificationMessage) {
+  return postJson(config.webhookUrl, {
+    text: message.title,
+    attachments: [{
+      color: `#${message.color.toString(16).padStart(6, "0")}`,
+      author_name: message.author,
+      title: message.title,
+      title_link: message.url,
+      text: message.description,
+      fields: message.fields.map((f) => ({ title: f.name, value: f.value, short: !!f.inline })),
+      footer: message.footer,
+      ts: Math.floor(new Date(message.timestamp).getTime() / 1000),
+    }],
+  });
+}
+
+function sendWebhook(config: WebhookChannelConfig, message: NotificationMessage) {
+  const payload = {
+    event: message.eventType,
+    severity: message.severity,
+    title: message.title,
+    description: message.description || null,
+    url: message.url || null,
+    fields: message.fields.map((f) => ({ name: f.name, value: toPlainText(f.value) })),
+    footer: message.footer || null,
+    timestamp: message.timestamp,
+  };
+
+  const headers: Record<string, string> = {};
+  if (config.secret) {
+    const signature = createHmac("sha256", config.secret).update(JSON.stringify(payload)).digest("hex");
+    headers["X-Signature"] = `sha256=${signature}`;
+  }
+  return postJson(config.url, payload, headers);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderEmail(message: NotificationMessage): { text: string; html: string } {
+  const lines = [
+    message.author,
+    message.title,
+    message.description && toPlainText(message.description),
+    "",
+    ...message.fields.map((f) => `${f.name}: ${toPlainText(f.value)}`),
+    "",
+    message.footer,
+    message.url,
+  ].filter((line): line is string => line !== undefined);
+
+  const color = `#${message.color.toString(16).padStart(6, "0")}`;
+  const rows = message.fields
+    .map(
+      (f) =>
+        `<tr><td style="padding:4px 12px 4px 0;color:#666;vertical-align:top">${escapeHtml(f.name)}</td>` +
+        `<td style="padding:4px 0;white-space:pre-wrap;font-family:monospace">${escapeHtml(toPlainText(f.value))}</td></tr>`
+    )
+    .join("");
+
+  const html = [
+    `<div style="font-family:sans-serif;border-left:4px solid ${color};padding-left:12px">`,
+    message.author ? `<p style="color:#666;margin:0">${escapeHtml(message.author)}</p>` : "",
+    `<h2 style="margin:4px 0">${escapeHtml(message.title)}</h2>`,
+    message.description ? `<p style="white-space:pre-wrap">${escapeHtml(toPlainText(message.description))}</p>` : "",
+    rows ? `<table style="border-collapse:collapse">${rows}</table>` : "",
+    message.footer ? `<p style="color:#999;font-size:12px">${escapeHtml(message.footer)}</p>` : "",
+    message.url ? `<p><a href="${escapeHtml(message.url)}">${escapeHtml(message.url)}</a></p>` : "",
+    "</div>",
+  ].join("");
+
+  return { text: lines.join("\n"), html };
+}
+
+function sendEmail(config: EmailChannelConfig, message: NotificationMessage) {
+  return sendMail(config, {
+    to: config.to,
+    subject: message.title,
+    ...renderEmail(message),
+  });
+}
+
+/**
+ * Send a message through a channel. Never throws.
+ */
+export async function sendToChannel(
+  type: NotificationChannelType,
+  config: NotificationChannelConfig,
+  message: NotificationMessage
+): Promise<ChannelSendResult> {
+  try {
+    switch (type) {
+      case "discord":
+        return await sendDiscord(config as DiscordChannelConfig, message);
+      case "slack":
+        return await sendSlack(config as SlackChannelConfig, message);
+      case "webhook":
+        return await sendWebhook(config as WebhookChannelConfig, message);
+      case "email":
+        return await sendEmail(config as EmailChannelConfig, message);
+    }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,550 @@
+/**
+ * Notification Templates
+ *
+ * Builds a channel-neutral NotificationMessage for each event type. Channels
+ * (notification-channels.ts) turn it into a Discord embed, Slack attachment,
+ * JSON payload or email. Field values use Discord-style markdown (`code`,
+ * ```blocks```) which Slack renders as-is and email strips.
+ *
+ * Rules may override the description with a template using {{field}}
+ * placeholders, resolved against the event data (dot paths allowed).
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const NOTIFICATION_EVENT_TYPES = {
+  "checkout.success": "Checkout succeeded",
+  "checkout.error": "Checkout failed",
+  "checkout.started": "Checkout started",
+  "generator.success": "Account generated",
+  "generator.error": "Account generation failed",
+  "generator.requeue": "Generator task requeued",
+  "generator.batch_done": "Generator job finished",
+  "pos_sync.error": "POS sync failed",
+  "sale.created": "Sale created",
+  "invoice.paid": "Invoice paid",
+} as const;
+
+export type NotificationEventType = keyof typeof NOTIFICATION_EVENT_TYPES;
+
+export type NotificationSeverity = "success" | "error" | "warning" | "info";
+
+export interface NotificationField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+export interface NotificationMessage {
+  eventType: NotificationEventType;
+  severity: NotificationSeverity;
+  color: number;
+  author?: string;
+  title: string;
+  description?: string;
+  url?: string;
+  fields: NotificationField[];
+  footer?: string;
+  timestamp: string;
+}
+
+export interface CheckoutNotificationData {
+  job: {
+    id: string;
+    eventName: string | null;
+    eventDate: Date | string | null;
+    venue: string | null;
+    section: string | null;
+    row: string | null;
+    quantity: number;
+    totalPrice: number | null;
+    accountEmail: string | null;
+    cardLast4: string;
+    cardType: string;
+  };
+  finalUrl?: string;
+  errorCode?: string;
+  errorMessage?: string;
+  durationSeconds?: number;
+  deviceName: string;
+}
+
+export interface GeneratorJobStats {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+  successRate: number;
+  progressPct: number;
+}
+
+export interface GeneratorNotificationData {
+  email: string;
+  password?: string;
+  error?: string;
+  workerName: string;
+  durationSeconds?: number;
+  retryCount: number;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  imapSource?: string;
+  tagName?: string;
+  jobStats: GeneratorJobStats;
+  deviceName: string;
+}
+
+export interface GeneratorBatchNotificationData {
+  jobId: string;
+  jobStats: GeneratorJobStats;
+  deviceName: string;
+}
+
+export interface PosSyncErrorNotificationData {
+  jobType: string;
+  label: string;
+  trigger: string;
+  error: string;
+  consecutiveFailures: number;
+  nextRunAt: Date | string;
+}
+
+export interface SaleNotificationData {
+  saleId: string;
+  eventName: string | null;
+  eventDate: Date | string | null;
+  section: string | null;
+  row: string | null;
+  quantity: number;
+  salePrice: number | null;
+  cost: number | null;
+  invoiceNumber: string | null;
+}
+
+export interface InvoicePaidNotificationData {
+  invoiceNumber: string;
+  eventName: string | null;
+  clientName: string | null;
+  totalQuantity: number;
+  totalAmount: number;
+  remittanceDate: Date | string | null;
+}
+
+export interface NotificationDataMap {
+  "checkout.success": CheckoutNotificationData;
+  "checkout.error": CheckoutNotificationData;
+  "checkout.started": CheckoutNotificationData;
+  "generator.success": GeneratorNotificationData;
+  "generator.error": GeneratorNotificationData;
+  "generator.requeue": GeneratorNotificationData;
+  "generator.batch_done": GeneratorBatchNotificationData;
+  "pos_sync.error": PosSyncErrorNotificationData;
+  "sale.created": SaleNotificationData;
+  "invoice.paid": InvoicePaidNotificationData;
+}
+
+// Brand colors
+export const NOTIFICATION_COLORS = {
+  success: 0x00d166, // Green
+  error: 0xed4245,   // Red
+  warning: 0xfee75c, // Yellow
+  info: 0x5865f2,    // Blurple
+  requeue: 0xeb459e, // Fuchsia
+};
+
+// =============================================================================
+// Formatting Helpers
+// =============================================================================
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  if (mins < 60) return `${mins}m ${secs}s`;
+  const hours = Math.floor(mins / 60);
+  const remainingMins = mins % 60;
+  return `${hours}h ${remainingMins}m`;
+}
+
+function formatEventDate(dateStr: string | Date | null): string {
+  if (!dateStr) return "";
+  try {
+    const dt = new Date(dateStr);
+    return dt.toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      hour12: true,
+    });
+  } catch {
+    return String(dateStr).slice(0, 20);
+  }
+}
+
+function formatMoney(amount: number | null): string {
+  return amount === null ? "N/A" : `$${amount.toFixed(2)}`;
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.slice(0, length)}...` : value;
+}
+
+function progressBar(current: number, total: number, length: number = 10): string {
+  if (total === 0) return "░".repeat(length);
+  const filled = Math.round((current / total) * length);
+  return "█".repeat(filled) + "░".repeat(length - filled);
+}
+
+function getCheckoutErrorEmoji(errorCode: string): string {
+  const errorMap: Record<string, string> = {
+    CARD_DECLINED: "💳",
+    NO_CARD: "💳",
+    SOLD_OUT: "🎫",
+    TIMEOUT: "⏱️",
+    BROWSER_ERROR: "🖥️",
+    LOGIN_FAILED: "🔐",
+    CAPTCHA: "🤖",
+    PRICE_MISMATCH: "💰",
+    QUEUE_TIMEOUT: "⏳",
+    NO_TICKETS: "🎟️",
+  };
+  return errorMap[errorCode] || "❌";
+}
+
+function categorizeGeneratorError(error: string): { category: string; emoji: string } {
+  const errorLower = error.toLowerCase();
+
+  if (errorLower.includes("otp") || errorLower.includes("verification code")) {
+    return { category: "OTP Error", emoji: "📱" };
+  }
+  if (errorLower.includes("captcha")) {
+    return { category: "Captcha", emoji: "🤖" };
+  }
+  if (errorLower.includes("email") || errorLower.includes("imap")) {
+    return { category: "Email Error", emoji: "📧" };
+  }
+  if (errorLower.includes("proxy") || errorLower.includes("banned") || errorLower.includes("soft-ban")) {
+    return { category: "Proxy/Ban", emoji: "🌐" };
+  }
+  if (errorLower.includes("timeout") || errorLower.includes("timed out")) {
+    return { category: "Timeout", emoji: "⏰" };
+  }
+  if (errorLower.includes("browser") || errorLower.includes("chrome")) {
+    return { category: "Browser Error", emoji: "🖥️" };
+  }
+  if (errorLower.includes("phone") || errorLower.includes("sms")) {
+    return { category: "Phone Error", emoji: "📞" };
+  }
+  return { category: "Error", emoji: "❌" };
+}
+
+function generatorProgressField(jobStats: GeneratorJobStats): NotificationField {
+  const bar = progressBar(jobStats.completed, jobStats.total);
+  return {
+    name: jobStats.successRate >= 90 ? "🔥 Job Progress" : jobStats.successRate >= 70 ? "✨ Job Progress" : "📈 Job Progress",
+    value: `\`\`\`\n${bar} ${jobStats.completed}/${jobStats.total} (${jobStats.progressPct.toFixed(1)}%)\n✅ ${jobStats.succeeded} success • ❌ ${jobStats.failed} failed • ${jobStats.successRate.toFixed(0)}% rate\n\`\`\``,
+    inline: false,
+  };
+}
+
+// =============================================================================
+// Templates
+// =============================================================================
+
+type Template<T> = (data: T) => Omit<NotificationMessage, "eventType" | "timestamp">;
+
+function checkoutTemplate(type: "success" | "error" | "started"): Template<CheckoutNotificationData> {
+  return (data) => {
+    const { job, durationSeconds, deviceName } = data;
+
+    const eventName = job.eventName || "Unknown Event";
+    const eventDateDisplay = formatEventDate(job.eventDate);
+    const venue = job.venue || "";
+    const section = job.section || "N/A";
+    const row = job.row || "N/A";
+    const quantity = job.quantity || 1;
+    const totalPrice = job.totalPrice || 0;
+    const pricePerTicket = quantity > 0 && totalPrice ? totalPrice / quantity : 0;
+    const cardType = job.cardType.toUpperCase();
+    const accountEmail = job.accountEmail || "N/A";
+    const seatInfo = section !== "N/A" ? `Sec ${section} • Row ${row}` : "Best Available";
+    const durationText = durationSeconds ? formatDuration(durationSeconds) : "N/A";
+
+    if (type === "success") {
+      const fields: NotificationField[] = [
+        { name: "🎫 Tickets", value: `\`\`\`\n${quantity}x ${seatInfo}\n\`\`\``, inline: false },
+        { name: "💵 Total", value: `\`\`\`\n$${totalPrice.toFixed(2)}\n\`\`\``, inline: true },
+        { name: "💰 Per Ticket", value: `\`\`\`\n$${pricePerTicket.toFixed(2)}\n\`\`\``, inline: true },
+        { name: "💳 Payment", value: `\`\`\`\n${cardType} ****${job.cardLast4}\n\`\`\``, inline: true },
+        { name: "👤 Account", value: `\`${truncate(accountEmail, 30)}\``, inline: true },
+        { name: "🖥️ Worker", value: `\`${deviceName}\``, inline: true },
+      ];
+      if (durationSeconds) {
+        fields.push({ name: "⏱️ Duration", value: `\`${durationText}\``, inline: true });
+      }
+
+      return {
+        severity: "success",
+        color: NOTIFICATION_COLORS.success,
+        author: "TM Checkout • Purchase Complete",
+        title: `✅ ${eventName.slice(0, 80)}`,
+        description: venue || eventDateDisplay ? `**${venue}**\n${eventDateDisplay}` : undefined,
+        url: data.finalUrl,
+        fields,
+        footer: `Duration: ${durationText} • Order placed`,
+      };
+    }
+
+    if (type === "error") {
+      const errorCode = data.errorCode || "UNKNOWN";
+      const errorMessage = (data.errorMessage || "Unknown error").slice(0, 300);
+
+      const fields: NotificationField[] = [
+        { name: `🏷️ Error: ${errorCode}`, value: `\`\`\`\n${errorMessage}\n\`\`\``, inline: false },
+        { name: "🎫 Attempted", value: `\`${quantity}x Sec ${section} Row ${row}\``, inline: true },
+        { name: "💳 Card", value: `\`****${job.cardLast4}\``, inline: true },
+        { name: "👤 Account", value: `\`${truncate(accountEmail, 20)}\``, inline: true },
+        { name: "🖥️ Worker", value: `\`${deviceName}\``, inline: true },
+      ];
+      if (durationSeconds) {
+        fields.push({ name: "⏱️ Duration", value: `\`${durationText}\``, inline: true });
+      }
+
+      return {
+        severity: "error",
+        color: NOTIFICATION_COLORS.error,
+        author: "TM Checkout • Checkout Failed",
+        title: `${getCheckoutErrorEmoji(errorCode)} ${eventName.slice(0, 60)}`,
+        fields,
+        footer: `Duration: ${durationText} • Job ID: ${job.id.slice(0, 8)}`,
+      };
+    }
+
+    return {
+      severity: "info",
+      color: NOTIFICATION_COLORS.info,
+      author: "TM Checkout • Processing",
+      title: `🔄 ${eventName.slice(0, 60)}`,
+      fields: [
+        { name: "🎫 Target", value: `\`${quantity}x Sec ${section} Row ${row}\``, inline: true },
+        { name: "🖥️ Worker", value: `\`${deviceName}\``, inline: true },
+      ],
+      footer: "Checkout in progress...",
+    };
+  };
+}
+
+function generatorTemplate(type: "success" | "error" | "requeue"): Template<GeneratorNotificationData> {
+  return (data) => {
+    const { jobStats } = data;
+    const progressField = generatorProgressField(jobStats);
+    const footer = `Device: ${data.deviceName} • Job: ${jobStats.completed}/${jobStats.total}`;
+
+    if (type === "success") {
+      const fields: NotificationField[] = [
+        { name: "🔐 Credentials", value: `\`\`\`\n${data.email}\n${data.password}\n\`\`\``, inline: false },
+      ];
+      if (data.firstName || data.lastName) {
+        fields.push({ name: "👤 Name", value: `\`${data.firstName || ""} ${data.lastName || ""}\``.trim(), inline: true });
+      }
+      if (data.phone) {
+        fields.push({ name: "📱 Phone", value: `\`${data.phone}\``, inline: true });
+      }
+      if (data.imapSource) {
+        fields.push({ name: "📨 Source", value: `\`${data.imapSource}\``, inline: true });
+      }
+      fields.push({ name: "🖥️ Worker", value: `\`${data.workerName}\``, inline: true });
+      if (data.durationSeconds) {
+        fields.push({ name: "⏱️ Duration", value: `\`${formatDuration(data.durationSeconds)}\``, inline: true });
+      }
+      if (data.tagName) {
+        fields.push({ name: "🏷️ Tag", value: `\`${data.tagName}\``, inline: true });
+      }
+      fields.push(progressField);
+
+      return {
+        severity: "success",
+        color: NOTIFICATION_COLORS.success,
+        author: "TM Generator • Account Created",
+        title: `✅ ${data.email}`,
+        fields,
+        footer,
+      };
+    }
+
+    if (type === "error") {
+      const { category, emoji } = categorizeGeneratorError(data.error || "Unknown error");
+      const errorDisplay = (data.error || "Unknown error").slice(0, 300);
+
+      const fields: NotificationField[] = [
+        { name: `🏷️ ${category}`, value: `\`\`\`\n${errorDisplay}\n\`\`\``, inline: false },
+        { name: "📧 Email", value: `\`${data.email}\``, inline: true },
+      ];
+      if (data.imapSource) {
+        fields.push({ name: "📨 Source", value: `\`${data.imapSource}\``, inline: true });
+      }
+      if (data.retryCount > 0) {
+        fields.push({ name: "🔄 Attempt", value: `\`#${data.retryCount + 1}\``, inline: true });
+      }
+      fields.push({ name: "🖥️ Worker", value: `\`${data.workerName}\``, inline: true });
+      if (data.durationSeconds) {
+        fields.push({ name: "⏱️ Duration", value: `\`${formatDuration(data.durationSeconds)}\``, inline: true });
+      }
+      if (data.tagName) {
+        fields.push({ name: "🏷️ Tag", value: `\`${data.tagName}\``, inline: true });
+      }
+      fields.push(progressField);
+
+      return {
+        severity: "error",
+        color: NOTIFICATION_COLORS.error,
+        author: "TM Generator • Generation Failed",
+        title: `${emoji} ${data.email}`,
+        fields,
+        footer,
+      };
+    }
+
+    return {
+      severity: "warning",
+      color: NOTIFICATION_COLORS.requeue,
+      author: "TM Generator • Task Requeued",
+      title: `🔄 ${data.email}`,
+      fields: [
+        { name: "📧 Email", value: `\`${data.email}\``, inline: true },
+        { name: "🔢 Attempt", value: `\`#${data.retryCount + 1}\``, inline: true },
+        { name: "🖥️ Worker", value: `\`${data.workerName}\``, inline: true },
+        progressField,
+      ],
+      footer: "Will retry with new proxy",
+    };
+  };
+}
+
+const TEMPLATES: { [K in NotificationEventType]: Template<NotificationDataMap[K]> } = {
+  "checkout.success": checkoutTemplate("success"),
+  "checkout.error": checkoutTemplate("error"),
+  "checkout.started": checkoutTemplate("started"),
+  "generator.success": generatorTemplate("success"),
+  "generator.error": generatorTemplate("error"),
+  "generator.requeue": generatorTemplate("requeue"),
+
+  "generator.batch_done": (data) => ({
+    severity: data.jobStats.failed > 0 ? "warning" : "success",
+    color: data.jobStats.failed > 0 ? NOTIFICATION_COLORS.warning : NOTIFICATION_COLORS.success,
+    author: "TM Generator • Job Finished",
+    title: `🏁 ${data.jobStats.succeeded}/${data.jobStats.total} accounts created`,
+    fields: [generatorProgressField(data.jobStats)],
+    footer: `Device: ${data.deviceName} • Job ID: ${data.jobId.slice(0, 8)}`,
+  }),
+
+  "pos_sync.error": (data) => ({
+    severity: "error",
+    color: NOTIFICATION_COLORS.error,
+    author: "POS Sync • Failed",
+    title: `⚠️ ${data.label} sync failed`,
+    fields: [
+      { name: "🏷️ Error", value: `\`\`\`\n${data.error.slice(0, 500)}\n\`\`\``, inline: false },
+      { name: "🔁 Failures in a row", value: `\`${data.consecutiveFailures}\``, inline: true },
+      { name: "⏭️ Next attempt", value: `\`${formatEventDate(data.nextRunAt)}\``, inline: true },
+      { name: "▶️ Trigger", value: `\`${data.trigger}\``, inline: true },
+    ],
+    footer: `Job: ${data.jobType}`,
+  }),
+
+  "sale.created": (data) => {
+    const profit = data.salePrice !== null && data.cost !== null ? data.salePrice - data.cost : null;
+    const seatInfo = data.section ? `Sec ${data.section} • Row ${data.row || "N/A"}` : "N/A";
+    const fields: NotificationField[] = [
+      { name: "🎫 Tickets", value: `\`\`\`\n${data.quantity}x ${seatInfo}\n\`\`\``, inline: false },
+      { name: "💵 Sale", value: `\`${formatMoney(data.salePrice)}\``, inline: true },
+      { name: "🧾 Cost", value: `\`${formatMoney(data.cost)}\``, inline: true },
+    ];
+    if (profit !== null) {
+      fields.push({ name: profit >= 0 ? "📈 Profit" : "📉 Loss", value: `\`${formatMoney(profit)}\``, inline: true });
+    }
+
+    return {
+      severity: "success",
+      color: NOTIFICATION_COLORS.success,
+      author: "POS • New Sale",
+      title: `💸 ${(data.eventName || "Unknown Event").slice(0, 80)}`,
+      description: formatEventDate(data.eventDate) || undefined,
+      fields,
+      footer: data.invoiceNumber ? `Invoice #${data.invoiceNumber}` : undefined,
+    };
+  },
+
+  "invoice.paid": (data) => ({
+    severity: "success",
+    color: NOTIFICATION_COLORS.success,
+    author: "POS • Invoice Paid",
+    title: `🏦 Invoice #${data.invoiceNumber} paid`,
+    description: data.eventName || undefined,
+    fields: [
+      { name: "💵 Payout", value: `\`${formatMoney(data.totalAmount)}\``, inline: true },
+      { name: "🎫 Tickets", value: `\`${data.totalQuantity}\``, inline: true },
+      { name: "👤 Client", value: `\`${data.clientName || "N/A"}\``, inline: true },
+    ],
+    footer: data.remittanceDate ? `Remitted ${formatEventDate(data.remittanceDate)}` : undefined,
+  }),
+};
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+function lookupPath(data: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (value && typeof value === "object") return (value as Record<string, unknown>)[key];
+    return undefined;
+  }, data);
+}
+
+/**
+ * Replace {{field}} / {{nested.field}} placeholders. Unknown fields render empty.
+ */
+export function interpolateTemplate(template: string, data: unknown): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    const value = lookupPath(data, path);
+    if (value === undefined || value === null) return "";
+    if (value instanceof Date) return value.toISOString();
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+}
+
+export function renderNotification<T extends NotificationEventType>(
+  eventType: T,
+  data: NotificationDataMap[T],
+  template?: string | null
+): NotificationMessage {
+  const message: NotificationMessage = {
+    eventType,
+    timestamp: new Date().toISOString(),
+    ...TEMPLATES[eventType](data),
+  };
+
+  if (template) {
+    message.description = interpolateTemplate(template, data);
+  }
+  return message;
+}
+
+/**
+ * Strip the Discord markdown used in templates, for plain-text channels
+ */
+export function toPlainText(value: string): string {
+  return value
+    .replace(/```\n?/g, "")
+    .replace(/`/g, "")
+    .replace(/\*\*/g, "")
+    .trim();
+}
+
+export function isNotificationEventType(value: string): value is NotificationEventType {
+  return value in NOTIFICATION_EVENT_TYPES;
+}
@@ -0,0 +1,677 @@
+/**
+ * Notifications
+ *
+ * Routes events (checkout results, generator progress, POS sync failures,
+ * sales, paid invoices) to the configured channels:
+ *
+ *   notify(eventType, data)
+ *     -> enabled NotificationRules for the event type
+ *     -> one NotificationDelivery per channel (message rendered once, stored
+ *        encrypted since generator messages include credentials)
+ *     -> immediate attempt, recorded as a NotificationAttempt
+ *
+ * RETRIES: a failed attempt schedules the next one after RETRY_DELAYS_MS
+ * (1m, 5m, 30m, 2h). After MAX_ATTEMPTS, or on a permanent error (HTTP 4xx
+ * such as a deleted webhook, SMTP 5xx), the delivery is FAILED and can be
+ * retried by hand from the Notifications page. Due retries are sent by the
+ * "notifications" sync job (sync-scheduler.ts).
+ *
+ * CLAIMING: a delivery is claimed by pushing nextAttemptAt out by
+ * CLAIM_LEASE_MS with a conditional update, so overlapping retry runs can't
+ * send the same delivery twice. A delivery whose sender crashed mid-attempt
+ * becomes due again when the lease expires.
+ *
+ * DEDUPE: callers can pass a dedupeKey (e.g. "generator.batch_done:<jobId>");
+ * a key is delivered at most once per channel.
+ *
+ * LEGACY WEBHOOKS: the old discord_webhook_success/error/misc settings in
+ * CheckoutConfig/GeneratorConfig are moved into channels + rules the first
+ * time notify() runs in a process (or by scripts/migrate-notification-webhooks.ts),
+ * so existing installs keep their alerts after upgrading.
+ */
+
+import prisma from "@/lib/db";
+import { decryptField, encryptField } from "./field-encryption";
+import {
+  NOTIFICATION_COLORS,
+  NOTIFICATION_EVENT_TYPES,
+  isNotificationEventType,
+  renderNotification,
+  type NotificationDataMap,
+  type NotificationEventType,
+  type NotificationMessage,
+} from "./notification-templates";
+import {
+  isNotificationChannelType,
+  mergeChannelConfig,
+  redactChannelConfig,
+  sendToChannel,
+  validateChannelConfig,
+  type ChannelSendResult,
+  type NotificationChannelConfig,
+  type NotificationChannelType,
+} from "./notification-channels";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type NotificationDeliveryStatus = "PENDING" | "SENT" | "RETRYING" | "FAILED";
+
+export interface NotifyResult {
+  deliveries: number;
+  sent: number;
+}
+
+export interface RetryResult {
+  success: boolean;
+  attempted: number;
+  sent: number;
+  pruned: number;
+  error?: string;
+}
+
+export interface ChannelInput {
+  name?: string;
+  type?: string;
+  config?: Record<string, unknown>;
+  isEnabled?: boolean;
+}
+
+export interface RuleInput {
+  eventType: string;
+  channelId: string;
+  isEnabled?: boolean;
+  template?: string | null;
+}
+
+export interface LegacyWebhookMigrationResult {
+  channels: number;            // Channels created
+  rules: number;               // Rules created or already present
+}
+
+export interface DeliveryFilters {
+  status?: string;
+  channelId?: string;
+  eventType?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+const RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+const RETRY_BATCH_SIZE = 50;
+const DELIVERY_RETENTION_DAYS = 30;
+
+const LEGACY_WEBHOOK_KEYS = ["discord_webhook_success", "discord_webhook_error", "discord_webhook_misc"] as const;
+
+type LegacyWebhookKey = (typeof LEGACY_WEBHOOK_KEYS)[number];
+
+// Event types each legacy webhook setting used to receive
+const LEGACY_WEBHOOK_EVENTS: Record<"checkout" | "generator", Record<LegacyWebhookKey, NotificationEventType[]>> = {
+  checkout: {
+    discord_webhook_success: ["checkout.success"],
+    discord_webhook_error: ["checkout.error"],
+    discord_webhook_misc: ["checkout.started"],
+  },
+  generator: {
+    discord_webhook_success: ["generator.success", "generator.batch_done"],
+    discord_webhook_error: ["generator.error"],
+    discord_webhook_misc: ["generator.requeue"],
+  },
+};
+
+const LEGACY_WEBHOOK_LABELS: Record<LegacyWebhookKey, string> = {
+  discord_webhook_success: "success",
+  discord_webhook_error: "errors",
+  discord_webhook_misc: "misc",
+};
+
+// Kept on globalThis so dev hot reloads don't migrate again
+const globalForNotifications = globalThis as unknown as {
+  legacyWebhookMigration: Promise<void> | undefined;
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function readConfig(encrypted: string): NotificationChannelConfig {
+  return JSON.parse(decryptField(encrypted)) as NotificationChannelConfig;
+}
+
+function isPermanentFailure(type: NotificationChannelType, result: ChannelSendResult): boolean {
+  if (!result.statusCode) return false;
+  if (type === "email") return result.statusCode >= 500;
+  return result.statusCode >= 400 && result.statusCode < 500 && ![408, 429].includes(result.statusCode);
+}
+
+/**
+ * Conditionally take a delivery for sending. Returns false if another
+ * process got there first.
+ */
+async function claimDelivery(id: string, expectedNextAttemptAt: Date | null): Promise<boolean> {
+  const claimed = await prisma.notificationDelivery.updateMany({
+    where: { id, nextAttemptAt: expectedNextAttemptAt },
+    data: { nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) },
+  });
+  return claimed.count === 1;
+}
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/**
+ * Send a claimed delivery once and record the attempt
+ */
+async function attemptDelivery(deliveryId: string): Promise<boolean> {
+  const delivery = await prisma.notificationDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { channel: true },
+  });
+  if (!delivery) return false;
+
+  const attempt = delivery.attemptCount + 1;
+  const channelType = delivery.channel.type;
+  const startedAt = Date.now();
+
+  let result: ChannelSendResult;
+  if (!isNotificationChannelType(channelType)) {
+    result = { success: false, error: `Unknown channel type: ${channelType}` };
+  } else if (!delivery.channel.isEnabled) {
+    result = { success: false, error: "Channel is disabled" };
+  } else {
+    try {
+      const message = JSON.parse(decryptField(delivery.message)) as NotificationMessage;
+      result = await sendToChannel(channelType, readConfig(delivery.channel.config), message);
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  const durationMs = Date.now() - startedAt;
+  const giveUp =
+    !result.success &&
+    (attempt >= MAX_ATTEMPTS ||
+      !isNotificationChannelType(channelType) ||
+      isPermanentFailure(channelType, result));
+
+  await prisma.$transaction([
+    prisma.notificationAttempt.create({
+      data: {
+        deliveryId,
+        attempt,
+        success: result.success,
+        statusCode: result.statusCode ?? null,
+        errorMessage: result.error?.slice(0, 1000) ?? null,
+        durationMs,
+      },
+    }),
+    prisma.notificationDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        attemptCount: attempt,
+        status: result.success ? "SENT" : giveUp ? "FAILED" : "RETRYING",
+        nextAttemptAt: result.success || giveUp
+          ? null
+          : new Date(Date.now() + RETRY_DELAYS_MS[Math.min(attempt, RETRY_DELAYS_MS.length) - 1]),
+        lastError: result.success ? null : result.error?.slice(0, 1000) ?? "Unknown error",
+        ...(result.success && { sentAt: new Date() }),
+      },
+    }),
+  ]);
+
+  if (!result.success) {
+    console.warn(
+      `[Notifications] ${delivery.eventType} -> ${delivery.channel.name} failed (attempt ${attempt}${giveUp ? ", giving up" : ""}): ${result.error}`
+    );
+  }
+  return result.success;
+}
+
+/**
+ * Send an event to every channel routed for it. Never throws - a broken
+ * channel must not fail the checkout/sync that raised the event.
+ */
+export async function notify<T extends NotificationEventType>(
+  eventType: T,
+  data: NotificationDataMap[T],
+  options: { dedupeKey?: string } = {}
+): Promise<NotifyResult> {
+  const result: NotifyResult = { deliveries: 0, sent: 0 };
+
+  try {
+    await ensureLegacyWebhooksMigrated();
+
+    const rules = await prisma.notificationRule.findMany({
+      where: { eventType, isEnabled: true, channel: { isEnabled: true } },
+      include: { channel: { select: { id: true } } },
+    });
+
+    for (const rule of rules) {
+      const message = renderNotification(eventType, data, rule.template);
+
+      let deliveryId: string;
+      try {
+        const delivery = await prisma.notificationDelivery.create({
+          data: {
+            eventType,
+            channelId: rule.channelId,
+            dedupeKey: options.dedupeKey ?? null,
+            title: message.title.slice(0, 200),
+            message: encryptField(JSON.stringify(message)),
+            // Leased to this call; picked up by the retry job if we crash
+            nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS),
+          },
+        });
+        deliveryId = delivery.id;
+      } catch (error) {
+        // Unique violation on [dedupeKey, channelId] - already delivered
+        if ((error as { code?: string }).code === "P2002") continue;
+        throw error;
+      }
+
+      result.deliveries++;
+      if (await attemptDelivery(deliveryId)) result.sent++;
+    }
+  } catch (error) {
+    console.error(`[Notifications] Failed to notify ${eventType}:`, error);
+  }
+
+  return result;
+}
+
+/**
+ * Send retries that are due and prune old deliveries. Run by the sync scheduler.
+ */
+export async function retryDueDeliveries(): Promise<RetryResult> {
+  try {
+    const due = await prisma.notificationDelivery.findMany({
+      where: {
+        status: { in: ["PENDING", "RETRYING"] },
+        nextAttemptAt: { lte: new Date() },
+      },
+      orderBy: { nextAttemptAt: "asc" },
+      take: RETRY_BATCH_SIZE,
+      select: { id: true, nextAttemptAt: true },
+    });
+
+    let attempted = 0;
+    let sent = 0;
+    for (const delivery of due) {
+      if (!(await claimDelivery(delivery.id, delivery.nextAttemptAt))) continue;
+      attempted++;
+      if (await attemptDelivery(delivery.id)) sent++;
+    }
+
+    const { count: pruned } = await prisma.notificationDelivery.deleteMany({
+      where: {
+        status: { in: ["SENT", "FAILED"] },
+        createdAt: { lt: new Date(Date.now() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000) },
+      },
+    });
+
+    if (attempted > 0 || pruned > 0) {
+      console.log(`[Notifications] Retried ${attempted} deliveries (${sent} sent), pruned ${pruned}`);
+    }
+
+    return { success: true, attempted, sent, pruned };
+  } catch (error) {
+    console.error("[Notifications] Retry error:", error);
+    return {
+      success: false,
+      attempted: 0,
+      sent: 0,
+      pruned: 0,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Retry one delivery now (from the delivery log)
+ */
+export async function retryDelivery(id: string): Promise<{ success: boolean; error?: string }> {
+  const delivery = await prisma.notificationDelivery.findUnique({ where: { id } });
+  if (!delivery) return { success: false, error: "Delivery not found" };
+  if (delivery.status === "SENT") return { success: false, error: "Delivery was already sent" };
+
+  if (!(await claimDelivery(id, delivery.nextAttemptAt))) {
+    return { success: false, error: "Delivery is already being sent" };
+  }
+
+  const sent = await attemptDelivery(id);
+  if (sent) return { success: true };
+
+  const updated = await prisma.notificationDelivery.findUnique({ where: { id }, select: { lastError: true } });
+  return { success: false, error: updated?.lastError || "Send failed" };
+}
+
+/**
+ * Send a sample message straight to a channel. Not recorded as a delivery.
+ */
+export async function sendTestNotification(channelId: string): Promise<ChannelSendResult> {
+  const channel = await prisma.notificationChannel.findUnique({ where: { id: channelId } });
+  if (!channel) return { success: false, error: "Channel not found" };
+  if (!isNotificationChannelType(channel.type)) {
+    return { success: false, error: `Unknown channel type: ${channel.type}` };
+  }
+
+  const message: NotificationMessage = {
+    eventType: "checkout.started",
+    severity: "info",
+    color: NOTIFICATION_COLORS.info,
+    author: "TM Accounts • Test",
+    title: "🔔 Test notification",
+    description: `If you can see this, the "${channel.name}" channel is working.`,
+    fields: [{ name: "Channel", value: `\`${channel.type}\``, inline: true }],
+    timestamp: new Date().toISOString(),
+  };
+
+  try {
+    return await sendToChannel(channel.type, readConfig(channel.config), message);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// =============================================================================
+// Legacy Webhooks
+// =============================================================================
+
+/**
+ * Move the legacy Discord webhook settings into notification channels and
+ * rules, then delete them. One channel per distinct URL; URLs that already
+ * have a Discord channel reuse it, so this is safe to run more than once.
+ */
+export async function migrateLegacyWebhooks(
+  options: { dryRun?: boolean } = {}
+): Promise<LegacyWebhookMigrationResult> {
+  const result: LegacyWebhookMigrationResult = { channels: 0, rules: 0 };
+  const sources = {
+    checkout: await prisma.checkoutConfig.findMany({ where: { key: { in: [...LEGACY_WEBHOOK_KEYS] } } }),
+    generator: await prisma.generatorConfig.findMany({ where: { key: { in: [...LEGACY_WEBHOOK_KEYS] } } }),
+  };
+  if (sources.checkout.length + sources.generator.length === 0) return result;
+
+  // Existing Discord channels by URL
+  const channelIds = new Map<string, string>();
+  const channels = await prisma.notificationChannel.findMany({ where: { type: "discord" } });
+  for (const channel of channels) {
+    const config = readConfig(channel.config) as { webhookUrl?: string };
+    if (config.webhookUrl) channelIds.set(config.webhookUrl, channel.id);
+  }
+
+  for (const [source, rows] of Object.entries(sources) as Array<[keyof typeof sources, typeof sources.checkout]>) {
+    for (const row of rows) {
+      const url = row.value.replace(/^"|"$/g, "").trim();
+      if (!url) continue;
+
+      const key = row.key as LegacyWebhookKey;
+      const name = `Discord - ${source} ${LEGACY_WEBHOOK_LABELS[key]}`;
+      let channelId = channelIds.get(url);
+      if (!channelId) {
+        result.channels++;
+        if (options.dryRun) {
+          channelId = `dry-run:${name}`;
+          console.log(`[Notifications] Would create channel "${name}"`);
+        } else {
+          const channel = await prisma.notificationChannel.create({
+            data: { name, type: "discord", config: encryptField(JSON.stringify({ webhookUrl: url })) },
+          });
+          channelId = channel.id;
+          console.log(`[Notifications] Created channel "${name}" from ${source} ${row.key}`);
+        }
+        channelIds.set(url, channelId);
+      }
+
+      for (const eventType of LEGACY_WEBHOOK_EVENTS[source][key]) {
+        result.rules++;
+        if (options.dryRun) {
+          console.log(`[Notifications] Would route ${eventType} -> "${name}"`);
+          continue;
+        }
+        await prisma.notificationRule.upsert({
+          where: { eventType_channelId: { eventType, channelId } },
+          create: { eventType, channelId },
+          update: {},
+        });
+      }
+    }
+  }
+
+  if (!options.dryRun) {
+    await prisma.checkoutConfig.deleteMany({ where: { key: { in: [...LEGACY_WEBHOOK_KEYS] } } });
+    await prisma.generatorConfig.deleteMany({ where: { key: { in: [...LEGACY_WEBHOOK_KEYS] } } });
+  }
+
+  return result;
+}
+
+/**
+ * Run the legacy webhook migration once per process. A failed run is retried
+ * on the next notify().
+ */
+async function ensureLegacyWebhooksMigrated(): Promise<void> {
+  if (!globalForNotifications.legacyWebhookMigration) {
+    globalForNotifications.legacyWebhookMigration = migrateLegacyWebhooks()
+      .then((migrated) => {
+        if (migrated.rules > 0) {
+          console.log(`[Notifications] Migrated legacy webhooks: ${migrated.channels} channels, ${migrated.rules} rules`);
+        }
+      })
+      .catch((error) => {
+        globalForNotifications.legacyWebhookMigration = undefined;
+        console.error("[Notifications] Legacy webhook migration failed:", error);
+      });
+  }
+  await globalForNotifications.legacyWebhookMigration;
+}
+
+// =============================================================================
+// Channels
+// =============================================================================
+
+export async function listChannels() {
+  const channels = await prisma.notificationChannel.findMany({
+    orderBy: { createdAt: "asc" },
+    include: { _count: { select: { rules: true } } },
+  });
+
+  return channels.map((channel) => {
+    let config: Record<string, unknown> = {};
+    try {
+      if (isNotificationChannelType(channel.type)) {
+        config = redactChannelConfig(channel.type, readConfig(channel.config));
+      }
+    } catch (error) {
+      console.error(`[Notifications] Failed to read config for channel ${channel.id}:`, error);
+    }
+
+    return {
+      id: channel.id,
+      name: channel.name,
+      type: channel.type,
+      config,
+      isEnabled: channel.isEnabled,
+      ruleCount: channel._count.rules,
+      createdAt: channel.createdAt,
+      updatedAt: channel.updatedAt,
+    };
+  });
+}
+
+export async function createChannel(
+  input: ChannelInput
+): Promise<{ success: boolean; id?: string; error?: string }> {
+  if (!input.name?.trim()) return { success: false, error: "name is required" };
+  if (!input.type || !isNotificationChannelType(input.type)) {
+    return { success: false, error: "type must be one of: discord, slack, webhook, email" };
+  }
+
+  const { config, error } = validateChannelConfig(input.type, input.config || {});
+  if (!config) return { success: false, error };
+
+  const channel = await prisma.notificationChannel.create({
+    data: {
+      name: input.name.trim(),
+      type: input.type,
+      config: encryptField(JSON.stringify(config)),
+      isEnabled: input.isEnabled ?? true,
+    },
+  });
+  return { success: true, id: channel.id };
+}
+
+export async function updateChannel(
+  id: string,
+  input: ChannelInput
+): Promise<{ success: boolean; error?: string }> {
+  const channel = await prisma.notificationChannel.findUnique({ where: { id } });
+  if (!channel) return { success: false, error: "Channel not found" };
+  if (!isNotificationChannelType(channel.type)) {
+    return { success: false, error: `Unknown channel type: ${channel.type}` };
+  }
+
+  const data: Record<string, unknown> = {};
+  if (input.name !== undefined) {
+    if (!input.name.trim()) return { success: false, error: "name is required" };
+    data.name = input.name.trim();
+  }
+  if (input.isEnabled !== undefined) {
+    data.isEnabled = input.isEnabled;
+  }
+  if (input.config) {
+    const merged = mergeChannelConfig(channel.type, readConfig(channel.config), input.config);
+    const { config, error } = validateChannelConfig(channel.type, merged);
+    if (!config) return { success: false, error };
+    data.config = encryptField(JSON.stringify(config));
+  }
+
+  await prisma.notificationChannel.update({ where: { id }, data });
+  return { success: true };
+}
+
+export async function deleteChannel(id: string): Promise<{ success: boolean; error?: string }> {
+  const { count } = await prisma.notificationChannel.deleteMany({ where: { id } });
+  return count === 1 ? { success: true } : { success: false, error: "Channel not found" };
+}
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+export async function listRules() {
+  return prisma.notificationRule.findMany({
+    orderBy: [{ eventType: "asc" }, { createdAt: "asc" }],
+  });
+}
+
+/**
+ * Create or update the rule routing an event type to a channel
+ */
+export async function upsertRule(input: RuleInput): Promise<{ success: boolean; error?: string }> {
+  if (!isNotificationEventType(input.eventType)) {
+    return { success: false, error: `Unknown event type: ${input.eventType}` };
+  }
+
+  const channel = await prisma.notificationChannel.findUnique({ where: { id: input.channelId } });
+  if (!channel) return { success: false, error: "Channel not found" };
+
+  const template = input.template?.trim() || null;
+  await prisma.notificationRule.upsert({
+    where: { eventType_channelId: { eventType: input.eventType, channelId: input.channelId } },
+    create: {
+      eventType: input.eventType,
+      channelId: input.channelId,
+      isEnabled: input.isEnabled ?? true,
+      template,
+    },
+    update: {
+      ...(input.isEnabled !== undefined && { isEnabled: input.isEnabled }),
+      ...(input.template !== undefined && { template }),
+    },
+  });
+  return { success: true };
+}
+
+export async function deleteRule(eventType: string, channelId: string): Promise<{ success: boolean; error?: string }> {
+  const { count } = await prisma.notificationRule.deleteMany({ where: { eventType, channelId } });
+  return count === 1 ? { success: true } : { success: false, error: "Rule not found" };
+}
+
+// =============================================================================
+// Delivery Log
+// =============================================================================
+
+export async function listDeliveries(filters: DeliveryFilters = {}) {
+  const where = {
+    ...(filters.status && { status: filters.status }),
+    ...(filters.channelId && { channelId: filters.channelId }),
+    ...(filters.eventType && { eventType: filters.eventType }),
+  };
+
+  const [deliveries, total] = await Promise.all([
+    prisma.notificationDelivery.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: Math.min(filters.limit || 50, 200),
+      skip: filters.offset || 0,
+      // The message body stays out of the log - it may contain credentials
+      select: {
+        id: true,
+        eventType: true,
+        channelId: true,
+        dedupeKey: true,
+        title: true,
+        status: true,
+        attemptCount: true,
+        nextAttemptAt: true,
+        lastError: true,
+        sentAt: true,
+        createdAt: true,
+        channel: { select: { name: true, type: true } },
+        attempts: { orderBy: { attempt: "asc" } },
+      },
+    }),
+    prisma.notificationDelivery.count({ where }),
+  ]);
+
+  return { deliveries, total };
+}
+
+export function listEventTypes() {
+  return Object.entries(NOTIFICATION_EVENT_TYPES).map(([id, label]) => ({ id, label }));
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const Notifications = {
+  notify,
+  migrateLegacyWebhooks,
+  retryDue: retryDueDeliveries,
+  retryDelivery,
+  sendTest: sendTestNotification,
+  listChannels,
+  createChannel,
+  updateChannel,
+  deleteChannel,
+  listRules,
+  upsertRule,
+  deleteRule,
+  listDeliveries,
+  listEventTypes,
+};
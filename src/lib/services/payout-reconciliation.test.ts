@@ -0,0 +1,161 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { installFakePrisma } from "@/lib/testing/fake-prisma";
+
+const db = installFakePrisma();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEPOSIT_DATE = new Date("2026-03-10T00:00:00Z");
+const daysFromDeposit = (days: number) => new Date(DEPOSIT_DATE.getTime() + days * DAY_MS);
+
+function invoice(invoiceNumber: number, totalAmount: number, remittanceDate: Date | null) {
+  return {
+    id: `inv-${invoiceNumber}`,
+    invoiceNumber,
+    totalAmount,
+    invoiceDate: remittanceDate ? new Date(remittanceDate.getTime() - 7 * DAY_MS) : daysFromDeposit(-3),
+    remittanceDate,
+    isCancelled: false,
+    depositId: null,
+  };
+}
+
+function deposit(id: string, amount: number, description: string | null = null, reference: string | null = null) {
+  return {
+    id,
+    status: "UNMATCHED",
+    depositDate: DEPOSIT_DATE,
+    rowNumber: 2,
+    amount,
+    description,
+    reference,
+    matchType: null,
+    expectedAmount: null,
+    variance: null,
+    notes: null,
+  };
+}
+
+const depositRow = (id: string) => db.tables.remittanceDeposit.find((d) => d.id === id)!;
+
+beforeEach(() => db.reset());
+
+test("referencedNumbers only takes tagged invoice numbers or a numbers-only reference", async () => {
+  const { referencedNumbers } = await import("./payout-reconciliation");
+  assert.deepEqual(referencedNumbers(null, "TICKETVAULT PAYOUT INV 100234"), [100234]);
+  assert.deepEqual(referencedNumbers(null, "Invoice #100234, INV100235"), [100234, 100235]);
+  assert.deepEqual(referencedNumbers("100234, 100236", null), [100234, 100236]);
+  // Years, trace IDs and account fragments
+  assert.deepEqual(referencedNumbers(null, "ACH CREDIT 2026 TRACE 091000019876 ACCT 4821"), []);
+  assert.deepEqual(referencedNumbers("PPD 091000019876", "PAYOUT 03/10/2026"), []);
+});
+
+test("REFERENCE matches invoices named in the description, outside the date window", async () => {
+  const { autoMatchDeposits } = await import("./payout-reconciliation");
+  db.reset({
+    remittanceDeposit: [deposit("dep-1", 300, "TICKETVAULT INV 100234")],
+    invoice: [invoice(100234, 300, daysFromDeposit(-45))],
+  });
+
+  const result = await autoMatchDeposits();
+  assert.equal(result.matched, 1);
+  assert.equal(depositRow("dep-1").status, "MATCHED");
+  assert.equal(depositRow("dep-1").matchType, "REFERENCE");
+  assert.equal(db.tables.invoice[0].depositId, "dep-1");
+});
+
+test("REFERENCE flags a short payment", async () => {
+  const { autoMatchDeposits } = await import("./payout-reconciliation");
+  db.reset({
+    remittanceDeposit: [deposit("dep-1", 250, "INV 100234")],
+    invoice: [invoice(100234, 300, daysFromDeposit(-1))],
+  });
+
+  const result = await autoMatchDeposits();
+  assert.equal(result.shortPaid, 1);
+  assert.equal(depositRow("dep-1").status, "SHORT_PAID");
+  assert.equal(depositRow("dep-1").variance, -50);
+});
+
+test("REFERENCE doesn't match a deposit larger than the referenced invoices", async () => {
+  const { autoMatchDeposits } = await import("./payout-reconciliation");
+  db.reset({
+    remittanceDeposit: [deposit("dep-1", 900, "INV 100234")],
+    invoice: [invoice(100234, 300, daysFromDeposit(-1))],
+  });
+
+  const result = await autoMatchDeposits();
+  assert.equal(result.matched, 0);
+  assert.equal(depositRow("dep-1").status, "UNMATCHED");
+  assert.equal(db.tables.invoice[0].depositId, null);
+});
+
+test("untagged numbers in the description aren't taken as invoice numbers", async () => {
+  const { autoMatchDeposits } = await import("./payout-reconciliation");
+  db.reset({
+    remittanceDeposit: [deposit("dep-1", 120, "ACH 2026 TRACE 100234")],
+    invoice: [invoice(2026, 120, daysFromDeposit(-90)), invoice(100234, 120, daysFromDeposit(-90))],
+  });
+
+  const result = await autoMatchDeposits();
+  assert.equal(result.matched, 0);
+});
+
+test("AMOUNT matches one invoice with the same payout, closest date first", async () => {
+  const { autoMatchDeposits } = await import("./payout-reconciliation");
+  db.reset({
+    remittanceDeposit: [deposit("dep-1", 410.5, "TICKETVAULT PAYOUT")],
+    invoice: [
+      invoice(100300, 410.5, daysFromDeposit(-1)),
+      invoice(100301, 410.5, daysFromDeposit(0)),
+      invoice(100302, 410.5, daysFromDeposit(-30)),
+    ],
+  });
+
+  const result = await autoMatchDeposits();
+  assert.equal(result.matched, 1);
+  assert.equal(depositRow("dep-1").matchType, "AMOUNT");
+  assert.deepEqual(
+    db.tables.invoice.filter((i) => i.depositId === "dep-1").map((i) => i.invoiceNumber),
+    [100301]
+  );
+});
+
+test("BATCH matches invoices remitted on one day that add up to the deposit", async () => {
+  const { autoMatchDeposits } = await import("./payout-reconciliation");
+  const remitted = daysFromDeposit(-1);
+  db.reset({
+    remittanceDeposit: [deposit("dep-1", 500, "TICKETVAULT PAYOUT")],
+    invoice: [
+      invoice(100400, 200, remitted),
+      invoice(100401, 300, remitted),
+      invoice(100402, 75, daysFromDeposit(-2)),
+    ],
+  });
+
+  const result = await autoMatchDeposits();
+  assert.equal(result.matched, 1);
+  assert.equal(depositRow("dep-1").matchType, "BATCH");
+  assert.equal(depositRow("dep-1").status, "MATCHED");
+  assert.deepEqual(
+    db.tables.invoice.filter((i) => i.depositId === "dep-1").map((i) => i.invoiceNumber),
+    [100400, 100401]
+  );
+});
+
+test("a manual match above the invoices' payout is OVER_PAID until accepted", async () => {
+  const { resolveDeposit } = await import("./payout-reconciliation");
+  db.reset({
+    remittanceDeposit: [deposit("dep-1", 350)],
+    invoice: [invoice(100500, 300, daysFromDeposit(-1))],
+  });
+
+  const matched = await resolveDeposit("dep-1", "match", { invoiceNumbers: [100500], resolvedBy: "ops" });
+  assert.ok(matched.success);
+  assert.equal(depositRow("dep-1").status, "OVER_PAID");
+  assert.equal(depositRow("dep-1").variance, 50);
+
+  const accepted = await resolveDeposit("dep-1", "accept", { resolvedBy: "ops" });
+  assert.ok(accepted.success);
+  assert.equal(depositRow("dep-1").status, "ACCEPTED");
+});
@@ -0,0 +1,696 @@
+/**
+ * Payout Reconciliation
+ *
+ * Checks TicketVault payouts (invoice.totalAmount, isPaid, remittanceDate)
+ * against what actually hit the bank, from imported statement CSVs.
+ *
+ * Auto-matching tries, for each unmatched deposit:
+ * 1. REFERENCE: invoice numbers in the deposit (tagged INV/invoice/# in the
+ *    reference or description, or a reference that's only numbers), as long
+ *    as the deposit doesn't exceed their payout
+ * 2. AMOUNT:    one invoice whose payout equals the deposit, paid within the window
+ * 3. BATCH:     all invoices remitted on the same day that add up to the deposit
+ *
+ * The date window is remittanceDate - 1 day .. remittanceDate + window days
+ * (banks post late). Invoices TicketVault hasn't marked paid are considered
+ * from invoiceDate up to overdue + window days before the deposit.
+ *
+ * Exceptions for the workspace:
+ * - Unmatched deposits
+ * - Short payments (deposit below the matched invoices' payout) until accepted
+ * - Overpayments (deposit above the matched invoices' payout) until accepted
+ * - Overdue invoices: unpaid in TicketVault overdue days after the invoice date
+ * - Missing deposits: paid in TicketVault but no deposit within the window,
+ *   only for dates our statements cover
+ */
+
+import { createHash } from "crypto";
+import prisma from "@/lib/db";
+import { Prisma } from "@prisma/client";
+import { parseRemittanceStatement } from "@/lib/importers";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DepositStatus = "UNMATCHED" | "MATCHED" | "SHORT_PAID" | "OVER_PAID" | "ACCEPTED" | "IGNORED";
+
+export type MatchType = "REFERENCE" | "AMOUNT" | "BATCH" | "MANUAL";
+
+export type DepositAction = "match" | "reset" | "ignore" | "accept";
+
+export interface AutoMatchResult {
+  success: boolean;
+  checked: number;
+  matched: number;
+  shortPaid: number;
+  overPaid: number;
+  error?: string;
+}
+
+interface CandidateInvoice {
+  id: string;
+  invoiceNumber: number;
+  totalAmount: number;
+  invoiceDate: Date | null;
+  remittanceDate: Date | null;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+export const PAYOUT_SETTINGS = {
+  MATCH_WINDOW_DAYS: "payout_match_window_days",
+  OVERDUE_DAYS: "payout_overdue_days",
+} as const;
+
+export const DEFAULT_MATCH_WINDOW_DAYS = 5;
+export const DEFAULT_OVERDUE_DAYS = 14;
+
+export const DEPOSIT_STATUSES: DepositStatus[] = ["UNMATCHED", "MATCHED", "SHORT_PAID", "OVER_PAID", "ACCEPTED", "IGNORED"];
+
+// Off-match deposits that stay exceptions until accepted
+const VARIANCE_STATUSES: DepositStatus[] = ["SHORT_PAID", "OVER_PAID"];
+
+const AMOUNT_TOLERANCE = 0.01;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CANDIDATE_SEARCH_DAYS = 60;
+
+const depositInclude = {
+  invoices: {
+    select: {
+      id: true,
+      invoiceNumber: true,
+      eventName: true,
+      clientName: true,
+      totalAmount: true,
+      invoiceDate: true,
+      remittanceDate: true,
+      isPaid: true,
+    },
+    orderBy: { invoiceNumber: "asc" },
+  },
+  statement: { select: { fileName: true } },
+} satisfies Prisma.RemittanceDepositInclude;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function getSettings(): Promise<{ windowDays: number; overdueDays: number }> {
+  const settings = await prisma.setting.findMany({
+    where: { key: { in: [PAYOUT_SETTINGS.MATCH_WINDOW_DAYS, PAYOUT_SETTINGS.OVERDUE_DAYS] } },
+  });
+  const get = (key: string) => parseInt(settings.find((s) => s.key === key)?.value || "", 10);
+
+  return {
+    windowDays: get(PAYOUT_SETTINGS.MATCH_WINDOW_DAYS) || DEFAULT_MATCH_WINDOW_DAYS,
+    overdueDays: get(PAYOUT_SETTINGS.OVERDUE_DAYS) || DEFAULT_OVERDUE_DAYS,
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Whether a deposit on depositDate could be this invoice's payout
+ */
+function inWindow(invoice: CandidateInvoice, depositDate: Date, windowDays: number, overdueDays: number): boolean {
+  const t = depositDate.getTime();
+  if (invoice.remittanceDate) {
+    const r = invoice.remittanceDate.getTime();
+    return t >= r - DAY_MS && t <= r + windowDays * DAY_MS;
+  }
+  if (!invoice.invoiceDate) return false;
+  const i = invoice.invoiceDate.getTime();
+  return t >= i && t <= i + (overdueDays + windowDays) * DAY_MS;
+}
+
+/**
+ * Invoice numbers (4+ digits) in the deposit: tagged "INV"/"invoice"/"#" in the
+ * reference or description, or a reference that holds nothing but numbers.
+ * Other numbers (years, ACH trace IDs, account fragments) don't count.
+ */
+export function referencedNumbers(reference: string | null, description: string | null): number[] {
+  const text = `${reference || ""} ${description || ""}`;
+  const tagged = [...text.matchAll(/(?:\binv(?:oice)?s?\b|\binv(?=\d)|#)[\s#:.-]*(?:no\b\.?|num(?:ber)?\b)?[\s#:.-]*(\d{4,})\b/gi)]
+    .map((m) => m[1]);
+  const bare = reference && /^[\s#]*\d{4,}(?:[\s,;/&]+#?\d{4,})*\s*$/.test(reference)
+    ? reference.match(/\d{4,}/g) || []
+    : [];
+  return [...new Set([...tagged, ...bare].map(Number))];
+}
+
+function fingerprintFor(entry: { date: Date; amount: number; description: string | null; reference: string | null }, occurrence: number): string {
+  return createHash("sha256")
+    .update(`${dayKey(entry.date)}|${entry.amount.toFixed(2)}|${entry.description || ""}|${entry.reference || ""}|${occurrence}`)
+    .digest("hex");
+}
+
+/**
+ * Attach invoices to a deposit. Fails if any invoice was reconciled meanwhile.
+ */
+async function applyMatch(
+  depositId: string,
+  depositAmount: number,
+  invoices: Array<{ id: string; totalAmount: number }>,
+  matchType: MatchType,
+  resolution?: { resolvedBy: string | null; notes?: string | null }
+) {
+  const expected = round2(invoices.reduce((sum, i) => sum + i.totalAmount, 0));
+  const variance = round2(depositAmount - expected);
+  const status: DepositStatus = variance < -AMOUNT_TOLERANCE
+    ? "SHORT_PAID"
+    : variance > AMOUNT_TOLERANCE
+      ? "OVER_PAID"
+      : "MATCHED";
+  const now = new Date();
+
+  await prisma.$transaction(async (tx) => {
+    const claimed = await tx.invoice.updateMany({
+      where: { id: { in: invoices.map((i) => i.id) }, depositId: null, isCancelled: false },
+      data: { depositId, reconciledAt: now },
+    });
+    if (claimed.count !== invoices.length) {
+      throw new Error("One or more invoices are already reconciled or cancelled");
+    }
+
+    const updated = await tx.remittanceDeposit.updateMany({
+      where: { id: depositId, status: "UNMATCHED" },
+      data: {
+        status,
+        matchType,
+        expectedAmount: expected,
+        variance,
+        resolvedBy: resolution?.resolvedBy ?? null,
+        resolvedAt: resolution ? now : null,
+        ...(resolution?.notes !== undefined ? { notes: resolution.notes } : {}),
+      },
+    });
+    if (updated.count === 0) {
+      throw new Error("Deposit is no longer unmatched");
+    }
+  });
+
+  return { status, expected, variance };
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Import a statement CSV and auto-match the new deposits.
+ * Rows already imported (same date, amount, description and reference) are skipped.
+ */
+export async function importStatement(input: { content: string; fileName?: string | null; importedBy?: string | null }) {
+  const parsed = parseRemittanceStatement(input.content);
+  if (!parsed.success) {
+    return {
+      success: false as const,
+      error: parsed.errors[0]?.message || "No deposits found in file",
+      parseErrors: parsed.errors.slice(0, 20),
+    };
+  }
+
+  // Identical rows in one file are separate deposits - number them so they don't collide
+  const seen = new Map<string, number>();
+  const rows = parsed.entries.map((entry) => {
+    const key = fingerprintFor(entry, 0);
+    const occurrence = seen.get(key) || 0;
+    seen.set(key, occurrence + 1);
+    return { entry, fingerprint: fingerprintFor(entry, occurrence) };
+  });
+
+  const existing = await prisma.remittanceDeposit.findMany({
+    where: { fingerprint: { in: rows.map((r) => r.fingerprint) } },
+    select: { fingerprint: true },
+  });
+  const existingSet = new Set(existing.map((e) => e.fingerprint));
+  const fresh = rows.filter((r) => !existingSet.has(r.fingerprint));
+
+  const statement = await prisma.remittanceStatement.create({
+    data: {
+      fileName: input.fileName || null,
+      rowCount: parsed.stats.total,
+      depositCount: fresh.length,
+      importedBy: input.importedBy || null,
+    },
+  });
+
+  if (fresh.length > 0) {
+    await prisma.remittanceDeposit.createMany({
+      data: fresh.map(({ entry, fingerprint }) => ({
+        statementId: statement.id,
+        rowNumber: entry.line,
+        depositDate: entry.date,
+        amount: entry.amount,
+        description: entry.description,
+        reference: entry.reference,
+        fingerprint,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  console.log(
+    `[PayoutRecon] Imported ${fresh.length} deposits from ${input.fileName || "statement"} (${rows.length - fresh.length} already imported)`
+  );
+
+  const autoMatch = await autoMatchDeposits();
+
+  return {
+    success: true as const,
+    statementId: statement.id,
+    deposits: fresh.length,
+    duplicates: rows.length - fresh.length,
+    skipped: parsed.stats.skipped,
+    parseErrors: parsed.errors.slice(0, 20),
+    autoMatch,
+  };
+}
+
+// =============================================================================
+// Auto-Matching
+// =============================================================================
+
+/**
+ * Match every unmatched deposit that has an unambiguous invoice match
+ */
+export async function autoMatchDeposits(): Promise<AutoMatchResult> {
+  try {
+    const { windowDays, overdueDays } = await getSettings();
+
+    const deposits = await prisma.remittanceDeposit.findMany({
+      where: { status: "UNMATCHED" },
+      orderBy: [{ depositDate: "asc" }, { rowNumber: "asc" }],
+    });
+    if (deposits.length === 0) {
+      return { success: true, checked: 0, matched: 0, shortPaid: 0, overPaid: 0 };
+    }
+
+    const earliest = new Date(deposits[0].depositDate.getTime() - (overdueDays + windowDays) * DAY_MS);
+    const rows = await prisma.invoice.findMany({
+      where: {
+        isCancelled: false,
+        depositId: null,
+        OR: [
+          { remittanceDate: { gte: earliest } },
+          { remittanceDate: null, invoiceDate: { gte: earliest } },
+        ],
+      },
+      select: { id: true, invoiceNumber: true, totalAmount: true, invoiceDate: true, remittanceDate: true },
+      orderBy: { invoiceNumber: "asc" },
+    });
+    const candidates: CandidateInvoice[] = rows.map((r) => ({ ...r, totalAmount: Number(r.totalAmount) }));
+    const used = new Set<string>();
+
+    let matched = 0;
+    let shortPaid = 0;
+    let overPaid = 0;
+
+    for (const deposit of deposits) {
+      const amount = Number(deposit.amount);
+      const open = candidates.filter((c) => !used.has(c.id));
+      let match: { invoices: CandidateInvoice[]; type: MatchType } | null = null;
+
+      // 1. Invoice numbers in the reference - no date window needed, but the
+      // deposit can't be more than they paid out (a short payment is flagged)
+      const numbers = referencedNumbers(deposit.reference, deposit.description);
+      if (numbers.length > 0) {
+        let referenced = open.filter((c) => numbers.includes(c.invoiceNumber));
+        if (referenced.length < numbers.length) {
+          // Older invoices outside the candidate range
+          const extra = await prisma.invoice.findMany({
+            where: { invoiceNumber: { in: numbers }, isCancelled: false, depositId: null },
+            select: { id: true, invoiceNumber: true, totalAmount: true, invoiceDate: true, remittanceDate: true },
+          });
+          referenced = extra
+            .filter((e) => !used.has(e.id))
+            .map((e) => ({ ...e, totalAmount: Number(e.totalAmount) }));
+        }
+        const referencedTotal = referenced.reduce((sum, c) => sum + c.totalAmount, 0);
+        if (referenced.length > 0 && amount <= referencedTotal + AMOUNT_TOLERANCE) {
+          match = { invoices: referenced, type: "REFERENCE" };
+        }
+      }
+
+      const eligible = open.filter((c) => inWindow(c, deposit.depositDate, windowDays, overdueDays));
+
+      // 2. Single invoice with the same payout, closest expected date first
+      if (!match) {
+        const exact = eligible
+          .filter((c) => Math.abs(c.totalAmount - amount) <= AMOUNT_TOLERANCE)
+          .sort((a, b) => {
+            const da = Math.abs((a.remittanceDate || a.invoiceDate || deposit.depositDate).getTime() - deposit.depositDate.getTime());
+            const db = Math.abs((b.remittanceDate || b.invoiceDate || deposit.depositDate).getTime() - deposit.depositDate.getTime());
+            return da - db || a.invoiceNumber - b.invoiceNumber;
+          });
+        if (exact.length > 0) match = { invoices: [exact[0]], type: "AMOUNT" };
+      }
+
+      // 3. Everything remitted on one day, paid out as one deposit
+      if (!match) {
+        const byDay = new Map<string, CandidateInvoice[]>();
+        for (const c of eligible) {
+          if (!c.remittanceDate) continue;
+          const key = dayKey(c.remittanceDate);
+          byDay.set(key, [...(byDay.get(key) || []), c]);
+        }
+        for (const group of byDay.values()) {
+          if (group.length < 2) continue;
+          const total = group.reduce((sum, c) => sum + c.totalAmount, 0);
+          if (Math.abs(total - amount) <= AMOUNT_TOLERANCE) {
+            match = { invoices: group, type: "BATCH" };
+            break;
+          }
+        }
+      }
+
+      if (!match) continue;
+
+      try {
+        const result = await applyMatch(deposit.id, amount, match.invoices, match.type);
+        match.invoices.forEach((i) => used.add(i.id));
+        matched++;
+        if (result.status === "SHORT_PAID") shortPaid++;
+        if (result.status === "OVER_PAID") overPaid++;
+      } catch (error) {
+        console.warn(`[PayoutRecon] Could not match deposit ${deposit.id}:`, error);
+      }
+    }
+
+    if (matched > 0) {
+      console.log(`[PayoutRecon] Auto-matched ${matched}/${deposits.length} deposits (${shortPaid} short, ${overPaid} over)`);
+    }
+
+    return { success: true, checked: deposits.length, matched, shortPaid, overPaid };
+  } catch (error) {
+    console.error("[PayoutRecon] Auto-match error:", error);
+    return {
+      success: false,
+      checked: 0,
+      matched: 0,
+      shortPaid: 0,
+      overPaid: 0,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// =============================================================================
+// Manual Resolution
+// =============================================================================
+
+/**
+ * Resolve a deposit by hand:
+ * - match:  attach invoices (deposit must be unmatched)
+ * - reset:  detach invoices and go back to UNMATCHED
+ * - ignore: not a TicketVault payout (unmatched deposits only)
+ * - accept: accept a short payment or overpayment
+ */
+export async function resolveDeposit(
+  depositId: string,
+  action: DepositAction,
+  options: { invoiceNumbers?: number[]; notes?: string | null; resolvedBy: string | null }
+) {
+  const deposit = await prisma.remittanceDeposit.findUnique({ where: { id: depositId } });
+  if (!deposit) {
+    return { success: false as const, error: "Deposit not found", status: 404 };
+  }
+
+  const notes = options.notes?.trim() || null;
+
+  switch (action) {
+    case "match": {
+      if (deposit.status !== "UNMATCHED") {
+        return { success: false as const, error: "Reset the deposit before matching it again", status: 409 };
+      }
+      const numbers = [...new Set(options.invoiceNumbers || [])];
+      if (numbers.length === 0) {
+        return { success: false as const, error: "invoiceNumbers is required", status: 400 };
+      }
+      const invoices = await prisma.invoice.findMany({
+        where: { invoiceNumber: { in: numbers } },
+        select: { id: true, invoiceNumber: true, totalAmount: true, depositId: true, isCancelled: true },
+      });
+      const missing = numbers.filter((n) => !invoices.some((i) => i.invoiceNumber === n));
+      if (missing.length > 0) {
+        return { success: false as const, error: `Invoice(s) not found: ${missing.join(", ")}`, status: 404 };
+      }
+      const taken = invoices.filter((i) => i.depositId || i.isCancelled);
+      if (taken.length > 0) {
+        return {
+          success: false as const,
+          error: `Invoice(s) already reconciled or cancelled: ${taken.map((i) => i.invoiceNumber).join(", ")}`,
+          status: 409,
+        };
+      }
+
+      try {
+        const result = await applyMatch(
+          deposit.id,
+          Number(deposit.amount),
+          invoices.map((i) => ({ id: i.id, totalAmount: Number(i.totalAmount) })),
+          "MANUAL",
+          { resolvedBy: options.resolvedBy, notes }
+        );
+        return { success: true as const, ...result };
+      } catch (error) {
+        return { success: false as const, error: error instanceof Error ? error.message : String(error), status: 409 };
+      }
+    }
+
+    case "reset": {
+      await prisma.$transaction([
+        prisma.invoice.updateMany({
+          where: { depositId: deposit.id },
+          data: { depositId: null, reconciledAt: null },
+        }),
+        prisma.remittanceDeposit.update({
+          where: { id: deposit.id },
+          data: {
+            status: "UNMATCHED",
+            matchType: null,
+            expectedAmount: null,
+            variance: null,
+            resolvedBy: options.resolvedBy,
+            resolvedAt: new Date(),
+            notes: notes ?? deposit.notes,
+          },
+        }),
+      ]);
+      return { success: true as const, status: "UNMATCHED" as DepositStatus };
+    }
+
+    case "ignore":
+    case "accept": {
+      const from: DepositStatus[] = action === "ignore" ? ["UNMATCHED"] : VARIANCE_STATUSES;
+      const to: DepositStatus = action === "ignore" ? "IGNORED" : "ACCEPTED";
+      const updated = await prisma.remittanceDeposit.updateMany({
+        where: { id: deposit.id, status: { in: from } },
+        data: { status: to, resolvedBy: options.resolvedBy, resolvedAt: new Date(), notes: notes ?? deposit.notes },
+      });
+      if (updated.count === 0) {
+        return { success: false as const, error: `Only ${from.join("/")} deposits can be ${to.toLowerCase()}`, status: 409 };
+      }
+      return { success: true as const, status: to };
+    }
+  }
+}
+
+/**
+ * Unreconciled invoices that could belong to a deposit, closest amount first
+ */
+export async function getDepositCandidates(depositId: string, search?: string | null) {
+  const deposit = await prisma.remittanceDeposit.findUnique({ where: { id: depositId } });
+  if (!deposit) return null;
+
+  const amount = Number(deposit.amount);
+  const from = new Date(deposit.depositDate.getTime() - CANDIDATE_SEARCH_DAYS * DAY_MS);
+  const to = new Date(deposit.depositDate.getTime() + DAY_MS);
+  const searchNumber = search ? parseInt(search, 10) : NaN;
+
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      isCancelled: false,
+      depositId: null,
+      ...(!isNaN(searchNumber)
+        ? { invoiceNumber: searchNumber }
+        : search
+          ? {
+              OR: [
+                { eventName: { contains: search, mode: "insensitive" } },
+                { clientName: { contains: search, mode: "insensitive" } },
+              ],
+            }
+          : {
+              OR: [
+                { remittanceDate: { gte: from, lt: to } },
+                { remittanceDate: null, invoiceDate: { gte: from, lt: to } },
+              ],
+            }),
+    },
+    select: {
+      id: true,
+      invoiceNumber: true,
+      eventName: true,
+      clientName: true,
+      totalAmount: true,
+      invoiceDate: true,
+      remittanceDate: true,
+      isPaid: true,
+    },
+    take: 500,
+  });
+
+  return invoices
+    .map((i) => ({ ...i, totalAmount: Number(i.totalAmount), difference: round2(amount - Number(i.totalAmount)) }))
+    .sort((a, b) => Math.abs(a.difference) - Math.abs(b.difference) || a.invoiceNumber - b.invoiceNumber)
+    .slice(0, 50);
+}
+
+// =============================================================================
+// Workspace
+// =============================================================================
+
+function serializeDeposit(deposit: Prisma.RemittanceDepositGetPayload<{ include: typeof depositInclude }>) {
+  return {
+    ...deposit,
+    amount: Number(deposit.amount),
+    expectedAmount: deposit.expectedAmount !== null ? Number(deposit.expectedAmount) : null,
+    variance: deposit.variance !== null ? Number(deposit.variance) : null,
+    invoices: deposit.invoices.map((i) => ({ ...i, totalAmount: Number(i.totalAmount) })),
+  };
+}
+
+/**
+ * Everything the reconciliation page needs: exceptions first
+ */
+export async function getPayoutWorkspace() {
+  const { windowDays, overdueDays } = await getSettings();
+  const now = Date.now();
+
+  const invoiceSelect = {
+    id: true,
+    invoiceNumber: true,
+    eventName: true,
+    clientName: true,
+    totalAmount: true,
+    invoiceDate: true,
+    remittanceDate: true,
+    payoutStatus: true,
+    isPaid: true,
+  } as const;
+
+  // Missing deposits only make sense for dates our statements cover
+  const coverage = await prisma.remittanceDeposit.aggregate({
+    _min: { depositDate: true },
+    _max: { depositDate: true },
+  });
+
+  const [statusCounts, exceptions, resolved, overdueInvoices, missingDeposits, statements] = await Promise.all([
+    prisma.remittanceDeposit.groupBy({
+      by: ["status"],
+      _count: true,
+      _sum: { amount: true },
+    }),
+    prisma.remittanceDeposit.findMany({
+      where: { status: { in: ["UNMATCHED", ...VARIANCE_STATUSES] } },
+      include: depositInclude,
+      orderBy: { depositDate: "desc" },
+      take: 500,
+    }),
+    prisma.remittanceDeposit.findMany({
+      where: { status: { in: ["MATCHED", "ACCEPTED", "IGNORED"] } },
+      include: depositInclude,
+      orderBy: { depositDate: "desc" },
+      take: 100,
+    }),
+    prisma.invoice.findMany({
+      where: {
+        isCancelled: false,
+        isPaid: false,
+        depositId: null,
+        invoiceDate: { lt: new Date(now - overdueDays * DAY_MS) },
+      },
+      select: invoiceSelect,
+      orderBy: { invoiceDate: "asc" },
+      take: 500,
+    }),
+    coverage._min.depositDate && coverage._max.depositDate
+      ? prisma.invoice.findMany({
+          where: {
+            isCancelled: false,
+            isPaid: true,
+            depositId: null,
+            remittanceDate: {
+              gte: new Date(coverage._min.depositDate.getTime() - windowDays * DAY_MS),
+              lt: new Date(Math.min(now, coverage._max.depositDate.getTime()) - windowDays * DAY_MS),
+            },
+          },
+          select: invoiceSelect,
+          orderBy: { remittanceDate: "asc" },
+          take: 500,
+        })
+      : Promise.resolve([]),
+    prisma.remittanceStatement.findMany({
+      orderBy: { createdAt: "desc" },
+      take: 10,
+    }),
+  ]);
+
+  const byStatus = Object.fromEntries(
+    DEPOSIT_STATUSES.map((status) => {
+      const row = statusCounts.find((s) => s.status === status);
+      return [status, { count: row?._count || 0, amount: Number(row?._sum.amount || 0) }];
+    })
+  ) as Record<DepositStatus, { count: number; amount: number }>;
+
+  const serializeInvoice = (i: (typeof overdueInvoices)[number]) => ({ ...i, totalAmount: Number(i.totalAmount) });
+
+  return {
+    settings: { windowDays, overdueDays },
+    coverage: { from: coverage._min.depositDate, to: coverage._max.depositDate },
+    summary: {
+      byStatus,
+      overdueInvoices: overdueInvoices.length,
+      overdueAmount: round2(overdueInvoices.reduce((sum, i) => sum + Number(i.totalAmount), 0)),
+      missingDeposits: missingDeposits.length,
+      missingAmount: round2(missingDeposits.reduce((sum, i) => sum + Number(i.totalAmount), 0)),
+      shortfall: round2(
+        exceptions
+          .filter((d) => d.status === "SHORT_PAID")
+          .reduce((sum, d) => sum + Number(d.variance || 0), 0)
+      ),
+      overpayment: round2(
+        exceptions
+          .filter((d) => d.status === "OVER_PAID")
+          .reduce((sum, d) => sum + Number(d.variance || 0), 0)
+      ),
+    },
+    exceptions: exceptions.map(serializeDeposit),
+    resolved: resolved.map(serializeDeposit),
+    overdueInvoices: overdueInvoices.map(serializeInvoice),
+    missingDeposits: missingDeposits.map(serializeInvoice),
+    statements,
+  };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const PayoutReconciliation = {
+  importStatement,
+  autoMatch: autoMatchDeposits,
+  resolve: resolveDeposit,
+  getCandidates: getDepositCandidates,
+  getWorkspace: getPayoutWorkspace,
+};
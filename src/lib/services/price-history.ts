@@ -0,0 +1,274 @@
+/**
+ * Price History
+ *
+ * Append-only get-in / zone / section price observations. The latest-price
+ * tables (event_zone_prices, event_source_zone_prices) are overwritten on
+ * every scrape; this keeps the trail so we can see how floors moved toward
+ * show date.
+ *
+ * DOWNSAMPLING (compactPriceHistory, run by the sync scheduler):
+ * - raw rows older than RAW_KEEP_HOURS are rolled up into hourly buckets
+ * - hourly rows older than HOURLY_KEEP_DAYS are rolled up into daily buckets
+ * - anything older than the retention setting is deleted
+ * Buckets keep the lowest price seen (we chart floors) and the sample count.
+ */
+
+import prisma from "@/lib/db";
+import type { ZonePrice } from "./vivid-seats-scraper";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PriceObservationKind = "get_in" | "zone" | "section";
+
+export type PriceObservationResolution = "raw" | "hourly" | "daily";
+
+export interface PriceSnapshot {
+  getInPrice?: number | null;
+  zonePrices?: ZonePrice[];
+}
+
+export interface PriceHistoryPoint {
+  observedAt: Date;
+  price: number;
+}
+
+export interface PriceHistorySeries {
+  kind: PriceObservationKind;
+  source: string;
+  zoneName: string | null;
+  sectionName: string | null;
+  points: PriceHistoryPoint[];
+}
+
+export interface PriceHistoryResult {
+  eventId: string;
+  eventDate: Date | null;
+  series: PriceHistorySeries[];
+}
+
+export interface CompactionResult {
+  success: boolean;
+  hourlyBuckets: number;
+  dailyBuckets: number;
+  deleted: number;
+  error?: string;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+export const PRICE_HISTORY_SETTINGS = {
+  RETENTION_DAYS: "price_history_retention_days",
+} as const;
+
+const DEFAULT_RETENTION_DAYS = 365;
+const RAW_KEEP_HOURS = 48;
+const HOURLY_KEEP_DAYS = 30;
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Record one scrape. Never throws - history is secondary to the latest-price
+ * write that triggered it.
+ */
+export async function recordPriceObservations(
+  eventId: string,
+  snapshot: PriceSnapshot,
+  source: string = "vividseats"
+): Promise<number> {
+  const observedAt = new Date();
+  const rows: Array<{
+    eventId: string;
+    source: string;
+    kind: PriceObservationKind;
+    zoneName: string | null;
+    sectionName: string | null;
+    price: number;
+    observedAt: Date;
+  }> = [];
+
+  if (snapshot.getInPrice) {
+    rows.push({ eventId, source, kind: "get_in", zoneName: null, sectionName: null, price: snapshot.getInPrice, observedAt });
+  }
+
+  for (const zp of snapshot.zonePrices || []) {
+    rows.push({ eventId, source, kind: "zone", zoneName: zp.zoneName, sectionName: null, price: zp.minPrice, observedAt });
+
+    for (const sp of zp.sectionPrices || []) {
+      if (!sp.minPrice) continue;
+      rows.push({ eventId, source, kind: "section", zoneName: zp.zoneName, sectionName: sp.sectionName, price: sp.minPrice, observedAt });
+    }
+  }
+
+  if (rows.length === 0) return 0;
+
+  try {
+    const result = await prisma.priceObservation.createMany({ data: rows });
+    return result.count;
+  } catch (error) {
+    console.error(`[PriceHistory] Failed to record observations for ${eventId}:`, error);
+    return 0;
+  }
+}
+
+// =============================================================================
+// Downsampling & Retention
+// =============================================================================
+
+/**
+ * Move rows of one resolution older than `cutoff` into buckets of the next.
+ * Delete + insert run as one statement so a crash can't lose or double rows.
+ */
+async function rollUp(
+  from: PriceObservationResolution,
+  to: PriceObservationResolution,
+  bucket: "hour" | "day",
+  cutoff: Date
+): Promise<number> {
+  return prisma.$executeRaw`
+    WITH moved AS (
+      DELETE FROM price_observations
+      WHERE resolution = ${from} AND observed_at < ${cutoff}
+      RETURNING event_id, source, kind, zone_name, section_name, price, sample_count, observed_at
+    )
+    INSERT INTO price_observations (id, event_id, source, kind, zone_name, section_name, price, sample_count, resolution, observed_at)
+    SELECT
+      gen_random_uuid()::text,
+      event_id, source, kind, zone_name, section_name,
+      MIN(price),
+      SUM(sample_count)::int,
+      ${to},
+      bucket_start
+    FROM (
+      SELECT *, date_trunc(${bucket}, observed_at) AS bucket_start FROM moved
+    ) bucketed
+    GROUP BY event_id, source, kind, zone_name, section_name, bucket_start
+  `;
+}
+
+function truncateTo(date: Date, unit: "hour" | "day"): Date {
+  const truncated = new Date(date);
+  truncated.setUTCMinutes(0, 0, 0);
+  if (unit === "day") truncated.setUTCHours(0);
+  return truncated;
+}
+
+async function getRetentionDays(): Promise<number> {
+  const setting = await prisma.setting.findUnique({
+    where: { key: PRICE_HISTORY_SETTINGS.RETENTION_DAYS },
+  });
+  return parseInt(setting?.value || "", 10) || DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Downsample and prune price history.
+ * Cutoffs are aligned to bucket boundaries so only complete buckets are rolled
+ * up - a bucket is never written twice.
+ */
+export async function compactPriceHistory(): Promise<CompactionResult> {
+  try {
+    const now = Date.now();
+    const retentionDays = await getRetentionDays();
+
+    const hourlyBuckets = await rollUp(
+      "raw",
+      "hourly",
+      "hour",
+      truncateTo(new Date(now - RAW_KEEP_HOURS * 60 * 60 * 1000), "hour")
+    );
+    const dailyBuckets = await rollUp(
+      "hourly",
+      "daily",
+      "day",
+      truncateTo(new Date(now - HOURLY_KEEP_DAYS * 24 * 60 * 60 * 1000), "day")
+    );
+
+    const { count: deleted } = await prisma.priceObservation.deleteMany({
+      where: { observedAt: { lt: new Date(now - retentionDays * 24 * 60 * 60 * 1000) } },
+    });
+
+    console.log(
+      `[PriceHistory] Compacted: ${hourlyBuckets} hourly buckets, ${dailyBuckets} daily buckets, ${deleted} expired`
+    );
+
+    return { success: true, hourlyBuckets, dailyBuckets, deleted };
+  } catch (error) {
+    console.error("[PriceHistory] Compaction error:", error);
+    return {
+      success: false,
+      hourlyBuckets: 0,
+      dailyBuckets: 0,
+      deleted: 0,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Price series for an event, oldest first.
+ * Section series are large, so they're only returned for one zone at a time.
+ */
+export async function getPriceHistory(
+  eventId: string,
+  options: { source?: string; sectionsForZone?: string } = {}
+): Promise<PriceHistoryResult | null> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, eventDate: true },
+  });
+  if (!event) return null;
+
+  const observations = await prisma.priceObservation.findMany({
+    where: {
+      eventId,
+      ...(options.source && { source: options.source }),
+      OR: [
+        { kind: { in: ["get_in", "zone"] } },
+        ...(options.sectionsForZone ? [{ kind: "section", zoneName: options.sectionsForZone }] : []),
+      ],
+    },
+    orderBy: { observedAt: "asc" },
+  });
+
+  const seriesMap = new Map<string, PriceHistorySeries>();
+  for (const obs of observations) {
+    const key = [obs.kind, obs.source, obs.zoneName, obs.sectionName].join("|");
+    let series = seriesMap.get(key);
+    if (!series) {
+      series = {
+        kind: obs.kind as PriceObservationKind,
+        source: obs.source,
+        zoneName: obs.zoneName,
+        sectionName: obs.sectionName,
+        points: [],
+      };
+      seriesMap.set(key, series);
+    }
+    series.points.push({ observedAt: obs.observedAt, price: Number(obs.price) });
+  }
+
+  return {
+    eventId,
+    eventDate: event.eventDate,
+    series: [...seriesMap.values()],
+  };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const PriceHistory = {
+  record: recordPriceObservations,
+  compact: compactPriceHistory,
+  getHistory: getPriceHistory,
+};
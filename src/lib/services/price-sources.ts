@@ -0,0 +1,563 @@
+/**
+ * Price Sources
+ *
+ * Pluggable get-in price sources for secondary marketplaces. Vivid Seats is
+ * scraped live (vivid-seats-scraper.ts); StubHub, SeatGeek and TickPick are
+ * parsed from saved HTML/JSON fixtures, either pasted into the UI or dropped
+ * into PRICE_SOURCE_FIXTURES_DIR/<source>/<tmEventId>.(json|html).
+ *
+ * Every source reports zone minimums using the Vivid Seats zone names
+ * (section-mapper.ts) so markets can be compared zone by zone. Results are
+ * stored per source in event_source_zone_prices, next to event_zone_prices.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import prisma from "@/lib/db";
+import {
+  getGetInPrice as getVividSeatsPrice,
+  getGetInPriceFromUrl as getVividSeatsPriceFromUrl,
+  VividSeatsPrice,
+  ZonePrice,
+} from "./vivid-seats-scraper";
+import { mapSectionToZone } from "@/lib/utils/section-mapper";
+import { recordPriceObservations } from "./price-history";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const PRICE_SOURCE_IDS = ["vividseats", "stubhub", "seatgeek", "tickpick"] as const;
+
+export type PriceSourceId = typeof PRICE_SOURCE_IDS[number];
+
+export interface PriceSourceEvent {
+  id: string;
+  tmEventId: string;
+  artistName: string | null;
+  venue: string | null;
+  eventDateRaw: string | null;
+  getInPriceUrl: string | null;
+}
+
+export interface PriceSourceResult {
+  source: PriceSourceId;
+  getInPrice: number | null;
+  zonePrices: ZonePrice[];
+  listingCount: number | null; // Null when the source doesn't expose listings
+  zoneListingCounts?: Record<string, number>;
+  url: string | null;
+  scrapedAt: string;
+  error?: string;
+}
+
+export interface PriceSource {
+  id: PriceSourceId;
+  label: string;
+  // True when prices come from saved fixtures rather than a live scrape
+  usesFixtures: boolean;
+  getGetInPrice(event: PriceSourceEvent, options?: { forceRefresh?: boolean }): Promise<PriceSourceResult>;
+  // Fixture sources only - parse pasted HTML/JSON content
+  parse?(content: string, url?: string | null): PriceSourceResult;
+}
+
+export interface SourceZonePrice {
+  source: PriceSourceId;
+  minPrice: number;
+  listingCount: number | null;
+  url: string | null;
+  scrapedAt: Date;
+}
+
+export interface ZoneComparison {
+  zoneName: string;
+  prices: SourceZonePrice[]; // Cheapest first
+  cheapest: SourceZonePrice;
+  spread: number;            // Most expensive minus cheapest market
+  spreadPercent: number;     // Spread as % of the cheapest price
+}
+
+export interface EventPriceComparison {
+  eventId: string;
+  sources: Array<{ source: PriceSourceId; label: string; getInPrice: number; zoneCount: number; scrapedAt: Date }>;
+  zones: ZoneComparison[];
+}
+
+export interface MarketSummary {
+  sourceCount: number;
+  cheapestSource: PriceSourceId;
+  cheapestPrice: number;
+  maxSpreadPercent: number; // Widest per-zone spread, 0 with a single source
+}
+
+interface RawListing {
+  section: string;
+  price: number;
+}
+
+// Field names each marketplace uses for section and all-in price in its
+// listing payloads, most specific first
+interface ListingFieldMap {
+  section: string[];
+  price: string[];
+}
+
+const FIXTURES_DIR = process.env.PRICE_SOURCE_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "price-sources");
+
+// Fixture file names are event IDs - anything else (slashes, dots) could
+// point outside FIXTURES_DIR
+const FIXTURE_KEY_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// =============================================================================
+// Fixture Parsing
+// =============================================================================
+
+/**
+ * Pull every JSON document out of fixture content - either the whole file is
+ * JSON, or it's a saved HTML page with state embedded in <script> tags
+ * (__NEXT_DATA__, application/json, window.__INITIAL_STATE__ = {...}).
+ */
+function extractJsonPayloads(content: string): unknown[] {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      return [JSON.parse(trimmed)];
+    } catch {
+      // Fall through to HTML extraction
+    }
+  }
+
+  const payloads: unknown[] = [];
+  const scriptPattern = /<script\b[^>]*>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = scriptPattern.exec(content)) !== null) {
+    const body = match[1].trim();
+    if (!body) continue;
+
+    const candidates = [body];
+    const assignment = body.match(/^(?:window\.)?[\w$.]+\s*=\s*([\s\S]+?);?\s*$/);
+    if (assignment) candidates.push(assignment[1]);
+
+    for (const candidate of candidates) {
+      if (!candidate.startsWith("{") && !candidate.startsWith("[")) continue;
+      try {
+        payloads.push(JSON.parse(candidate));
+        break;
+      } catch {
+        // Not JSON - ignore
+      }
+    }
+  }
+
+  return payloads;
+}
+
+function readField(obj: Record<string, unknown>, names: string[]): unknown {
+  for (const name of names) {
+    if (obj[name] !== undefined && obj[name] !== null) return obj[name];
+  }
+  return undefined;
+}
+
+function toPrice(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") {
+    const parsed = parseFloat(value.replace(/[^0-9.]/g, ""));
+    return isNaN(parsed) ? null : parsed;
+  }
+  // Money objects, e.g. { amount: 123.45, currency: "USD" }
+  if (value && typeof value === "object") {
+    const money = value as Record<string, unknown>;
+    return toPrice(money.amount ?? money.value);
+  }
+  return null;
+}
+
+/**
+ * Walk a payload and collect anything that looks like a listing
+ * (an object with both a section and a price field).
+ */
+function collectListings(payload: unknown, fields: ListingFieldMap, out: RawListing[] = [], depth = 0): RawListing[] {
+  if (depth > 12 || !payload || typeof payload !== "object") return out;
+
+  if (Array.isArray(payload)) {
+    for (const item of payload) collectListings(item, fields, out, depth + 1);
+    return out;
+  }
+
+  const obj = payload as Record<string, unknown>;
+  const section = readField(obj, fields.section);
+  const price = toPrice(readField(obj, fields.price));
+
+  if ((typeof section === "string" || typeof section === "number") && price !== null && price > 0) {
+    out.push({ section: String(section), price });
+    return out;
+  }
+
+  for (const value of Object.values(obj)) {
+    collectListings(value, fields, out, depth + 1);
+  }
+  return out;
+}
+
+/**
+ * Group listings into zone minimums (with per-section minimums)
+ */
+function summarizeListings(listings: RawListing[]): { zonePrices: ZonePrice[]; getInPrice: number | null; counts: Record<string, number> } {
+  const zones = new Map<string, { minPrice: number; sections: Map<string, number> }>();
+  const counts: Record<string, number> = {};
+
+  for (const listing of listings) {
+    const zoneName = mapSectionToZone(listing.section);
+    if (!zoneName) continue;
+
+    const zone = zones.get(zoneName) || { minPrice: Infinity, sections: new Map<string, number>() };
+    zone.minPrice = Math.min(zone.minPrice, listing.price);
+    zone.sections.set(listing.section, Math.min(zone.sections.get(listing.section) ?? Infinity, listing.price));
+    zones.set(zoneName, zone);
+    counts[zoneName] = (counts[zoneName] || 0) + 1;
+  }
+
+  const zonePrices: ZonePrice[] = [...zones.entries()]
+    .map(([zoneName, zone]) => ({
+      zoneName,
+      minPrice: Math.round(zone.minPrice * 100) / 100,
+      sections: [...zone.sections.keys()],
+      sectionPrices: [...zone.sections.entries()].map(([sectionName, minPrice]) => ({ sectionName, minPrice })),
+    }))
+    .sort((a, b) => a.minPrice - b.minPrice);
+
+  // Get-in is the cheapest listing overall, even if its section didn't map to a zone
+  const getInPrice = listings.length > 0 ? Math.min(...listings.map(l => l.price)) : null;
+
+  return { zonePrices, getInPrice, counts };
+}
+
+// =============================================================================
+// Sources
+// =============================================================================
+
+function emptyResult(source: PriceSourceId, url: string | null, error: string): PriceSourceResult {
+  return {
+    source,
+    getInPrice: null,
+    zonePrices: [],
+    listingCount: null,
+    url,
+    scrapedAt: new Date().toISOString(),
+    error,
+  };
+}
+
+/**
+ * Build a source that parses saved marketplace pages/API responses
+ */
+function createFixtureSource(id: PriceSourceId, label: string, fields: ListingFieldMap): PriceSource {
+  const parse = (content: string, url: string | null = null): PriceSourceResult => {
+    const payloads = extractJsonPayloads(content);
+    if (payloads.length === 0) {
+      return emptyResult(id, url, "No JSON found in fixture");
+    }
+
+    const listings = payloads.flatMap(p => collectListings(p, fields));
+    if (listings.length === 0) {
+      return emptyResult(id, url, "No listings found in fixture");
+    }
+
+    const { zonePrices, getInPrice, counts } = summarizeListings(listings);
+    return {
+      source: id,
+      getInPrice,
+      zonePrices,
+      listingCount: listings.length,
+      zoneListingCounts: counts,
+      url,
+      scrapedAt: new Date().toISOString(),
+    };
+  };
+
+  return {
+    id,
+    label,
+    usesFixtures: true,
+    parse,
+    async getGetInPrice(event) {
+      for (const ext of ["json", "html"]) {
+        for (const key of [event.tmEventId, event.id]) {
+          if (!key || !FIXTURE_KEY_PATTERN.test(key)) continue;
+          const filePath = path.join(FIXTURES_DIR, id, `${key}.${ext}`);
+          try {
+            const content = await fs.readFile(filePath, "utf-8");
+            console.log(`[PriceSources] Parsing ${label} fixture ${filePath}`);
+            return parse(content);
+          } catch {
+            // Try the next candidate
+          }
+        }
+      }
+      return emptyResult(id, null, `No saved ${label} fixture for ${event.tmEventId}`);
+    },
+  };
+}
+
+function fromVividSeats(price: VividSeatsPrice): PriceSourceResult {
+  return {
+    source: "vividseats",
+    getInPrice: price.getInPrice,
+    zonePrices: price.zonePrices,
+    listingCount: null,
+    url: price.url,
+    scrapedAt: price.scrapedAt,
+    error: price.error,
+  };
+}
+
+const vividSeatsSource: PriceSource = {
+  id: "vividseats",
+  label: "Vivid Seats",
+  usesFixtures: false,
+  async getGetInPrice(event, options = {}) {
+    // Saved URL skips the search step
+    if (event.getInPriceUrl && event.getInPriceUrl.includes("vividseats.com")) {
+      return fromVividSeats(await getVividSeatsPriceFromUrl(event.getInPriceUrl, options.forceRefresh === true));
+    }
+    if (!event.artistName) {
+      return emptyResult("vividseats", null, "Missing artist name for price lookup");
+    }
+    return fromVividSeats(await getVividSeatsPrice({
+      artistName: event.artistName,
+      venue: event.venue || undefined,
+      date: event.eventDateRaw || undefined,
+    }));
+  },
+};
+
+const PRICE_SOURCES: Record<PriceSourceId, PriceSource> = {
+  vividseats: vividSeatsSource,
+  // StubHub listing JSON: { items: [{ sectionName, rawPrice | price: { amount } }] }
+  stubhub: createFixtureSource("stubhub", "StubHub", {
+    section: ["sectionName", "section"],
+    price: ["rawPrice", "priceWithFees", "price"],
+  }),
+  // SeatGeek listing JSON uses short keys: { listings: [{ s: section, dp: display price }] }
+  seatgeek: createFixtureSource("seatgeek", "SeatGeek", {
+    section: ["s", "section"],
+    price: ["dp", "p", "price"],
+  }),
+  // TickPick listing JSON: { listings: [{ sid: section, p: all-in price }] }
+  tickpick: createFixtureSource("tickpick", "TickPick", {
+    section: ["sid", "section", "sectionName"],
+    price: ["p", "price"],
+  }),
+};
+
+export function isPriceSourceId(value: string): value is PriceSourceId {
+  return (PRICE_SOURCE_IDS as readonly string[]).includes(value);
+}
+
+export function getPriceSource(id: PriceSourceId): PriceSource {
+  return PRICE_SOURCES[id];
+}
+
+export function listPriceSources(): PriceSource[] {
+  return PRICE_SOURCE_IDS.map(id => PRICE_SOURCES[id]);
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+/**
+ * Replace a source's zone minimums for an event. Zones the source no longer
+ * has listings in are removed so they don't skew the comparison.
+ */
+export async function saveSourceZonePrices(
+  eventId: string,
+  source: PriceSourceId,
+  zonePrices: ZonePrice[],
+  meta: { url?: string | null; listingCounts?: Record<string, number> } = {}
+): Promise<void> {
+  const scrapedAt = new Date();
+
+  await prisma.$transaction([
+    prisma.eventSourceZonePrice.deleteMany({
+      where: {
+        eventId,
+        source,
+        zoneName: { notIn: zonePrices.map(zp => zp.zoneName) },
+      },
+    }),
+    ...zonePrices.map(zp => {
+      const data = {
+        minPrice: zp.minPrice,
+        listingCount: meta.listingCounts?.[zp.zoneName] ?? null,
+        url: meta.url ?? null,
+        scrapedAt,
+      };
+      return prisma.eventSourceZonePrice.upsert({
+        where: { eventId_source_zoneName: { eventId, source, zoneName: zp.zoneName } },
+        create: { eventId, source, zoneName: zp.zoneName, ...data },
+        update: data,
+      });
+    }),
+  ]);
+}
+
+/**
+ * Store a source result and append it to the price history.
+ * Failed results leave previous prices untouched.
+ */
+export async function savePriceSourceResult(eventId: string, result: PriceSourceResult): Promise<void> {
+  if (result.error || result.zonePrices.length === 0) return;
+
+  await saveSourceZonePrices(eventId, result.source, result.zonePrices, {
+    url: result.url,
+    listingCounts: result.zoneListingCounts,
+  });
+  await recordPriceObservations(eventId, result, result.source);
+}
+
+/**
+ * Fetch and store prices from the given sources (default: all).
+ * Sources run one at a time - the Vivid Seats scraper shares one browser.
+ */
+export async function syncEventPriceSources(
+  event: PriceSourceEvent,
+  sourceIds: PriceSourceId[] = [...PRICE_SOURCE_IDS],
+  options: { forceRefresh?: boolean } = {}
+): Promise<PriceSourceResult[]> {
+  const results: PriceSourceResult[] = [];
+
+  for (const id of sourceIds) {
+    const source = PRICE_SOURCES[id];
+    let result: PriceSourceResult;
+    try {
+      result = await source.getGetInPrice(event, options);
+    } catch (error) {
+      console.error(`[PriceSources] ${source.label} failed for ${event.id}:`, error);
+      result = emptyResult(id, null, error instanceof Error ? error.message : "Price fetch failed");
+    }
+
+    await savePriceSourceResult(event.id, result);
+    results.push(result);
+  }
+
+  return results;
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+function buildZoneComparisons(
+  rows: Array<{ source: string; zoneName: string; minPrice: unknown; listingCount: number | null; url: string | null; scrapedAt: Date }>
+): ZoneComparison[] {
+  const byZone = new Map<string, SourceZonePrice[]>();
+
+  for (const row of rows) {
+    if (!isPriceSourceId(row.source)) continue;
+    const prices = byZone.get(row.zoneName) || [];
+    prices.push({
+      source: row.source,
+      minPrice: Number(row.minPrice),
+      listingCount: row.listingCount,
+      url: row.url,
+      scrapedAt: row.scrapedAt,
+    });
+    byZone.set(row.zoneName, prices);
+  }
+
+  return [...byZone.entries()]
+    .map(([zoneName, prices]) => {
+      prices.sort((a, b) => a.minPrice - b.minPrice);
+      const cheapest = prices[0];
+      const spread = prices[prices.length - 1].minPrice - cheapest.minPrice;
+      return {
+        zoneName,
+        prices,
+        cheapest,
+        spread: Math.round(spread * 100) / 100,
+        spreadPercent: cheapest.minPrice > 0 ? Math.round((spread / cheapest.minPrice) * 1000) / 10 : 0,
+      };
+    })
+    .sort((a, b) => a.cheapest.minPrice - b.cheapest.minPrice);
+}
+
+/**
+ * Zone-by-zone comparison across all markets for one event
+ */
+export async function getZoneComparison(eventId: string): Promise<EventPriceComparison> {
+  const rows = await prisma.eventSourceZonePrice.findMany({
+    where: { eventId },
+    orderBy: { minPrice: "asc" },
+  });
+
+  const sources = new Map<PriceSourceId, { getInPrice: number; zoneCount: number; scrapedAt: Date }>();
+  for (const row of rows) {
+    if (!isPriceSourceId(row.source)) continue;
+    const existing = sources.get(row.source);
+    const price = Number(row.minPrice);
+    sources.set(row.source, {
+      getInPrice: existing ? Math.min(existing.getInPrice, price) : price,
+      zoneCount: (existing?.zoneCount || 0) + 1,
+      scrapedAt: existing && existing.scrapedAt > row.scrapedAt ? existing.scrapedAt : row.scrapedAt,
+    });
+  }
+
+  return {
+    eventId,
+    sources: [...sources.entries()]
+      .map(([source, data]) => ({ source, label: PRICE_SOURCES[source].label, ...data }))
+      .sort((a, b) => a.getInPrice - b.getInPrice),
+    zones: buildZoneComparisons(rows),
+  };
+}
+
+/**
+ * Cheapest market and widest zone spread per event, for list views
+ */
+export async function getMarketSummaries(eventIds: string[]): Promise<Map<string, MarketSummary>> {
+  const summaries = new Map<string, MarketSummary>();
+  if (eventIds.length === 0) return summaries;
+
+  const rows = await prisma.eventSourceZonePrice.findMany({
+    where: { eventId: { in: eventIds } },
+  });
+
+  const byEvent = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const list = byEvent.get(row.eventId) || [];
+    list.push(row);
+    byEvent.set(row.eventId, list);
+  }
+
+  for (const [eventId, eventRows] of byEvent) {
+    const zones = buildZoneComparisons(eventRows);
+    if (zones.length === 0) continue;
+
+    summaries.set(eventId, {
+      sourceCount: new Set(eventRows.map(r => r.source)).size,
+      cheapestSource: zones[0].cheapest.source,
+      cheapestPrice: zones[0].cheapest.minPrice,
+      maxSpreadPercent: Math.max(...zones.map(z => z.spreadPercent)),
+    });
+  }
+
+  return summaries;
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const PriceSources = {
+  list: listPriceSources,
+  get: getPriceSource,
+  isPriceSourceId,
+  sync: syncEventPriceSources,
+  saveResult: savePriceSourceResult,
+  saveZonePrices: saveSourceZonePrices,
+  getZoneComparison,
+  getMarketSummaries,
+};
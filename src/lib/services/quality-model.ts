@@ -0,0 +1,312 @@
+/**
+ * Account Quality Model Service
+ *
+ * Loads queue/purchase history, trains the logistic regression in
+ * lib/analytics/quality-model.ts, stores coefficients with holdout
+ * calibration metrics, and scores accounts with the active model.
+ *
+ * Training holds out the most recent 20% of observations (by test date) so
+ * the metrics reflect predicting queues that come after the training data.
+ */
+
+import prisma from "@/lib/db";
+import { PurchaseStatus } from "@prisma/client";
+import {
+  buildBatchParticipantCounts,
+  buildFeatureNames,
+  buildTrainingExamples,
+  calculatePercentile,
+  DEFAULT_TOP_PERCENT,
+  evaluateCalibration,
+  extractFeatures,
+  predictProbability,
+  selectTagFeatures,
+  tagNamesFromFeatures,
+  trainLogisticRegression,
+  type CalibrationMetrics,
+  type LogisticModel,
+  type QualityAccountData,
+  type TrainingOptions,
+} from "@/lib/analytics";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TrainQualityModelOptions extends TrainingOptions {
+  topPercent?: number;
+}
+
+export interface QualityModelMetrics {
+  holdout: CalibrationMetrics;
+  training: CalibrationMetrics;
+  holdoutFrom: string | null;   // testedAt of the first holdout example
+}
+
+export interface StoredQualityModel extends LogisticModel {
+  id: string;
+  topPercent: number;
+  metrics: QualityModelMetrics;
+  trainingExamples: number;
+  positiveRate: number;
+  trainedAt: Date;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+const HOLDOUT_FRACTION = 0.2;
+const MIN_TRAINING_EXAMPLES = 50;
+
+// =============================================================================
+// Data
+// =============================================================================
+
+/**
+ * Queue observations (with per-batch percentiles), purchases and account
+ * attributes, grouped by account
+ */
+async function loadAccountData(accountIds?: string[]): Promise<Map<string, QualityAccountData>> {
+  const accountFilter = accountIds ? { accountId: { in: accountIds } } : {};
+
+  // Percentiles need every position in the batch, not just these accounts'
+  const batchIds = accountIds
+    ? (await prisma.queuePosition.findMany({
+        where: { ...accountFilter, excluded: false },
+        select: { batchId: true },
+        distinct: ["batchId"],
+      })).map(p => p.batchId)
+    : undefined;
+
+  const [positions, purchases, accounts] = await Promise.all([
+    prisma.queuePosition.findMany({
+      where: { excluded: false, ...(batchIds && { batchId: { in: batchIds } }) },
+      select: { accountId: true, eventId: true, batchId: true, position: true, testedAt: true },
+    }),
+    prisma.purchase.findMany({
+      where: accountFilter,
+      select: { accountId: true, eventId: true, status: true, createdAt: true },
+    }),
+    prisma.account.findMany({
+      where: accountIds ? { id: { in: accountIds } } : { queuePositions: { some: {} } },
+      select: {
+        id: true,
+        createdAt: true,
+        generatedAt: true,
+        tags: { select: { name: true } },
+        runtimeProxy: { select: { type: true } },
+        creationProxy: { select: { type: true } },
+      },
+    }),
+  ]);
+
+  const data = new Map<string, QualityAccountData>();
+  for (const account of accounts) {
+    data.set(account.id, {
+      info: {
+        createdAt: account.createdAt,
+        generatedAt: account.generatedAt,
+        tags: account.tags.map(t => t.name),
+        proxyType: account.runtimeProxy?.type || account.creationProxy?.type || null,
+      },
+      observations: [],
+      purchases: [],
+    });
+  }
+
+  const batchCounts = buildBatchParticipantCounts(positions);
+  for (const qp of positions) {
+    const account = data.get(qp.accountId);
+    if (!account) continue;
+    account.observations.push({
+      eventId: qp.eventId,
+      percentile: calculatePercentile(qp.position, batchCounts.get(qp.batchId)?.positions || []),
+      testedAt: qp.testedAt,
+    });
+  }
+
+  for (const p of purchases) {
+    data.get(p.accountId)?.purchases.push({
+      eventId: p.eventId,
+      success: p.status === PurchaseStatus.SUCCESS,
+      createdAt: p.createdAt,
+    });
+  }
+
+  return data;
+}
+
+function parseModel(row: {
+  id: string;
+  topPercent: number;
+  featureNames: string;
+  means: string;
+  stds: string;
+  coefficients: string;
+  intercept: number;
+  metrics: string;
+  trainingExamples: number;
+  positiveRate: number;
+  trainedAt: Date;
+}): StoredQualityModel {
+  return {
+    id: row.id,
+    topPercent: row.topPercent,
+    featureNames: JSON.parse(row.featureNames),
+    means: JSON.parse(row.means),
+    stds: JSON.parse(row.stds),
+    coefficients: JSON.parse(row.coefficients),
+    intercept: row.intercept,
+    metrics: JSON.parse(row.metrics),
+    trainingExamples: row.trainingExamples,
+    positiveRate: row.positiveRate,
+    trainedAt: row.trainedAt,
+  };
+}
+
+// =============================================================================
+// Training
+// =============================================================================
+
+export async function trainQualityModel(options: TrainQualityModelOptions = {}) {
+  const topPercent = options.topPercent ?? DEFAULT_TOP_PERCENT;
+  if (!(topPercent > 0 && topPercent <= 100)) {
+    return { success: false as const, error: "topPercent must be between 0 and 100" };
+  }
+
+  const accounts = [...(await loadAccountData()).values()];
+  const tagNames = selectTagFeatures(accounts);
+  const featureNames = buildFeatureNames(tagNames);
+
+  const examples = buildTrainingExamples(accounts, topPercent, tagNames)
+    .sort((a, b) => a.testedAt.getTime() - b.testedAt.getTime());
+
+  if (examples.length < MIN_TRAINING_EXAMPLES) {
+    return {
+      success: false as const,
+      error: `Need at least ${MIN_TRAINING_EXAMPLES} queue observations to train (have ${examples.length})`,
+    };
+  }
+
+  const splitIndex = Math.floor(examples.length * (1 - HOLDOUT_FRACTION));
+  const train = examples.slice(0, splitIndex);
+  const holdout = examples.slice(splitIndex);
+  const trainPositives = train.filter(e => e.label === 1).length;
+
+  if (trainPositives === 0) {
+    return {
+      success: false as const,
+      error: `No training examples reached the top ${topPercent}% and converted - try a larger topPercent`,
+    };
+  }
+
+  console.log(
+    `[QualityModel] Training on ${train.length} examples (${trainPositives} positive), ` +
+      `holding out ${holdout.length}, ${featureNames.length} features`
+  );
+
+  const model = trainLogisticRegression(
+    featureNames,
+    train.map(e => e.features),
+    train.map(e => e.label),
+    options
+  );
+
+  const metrics: QualityModelMetrics = {
+    holdout: evaluateCalibration(
+      holdout.map(e => predictProbability(model, e.features)),
+      holdout.map(e => e.label)
+    ),
+    training: evaluateCalibration(
+      train.map(e => predictProbability(model, e.features)),
+      train.map(e => e.label)
+    ),
+    holdoutFrom: holdout[0]?.testedAt.toISOString() || null,
+  };
+
+  const row = await prisma.$transaction(async (tx) => {
+    await tx.accountQualityModel.updateMany({ where: { isActive: true }, data: { isActive: false } });
+    return tx.accountQualityModel.create({
+      data: {
+        topPercent,
+        featureNames: JSON.stringify(model.featureNames),
+        means: JSON.stringify(model.means),
+        stds: JSON.stringify(model.stds),
+        coefficients: JSON.stringify(model.coefficients),
+        intercept: model.intercept,
+        metrics: JSON.stringify(metrics),
+        trainingExamples: train.length,
+        positiveRate: trainPositives / train.length,
+      },
+    });
+  });
+
+  console.log(
+    `[QualityModel] Trained ${row.id}: holdout AUC ${metrics.holdout.auc ?? "n/a"}, ` +
+      `Brier ${metrics.holdout.brierScore}`
+  );
+
+  return { success: true as const, model: parseModel(row) };
+}
+
+// =============================================================================
+// Prediction
+// =============================================================================
+
+export async function getActiveQualityModel(): Promise<StoredQualityModel | null> {
+  const row = await prisma.accountQualityModel.findFirst({
+    where: { isActive: true },
+    orderBy: { trainedAt: "desc" },
+  });
+  return row ? parseModel(row) : null;
+}
+
+/**
+ * Probability each account lands in the top N% of its next queue and
+ * converts, from its full history as of now. Empty map if no model is trained.
+ */
+export async function predictAccountQuality(
+  accountIds?: string[],
+  model?: StoredQualityModel | null
+): Promise<Map<string, number>> {
+  const active = model === undefined ? await getActiveQualityModel() : model;
+  const predictions = new Map<string, number>();
+  if (!active || (accountIds && accountIds.length === 0)) return predictions;
+
+  const tagNames = tagNamesFromFeatures(active.featureNames);
+  const now = new Date();
+
+  for (const [accountId, account] of await loadAccountData(accountIds)) {
+    const features = extractFeatures(
+      account.observations,
+      account.purchases,
+      account.info,
+      now,
+      active.topPercent,
+      tagNames
+    );
+    predictions.set(accountId, predictProbability(active, features));
+  }
+
+  return predictions;
+}
+
+export async function listQualityModels(limit: number = 10) {
+  const rows = await prisma.accountQualityModel.findMany({
+    orderBy: { trainedAt: "desc" },
+    take: limit,
+  });
+  return rows.map(parseModel);
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const QualityModel = {
+  train: trainQualityModel,
+  getActive: getActiveQualityModel,
+  predict: predictAccountQuality,
+  list: listQualityModels,
+};
@@ -0,0 +1,100 @@
+/**
+ * Queue Batches
+ *
+ * A QueueBatch is one queue run for an event (pre-sale, public sale, ...).
+ * Each batch is its own observation: an account has at most one position per
+ * batch, and percentiles are ranked within the batch - a pre-sale queue of
+ * 2k accounts and a public-sale queue of 40k aren't comparable.
+ */
+
+import prisma from "@/lib/db";
+import { calculatePercentile } from "@/lib/analytics";
+
+// =============================================================================
+// Config
+// =============================================================================
+
+// Tag used when an import doesn't name its batch (and for backfilled data)
+export const DEFAULT_QUEUE_BATCH_TAG = "Default";
+
+// =============================================================================
+// Batches
+// =============================================================================
+
+export async function getOrCreateQueueBatch(
+  eventId: string,
+  tag: string = DEFAULT_QUEUE_BATCH_TAG,
+  source?: string
+) {
+  const normalizedTag = tag.trim() || DEFAULT_QUEUE_BATCH_TAG;
+  return prisma.queueBatch.upsert({
+    where: { eventId_tag: { eventId, tag: normalizedTag } },
+    create: { eventId, tag: normalizedTag, source: source || null },
+    update: { importedAt: new Date(), ...(source && { source }) },
+  });
+}
+
+/**
+ * Recalculate and store percentiles for every position in a batch, ranked
+ * against the batch's non-excluded positions. Same method as Queue Analytics.
+ */
+export async function recalculateBatchPercentiles(batchId: string): Promise<number> {
+  const included = await prisma.queuePosition.findMany({
+    where: { batchId, excluded: false },
+    select: { position: true },
+    orderBy: { position: "asc" },
+  });
+
+  const positionValues = included.map((p) => p.position);
+  const totalParticipants = positionValues.length;
+  if (totalParticipants === 0) return 0;
+
+  const allPositions = await prisma.queuePosition.findMany({
+    where: { batchId },
+    select: { id: true, position: true },
+  });
+
+  for (const pos of allPositions) {
+    await prisma.queuePosition.update({
+      where: { id: pos.id },
+      data: {
+        percentile: Math.round(calculatePercentile(pos.position, positionValues)),
+        totalParticipants,
+      },
+    });
+  }
+
+  return allPositions.length;
+}
+
+/**
+ * Batches for an event (or all events) with their non-excluded position counts
+ */
+export async function listQueueBatches(eventId?: string) {
+  const batches = await prisma.queueBatch.findMany({
+    where: eventId ? { eventId } : undefined,
+    orderBy: [{ eventId: "asc" }, { importedAt: "asc" }],
+    include: {
+      _count: { select: { positions: { where: { excluded: false } } } },
+    },
+  });
+
+  return batches.map((b) => ({
+    id: b.id,
+    eventId: b.eventId,
+    tag: b.tag,
+    source: b.source,
+    importedAt: b.importedAt,
+    count: b._count.positions,
+  }));
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const QueueBatches = {
+  getOrCreate: getOrCreateQueueBatch,
+  recalculatePercentiles: recalculateBatchPercentiles,
+  list: listQueueBatches,
+};
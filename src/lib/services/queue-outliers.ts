@@ -0,0 +1,253 @@
+/**
+ * Queue Outlier Review
+ *
+ * Runs detectQueueOutliers over a batch after each queue import and keeps
+ * the results as QueueOutlierFlag rows for review. Applying a flag excludes
+ * the position (same fields as /api/queues/exclusions) with the suggested
+ * reason; dismissing it keeps the position and stops it being re-flagged
+ * unless a re-import moves it.
+ */
+
+import prisma from "@/lib/db";
+import {
+  detectQueueOutliers,
+  type OutlierDetectionOptions,
+  type OutlierReason,
+} from "@/lib/analytics";
+import { recalculateBatchPercentiles } from "@/lib/services/queue-batches";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type OutlierFlagStatus = "PENDING" | "APPLIED" | "DISMISSED";
+
+export interface OutlierDetectionResult {
+  batchId: string;
+  checked: number;
+  flagged: number;
+  created: number;
+  reopened: number;
+  cleared: number;   // Pending flags no longer supported by the data
+}
+
+export interface OutlierFlagFilters {
+  status?: OutlierFlagStatus;
+  eventId?: string;
+  batchId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Detect outliers in a batch and sync its review queue
+ */
+export async function detectBatchOutliers(
+  batchId: string,
+  options: OutlierDetectionOptions = {}
+): Promise<OutlierDetectionResult> {
+  const [positions, existingFlags] = await Promise.all([
+    prisma.queuePosition.findMany({
+      where: { batchId, excluded: false },
+      select: { id: true, position: true, testedAt: true },
+    }),
+    prisma.queueOutlierFlag.findMany({ where: { batchId } }),
+  ]);
+
+  const detected = detectQueueOutliers(positions, options);
+  const existingByPosition = new Map(existingFlags.map(f => [f.queuePositionId, f]));
+  const detectedIds = new Set(detected.map(d => d.id));
+  const result: OutlierDetectionResult = {
+    batchId,
+    checked: positions.length,
+    flagged: 0,
+    created: 0,
+    reopened: 0,
+    cleared: 0,
+  };
+
+  for (const flag of detected) {
+    const existing = existingByPosition.get(flag.id);
+    const data = {
+      position: flag.position,
+      reasons: JSON.stringify(flag.reasons),
+      suggestedReason: flag.suggestedReason,
+      score: flag.score,
+    };
+
+    if (!existing) {
+      await prisma.queueOutlierFlag.create({ data: { queuePositionId: flag.id, batchId, ...data } });
+      result.created++;
+    } else if (existing.status === "DISMISSED") {
+      // Reviewed already - only re-open if the position has changed since
+      if (existing.position === flag.position) continue;
+      await prisma.queueOutlierFlag.update({
+        where: { id: existing.id },
+        data: { ...data, status: "PENDING", reviewedAt: null, reviewedBy: null },
+      });
+      result.reopened++;
+    } else {
+      await prisma.queueOutlierFlag.update({ where: { id: existing.id }, data });
+    }
+    result.flagged++;
+  }
+
+  const stale = existingFlags.filter(f => f.status === "PENDING" && !detectedIds.has(f.queuePositionId));
+  if (stale.length > 0) {
+    const deleted = await prisma.queueOutlierFlag.deleteMany({ where: { id: { in: stale.map(f => f.id) } } });
+    result.cleared = deleted.count;
+  }
+
+  if (result.created > 0 || result.reopened > 0) {
+    console.log(
+      `[QueueOutliers] Batch ${batchId}: ${result.flagged} flagged of ${result.checked} ` +
+        `(${result.created} new, ${result.reopened} re-opened)`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Re-run detection for every batch of an event (or every batch)
+ */
+export async function detectOutliersForEvent(eventId?: string, options: OutlierDetectionOptions = {}) {
+  const batches = await prisma.queueBatch.findMany({
+    where: eventId ? { eventId } : undefined,
+    select: { id: true },
+  });
+
+  const results: OutlierDetectionResult[] = [];
+  for (const batch of batches) {
+    results.push(await detectBatchOutliers(batch.id, options));
+  }
+  return results;
+}
+
+// =============================================================================
+// Review Queue
+// =============================================================================
+
+export async function listOutlierFlags(filters: OutlierFlagFilters = {}) {
+  const { status = "PENDING", eventId, batchId, page = 1, limit = 100 } = filters;
+  const where = {
+    status,
+    ...(batchId && { batchId }),
+    ...(eventId && { batch: { eventId } }),
+  };
+
+  const [flags, total, countsByBatch] = await Promise.all([
+    prisma.queueOutlierFlag.findMany({
+      where,
+      include: {
+        queuePosition: {
+          select: {
+            testedAt: true,
+            account: { select: { email: true } },
+          },
+        },
+        batch: {
+          select: {
+            tag: true,
+            event: { select: { id: true, eventName: true } },
+          },
+        },
+      },
+      orderBy: [{ batchId: "asc" }, { score: "desc" }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.queueOutlierFlag.count({ where }),
+    prisma.queueOutlierFlag.groupBy({
+      by: ["batchId"],
+      where: { status: "PENDING" },
+      _count: { id: true },
+    }),
+  ]);
+
+  return {
+    flags: flags.map(f => ({
+      id: f.id,
+      queuePositionId: f.queuePositionId,
+      email: f.queuePosition.account.email,
+      eventId: f.batch.event.id,
+      eventName: f.batch.event.eventName,
+      batchId: f.batchId,
+      batchTag: f.batch.tag,
+      position: f.position,
+      testedAt: f.queuePosition.testedAt,
+      reasons: JSON.parse(f.reasons) as OutlierReason[],
+      suggestedReason: f.suggestedReason,
+      score: f.score,
+      status: f.status,
+      reviewedAt: f.reviewedAt,
+      reviewedBy: f.reviewedBy,
+    })),
+    pendingByBatch: countsByBatch.map(c => ({ batchId: c.batchId, count: c._count.id })),
+    pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+  };
+}
+
+/**
+ * Exclude the flagged positions. Each uses its suggested reason unless one
+ * is given for the whole selection. Percentiles are recalculated per batch.
+ */
+export async function applyOutlierFlags(
+  flagIds: string[],
+  options: { reason?: string; reviewedBy?: string | null } = {}
+) {
+  const flags = await prisma.queueOutlierFlag.findMany({
+    where: { id: { in: flagIds }, status: "PENDING" },
+  });
+  if (flags.length === 0) {
+    return { success: false as const, error: "No pending flags found" };
+  }
+
+  const now = new Date();
+  await prisma.$transaction([
+    ...flags.map(f =>
+      prisma.queuePosition.update({
+        where: { id: f.queuePositionId },
+        data: { excluded: true, excludedAt: now, excludedReason: options.reason || f.suggestedReason },
+      })
+    ),
+    prisma.queueOutlierFlag.updateMany({
+      where: { id: { in: flags.map(f => f.id) } },
+      data: { status: "APPLIED", reviewedAt: now, reviewedBy: options.reviewedBy || null },
+    }),
+  ]);
+
+  const batchIds = [...new Set(flags.map(f => f.batchId))];
+  for (const batchId of batchIds) {
+    await recalculateBatchPercentiles(batchId);
+  }
+
+  return { success: true as const, applied: flags.length, batches: batchIds.length };
+}
+
+export async function dismissOutlierFlags(flagIds: string[], reviewedBy?: string | null) {
+  const result = await prisma.queueOutlierFlag.updateMany({
+    where: { id: { in: flagIds }, status: "PENDING" },
+    data: { status: "DISMISSED", reviewedAt: new Date(), reviewedBy: reviewedBy || null },
+  });
+  if (result.count === 0) {
+    return { success: false as const, error: "No pending flags found" };
+  }
+  return { success: true as const, dismissed: result.count };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const QueueOutliers = {
+  detectBatch: detectBatchOutliers,
+  detectEvent: detectOutliersForEvent,
+  list: listOutlierFlags,
+  apply: applyOutlierFlags,
+  dismiss: dismissOutlierFlags,
+};
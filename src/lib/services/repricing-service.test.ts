@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { installFakePrisma } from "@/lib/testing/fake-prisma";
+
+const db = installFakePrisma();
+
+type EvaluateListing = typeof import("./repricing-service").evaluateListing;
+type Listing = Parameters<EvaluateListing>[0];
+type Rule = Parameters<EvaluateListing>[1][number];
+
+const NOW = new Date();
+
+function listing(overrides: Partial<Listing> = {}): Listing {
+  return {
+    id: "listing-1",
+    ticketGroupId: 1,
+    productionId: null,
+    eventId: "event-1",
+    eventName: "Show",
+    eventDateTime: new Date(NOW.getTime() + 30 * 24 * 60 * 60 * 1000),
+    section: "101",
+    row: "A",
+    quantity: 2,
+    cost: 50,
+    price: 120,
+    zoneName: null,
+    tagNames: [],
+    floorPrice: 100,
+    floorSource: "section",
+    floorIsOurs: false,
+    ...overrides,
+  };
+}
+
+function rule(type: string, value: number, overrides: Partial<Rule> = {}): Rule {
+  return {
+    id: `${type}-rule`,
+    name: type,
+    type,
+    value,
+    windowDays: null,
+    priority: 0,
+    eventId: null,
+    zoneName: null,
+    tagName: null,
+    ...overrides,
+  };
+}
+
+const undercut = rule("FLOOR_RELATIVE", -5);
+
+test("FLOOR_RELATIVE prices relative to the market floor", async () => {
+  const { evaluateListing } = await import("./repricing-service");
+  assert.equal(evaluateListing(listing(), [undercut], new Map(), NOW)?.newPrice, 95);
+});
+
+test("FLOOR_RELATIVE holds when the floor is our own listing", async () => {
+  const { evaluateListing } = await import("./repricing-service");
+  assert.equal(evaluateListing(listing({ price: 100, floorIsOurs: true }), [undercut], new Map(), NOW), null);
+});
+
+test("without a COST_FLOOR rule prices stop at cost", async () => {
+  const { evaluateListing } = await import("./repricing-service");
+  const proposal = evaluateListing(listing({ cost: 98 }), [undercut], new Map(), NOW);
+  assert.equal(proposal?.newPrice, 98);
+  assert.match(proposal!.reasons.join("; "), /Held at cost/);
+
+  // Already under cost - not cut any further
+  assert.equal(evaluateListing(listing({ cost: 130 }), [undercut], new Map(), NOW), null);
+});
+
+test("a COST_FLOOR rule replaces the default cost bound", async () => {
+  const { evaluateListing } = await import("./repricing-service");
+  const proposal = evaluateListing(listing({ cost: 98 }), [undercut, rule("COST_FLOOR", 0.5)], new Map(), NOW);
+  assert.equal(proposal?.newPrice, 95);
+});
+
+test("runs don't undercut our own listing when it's the section floor", async () => {
+  const { runRepricing } = await import("./repricing-service");
+  const event = { id: "event-1", venueId: "venue-1", getInPrice: null, zonePrices: [] };
+  db.reset({
+    repricingRule: [{ ...undercut, isEnabled: true }],
+    listing: [
+      { ...listing(), price: 100, extPONumber: "PO1", removedFromPosAt: null, accountEmail: null, event },
+      { ...listing({ id: "listing-2", section: "102" }), extPONumber: "PO2", removedFromPosAt: null, accountEmail: null, event },
+    ],
+    venueSectionZone: [
+      { sectionName: "101", minPrice: 100, venueZone: { venueMap: { venueId: "venue-1" } } },
+      { sectionName: "102", minPrice: 100, venueZone: { venueMap: { venueId: "venue-1" } } },
+    ],
+  });
+
+  const result = await runRepricing({ dryRun: true });
+  assert.equal(result.success, true);
+  assert.equal(result.evaluated, 2);
+  // Section 101's floor is our listing; section 102's floor is someone else's
+  assert.deepEqual(result.proposals.map((p) => [p.listingId, p.newPrice]), [["listing-2", 95]]);
+});
@@ -0,0 +1,587 @@
+/**
+ * Repricing Service
+ *
+ * Rule-based automatic repricing of our POS listings.
+ *
+ * RULE TYPES:
+ * - FLOOR_RELATIVE: price = market floor × (1 + value%)   e.g. value -5 → "floor − 5%"
+ * - TIME_DECAY:     drop value% per day once the show is within windowDays
+ *
+ * TIME_DECAY compounds: on top of a FLOOR_RELATIVE price it's applied once
+ * for every day the show has been inside the window (the floor price is
+ * recomputed each run); on its own it takes one step off the current price,
+ * at most once a day.
+ * - COST_FLOOR:     never price below cost × value        e.g. value 1.1 → "cost × 1.1"
+ *
+ * Without a matching COST_FLOOR rule, rules never take a listing below cost.
+ *
+ * The market floor for a listing is the section minimum (VenueSectionZone) when
+ * we have one, otherwise the zone minimum (EventZonePrice) for the zone its
+ * section maps to, otherwise the event get-in price. TicketVault lists our
+ * tickets on the same marketplaces, so a floor within a cent of one of our own
+ * prices there is probably us - FLOOR_RELATIVE holds instead of undercutting
+ * itself run after run.
+ *
+ * Rules are scoped by event, zone and/or account tag. Pricing rules (FLOOR_RELATIVE,
+ * TIME_DECAY) are applied in priority order, then every matching COST_FLOOR is
+ * enforced as a minimum.
+ *
+ * Every applied change is recorded in ListingPriceHistory (source "rule").
+ *
+ * Used by:
+ * - /api/repricing/run (dry-run preview + manual run)
+ * - repricing sync job (scheduled run, interval set on the Sync Jobs page)
+ * - /repricing page
+ */
+
+import prisma from "@/lib/db";
+import { TicketVaultApi } from "./ticketvault-api";
+import { PRICE_CHANGE_SOURCES } from "./listing-service";
+import { mapSectionToZone } from "@/lib/utils/section-mapper";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const REPRICING_RULE_TYPES = {
+  FLOOR_RELATIVE: "FLOOR_RELATIVE",
+  COST_FLOOR: "COST_FLOOR",
+  TIME_DECAY: "TIME_DECAY",
+} as const;
+
+export type RepricingRuleType = typeof REPRICING_RULE_TYPES[keyof typeof REPRICING_RULE_TYPES];
+
+export interface RepricingRuleInput {
+  name: string;
+  type: RepricingRuleType;
+  value: number;
+  windowDays?: number | null;
+  priority?: number;
+  isEnabled?: boolean;
+  eventId?: string | null;
+  zoneName?: string | null;
+  tagName?: string | null;
+}
+
+export interface RepricingProposal {
+  listingId: string;
+  ticketGroupId: number;
+  productionId: number | null;
+  eventName: string;
+  eventDateTime: Date | null;
+  section: string;
+  row: string;
+  quantity: number;
+  cost: number;
+  currentPrice: number;
+  newPrice: number;
+  floorPrice: number | null;
+  floorSource: "section" | "zone" | "get_in" | null;
+  appliedRuleIds: string[];
+  reasons: string[];
+}
+
+export interface RepricingRunResult {
+  success: boolean;
+  dryRun: boolean;
+  evaluated: number;
+  proposals: RepricingProposal[];
+  applied: number;
+  failed: number;
+  errors: string[];
+}
+
+interface RuleRecord {
+  id: string;
+  name: string;
+  type: string;
+  value: number;
+  windowDays: number | null;
+  priority: number;
+  eventId: string | null;
+  zoneName: string | null;
+  tagName: string | null;
+}
+
+interface ListingContext {
+  id: string;
+  ticketGroupId: number;
+  productionId: number | null;
+  eventId: string | null;
+  eventName: string;
+  eventDateTime: Date | null;
+  section: string;
+  row: string;
+  quantity: number;
+  cost: number;
+  price: number;
+  zoneName: string | null;
+  tagNames: string[];
+  floorPrice: number | null;
+  floorSource: RepricingProposal["floorSource"];
+  floorIsOurs: boolean;        // Floor matches one of our own prices
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// A floor within this many cents of one of our prices is taken to be our own listing
+const OWN_FLOOR_TOLERANCE_CENTS = 1;
+
+// =============================================================================
+// Rule Management
+// =============================================================================
+
+export function isValidRuleType(type: string): type is RepricingRuleType {
+  return Object.values(REPRICING_RULE_TYPES).includes(type as RepricingRuleType);
+}
+
+/**
+ * Validate rule input, returns an error message or null
+ */
+export function validateRuleInput(input: Partial<RepricingRuleInput>): string | null {
+  if (!input.name || input.name.trim().length === 0) {
+    return "Rule name is required";
+  }
+  if (!input.type || !isValidRuleType(input.type)) {
+    return `Rule type must be one of ${Object.values(REPRICING_RULE_TYPES).join(", ")}`;
+  }
+  if (input.value === undefined || input.value === null || isNaN(Number(input.value))) {
+    return "Rule value is required";
+  }
+  const value = Number(input.value);
+  if (input.type === REPRICING_RULE_TYPES.COST_FLOOR && value <= 0) {
+    return "Cost multiplier must be greater than 0";
+  }
+  if (input.type === REPRICING_RULE_TYPES.FLOOR_RELATIVE && value <= -100) {
+    return "Floor offset must be greater than -100%";
+  }
+  if (input.type === REPRICING_RULE_TYPES.TIME_DECAY) {
+    if (value <= 0 || value >= 100) {
+      return "Daily drop must be between 0 and 100%";
+    }
+    if (!input.windowDays || input.windowDays <= 0) {
+      return "Time decay rules need a window in days";
+    }
+  }
+  return null;
+}
+
+/**
+ * Describe a rule in plain terms (e.g., "Floor -5%")
+ */
+export function describeRule(rule: Pick<RuleRecord, "type" | "value" | "windowDays">): string {
+  switch (rule.type) {
+    case REPRICING_RULE_TYPES.FLOOR_RELATIVE:
+      return `Floor ${rule.value >= 0 ? "+" : ""}${rule.value}%`;
+    case REPRICING_RULE_TYPES.COST_FLOOR:
+      return `Never below cost × ${rule.value}`;
+    case REPRICING_RULE_TYPES.TIME_DECAY:
+      return `Drop ${rule.value}% a day inside ${rule.windowDays} days of the show`;
+    default:
+      return rule.type;
+  }
+}
+
+export async function getRules() {
+  const rules = await prisma.repricingRule.findMany({
+    orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+    include: {
+      event: { select: { id: true, eventName: true, artistName: true, eventDate: true } },
+      _count: { select: { priceChanges: true } },
+    },
+  });
+
+  return rules.map((r) => ({
+    ...r,
+    value: Number(r.value),
+    description: describeRule({ type: r.type, value: Number(r.value), windowDays: r.windowDays }),
+  }));
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+function ruleMatches(rule: RuleRecord, listing: ListingContext): boolean {
+  if (rule.eventId && rule.eventId !== listing.eventId) return false;
+  if (rule.zoneName && rule.zoneName !== listing.zoneName) return false;
+  if (
+    rule.tagName &&
+    !listing.tagNames.some((t) => t.toLowerCase() === rule.tagName!.toLowerCase())
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function roundPrice(price: number): number {
+  return Math.round(price * 100) / 100;
+}
+
+/**
+ * Compute the target price for a listing from its matching rules.
+ * Returns null when no pricing rule applies or the price would not change.
+ */
+export function evaluateListing(
+  listing: ListingContext,
+  rules: RuleRecord[],
+  lastDecayAt: Map<string, Date>,
+  now: Date = new Date()
+): RepricingProposal | null {
+  const matching = rules.filter((r) => ruleMatches(r, listing));
+  if (matching.length === 0) return null;
+
+  let target = listing.price;
+  const appliedRuleIds: string[] = [];
+  const reasons: string[] = [];
+  let floorRuleApplied = false;
+
+  // Pricing rules in priority order (rules arrive sorted by priority desc).
+  // Only the highest-priority FLOOR_RELATIVE rule sets the base price.
+  for (const rule of matching) {
+    if (rule.type === REPRICING_RULE_TYPES.FLOOR_RELATIVE) {
+      // Our own listing as the floor would make every run undercut the last
+      if (listing.floorPrice === null || listing.floorIsOurs || floorRuleApplied) continue;
+      floorRuleApplied = true;
+      target = listing.floorPrice * (1 + rule.value / 100);
+      appliedRuleIds.push(rule.id);
+      reasons.push(`${rule.name}: ${describeRule(rule)} of $${listing.floorPrice.toFixed(2)} ${listing.floorSource} floor`);
+    } else if (rule.type === REPRICING_RULE_TYPES.TIME_DECAY) {
+      if (!listing.eventDateTime || !rule.windowDays) continue;
+      const daysToShow = (listing.eventDateTime.getTime() - now.getTime()) / MS_PER_DAY;
+      if (daysToShow < 0 || daysToShow > rule.windowDays) continue;
+
+      if (floorRuleApplied) {
+        // Fresh floor price every run - take off every day spent in the window
+        const steps = Math.floor(rule.windowDays - daysToShow) + 1;
+        target = target * Math.pow(1 - rule.value / 100, steps);
+        appliedRuleIds.push(rule.id);
+        reasons.push(`${rule.name}: -${rule.value}% × ${steps}d (${Math.ceil(daysToShow)}d to show)`);
+        continue;
+      }
+
+      // Decaying the current price - only one step a day
+      const lastDecay = lastDecayAt.get(listing.id);
+      if (lastDecay && now.getTime() - lastDecay.getTime() < MS_PER_DAY) continue;
+
+      target = target * (1 - rule.value / 100);
+      appliedRuleIds.push(rule.id);
+      reasons.push(`${rule.name}: -${rule.value}% (${Math.ceil(daysToShow)}d to show)`);
+    }
+  }
+
+  // Minimums are always enforced, regardless of priority
+  const costFloors = matching.filter((r) => r.type === REPRICING_RULE_TYPES.COST_FLOOR);
+  for (const rule of costFloors) {
+    const minimum = listing.cost * rule.value;
+    if (target < minimum) {
+      target = minimum;
+      appliedRuleIds.push(rule.id);
+      reasons.push(`${rule.name}: raised to cost × ${rule.value} ($${minimum.toFixed(2)})`);
+    }
+  }
+
+  // No cost floor rule - stop at cost (a price already under cost isn't cut further)
+  if (costFloors.length === 0 && target < listing.cost) {
+    const minimum = Math.min(listing.cost, listing.price);
+    if (target < minimum) {
+      target = minimum;
+      reasons.push(`Held at cost ($${listing.cost.toFixed(2)}) - add a cost floor rule to go lower`);
+    }
+  }
+
+  target = roundPrice(Math.max(target, 0));
+
+  if (appliedRuleIds.length === 0 || Math.abs(target - listing.price) < 0.01) {
+    return null;
+  }
+
+  return {
+    listingId: listing.id,
+    ticketGroupId: listing.ticketGroupId,
+    productionId: listing.productionId,
+    eventName: listing.eventName,
+    eventDateTime: listing.eventDateTime,
+    section: listing.section,
+    row: listing.row,
+    quantity: listing.quantity,
+    cost: listing.cost,
+    currentPrice: listing.price,
+    newPrice: target,
+    floorPrice: listing.floorPrice,
+    floorSource: listing.floorSource,
+    appliedRuleIds: [...new Set(appliedRuleIds)],
+    reasons,
+  };
+}
+
+/**
+ * Load our unsold, upcoming listings with everything the rules need
+ * (zone, account tags, market floor)
+ */
+async function loadListingContexts(now: Date): Promise<ListingContext[]> {
+  const listings = await prisma.listing.findMany({
+    where: {
+      extPONumber: { not: null },
+      quantity: { gt: 0 },
+      removedFromPosAt: null,
+      OR: [{ eventDateTime: null }, { eventDateTime: { gt: now } }],
+    },
+    include: {
+      event: {
+        select: {
+          id: true,
+          venueId: true,
+          getInPrice: true,
+          zonePrices: { select: { zoneName: true, minPrice: true } },
+        },
+      },
+    },
+  });
+
+  // Account tags by email
+  const emails = [...new Set(listings.map((l) => l.accountEmail).filter(Boolean))] as string[];
+  const accounts = emails.length > 0
+    ? await prisma.account.findMany({
+        where: { email: { in: emails, mode: "insensitive" } },
+        select: { email: true, tags: { select: { name: true } } },
+      })
+    : [];
+  const tagsByEmail = new Map(
+    accounts.map((a) => [a.email.toLowerCase(), a.tags.map((t) => t.name)])
+  );
+
+  // Section minimums by venue
+  const venueIds = [...new Set(listings.map((l) => l.event?.venueId).filter(Boolean))] as string[];
+  const sectionZones = venueIds.length > 0
+    ? await prisma.venueSectionZone.findMany({
+        where: {
+          minPrice: { not: null },
+          venueZone: { venueMap: { venueId: { in: venueIds } } },
+        },
+        select: {
+          sectionName: true,
+          minPrice: true,
+          venueZone: { select: { venueMap: { select: { venueId: true } } } },
+        },
+      })
+    : [];
+  const sectionPriceMap = new Map<string, number>();
+  for (const sz of sectionZones) {
+    const key = `${sz.venueZone.venueMap.venueId}:${sz.sectionName.toLowerCase()}`;
+    sectionPriceMap.set(key, Number(sz.minPrice));
+  }
+
+  // Our own prices per section, zone and event - the scraped minimums include them
+  const ownPrices = new Map<string, number[]>();
+  const floorKeys = (eventId: string, section: string, zoneName: string | null) => ({
+    section: `section:${eventId}:${section.toLowerCase()}`,
+    zone: zoneName ? `zone:${eventId}:${zoneName}` : null,
+    get_in: `event:${eventId}`,
+  });
+  for (const l of listings) {
+    if (!l.eventId) continue;
+    for (const key of Object.values(floorKeys(l.eventId, l.section, mapSectionToZone(l.section)))) {
+      if (key) ownPrices.set(key, [...(ownPrices.get(key) || []), Number(l.price)]);
+    }
+  }
+
+  return listings.map((l) => {
+    const zoneName = mapSectionToZone(l.section);
+    let floorPrice: number | null = null;
+    let floorSource: ListingContext["floorSource"] = null;
+
+    if (l.event?.venueId) {
+      const sectionPrice = sectionPriceMap.get(`${l.event.venueId}:${l.section.toLowerCase()}`);
+      if (sectionPrice) {
+        floorPrice = sectionPrice;
+        floorSource = "section";
+      }
+    }
+    if (floorPrice === null && zoneName && l.event) {
+      const zonePrice = l.event.zonePrices.find((zp) => zp.zoneName === zoneName);
+      if (zonePrice) {
+        floorPrice = Number(zonePrice.minPrice);
+        floorSource = "zone";
+      }
+    }
+    if (floorPrice === null && l.event?.getInPrice) {
+      floorPrice = Number(l.event.getInPrice);
+      floorSource = "get_in";
+    }
+
+    const floorKey = l.eventId && floorSource ? floorKeys(l.eventId, l.section, zoneName)[floorSource] : null;
+    const floorIsOurs = floorPrice !== null && floorKey !== null &&
+      (ownPrices.get(floorKey) || []).some(
+        (p) => Math.abs(Math.round(p * 100) - Math.round(floorPrice! * 100)) <= OWN_FLOOR_TOLERANCE_CENTS
+      );
+
+    return {
+      id: l.id,
+      ticketGroupId: l.ticketGroupId,
+      productionId: l.productionId,
+      eventId: l.eventId,
+      eventName: l.eventName,
+      eventDateTime: l.eventDateTime,
+      section: l.section,
+      row: l.row,
+      quantity: l.quantity,
+      cost: Number(l.cost),
+      price: Number(l.price),
+      zoneName,
+      tagNames: l.accountEmail ? tagsByEmail.get(l.accountEmail.toLowerCase()) || [] : [],
+      floorPrice,
+      floorSource,
+      floorIsOurs,
+    };
+  });
+}
+
+/**
+ * Evaluate all enabled rules against our listings and optionally push the
+ * new prices to TicketVault.
+ */
+export async function runRepricing(
+  options: { dryRun?: boolean; ruleIds?: string[] } = {}
+): Promise<RepricingRunResult> {
+  const dryRun = options.dryRun ?? true;
+  const now = new Date();
+
+  try {
+    const ruleRecords = await prisma.repricingRule.findMany({
+      where: {
+        isEnabled: true,
+        ...(options.ruleIds?.length ? { id: { in: options.ruleIds } } : {}),
+      },
+      orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+    });
+
+    const rules: RuleRecord[] = ruleRecords.map((r) => ({
+      id: r.id,
+      name: r.name,
+      type: r.type,
+      value: Number(r.value),
+      windowDays: r.windowDays,
+      priority: r.priority,
+      eventId: r.eventId,
+      zoneName: r.zoneName,
+      tagName: r.tagName,
+    }));
+
+    if (rules.length === 0) {
+      return { success: true, dryRun, evaluated: 0, proposals: [], applied: 0, failed: 0, errors: [] };
+    }
+
+    const listings = await loadListingContexts(now);
+
+    // Last TIME_DECAY step per listing (throttles decay of the current price to
+    // once a day). A decay step is recorded under the decay rule - it's the
+    // first rule applied when no FLOOR_RELATIVE rule set the price.
+    const decayRuleIds = rules.filter((r) => r.type === REPRICING_RULE_TYPES.TIME_DECAY).map((r) => r.id);
+    const recentDecays = decayRuleIds.length > 0
+      ? await prisma.listingPriceHistory.findMany({
+          where: {
+            source: PRICE_CHANGE_SOURCES.RULE,
+            ruleId: { in: decayRuleIds },
+            createdAt: { gt: new Date(now.getTime() - MS_PER_DAY) },
+          },
+          select: { listingId: true, createdAt: true },
+        })
+      : [];
+    const lastDecayAt = new Map<string, Date>();
+    for (const c of recentDecays) {
+      const existing = lastDecayAt.get(c.listingId);
+      if (!existing || c.createdAt > existing) {
+        lastDecayAt.set(c.listingId, c.createdAt);
+      }
+    }
+
+    const proposals: RepricingProposal[] = [];
+    for (const listing of listings) {
+      const proposal = evaluateListing(listing, rules, lastDecayAt, now);
+      if (proposal) proposals.push(proposal);
+    }
+
+    console.log(
+      `[Repricing] ${dryRun ? "Dry run" : "Run"}: ${listings.length} listings evaluated, ${proposals.length} price changes`
+    );
+
+    let applied = 0;
+    let failed = 0;
+    const errors: string[] = [];
+
+    if (!dryRun) {
+      for (const proposal of proposals) {
+        try {
+          await TicketVaultApi.updateListingPrice(
+            proposal.ticketGroupId,
+            proposal.newPrice,
+            proposal.productionId || undefined
+          );
+
+          await prisma.$transaction(async (tx) => {
+            await tx.listing.update({
+              where: { id: proposal.listingId },
+              data: { price: proposal.newPrice, lastSyncedAt: new Date() },
+            });
+            await tx.listingPriceHistory.create({
+              data: {
+                listingId: proposal.listingId,
+                oldPrice: proposal.currentPrice,
+                newPrice: proposal.newPrice,
+                source: PRICE_CHANGE_SOURCES.RULE,
+                ruleId: proposal.appliedRuleIds[0],
+                reason: proposal.reasons.join("; "),
+              },
+            });
+          });
+          applied++;
+        } catch (error) {
+          failed++;
+          const message = error instanceof Error ? error.message : String(error);
+          errors.push(`${proposal.eventName} ${proposal.section}/${proposal.row}: ${message}`);
+          console.error(`[Repricing] Failed to update listing ${proposal.listingId}:`, error);
+        }
+      }
+
+      await prisma.repricingRule.updateMany({
+        where: { id: { in: rules.map((r) => r.id) } },
+        data: { lastRunAt: now },
+      });
+
+      console.log(`[Repricing] Applied ${applied} price changes, ${failed} failed`);
+    }
+
+    return {
+      success: failed === 0,
+      dryRun,
+      evaluated: listings.length,
+      proposals,
+      applied,
+      failed,
+      errors,
+    };
+  } catch (error) {
+    console.error("[Repricing] Run error:", error);
+    return {
+      success: false,
+      dryRun,
+      evaluated: 0,
+      proposals: [],
+      applied: 0,
+      failed: 0,
+      errors: [error instanceof Error ? error.message : String(error)],
+    };
+  }
+}
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+export const RepricingService = {
+  getRules,
+  validateRuleInput,
+  describeRule,
+  runRepricing,
+};
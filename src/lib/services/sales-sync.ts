@@ -51,6 +51,7 @@ import {
 } from "./ticketvault-api";
 import { EventMatcher } from "./event-matcher";
 import { TicketService } from "./ticket-service";
+import { notify } from "./notifications";
 
 // =============================================================================
 // Types
@@ -100,6 +101,14 @@ export interface InvoiceStats {
   totalUnpaid: number;
 }
 
+// Sales/invoices older than this are backfill (first sync, re-imports) -
+// only newer ones raise sale.created / invoice.paid notifications
+const NOTIFY_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+function isRecent(date: Date | null): boolean {
+  return !date || Date.now() - date.getTime() < NOTIFY_MAX_AGE_MS;
+}
+
 // =============================================================================
 // Sync Functions
 // =============================================================================
@@ -327,6 +336,20 @@ export async function syncSalesFromPos(): Promise<SalesSyncResult> {
           });
           saleId = newSale.id;
           created++;
+
+          if (isRecent(saleData.saleDate)) {
+            await notify("sale.created", {
+              saleId,
+              eventName,
+              eventDate: eventDateTime,
+              section,
+              row,
+              quantity,
+              salePrice: Number(salePrice),
+              cost: saleData.cost !== null ? Number(saleData.cost) : null,
+              invoiceNumber: saleData.invoiceNumber !== null ? String(saleData.invoiceNumber) : null,
+            }, { dedupeKey: `sale.created:${saleId}` });
+          }
         }
 
         if (listing) {
@@ -498,18 +521,38 @@ export async function syncInvoicesFromPos(): Promise<InvoicesSyncResult> {
           where: { invoiceNumber },
         });
 
+        // cancelledAt dates the accounting reversal, so keep the first time we saw it
+        const cancelledAt = !invoiceData.isCancelled
+          ? null
+          : existingInvoice?.cancelledAt
+            || (existingInvoice && !existingInvoice.isCancelled ? new Date() : invoiceData.invoiceDate || new Date());
+
         if (existingInvoice) {
           await prisma.invoice.update({
             where: { id: existingInvoice.id },
-            data: invoiceData,
+            data: { ...invoiceData, cancelledAt },
           });
           updated++;
         } else {
           await prisma.invoice.create({
-            data: invoiceData,
+            data: { ...invoiceData, cancelledAt },
           });
           created++;
         }
+
+        const becamePaid = existingInvoice
+          ? !existingInvoice.isPaid && invoiceData.isPaid
+          : invoiceData.isPaid && isRecent(invoiceData.remittanceDate || invoiceData.invoiceDate);
+        if (becamePaid) {
+          await notify("invoice.paid", {
+            invoiceNumber: String(invoiceNumber),
+            eventName,
+            clientName: invoiceData.clientName,
+            totalQuantity,
+            totalAmount: Number(totalAmount),
+            remittanceDate: invoiceData.remittanceDate,
+          }, { dedupeKey: `invoice.paid:${invoiceNumber}` });
+        }
       } catch (invoiceError) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const inv = posInvoice as any;
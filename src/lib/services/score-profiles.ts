@@ -0,0 +1,199 @@
+/**
+ * Score Weight Profiles
+ *
+ * Named weight sets for the account composite score. Queue Analytics ranks
+ * with the default profile unless another one is picked; with no saved
+ * profiles the built-in DEFAULT_SCORE_WEIGHTS are used.
+ */
+
+import prisma from "@/lib/db";
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  normalizeScoreWeights,
+  SCORE_WEIGHT_KEYS,
+  type ScoreWeights,
+} from "@/lib/analytics";
+import type { ScoreWeightProfile } from "@prisma/client";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ScoreProfileInput {
+  name?: string;
+  description?: string | null;
+  weights?: Partial<ScoreWeights>;
+  isDefault?: boolean;
+}
+
+export interface ResolvedScoreProfile {
+  id: string | null;        // null = built-in defaults
+  name: string;
+  weights: ScoreWeights;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+export const BUILT_IN_PROFILE_NAME = "Built-in";
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export function profileWeights(profile: ScoreWeightProfile): ScoreWeights {
+  return {
+    percentile: profile.percentile,
+    consistency: profile.consistency,
+    recentPerformance: profile.recentPerformance,
+    eventCoverage: profile.eventCoverage,
+    purchaseSuccess: profile.purchaseSuccess,
+  };
+}
+
+function formatProfile(profile: ScoreWeightProfile) {
+  return {
+    id: profile.id,
+    name: profile.name,
+    description: profile.description,
+    isDefault: profile.isDefault,
+    weights: profileWeights(profile),
+    updatedAt: profile.updatedAt,
+  };
+}
+
+function validateWeights(weights: Partial<ScoreWeights>): string | null {
+  for (const key of SCORE_WEIGHT_KEYS) {
+    const value = weights[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      return `Weight "${key}" must be a non-negative number`;
+    }
+  }
+  if (SCORE_WEIGHT_KEYS.every(key => !weights[key])) {
+    return "At least one weight must be greater than 0";
+  }
+  return null;
+}
+
+// =============================================================================
+// Profiles
+// =============================================================================
+
+export async function listScoreProfiles() {
+  const profiles = await prisma.scoreWeightProfile.findMany({
+    orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+  });
+  return profiles.map(formatProfile);
+}
+
+/**
+ * Resolve a profile by id or name. Falls back to the default profile, then
+ * to the built-in weights. Returns null if a specific profile was requested
+ * and doesn't exist.
+ */
+export async function resolveScoreProfile(idOrName?: string | null): Promise<ResolvedScoreProfile | null> {
+  if (idOrName) {
+    const profile = await prisma.scoreWeightProfile.findFirst({
+      where: { OR: [{ id: idOrName }, { name: idOrName }] },
+    });
+    if (!profile) return null;
+    return { id: profile.id, name: profile.name, weights: profileWeights(profile) };
+  }
+
+  const defaultProfile = await prisma.scoreWeightProfile.findFirst({ where: { isDefault: true } });
+  if (defaultProfile) {
+    return { id: defaultProfile.id, name: defaultProfile.name, weights: profileWeights(defaultProfile) };
+  }
+
+  return { id: null, name: BUILT_IN_PROFILE_NAME, weights: { ...DEFAULT_SCORE_WEIGHTS } };
+}
+
+export async function createScoreProfile(input: ScoreProfileInput) {
+  const name = input.name?.trim();
+  if (!name) return { success: false as const, error: "Name is required" };
+  if (name === BUILT_IN_PROFILE_NAME) return { success: false as const, error: `"${name}" is reserved` };
+
+  const weights = { ...DEFAULT_SCORE_WEIGHTS, ...input.weights };
+  const invalid = validateWeights(weights);
+  if (invalid) return { success: false as const, error: invalid };
+
+  const existing = await prisma.scoreWeightProfile.findUnique({ where: { name } });
+  if (existing) return { success: false as const, error: `A profile named "${name}" already exists` };
+
+  const profile = await prisma.$transaction(async (tx) => {
+    if (input.isDefault) {
+      await tx.scoreWeightProfile.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+    }
+    return tx.scoreWeightProfile.create({
+      data: {
+        name,
+        description: input.description?.trim() || null,
+        ...normalizeScoreWeights(weights),
+        isDefault: input.isDefault ?? false,
+      },
+    });
+  });
+
+  return { success: true as const, profile: formatProfile(profile) };
+}
+
+export async function updateScoreProfile(id: string, input: ScoreProfileInput) {
+  const existing = await prisma.scoreWeightProfile.findUnique({ where: { id } });
+  if (!existing) return { success: false as const, error: "Profile not found" };
+
+  const name = input.name?.trim();
+  if (input.name !== undefined && !name) return { success: false as const, error: "Name is required" };
+  if (name === BUILT_IN_PROFILE_NAME) return { success: false as const, error: `"${name}" is reserved` };
+  if (name && name !== existing.name) {
+    const clash = await prisma.scoreWeightProfile.findUnique({ where: { name } });
+    if (clash) return { success: false as const, error: `A profile named "${name}" already exists` };
+  }
+
+  let weights: ScoreWeights | undefined;
+  if (input.weights) {
+    const merged = { ...profileWeights(existing), ...input.weights };
+    const invalid = validateWeights(merged);
+    if (invalid) return { success: false as const, error: invalid };
+    weights = normalizeScoreWeights(merged);
+  }
+
+  const profile = await prisma.$transaction(async (tx) => {
+    if (input.isDefault) {
+      await tx.scoreWeightProfile.updateMany({
+        where: { isDefault: true, id: { not: id } },
+        data: { isDefault: false },
+      });
+    }
+    return tx.scoreWeightProfile.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(input.description !== undefined && { description: input.description?.trim() || null }),
+        ...weights,
+        ...(input.isDefault !== undefined && { isDefault: input.isDefault }),
+      },
+    });
+  });
+
+  return { success: true as const, profile: formatProfile(profile) };
+}
+
+export async function deleteScoreProfile(id: string) {
+  const result = await prisma.scoreWeightProfile.deleteMany({ where: { id } });
+  if (result.count === 0) return { success: false as const, error: "Profile not found" };
+  return { success: true as const };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const ScoreProfiles = {
+  list: listScoreProfiles,
+  resolve: resolveScoreProfile,
+  create: createScoreProfile,
+  update: updateScoreProfile,
+  delete: deleteScoreProfile,
+};
@@ -0,0 +1,274 @@
+/**
+ * SMTP Client
+ *
+ * Minimal SMTP sender for notification emails - enough for a relay such as
+ * SES, Postmark, Mailgun or Gmail:
+ * - implicit TLS (port 465) or STARTTLS (587/25, required unless allowInsecure)
+ * - AUTH PLAIN
+ * - multipart/alternative text + HTML body
+ *
+ * One connection per message; notification volume doesn't justify pooling.
+ */
+
+import * as net from "net";
+import * as tls from "tls";
+import { randomUUID } from "crypto";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;         // Implicit TLS (465). Otherwise STARTTLS is used
+  allowInsecure?: boolean; // Allow plaintext when the server has no STARTTLS
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+export interface SmtpMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SmtpSendResult {
+  success: boolean;
+  statusCode?: number; // Last SMTP reply code
+  error?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const TIMEOUT_MS = 30 * 1000;
+
+// =============================================================================
+// Connection
+// =============================================================================
+
+/**
+ * Line-oriented reader over a socket that yields complete SMTP replies
+ * (multi-line replies use "250-" continuation lines, ending with "250 ").
+ */
+class SmtpConnection {
+  private buffer = "";
+  private pending: Array<(reply: SmtpReply | Error) => void> = [];
+  private replies: SmtpReply[] = [];
+  private current: string[] = [];
+  private failure: Error | null = null;
+
+  constructor(public socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setTimeout(TIMEOUT_MS);
+    socket.on("data", (chunk: Buffer) => this.onData(chunk.toString("utf-8")));
+    socket.on("timeout", () => this.fail(new Error("SMTP connection timed out")));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  /**
+   * Stop reading the plain socket before STARTTLS wraps it - otherwise the
+   * TLS handshake bytes would be parsed as replies
+   */
+  detach() {
+    for (const event of ["data", "timeout", "error", "close"]) {
+      this.socket.removeAllListeners(event);
+    }
+    this.socket.on("error", () => undefined);
+    this.buffer = "";
+  }
+
+  private onData(data: string) {
+    this.buffer += data;
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.current.push(line);
+
+      // "250 OK" ends a reply, "250-SIZE" continues it
+      if (/^\d{3}( |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.current.map((l) => l.slice(4)) };
+        this.current = [];
+        const waiter = this.pending.shift();
+        if (waiter) waiter(reply);
+        else this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    for (const waiter of this.pending.splice(0)) waiter(error);
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.pending.push((reply) => (reply instanceof Error ? reject(reply) : resolve(reply)));
+    });
+  }
+
+  /**
+   * Send a command and check the reply code
+   */
+  async command(line: string, expect: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expect.includes(reply.code)) {
+      // Don't echo credentials back into error messages
+      const shown = line.startsWith("AUTH") ? "AUTH" : line;
+      throw Object.assign(new Error(`SMTP ${shown} failed: ${reply.code} ${reply.lines.join(" ")}`), {
+        smtpCode: reply.code,
+      });
+    }
+    return reply;
+  }
+
+  close() {
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once("error", reject);
+    socket.setTimeout(TIMEOUT_MS, () => reject(new Error("SMTP connection timed out")));
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket));
+    secureSocket.once("error", reject);
+  });
+}
+
+// =============================================================================
+// Message Formatting
+// =============================================================================
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for non-ASCII subjects (emoji in notification titles)
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+function base64Body(value: string): string {
+  return Buffer.from(value, "utf-8").toString("base64").replace(/.{76}/g, "$&\r\n");
+}
+
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+export function buildMimeMessage(config: SmtpConfig, message: SmtpMessage): string {
+  const boundary = `----=_Part_${randomUUID()}`;
+  const domain = extractAddress(config.from).split("@")[1] || config.host;
+
+  const headers = [
+    `From: ${config.from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  const parts = [
+    ["Content-Type: text/plain; charset=UTF-8", "Content-Transfer-Encoding: base64", "", base64Body(message.text)],
+  ];
+  if (message.html) {
+    parts.push(["Content-Type: text/html; charset=UTF-8", "Content-Transfer-Encoding: base64", "", base64Body(message.html)]);
+  }
+
+  const body = [
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    ...parts.flatMap((part) => [`--${boundary}`, ...part]),
+    `--${boundary}--`,
+  ];
+
+  // Dot-stuffing: a line starting with "." would otherwise end the DATA block
+  return [...headers, ...body].join("\r\n").replace(/^\./gm, "..");
+}
+
+// =============================================================================
+// Sending
+// =============================================================================
+
+export async function sendMail(config: SmtpConfig, message: SmtpMessage): Promise<SmtpSendResult> {
+  if (message.to.length === 0) {
+    return { success: false, error: "No recipients" };
+  }
+
+  let connection: SmtpConnection | null = null;
+  let lastCode: number | undefined;
+
+  try {
+    const socket = await connect(config);
+    connection = new SmtpConnection(socket);
+
+    const greeting = await connection.read();
+    if (greeting.code !== 220) throw new Error(`SMTP greeting failed: ${greeting.code}`);
+
+    let ehlo = await connection.command("EHLO tm-accounts", [250]);
+
+    if (!config.secure) {
+      const supportsStartTls = ehlo.lines.some((l) => l.toUpperCase().startsWith("STARTTLS"));
+      if (supportsStartTls) {
+        await connection.command("STARTTLS", [220]);
+        connection.detach();
+        connection.attach(await upgradeToTls(connection.socket, config.host));
+        ehlo = await connection.command("EHLO tm-accounts", [250]);
+      } else if (!config.allowInsecure) {
+        throw new Error("SMTP server does not support STARTTLS");
+      }
+    }
+
+    if (config.username) {
+      const credentials = Buffer.from(`\0${config.username}\0${config.password || ""}`, "utf-8").toString("base64");
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${extractAddress(config.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+    }
+    await connection.command("DATA", [354]);
+    const accepted = await connection.command(`${buildMimeMessage(config, message)}\r\n.`, [250]);
+    lastCode = accepted.code;
+
+    await connection.command("QUIT", [221]).catch(() => undefined);
+    return { success: true, statusCode: lastCode };
+  } catch (error) {
+    const smtpCode = (error as { smtpCode?: number }).smtpCode;
+    return {
+      success: false,
+      statusCode: smtpCode ?? lastCode,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    connection?.close();
+  }
+}
@@ -0,0 +1,548 @@
+/**
+ * Sync Scheduler
+ *
+ * Runs the POS syncs on a schedule inside the Next.js server process
+ * (started from src/instrumentation.ts):
+ * - listings:          ListingService.syncListingsFromPos (incremental, with a
+ *                      periodic full resync - see listing-service.ts)
+ * - sales:             SalesSync.syncSalesFromPos
+ * - invoices:          SalesSync.syncInvoicesFromPos
+ * - account_metadata:  ListingService.syncAccountMetadataFromPos
+ * - price_history:     PriceHistory.compact (downsampling + retention, not a
+ *                      POS sync but shares the same locking and history)
+ * - notifications:     Notifications.retryDue (failed notification sends)
+ * - card_health:       CardHealth.sync (card ledger backfill + retirement rules)
+ * - lease_reaper:      JobLeases.reap (requeue checkout jobs / generator tasks
+ *                      whose worker lease expired). Runs on its own timer so
+ *                      a long POS sync can't hold up reaping; passes that
+ *                      found nothing aren't kept in the run history.
+ * - payout_match:      PayoutReconciliation.autoMatch (match unmatched bank
+ *                      deposits against newly synced invoices)
+ * - repricing:         RepricingService.runRepricing (apply enabled repricing
+ *                      rules and push changed prices to TicketVault)
+ *
+ * Each type has a SyncJob row holding its interval, lock and last-run summary;
+ * every run is recorded in SyncJobRun.
+ *
+ * OVERLAP: a run claims the job by setting runningSince with a conditional
+ * update, so two ticks (or two server instances) can't run the same sync at
+ * once. Locks older than STALE_LOCK_MS are treated as abandoned (crashed process).
+ *
+ * BACKOFF: after a failure the next run is pushed out by
+ * min(RETRY_BASE_MS × 2^(failures-1), MAX_BACKOFF_MS) instead of the interval.
+ * The first failure in a row raises a pos_sync.error notification.
+ *
+ * Set SYNC_SCHEDULER_ENABLED=false to disable the in-process scheduler
+ * (jobs can still be run from the Sync Jobs page).
+ */
+
+import { hostname } from "os";
+import prisma from "@/lib/db";
+import { ListingService } from "./listing-service";
+import { SalesSync } from "./sales-sync";
+import { PriceHistory } from "./price-history";
+import { Notifications } from "./notifications";
+import { CardHealth } from "./card-health";
+import { JobLeases } from "./job-leases";
+import { PayoutReconciliation } from "./payout-reconciliation";
+import { RepricingService } from "./repricing-service";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const SYNC_JOB_TYPES = ["listings", "sales", "invoices", "account_metadata", "price_history", "notifications", "card_health", "lease_reaper", "payout_match", "repricing"] as const;
+
+export type SyncJobType = typeof SYNC_JOB_TYPES[number];
+
+export type SyncTrigger = "schedule" | "manual";
+
+export interface SyncCounts {
+  mode?: string;
+  synced?: number;
+  created?: number;
+  updated?: number;
+  linked?: number;
+  skipped?: number;
+  removed?: number;
+}
+
+export interface SyncRunOptions {
+  full?: boolean; // Force a full resync (jobs with supportsFull only)
+}
+
+export interface SyncJobRunResult {
+  success: boolean;
+  skipped?: boolean; // Already running elsewhere
+  durationMs?: number;
+  counts?: SyncCounts;
+  error?: string;
+}
+
+interface SyncJobDefinition {
+  label: string;
+  defaultIntervalMinutes: number;
+  supportsFull?: boolean;
+  ownTimer?: boolean;          // Runs outside the sequential sync loop
+  pruneIdleRuns?: boolean;     // Drop the SyncJobRun row when a run changed nothing
+  run: (options: SyncRunOptions) => Promise<SyncCounts & { success: boolean; error?: string }>;
+}
+
+const SYNC_JOBS: Record<SyncJobType, SyncJobDefinition> = {
+  listings: {
+    label: "Listings",
+    defaultIntervalMinutes: 15,
+    supportsFull: true,
+    run: ({ full }) => ListingService.syncListingsFromPos({ mode: full ? "full" : undefined }),
+  },
+  sales: {
+    label: "Sales",
+    defaultIntervalMinutes: 10,
+    run: SalesSync.syncSalesFromPos,
+  },
+  invoices: {
+    label: "Invoices",
+    defaultIntervalMinutes: 30,
+    run: SalesSync.syncInvoicesFromPos,
+  },
+  account_metadata: {
+    label: "Account Metadata",
+    defaultIntervalMinutes: 60,
+    run: ListingService.syncAccountMetadataFromPos,
+  },
+  price_history: {
+    label: "Price History Compaction",
+    defaultIntervalMinutes: 6 * 60,
+    run: async () => {
+      const result = await PriceHistory.compact();
+      return { ...result, updated: result.hourlyBuckets + result.dailyBuckets, removed: result.deleted };
+    },
+  },
+  notifications: {
+    label: "Notification Retries",
+    defaultIntervalMinutes: 5,
+    run: async () => {
+      const result = await Notifications.retryDue();
+      return { ...result, synced: result.attempted, updated: result.sent, removed: result.pruned };
+    },
+  },
+  card_health: {
+    label: "Card Health",
+    defaultIntervalMinutes: 30,
+    supportsFull: true,
+    run: async ({ full }) => {
+      const result = await CardHealth.sync({ full });
+      return { ...result, mode: full ? "full" : "incremental", updated: result.retired };
+    },
+  },
+  lease_reaper: {
+    label: "Lease Reaper",
+    defaultIntervalMinutes: 1,
+    ownTimer: true,
+    pruneIdleRuns: true,
+    run: async () => {
+      const result = await JobLeases.reap();
+      return { ...result, synced: result.checked, updated: result.requeued, removed: result.failed };
+    },
+  },
+  payout_match: {
+    label: "Payout Matching",
+    defaultIntervalMinutes: 60,
+    run: async () => {
+      const result = await PayoutReconciliation.autoMatch();
+      return { ...result, synced: result.checked, updated: result.matched };
+    },
+  },
+  repricing: {
+    label: "Repricing",
+    defaultIntervalMinutes: 60,
+    run: async () => {
+      const result = await RepricingService.runRepricing({ dryRun: false });
+      return {
+        success: result.success,
+        error: result.errors.length > 0 ? result.errors.join("; ") : undefined,
+        synced: result.evaluated,
+        updated: result.applied,
+        skipped: result.failed,
+      };
+    },
+  },
+};
+
+// =============================================================================
+// Config
+// =============================================================================
+
+const TICK_MS = 30 * 1000;
+const OWN_TIMER_TICK_MS = 15 * 1000;
+const STALE_LOCK_MS = 30 * 60 * 1000;
+const RETRY_BASE_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const RUN_RETENTION_DAYS = 30;
+
+export const MIN_INTERVAL_MINUTES = 1;
+export const MAX_INTERVAL_MINUTES = 24 * 60;
+
+const PROCESS_ID = `${hostname()}:${process.pid}`;
+
+export function isSyncJobType(type: string): type is SyncJobType {
+  return (SYNC_JOB_TYPES as readonly string[]).includes(type);
+}
+
+export function getSyncJobLabel(type: SyncJobType): string {
+  return SYNC_JOBS[type].label;
+}
+
+/**
+ * Delay before retrying after `failures` consecutive failures
+ */
+export function getBackoffMs(failures: number): number {
+  return Math.min(RETRY_BASE_MS * Math.pow(2, Math.max(failures - 1, 0)), MAX_BACKOFF_MS);
+}
+
+// =============================================================================
+// Job Rows
+// =============================================================================
+
+/**
+ * Create SyncJob rows for any types that don't have one yet
+ */
+export async function ensureSyncJobs(): Promise<void> {
+  const existing = await prisma.syncJob.findMany({ select: { type: true } });
+  const existingTypes = new Set(existing.map((j) => j.type));
+
+  for (const type of SYNC_JOB_TYPES) {
+    if (existingTypes.has(type)) continue;
+    await prisma.syncJob.upsert({
+      where: { type },
+      create: {
+        type,
+        intervalMinutes: SYNC_JOBS[type].defaultIntervalMinutes,
+        nextRunAt: new Date(),
+      },
+      update: {},
+    });
+  }
+}
+
+/**
+ * All jobs with their recent runs, for the status panel
+ */
+export async function listSyncJobs(recentRuns = 10) {
+  await ensureSyncJobs();
+
+  const jobs = await prisma.syncJob.findMany({
+    include: {
+      runs: {
+        orderBy: { startedAt: "desc" },
+        take: recentRuns,
+      },
+    },
+  });
+
+  return SYNC_JOB_TYPES
+    .map((type) => jobs.find((j) => j.type === type))
+    .filter((j): j is NonNullable<typeof j> => !!j)
+    .map((job) => ({
+      ...job,
+      label: SYNC_JOBS[job.type as SyncJobType].label,
+      supportsFull: !!SYNC_JOBS[job.type as SyncJobType].supportsFull,
+      isRunning: !!job.runningSince && Date.now() - job.runningSince.getTime() < STALE_LOCK_MS,
+      lastRun: job.runs[0] || null,
+    }));
+}
+
+export async function updateSyncJob(
+  type: SyncJobType,
+  data: { isEnabled?: boolean; intervalMinutes?: number }
+): Promise<{ success: boolean; error?: string }> {
+  if (data.intervalMinutes !== undefined) {
+    if (
+      !Number.isInteger(data.intervalMinutes) ||
+      data.intervalMinutes < MIN_INTERVAL_MINUTES ||
+      data.intervalMinutes > MAX_INTERVAL_MINUTES
+    ) {
+      return {
+        success: false,
+        error: `intervalMinutes must be a whole number between ${MIN_INTERVAL_MINUTES} and ${MAX_INTERVAL_MINUTES}`,
+      };
+    }
+  }
+
+  await ensureSyncJobs();
+
+  const job = await prisma.syncJob.findUnique({ where: { type } });
+  if (!job) return { success: false, error: "Sync job not found" };
+
+  const updateData: Record<string, unknown> = {};
+  if (data.isEnabled !== undefined) {
+    updateData.isEnabled = data.isEnabled;
+    // Re-enabling clears the backoff so the job runs on the next tick
+    if (data.isEnabled && !job.isEnabled) {
+      updateData.consecutiveFailures = 0;
+      updateData.nextRunAt = new Date();
+    }
+  }
+  if (data.intervalMinutes !== undefined) {
+    updateData.intervalMinutes = data.intervalMinutes;
+    // Reschedule from the last run using the new interval
+    if (job.lastFinishedAt && job.consecutiveFailures === 0) {
+      updateData.nextRunAt = new Date(job.lastFinishedAt.getTime() + data.intervalMinutes * 60 * 1000);
+    }
+  }
+
+  await prisma.syncJob.update({ where: { type }, data: updateData });
+  return { success: true };
+}
+
+// =============================================================================
+// Running
+// =============================================================================
+
+/**
+ * Claim the job lock. Returns false if another run holds a live lock.
+ */
+async function claimJob(type: SyncJobType, now: Date): Promise<boolean> {
+  const staleBefore = new Date(now.getTime() - STALE_LOCK_MS);
+  const claimed = await prisma.syncJob.updateMany({
+    where: {
+      type,
+      OR: [{ runningSince: null }, { runningSince: { lt: staleBefore } }],
+    },
+    data: {
+      runningSince: now,
+      lockedBy: PROCESS_ID,
+      lastStartedAt: now,
+    },
+  });
+  return claimed.count === 1;
+}
+
+/**
+ * Run a sync job now, unless it is already running
+ */
+export async function runSyncJob(
+  type: SyncJobType,
+  trigger: SyncTrigger = "manual",
+  options: SyncRunOptions = {}
+): Promise<SyncJobRunResult> {
+  await ensureSyncJobs();
+
+  const startedAt = new Date();
+  if (!(await claimJob(type, startedAt))) {
+    console.log(`[SyncScheduler] ${type} already running, skipping`);
+    return { success: false, skipped: true, error: "Sync is already running" };
+  }
+
+  const job = await prisma.syncJob.findUniqueOrThrow({ where: { type } });
+  const run = await prisma.syncJobRun.create({
+    data: { jobId: job.id, trigger, startedAt },
+  });
+
+  if (!SYNC_JOBS[type].pruneIdleRuns) console.log(`[SyncScheduler] Starting ${type} (${trigger})`);
+
+  let success = false;
+  let counts: SyncCounts = {};
+  let error: string | undefined;
+
+  try {
+    const result = await SYNC_JOBS[type].run(options);
+    success = result.success;
+    error = result.error;
+    counts = {
+      mode: result.mode,
+      synced: result.synced,
+      created: result.created,
+      updated: result.updated,
+      linked: result.linked,
+      skipped: result.skipped,
+      removed: result.removed,
+    };
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const finishedAt = new Date();
+  const durationMs = finishedAt.getTime() - startedAt.getTime();
+  const failures = success ? 0 : job.consecutiveFailures + 1;
+  const nextRunAt = new Date(
+    finishedAt.getTime() + (success ? job.intervalMinutes * 60 * 1000 : getBackoffMs(failures))
+  );
+  const idle = success && !!SYNC_JOBS[type].pruneIdleRuns && Object.values(counts).every((v) => !v);
+
+  await prisma.$transaction([
+    idle
+      ? prisma.syncJobRun.delete({ where: { id: run.id } })
+      : prisma.syncJobRun.update({
+          where: { id: run.id },
+          data: {
+            status: success ? "SUCCESS" : "FAILED",
+            finishedAt,
+            durationMs,
+            ...counts,
+            errorMessage: error || null,
+          },
+        }),
+    prisma.syncJob.update({
+      where: { type },
+      data: {
+        runningSince: null,
+        lockedBy: null,
+        lastFinishedAt: finishedAt,
+        lastDurationMs: durationMs,
+        lastStatus: success ? "SUCCESS" : "FAILED",
+        lastError: error || null,
+        consecutiveFailures: failures,
+        nextRunAt,
+      },
+    }),
+  ]);
+
+  if (success) {
+    if (!idle) console.log(`[SyncScheduler] ${type} finished in ${durationMs}ms`);
+  } else {
+    console.error(
+      `[SyncScheduler] ${type} failed (${failures} in a row), retrying at ${nextRunAt.toISOString()}: ${error}`
+    );
+
+    // Alert once per failure streak. Retry failures would only re-queue themselves.
+    if (failures === 1 && type !== "notifications") {
+      await Notifications.notify("pos_sync.error", {
+        jobType: type,
+        label: SYNC_JOBS[type].label,
+        trigger,
+        error: error || "Unknown error",
+        consecutiveFailures: failures,
+        nextRunAt,
+      });
+    }
+  }
+
+  return { success, durationMs, counts, error };
+}
+
+/**
+ * Run every enabled job that is due. Jobs run one at a time so a tick never
+ * hits TicketVault with several syncs at once. `ownTimer` runs the jobs that
+ * have their own timer instead of the sequential ones.
+ */
+export async function runDueSyncJobs(options: { ownTimer?: boolean } = {}): Promise<number> {
+  await ensureSyncJobs();
+
+  const now = new Date();
+  const types = SYNC_JOB_TYPES.filter((type) => !!SYNC_JOBS[type].ownTimer === !!options.ownTimer);
+  const due = await prisma.syncJob.findMany({
+    where: {
+      type: { in: [...types] },
+      isEnabled: true,
+      OR: [{ nextRunAt: null }, { nextRunAt: { lte: now } }],
+    },
+    orderBy: { nextRunAt: "asc" },
+  });
+
+  let ran = 0;
+  for (const job of due) {
+    if (!isSyncJobType(job.type)) continue;
+    const result = await runSyncJob(job.type, "schedule");
+    if (!result.skipped) ran++;
+  }
+
+  // Prune old run history
+  if (ran > 0 && !options.ownTimer) {
+    const cutoff = new Date(now.getTime() - RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    await prisma.syncJobRun.deleteMany({ where: { startedAt: { lt: cutoff } } });
+  }
+
+  return ran;
+}
+
+// =============================================================================
+// Scheduler Loop
+// =============================================================================
+
+// Kept on globalThis so dev hot reloads don't start a second loop
+const globalForScheduler = globalThis as unknown as {
+  syncSchedulerTimer: ReturnType<typeof setInterval> | undefined;
+  syncSchedulerTicking: boolean | undefined;
+  syncSchedulerOwnTimer: ReturnType<typeof setInterval> | undefined;
+  syncSchedulerOwnTicking: boolean | undefined;
+};
+
+export function isSchedulerEnabled(): boolean {
+  return process.env.SYNC_SCHEDULER_ENABLED !== "false";
+}
+
+export function isSchedulerRunning(): boolean {
+  return !!globalForScheduler.syncSchedulerTimer;
+}
+
+async function tick(): Promise<void> {
+  // A long sync can outlast the tick interval - don't stack ticks
+  if (globalForScheduler.syncSchedulerTicking) return;
+  globalForScheduler.syncSchedulerTicking = true;
+  try {
+    await runDueSyncJobs();
+  } catch (error) {
+    console.error("[SyncScheduler] Tick error:", error);
+  } finally {
+    globalForScheduler.syncSchedulerTicking = false;
+  }
+}
+
+/**
+ * Tick for the jobs with their own timer (lease reaper) - keeps running
+ * while a long POS sync holds the main loop
+ */
+async function ownTimerTick(): Promise<void> {
+  if (globalForScheduler.syncSchedulerOwnTicking) return;
+  globalForScheduler.syncSchedulerOwnTicking = true;
+  try {
+    await runDueSyncJobs({ ownTimer: true });
+  } catch (error) {
+    console.error("[SyncScheduler] Tick error:", error);
+  } finally {
+    globalForScheduler.syncSchedulerOwnTicking = false;
+  }
+}
+
+export function startSyncScheduler(): void {
+  if (!isSchedulerEnabled()) {
+    console.log("[SyncScheduler] Disabled (SYNC_SCHEDULER_ENABLED=false)");
+    return;
+  }
+  if (globalForScheduler.syncSchedulerTimer) return;
+
+  console.log(`[SyncScheduler] Started (${PROCESS_ID}), checking every ${TICK_MS / 1000}s`);
+  globalForScheduler.syncSchedulerTimer = setInterval(tick, TICK_MS);
+  globalForScheduler.syncSchedulerOwnTimer = setInterval(ownTimerTick, OWN_TIMER_TICK_MS);
+  void tick();
+  void ownTimerTick();
+}
+
+export function stopSyncScheduler(): void {
+  if (globalForScheduler.syncSchedulerTimer) {
+    clearInterval(globalForScheduler.syncSchedulerTimer);
+    globalForScheduler.syncSchedulerTimer = undefined;
+  }
+  if (globalForScheduler.syncSchedulerOwnTimer) {
+    clearInterval(globalForScheduler.syncSchedulerOwnTimer);
+    globalForScheduler.syncSchedulerOwnTimer = undefined;
+  }
+}
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+export const SyncScheduler = {
+  ensureSyncJobs,
+  listSyncJobs,
+  updateSyncJob,
+  runSyncJob,
+  runDueSyncJobs,
+  startSyncScheduler,
+  stopSyncScheduler,
+  isSchedulerEnabled,
+  isSchedulerRunning,
+  getBackoffMs,
+};
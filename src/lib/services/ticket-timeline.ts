@@ -0,0 +1,438 @@
+/**
+ * Ticket Timeline
+ *
+ * Seat-level view of the Ticket lifecycle (PURCHASED -> LISTED -> SOLD) for the
+ * ticket explorer. A seat's timeline is stitched together from:
+ * - CheckoutJob:  job.purchaseId, or purchase.externalJobId = job.id
+ * - Purchase:     ticket.purchaseId (PO number, cost, POS sync)
+ * - Listing:      ticket.listingId, with ListingPriceHistory for price changes
+ * - Sale:         ticket.saleId
+ * - Invoice:      sale.invoiceNumber (payout, remittance, cancellation)
+ * - Deposit:      invoice.depositId (payout reconciliation)
+ *
+ * STUCK: still PURCHASED with no listing ticket_stuck_days after the purchase.
+ */
+
+import prisma from "@/lib/db";
+import { Prisma, TicketStatus } from "@prisma/client";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TimelineEntryType =
+  | "CHECKOUT"
+  | "PURCHASED"
+  | "POS_SYNCED"
+  | "LISTED"
+  | "PRICE_CHANGE"
+  | "DELISTED"
+  | "SOLD"
+  | "INVOICED"
+  | "PAID"
+  | "DEPOSITED"
+  | "CANCELLED";
+
+export interface TimelineEntry {
+  type: TimelineEntryType;
+  at: Date;
+  title: string;
+  detail: string | null;
+  amount: number | null;
+}
+
+export interface TicketFilters {
+  search?: string | null;      // Event name, artist or venue
+  eventId?: string | null;
+  section?: string | null;
+  row?: string | null;
+  status?: TicketStatus | null;
+  stuck?: boolean;             // Only seats stuck in PURCHASED
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+export const STUCK_DAYS_SETTING = "ticket_stuck_days";
+export const DEFAULT_STUCK_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TICKET_LIMIT = 500;
+
+const ticketListSelect = {
+  id: true,
+  section: true,
+  row: true,
+  seatNumber: true,
+  status: true,
+  cost: true,
+  createdAt: true,
+  listingId: true,
+  event: { select: { id: true, eventName: true, artistName: true, venue: true, eventDate: true } },
+  purchase: { select: { id: true, dashboardPoNumber: true, createdAt: true } },
+  listing: { select: { price: true, createdAt: true, removedFromPosAt: true } },
+  sale: {
+    select: {
+      saleDate: true,
+      salePrice: true,
+      quantity: true,
+      invoiceNumber: true,
+      invoice: { select: { isPaid: true, isCancelled: true } },
+    },
+  },
+} satisfies Prisma.TicketSelect;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export async function getStuckDays(): Promise<number> {
+  const setting = await prisma.setting.findUnique({ where: { key: STUCK_DAYS_SETTING } });
+  return parseInt(setting?.value || "", 10) || DEFAULT_STUCK_DAYS;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function stuckWhere(stuckDays: number): Prisma.TicketWhereInput {
+  return {
+    status: TicketStatus.PURCHASED,
+    listingId: null,
+    purchase: { createdAt: { lt: new Date(Date.now() - stuckDays * DAY_MS) } },
+  };
+}
+
+function buildWhere(filters: TicketFilters, stuckDays: number): Prisma.TicketWhereInput {
+  const and: Prisma.TicketWhereInput[] = [];
+
+  if (filters.eventId) and.push({ eventId: filters.eventId });
+  if (filters.search) {
+    and.push({
+      event: {
+        OR: [
+          { eventName: { contains: filters.search, mode: "insensitive" } },
+          { artistName: { contains: filters.search, mode: "insensitive" } },
+          { venue: { contains: filters.search, mode: "insensitive" } },
+        ],
+      },
+    });
+  }
+  if (filters.section) and.push({ section: { equals: filters.section, mode: "insensitive" } });
+  if (filters.row) and.push({ row: { equals: filters.row, mode: "insensitive" } });
+  if (filters.status) and.push({ status: filters.status });
+  if (filters.stuck) and.push(stuckWhere(stuckDays));
+
+  return and.length > 0 ? { AND: and } : {};
+}
+
+function daysSince(date: Date): number {
+  return Math.floor((Date.now() - date.getTime()) / DAY_MS);
+}
+
+// =============================================================================
+// Search
+// =============================================================================
+
+/**
+ * Seats matching the filters, with counts per status and how many are stuck
+ */
+export async function searchTickets(filters: TicketFilters = {}) {
+  const stuckDays = await getStuckDays();
+  const where = buildWhere(filters, stuckDays);
+  // Counts ignore the status/stuck filters so the tabs stay meaningful
+  const countWhere = buildWhere({ ...filters, status: null, stuck: false }, stuckDays);
+
+  const [tickets, total, statusCounts, stuckCount] = await Promise.all([
+    prisma.ticket.findMany({
+      where,
+      select: ticketListSelect,
+      orderBy: [{ event: { eventDate: "asc" } }, { section: "asc" }, { row: "asc" }, { seatNumber: "asc" }],
+      take: TICKET_LIMIT,
+    }),
+    prisma.ticket.count({ where }),
+    prisma.ticket.groupBy({ by: ["status"], where: countWhere, _count: true }),
+    prisma.ticket.count({ where: { AND: [countWhere, stuckWhere(stuckDays)] } }),
+  ]);
+
+  return {
+    stuckDays,
+    total,
+    limit: TICKET_LIMIT,
+    counts: {
+      ...Object.fromEntries(
+        Object.values(TicketStatus).map((status) => [
+          status,
+          statusCounts.find((s) => s.status === status)?._count || 0,
+        ])
+      ),
+      stuck: stuckCount,
+    } as Record<TicketStatus | "stuck", number>,
+    tickets: tickets.map((t) => {
+      const purchasedDays = daysSince(t.purchase.createdAt);
+      return {
+        id: t.id,
+        event: t.event,
+        section: t.section,
+        row: t.row,
+        seatNumber: t.seatNumber,
+        status: t.status,
+        cost: Number(t.cost),
+        dashboardPoNumber: t.purchase.dashboardPoNumber,
+        purchasedAt: t.purchase.createdAt,
+        listPrice: t.listing ? Number(t.listing.price) : null,
+        listedAt: t.listing?.createdAt ?? null,
+        delisted: !!t.listing?.removedFromPosAt,
+        soldAt: t.sale?.saleDate ?? null,
+        salePrice: t.sale ? round2(Number(t.sale.salePrice) / (t.sale.quantity || 1)) : null,
+        invoiceNumber: t.sale?.invoiceNumber ?? null,
+        paid: t.sale?.invoice?.isPaid ?? false,
+        invoiceCancelled: t.sale?.invoice?.isCancelled ?? false,
+        stuck: t.status === TicketStatus.PURCHASED && !t.listingId && purchasedDays >= stuckDays,
+        purchasedDays,
+      };
+    }),
+  };
+}
+
+// =============================================================================
+// Timeline
+// =============================================================================
+
+/**
+ * Everything that happened to one seat, oldest first
+ */
+export async function getTicketTimeline(ticketId: string) {
+  const ticket = await prisma.ticket.findUnique({
+    where: { id: ticketId },
+    include: {
+      event: { select: { id: true, eventName: true, artistName: true, venue: true, eventDate: true } },
+      purchase: {
+        select: {
+          id: true,
+          externalJobId: true,
+          dashboardPoNumber: true,
+          tmOrderNumber: true,
+          status: true,
+          quantity: true,
+          totalPrice: true,
+          createdAt: true,
+          completedAt: true,
+          posSyncedAt: true,
+          posPurchaseOrderId: true,
+          account: { select: { email: true } },
+          cardLast4: true,
+        },
+      },
+      listing: {
+        select: {
+          id: true,
+          ticketGroupId: true,
+          extPONumber: true,
+          price: true,
+          quantity: true,
+          createdAt: true,
+          removedFromPosAt: true,
+          priceHistory: { orderBy: { createdAt: "asc" }, take: 200 },
+        },
+      },
+      sale: {
+        select: {
+          id: true,
+          extOrderNumber: true,
+          saleDate: true,
+          createdAt: true,
+          salePrice: true,
+          quantity: true,
+          buyerName: true,
+          invoice: {
+            select: {
+              invoiceNumber: true,
+              invoiceDate: true,
+              totalAmount: true,
+              fees: true,
+              totalQuantity: true,
+              isPaid: true,
+              payoutStatus: true,
+              remittanceDate: true,
+              isCancelled: true,
+              cancelledAt: true,
+              reconciledAt: true,
+              deposit: { select: { depositDate: true, amount: true, status: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!ticket) return null;
+
+  const { purchase, listing, sale } = ticket;
+  const invoice = sale?.invoice ?? null;
+  const stuckDays = await getStuckDays();
+
+  const job = await prisma.checkoutJob.findFirst({
+    where: {
+      OR: [
+        { purchaseId: purchase.id },
+        ...(purchase.externalJobId ? [{ id: purchase.externalJobId }] : []),
+      ],
+    },
+    select: {
+      id: true,
+      status: true,
+      createdAt: true,
+      completedAt: true,
+      accountEmail: true,
+      cardLast4: true,
+      tmOrderNumber: true,
+    },
+  });
+
+  const entries: TimelineEntry[] = [];
+  const add = (type: TimelineEntryType, at: Date | null | undefined, title: string, detail: string | null = null, amount: number | null = null) => {
+    if (at) entries.push({ type, at, title, detail, amount });
+  };
+
+  if (job) {
+    add(
+      "CHECKOUT",
+      job.completedAt || job.createdAt,
+      `Checkout job ${job.status.toLowerCase()}`,
+      [job.accountEmail, job.cardLast4 ? `card ••${job.cardLast4}` : null, job.tmOrderNumber ? `order ${job.tmOrderNumber}` : null]
+        .filter(Boolean)
+        .join(" · ") || null
+    );
+  }
+
+  add(
+    "PURCHASED",
+    purchase.completedAt || purchase.createdAt,
+    purchase.dashboardPoNumber ? `Purchased - PO ${purchase.dashboardPoNumber}` : "Purchased",
+    [purchase.account.email, purchase.cardLast4 ? `card ••${purchase.cardLast4}` : null, purchase.tmOrderNumber ? `order ${purchase.tmOrderNumber}` : null]
+      .filter(Boolean)
+      .join(" · ") || null,
+    Number(ticket.cost)
+  );
+
+  add(
+    "POS_SYNCED",
+    purchase.posSyncedAt,
+    "Sent to TicketVault",
+    purchase.posPurchaseOrderId ? `POS purchase order ${purchase.posPurchaseOrderId}` : null
+  );
+
+  if (listing) {
+    // The listing was created at the first price in its history (if it changed since)
+    const firstPrice = listing.priceHistory.length > 0 ? Number(listing.priceHistory[0].oldPrice) : Number(listing.price);
+    add(
+      "LISTED",
+      listing.createdAt,
+      "Listed",
+      `Ticket group ${listing.ticketGroupId}${listing.extPONumber ? ` · PO ${listing.extPONumber}` : ""}`,
+      firstPrice
+    );
+    for (const change of listing.priceHistory) {
+      add(
+        "PRICE_CHANGE",
+        change.createdAt,
+        `Price ${Number(change.newPrice) > Number(change.oldPrice) ? "raised" : "lowered"}`,
+        [`${Number(change.oldPrice).toFixed(2)} → ${Number(change.newPrice).toFixed(2)}`, change.source, change.reason]
+          .filter(Boolean)
+          .join(" · "),
+        Number(change.newPrice)
+      );
+    }
+    if (!sale) add("DELISTED", listing.removedFromPosAt, "Removed from TicketVault");
+  }
+
+  if (sale) {
+    add(
+      "SOLD",
+      sale.saleDate || sale.createdAt,
+      "Sold",
+      [sale.extOrderNumber ? `order ${sale.extOrderNumber}` : null, sale.buyerName, `${sale.quantity} in sale`]
+        .filter(Boolean)
+        .join(" · "),
+      round2(Number(sale.salePrice) / (sale.quantity || 1))
+    );
+  }
+
+  if (invoice) {
+    const perTicket = round2(Number(invoice.totalAmount) / (invoice.totalQuantity || sale?.quantity || 1));
+    add(
+      "INVOICED",
+      invoice.invoiceDate,
+      `Invoice #${invoice.invoiceNumber}`,
+      `${Number(invoice.totalAmount).toFixed(2)} net payout, ${Number(invoice.fees).toFixed(2)} fees`,
+      perTicket
+    );
+    if (invoice.isPaid) {
+      add("PAID", invoice.remittanceDate, "Paid out", invoice.payoutStatus, perTicket);
+    }
+    if (invoice.deposit) {
+      add(
+        "DEPOSITED",
+        invoice.deposit.depositDate,
+        "Deposit received",
+        `${Number(invoice.deposit.amount).toFixed(2)} deposit · ${invoice.deposit.status.toLowerCase().replace("_", " ")}`
+      );
+    }
+    if (invoice.isCancelled) {
+      add("CANCELLED", invoice.cancelledAt || invoice.invoiceDate, "Invoice cancelled");
+    }
+  }
+
+  entries.sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const purchasedDays = daysSince(purchase.createdAt);
+
+  return {
+    ticket: {
+      id: ticket.id,
+      event: ticket.event,
+      section: ticket.section,
+      row: ticket.row,
+      seatNumber: ticket.seatNumber,
+      status: ticket.status,
+      cost: Number(ticket.cost),
+      purchaseId: purchase.id,
+      dashboardPoNumber: purchase.dashboardPoNumber,
+      listingId: listing?.id ?? null,
+      currentPrice: listing ? Number(listing.price) : null,
+      saleId: sale?.id ?? null,
+      invoiceNumber: invoice?.invoiceNumber ?? null,
+    },
+    stuck: ticket.status === TicketStatus.PURCHASED && !listing && purchasedDays >= stuckDays,
+    purchasedDays,
+    stuckDays,
+    timeline: entries,
+  };
+}
+
+/**
+ * Parse explorer filters from query params
+ */
+export function parseTicketFilters(searchParams: URLSearchParams): TicketFilters {
+  const status = searchParams.get("status");
+  return {
+    search: searchParams.get("search"),
+    eventId: searchParams.get("eventId"),
+    section: searchParams.get("section"),
+    row: searchParams.get("row"),
+    status: status && status in TicketStatus ? (status as TicketStatus) : null,
+    stuck: searchParams.get("stuck") === "true",
+  };
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export const TicketTimeline = {
+  search: searchTickets,
+  getTimeline: getTicketTimeline,
+  getStuckDays,
+  parseFilters: parseTicketFilters,
+};
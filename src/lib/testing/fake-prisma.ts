@@ -0,0 +1,236 @@
+/**
+ * In-memory stand-in for the Prisma client, for unit tests of services that
+ * query the database.
+ *
+ * Install it before the service under test is loaded - lib/db.ts reuses
+ * globalThis.prisma when it is set:
+ *
+ *   const db = installFakePrisma({ account: [...], checkoutJob: [...] });
+ *   const { claimPair } = await import("./checkout-pairing");
+ *
+ * Supports the subset of the client the services use: find/count/create/
+ * update/delete on any model, where filters (equals, in, notIn, not, lt/lte/
+ * gt/gte, contains, AND/OR/NOT, nested relation objects), $transaction with
+ * rollback, and $queryRaw through a handler. Selects, includes and ordering
+ * are ignored - results are whole rows in insertion order. groupBy and
+ * aggregate return empty results.
+ */
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+type Tables = Record<string, Row[]>;
+
+export interface FakePrisma {
+  tables: Tables;
+  reset(data?: Tables): void;
+  queryRaw: (sql: string, values: unknown[]) => unknown[] | Promise<unknown[]>;
+}
+
+let idCounter = 0;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !(value instanceof Date) && !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function comparable(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.getTime();
+  if (value !== null && typeof value === "object" && "toNumber" in value) {
+    return (value as { toNumber(): number }).toNumber();
+  }
+  return value;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  return comparable(a) === comparable(b);
+}
+
+const OPERATORS = new Set(["equals", "in", "notIn", "not", "lt", "lte", "gt", "gte", "contains", "startsWith", "endsWith", "mode"]);
+
+function matchesFilter(value: unknown, filter: Record<string, unknown>): boolean {
+  const insensitive = filter.mode === "insensitive";
+  const text = (v: unknown) => (insensitive ? String(v).toLowerCase() : String(v));
+  for (const [op, arg] of Object.entries(filter)) {
+    const v = comparable(value);
+    const a = comparable(arg);
+    switch (op) {
+      case "equals": if (!equals(value, arg)) return false; break;
+      case "in": if (!(arg as unknown[]).some(x => equals(value, x))) return false; break;
+      case "notIn": if ((arg as unknown[]).some(x => equals(value, x))) return false; break;
+      case "not":
+        if (isPlainObject(arg) ? matchesFilter(value, arg) : equals(value, arg)) return false;
+        break;
+      case "lt": if (v === null || v === undefined || !((v as number) < (a as number))) return false; break;
+      case "lte": if (v === null || v === undefined || !((v as number) <= (a as number))) return false; break;
+      case "gt": if (v === null || v === undefined || !((v as number) > (a as number))) return false; break;
+      case "gte": if (v === null || v === undefined || !((v as number) >= (a as number))) return false; break;
+      case "contains": if (value === null || !text(value).includes(text(arg))) return false; break;
+      case "startsWith": if (value === null || !text(value).startsWith(text(arg))) return false; break;
+      case "endsWith": if (value === null || !text(value).endsWith(text(arg))) return false; break;
+    }
+  }
+  return true;
+}
+
+export function matchesWhere(row: Row, where: Where | undefined): boolean {
+  if (!where) return true;
+  for (const [key, condition] of Object.entries(where)) {
+    if (condition === undefined) continue;
+    if (key === "AND") {
+      const all = Array.isArray(condition) ? condition : [condition];
+      if (!all.every(w => matchesWhere(row, w as Where))) return false;
+    } else if (key === "OR") {
+      if (!(condition as Where[]).some(w => matchesWhere(row, w))) return false;
+    } else if (key === "NOT") {
+      const all = Array.isArray(condition) ? condition : [condition];
+      if (all.some(w => matchesWhere(row, w as Where))) return false;
+    } else if (isPlainObject(condition) && Object.keys(condition).every(k => OPERATORS.has(k))) {
+      if (!matchesFilter(row[key], condition)) return false;
+    } else if (isPlainObject(condition)) {
+      // Relation filter - matched against an embedded object or array on the row
+      const related = row[key];
+      if ("some" in condition || "every" in condition || "none" in condition) {
+        const list = Array.isArray(related) ? (related as Row[]) : [];
+        if (condition.some && !list.some(r => matchesWhere(r, condition.some as Where))) return false;
+        if (condition.every && !list.every(r => matchesWhere(r, condition.every as Where))) return false;
+        if (condition.none && list.some(r => matchesWhere(r, condition.none as Where))) return false;
+      } else if (!isPlainObject(related) || !matchesWhere(related, condition)) {
+        return false;
+      }
+    } else if (!equals(row[key], condition)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function applyData(row: Row, data: Row) {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (isPlainObject(value) && ("increment" in value || "decrement" in value || "set" in value)) {
+      const current = Number(row[key] ?? 0);
+      if ("increment" in value) row[key] = current + Number(value.increment);
+      else if ("decrement" in value) row[key] = current - Number(value.decrement);
+      else row[key] = value.set;
+    } else if (!isPlainObject(value)) {
+      row[key] = value;
+    }
+  }
+}
+
+function cloneTables(tables: Tables): Tables {
+  return Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.map(r => ({ ...r }))]));
+}
+
+function createDelegate(fake: FakePrisma, model: string) {
+  const rows = () => (fake.tables[model] ||= []);
+  const find = (args: { where?: Where; take?: number; skip?: number } = {}) => {
+    const matched = rows().filter(r => matchesWhere(r, args.where));
+    return matched.slice(args.skip || 0, args.take !== undefined ? (args.skip || 0) + args.take : undefined);
+  };
+
+  return {
+    findMany: async (args?: { where?: Where; take?: number; skip?: number }) => find(args).map(r => ({ ...r })),
+    findFirst: async (args?: { where?: Where }) => {
+      const row = find(args)[0];
+      return row ? { ...row } : null;
+    },
+    findUnique: async (args: { where: Where }) => {
+      const row = find(args)[0];
+      return row ? { ...row } : null;
+    },
+    count: async (args?: { where?: Where }) => find(args).length,
+    create: async (args: { data: Row }) => {
+      const row = { id: `fake-${++idCounter}`, ...args.data };
+      applyData(row, args.data);
+      rows().push(row);
+      return { ...row };
+    },
+    createMany: async (args: { data: Row[] }) => {
+      for (const data of args.data) rows().push({ id: `fake-${++idCounter}`, ...data });
+      return { count: args.data.length };
+    },
+    update: async (args: { where: Where; data: Row }) => {
+      const row = find(args)[0];
+      if (!row) throw new Error(`${model} not found`);
+      applyData(row, args.data);
+      return { ...row };
+    },
+    updateMany: async (args: { where?: Where; data: Row }) => {
+      const matched = find(args);
+      for (const row of matched) applyData(row, args.data);
+      return { count: matched.length };
+    },
+    upsert: async (args: { where: Where; create: Row; update: Row }) => {
+      const row = find(args)[0];
+      if (row) {
+        applyData(row, args.update);
+        return { ...row };
+      }
+      const created = { id: `fake-${++idCounter}`, ...args.create };
+      rows().push(created);
+      return { ...created };
+    },
+    delete: async (args: { where: Where }) => {
+      const row = find(args)[0];
+      if (!row) throw new Error(`${model} not found`);
+      fake.tables[model] = rows().filter(r => r !== row);
+      return { ...row };
+    },
+    deleteMany: async (args?: { where?: Where }) => {
+      const matched = new Set(find(args));
+      fake.tables[model] = rows().filter(r => !matched.has(r));
+      return { count: matched.size };
+    },
+    groupBy: async () => [],
+    aggregate: async () => ({ _sum: {}, _count: {}, _min: {}, _max: {}, _avg: {} }),
+  };
+}
+
+function createClient(fake: FakePrisma): unknown {
+  const delegates = new Map<string, ReturnType<typeof createDelegate>>();
+  const client: unknown = new Proxy({}, {
+    get(_target, prop) {
+      if (typeof prop !== "string" || prop === "then") return undefined;
+      if (prop === "$transaction") {
+        return async (arg: unknown) => {
+          if (Array.isArray(arg)) return Promise.all(arg);
+          const snapshot = cloneTables(fake.tables);
+          try {
+            return await (arg as (tx: unknown) => Promise<unknown>)(client);
+          } catch (error) {
+            fake.tables = snapshot;
+            throw error;
+          }
+        };
+      }
+      if (prop === "$queryRaw" || prop === "$executeRaw") {
+        return async (strings: TemplateStringsArray, ...values: unknown[]) => {
+          const result = await fake.queryRaw(strings.join("?"), values);
+          return prop === "$executeRaw" ? result.length : result;
+        };
+      }
+      if (prop.startsWith("$")) return async () => undefined;
+      if (!delegates.has(prop)) delegates.set(prop, createDelegate(fake, prop));
+      return delegates.get(prop);
+    },
+  });
+  return client;
+}
+
+/**
+ * Replace the shared Prisma client with an in-memory one seeded with `data`
+ * (model name -> rows)
+ */
+export function installFakePrisma(data: Tables = {}): FakePrisma {
+  const fake: FakePrisma = {
+    tables: cloneTables(data),
+    reset(next: Tables = {}) {
+      fake.tables = cloneTables(next);
+    },
+    queryRaw: () => [],
+  };
+  (globalThis as unknown as { prisma: unknown }).prisma = createClient(fake);
+  return fake;
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthService } from "@/lib/services/auth";
+import {
+  AUTH_HEADERS,
+  SESSION_COOKIE,
+  getRouteAccess,
+  hasRole,
+} from "@/lib/auth-policy";
+
+/**
+ * Auth proxy (Next.js middleware)
+ *
+ * Every page and API route requires a login session, except the daemon
+ * endpoints which take a per-worker API key. See src/lib/auth-policy.ts
+ * for the route → role table.
+ *
+ * The authenticated identity is forwarded to route handlers via the
+ * x-auth-* request headers (any client-supplied values are stripped).
+ */
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isApi = pathname.startsWith("/api");
+
+  const headers = new Headers(request.headers);
+  for (const header of Object.values(AUTH_HEADERS)) {
+    headers.delete(header);
+  }
+
+  const access = getRouteAccess(request.method, pathname);
+
+  if (access.type === "public") {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  // Daemon endpoints: API key first, then (optionally) a dashboard session
+  if (access.type === "worker") {
+    const apiKey = getApiKey(request);
+
+    if (apiKey) {
+      const worker = await AuthService.authenticateApiKey(apiKey, getClientIp(request));
+      if (!worker) {
+        return NextResponse.json({ error: "Invalid API key" }, { status: 401 });
+      }
+      if (!worker.scopes.includes(access.scope)) {
+        return NextResponse.json(
+          { error: `API key is not authorized for ${access.scope}` },
+          { status: 403 }
+        );
+      }
+      headers.set(AUTH_HEADERS.WORKER, worker.name);
+      return NextResponse.next({ request: { headers } });
+    }
+  }
+
+  const requiredRole = access.type === "role" ? access.role : access.allowSession;
+  if (!requiredRole) {
+    return NextResponse.json({ error: "API key required" }, { status: 401 });
+  }
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const user = token ? await AuthService.getSessionUser(token) : null;
+
+  if (!user) {
+    if (isApi) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!hasRole(user.role, requiredRole)) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: `Requires ${requiredRole} role` },
+        { status: 403 }
+      );
+    }
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  headers.set(AUTH_HEADERS.USER_ID, user.id);
+  headers.set(AUTH_HEADERS.USERNAME, user.username);
+  headers.set(AUTH_HEADERS.ROLE, user.role);
+  return NextResponse.next({ request: { headers } });
+}
+
+function getApiKey(request: NextRequest): string | null {
+  const header = request.headers.get("x-api-key");
+  if (header) return header;
+
+  const authorization = request.headers.get("authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  return null;
+}
+
+function getClientIp(request: NextRequest): string | null {
+  return (
+    request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    request.headers.get("x-real-ip") ||
+    null
+  );
+}
+
+export const config = {
+  matcher: [
+    // Everything except Next internals and static files
+    "/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|svg|ico|webp)$).*)",
+  ],
+};